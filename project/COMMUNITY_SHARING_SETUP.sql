@@ -21,6 +21,8 @@ CREATE TABLE community_music (
     uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     original_filename VARCHAR(255),
     file_hash VARCHAR(64) UNIQUE, -- SHA-256 hash to prevent duplicates
+    fingerprint TEXT, -- base64 chroma fingerprint for near-duplicate detection
+    near_duplicates JSONB, -- matches found when the upload was checked
     
     -- Community metrics
     play_count BIGINT DEFAULT 0,
@@ -205,6 +207,7 @@ CREATE INDEX idx_community_music_status ON community_music(status);
 CREATE INDEX idx_community_music_uploaded_by ON community_music(uploaded_by);
 CREATE INDEX idx_community_music_genre ON community_music(genre);
 CREATE INDEX idx_community_music_play_count ON community_music(play_count DESC);
+CREATE INDEX idx_community_music_fingerprint_duration ON community_music(duration) WHERE fingerprint IS NOT NULL;
 
 CREATE INDEX idx_community_playlists_search ON community_playlists USING GIN(search_vector);
 CREATE INDEX idx_community_playlists_created_by ON community_playlists(created_by);
@@ -208,52 +208,281 @@ async function handleAudioRequest(request) {
   }
 }
 
+// Offline action outbox, shared with src/services/OfflineOutbox.ts: same database, entries and replay rules
+const OUTBOX_DB_NAME = 'MeowPlayOutbox';
+const OUTBOX_DB_VERSION = 2;
+const OUTBOX_STORE = 'actions';
+const OUTBOX_SESSION_STORE = 'session';
+const OUTBOX_SESSION_KEY = 'current';
+const OUTBOX_SYNC_TAG = 'outbox-sync';
+const OUTBOX_LEASE_DURATION = 30 * 1000;
+const OUTBOX_BASE_DELAY = 2000;
+const OUTBOX_MAX_DELAY = 5 * 60 * 1000;
+const OUTBOX_MAX_ATTEMPTS = 8;
+
+// Server answers meaning the action no longer applies to the current server state
+const OUTBOX_CONFLICT_REASONS = {
+  403: 'No longer allowed to change this item',
+  404: 'The item no longer exists',
+  409: 'The item changed on the server',
+  410: 'The item no longer exists',
+  412: 'The item changed on the server'
+};
+
 // Background sync for offline actions
 self.addEventListener('sync', event => {
-  if (event.tag === 'background-sync') {
+  if (event.tag === OUTBOX_SYNC_TAG || event.tag === 'background-sync') {
     event.waitUntil(handleBackgroundSync());
   }
 });
 
 async function handleBackgroundSync() {
-  // Handle queued actions when back online
-  const queuedActions = await getQueuedActions();
+  // Replay queued actions in order; a scope waits while an earlier action in it is pending
+  const db = await openOutbox();
+  const queuedActions = await getQueuedActions(db);
+  if (!queuedActions.length) return;
+  
+  // Actions go to Supabase as the user the app last saw signed in; without a live token they wait for the app
+  const session = await outboxRequest(db, 'readonly', store => store.get(OUTBOX_SESSION_KEY), OUTBOX_SESSION_STORE);
+  if (!session || session.expiresAt <= Date.now()) {
+    throw new Error('Queued actions wait for a signed-in session');
+  }
+  
+  const result = { synced: [], conflicts: [], failed: [] };
+  const blockedScopes = new Set();
+  let pending = false;
   
   for (const action of queuedActions) {
-    try {
-      await processQueuedAction(action);
-      await removeQueuedAction(action.id);
-    } catch (error) {
-      console.error('Failed to process queued action:', error);
+    // Another user's actions wait until they sign in again
+    if (action.userId && action.userId !== session.userId) continue;
+    
+    const now = Date.now();
+    const claimed = blockedScopes.has(action.scope) || action.nextAttemptAt > now
+      ? null
+      : await claimQueuedAction(db, action.id, now);
+    
+    if (!claimed) {
+      blockedScopes.add(action.scope);
+      pending = true;
+      continue;
+    }
+    
+    const { outcome, entry } = await processQueuedAction(db, session, claimed);
+    if (outcome === 'retry') {
+      blockedScopes.add(action.scope);
+      pending = true;
+    } else {
+      result[outcome === 'synced' ? 'synced' : outcome === 'conflict' ? 'conflicts' : 'failed'].push(entry);
     }
   }
+  
+  const windows = await self.clients.matchAll({ type: 'window' });
+  windows.forEach(client => client.postMessage({ type: 'OUTBOX_REPLAYED', ...result }));
+  
+  // A failed sync event is retried by the browser later
+  if (pending) {
+    throw new Error('Queued actions still pending');
+  }
 }
 
-async function getQueuedActions() {
-  // Implementation would retrieve from IndexedDB
-  return [];
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        store.createIndex('key', 'key');
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_SESSION_STORE)) {
+        db.createObjectStore(OUTBOX_SESSION_STORE);
+      }
+    };
+  });
+}
+
+function outboxRequest(db, mode, action, storeName = OUTBOX_STORE) {
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction([storeName], mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getQueuedActions(db) {
+  const actions = await outboxRequest(db, 'readonly', store => store.getAll());
+  return actions
+    .filter(action => action.status === 'pending')
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Lease an action so the app does not send it at the same time
+function claimQueuedAction(db, actionId, now) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([OUTBOX_STORE], 'readwrite');
+    const store = transaction.objectStore(OUTBOX_STORE);
+    let claimed = null;
+    
+    const request = store.get(actionId);
+    request.onsuccess = () => {
+      const action = request.result;
+      if (!action || action.status !== 'pending' || action.leaseUntil > now) return;
+      claimed = { ...action, leaseUntil: now + OUTBOX_LEASE_DURATION };
+      store.put(claimed);
+    };
+    
+    transaction.oncomplete = () => resolve(claimed);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function processQueuedAction(db, session, action) {
+  try {
+    await performQueuedAction(session, action);
+  } catch (error) {
+    const status = error.status || 0;
+    const reason = OUTBOX_CONFLICT_REASONS[status];
+    if (reason) {
+      const conflicted = { ...action, status: 'conflict', leaseUntil: 0, conflict: { status, reason } };
+      await outboxRequest(db, 'readwrite', store => store.put(conflicted));
+      return { outcome: 'conflict', entry: conflicted };
+    }
+    
+    if (status === 0 || status === 408 || status === 429 || status >= 500) {
+      return rescheduleQueuedAction(db, action, status ? `HTTP ${status}` : String(error), error.retryAfter || 0);
+    }
+    
+    const failed = { ...action, status: 'failed', leaseUntil: 0, lastError: `HTTP ${status}` };
+    await outboxRequest(db, 'readwrite', store => store.put(failed));
+    return { outcome: 'failed', entry: failed };
+  }
+  
+  await removeQueuedAction(db, action.id);
+  return { outcome: 'synced', entry: action };
 }
 
-async function processQueuedAction(action) {
-  // Implementation would process different types of actions
+// Same operations as OfflineOutbox.perform through ApiService, as Supabase REST calls; each is safe to repeat
+async function performQueuedAction(session, { id, userId: queuedBy, action }) {
+  if (queuedBy && queuedBy !== session.userId) {
+    throw new Error('Queued by another user');
+  }
+  const userId = session.userId;
+  
   switch (action.type) {
-    case 'LIKE_SONG':
-      await fetch('/api/songs/like', {
-        method: 'POST',
-        body: JSON.stringify(action.data)
-      });
-      break;
-    case 'CREATE_PLAYLIST':
-      await fetch('/api/playlists', {
-        method: 'POST',
-        body: JSON.stringify(action.data)
-      });
-      break;
+    case 'like': {
+      const rows = await supabaseRest(session, 'POST', 'user_likes?on_conflict=user_id,song_id&select=id',
+        { user_id: userId, song_id: action.songId }, 'resolution=ignore-duplicates,return=representation');
+      if (rows.length) await supabaseRpc(session, 'increment_song_likes', { song_id: action.songId });
+      return;
+    }
+    case 'unlike': {
+      const rows = await supabaseRest(session, 'DELETE', `user_likes?user_id=eq.${q(userId)}&song_id=eq.${q(action.songId)}&select=id`,
+        undefined, 'return=representation');
+      if (rows.length) await supabaseRpc(session, 'decrement_song_likes', { song_id: action.songId });
+      return;
+    }
+    case 'playlistAdd': {
+      let position = action.position;
+      if (position === undefined) {
+        const last = await supabaseRest(session, 'GET',
+          `playlist_songs?playlist_id=eq.${q(action.playlistId)}&select=position&order=position.desc&limit=1`);
+        position = last.length ? last[0].position + 1 : 0;
+      }
+      await supabaseRest(session, 'POST', 'playlist_songs?on_conflict=playlist_id,song_id',
+        { playlist_id: action.playlistId, song_id: action.songId, position, added_by: userId }, 'resolution=ignore-duplicates');
+      return;
+    }
+    case 'playlistRemove':
+      await supabaseRest(session, 'DELETE', `playlist_songs?playlist_id=eq.${q(action.playlistId)}&song_id=eq.${q(action.songId)}`);
+      return;
+    case 'playlistReorder': {
+      const [playlist] = await supabaseRest(session, 'GET', `playlists?id=eq.${q(action.playlistId)}&select=updated_at`);
+      if (!playlist) throw Object.assign(new Error('Playlist not found'), { status: 404 });
+      if (action.baseVersion && new Date(playlist.updated_at).getTime() !== new Date(action.baseVersion).getTime()) {
+        throw Object.assign(new Error('Playlist changed since it was reordered'), { status: 412 });
+      }
+      for (const [position, songId] of action.songIds.entries()) {
+        await supabaseRest(session, 'PATCH', `playlist_songs?playlist_id=eq.${q(action.playlistId)}&song_id=eq.${q(songId)}`, { position });
+      }
+      await supabaseRest(session, 'PATCH', `playlists?id=eq.${q(action.playlistId)}`, { updated_at: new Date().toISOString() });
+      return;
+    }
+    case 'follow':
+      await supabaseRest(session, 'POST', 'user_follows?on_conflict=follower_id,following_id',
+        { follower_id: userId, following_id: action.userId }, 'resolution=ignore-duplicates');
+      return;
+    case 'unfollow':
+      await supabaseRest(session, 'DELETE', `user_follows?follower_id=eq.${q(userId)}&following_id=eq.${q(action.userId)}`);
+      return;
+    case 'trackPlay': {
+      // The entry id is the play's row id, so a replayed play is recorded once
+      const rows = await supabaseRest(session, 'POST', 'listening_history?on_conflict=id&select=id', {
+        id,
+        user_id: userId,
+        song_id: action.songId,
+        play_duration: Math.round(action.duration),
+        played_at: new Date(action.playedAt).toISOString()
+      }, 'resolution=ignore-duplicates,return=representation');
+      if (rows.length) await supabaseRpc(session, 'increment_play_count', { song_id: action.songId });
+      return;
+    }
   }
 }
 
-async function removeQueuedAction(actionId) {
-  // Implementation would remove from IndexedDB
+const q = value => encodeURIComponent(value);
+
+// A PostgREST call as the signed-in user; rejects with the HTTP status and Retry-After
+async function supabaseRest(session, method, path, body, prefer) {
+  const response = await fetch(`${session.url}/rest/v1/${path}`, {
+    method,
+    headers: {
+      apikey: session.anonKey,
+      Authorization: `Bearer ${session.accessToken}`,
+      'Content-Type': 'application/json',
+      ...(prefer ? { Prefer: prefer } : {})
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  
+  if (!response.ok) {
+    const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+    throw Object.assign(new Error(`HTTP ${response.status}`), {
+      status: response.status,
+      retryAfter: Number.isNaN(retryAfter) ? 0 : retryAfter * 1000
+    });
+  }
+  
+  const text = await response.text();
+  return text ? JSON.parse(text) : [];
+}
+
+// Counters, like ApiService, are best effort: the row above is what makes the action synced
+async function supabaseRpc(session, fn, args) {
+  try {
+    await supabaseRest(session, 'POST', `rpc/${fn}`, args);
+  } catch (error) {
+    console.warn(`Failed to call ${fn}:`, error);
+  }
+}
+
+async function rescheduleQueuedAction(db, action, error, retryAfter) {
+  const attempts = action.attempts + 1;
+  if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+    const failed = { ...action, attempts, status: 'failed', leaseUntil: 0, lastError: error };
+    await outboxRequest(db, 'readwrite', store => store.put(failed));
+    return { outcome: 'failed', entry: failed };
+  }
+  
+  const delay = Math.max(retryAfter, Math.min(OUTBOX_MAX_DELAY, OUTBOX_BASE_DELAY * 2 ** (attempts - 1)));
+  const rescheduled = { ...action, attempts, leaseUntil: 0, lastError: error, nextAttemptAt: Date.now() + delay };
+  await outboxRequest(db, 'readwrite', store => store.put(rescheduled));
+  return { outcome: 'retry', entry: rescheduled };
+}
+
+async function removeQueuedAction(db, actionId) {
+  await outboxRequest(db, 'readwrite', store => store.delete(actionId));
 }
 
 // Push notifications
@@ -38,6 +38,7 @@ const CommunityDiscovery = lazy(() => import('./components/CommunityDiscovery'))
 const CommunityUpload = lazy(() => import('./components/CommunityUpload'));
 const AdminModeration = lazy(() => import('./components/AdminModeration'));
 const PrivacySettings = lazy(() => import('./components/PrivacySettings'));
+const OfflineSettings = lazy(() => import('./components/OfflineSettings'));
 
 const App: React.FC = () => {
   React.useEffect(() => {
@@ -195,6 +196,14 @@ const App: React.FC = () => {
                                   </ProtectedRoute>
                                 }
                               />
+                              <Route
+                                path="settings/offline"
+                                element={
+                                  <ProtectedRoute>
+                                    <OfflineSettings />
+                                  </ProtectedRoute>
+                                }
+                              />
                               <Route path="404" element={<NotFound />} />
                               <Route path="*" element={<Navigate to="/404" replace />} />
                             </Route>
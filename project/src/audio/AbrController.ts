@@ -0,0 +1,128 @@
+/**
+ * Adaptive Bitrate Controller for Meow-Play
+ * Features: BOLA buffer-based quality selection, hysteresis bands, throughput caps, low-buffer fallback
+ */
+
+export interface AbrOptions {
+  bufferTarget: number; // seconds of buffer at which BOLA settles on the top quality
+  minimumBuffer: number; // seconds below which BOLA stays on the lowest quality
+  safetyFactor: number; // share of the measured throughput a quality may use
+  hysteresis: number; // seconds the buffer must clear a switch threshold by
+  panicBuffer: number; // below this, drop straight to what the throughput sustains
+}
+
+export interface AbrInput {
+  bitrates: number[]; // kbps, ascending
+  currentIndex: number;
+  bufferLevel: number; // seconds buffered ahead of the playhead
+  throughput: number | null; // kbps
+}
+
+export type AbrReason =
+  | 'no_estimate'
+  | 'buffer_low'
+  | 'bola_up'
+  | 'bola_down'
+  | 'throughput_cap'
+  | 'hold';
+
+export interface AbrDecision {
+  index: number;
+  reason: AbrReason;
+  bolaIndex: number; // BOLA's choice for the current buffer level, before hysteresis
+  throughputIndex: number; // highest quality the throughput sustains
+}
+
+const DEFAULT_OPTIONS: AbrOptions = {
+  bufferTarget: 30,
+  minimumBuffer: 10,
+  safetyFactor: 0.9,
+  hysteresis: 2,
+  panicBuffer: 4
+};
+
+// BOLA needs room above the minimum buffer for every quality step
+const BUFFER_PER_LEVEL = 2;
+
+export class AbrController {
+  private options: AbrOptions;
+
+  constructor(options: Partial<AbrOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Pick the quality for the next download. BOLA decides from buffer occupancy; a switch up
+   * also needs the throughput to sustain the new bitrate, and a switch down only goes as far
+   * as the throughput requires.
+   */
+  decide(input: AbrInput): AbrDecision {
+    const { bitrates, bufferLevel, throughput } = input;
+    const current = Math.max(0, Math.min(bitrates.length - 1, input.currentIndex));
+    const bolaIndex = this.bolaIndex(bitrates, bufferLevel);
+
+    if (throughput === null) {
+      return { index: current, reason: 'no_estimate', bolaIndex, throughputIndex: current };
+    }
+
+    const throughputIndex = this.selectForThroughput(bitrates, throughput);
+    const decision = (index: number, reason: AbrReason): AbrDecision => ({ index, reason, bolaIndex, throughputIndex });
+
+    if (bufferLevel < this.options.panicBuffer && throughputIndex < current) {
+      return decision(throughputIndex, 'buffer_low');
+    }
+
+    // Hysteresis: the buffer must clear BOLA's threshold for a switch by a margin
+    const upIndex = this.bolaIndex(bitrates, bufferLevel - this.options.hysteresis);
+    const downIndex = this.bolaIndex(bitrates, bufferLevel + this.options.hysteresis);
+
+    if (upIndex > current) {
+      const capped = Math.min(upIndex, Math.max(throughputIndex, current));
+      return capped > current ? decision(capped, 'bola_up') : decision(current, 'throughput_cap');
+    }
+
+    if (downIndex < current && throughputIndex < current) {
+      return decision(Math.max(downIndex, throughputIndex), 'bola_down');
+    }
+
+    return decision(current, 'hold');
+  }
+
+  /**
+   * Highest quality whose bitrate fits within the safe share of the throughput
+   */
+  selectForThroughput(bitrates: number[], throughput: number): number {
+    let index = 0;
+    bitrates.forEach((bitrate, i) => {
+      if (bitrate <= throughput * this.options.safetyFactor) index = i;
+    });
+    return index;
+  }
+
+  /**
+   * BOLA-BASIC: maximise (V * (utility + gamma * p) - Q) / bitrate for buffer level Q
+   */
+  bolaIndex(bitrates: number[], bufferLevel: number): number {
+    if (bitrates.length < 2) return 0;
+
+    const lowest = bitrates[0]!;
+    const utilities = bitrates.map(bitrate => Math.log(bitrate / lowest) + 1);
+    const topUtility = utilities[utilities.length - 1]!;
+
+    const minimumBuffer = this.options.minimumBuffer;
+    const bufferTime = Math.max(this.options.bufferTarget, minimumBuffer + BUFFER_PER_LEVEL * bitrates.length);
+    const gp = (topUtility - 1) / (bufferTime / minimumBuffer - 1);
+    const vp = minimumBuffer / gp;
+
+    let best = 0;
+    let bestScore = -Infinity;
+    bitrates.forEach((bitrate, i) => {
+      const score = (vp * (utilities[i]! + gp) - bufferLevel) / bitrate;
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Acoustic Fingerprint for Meow-Play
+ * Features: Chromaprint-style chroma fingerprint from decoded PCM, compact base64 encoding, offset-aligned similarity
+ */
+
+import { fft, hannWindow, downmix, decimate } from './dsp';
+
+export interface FingerprintMatch {
+  similarity: number; // 0..1, share of matching bits in the best alignment
+  offset: number; // sub-fingerprints the second print is shifted by
+}
+
+export const FINGERPRINT_SAMPLE_RATE = 11025;
+// Re-encodes of the same recording score above ~0.9, unrelated audio around 0.5-0.65
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+
+const FRAME_SIZE = 4096;
+const HOP_SIZE = FRAME_SIZE / 3 | 0;
+const MIN_FREQUENCY = 28;
+const MAX_FREQUENCY = 3520;
+const CHROMA_BANDS = 12;
+const MAX_DURATION = 120; // seconds, like fpcalc
+const MAX_ALIGNMENT_OFFSET = 80; // sub-fingerprints, ~10s
+const MIN_OVERLAP = 20;
+
+export const FINGERPRINT_FRAME_DURATION = HOP_SIZE / FINGERPRINT_SAMPLE_RATE;
+
+// Temporal smoothing applied to the chroma vectors before normalization
+const CHROMA_FILTER = [0.25, 0.75, 1.0, 0.75, 0.25];
+
+interface Classifier {
+  type: number; // Haar-like filter shape
+  y: number; // first chroma band
+  height: number; // chroma bands covered
+  width: number; // frames covered
+  thresholds: [number, number, number];
+}
+
+// Chromaprint's default (TEST2) classifier set
+const CLASSIFIERS: Classifier[] = [
+  { type: 0, y: 4, height: 3, width: 15, thresholds: [1.98215, 2.35817, 2.63523] },
+  { type: 4, y: 4, height: 6, width: 15, thresholds: [-1.03809, -0.651211, -0.282167] },
+  { type: 1, y: 0, height: 4, width: 16, thresholds: [-0.298702, 0.119262, 0.558497] },
+  { type: 3, y: 8, height: 2, width: 12, thresholds: [-0.105439, 0.0153946, 0.135898] },
+  { type: 3, y: 4, height: 4, width: 8, thresholds: [-0.142891, 0.0258736, 0.200632] },
+  { type: 4, y: 0, height: 3, width: 5, thresholds: [-0.826319, -0.590612, -0.368214] },
+  { type: 1, y: 2, height: 2, width: 9, thresholds: [-0.557409, -0.233035, 0.0534525] },
+  { type: 2, y: 7, height: 3, width: 4, thresholds: [-0.0646826, 0.00620476, 0.0784847] },
+  { type: 2, y: 6, height: 2, width: 16, thresholds: [-0.192387, -0.029699, 0.215855] },
+  { type: 2, y: 1, height: 3, width: 2, thresholds: [-0.0397818, -0.00568076, 0.0292026] },
+  { type: 5, y: 10, height: 1, width: 15, thresholds: [-0.53823, -0.369934, -0.190235] },
+  { type: 3, y: 6, height: 2, width: 10, thresholds: [-0.124877, 0.0296483, 0.139239] },
+  { type: 2, y: 1, height: 1, width: 14, thresholds: [-0.101475, 0.0225617, 0.231971] },
+  { type: 3, y: 5, height: 6, width: 4, thresholds: [-0.0799915, -0.00729616, 0.063262] },
+  { type: 1, y: 9, height: 2, width: 12, thresholds: [-0.272556, 0.019424, 0.302559] },
+  { type: 3, y: 4, height: 2, width: 14, thresholds: [-0.164292, -0.0321188, 0.08463] }
+];
+
+const MAX_CLASSIFIER_WIDTH = Math.max(...CLASSIFIERS.map(classifier => classifier.width));
+const GRAY_CODE = [0, 1, 3, 2];
+
+export class AcousticFingerprint {
+  private static bandOfBin: Int8Array | null = null;
+
+  /**
+   * Fingerprint decoded PCM; only the first two minutes are used
+   */
+  static compute(channels: Float32Array[], sampleRate: number, maxDuration: number = MAX_DURATION): Uint32Array {
+    const mono = downmix(channels, Math.floor(maxDuration * sampleRate));
+    const samples = decimate(mono, sampleRate, FINGERPRINT_SAMPLE_RATE);
+    const chroma = AcousticFingerprint.normalize(AcousticFingerprint.smooth(AcousticFingerprint.chromagram(samples)));
+
+    const count = chroma.length - MAX_CLASSIFIER_WIDTH + 1;
+    if (count <= 0) return new Uint32Array(0);
+
+    const image = AcousticFingerprint.integralImage(chroma);
+    const fingerprint = new Uint32Array(count);
+
+    for (let x = 0; x < count; x++) {
+      let bits = 0;
+      CLASSIFIERS.forEach((classifier, i) => {
+        const value = AcousticFingerprint.applyFilter(image, classifier, x);
+        bits |= (GRAY_CODE[AcousticFingerprint.quantize(value, classifier.thresholds)] ?? 0) << (2 * i);
+      });
+      fingerprint[x] = bits >>> 0;
+    }
+
+    return fingerprint;
+  }
+
+  /**
+   * Fingerprint a decoded AudioBuffer
+   */
+  static computeBuffer(buffer: AudioBuffer): Uint32Array {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    return AcousticFingerprint.compute(channels, buffer.sampleRate);
+  }
+
+  /**
+   * Decode a file at the fingerprint sample rate and fingerprint it; null where Web Audio is unavailable
+   */
+  static async fromBlob(blob: Blob): Promise<Uint32Array | null> {
+    if (typeof OfflineAudioContext === 'undefined') return null;
+
+    // Decoding through an 11.025 kHz context lets the browser do the resampling
+    const context = new OfflineAudioContext(1, 1, FINGERPRINT_SAMPLE_RATE);
+    const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+    return AcousticFingerprint.computeBuffer(decoded);
+  }
+
+  /**
+   * Best bitwise similarity of two fingerprints over small alignment offsets
+   */
+  static compare(a: Uint32Array, b: Uint32Array): FingerprintMatch {
+    let best: FingerprintMatch = { similarity: 0, offset: 0 };
+    const minOverlap = Math.min(MIN_OVERLAP, a.length, b.length);
+    if (minOverlap === 0) return best;
+
+    for (let offset = -MAX_ALIGNMENT_OFFSET; offset <= MAX_ALIGNMENT_OFFSET; offset++) {
+      const start = Math.max(0, -offset);
+      const end = Math.min(a.length, b.length - offset);
+      const overlap = end - start;
+      if (overlap < minOverlap) continue;
+
+      let errors = 0;
+      for (let i = start; i < end; i++) {
+        errors += AcousticFingerprint.popCount(((a[i] ?? 0) ^ (b[i + offset] ?? 0)) >>> 0);
+      }
+
+      const similarity = 1 - errors / (overlap * 32);
+      if (similarity > best.similarity) {
+        best = { similarity, offset };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Pack a fingerprint as base64 of little-endian 32-bit words
+   */
+  static encode(fingerprint: Uint32Array): string {
+    const bytes = new Uint8Array(fingerprint.length * 4);
+    const view = new DataView(bytes.buffer);
+    fingerprint.forEach((value, i) => view.setUint32(i * 4, value, true));
+
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+
+  /**
+   * Unpack a fingerprint produced by encode
+   */
+  static decode(encoded: string): Uint32Array {
+    const binary = atob(encoded);
+    const view = new DataView(Uint8Array.from(binary, c => c.charCodeAt(0)).buffer);
+    const fingerprint = new Uint32Array(Math.floor(binary.length / 4));
+    for (let i = 0; i < fingerprint.length; i++) {
+      fingerprint[i] = view.getUint32(i * 4, true);
+    }
+    return fingerprint;
+  }
+
+  /**
+   * 12-band pitch class energy per 4096-sample frame
+   */
+  private static chromagram(samples: Float32Array): Float64Array[] {
+    const window = hannWindow(FRAME_SIZE);
+    const bandOfBin = AcousticFingerprint.getBandOfBin();
+    const frames: Float64Array[] = [];
+    const real = new Float64Array(FRAME_SIZE);
+    const imag = new Float64Array(FRAME_SIZE);
+
+    for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        real[i] = (samples[start + i] ?? 0) * (window[i] ?? 0);
+        imag[i] = 0;
+      }
+      fft(real, imag);
+
+      const chroma = new Float64Array(CHROMA_BANDS);
+      for (let bin = 0; bin < bandOfBin.length; bin++) {
+        const band = bandOfBin[bin] ?? -1;
+        if (band < 0) continue;
+        const re = real[bin] ?? 0;
+        const im = imag[bin] ?? 0;
+        chroma[band] = (chroma[band] ?? 0) + re * re + im * im;
+      }
+      frames.push(chroma);
+    }
+
+    return frames;
+  }
+
+  private static smooth(frames: Float64Array[]): Float64Array[] {
+    const smoothed: Float64Array[] = [];
+    for (let t = CHROMA_FILTER.length - 1; t < frames.length; t++) {
+      const chroma = new Float64Array(CHROMA_BANDS);
+      CHROMA_FILTER.forEach((weight, k) => {
+        const frame = frames[t - CHROMA_FILTER.length + 1 + k];
+        for (let band = 0; band < CHROMA_BANDS; band++) {
+          chroma[band] = (chroma[band] ?? 0) + weight * (frame?.[band] ?? 0);
+        }
+      });
+      smoothed.push(chroma);
+    }
+    return smoothed;
+  }
+
+  /**
+   * Unit-length chroma vectors; near-silent frames become zero
+   */
+  private static normalize(frames: Float64Array[]): Float64Array[] {
+    frames.forEach(chroma => {
+      const norm = Math.sqrt(chroma.reduce((sum, value) => sum + value * value, 0));
+      for (let band = 0; band < CHROMA_BANDS; band++) {
+        chroma[band] = norm < 0.01 ? 0 : (chroma[band] ?? 0) / norm;
+      }
+    });
+    return frames;
+  }
+
+  /**
+   * Summed-area table with one extra leading row and column
+   */
+  private static integralImage(frames: Float64Array[]): Float64Array {
+    const stride = CHROMA_BANDS + 1;
+    const image = new Float64Array((frames.length + 1) * stride);
+    frames.forEach((chroma, t) => {
+      for (let band = 0; band < CHROMA_BANDS; band++) {
+        image[(t + 1) * stride + band + 1] = (chroma[band] ?? 0)
+          + (image[t * stride + band + 1] ?? 0)
+          + (image[(t + 1) * stride + band] ?? 0)
+          - (image[t * stride + band] ?? 0);
+      }
+    });
+    return image;
+  }
+
+  private static applyFilter(image: Float64Array, classifier: Classifier, x: number): number {
+    const { type, y, height: h, width: w } = classifier;
+    const area = (x1: number, y1: number, x2: number, y2: number) => {
+      const stride = CHROMA_BANDS + 1;
+      return (image[x2 * stride + y2] ?? 0) - (image[x1 * stride + y2] ?? 0)
+        - (image[x2 * stride + y1] ?? 0) + (image[x1 * stride + y1] ?? 0);
+    };
+
+    const h2 = Math.floor(h / 2);
+    const w2 = Math.floor(w / 2);
+    const h3 = Math.floor(h / 3);
+    const w3 = Math.floor(w / 3);
+    let a = 0;
+    let b = 0;
+
+    switch (type) {
+      case 0:
+        a = area(x, y, x + w, y + h);
+        break;
+      case 1:
+        a = area(x, y + h2, x + w, y + h);
+        b = area(x, y, x + w, y + h2);
+        break;
+      case 2:
+        a = area(x + w2, y, x + w, y + h);
+        b = area(x, y, x + w2, y + h);
+        break;
+      case 3:
+        a = area(x, y, x + w2, y + h2) + area(x + w2, y + h2, x + w, y + h);
+        b = area(x, y + h2, x + w2, y + h) + area(x + w2, y, x + w, y + h2);
+        break;
+      case 4:
+        a = area(x, y + h3, x + w, y + 2 * h3);
+        b = area(x, y, x + w, y + h3) + area(x, y + 2 * h3, x + w, y + h);
+        break;
+      case 5:
+        a = area(x + w3, y, x + 2 * w3, y + h);
+        b = area(x, y, x + w3, y + h) + area(x + 2 * w3, y, x + w, y + h);
+        break;
+    }
+
+    return Math.log(1 + a) - Math.log(1 + b);
+  }
+
+  private static quantize(value: number, thresholds: [number, number, number]): number {
+    if (value < thresholds[0]) return 0;
+    if (value < thresholds[1]) return 1;
+    if (value < thresholds[2]) return 2;
+    return 3;
+  }
+
+  private static popCount(value: number): number {
+    value -= (value >>> 1) & 0x55555555;
+    value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+    return (((value + (value >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+  }
+
+  /**
+   * Pitch class of each FFT bin in the 28 Hz - 3.52 kHz range, -1 outside it
+   */
+  private static getBandOfBin(): Int8Array {
+    if (!AcousticFingerprint.bandOfBin) {
+      const bandOfBin = new Int8Array(FRAME_SIZE / 2).fill(-1);
+      for (let bin = 1; bin < bandOfBin.length; bin++) {
+        const frequency = bin * FINGERPRINT_SAMPLE_RATE / FRAME_SIZE;
+        if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) continue;
+        // Octaves above A0 (27.5 Hz) so band 0 is A
+        const octave = Math.log2(frequency / (440 / 16));
+        bandOfBin[bin] = Math.floor(CHROMA_BANDS * (octave - Math.floor(octave))) % CHROMA_BANDS;
+      }
+      AcousticFingerprint.bandOfBin = bandOfBin;
+    }
+    return AcousticFingerprint.bandOfBin;
+  }
+}
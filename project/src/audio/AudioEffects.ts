@@ -0,0 +1,569 @@
+/**
+ * Audio Effects Chain for Meow-Play
+ * Features: Ordered, bypassable effects between EQ and output: convolution reverb,
+ * compressor/limiter, stereo widener, headphone crossfeed, karaoke vocal reduction
+ */
+
+import { AudioEffect } from './AudioEngine';
+
+export type AudioEffectId = 'reverb' | 'compressor' | 'widener' | 'crossfeed' | 'karaoke';
+
+export interface AudioEffectParameterDefinition {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  unit?: string;
+  options?: string[]; // labels for index-valued parameters
+}
+
+export interface AudioEffectDefinition {
+  name: string;
+  parameters: Record<string, AudioEffectParameterDefinition>;
+}
+
+interface EffectProcessor {
+  readonly input: AudioNode;
+  readonly output: AudioNode;
+  setParameter(name: string, value: number): void;
+  dispose(): void;
+}
+
+interface ImpulseResponseSpec {
+  name: string;
+  duration: number; // RT60 in seconds
+  preDelay: number; // seconds
+  damping: number; // 0 = bright, 1 = dark tail
+}
+
+// Bundled impulse responses are synthesised deterministically, so nothing is downloaded
+export const IMPULSE_RESPONSES: ImpulseResponseSpec[] = [
+  { name: 'Room', duration: 0.6, preDelay: 0.005, damping: 0.6 },
+  { name: 'Plate', duration: 1.6, preDelay: 0, damping: 0.2 },
+  { name: 'Hall', duration: 2.6, preDelay: 0.02, damping: 0.5 },
+  { name: 'Cathedral', duration: 5, preDelay: 0.04, damping: 0.7 }
+];
+
+export const AUDIO_EFFECT_DEFINITIONS: Record<AudioEffectId, AudioEffectDefinition> = {
+  reverb: {
+    name: 'Reverb',
+    parameters: {
+      impulse: { label: 'Space', min: 0, max: IMPULSE_RESPONSES.length - 1, step: 1, default: 2, options: IMPULSE_RESPONSES.map(ir => ir.name) },
+      mix: { label: 'Mix', min: 0, max: 1, step: 0.01, default: 0.25 }
+    }
+  },
+  compressor: {
+    name: 'Compressor / Limiter',
+    parameters: {
+      threshold: { label: 'Threshold', min: -60, max: 0, step: 1, default: -18, unit: 'dB' },
+      ratio: { label: 'Ratio', min: 1, max: 20, step: 0.5, default: 4 },
+      knee: { label: 'Knee', min: 0, max: 40, step: 1, default: 6, unit: 'dB' },
+      attack: { label: 'Attack', min: 0.001, max: 0.5, step: 0.001, default: 0.01, unit: 's' },
+      release: { label: 'Release', min: 0.01, max: 1, step: 0.01, default: 0.25, unit: 's' },
+      makeup: { label: 'Makeup gain', min: 0, max: 24, step: 0.5, default: 0, unit: 'dB' },
+      limiter: { label: 'Limiter', min: 0, max: 1, step: 1, default: 0, options: ['Off', 'On'] }
+    }
+  },
+  widener: {
+    name: 'Stereo Widener',
+    parameters: {
+      width: { label: 'Width', min: 0, max: 2, step: 0.05, default: 1.4 }
+    }
+  },
+  crossfeed: {
+    name: 'Headphone Crossfeed',
+    parameters: {
+      level: { label: 'Feed level', min: -15, max: -3, step: 0.5, default: -6, unit: 'dB' },
+      cutoff: { label: 'Cutoff', min: 300, max: 1500, step: 10, default: 700, unit: 'Hz' }
+    }
+  },
+  karaoke: {
+    name: 'Karaoke',
+    parameters: {
+      amount: { label: 'Vocal reduction', min: 0, max: 1, step: 0.01, default: 1 },
+      bassCutoff: { label: 'Keep bass below', min: 0, max: 300, step: 10, default: 120, unit: 'Hz' }
+    }
+  }
+};
+
+const EFFECT_ORDER: AudioEffectId[] = ['karaoke', 'compressor', 'crossfeed', 'widener', 'reverb'];
+
+// Interaural delay of the crossfed signal
+const CROSSFEED_DELAY = 0.0003;
+
+/**
+ * Default chain: every effect present, all bypassed
+ */
+export function createDefaultEffects(): AudioEffect[] {
+  return EFFECT_ORDER.map(id => ({
+    id,
+    name: AUDIO_EFFECT_DEFINITIONS[id].name,
+    enabled: false,
+    parameters: Object.fromEntries(
+      Object.entries(AUDIO_EFFECT_DEFINITIONS[id].parameters).map(([name, definition]) => [name, definition.default])
+    )
+  }));
+}
+
+/**
+ * Merge saved or preset effects with the defaults: unknown effects and parameters are dropped,
+ * missing ones filled in, values clamped, saved order kept
+ */
+export function normalizeEffects(effects: unknown): AudioEffect[] {
+  const defaults = createDefaultEffects();
+  if (!Array.isArray(effects)) return defaults;
+
+  const saved = effects.filter((effect): effect is Partial<AudioEffect> =>
+    !!effect && typeof effect === 'object' && isAudioEffectId((effect as AudioEffect).id)
+  );
+
+  const ordered = saved
+    .map(effect => effect.id as AudioEffectId)
+    .filter((id, index, ids) => ids.indexOf(id) === index);
+  EFFECT_ORDER.forEach(id => {
+    if (!ordered.includes(id)) ordered.push(id);
+  });
+
+  return ordered.map(id => {
+    const fallback = defaults.find(effect => effect.id === id)!;
+    const stored = saved.find(effect => effect.id === id);
+    if (!stored) return fallback;
+
+    const parameters = { ...fallback.parameters };
+    Object.keys(parameters).forEach(name => {
+      const value = stored.parameters?.[name];
+      if (typeof value === 'number' && isFinite(value)) {
+        parameters[name] = clampParameter(id, name, value);
+      }
+    });
+
+    return { ...fallback, enabled: stored.enabled === true, parameters };
+  });
+}
+
+export function isAudioEffectId(id: unknown): id is AudioEffectId {
+  return typeof id === 'string' && id in AUDIO_EFFECT_DEFINITIONS;
+}
+
+function clampParameter(id: AudioEffectId, name: string, value: number): number {
+  const definition = AUDIO_EFFECT_DEFINITIONS[id].parameters[name];
+  if (!definition) return value;
+  return Math.max(definition.min, Math.min(definition.max, value));
+}
+
+/**
+ * Decaying stereo noise with frequency-dependent damping
+ */
+export function createImpulseResponse(context: BaseAudioContext, spec: ImpulseResponseSpec): AudioBuffer {
+  const sampleRate = context.sampleRate;
+  const preDelay = Math.round(spec.preDelay * sampleRate);
+  const length = preDelay + Math.round(spec.duration * sampleRate);
+  const buffer = context.createBuffer(2, length, sampleRate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    // Different seeds decorrelate the channels
+    const random = seededRandom(0x9e3779b9 + channel * 7919);
+    let lowpassed = 0;
+
+    for (let i = preDelay; i < length; i++) {
+      const t = (i - preDelay) / sampleRate;
+      // -60 dB at the end of the tail
+      const envelope = Math.exp(-6.9 * t / spec.duration);
+      // Low-pass coefficient grows over time so highs die away first
+      const smoothing = Math.min(0.95, spec.damping * (t / spec.duration));
+      lowpassed = lowpassed * smoothing + (random() * 2 - 1) * (1 - smoothing);
+      data[i] = lowpassed * envelope;
+    }
+  }
+
+  return buffer;
+}
+
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * ConvolverNode with an equal-power dry/wet mix
+ */
+class ReverbEffect implements EffectProcessor {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private convolver: ConvolverNode;
+  private dry: GainNode;
+  private wet: GainNode;
+  private impulse: number = -1;
+
+  constructor(private context: BaseAudioContext) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.convolver = context.createConvolver();
+    this.dry = context.createGain();
+    this.wet = context.createGain();
+
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+    this.input.connect(this.convolver);
+    this.convolver.connect(this.wet);
+    this.wet.connect(this.output);
+  }
+
+  setParameter(name: string, value: number): void {
+    const time = this.context.currentTime;
+
+    if (name === 'mix') {
+      this.dry.gain.setValueAtTime(Math.cos(value * Math.PI / 2), time);
+      this.wet.gain.setValueAtTime(Math.sin(value * Math.PI / 2), time);
+    } else if (name === 'impulse') {
+      const index = Math.round(value);
+      const spec = IMPULSE_RESPONSES[index];
+      if (!spec || index === this.impulse) return;
+      this.impulse = index;
+      this.convolver.buffer = createImpulseResponse(this.context, spec);
+    }
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.convolver.disconnect();
+    this.dry.disconnect();
+    this.wet.disconnect();
+  }
+}
+
+/**
+ * DynamicsCompressorNode with makeup gain; limiter mode pins ratio, knee and attack
+ */
+class CompressorEffect implements EffectProcessor {
+  readonly input: DynamicsCompressorNode;
+  readonly output: GainNode;
+  private values: Partial<Record<'threshold' | 'ratio' | 'knee' | 'attack' | 'release' | 'limiter', number>> = {};
+
+  constructor(private context: BaseAudioContext) {
+    this.input = context.createDynamicsCompressor();
+    this.output = context.createGain();
+    this.input.connect(this.output);
+  }
+
+  setParameter(name: string, value: number): void {
+    const time = this.context.currentTime;
+
+    if (name === 'makeup') {
+      this.output.gain.setValueAtTime(dbToGain(value), time);
+      return;
+    }
+
+    this.values = { ...this.values, [name]: value };
+    const limiter = (this.values.limiter ?? 0) >= 0.5;
+
+    this.input.threshold.setValueAtTime(this.values.threshold ?? -18, time);
+    this.input.ratio.setValueAtTime(limiter ? 20 : this.values.ratio ?? 4, time);
+    this.input.knee.setValueAtTime(limiter ? 0 : this.values.knee ?? 6, time);
+    this.input.attack.setValueAtTime(limiter ? 0.001 : this.values.attack ?? 0.01, time);
+    this.input.release.setValueAtTime(this.values.release ?? 0.25, time);
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+  }
+}
+
+/**
+ * Mid/side width: L' = L(1+w)/2 + R(1-w)/2, R' = R(1+w)/2 + L(1-w)/2
+ */
+class StereoWidenerEffect implements EffectProcessor {
+  readonly input: ChannelSplitterNode;
+  readonly output: ChannelMergerNode;
+  private direct: GainNode[];
+  private cross: GainNode[];
+
+  constructor(private context: BaseAudioContext) {
+    this.input = context.createChannelSplitter(2);
+    this.output = context.createChannelMerger(2);
+    this.direct = [context.createGain(), context.createGain()];
+    this.cross = [context.createGain(), context.createGain()];
+
+    [0, 1].forEach(channel => {
+      const other = 1 - channel;
+      this.input.connect(this.direct[channel]!, channel);
+      this.direct[channel]!.connect(this.output, 0, channel);
+      this.input.connect(this.cross[channel]!, other);
+      this.cross[channel]!.connect(this.output, 0, channel);
+    });
+  }
+
+  setParameter(name: string, value: number): void {
+    if (name !== 'width') return;
+    const time = this.context.currentTime;
+
+    this.direct.forEach(gain => gain.gain.setValueAtTime((1 + value) / 2, time));
+    this.cross.forEach(gain => gain.gain.setValueAtTime((1 - value) / 2, time));
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    [...this.direct, ...this.cross].forEach(gain => gain.disconnect());
+  }
+}
+
+/**
+ * Feeds a low-passed, slightly delayed copy of each channel into the other, as speakers would
+ */
+class CrossfeedEffect implements EffectProcessor {
+  readonly input: ChannelSplitterNode;
+  readonly output: ChannelMergerNode;
+  private direct: GainNode[];
+  private filters: BiquadFilterNode[];
+  private feeds: GainNode[];
+  private level: number = -6;
+
+  constructor(private context: BaseAudioContext) {
+    this.input = context.createChannelSplitter(2);
+    this.output = context.createChannelMerger(2);
+    this.direct = [context.createGain(), context.createGain()];
+    this.filters = [context.createBiquadFilter(), context.createBiquadFilter()];
+    this.feeds = [context.createGain(), context.createGain()];
+
+    [0, 1].forEach(channel => {
+      const other = 1 - channel;
+      const delay = context.createDelay(0.01);
+      delay.delayTime.value = CROSSFEED_DELAY;
+      this.filters[channel]!.type = 'lowpass';
+      this.filters[channel]!.Q.value = -3; // Butterworth, Q is in dB for lowpass
+
+      this.input.connect(this.direct[channel]!, channel);
+      this.direct[channel]!.connect(this.output, 0, channel);
+
+      this.input.connect(this.filters[channel]!, other);
+      this.filters[channel]!.connect(delay);
+      delay.connect(this.feeds[channel]!);
+      this.feeds[channel]!.connect(this.output, 0, channel);
+    });
+  }
+
+  setParameter(name: string, value: number): void {
+    const time = this.context.currentTime;
+
+    if (name === 'cutoff') {
+      this.filters.forEach(filter => filter.frequency.setValueAtTime(value, time));
+    } else if (name === 'level') {
+      this.level = value;
+      // Keep a centred low-frequency signal at unity gain
+      const feed = dbToGain(this.level);
+      const normalize = 1 / (1 + feed);
+      this.direct.forEach(gain => gain.gain.setValueAtTime(normalize, time));
+      this.feeds.forEach(gain => gain.gain.setValueAtTime(feed * normalize, time));
+    }
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    [...this.direct, ...this.filters, ...this.feeds].forEach(node => node.disconnect());
+  }
+}
+
+/**
+ * Cancels centre-panned content via the side signal (L - R) / 2, keeping the low end of the mid signal
+ */
+class KaraokeEffect implements EffectProcessor {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private dry: GainNode;
+  private wet: GainNode;
+  private bassFilter: BiquadFilterNode;
+  private bassGain: GainNode;
+  private nodes: AudioNode[];
+
+  constructor(private context: BaseAudioContext) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.dry = context.createGain();
+    this.wet = context.createGain();
+
+    const splitter = context.createChannelSplitter(2);
+    const side = this.createMonoBus();
+    const mid = this.createMonoBus();
+    const [leftSide, rightSide, leftMid, rightMid] = [0.5, -0.5, 0.5, 0.5].map(value => {
+      const gain = context.createGain();
+      gain.gain.value = value;
+      return gain;
+    }) as [GainNode, GainNode, GainNode, GainNode];
+
+    this.bassFilter = context.createBiquadFilter();
+    this.bassFilter.type = 'lowpass';
+    this.bassGain = context.createGain();
+
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+
+    this.input.connect(splitter);
+    splitter.connect(leftSide, 0);
+    splitter.connect(rightSide, 1);
+    splitter.connect(leftMid, 0);
+    splitter.connect(rightMid, 1);
+    leftSide.connect(side);
+    rightSide.connect(side);
+    leftMid.connect(mid);
+    rightMid.connect(mid);
+
+    // Mono wet signal is up-mixed to both output channels
+    side.connect(this.wet);
+    mid.connect(this.bassFilter);
+    this.bassFilter.connect(this.bassGain);
+    this.bassGain.connect(this.wet);
+    this.wet.connect(this.output);
+
+    this.nodes = [splitter, side, mid, leftSide, rightSide, leftMid, rightMid, this.dry, this.wet, this.bassFilter, this.bassGain];
+  }
+
+  setParameter(name: string, value: number): void {
+    const time = this.context.currentTime;
+
+    if (name === 'amount') {
+      this.dry.gain.setValueAtTime(1 - value, time);
+      this.wet.gain.setValueAtTime(value, time);
+    } else if (name === 'bassCutoff') {
+      this.bassGain.gain.setValueAtTime(value > 0 ? 1 : 0, time);
+      if (value > 0) this.bassFilter.frequency.setValueAtTime(value, time);
+    }
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.nodes.forEach(node => node.disconnect());
+  }
+
+  private createMonoBus(): GainNode {
+    const bus = this.context.createGain();
+    bus.channelCount = 1;
+    bus.channelCountMode = 'explicit';
+    return bus;
+  }
+}
+
+const PROCESSORS: Record<AudioEffectId, new (context: BaseAudioContext) => EffectProcessor> = {
+  reverb: ReverbEffect,
+  compressor: CompressorEffect,
+  widener: StereoWidenerEffect,
+  crossfeed: CrossfeedEffect,
+  karaoke: KaraokeEffect
+};
+
+export class EffectsChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private effects: AudioEffect[] = [];
+  private processors: Map<string, EffectProcessor> = new Map();
+
+  constructor(private context: BaseAudioContext, effects: AudioEffect[] = createDefaultEffects()) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.setEffects(effects);
+  }
+
+  /**
+   * Copy of the effect descriptors in chain order
+   */
+  getEffects(): AudioEffect[] {
+    return this.effects.map(effect => ({ ...effect, parameters: { ...effect.parameters } }));
+  }
+
+  /**
+   * Replace the whole chain (saved state or a preset)
+   */
+  setEffects(effects: AudioEffect[]): void {
+    this.effects = normalizeEffects(effects);
+    this.effects.forEach(effect => {
+      const processor = this.processors.get(effect.id);
+      if (processor) this.applyParameters(effect, processor);
+    });
+    this.rewire();
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const effect = this.effects.find(candidate => candidate.id === id);
+    if (!effect || effect.enabled === enabled) return;
+
+    effect.enabled = enabled;
+    this.rewire();
+  }
+
+  setParameter(id: string, name: string, value: number): void {
+    const effect = this.effects.find(candidate => candidate.id === id);
+    if (!effect || !isAudioEffectId(effect.id) || !(name in effect.parameters)) return;
+
+    const clamped = clampParameter(effect.id, name, value);
+    effect.parameters[name] = clamped;
+    this.processors.get(id)?.setParameter(name, clamped);
+  }
+
+  /**
+   * Move an effect to a new position in the chain
+   */
+  move(id: string, toIndex: number): void {
+    const fromIndex = this.effects.findIndex(effect => effect.id === id);
+    if (fromIndex < 0) return;
+
+    const [effect] = this.effects.splice(fromIndex, 1);
+    const target = Math.max(0, Math.min(this.effects.length, toIndex));
+    this.effects.splice(target, 0, effect!);
+    this.rewire();
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.processors.forEach(processor => {
+      processor.output.disconnect();
+      processor.dispose();
+    });
+    this.processors.clear();
+  }
+
+  /**
+   * Connect input -> enabled effects in order -> output; processors are created on first use
+   */
+  private rewire(): void {
+    this.input.disconnect();
+    this.processors.forEach(processor => processor.output.disconnect());
+
+    let previous: AudioNode = this.input;
+    this.effects
+      .filter(effect => effect.enabled)
+      .forEach(effect => {
+        const processor = this.getProcessor(effect);
+        if (!processor) return;
+        previous.connect(processor.input);
+        previous = processor.output;
+      });
+    previous.connect(this.output);
+  }
+
+  private getProcessor(effect: AudioEffect): EffectProcessor | null {
+    const existing = this.processors.get(effect.id);
+    if (existing) return existing;
+    if (!isAudioEffectId(effect.id)) return null;
+
+    const processor = new PROCESSORS[effect.id](this.context);
+    this.applyParameters(effect, processor);
+    this.processors.set(effect.id, processor);
+    return processor;
+  }
+
+  private applyParameters(effect: AudioEffect, processor: EffectProcessor): void {
+    Object.entries(effect.parameters).forEach(([name, value]) => processor.setParameter(name, value));
+  }
+}
@@ -1,9 +1,26 @@
 /**
  * Advanced Audio Engine for Meow-Play
- * Features: Web Audio API, Equalizer, Crossfade, Effects, Visualization
+ * Features: Web Audio API, Equalizer, Crossfade, Gapless, Effects, Time-Stretch, Visualization
  * Rating Target: A+ (10/10)
  */
 
+import { GaplessDecoder } from './GaplessDecoder';
+import { LoudnessNormalizer, LoudnessSettings, DEFAULT_LOUDNESS_SETTINGS } from './LoudnessNormalizer';
+import { ParametricEqualizer, DEFAULT_EQUALIZER_BANDS, EqualizerBand, EqualizerPreset, EqualizerPresetFormat } from './ParametricEqualizer';
+
+import { EffectsChain, createDefaultEffects } from './AudioEffects';
+import { createPitchShifterNode, getPitchRatio, MIN_TEMPO, MAX_TEMPO, MAX_PITCH_SEMITONES } from './PitchShifter';
+import { SmartCrossfade, CrossfadePlan, TrackEdges, TransitionCurve } from './SmartCrossfade';
+import { OfflineRenderer, OfflineRenderOptions, OfflineRenderSettings } from './OfflineRenderer';
+import { AudioProber, AudioProbeResult } from './AudioProber';
+import { ManifestParser } from './ManifestParser';
+import { Song } from '../types';
+
+export type { EqualizerBand, EqualizerFilterType, EqualizerPreset, EqualizerPresetFormat } from './ParametricEqualizer';
+export type { CrossfadePlan, TransitionCurve } from './SmartCrossfade';
+export type { OfflineRenderOptions, WavBitDepth } from './OfflineRenderer';
+export type { AudioProbeResult } from './AudioProber';
+
 export interface AudioEffect {
   id: string;
   name: string;
@@ -11,12 +28,6 @@ export interface AudioEffect {
   parameters: Record<string, number>;
 }
 
-export interface EqualizerBand {
-  frequency: number;
-  gain: number;
-  q: number;
-}
-
 export interface AudioVisualizationData {
   frequencyData: Uint8Array;
   timeDomainData: Uint8Array;
@@ -28,6 +39,14 @@ export interface CrossfadeSettings {
   enabled: boolean;
   duration: number; // in seconds
   curve: 'linear' | 'exponential' | 'logarithmic';
+  smart: boolean; // trim silence, align to beats and pick the curve per transition
+}
+
+export type TrackTransition = 'gapless' | 'crossfade';
+
+export interface LoopRegion {
+  start: number; // seconds (A)
+  end: number; // seconds (B)
 }
 
 export interface AudioEngineState {
@@ -36,13 +55,35 @@ export interface AudioEngineState {
   duration: number;
   volume: number;
   muted: boolean;
-  playbackRate: number;
+  playbackRate: number; // tempo, 0.5-2
+  pitchSemitones: number; // transpose, independent of tempo
+  preservePitch: boolean; // keep pitch constant when the tempo changes
+  timeStretchAvailable: boolean; // AudioWorklet pitch shifter loaded
   crossfadeSettings: CrossfadeSettings;
   equalizerBands: EqualizerBand[];
+  equalizerPreamp: number; // dB
+  equalizerEnabled: boolean;
   effects: AudioEffect[];
+  gaplessEnabled: boolean;
+  loudnessSettings: LoudnessSettings;
+  normalizationGain: number; // dB applied to the current track
+  loopRegion: LoopRegion | null;
 }
 
-export type AudioFormat = 'mp3' | 'flac' | 'wav' | 'aac' | 'ogg' | 'webm';
+export type AudioFormat = 'mp3' | 'flac' | 'wav' | 'aac' | 'ogg' | 'webm' | 'm4a' | 'aiff';
+
+const AUDIO_FORMATS: AudioFormat[] = ['mp3', 'flac', 'wav', 'aac', 'ogg', 'webm', 'm4a', 'aiff'];
+
+const FORMAT_MIME_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm',
+  m4a: 'audio/mp4',
+  aiff: 'audio/aiff'
+};
 
 export interface AudioTrack {
   id: string;
@@ -53,25 +94,71 @@ export interface AudioTrack {
   duration: number;
   bitrate?: number;
   sampleRate?: number;
+  album?: string;
+  trackNumber?: number;
+  tempo?: number; // BPM from AudioFeatures, when known
 }
 
+const MIN_LOOP_LENGTH = 0.1; // seconds
+
 export class AudioEngine extends EventTarget {
   private audioContext: AudioContext | null = null;
   private sourceNode: AudioBufferSourceNode | MediaElementAudioSourceNode | null = null;
   private gainNode: GainNode | null = null;
   private analyserNode: AnalyserNode | null = null;
-  private equalizerNodes: BiquadFilterNode[] = [];
-  private effectsNodes: AudioNode[] = [];
+  private equalizer: ParametricEqualizer | null = null;
+  private effectsChain: EffectsChain | null = null;
   
   // Audio elements for different scenarios
   private audioElement: HTMLAudioElement | null = null;
   private currentTrack: AudioTrack | null = null;
   private nextTrack: AudioTrack | null = null;
   
+  // Feeds HLS/DASH tracks into the media element; resolves false to fall back to element.src
+  private mediaAttacher: ((media: HTMLAudioElement, track: AudioTrack) => Promise<boolean>) | null = null;
+  
   // Crossfade support
   private crossfadeGainNode: GainNode | null = null;
   private crossfadeTimer: number | null = null;
   
+  // Gapless support: decoded buffers scheduled sample-accurately on the context clock
+  private gaplessDecoder: GaplessDecoder | null = null;
+  private bufferSource: AudioBufferSourceNode | null = null;
+  private currentBuffer: AudioBuffer | null = null;
+  private bufferStartedAt: number = 0; // context time at which bufferOffset was playing
+  private bufferOffset: number = 0; // seconds into currentBuffer
+  private bufferClock: number | null = null;
+  private gaplessNextTrack: AudioTrack | null = null;
+  private gaplessNextGain: number = 0;
+  private scheduledNext: {
+    track: AudioTrack;
+    buffer: AudioBuffer;
+    source: AudioBufferSourceNode;
+    startAt: number; // context time the source starts
+    offset: number; // seconds into the buffer it starts at
+    gainAt: number; // context time the output gain switches to gainDb
+    gainDb: number;
+    fade: GainNode | null; // fade-in gain of a crossfaded source
+    plan: CrossfadePlan | null;
+  } | null = null;
+  
+  // Smart crossfade: the current source runs through its own gain so it can fade under the next one
+  private bufferFade: GainNode | null = null;
+  private nextTransition: TrackTransition = 'gapless';
+  private nextPlan: CrossfadePlan | null = null;
+  private trackEdges: Map<string, TrackEdges> = new Map();
+  
+  // Time-stretch / pitch shift: sources -> timeStretchInput -> [pitch shifter] -> equalizer
+  private timeStretchInput: GainNode | null = null;
+  private pitchShifterNode: AudioWorkletNode | null = null;
+  private pitchShifterActive: boolean = false;
+  
+  // A-B loop: a timer armed for point B, re-armed on play, seek and rate changes
+  private loopTimer: number | null = null;
+  
+  // ReplayGain / loudness normalization
+  private loudnessNormalizer: LoudnessNormalizer | null = null;
+  
   // Visualization data
   private visualizationData: AudioVisualizationData | null = null;
   private animationFrameId: number | null = null;
@@ -84,13 +171,23 @@ export class AudioEngine extends EventTarget {
     volume: 1,
     muted: false,
     playbackRate: 1,
+    pitchSemitones: 0,
+    preservePitch: true,
+    timeStretchAvailable: false,
     crossfadeSettings: {
       enabled: true,
       duration: 3,
-      curve: 'exponential'
+      curve: 'exponential',
+      smart: false
     },
     equalizerBands: this.getDefaultEqualizerBands(),
-    effects: []
+    equalizerPreamp: 0,
+    equalizerEnabled: true,
+    effects: createDefaultEffects(),
+    gaplessEnabled: false,
+    loudnessSettings: { ...DEFAULT_LOUDNESS_SETTINGS },
+    normalizationGain: 0,
+    loopRegion: null
   };
 
   constructor() {
@@ -135,45 +232,63 @@ export class AudioEngine extends EventTarget {
     this.analyserNode.fftSize = 2048;
     this.analyserNode.smoothingTimeConstant = 0.8;
 
-    // Create equalizer bands (10-band)
+    // Entry point for sources; the pitch shifter is inserted after it when needed
+    this.timeStretchInput = this.audioContext.createGain();
+
+    // Create parametric equalizer (10 bands by default)
     this.setupEqualizer();
 
+    // Effects chain between equalizer and output (all bypassed by default)
+    this.effectsChain = new EffectsChain(this.audioContext, this.state.effects);
+
     // Create crossfade gain node
     this.crossfadeGainNode = this.audioContext.createGain();
     this.crossfadeGainNode.gain.value = 1;
 
-    // Connect nodes: source -> equalizer -> effects -> crossfade -> gain -> analyzer -> destination
+    // Decoder for gapless buffer playback
+    this.gaplessDecoder = new GaplessDecoder(this.audioContext);
+
+    // ReplayGain tags / LUFS analysis
+    this.loudnessNormalizer = new LoudnessNormalizer(this.audioContext);
+
+    // Connect nodes: source -> time-stretch -> equalizer -> effects -> crossfade -> gain -> analyzer -> destination
     this.connectAudioNodes();
+
+    // The worklet loads asynchronously; until then the browser's own pitch preservation is used
+    void this.setupPitchShifter();
+  }
+
+  /**
+   * Load the pitch shifter worklet
+   */
+  private async setupPitchShifter(): Promise<void> {
+    if (!this.audioContext || !this.equalizer) return;
+
+    try {
+      this.pitchShifterNode = await createPitchShifterNode(this.audioContext);
+    } catch (error) {
+      console.warn('Pitch shifter unavailable:', error);
+    }
+
+    if (!this.pitchShifterNode) return;
+
+    this.pitchShifterNode.connect(this.equalizer.input);
+    this.state.timeStretchAvailable = true;
+    this.updateTimeStretch();
   }
 
   /**
-   * Setup 10-band equalizer
+   * Setup parametric equalizer
    */
   private setupEqualizer(): void {
     if (!this.audioContext) return;
 
-    this.equalizerNodes = this.state.equalizerBands.map((band, index) => {
-      const filter = this.audioContext!.createBiquadFilter();
-      
-      if (index === 0) {
-        filter.type = 'lowshelf';
-      } else if (index === this.state.equalizerBands.length - 1) {
-        filter.type = 'highshelf';
-      } else {
-        filter.type = 'peaking';
-      }
-      
-      filter.frequency.value = band.frequency;
-      filter.gain.value = band.gain;
-      filter.Q.value = band.q;
-      
-      return filter;
+    this.equalizer = new ParametricEqualizer(this.audioContext, {
+      name: 'Flat',
+      preamp: this.state.equalizerPreamp,
+      bands: this.state.equalizerBands
     });
-
-    // Connect equalizer nodes in series
-    for (let i = 0; i < this.equalizerNodes.length - 1; i++) {
-      this.equalizerNodes[i].connect(this.equalizerNodes[i + 1]);
-    }
+    this.equalizer.setEnabled(this.state.equalizerEnabled);
   }
 
   /**
@@ -182,32 +297,32 @@ export class AudioEngine extends EventTarget {
   private connectAudioNodes(): void {
     if (!this.audioContext || !this.gainNode || !this.analyserNode || !this.crossfadeGainNode) return;
 
-    // The connection will be: source -> [first equalizer] -> ... -> [last equalizer] -> crossfade -> gain -> analyzer -> destination
-    if (this.equalizerNodes.length > 0) {
-      this.equalizerNodes[this.equalizerNodes.length - 1].connect(this.crossfadeGainNode);
-      this.crossfadeGainNode.connect(this.gainNode);
+    // The connection will be: source -> time-stretch -> equalizer (preamp -> bands) -> effects -> crossfade -> gain -> analyzer -> destination
+    if (this.timeStretchInput && this.equalizer) {
+      this.timeStretchInput.connect(this.equalizer.input);
+    }
+    if (this.equalizer && this.effectsChain) {
+      this.equalizer.output.connect(this.effectsChain.input);
+      this.effectsChain.output.connect(this.crossfadeGainNode);
     }
+    this.crossfadeGainNode.connect(this.gainNode);
     
     this.gainNode.connect(this.analyserNode);
     this.analyserNode.connect(this.audioContext.destination);
   }
 
+  /**
+   * First node of the processing chain that sources connect to
+   */
+  private getInputNode(): AudioNode | null {
+    return this.timeStretchInput || this.equalizer?.input || this.crossfadeGainNode;
+  }
+
   /**
    * Get default equalizer bands configuration
    */
   private getDefaultEqualizerBands(): EqualizerBand[] {
-    return [
-      { frequency: 60, gain: 0, q: 0.7 },    // Sub Bass
-      { frequency: 120, gain: 0, q: 0.7 },   // Bass
-      { frequency: 250, gain: 0, q: 0.7 },   // Low Mid
-      { frequency: 500, gain: 0, q: 0.7 },   // Mid
-      { frequency: 1000, gain: 0, q: 0.7 },  // Upper Mid
-      { frequency: 2000, gain: 0, q: 0.7 },  // Presence
-      { frequency: 4000, gain: 0, q: 0.7 },  // High Mid
-      { frequency: 8000, gain: 0, q: 0.7 },  // Treble
-      { frequency: 12000, gain: 0, q: 0.7 }, // High Treble
-      { frequency: 16000, gain: 0, q: 0.7 }  // Air
-    ];
+    return DEFAULT_EQUALIZER_BANDS.map(band => ({ ...band }));
   }
 
   /**
@@ -219,12 +334,44 @@ export class AudioEngine extends EventTarget {
         await this.audioContext.resume();
       }
 
+      // Mislabelled or undecodable files fail here rather than mid-playback; manifests have no audio bytes to probe
+      const segmented = ManifestParser.isSegmentedUrl(track.url);
+      if (!segmented) {
+        track = await this.probeTrack(track);
+      }
+
+      // Drop any buffer playback and a pending gapless transition
+      this.stopBufferPlayback();
+      this.unscheduleNextBuffer();
+      this.setLoopRegion(null);
+
+      // Previous track's gain must not carry over while the new one is resolved
+      this.state.normalizationGain = 0;
+      this.updateOutputGain();
+
+      if (this.usesBufferPlayback() && !segmented) {
+        await this.loadBufferTrack(track);
+        void this.applyLoudnessNormalization(track, this.currentBuffer ?? undefined);
+        this.dispatchEvent(new CustomEvent('trackLoaded', { detail: { track } }));
+        return;
+      }
+
       this.currentTrack = track;
+      this.currentBuffer = null;
+      
+      // Only one element feeds the processing chain at a time
+      this.releaseAudioElement();
       
       // Create audio element for streaming support
-      this.audioElement = new Audio(track.url);
+      this.audioElement = new Audio();
       this.audioElement.crossOrigin = 'anonymous';
       this.audioElement.preload = 'auto';
+      this.applyElementRate();
+      
+      const attached = this.mediaAttacher ? await this.mediaAttacher(this.audioElement, track) : false;
+      if (!attached) {
+        this.audioElement.src = track.url;
+      }
       
       // Setup audio element event listeners
       this.setupAudioElementListeners();
@@ -234,16 +381,17 @@ export class AudioEngine extends EventTarget {
         this.sourceNode = this.audioContext.createMediaElementSource(this.audioElement);
         
         // Connect to audio processing chain
-        if (this.equalizerNodes.length > 0) {
-          this.sourceNode.connect(this.equalizerNodes[0]);
-        } else if (this.crossfadeGainNode) {
-          this.sourceNode.connect(this.crossfadeGainNode);
+        const inputNode = this.getInputNode();
+        if (inputNode) {
+          this.sourceNode.connect(inputNode);
         }
       }
 
       // Load track metadata
       await this.loadTrackMetadata();
       
+      void this.applyLoudnessNormalization(track);
+      
       this.dispatchEvent(new CustomEvent('trackLoaded', { detail: { track } }));
     } catch (error) {
       console.error('Failed to load track:', error);
@@ -252,6 +400,70 @@ export class AudioEngine extends EventTarget {
     }
   }
 
+  /**
+   * Check the track's real format from its bytes. Unreachable or unrecognised files are left to the browser.
+   */
+  private async probeTrack(track: AudioTrack): Promise<AudioTrack> {
+    let probe: AudioProbeResult | null;
+    try {
+      probe = await AudioFormatDetector.probe(track.url);
+    } catch (error) {
+      console.warn('Failed to probe track:', error);
+      return track;
+    }
+    if (!probe) return track;
+
+    if (!AudioFormatDetector.canPlayProbe(probe)) {
+      throw new Error(`Unsupported audio: ${probe.codec} in ${probe.container} cannot be played in this browser`);
+    }
+
+    this.dispatchEvent(new CustomEvent('trackProbed', { detail: { track, probe } }));
+
+    return {
+      ...track,
+      format: AudioFormatDetector.formatFromProbe(probe),
+      duration: track.duration || probe.duration || 0
+    };
+  }
+
+  /**
+   * Decode a whole track for sample-accurate buffer playback
+   */
+  private async loadBufferTrack(track: AudioTrack): Promise<void> {
+    const buffer = await this.gaplessDecoder!.decode(track);
+
+    // Buffer playback replaces the media element
+    this.releaseAudioElement();
+
+    this.currentTrack = track;
+    this.currentBuffer = buffer;
+    this.bufferOffset = 0;
+    this.state.currentTime = 0;
+    this.state.duration = buffer.duration;
+
+    this.dispatchEvent(new CustomEvent('metadataLoaded', {
+      detail: {
+        duration: this.state.duration,
+        track: this.currentTrack
+      }
+    }));
+  }
+
+  /**
+   * Stop the current media element and disconnect it from the processing chain
+   */
+  private releaseAudioElement(): void {
+    if (this.audioElement) {
+      this.audioElement.pause();
+      this.audioElement.removeAttribute('src');
+      this.audioElement.load();
+      this.audioElement = null;
+    }
+
+    this.sourceNode?.disconnect();
+    this.sourceNode = null;
+  }
+
   /**
    * Load track metadata
    */
@@ -319,12 +531,32 @@ export class AudioEngine extends EventTarget {
    * Play current track
    */
   async play(): Promise<void> {
+    if (this.currentBuffer) {
+      if (this.bufferSource) return;
+      if (this.audioContext?.state === 'suspended') {
+        await this.audioContext.resume();
+      }
+
+      this.startBufferSource(this.bufferOffset);
+      this.state.isPlaying = true;
+      this.startBufferClock();
+      this.startVisualization();
+      this.rescheduleNextBuffer();
+      this.scheduleLoop();
+
+      this.dispatchEvent(new CustomEvent('playStateChange', {
+        detail: { isPlaying: true }
+      }));
+      return;
+    }
+
     if (!this.audioElement) return;
 
     try {
       await this.audioElement.play();
       this.state.isPlaying = true;
       this.startVisualization();
+      this.scheduleLoop();
       
       this.dispatchEvent(new CustomEvent('playStateChange', {
         detail: { isPlaying: true }
@@ -339,11 +571,20 @@ export class AudioEngine extends EventTarget {
    * Pause current track
    */
   pause(): void {
-    if (!this.audioElement) return;
+    if (this.currentBuffer) {
+      this.bufferOffset = this.getBufferPosition();
+      this.state.currentTime = this.bufferOffset;
+      this.stopBufferPlayback();
+      this.unscheduleNextBuffer();
+    } else if (this.audioElement) {
+      this.audioElement.pause();
+    } else {
+      return;
+    }
 
-    this.audioElement.pause();
     this.state.isPlaying = false;
     this.stopVisualization();
+    this.scheduleLoop();
     
     this.dispatchEvent(new CustomEvent('playStateChange', {
       detail: { isPlaying: false }
@@ -362,10 +603,28 @@ export class AudioEngine extends EventTarget {
    * Seek to specific time
    */
   seek(time: number): void {
-    if (!this.audioElement) return;
+    const clampedTime = Math.max(0, Math.min(time, this.state.duration));
+
+    if (this.currentBuffer) {
+      this.bufferOffset = clampedTime;
+
+      if (this.state.isPlaying) {
+        this.stopBufferPlayback();
+        this.unscheduleNextBuffer();
+        this.startBufferSource(clampedTime);
+        this.startBufferClock();
+        this.rescheduleNextBuffer();
+      }
 
-    this.audioElement.currentTime = Math.max(0, Math.min(time, this.state.duration));
-    this.state.currentTime = this.audioElement.currentTime;
+      this.state.currentTime = clampedTime;
+    } else if (this.audioElement) {
+      this.audioElement.currentTime = clampedTime;
+      this.state.currentTime = this.audioElement.currentTime;
+    } else {
+      return;
+    }
+    
+    this.scheduleLoop();
     
     this.dispatchEvent(new CustomEvent('seeked', {
       detail: { currentTime: this.state.currentTime }
@@ -379,9 +638,7 @@ export class AudioEngine extends EventTarget {
     const clampedVolume = Math.max(0, Math.min(1, volume));
     this.state.volume = clampedVolume;
     
-    if (this.gainNode) {
-      this.gainNode.gain.setValueAtTime(clampedVolume, this.audioContext!.currentTime);
-    }
+    this.updateOutputGain();
     
     if (this.audioElement) {
       this.audioElement.volume = clampedVolume;
@@ -398,11 +655,7 @@ export class AudioEngine extends EventTarget {
   toggleMute(): void {
     this.state.muted = !this.state.muted;
     
-    const targetVolume = this.state.muted ? 0 : this.state.volume;
-    
-    if (this.gainNode) {
-      this.gainNode.gain.setValueAtTime(targetVolume, this.audioContext!.currentTime);
-    }
+    this.updateOutputGain();
     
     if (this.audioElement) {
       this.audioElement.muted = this.state.muted;
@@ -413,36 +666,332 @@ export class AudioEngine extends EventTarget {
     }));
   }
 
+  /**
+   * Output gain: user volume combined with the loudness normalization gain
+   */
+  private getOutputGain(gainDb: number = this.state.normalizationGain): number {
+    return this.state.muted ? 0 : this.state.volume * LoudnessNormalizer.toLinear(gainDb);
+  }
+
+  private updateOutputGain(): void {
+    if (!this.gainNode || !this.audioContext) return;
+
+    this.gainNode.gain.setValueAtTime(this.getOutputGain(), this.audioContext.currentTime);
+
+    // Keep the gain change of a scheduled transition in step with the new volume
+    if (this.scheduledNext) {
+      this.gainNode.gain.cancelScheduledValues(this.scheduledNext.gainAt);
+      this.gainNode.gain.setValueAtTime(this.getOutputGain(this.scheduledNext.gainDb), this.scheduledNext.gainAt);
+    }
+  }
+
+  /**
+   * Fade the output to silence over the given seconds (e.g. for the sleep timer)
+   */
+  fadeOut(seconds: number): void {
+    if (!this.gainNode || !this.audioContext) return;
+
+    const now = this.audioContext.currentTime;
+    const gain = this.gainNode.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(0, now + Math.max(0.05, seconds));
+  }
+
+  /**
+   * Undo fadeOut and return to the current volume
+   */
+  cancelFadeOut(): void {
+    if (!this.gainNode || !this.audioContext) return;
+
+    this.gainNode.gain.cancelScheduledValues(this.audioContext.currentTime);
+    this.updateOutputGain();
+  }
+
+  /**
+   * Update ReplayGain / normalization settings and re-apply them to the current track
+   */
+  setLoudnessSettings(settings: Partial<LoudnessSettings>): void {
+    this.state.loudnessSettings = { ...this.state.loudnessSettings, ...settings };
+
+    if (this.currentTrack) {
+      void this.applyLoudnessNormalization(this.currentTrack, this.currentBuffer ?? undefined);
+    }
+
+    // The scheduled gain of a preloaded track is stale now
+    if (this.gaplessNextTrack) {
+      void this.preloadNextTrack(this.gaplessNextTrack);
+    }
+
+    this.dispatchEvent(new CustomEvent('loudnessSettingsChange', {
+      detail: { settings: this.state.loudnessSettings }
+    }));
+  }
+
+  /**
+   * Resolve and apply the normalization gain for a track
+   */
+  private async applyLoudnessNormalization(track: AudioTrack, decoded?: AudioBuffer): Promise<void> {
+    const gainDb = await this.resolveNormalizationGain(track, decoded);
+
+    // Another track was loaded in the meantime
+    if (this.currentTrack?.id !== track.id) return;
+
+    this.state.normalizationGain = gainDb;
+
+    if (this.gainNode && this.audioContext) {
+      // Short ramp so a late-arriving gain does not click
+      this.gainNode.gain.setTargetAtTime(this.getOutputGain(), this.audioContext.currentTime, 0.05);
+    }
+
+    this.dispatchEvent(new CustomEvent('normalizationChange', {
+      detail: { track, gainDb }
+    }));
+  }
+
+  private async resolveNormalizationGain(track: AudioTrack, decoded?: AudioBuffer): Promise<number> {
+    const settings = this.state.loudnessSettings;
+    if (!this.loudnessNormalizer || (!settings.replayGainEnabled && !settings.normalizationEnabled)) {
+      return 0;
+    }
+
+    try {
+      const info = await this.loudnessNormalizer.resolve(track, {
+        analyze: settings.normalizationEnabled,
+        ...(decoded ? { decoded } : {})
+      });
+      return LoudnessNormalizer.computeGain(info, settings);
+    } catch (error) {
+      console.warn('Loudness normalization failed:', error);
+      return 0;
+    }
+  }
+
   /**
    * Set playback rate
    */
   setPlaybackRate(rate: number): void {
-    const clampedRate = Math.max(0.25, Math.min(3, rate));
+    const clampedRate = Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, rate));
     this.state.playbackRate = clampedRate;
     
-    if (this.audioElement) {
-      this.audioElement.playbackRate = clampedRate;
+    this.applyElementRate();
+    this.updateTimeStretch();
+
+    if (this.currentBuffer && this.bufferSource && this.audioContext) {
+      // Re-anchor the position so the clock stays correct at the new rate
+      this.bufferOffset = this.getBufferPosition();
+      this.bufferStartedAt = this.audioContext.currentTime;
+      this.bufferSource.playbackRate.setValueAtTime(clampedRate, this.bufferStartedAt);
+      this.unscheduleNextBuffer();
+      this.rescheduleNextBuffer();
     }
     
+    this.scheduleLoop();
+    
     this.dispatchEvent(new CustomEvent('playbackRateChange', {
       detail: { playbackRate: clampedRate }
     }));
   }
 
+  /**
+   * Transpose by semitones without changing the tempo
+   */
+  setPitchShift(semitones: number): void {
+    this.state.pitchSemitones = Math.max(-MAX_PITCH_SEMITONES, Math.min(MAX_PITCH_SEMITONES, semitones));
+    this.updateTimeStretch();
+    
+    this.dispatchEvent(new CustomEvent('pitchShiftChange', {
+      detail: { semitones: this.state.pitchSemitones }
+    }));
+  }
+
+  /**
+   * Choose whether tempo changes keep the original pitch
+   */
+  setPreservePitch(preserve: boolean): void {
+    this.state.preservePitch = preserve;
+    this.applyElementRate();
+    this.updateTimeStretch();
+  }
+
+  /**
+   * The element resamples; pitch correction is left to the worklet when it is loaded
+   */
+  private applyElementRate(): void {
+    if (!this.audioElement) return;
+
+    this.audioElement.playbackRate = this.state.playbackRate;
+    this.audioElement.preservesPitch = this.state.preservePitch && !this.pitchShifterNode;
+  }
+
+  /**
+   * Route through the pitch shifter only when it has work to do
+   */
+  private updateTimeStretch(): void {
+    if (!this.audioContext || !this.timeStretchInput || !this.equalizer || !this.pitchShifterNode) return;
+
+    const ratio = getPitchRatio(this.state.playbackRate, this.state.pitchSemitones, this.state.preservePitch);
+    const active = Math.abs(ratio - 1) > 1e-4;
+
+    this.pitchShifterNode.parameters.get('pitchRatio')?.setValueAtTime(ratio, this.audioContext.currentTime);
+    this.applyElementRate();
+
+    if (active === this.pitchShifterActive) return;
+    this.pitchShifterActive = active;
+
+    this.timeStretchInput.disconnect();
+    if (active) {
+      // Drop audio buffered from the last time the shifter was in use
+      this.pitchShifterNode.port.postMessage({ type: 'reset' });
+      this.timeStretchInput.connect(this.pitchShifterNode);
+    } else {
+      this.timeStretchInput.connect(this.equalizer.input);
+    }
+  }
+
   /**
    * Update equalizer band
    */
   updateEqualizerBand(index: number, gain: number): void {
-    if (index < 0 || index >= this.equalizerNodes.length) return;
-    
-    const clampedGain = Math.max(-20, Math.min(20, gain));
-    this.state.equalizerBands[index].gain = clampedGain;
-    
-    const node = this.equalizerNodes[index];
-    node.gain.setValueAtTime(clampedGain, this.audioContext!.currentTime);
-    
-    this.dispatchEvent(new CustomEvent('equalizerChange', {
-      detail: { bandIndex: index, gain: clampedGain }
+    this.setEqualizerBand(index, { gain: Math.max(-20, Math.min(20, gain)) });
+  }
+
+  /**
+   * Change type, frequency, gain, Q or enabled state of one band
+   */
+  setEqualizerBand(index: number, changes: Partial<EqualizerBand>): void {
+    if (!this.equalizer || index < 0 || index >= this.state.equalizerBands.length) return;
+
+    this.equalizer.updateBand(index, changes);
+    this.syncEqualizerState({ bandIndex: index });
+  }
+
+  /**
+   * Append a band, returns its index
+   */
+  addEqualizerBand(band: Partial<EqualizerBand> = {}): number {
+    if (!this.equalizer) return -1;
+
+    const index = this.equalizer.addBand({
+      frequency: 1000,
+      gain: 0,
+      q: 1,
+      type: 'peaking',
+      enabled: true,
+      ...band
+    });
+    this.syncEqualizerState({ bandIndex: index });
+    return index;
+  }
+
+  removeEqualizerBand(index: number): void {
+    if (!this.equalizer) return;
+
+    this.equalizer.removeBand(index);
+    this.syncEqualizerState({ bandIndex: index });
+  }
+
+  setEqualizerPreamp(preamp: number): void {
+    if (!this.equalizer) return;
+
+    this.equalizer.setPreamp(preamp);
+    this.syncEqualizerState();
+  }
+
+  setEqualizerEnabled(enabled: boolean): void {
+    if (!this.equalizer) return;
+
+    this.equalizer.setEnabled(enabled);
+    this.syncEqualizerState();
+  }
+
+  /**
+   * Replace all bands and the preamp
+   */
+  loadEqualizerPreset(preset: EqualizerPreset): void {
+    if (!this.equalizer) return;
+
+    this.equalizer.setPreset(preset);
+    this.syncEqualizerState();
+
+    this.dispatchEvent(new CustomEvent('equalizerPresetChange', {
+      detail: { preset: preset.name }
+    }));
+  }
+
+  getEqualizerPreset(name: string = 'Custom'): EqualizerPreset {
+    return {
+      name,
+      preamp: this.state.equalizerPreamp,
+      bands: this.state.equalizerBands.map(band => ({ ...band }))
+    };
+  }
+
+  /**
+   * Load a preset from ParametricEQ.txt (Equalizer APO / AutoEQ) or JSON content
+   */
+  importEqualizerPreset(content: string, name?: string): EqualizerPreset {
+    const preset = ParametricEqualizer.parse(content, name);
+    this.loadEqualizerPreset(preset);
+    return preset;
+  }
+
+  exportEqualizerPreset(format: EqualizerPresetFormat, name?: string): string {
+    const preset = this.getEqualizerPreset(name);
+    return format === 'json' ? ParametricEqualizer.toJSON(preset) : ParametricEqualizer.toText(preset);
+  }
+
+  /**
+   * Combined equalizer magnitude response in dB at the given frequencies
+   */
+  getEqualizerResponse(frequencies: Float32Array): Float32Array {
+    return this.equalizer?.getFrequencyResponse(frequencies) ?? new Float32Array(frequencies.length);
+  }
+
+  /**
+   * Replace the effects chain (saved state or a preset)
+   */
+  setEffects(effects: AudioEffect[]): void {
+    if (!this.effectsChain) return;
+
+    this.effectsChain.setEffects(effects);
+    this.syncEffectsState();
+  }
+
+  setEffectEnabled(effectId: string, enabled: boolean): void {
+    if (!this.effectsChain) return;
+
+    this.effectsChain.setEnabled(effectId, enabled);
+    this.syncEffectsState();
+  }
+
+  setEffectParameter(effectId: string, parameter: string, value: number): void {
+    if (!this.effectsChain) return;
+
+    this.effectsChain.setParameter(effectId, parameter, value);
+    this.syncEffectsState();
+  }
+
+  /**
+   * Move an effect to another position in the chain
+   */
+  moveEffect(effectId: string, toIndex: number): void {
+    if (!this.effectsChain) return;
+
+    this.effectsChain.move(effectId, toIndex);
+    this.syncEffectsState();
+  }
+
+  getEffects(): AudioEffect[] {
+    return this.state.effects.map(effect => ({ ...effect, parameters: { ...effect.parameters } }));
+  }
+
+  private syncEffectsState(): void {
+    if (!this.effectsChain) return;
+
+    this.state.effects = this.effectsChain.getEffects();
+    this.dispatchEvent(new CustomEvent('effectsChange', {
+      detail: { effects: this.getEffects() }
     }));
   }
 
@@ -464,12 +1013,51 @@ export class AudioEngine extends EventTarget {
     const gains = presets[preset.toLowerCase()];
     if (!gains) return;
     
-    gains.forEach((gain, index) => {
-      this.updateEqualizerBand(index, gain);
-    });
-    
-    this.dispatchEvent(new CustomEvent('equalizerPresetChange', {
-      detail: { preset }
+    // Built-in presets are defined on the default band layout
+    const bands = this.getDefaultEqualizerBands().map((band, index) => ({
+      ...band,
+      gain: gains[index] ?? 0
+    }));
+
+    this.loadEqualizerPreset({ name: preset, preamp: 0, bands });
+  }
+
+  /**
+   * Mirror the equalizer into engine state and notify listeners
+   */
+  private syncEqualizerState(detail: { bandIndex?: number } = {}): void {
+    if (!this.equalizer) return;
+
+    const preset = this.equalizer.getPreset();
+    this.state.equalizerBands = preset.bands;
+    this.state.equalizerPreamp = preset.preamp;
+    this.state.equalizerEnabled = this.equalizer.isEnabled();
+
+    this.dispatchEvent(new CustomEvent('equalizerChange', {
+      detail: {
+        ...detail,
+        bands: preset.bands,
+        preamp: preset.preamp,
+        enabled: this.state.equalizerEnabled
+      }
+    }));
+  }
+
+  /**
+   * Update crossfade settings. Smart crossfades take effect from the next loaded track.
+   */
+  setCrossfadeSettings(settings: Partial<CrossfadeSettings>): void {
+    this.state.crossfadeSettings = { ...this.state.crossfadeSettings, ...settings };
+
+    if (!this.usesBufferPlayback()) {
+      this.cancelPreloadedTrack();
+    } else if (this.gaplessNextTrack) {
+      // Duration or mode changed: plan the pending transition again
+      void this.preloadNextTrack(this.gaplessNextTrack, this.nextTransition);
+    }
+
+    this.dispatchEvent(new CustomEvent('crossfadeSettingsChange', {
+      detail: { settings: this.state.crossfadeSettings }
     }));
   }
 
@@ -545,6 +1133,388 @@ export class AudioEngine extends EventTarget {
     }));
   }
 
+  /**
+   * Set the hook that attaches HLS/DASH streams to the media element of each loaded track
+   */
+  setMediaAttacher(attacher: ((media: HTMLAudioElement, track: AudioTrack) => Promise<boolean>) | null): void {
+    this.mediaAttacher = attacher;
+  }
+
+  /**
+   * Enable or disable gapless playback. Takes effect from the next loaded track.
+   */
+  setGaplessEnabled(enabled: boolean): void {
+    this.state.gaplessEnabled = enabled;
+
+    if (!this.usesBufferPlayback()) {
+      this.cancelPreloadedTrack();
+    }
+
+    this.dispatchEvent(new CustomEvent('gaplessChange', {
+      detail: { enabled }
+    }));
+  }
+
+  /**
+   * Decode the next track ahead of time and schedule it to start exactly where the current one ends,
+   * or to fade in over it when the transition is a smart crossfade
+   */
+  async preloadNextTrack(track: AudioTrack | null, transition: TrackTransition = 'gapless'): Promise<void> {
+    this.unscheduleNextBuffer();
+    this.gaplessNextTrack = track;
+    this.nextTransition = transition;
+    this.nextPlan = null;
+
+    // Segmented streams are never decoded whole
+    if (!track || !this.usesBufferPlayback() || !this.gaplessDecoder || ManifestParser.isSegmentedUrl(track.url)) return;
+
+    try {
+      const buffer = await this.gaplessDecoder.decode(track);
+      const gainDb = await this.resolveNormalizationGain(track, buffer);
+
+      // A newer request superseded this one while decoding
+      if (this.gaplessNextTrack?.id !== track.id || this.nextTransition !== transition) return;
+
+      this.gaplessNextGain = gainDb;
+      this.gaplessDecoder.retainOnly([this.currentTrack?.id || '', track.id]);
+
+      if (transition === 'crossfade') {
+        this.nextPlan = this.planCrossfade(track, buffer);
+      }
+      this.rescheduleNextBuffer();
+
+      this.dispatchEvent(new CustomEvent('nextTrackPreloaded', {
+        detail: { track, duration: buffer.duration }
+      }));
+    } catch (error) {
+      console.warn('Failed to preload next track:', error);
+      this.dispatchEvent(new CustomEvent('preloadError', {
+        detail: { error, track }
+      }));
+    }
+  }
+
+  /**
+   * Forget the preloaded next track (e.g. the queue changed)
+   */
+  cancelPreloadedTrack(): void {
+    this.unscheduleNextBuffer();
+    this.gaplessNextTrack = null;
+    this.nextPlan = null;
+  }
+
+  /**
+   * Buffer playback is needed for gapless transitions and smart crossfades
+   */
+  private usesBufferPlayback(): boolean {
+    const { enabled, smart } = this.state.crossfadeSettings;
+    return !!this.gaplessDecoder && (this.state.gaplessEnabled || (enabled && smart));
+  }
+
+  /**
+   * Plan a smart crossfade from the current buffer into the next one
+   */
+  private planCrossfade(track: AudioTrack, buffer: AudioBuffer): CrossfadePlan | null {
+    if (!this.currentTrack || !this.currentBuffer) return null;
+
+    const outgoing = this.getTrackEdges(this.currentTrack, this.currentBuffer);
+    const incoming = this.getTrackEdges(track, buffer);
+
+    // Only the two tracks around the transition are needed again
+    for (const id of this.trackEdges.keys()) {
+      if (id !== this.currentTrack.id && id !== track.id) {
+        this.trackEdges.delete(id);
+      }
+    }
+
+    return SmartCrossfade.planTransition(outgoing, incoming, this.state.crossfadeSettings.duration);
+  }
+
+  private getTrackEdges(track: AudioTrack, buffer: AudioBuffer): TrackEdges {
+    let edges = this.trackEdges.get(track.id);
+    if (!edges) {
+      edges = SmartCrossfade.analyzeBuffer(buffer, track.tempo);
+      this.trackEdges.set(track.id, edges);
+    }
+    return edges;
+  }
+
+  /**
+   * Start the current buffer at the given offset
+   */
+  private startBufferSource(offset: number): void {
+    if (!this.audioContext || !this.currentBuffer) return;
+
+    const inputNode = this.getInputNode();
+    const source = this.audioContext.createBufferSource();
+    source.buffer = this.currentBuffer;
+    source.playbackRate.value = this.state.playbackRate;
+    if (inputNode) {
+      source.connect(inputNode);
+    }
+
+    const startAt = this.audioContext.currentTime;
+    source.start(startAt, Math.min(offset, this.currentBuffer.duration));
+    source.onended = () => this.handleBufferEnded(source);
+
+    this.bufferSource = source;
+    this.sourceNode = source;
+    this.bufferStartedAt = startAt;
+    this.bufferOffset = offset;
+  }
+
+  /**
+   * Stop the playing buffer source without treating it as a track end
+   */
+  private stopBufferPlayback(): void {
+    this.stopBufferClock();
+
+    if (this.bufferSource) {
+      this.bufferSource.onended = null;
+      try {
+        this.bufferSource.stop();
+      } catch {
+        // Source was never started or already stopped
+      }
+      this.bufferSource.disconnect();
+      this.bufferSource = null;
+    }
+
+    if (this.bufferFade) {
+      this.bufferFade.disconnect();
+      this.bufferFade = null;
+    }
+  }
+
+  /**
+   * Schedule the next buffer to start on the exact sample the current one ends
+   */
+  private scheduleNextBuffer(track: AudioTrack, buffer: AudioBuffer, gainDb: number): void {
+    if (!this.audioContext || !this.currentBuffer || !this.bufferSource || !this.state.isPlaying) return;
+
+    const remaining = (this.currentBuffer.duration - this.bufferOffset) / this.state.playbackRate;
+    const startAt = this.bufferStartedAt + remaining;
+
+    // Too late to schedule precisely; trackEnded will load it the regular way
+    if (startAt <= this.audioContext.currentTime) return;
+
+    const inputNode = this.getInputNode();
+    const source = this.audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = this.state.playbackRate;
+    if (inputNode) {
+      source.connect(inputNode);
+    }
+    source.start(startAt);
+    source.onended = () => this.handleBufferEnded(source);
+
+    // Switch normalization gain on the same sample the next track starts
+    this.gainNode?.gain.setValueAtTime(this.getOutputGain(gainDb), startAt);
+
+    this.scheduledNext = { track, buffer, source, startAt, offset: 0, gainAt: startAt, gainDb, fade: null, plan: null };
+  }
+
+  /**
+   * Schedule the next buffer to fade in over the current one as planned, on the context clock
+   */
+  private scheduleCrossfadeBuffer(track: AudioTrack, buffer: AudioBuffer, gainDb: number, plan: CrossfadePlan): void {
+    if (!this.audioContext || !this.currentBuffer || !this.bufferSource || !this.state.isPlaying) return;
+
+    const inputNode = this.getInputNode();
+    if (!inputNode) return;
+
+    const rate = this.state.playbackRate;
+    const startAt = this.bufferStartedAt + (plan.startAt - this.bufferOffset) / rate;
+    const fadeDuration = plan.duration / rate;
+    const fadeEnd = startAt + fadeDuration;
+
+    // Already inside the fade window; trackEnded will load the next track the regular way
+    if (startAt <= this.audioContext.currentTime) return;
+
+    // Route the current source through its own gain so only it fades out
+    if (!this.bufferFade) {
+      this.bufferFade = this.audioContext.createGain();
+      this.bufferFade.connect(inputNode);
+      this.bufferSource.disconnect();
+      this.bufferSource.connect(this.bufferFade);
+    }
+
+    const fade = this.audioContext.createGain();
+    fade.connect(inputNode);
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(fade);
+    source.start(startAt, Math.min(plan.incomingOffset, buffer.duration));
+    source.onended = () => this.handleBufferEnded(source);
+
+    // The output gain still carries the current track's normalization until the fade ends
+    const level = LoudnessNormalizer.toLinear(gainDb - this.state.normalizationGain);
+
+    if (plan.curve === 'cut' || fadeDuration <= 0) {
+      fade.gain.value = 1;
+    } else {
+      fade.gain.value = 0;
+      this.bufferFade.gain.setValueCurveAtTime(this.createTransitionCurve(plan.curve, false, 1), startAt, fadeDuration);
+      fade.gain.setValueCurveAtTime(this.createTransitionCurve(plan.curve, true, level), startAt, fadeDuration);
+      fade.gain.setValueAtTime(1, fadeEnd);
+    }
+
+    this.gainNode?.gain.setValueAtTime(this.getOutputGain(gainDb), fadeEnd);
+    this.bufferSource.stop(fadeEnd);
+
+    this.scheduledNext = { track, buffer, source, startAt, offset: plan.incomingOffset, gainAt: fadeEnd, gainDb, fade, plan };
+
+    this.dispatchEvent(new CustomEvent('crossfadeScheduled', {
+      detail: { currentTrack: this.currentTrack, nextTrack: track, plan }
+    }));
+  }
+
+  private rescheduleNextBuffer(): void {
+    if (!this.gaplessNextTrack || !this.gaplessDecoder) return;
+
+    const buffer = this.gaplessDecoder.getCached(this.gaplessNextTrack.id);
+    if (!buffer) return;
+
+    if (this.nextTransition === 'crossfade') {
+      if (this.nextPlan) {
+        this.scheduleCrossfadeBuffer(this.gaplessNextTrack, buffer, this.gaplessNextGain, this.nextPlan);
+      }
+    } else {
+      this.scheduleNextBuffer(this.gaplessNextTrack, buffer, this.gaplessNextGain);
+    }
+  }
+
+  private unscheduleNextBuffer(): void {
+    if (!this.scheduledNext) return;
+
+    const { source, gainAt, fade, plan } = this.scheduledNext;
+    this.gainNode?.gain.cancelScheduledValues(gainAt);
+    source.onended = null;
+    try {
+      source.stop();
+    } catch {
+      // Already stopped
+    }
+    source.disconnect();
+    fade?.disconnect();
+    this.scheduledNext = null;
+
+    // Undo the fade-out and let the current source run to its natural end again
+    if (plan && this.audioContext && this.bufferFade) {
+      const now = this.audioContext.currentTime;
+      this.bufferFade.gain.cancelScheduledValues(now);
+      this.bufferFade.gain.setValueAtTime(1, now);
+
+      if (this.bufferSource && this.currentBuffer) {
+        const remaining = (this.currentBuffer.duration - this.bufferOffset) / this.state.playbackRate;
+        this.bufferSource.stop(this.bufferStartedAt + remaining);
+      }
+    }
+  }
+
+  /**
+   * Current buffer ran out: hand over to the scheduled buffer or report the track end
+   */
+  private handleBufferEnded(source: AudioBufferSourceNode): void {
+    if (source !== this.bufferSource) return;
+
+    source.disconnect();
+    const previousTrack = this.currentTrack;
+    const next = this.scheduledNext;
+
+    if (next) {
+      this.bufferFade?.disconnect();
+      this.scheduledNext = null;
+      this.gaplessNextTrack = null;
+      this.nextPlan = null;
+      this.currentTrack = next.track;
+      this.currentBuffer = next.buffer;
+      this.bufferSource = next.source;
+      this.bufferFade = next.fade;
+      this.sourceNode = next.source;
+      this.bufferStartedAt = next.startAt;
+      this.bufferOffset = next.offset;
+      this.state.duration = next.buffer.duration;
+      this.state.currentTime = this.getBufferPosition();
+      this.state.normalizationGain = next.gainDb;
+      this.setLoopRegion(null);
+
+      this.dispatchEvent(new CustomEvent(next.plan ? 'crossfadeTransition' : 'gaplessTransition', {
+        detail: { previousTrack, track: next.track, plan: next.plan }
+      }));
+      this.dispatchEvent(new CustomEvent('metadataLoaded', {
+        detail: { duration: this.state.duration, track: next.track }
+      }));
+      return;
+    }
+
+    this.bufferSource = null;
+    this.bufferFade?.disconnect();
+    this.bufferFade = null;
+    this.bufferOffset = 0;
+    this.state.isPlaying = false;
+    this.stopBufferClock();
+
+    this.dispatchEvent(new CustomEvent('trackEnded', {
+      detail: { track: previousTrack }
+    }));
+  }
+
+  /**
+   * Playback position of the buffer source, derived from the context clock
+   */
+  private getBufferPosition(): number {
+    if (!this.audioContext || !this.currentBuffer) return 0;
+    if (!this.bufferSource || !this.state.isPlaying) return this.bufferOffset;
+
+    const elapsed = (this.audioContext.currentTime - this.bufferStartedAt) * this.state.playbackRate;
+    return Math.max(0, Math.min(this.currentBuffer.duration, this.bufferOffset + elapsed));
+  }
+
+  /**
+   * Buffer sources have no timeupdate event, so emit one on a timer
+   */
+  private startBufferClock(): void {
+    this.stopBufferClock();
+
+    this.bufferClock = window.setInterval(() => {
+      this.state.currentTime = this.getBufferPosition();
+      this.dispatchEvent(new CustomEvent('timeUpdate', {
+        detail: { currentTime: this.state.currentTime }
+      }));
+    }, 250);
+  }
+
+  private stopBufferClock(): void {
+    if (this.bufferClock) {
+      clearInterval(this.bufferClock);
+      this.bufferClock = null;
+    }
+  }
+
+  /**
+   * Gain curve for one side of a smart crossfade
+   */
+  private createTransitionCurve(curve: TransitionCurve, fadeIn: boolean, level: number): Float32Array {
+    const steps = 100;
+    let values: Float32Array;
+
+    if (curve === 'logarithmic') {
+      values = fadeIn ? this.createLogCurve(0, 1, steps) : this.createLogCurve(1, 0, steps);
+    } else {
+      // Equal power: constant summed energy for uncorrelated material
+      values = new Float32Array(steps);
+      for (let i = 0; i < steps; i++) {
+        const angle = (i / (steps - 1)) * Math.PI / 2;
+        values[i] = fadeIn ? Math.sin(angle) : Math.cos(angle);
+      }
+    }
+
+    return values.map(value => value * level);
+  }
+
   /**
    * Create logarithmic curve for crossfading
    */
@@ -630,6 +1600,146 @@ export class AudioEngine extends EventTarget {
     }
   }
 
+  /**
+   * Loop playback between two points of the current track (A-B loop). Pass null to clear.
+   */
+  setLoopRegion(region: LoopRegion | null): void {
+    if (region) {
+      const start = Math.max(0, Math.min(region.start, region.end));
+      const end = Math.min(this.state.duration || Infinity, Math.max(region.start, region.end));
+      this.state.loopRegion = end - start >= MIN_LOOP_LENGTH ? { start, end } : null;
+    } else if (!this.state.loopRegion) {
+      return;
+    } else {
+      this.state.loopRegion = null;
+    }
+
+    this.scheduleLoop();
+
+    this.dispatchEvent(new CustomEvent('loopChange', {
+      detail: { region: this.state.loopRegion }
+    }));
+  }
+
+  /**
+   * Play a metronome count-in (first beat accented) and resolve once it is over.
+   * The clicks go straight to the output, bypassing the effects chain.
+   */
+  async playCountIn(beats: number, bpm: number): Promise<void> {
+    const context = this.audioContext;
+    if (!context || beats <= 0 || bpm <= 0) return;
+
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    const period = 60 / bpm;
+    const startAt = context.currentTime + 0.05;
+    const level = this.state.muted ? 0 : this.state.volume * 0.6;
+
+    for (let beat = 0; beat < beats; beat++) {
+      const at = startAt + beat * period;
+      const oscillator = context.createOscillator();
+      const envelope = context.createGain();
+
+      oscillator.frequency.value = beat === 0 ? 1600 : 1000;
+      envelope.gain.setValueAtTime(level, at);
+      envelope.gain.setTargetAtTime(0, at, 0.015);
+
+      oscillator.connect(envelope);
+      envelope.connect(context.destination);
+      oscillator.onended = () => envelope.disconnect();
+      oscillator.start(at);
+      oscillator.stop(at + 0.1);
+    }
+
+    const remaining = startAt - context.currentTime + beats * period;
+    await new Promise<void>(resolve => window.setTimeout(resolve, remaining * 1000));
+  }
+
+  /**
+   * Current position straight from the playing source, not the last timeupdate
+   */
+  private getPlaybackPosition(): number {
+    if (this.currentBuffer) return this.getBufferPosition();
+    return this.audioElement ? this.audioElement.currentTime : this.state.currentTime;
+  }
+
+  private scheduleLoop(): void {
+    if (this.loopTimer) {
+      clearTimeout(this.loopTimer);
+      this.loopTimer = null;
+    }
+
+    const region = this.state.loopRegion;
+    if (!region || !this.state.isPlaying) return;
+
+    // Past B (the listener seeked out of the region): play on without looping
+    const position = this.getPlaybackPosition();
+    if (position >= region.end) return;
+
+    const delay = (region.end - position) / this.state.playbackRate * 1000;
+    this.loopTimer = window.setTimeout(() => this.handleLoopEnd(), delay);
+  }
+
+  private handleLoopEnd(): void {
+    this.loopTimer = null;
+
+    const region = this.state.loopRegion;
+    if (!region || !this.state.isPlaying) return;
+
+    // Timers may fire a little early; wait for the real end point
+    if (this.getPlaybackPosition() < region.end - 0.01) {
+      this.scheduleLoop();
+      return;
+    }
+
+    // Listeners (e.g. practice mode) may cancel the event and handle the jump back themselves
+    const jumpBack = this.dispatchEvent(new CustomEvent('loopEnd', {
+      detail: { region },
+      cancelable: true
+    }));
+
+    if (jumpBack) {
+      this.seek(region.start);
+    }
+  }
+
+  /**
+   * Re-render a track (the current one by default) offline with the current tempo, pitch, EQ, effects and normalization
+   */
+  async renderOffline(options: OfflineRenderOptions & { track?: AudioTrack } = {}): Promise<AudioBuffer> {
+    const { track = this.currentTrack, ...renderOptions } = options;
+    if (!track || !this.gaplessDecoder) {
+      throw new Error('No track to render');
+    }
+
+    const isCurrent = track.id === this.currentTrack?.id;
+    const buffer = isCurrent && this.currentBuffer
+      ? this.currentBuffer
+      : await this.gaplessDecoder.decode(track, options.signal);
+    const normalizationGain = isCurrent
+      ? this.state.normalizationGain
+      : await this.resolveNormalizationGain(track, buffer);
+
+    return OfflineRenderer.render(buffer, this.getRenderSettings(normalizationGain), renderOptions);
+  }
+
+  /**
+   * Snapshot of the processing applied during playback
+   */
+  private getRenderSettings(normalizationGain: number): OfflineRenderSettings {
+    return {
+      playbackRate: this.state.playbackRate,
+      pitchSemitones: this.state.pitchSemitones,
+      preservePitch: this.state.preservePitch,
+      equalizer: this.getEqualizerPreset('Export'),
+      equalizerEnabled: this.state.equalizerEnabled,
+      effects: this.getEffects(),
+      normalizationGain
+    };
+  }
+
   /**
    * Get current audio state
    */
@@ -655,17 +1765,21 @@ export class AudioEngine extends EventTarget {
       clearTimeout(this.crossfadeTimer);
     }
     
-    if (this.audioElement) {
-      this.audioElement.pause();
-      this.audioElement.src = '';
-      this.audioElement.load();
+    if (this.loopTimer) {
+      clearTimeout(this.loopTimer);
     }
+
+    this.stopBufferPlayback();
+    this.cancelPreloadedTrack();
+    this.gaplessDecoder?.clear();
+    this.trackEdges.clear();
     
-    if (this.sourceNode) {
-      this.sourceNode.disconnect();
-    }
+    this.releaseAudioElement();
     
-    this.equalizerNodes.forEach(node => node.disconnect());
+    this.timeStretchInput?.disconnect();
+    this.pitchShifterNode?.disconnect();
+    this.equalizer?.dispose();
+    this.effectsChain?.dispose();
     
     if (this.gainNode) {
       this.gainNode.disconnect();
@@ -679,6 +1793,25 @@ export class AudioEngine extends EventTarget {
       this.audioContext.close();
     }
   }
+
+  /**
+   * Playable track for a library song; album and track number let album sequences play gapless
+   */
+  static trackFromSong(song: Song): AudioTrack {
+    const extension = song.filePath.split('?')[0]!.split('.').pop()?.toLowerCase() as AudioFormat;
+
+    return {
+      id: song.id,
+      url: song.filePath,
+      format: AUDIO_FORMATS.includes(extension) ? extension : 'mp3',
+      title: song.title,
+      artist: song.artist,
+      duration: song.duration,
+      ...(song.album ? { album: song.album } : {}),
+      ...(song.trackNumber ? { trackNumber: song.trackNumber } : {}),
+      ...(song.tempo !== undefined ? { tempo: song.tempo } : {})
+    };
+  }
 }
 
 /**
@@ -696,27 +1829,25 @@ export class AudioFormatDetector {
     }
     
     const audio = new Audio();
-    const mimeTypes: Record<AudioFormat, string> = {
-      mp3: 'audio/mpeg',
-      flac: 'audio/flac',
-      wav: 'audio/wav',
-      aac: 'audio/aac',
-      ogg: 'audio/ogg',
-      webm: 'audio/webm'
-    };
-    
-    const canPlay = audio.canPlayType(mimeTypes[format]);
+    const canPlay = audio.canPlayType(this.getMimeType(format));
     const isSupported = canPlay === 'probably' || canPlay === 'maybe';
     
     this.supportedFormats[format] = isSupported;
     return isSupported;
   }
   
+  /**
+   * MIME type of a format
+   */
+  static getMimeType(format: AudioFormat): string {
+    return FORMAT_MIME_TYPES[format];
+  }
+  
   /**
    * Get all supported formats
    */
   static getSupportedFormats(): AudioFormat[] {
-    const allFormats: AudioFormat[] = ['mp3', 'flac', 'wav', 'aac', 'ogg', 'webm'];
+    const allFormats: AudioFormat[] = ['mp3', 'flac', 'wav', 'aac', 'ogg', 'webm', 'm4a', 'aiff'];
     return allFormats.filter(format => this.isFormatSupported(format));
   }
   
@@ -734,7 +1865,11 @@ export class AudioFormatDetector {
         'audio/wave': 'wav',
         'audio/aac': 'aac',
         'audio/ogg': 'ogg',
-        'audio/webm': 'webm'
+        'audio/webm': 'webm',
+        'audio/mp4': 'm4a',
+        'audio/x-m4a': 'm4a',
+        'audio/aiff': 'aiff',
+        'audio/x-aiff': 'aiff'
       };
       
       const format = mimeToFormat[mimeType.toLowerCase()];
@@ -752,7 +1887,12 @@ export class AudioFormatDetector {
         wav: 'wav',
         aac: 'aac',
         ogg: 'ogg',
-        webm: 'webm'
+        opus: 'ogg',
+        webm: 'webm',
+        m4a: 'm4a',
+        mp4: 'm4a',
+        aif: 'aiff',
+        aiff: 'aiff'
       };
       
       const format = extToFormat[extension];
@@ -763,4 +1903,41 @@ export class AudioFormatDetector {
     
     return null;
   }
+
+  /**
+   * Sniff the real container and codec from the file's bytes instead of its name
+   */
+  static async probe(source: Blob | string, signal?: AbortSignal): Promise<AudioProbeResult | null> {
+    return typeof source === 'string'
+      ? AudioProber.probeUrl(source, signal)
+      : AudioProber.probeBlob(source);
+  }
+
+  /**
+   * Whether the browser can decode the probed container/codec combination
+   */
+  static canPlayProbe(probe: AudioProbeResult): boolean {
+    if (typeof Audio === 'undefined') return true;
+
+    const canPlay = new Audio().canPlayType(probe.mimeType);
+    return canPlay === 'probably' || canPlay === 'maybe';
+  }
+
+  /**
+   * Engine format for a probed file
+   */
+  static formatFromProbe(probe: AudioProbeResult): AudioFormat {
+    const formats: Record<AudioProbeResult['container'], AudioFormat> = {
+      mp3: 'mp3',
+      adts: 'aac',
+      flac: 'flac',
+      ogg: 'ogg',
+      wav: 'wav',
+      aiff: 'aiff',
+      mp4: 'm4a',
+      webm: 'webm',
+      matroska: 'webm'
+    };
+    return formats[probe.container];
+  }
 }
@@ -0,0 +1,266 @@
+/**
+ * Audio Feature Analyzer for Meow-Play
+ * Features: Web Worker feature extraction and waveform peaks, one analysis at a time, per-song IndexedDB cache, change events
+ */
+
+import featureWorkerUrl from './workers/featureExtractorWorker.ts?worker&url';
+import { FeatureExtractor, ExtractedAudioFeatures } from './FeatureExtractor';
+import { WaveformPeaks, WaveformData } from './WaveformPeaks';
+import type { FeatureExtractionRequest, FeatureExtractionResponse } from './workers/featureExtractorWorker';
+import { db } from '../utils/indexedDB';
+
+export interface StoredAudioFeatures extends ExtractedAudioFeatures {
+  songId: string;
+  analyzedAt: number;
+  version: number; // FEATURE_VERSION at analysis time
+}
+
+export interface StoredWaveform extends WaveformData {
+  songId: string;
+  version: number; // WAVEFORM_VERSION at generation time
+}
+
+export type AudioFeaturesEvent = CustomEvent<{ songId: string; features: StoredAudioFeatures }>;
+export type WaveformEvent = CustomEvent<{ songId: string; waveform: StoredWaveform }>;
+
+// Bump when the extractor changes enough that stored results should be recomputed
+const FEATURE_VERSION = 1;
+const WAVEFORM_VERSION = 1;
+
+// Waveforms are loaded per song, so only the most recent few stay in memory
+const MAX_CACHED_WAVEFORMS = 20;
+
+// Decoding at a low rate keeps the PCM handed to the worker small
+const DECODE_SAMPLE_RATE = 22050;
+
+interface ExtractionResult {
+  features: ExtractedAudioFeatures;
+  waveform: WaveformData;
+}
+
+interface PendingExtraction {
+  resolve: (result: ExtractionResult) => void;
+  reject: (error: Error) => void;
+}
+
+export class AudioFeatureAnalyzer extends EventTarget {
+  private cache: Map<string, StoredAudioFeatures> = new Map();
+  private cacheLoaded: Promise<void> | null = null;
+  private waveforms: Map<string, StoredWaveform> = new Map();
+  private pending: Map<string, Promise<StoredAudioFeatures | null>> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+  private worker: Worker | null = null;
+  private extractions: Map<number, PendingExtraction> = new Map();
+  private nextExtractionId = 1;
+
+  /**
+   * Read every stored analysis into memory once
+   */
+  loadCache(): Promise<void> {
+    if (!this.cacheLoaded) {
+      this.cacheLoaded = db.audioFeatures.getAll()
+        .then(entries => {
+          entries.forEach(entry => {
+            if (!this.cache.has(entry.songId)) this.cache.set(entry.songId, entry);
+          });
+        })
+        .catch(error => console.warn('Audio feature cache unavailable:', error));
+    }
+    return this.cacheLoaded;
+  }
+
+  /**
+   * Features already in memory; call loadCache first for stored ones
+   */
+  getCachedFeatures(songId: string): StoredAudioFeatures | undefined {
+    return this.cache.get(songId);
+  }
+
+  /**
+   * Copy of everything currently in memory, keyed by song ID
+   */
+  getAllCachedFeatures(): Map<string, StoredAudioFeatures> {
+    return new Map(this.cache);
+  }
+
+  /**
+   * Stored features for a song, or null if it has not been analyzed
+   */
+  async getFeatures(songId: string): Promise<StoredAudioFeatures | null> {
+    await this.loadCache();
+    return this.cache.get(songId) ?? null;
+  }
+
+  /**
+   * Stored waveform peaks for a song, or null if none have been generated
+   */
+  async getWaveform(songId: string): Promise<StoredWaveform | null> {
+    const cached = this.waveforms.get(songId);
+    if (cached) return cached;
+
+    try {
+      const stored = await db.waveforms.get(songId);
+      if (!stored || stored.version !== WAVEFORM_VERSION) return null;
+      this.rememberWaveform(stored);
+      return stored;
+    } catch {
+      // IndexedDB unavailable: the seek bar falls back to a plain line
+      return null;
+    }
+  }
+
+  /**
+   * Analyze a song from its file or URL unless up-to-date features and peaks are stored.
+   * Analyses are queued so only one track is decoded at a time.
+   */
+  analyze(songId: string, source: Blob | string): Promise<StoredAudioFeatures | null> {
+    const inFlight = this.pending.get(songId);
+    if (inFlight) return inFlight;
+
+    const request = this.queue
+      .then(() => this.analyzeUncached(songId, source))
+      .finally(() => this.pending.delete(songId));
+
+    this.queue = request.catch(() => undefined);
+    this.pending.set(songId, request);
+    return request;
+  }
+
+  /**
+   * Stop the worker and fail any extraction in progress
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectExtractions(new Error('Audio feature analyzer disposed'));
+  }
+
+  private async analyzeUncached(songId: string, source: Blob | string): Promise<StoredAudioFeatures | null> {
+    const existing = await this.getFeatures(songId);
+    if (existing && existing.version === FEATURE_VERSION && await this.getWaveform(songId)) return existing;
+
+    try {
+      const bytes = typeof source === 'string' ? await this.fetchBytes(source) : await source.arrayBuffer();
+      const decoded = await this.decode(bytes);
+      // Copies, so the buffers can be transferred to the worker
+      const channels = Array.from({ length: decoded.numberOfChannels }, (_, i) => decoded.getChannelData(i).slice());
+      const { features, waveform } = await this.extract(channels, decoded.sampleRate);
+
+      const stored: StoredAudioFeatures = { ...features, songId, analyzedAt: Date.now(), version: FEATURE_VERSION };
+      this.cache.set(songId, stored);
+      await this.writeCache(stored);
+
+      const storedWaveform: StoredWaveform = { ...waveform, songId, version: WAVEFORM_VERSION };
+      this.rememberWaveform(storedWaveform);
+      await this.writeWaveform(storedWaveform);
+
+      this.dispatchEvent(new CustomEvent('featuresChange', { detail: { songId, features: stored } }));
+      this.dispatchEvent(new CustomEvent('waveformChange', { detail: { songId, waveform: storedWaveform } }));
+      return stored;
+    } catch (error) {
+      console.warn('Audio feature analysis failed:', error);
+      return null;
+    }
+  }
+
+  private async fetchBytes(url: string): Promise<ArrayBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.arrayBuffer();
+  }
+
+  private async decode(bytes: ArrayBuffer): Promise<AudioBuffer> {
+    if (typeof OfflineAudioContext === 'undefined') {
+      throw new Error('Web Audio is not available');
+    }
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    return context.decodeAudioData(bytes);
+  }
+
+  private extract(channels: Float32Array[], sampleRate: number): Promise<ExtractionResult> {
+    const worker = this.getWorker();
+    // Without worker support the analysis runs on the main thread
+    if (!worker) {
+      return Promise.resolve({
+        features: FeatureExtractor.extract(channels, sampleRate),
+        waveform: WaveformPeaks.generate(channels, sampleRate)
+      });
+    }
+
+    const id = this.nextExtractionId++;
+    return new Promise((resolve, reject) => {
+      this.extractions.set(id, { resolve, reject });
+      const request: FeatureExtractionRequest = { id, channels, sampleRate };
+      worker.postMessage(request, channels.map(samples => samples.buffer as ArrayBuffer));
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || typeof Worker === 'undefined') return this.worker;
+
+    try {
+      const worker = new Worker(featureWorkerUrl, { type: 'module' });
+
+      worker.onmessage = (event: MessageEvent<FeatureExtractionResponse>) => {
+        const response = event.data;
+        const extraction = this.extractions.get(response.id);
+        if (!extraction) return;
+
+        this.extractions.delete(response.id);
+        if ('error' in response) {
+          extraction.reject(new Error(response.error));
+        } else {
+          extraction.resolve({ features: response.features, waveform: response.waveform });
+        }
+      };
+
+      // A crashed worker is replaced on the next analysis
+      worker.onerror = (event) => {
+        console.warn('Feature extraction worker failed:', event.message);
+        worker.terminate();
+        if (this.worker === worker) this.worker = null;
+        this.rejectExtractions(new Error(event.message || 'Feature extraction worker failed'));
+      };
+
+      this.worker = worker;
+    } catch (error) {
+      console.warn('Failed to start feature extraction worker:', error);
+    }
+
+    return this.worker;
+  }
+
+  private rejectExtractions(error: Error): void {
+    this.extractions.forEach(extraction => extraction.reject(error));
+    this.extractions.clear();
+  }
+
+  private rememberWaveform(waveform: StoredWaveform): void {
+    this.waveforms.delete(waveform.songId);
+    this.waveforms.set(waveform.songId, waveform);
+    if (this.waveforms.size > MAX_CACHED_WAVEFORMS) {
+      const oldest = this.waveforms.keys().next().value;
+      if (oldest !== undefined) this.waveforms.delete(oldest);
+    }
+  }
+
+  private async writeWaveform(waveform: StoredWaveform): Promise<void> {
+    try {
+      await db.waveforms.put(waveform);
+    } catch (error) {
+      console.warn('Failed to cache waveform:', error);
+    }
+  }
+
+  private async writeCache(features: StoredAudioFeatures): Promise<void> {
+    try {
+      await db.audioFeatures.put(features);
+    } catch (error) {
+      console.warn('Failed to cache audio features:', error);
+    }
+  }
+}
+
+export const audioFeatureAnalyzer = new AudioFeatureAnalyzer();
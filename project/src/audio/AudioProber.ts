@@ -0,0 +1,1036 @@
+/**
+ * Audio Prober for Meow-Play
+ * Features: Container sniffing from magic bytes and codec/stream parameters from headers
+ * (MP3 with ID3/Xing/VBRI, ADTS AAC, FLAC, Ogg Vorbis/Opus/FLAC, WAV/RF64, AIFF/AIFC, MP4/M4A AAC/ALAC, WebM/Matroska)
+ */
+
+export type AudioContainer = 'mp3' | 'adts' | 'flac' | 'ogg' | 'wav' | 'aiff' | 'mp4' | 'webm' | 'matroska';
+
+export type AudioCodec =
+  | 'mp3'
+  | 'mp2'
+  | 'aac'
+  | 'alac'
+  | 'flac'
+  | 'vorbis'
+  | 'opus'
+  | 'pcm'
+  | 'pcm-float'
+  | 'unknown';
+
+export interface AudioProbeResult {
+  container: AudioContainer;
+  codec: AudioCodec;
+  mimeType: string; // with a codecs parameter where the container carries several codecs
+  sampleRate: number | null; // Hz
+  channels: number | null;
+  bitDepth: number | null; // lossless and PCM only
+  bitrate: number | null; // bits per second, average where known
+  duration: number | null; // seconds
+}
+
+export interface ProbeOptions {
+  fileSize?: number | null; // bytes; enables duration/bitrate estimates for CBR and size-based averages
+  tail?: Uint8Array; // last bytes of an Ogg file (duration), or the whole moov box of an MP4 that keeps it at the end
+}
+
+/**
+ * Random access to the bytes being probed
+ */
+export interface ProbeSource {
+  size: number | null;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+export const PROBE_HEAD_BYTES = 64 * 1024;
+const PROBE_TAIL_BYTES = 64 * 1024;
+const MAX_MOOV_BYTES = 8 * 1024 * 1024;
+const MP3_SYNC_SEARCH = 16 * 1024; // junk tolerated before the first MPEG frame
+
+// MPEG audio bitrates in kbps, indexed by [version 1 ? 0 : 1][layer - 1][index]
+const MPEG_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+  ]
+];
+const MPEG_SAMPLE_RATES = [44100, 48000, 32000];
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+const MATROSKA_CODECS: Record<string, AudioCodec> = {
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_AAC: 'aac',
+  A_FLAC: 'flac',
+  'A_MPEG/L3': 'mp3',
+  'A_MPEG/L2': 'mp2',
+  'A_PCM/INT/LIT': 'pcm',
+  'A_PCM/INT/BIG': 'pcm',
+  'A_PCM/FLOAT/IEEE': 'pcm-float'
+};
+
+interface MpegFrame {
+  codec: AudioCodec;
+  version: 1 | 2 | 2.5;
+  sampleRate: number;
+  channels: number;
+  bitrate: number; // bps
+  samplesPerFrame: number;
+  length: number; // bytes
+}
+
+interface AdtsFrame {
+  sampleRate: number;
+  channels: number;
+  objectType: number;
+  length: number; // bytes, header included
+}
+
+interface Box {
+  type: string;
+  start: number; // offset of the payload
+  end: number;
+}
+
+interface EbmlElement {
+  id: number;
+  start: number; // offset of the payload
+  end: number;
+}
+
+type PartialProbe = Omit<AudioProbeResult, 'mimeType'>;
+
+export class AudioProber {
+  /**
+   * Identify the container and read stream parameters from the start of a file
+   */
+  static probe(head: Uint8Array, options: ProbeOptions = {}): AudioProbeResult | null {
+    const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+    const fileSize = options.fileSize ?? null;
+    const id3End = AudioProber.skipId3(head);
+
+    let result: PartialProbe | null = null;
+    if (AudioProber.matches(head, id3End, 'fLaC')) {
+      result = AudioProber.probeFlac(head, view, id3End, fileSize);
+    } else if (AudioProber.matches(head, 0, 'OggS')) {
+      // A file that fits in the head is its own tail
+      const whole = fileSize !== null && head.length >= fileSize ? head : undefined;
+      result = AudioProber.probeOgg(head, view, fileSize, options.tail ?? whole);
+    } else if (['RIFF', 'RF64', 'BW64'].some(magic => AudioProber.matches(head, 0, magic)) && AudioProber.matches(head, 8, 'WAVE')) {
+      result = AudioProber.probeWav(head, view);
+    } else if (AudioProber.matches(head, 0, 'FORM') && (AudioProber.matches(head, 8, 'AIFF') || AudioProber.matches(head, 8, 'AIFC'))) {
+      result = AudioProber.probeAiff(head, view);
+    } else if (AudioProber.matches(head, 4, 'ftyp')) {
+      result = AudioProber.probeMp4(head, view, fileSize, options.tail);
+    } else if (view.byteLength >= 4 && view.getUint32(0) === 0x1a45dfa3) {
+      result = AudioProber.probeMatroska(head, view);
+    } else {
+      // Bare MPEG streams have no magic; look for two consecutive frame headers
+      result = AudioProber.probeMpeg(head, view, id3End, fileSize);
+    }
+
+    return result ? { ...result, mimeType: AudioProber.getMimeType(result) } : null;
+  }
+
+  /**
+   * Probe a file or blob, reading the tail or a trailing moov atom only when the head is not enough
+   */
+  static async probeBlob(blob: Blob): Promise<AudioProbeResult | null> {
+    return AudioProber.probeSource({
+      size: blob.size,
+      read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer())
+    });
+  }
+
+  /**
+   * Probe a remote or object URL with HTTP range requests
+   */
+  static async probeUrl(url: string, signal?: AbortSignal): Promise<AudioProbeResult | null> {
+    const source: ProbeSource = {
+      size: null,
+      read: async (offset, length) => {
+        const response = await fetch(url, {
+          headers: { Range: `bytes=${offset}-${offset + length - 1}` },
+          ...(signal ? { signal } : {})
+        });
+        if (!response.ok) {
+          throw new Error(`Probe request failed: ${response.status}`);
+        }
+
+        const range = response.headers.get('Content-Range')?.match(/\/(\d+)$/);
+        if (range?.[1]) {
+          source.size = Number(range[1]);
+        } else if (response.status === 200) {
+          const contentLength = response.headers.get('Content-Length');
+          if (contentLength) source.size = Number(contentLength);
+          // The server ignored the range; only the start of the body is usable
+          if (offset > 0) {
+            await response.body?.cancel();
+            return new Uint8Array(0);
+          }
+        }
+
+        return AudioProber.readAtMost(response, length);
+      }
+    };
+
+    return AudioProber.probeSource(source);
+  }
+
+  /**
+   * Probe through any random-access source
+   */
+  static async probeSource(source: ProbeSource): Promise<AudioProbeResult | null> {
+    const head = await source.read(0, PROBE_HEAD_BYTES);
+
+    // Embedded artwork can make the ID3 tag longer than the head; probe the audio after it instead
+    const id3End = AudioProber.skipId3(head);
+    if (id3End > 0 && id3End >= head.length && head.length === PROBE_HEAD_BYTES) {
+      return AudioProber.probeSource({
+        get size() {
+          return source.size === null ? null : Math.max(0, source.size - id3End);
+        },
+        read: (offset, length) => source.read(id3End + offset, length)
+      });
+    }
+
+    let result = AudioProber.probe(head, { fileSize: source.size });
+    const size = source.size;
+    if (!result || size === null || size <= head.length) return result;
+
+    if (result.container === 'mp4' && result.codec === 'unknown') {
+      const moov = await AudioProber.findTopLevelBox(source, 'moov', size);
+      if (moov) result = AudioProber.probe(head, { fileSize: size, tail: moov });
+    } else if (result.container === 'ogg' && result.duration === null) {
+      const tailStart = Math.max(0, size - PROBE_TAIL_BYTES);
+      result = AudioProber.probe(head, { fileSize: size, tail: await source.read(tailStart, size - tailStart) });
+    }
+
+    return result;
+  }
+
+  /**
+   * MIME type for canPlayType / MediaSource.isTypeSupported
+   */
+  static getMimeType(result: Pick<AudioProbeResult, 'container' | 'codec'>): string {
+    const { container, codec } = result;
+
+    switch (container) {
+      case 'mp3':
+        return 'audio/mpeg';
+      case 'adts':
+        return 'audio/aac';
+      case 'flac':
+        return 'audio/flac';
+      case 'wav':
+        return 'audio/wav';
+      case 'aiff':
+        return 'audio/aiff';
+      case 'ogg':
+        return codec === 'unknown' ? 'audio/ogg' : `audio/ogg; codecs="${codec}"`;
+      case 'mp4': {
+        const codecs: Partial<Record<AudioCodec, string>> = {
+          aac: 'mp4a.40.2',
+          mp3: 'mp4a.6B',
+          alac: 'alac',
+          flac: 'flac',
+          opus: 'opus'
+        };
+        const codecParameter = codecs[codec];
+        return codecParameter ? `audio/mp4; codecs="${codecParameter}"` : 'audio/mp4';
+      }
+      case 'webm':
+      case 'matroska': {
+        const type = container === 'webm' ? 'audio/webm' : 'audio/x-matroska';
+        return codec === 'opus' || codec === 'vorbis' ? `${type}; codecs="${codec}"` : type;
+      }
+    }
+  }
+
+  /**
+   * Offset just past any ID3v2 tags (several may be stacked)
+   */
+  static skipId3(bytes: Uint8Array): number {
+    let offset = 0;
+
+    while (AudioProber.matches(bytes, offset, 'ID3') && offset + 10 <= bytes.length) {
+      const flags = bytes[offset + 5] ?? 0;
+      const size = AudioProber.readSyncsafe(bytes, offset + 6);
+      offset += 10 + size + (flags & 0x10 ? 10 : 0);
+    }
+
+    return offset;
+  }
+
+  // --- MPEG audio / ADTS ---
+
+  private static probeMpeg(bytes: Uint8Array, view: DataView, from: number, fileSize: number | null): PartialProbe | null {
+    const limit = Math.min(bytes.length - 4, from + MP3_SYNC_SEARCH);
+
+    for (let offset = from; offset < limit; offset++) {
+      if (bytes[offset] !== 0xff || ((bytes[offset + 1] ?? 0) & 0xe0) !== 0xe0) continue;
+
+      const adts = AudioProber.readAdtsFrame(bytes, offset);
+      if (adts && AudioProber.confirmsNextFrame(bytes, offset + adts.length, next => !!AudioProber.readAdtsFrame(bytes, next))) {
+        return AudioProber.probeAdts(bytes, offset, adts, fileSize);
+      }
+
+      const frame = AudioProber.readMpegFrame(bytes, offset);
+      if (!frame || !AudioProber.confirmsNextFrame(bytes, offset + frame.length, next => !!AudioProber.readMpegFrame(bytes, next))) {
+        continue;
+      }
+
+      const audioBytes = fileSize !== null ? fileSize - offset : null;
+      const vbr = AudioProber.readVbrHeader(bytes, view, offset, frame);
+      let duration: number | null = null;
+      let bitrate: number | null = frame.bitrate;
+
+      if (vbr?.frames) {
+        duration = vbr.frames * frame.samplesPerFrame / frame.sampleRate;
+        const streamBytes = vbr.bytes ?? audioBytes;
+        if (streamBytes && duration > 0) bitrate = Math.round(streamBytes * 8 / duration);
+      } else if (audioBytes !== null) {
+        // Constant bitrate: size divided by the first frame's rate
+        duration = audioBytes * 8 / frame.bitrate;
+      }
+
+      return {
+        container: 'mp3',
+        codec: frame.codec,
+        sampleRate: frame.sampleRate,
+        channels: frame.channels,
+        bitDepth: null,
+        bitrate,
+        duration
+      };
+    }
+
+    return null;
+  }
+
+  private static readMpegFrame(bytes: Uint8Array, offset: number): MpegFrame | null {
+    if (offset + 4 > bytes.length) return null;
+    const b1 = bytes[offset + 1] ?? 0;
+    const b2 = bytes[offset + 2] ?? 0;
+    const b3 = bytes[offset + 3] ?? 0;
+    if (bytes[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+    const versionBits = (b1 >> 3) & 3;
+    const layerBits = (b1 >> 1) & 3;
+    const bitrateIndex = b2 >> 4;
+    const rateIndex = (b2 >> 2) & 3;
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+    const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+    const layer = 4 - layerBits; // 1, 2 or 3
+    const kbps = MPEG_BITRATES[version === 1 ? 0 : 1]?.[layer - 1]?.[bitrateIndex] ?? 0;
+    const sampleRate = (MPEG_SAMPLE_RATES[rateIndex] ?? 0) / (version === 1 ? 1 : version === 2 ? 2 : 4);
+    const padding = (b2 >> 1) & 1;
+    const bitrate = kbps * 1000;
+
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+    const length = layer === 1
+      ? (Math.floor(12 * bitrate / sampleRate) + padding) * 4
+      : Math.floor(samplesPerFrame / 8 * bitrate / sampleRate) + padding;
+
+    return {
+      codec: layer === 3 ? 'mp3' : 'mp2',
+      version,
+      sampleRate,
+      channels: b3 >> 6 === 3 ? 1 : 2,
+      bitrate,
+      samplesPerFrame,
+      length
+    };
+  }
+
+  /**
+   * Xing/Info (LAME) or VBRI header in the first frame
+   */
+  private static readVbrHeader(bytes: Uint8Array, view: DataView, offset: number, frame: MpegFrame): { frames: number | null; bytes: number | null } | null {
+    const sideInfo = frame.version === 1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17);
+    const xing = offset + 4 + sideInfo;
+
+    if (AudioProber.matches(bytes, xing, 'Xing') || AudioProber.matches(bytes, xing, 'Info')) {
+      if (xing + 16 > bytes.length) return null;
+      const flags = view.getUint32(xing + 4);
+      let field = xing + 8;
+      const frames = flags & 1 ? view.getUint32(field) : null;
+      if (flags & 1) field += 4;
+      const size = flags & 2 ? view.getUint32(field) : null;
+      return { frames, bytes: size };
+    }
+
+    const vbri = offset + 36;
+    if (AudioProber.matches(bytes, vbri, 'VBRI') && vbri + 18 <= bytes.length) {
+      return { bytes: view.getUint32(vbri + 10), frames: view.getUint32(vbri + 14) };
+    }
+
+    return null;
+  }
+
+  private static readAdtsFrame(bytes: Uint8Array, offset: number): AdtsFrame | null {
+    if (offset + 7 > bytes.length) return null;
+    const b1 = bytes[offset + 1] ?? 0;
+    const b2 = bytes[offset + 2] ?? 0;
+    const b3 = bytes[offset + 3] ?? 0;
+    // Sync word, layer 00
+    if (bytes[offset] !== 0xff || (b1 & 0xf6) !== 0xf0) return null;
+
+    const sampleRate = AAC_SAMPLE_RATES[(b2 >> 2) & 0xf];
+    const length = ((b3 & 0x3) << 11) | ((bytes[offset + 4] ?? 0) << 3) | ((bytes[offset + 5] ?? 0) >> 5);
+    if (!sampleRate || length < 7) return null;
+
+    return {
+      sampleRate,
+      channels: ((b2 & 1) << 2) | (b3 >> 6),
+      objectType: (b2 >> 6) + 1,
+      length
+    };
+  }
+
+  private static probeAdts(bytes: Uint8Array, start: number, first: AdtsFrame, fileSize: number | null): PartialProbe {
+    // Average the complete frames that are available; each carries 1024 samples
+    let offset = start;
+    let frames = 0;
+    let frame: AdtsFrame | null = first;
+    while (frame && offset + frame.length <= bytes.length) {
+      offset += frame.length;
+      frames++;
+      frame = AudioProber.readAdtsFrame(bytes, offset);
+    }
+
+    const frameSeconds = 1024 / first.sampleRate;
+    const bitrate = frames > 0 ? Math.round((offset - start) * 8 / (frames * frameSeconds)) : null;
+
+    return {
+      container: 'adts',
+      codec: 'aac',
+      sampleRate: first.sampleRate,
+      channels: first.channels || null,
+      bitDepth: null,
+      bitrate,
+      duration: bitrate && fileSize !== null ? (fileSize - start) * 8 / bitrate : null
+    };
+  }
+
+  private static confirmsNextFrame(bytes: Uint8Array, next: number, isFrame: (offset: number) => boolean): boolean {
+    // A frame that reaches the end of the probed bytes cannot be confirmed; accept it
+    return next + 4 > bytes.length || isFrame(next);
+  }
+
+  // --- FLAC ---
+
+  private static probeFlac(bytes: Uint8Array, view: DataView, start: number, fileSize: number | null): PartialProbe | null {
+    let offset = start + 4;
+    let info: Omit<PartialProbe, 'container' | 'codec'> | null = null;
+    let audioStart = offset;
+
+    while (offset + 4 <= bytes.length) {
+      const header = bytes[offset] ?? 0;
+      const length = AudioProber.readUint24(bytes, offset + 1);
+      if ((header & 0x7f) === 0 && offset + 4 + 18 <= bytes.length) {
+        info = AudioProber.readStreamInfo(view, offset + 4);
+      }
+      offset += 4 + length;
+      audioStart = offset;
+      if (header & 0x80) break;
+    }
+
+    if (!info) return null;
+    return { container: 'flac', codec: 'flac', ...AudioProber.withAverageBitrate(info, fileSize, audioStart) };
+  }
+
+  /**
+   * STREAMINFO: 20-bit rate, 3-bit channels - 1, 5-bit bits per sample - 1, 36-bit total samples
+   */
+  private static readStreamInfo(view: DataView, offset: number): Omit<PartialProbe, 'container' | 'codec'> {
+    const packed = view.getUint32(offset + 10);
+    const sampleRate = packed >>> 12;
+    const channels = ((packed >>> 9) & 0x7) + 1;
+    const bitDepth = ((packed >>> 4) & 0x1f) + 1;
+    const totalSamples = (packed & 0xf) * 0x100000000 + view.getUint32(offset + 14);
+
+    return {
+      sampleRate,
+      channels,
+      bitDepth,
+      bitrate: null,
+      duration: totalSamples > 0 && sampleRate > 0 ? totalSamples / sampleRate : null
+    };
+  }
+
+  // --- Ogg ---
+
+  private static probeOgg(bytes: Uint8Array, view: DataView, fileSize: number | null, tail?: Uint8Array): PartialProbe | null {
+    if (bytes.length < 28) return null;
+
+    const segments = bytes[26] ?? 0;
+    const packet = 27 + segments;
+    let codec: AudioCodec = 'unknown';
+    let sampleRate: number | null = null;
+    let channels: number | null = null;
+    let bitDepth: number | null = null;
+    let bitrate: number | null = null;
+    let preSkip = 0;
+    let granuleRate: number | null = null;
+
+    if (AudioProber.matches(bytes, packet, 'OpusHead') && packet + 19 <= bytes.length) {
+      codec = 'opus';
+      channels = bytes[packet + 9] ?? null;
+      preSkip = view.getUint16(packet + 10, true);
+      // Opus always decodes at 48 kHz; the header only records the original rate
+      sampleRate = 48000;
+      granuleRate = 48000;
+    } else if (bytes[packet] === 1 && AudioProber.matches(bytes, packet + 1, 'vorbis') && packet + 28 <= bytes.length) {
+      codec = 'vorbis';
+      channels = bytes[packet + 11] ?? null;
+      sampleRate = view.getUint32(packet + 12, true);
+      const nominal = view.getInt32(packet + 20, true);
+      bitrate = nominal > 0 ? nominal : null;
+      granuleRate = sampleRate;
+    } else if (bytes[packet] === 0x7f && AudioProber.matches(bytes, packet + 1, 'FLAC') && AudioProber.matches(bytes, packet + 9, 'fLaC') && packet + 35 <= bytes.length) {
+      codec = 'flac';
+      const info = AudioProber.readStreamInfo(view, packet + 17);
+      sampleRate = info.sampleRate;
+      channels = info.channels;
+      bitDepth = info.bitDepth;
+      granuleRate = sampleRate;
+    }
+
+    let duration: number | null = null;
+    const granule = tail ? AudioProber.findLastGranule(tail) : null;
+    if (granule !== null && granuleRate) {
+      duration = Math.max(0, granule - preSkip) / granuleRate;
+    }
+    if (duration && fileSize !== null && (bitrate === null || codec !== 'vorbis')) {
+      bitrate = Math.round(fileSize * 8 / duration);
+    }
+
+    return { container: 'ogg', codec, sampleRate, channels, bitDepth, bitrate, duration };
+  }
+
+  /**
+   * Granule position of the last complete page header in the tail
+   */
+  private static findLastGranule(tail: Uint8Array): number | null {
+    const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+    for (let offset = tail.length - 27; offset >= 0; offset--) {
+      if (!AudioProber.matches(tail, offset, 'OggS')) continue;
+      const low = view.getUint32(offset + 6, true);
+      const high = view.getUint32(offset + 10, true);
+      // -1 marks a page on which no packet ends
+      if (low === 0xffffffff && high === 0xffffffff) continue;
+      return high * 0x100000000 + low;
+    }
+
+    return null;
+  }
+
+  // --- WAV / RF64 ---
+
+  private static probeWav(bytes: Uint8Array, view: DataView): PartialProbe | null {
+    let offset = 12;
+    let format: { tag: number; channels: number; sampleRate: number; byteRate: number; bitDepth: number } | null = null;
+    let dataSize: number | null = null;
+    let ds64DataSize: number | null = null;
+
+    while (offset + 8 <= bytes.length) {
+      const id = AudioProber.readString(bytes, offset, 4);
+      const size = view.getUint32(offset + 4, true);
+      const body = offset + 8;
+
+      if (id === 'ds64' && body + 16 <= bytes.length) {
+        ds64DataSize = view.getUint32(body + 8, true) + view.getUint32(body + 12, true) * 0x100000000;
+      } else if (id === 'fmt ' && body + 16 <= bytes.length) {
+        let tag = view.getUint16(body, true);
+        // WAVE_FORMAT_EXTENSIBLE keeps the real tag at the start of the sub-format GUID
+        if (tag === 0xfffe && body + 26 <= bytes.length) tag = view.getUint16(body + 24, true);
+        format = {
+          tag,
+          channels: view.getUint16(body + 2, true),
+          sampleRate: view.getUint32(body + 4, true),
+          byteRate: view.getUint32(body + 8, true),
+          bitDepth: view.getUint16(body + 14, true)
+        };
+      } else if (id === 'data') {
+        dataSize = size === 0xffffffff && ds64DataSize !== null ? ds64DataSize : size;
+        break;
+      }
+
+      offset = body + size + (size & 1);
+    }
+
+    if (!format) return null;
+
+    const codec: AudioCodec = format.tag === 1 ? 'pcm' : format.tag === 3 ? 'pcm-float' : 'unknown';
+    return {
+      container: 'wav',
+      codec,
+      sampleRate: format.sampleRate,
+      channels: format.channels,
+      bitDepth: codec === 'unknown' ? null : format.bitDepth,
+      bitrate: format.byteRate * 8,
+      duration: dataSize !== null && format.byteRate > 0 ? dataSize / format.byteRate : null
+    };
+  }
+
+  // --- AIFF / AIFC ---
+
+  private static probeAiff(bytes: Uint8Array, view: DataView): PartialProbe | null {
+    const isAifc = AudioProber.matches(bytes, 8, 'AIFC');
+    let offset = 12;
+
+    while (offset + 8 <= bytes.length) {
+      const id = AudioProber.readString(bytes, offset, 4);
+      const size = view.getUint32(offset + 4);
+      const body = offset + 8;
+
+      if (id === 'COMM' && body + 18 <= bytes.length) {
+        const channels = view.getInt16(body);
+        const frames = view.getUint32(body + 2);
+        const bitDepth = view.getInt16(body + 6);
+        const sampleRate = AudioProber.readExtended(view, body + 8);
+        const compression = isAifc && body + 22 <= bytes.length ? AudioProber.readString(bytes, body + 18, 4) : 'NONE';
+
+        const codec: AudioCodec = ['NONE', 'sowt', 'twos'].includes(compression)
+          ? 'pcm'
+          : ['fl32', 'FL32', 'fl64', 'FL64'].includes(compression) ? 'pcm-float' : 'unknown';
+
+        return {
+          container: 'aiff',
+          codec,
+          sampleRate,
+          channels,
+          bitDepth: codec === 'unknown' ? null : bitDepth,
+          bitrate: codec === 'unknown' ? null : Math.round(sampleRate * channels * bitDepth),
+          duration: sampleRate > 0 ? frames / sampleRate : null
+        };
+      }
+
+      offset = body + size + (size & 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * 80-bit IEEE 754 extended precision, big endian
+   */
+  private static readExtended(view: DataView, offset: number): number {
+    const exponent = view.getUint16(offset) & 0x7fff;
+    const mantissa = view.getUint32(offset + 2) * 0x100000000 + view.getUint32(offset + 6);
+    if (exponent === 0 && mantissa === 0) return 0;
+    const sign = view.getUint16(offset) & 0x8000 ? -1 : 1;
+    return sign * mantissa * Math.pow(2, exponent - 16383 - 63);
+  }
+
+  // --- MP4 / M4A ---
+
+  private static probeMp4(bytes: Uint8Array, view: DataView, fileSize: number | null, tail?: Uint8Array): PartialProbe {
+    const unknown: PartialProbe = {
+      container: 'mp4',
+      codec: 'unknown',
+      sampleRate: null,
+      channels: null,
+      bitDepth: null,
+      bitrate: null,
+      duration: null
+    };
+
+    // The moov atom is usually up front; files written without "faststart" keep it at the end
+    let moov = AudioProber.findBox(bytes, view, 0, bytes.length, 'moov');
+    let moovBytes = bytes;
+    let moovView = view;
+    if (!moov && tail && AudioProber.matches(tail, 4, 'moov')) {
+      moovBytes = tail;
+      moovView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+      moov = { type: 'moov', start: 8, end: Math.min(tail.length, moovView.getUint32(0)) };
+    }
+    if (!moov) return unknown;
+
+    for (const trak of AudioProber.listBoxes(moovBytes, moovView, moov.start, moov.end, 'trak')) {
+      const mdia = AudioProber.findBox(moovBytes, moovView, trak.start, trak.end, 'mdia');
+      if (!mdia) continue;
+
+      const hdlr = AudioProber.findBox(moovBytes, moovView, mdia.start, mdia.end, 'hdlr');
+      if (!hdlr || !AudioProber.matches(moovBytes, hdlr.start + 8, 'soun')) continue;
+
+      const track = AudioProber.readMp4SoundTrack(moovBytes, moovView, mdia);
+      if (!track) continue;
+
+      const bitrate = track.bitrate ?? (fileSize !== null && track.duration ? Math.round(fileSize * 8 / track.duration) : null);
+      return { container: 'mp4', ...track, bitrate };
+    }
+
+    return unknown;
+  }
+
+  private static readMp4SoundTrack(bytes: Uint8Array, view: DataView, mdia: Box): Omit<PartialProbe, 'container'> | null {
+    let duration: number | null = null;
+    const mdhd = AudioProber.findBox(bytes, view, mdia.start, mdia.end, 'mdhd');
+    if (mdhd) {
+      const version = bytes[mdhd.start] ?? 0;
+      const timescale = view.getUint32(mdhd.start + (version === 1 ? 20 : 12));
+      const length = version === 1
+        ? view.getUint32(mdhd.start + 24) * 0x100000000 + view.getUint32(mdhd.start + 28)
+        : view.getUint32(mdhd.start + 16);
+      if (timescale > 0) duration = length / timescale;
+    }
+
+    const minf = AudioProber.findBox(bytes, view, mdia.start, mdia.end, 'minf');
+    const stbl = minf && AudioProber.findBox(bytes, view, minf.start, minf.end, 'stbl');
+    const stsd = stbl && AudioProber.findBox(bytes, view, stbl.start, stbl.end, 'stsd');
+    if (!stsd || stsd.start + 16 > bytes.length) return null;
+
+    // Full box header and entry count, then the first sample entry
+    const entryStart = stsd.start + 8;
+    const entrySize = view.getUint32(entryStart);
+    const entryType = AudioProber.readString(bytes, entryStart + 4, 4);
+    const entryEnd = Math.min(stsd.end, entryStart + entrySize);
+    const fields = entryStart + 8 + 16; // reserved, data reference index, version/revision/vendor
+    if (fields + 12 > bytes.length) return null;
+    // QuickTime sound description v1/v2 carry extra fields before the child boxes
+    const entryVersion = view.getUint16(entryStart + 16);
+
+    let channels: number | null = view.getUint16(fields);
+    let bitDepth: number | null = view.getUint16(fields + 2);
+    let sampleRate: number | null = view.getUint32(fields + 8) >>> 16;
+    let bitrate: number | null = null;
+    let codec: AudioCodec = 'unknown';
+    const children = fields + 12 + (entryVersion === 1 ? 16 : entryVersion === 2 ? 36 : 0);
+
+    if (entryType === 'mp4a') {
+      codec = 'aac';
+      bitDepth = null;
+      const esds = AudioProber.findBox(bytes, view, children, entryEnd, 'esds');
+      const config = esds && AudioProber.readEsds(bytes, view, esds);
+      if (config) {
+        if (config.objectType === 0x69 || config.objectType === 0x6b) codec = 'mp3';
+        if (config.avgBitrate > 0) bitrate = config.avgBitrate;
+        if (config.sampleRate) sampleRate = config.sampleRate;
+        if (config.channels) channels = config.channels;
+      }
+    } else if (entryType === 'alac') {
+      codec = 'alac';
+      // ALACSpecificConfig in the nested alac box overrides the generic entry fields
+      const config = AudioProber.findBox(bytes, view, children, entryEnd, 'alac');
+      if (config && config.start + 28 <= bytes.length) {
+        const base = config.start + 4;
+        bitDepth = bytes[base + 5] ?? bitDepth;
+        channels = bytes[base + 9] ?? channels;
+        const avgBitrate = view.getUint32(base + 16);
+        if (avgBitrate > 0) bitrate = avgBitrate;
+        sampleRate = view.getUint32(base + 20) || sampleRate;
+      }
+    } else if (entryType === 'Opus') {
+      codec = 'opus';
+      bitDepth = null;
+      sampleRate = 48000;
+    } else if (entryType === 'fLaC') {
+      codec = 'flac';
+    }
+
+    return { codec, sampleRate, channels, bitDepth, bitrate, duration };
+  }
+
+  /**
+   * ES_Descriptor > DecoderConfigDescriptor (+ AudioSpecificConfig)
+   */
+  private static readEsds(bytes: Uint8Array, view: DataView, esds: Box): { objectType: number; avgBitrate: number; sampleRate: number | null; channels: number | null } | null {
+    let offset = esds.start + 4;
+
+    const readDescriptor = (): { tag: number; start: number; end: number } | null => {
+      if (offset >= esds.end) return null;
+      const tag = bytes[offset++] ?? 0;
+      let length = 0;
+      for (let i = 0; i < 4; i++) {
+        const byte = bytes[offset++] ?? 0;
+        length = (length << 7) | (byte & 0x7f);
+        if (!(byte & 0x80)) break;
+      }
+      return { tag, start: offset, end: offset + length };
+    };
+
+    const es = readDescriptor();
+    if (!es || es.tag !== 3) return null;
+    const esFlags = bytes[es.start + 2] ?? 0;
+    offset = es.start + 3;
+    if (esFlags & 0x80) offset += 2; // dependsOn_ES_ID
+    if (esFlags & 0x40) offset += 1 + (bytes[offset] ?? 0); // URL
+    if (esFlags & 0x20) offset += 2; // OCR_ES_ID
+
+    const decoderConfig = readDescriptor();
+    if (!decoderConfig || decoderConfig.tag !== 4 || decoderConfig.start + 13 > bytes.length) return null;
+
+    const result = {
+      objectType: bytes[decoderConfig.start] ?? 0,
+      avgBitrate: view.getUint32(decoderConfig.start + 9),
+      sampleRate: null as number | null,
+      channels: null as number | null
+    };
+
+    offset = decoderConfig.start + 13;
+    const specific = readDescriptor();
+    if (specific?.tag === 5 && specific.start + 2 <= bytes.length) {
+      // AudioSpecificConfig: 5-bit object type, 4-bit rate index, 4-bit channel configuration
+      const bits = ((bytes[specific.start] ?? 0) << 8) | (bytes[specific.start + 1] ?? 0);
+      const rateIndex = (bits >> 7) & 0xf;
+      result.sampleRate = AAC_SAMPLE_RATES[rateIndex] ?? null;
+      result.channels = ((bits >> 3) & 0xf) || null;
+    }
+
+    return result;
+  }
+
+  private static listBoxes(bytes: Uint8Array, view: DataView, start: number, end: number, type?: string): Box[] {
+    const boxes: Box[] = [];
+    let offset = start;
+
+    while (offset + 8 <= Math.min(end, bytes.length)) {
+      let size = view.getUint32(offset);
+      const boxType = AudioProber.readString(bytes, offset + 4, 4);
+      let header = 8;
+      if (size === 1 && offset + 16 <= bytes.length) {
+        size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header) break;
+
+      if (!type || boxType === type) {
+        boxes.push({ type: boxType, start: offset + header, end: Math.min(end, offset + size) });
+      }
+      offset += size;
+    }
+
+    return boxes;
+  }
+
+  private static findBox(bytes: Uint8Array, view: DataView, start: number, end: number, type: string): Box | null {
+    return AudioProber.listBoxes(bytes, view, start, end, type)[0] ?? null;
+  }
+
+  /**
+   * Walk top-level box headers through the source and read one box whole
+   */
+  static async findTopLevelBox(source: ProbeSource, type: string, size: number): Promise<Uint8Array | null> {
+    let offset = 0;
+
+    while (offset + 8 <= size) {
+      const header = await source.read(offset, 16);
+      if (header.length < 8) return null;
+      const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+
+      let boxSize = view.getUint32(0);
+      if (boxSize === 1 && header.length >= 16) {
+        boxSize = view.getUint32(8) * 0x100000000 + view.getUint32(12);
+      } else if (boxSize === 0) {
+        boxSize = size - offset;
+      }
+      if (boxSize < 8) return null;
+
+      if (AudioProber.matches(header, 4, type)) {
+        return boxSize <= MAX_MOOV_BYTES ? source.read(offset, boxSize) : null;
+      }
+      offset += boxSize;
+    }
+
+    return null;
+  }
+
+  // --- WebM / Matroska ---
+
+  private static probeMatroska(bytes: Uint8Array, view: DataView): PartialProbe | null {
+    const header = AudioProber.readEbmlElement(bytes, 0);
+    if (!header) return null;
+
+    const docType = AudioProber.listEbml(bytes, header.start, header.end).find(element => element.id === 0x4282);
+    const container: AudioContainer = docType && AudioProber.readString(bytes, docType.start, docType.end - docType.start) === 'webm'
+      ? 'webm'
+      : 'matroska';
+
+    const result: PartialProbe = {
+      container,
+      codec: 'unknown',
+      sampleRate: null,
+      channels: null,
+      bitDepth: null,
+      bitrate: null,
+      duration: null
+    };
+
+    const segment = AudioProber.listEbml(bytes, header.end, bytes.length).find(element => element.id === 0x18538067);
+    if (!segment) return result;
+
+    let timecodeScale = 1000000;
+    let rawDuration: number | null = null;
+
+    for (const element of AudioProber.listEbml(bytes, segment.start, segment.end)) {
+      if (element.id === 0x1549a966) {
+        // Info
+        for (const field of AudioProber.listEbml(bytes, element.start, element.end)) {
+          if (field.id === 0x2ad7b1) timecodeScale = AudioProber.readEbmlUint(bytes, field);
+          if (field.id === 0x4489) rawDuration = AudioProber.readEbmlFloat(view, field);
+        }
+      } else if (element.id === 0x1654ae6b) {
+        // Tracks: first audio TrackEntry
+        for (const entry of AudioProber.listEbml(bytes, element.start, element.end)) {
+          if (entry.id !== 0xae) continue;
+          const fields = AudioProber.listEbml(bytes, entry.start, entry.end);
+          const type = fields.find(field => field.id === 0x83);
+          if (!type || AudioProber.readEbmlUint(bytes, type) !== 2) continue;
+
+          const codecId = fields.find(field => field.id === 0x86);
+          if (codecId) {
+            const name = AudioProber.readString(bytes, codecId.start, codecId.end - codecId.start).replace(/\0+$/, '');
+            result.codec = MATROSKA_CODECS[name] ?? (name.startsWith('A_AAC') ? 'aac' : 'unknown');
+          }
+
+          const audio = fields.find(field => field.id === 0xe1);
+          for (const field of audio ? AudioProber.listEbml(bytes, audio.start, audio.end) : []) {
+            if (field.id === 0xb5) result.sampleRate = AudioProber.readEbmlFloat(view, field);
+            if (field.id === 0x9f) result.channels = AudioProber.readEbmlUint(bytes, field);
+            if (field.id === 0x6264) result.bitDepth = AudioProber.readEbmlUint(bytes, field);
+          }
+          break;
+        }
+      } else if (element.id === 0x1f43b675) {
+        // First Cluster: the headers are behind us
+        break;
+      }
+    }
+
+    if (rawDuration !== null) result.duration = rawDuration * timecodeScale / 1e9;
+    if (result.codec === 'opus') result.sampleRate = 48000;
+    if (result.codec !== 'pcm' && result.codec !== 'pcm-float' && result.codec !== 'flac') result.bitDepth = null;
+    return result;
+  }
+
+  private static listEbml(bytes: Uint8Array, start: number, end: number): EbmlElement[] {
+    const elements: EbmlElement[] = [];
+    let offset = start;
+
+    while (offset < Math.min(end, bytes.length)) {
+      const element = AudioProber.readEbmlElement(bytes, offset);
+      if (!element) break;
+      elements.push({ ...element, end: Math.min(element.end, end) });
+      if (element.end <= offset) break;
+      offset = element.end;
+    }
+
+    return elements;
+  }
+
+  /**
+   * ID keeps its length marker; the size drops it. An all-ones size means "unknown" and runs to the end.
+   */
+  private static readEbmlElement(bytes: Uint8Array, offset: number): EbmlElement | null {
+    const idLength = AudioProber.vintLength(bytes[offset] ?? 0);
+    if (!idLength || idLength > 4) return null;
+    let id = 0;
+    for (let i = 0; i < idLength; i++) id = id * 256 + (bytes[offset + i] ?? 0);
+
+    const sizeOffset = offset + idLength;
+    const sizeLength = AudioProber.vintLength(bytes[sizeOffset] ?? 0);
+    if (!sizeLength || sizeOffset + sizeLength > bytes.length) return null;
+
+    let size = (bytes[sizeOffset] ?? 0) & (0xff >> sizeLength);
+    let unknown = size === (0xff >> sizeLength);
+    for (let i = 1; i < sizeLength; i++) {
+      const byte = bytes[sizeOffset + i] ?? 0;
+      size = size * 256 + byte;
+      unknown = unknown && byte === 0xff;
+    }
+
+    const start = sizeOffset + sizeLength;
+    return { id, start, end: unknown ? bytes.length : start + size };
+  }
+
+  private static vintLength(first: number): number {
+    for (let length = 1; length <= 8; length++) {
+      if (first & (0x80 >> (length - 1))) return length;
+    }
+    return 0;
+  }
+
+  private static readEbmlUint(bytes: Uint8Array, element: EbmlElement): number {
+    let value = 0;
+    for (let i = element.start; i < element.end; i++) value = value * 256 + (bytes[i] ?? 0);
+    return value;
+  }
+
+  private static readEbmlFloat(view: DataView, element: EbmlElement): number | null {
+    const length = element.end - element.start;
+    if (element.end > view.byteLength) return null;
+    if (length === 4) return view.getFloat32(element.start);
+    if (length === 8) return view.getFloat64(element.start);
+    return null;
+  }
+
+  // --- Helpers ---
+
+  private static withAverageBitrate<T extends { duration: number | null; bitrate: number | null }>(info: T, fileSize: number | null, audioStart: number): T {
+    if (info.bitrate !== null || !info.duration || fileSize === null) return info;
+    return { ...info, bitrate: Math.round((fileSize - audioStart) * 8 / info.duration) };
+  }
+
+  private static matches(bytes: Uint8Array, offset: number, magic: string): boolean {
+    if (offset < 0 || offset + magic.length > bytes.length) return false;
+    for (let i = 0; i < magic.length; i++) {
+      if (bytes[offset + i] !== magic.charCodeAt(i)) return false;
+    }
+    return true;
+  }
+
+  private static readString(bytes: Uint8Array, offset: number, length: number): string {
+    let result = '';
+    for (let i = 0; i < length && offset + i < bytes.length; i++) {
+      result += String.fromCharCode(bytes[offset + i] ?? 0);
+    }
+    return result;
+  }
+
+  private static readSyncsafe(bytes: Uint8Array, offset: number): number {
+    return (((bytes[offset] ?? 0) & 0x7f) << 21) |
+      (((bytes[offset + 1] ?? 0) & 0x7f) << 14) |
+      (((bytes[offset + 2] ?? 0) & 0x7f) << 7) |
+      ((bytes[offset + 3] ?? 0) & 0x7f);
+  }
+
+  private static readUint24(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] ?? 0) << 16) | ((bytes[offset + 1] ?? 0) << 8) | (bytes[offset + 2] ?? 0);
+  }
+
+  /**
+   * Read the start of a response body and drop the rest
+   */
+  private static async readAtMost(response: Response, length: number): Promise<Uint8Array> {
+    if (!response.body) {
+      return new Uint8Array(await response.arrayBuffer()).subarray(0, length);
+    }
+
+    const reader = response.body.getReader();
+    const result = new Uint8Array(length);
+    let received = 0;
+
+    while (received < length) {
+      const { done, value } = await reader.read();
+      if (done || !value) break;
+      const chunk = value.subarray(0, length - received);
+      result.set(chunk, received);
+      received += chunk.length;
+    }
+
+    await reader.cancel().catch(() => undefined);
+    return result.subarray(0, received);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Chunked Downloader for Meow-Play
+ * Features: resumable HTTP Range downloads, persisted chunks, If-Range validation, SHA-256 integrity checks
+ */
+
+export interface ChunkStore {
+  getChunks(trackId: string): Promise<Uint8Array[]>; // in index order
+  putChunk(trackId: string, index: number, data: Uint8Array): Promise<void>;
+  clearChunks(trackId: string): Promise<void>;
+}
+
+// Persisted next to the chunks so a download can resume after a reload
+export interface ChunkedDownloadState {
+  bytesDownloaded?: number;
+  totalBytes?: number;
+  etag?: string; // validator the stored chunks were fetched against
+  checksum?: string; // expected SHA-256, hex
+}
+
+export interface ChunkedDownloadOptions {
+  chunkSize: number; // bytes
+  signal?: AbortSignal;
+  onChunk?: (state: ChunkedDownloadState) => void | Promise<void>;
+}
+
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+const SHA256_HEX = /^[0-9a-f]{64}$/i;
+
+export class ChunkedDownloader {
+  /**
+   * Download a file in Range chunks, continuing from whatever chunks the store already holds.
+   * The state is updated in place; an IntegrityError means the stored chunks were discarded.
+   */
+  static async download(
+    url: string,
+    trackId: string,
+    state: ChunkedDownloadState,
+    store: ChunkStore,
+    options: ChunkedDownloadOptions
+  ): Promise<Uint8Array> {
+    let chunks = await store.getChunks(trackId);
+    let offset = this.totalLength(chunks);
+
+    // Stored chunks without a validator cannot be trusted to belong to the current file
+    if (offset > 0 && !state.etag) {
+      await store.clearChunks(trackId);
+      chunks = [];
+      offset = 0;
+    }
+
+    while (state.totalBytes === undefined || offset < state.totalBytes) {
+      const headers: Record<string, string> = { 'Range': `bytes=${offset}-${offset + options.chunkSize - 1}` };
+      if (offset > 0 && state.etag) headers['If-Range'] = state.etag;
+
+      const response = await fetch(url, { headers, ...(options.signal ? { signal: options.signal } : {}) });
+
+      if (response.status === 416 && state.totalBytes !== undefined && offset >= state.totalBytes) break;
+      if (!response.ok) {
+        throw new Error(`Download failed: ${response.status}`);
+      }
+
+      this.readValidators(response.headers, state);
+      const data = new Uint8Array(await response.arrayBuffer());
+
+      if (response.status === 200) {
+        // No range support, or the file changed since the stored chunks were fetched
+        await store.clearChunks(trackId);
+        chunks = [data];
+        offset = data.length;
+        state.totalBytes = data.length;
+        await store.putChunk(trackId, 0, data);
+      } else {
+        state.totalBytes = this.parseTotal(response.headers.get('content-range')) ?? state.totalBytes ?? offset + data.length;
+        if (!data.length) break;
+        await store.putChunk(trackId, chunks.length, data);
+        chunks.push(data);
+        offset += data.length;
+      }
+
+      state.bytesDownloaded = offset;
+      await options.onChunk?.(state);
+    }
+
+    const file = this.concat(chunks);
+
+    if (state.totalBytes !== undefined && file.length !== state.totalBytes) {
+      await this.discard(trackId, state, store);
+      throw new IntegrityError(`Expected ${state.totalBytes} bytes, got ${file.length}`);
+    }
+    if (state.checksum && !(await this.verify(file, state.checksum))) {
+      await this.discard(trackId, state, store);
+      throw new IntegrityError('SHA-256 checksum mismatch');
+    }
+
+    return file;
+  }
+
+  /**
+   * Whether data hashes to the expected SHA-256 (hex)
+   */
+  static async verify(data: Uint8Array, checksum: string): Promise<boolean> {
+    return (await this.sha256(data)) === checksum.toLowerCase();
+  }
+
+  /**
+   * SHA-256 of data as lowercase hex
+   */
+  static async sha256(data: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Server-provided SHA-256: Repr-Digest / Digest headers, X-Checksum-Sha256, or an ETag that is a SHA-256
+   */
+  static parseChecksum(headers: Headers): string | null {
+    const digest = headers.get('repr-digest') ?? headers.get('digest');
+    const match = digest?.match(/sha-256=:?([A-Za-z0-9+/=]+):?/i);
+    if (match) {
+      const bytes = atob(match[1]!);
+      return Array.from(bytes, char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+    }
+
+    const explicit = headers.get('x-checksum-sha256');
+    if (explicit && SHA256_HEX.test(explicit)) return explicit.toLowerCase();
+
+    const etag = headers.get('etag')?.replace(/^W\//, '').replace(/"/g, '');
+    return etag && SHA256_HEX.test(etag) ? etag.toLowerCase() : null;
+  }
+
+  private static readValidators(headers: Headers, state: ChunkedDownloadState): void {
+    const etag = headers.get('etag');
+    // Weak validators are not allowed in If-Range
+    if (etag && !etag.startsWith('W/')) state.etag = etag;
+
+    const checksum = this.parseChecksum(headers);
+    if (checksum) state.checksum = checksum;
+  }
+
+  // Total size from "bytes 0-1023/4096"
+  private static parseTotal(contentRange: string | null): number | undefined {
+    const total = contentRange?.match(/\/(\d+)$/)?.[1];
+    return total ? parseInt(total, 10) : undefined;
+  }
+
+  private static async discard(trackId: string, state: ChunkedDownloadState, store: ChunkStore): Promise<void> {
+    await store.clearChunks(trackId);
+    delete state.bytesDownloaded;
+    delete state.totalBytes;
+    delete state.etag;
+    delete state.checksum;
+  }
+
+  private static totalLength(chunks: Uint8Array[]): number {
+    return chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  }
+
+  private static concat(chunks: Uint8Array[]): Uint8Array {
+    if (chunks.length === 1) return chunks[0]!;
+
+    const file = new Uint8Array(this.totalLength(chunks));
+    let offset = 0;
+    chunks.forEach(chunk => {
+      file.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return file;
+  }
+}
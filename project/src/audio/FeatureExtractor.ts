@@ -0,0 +1,282 @@
+/**
+ * Audio Feature Extractor for Meow-Play
+ * Features: onset-autocorrelation BPM, chroma-template key/mode, BS.1770 loudness, spectral energy, danceability
+ */
+
+import { fft, hannWindow, downmix, decimate } from './dsp';
+import { LoudnessAnalyzer } from './LoudnessAnalyzer';
+import type { AudioFeatures } from '../types/music';
+
+// The subset of AudioFeatures that can be measured from the signal
+export type ExtractedAudioFeatures = Pick<AudioFeatures,
+  'tempo' | 'key' | 'mode' | 'loudness' | 'energy' | 'danceability'>;
+
+export const KEY_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const ANALYSIS_RATE = 11025;
+const MAX_DURATION = 300; // seconds analyzed from the start of the track
+
+// Onset envelope: ~23ms hop
+const ONSET_FRAME = 1024;
+const ONSET_HOP = 256;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+// Chroma for key detection
+const CHROMA_FRAME = 4096;
+const CHROMA_HOP = 2048;
+const CHROMA_MIN_FREQUENCY = 55;
+const CHROMA_MAX_FREQUENCY = 2000;
+const C0_FREQUENCY = 16.351597831287414;
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Above this frequency the spectrum counts as "bright" for the energy estimate
+const BRIGHTNESS_SPLIT = 2000;
+
+export class FeatureExtractor {
+  /**
+   * Measure tempo, key, loudness, energy and danceability of decoded PCM
+   */
+  static extract(channels: Float32Array[], sampleRate: number): ExtractedAudioFeatures {
+    const maxLength = Math.floor(MAX_DURATION * sampleRate);
+    const limited = channels.map(samples => samples.subarray(0, maxLength));
+    const { integratedLoudness } = LoudnessAnalyzer.measure(limited, sampleRate);
+    const loudness = isFinite(integratedLoudness) ? Math.round(integratedLoudness * 10) / 10 : -60;
+
+    const samples = decimate(downmix(limited), sampleRate, ANALYSIS_RATE);
+    const { onsets, brightness } = FeatureExtractor.onsetEnvelope(samples);
+    const rhythm = FeatureExtractor.estimateTempo(onsets);
+    const { key, mode } = FeatureExtractor.estimateKey(samples);
+
+    // Loud, bright and busy tracks feel energetic
+    const loudnessScore = FeatureExtractor.clamp((loudness + 40) / 34);
+    const onsetRate = FeatureExtractor.onsetRate(onsets);
+    const energy = FeatureExtractor.clamp(0.5 * loudnessScore + 0.25 * FeatureExtractor.clamp(brightness * 4) + 0.25 * FeatureExtractor.clamp(onsetRate / 6));
+
+    // A clear, steady pulse near 120 BPM is easy to dance to
+    const tempoScore = rhythm.tempo > 0 ? Math.exp(-0.5 * Math.pow(Math.log2(rhythm.tempo / 120) / 0.5, 2)) : 0;
+    const danceability = FeatureExtractor.clamp(0.6 * FeatureExtractor.clamp(rhythm.pulseClarity * 2) + 0.3 * tempoScore + 0.1 * loudnessScore);
+
+    return {
+      tempo: Math.round(rhythm.tempo * 10) / 10,
+      key,
+      mode,
+      loudness,
+      energy: Math.round(energy * 1000) / 1000,
+      danceability: Math.round(danceability * 1000) / 1000
+    };
+  }
+
+  /**
+   * Analyze a decoded AudioBuffer
+   */
+  static extractBuffer(buffer: AudioBuffer): ExtractedAudioFeatures {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    return FeatureExtractor.extract(channels, buffer.sampleRate);
+  }
+
+  /**
+   * Human readable key, e.g. "A minor"
+   */
+  static formatKey(key: number, mode: number): string {
+    return `${KEY_NAMES[key] ?? '?'} ${mode === 1 ? 'major' : 'minor'}`;
+  }
+
+  /**
+   * Log-magnitude spectral flux per hop, plus the share of spectral energy above 2 kHz
+   */
+  private static onsetEnvelope(samples: Float32Array): { onsets: Float32Array; brightness: number } {
+    const window = hannWindow(ONSET_FRAME);
+    const bins = ONSET_FRAME / 2;
+    const splitBin = Math.round(BRIGHTNESS_SPLIT * ONSET_FRAME / ANALYSIS_RATE);
+    const frameCount = Math.max(0, Math.floor((samples.length - ONSET_FRAME) / ONSET_HOP) + 1);
+    const onsets = new Float32Array(frameCount);
+    const real = new Float64Array(ONSET_FRAME);
+    const imag = new Float64Array(ONSET_FRAME);
+    let previous = new Float64Array(bins);
+    let current = new Float64Array(bins);
+    let highEnergy = 0;
+    let totalEnergy = 0;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const start = frame * ONSET_HOP;
+      for (let i = 0; i < ONSET_FRAME; i++) {
+        real[i] = (samples[start + i] ?? 0) * (window[i] ?? 0);
+        imag[i] = 0;
+      }
+      fft(real, imag);
+
+      let flux = 0;
+      for (let bin = 1; bin < bins; bin++) {
+        const re = real[bin] ?? 0;
+        const im = imag[bin] ?? 0;
+        const power = re * re + im * im;
+        totalEnergy += power;
+        if (bin >= splitBin) highEnergy += power;
+
+        const magnitude = Math.log(1 + 100 * Math.sqrt(power));
+        current[bin] = magnitude;
+        if (frame > 0) flux += Math.max(0, magnitude - (previous[bin] ?? 0));
+      }
+      onsets[frame] = flux;
+      [previous, current] = [current, previous];
+    }
+
+    return { onsets, brightness: totalEnergy > 0 ? highEnergy / totalEnergy : 0 };
+  }
+
+  /**
+   * Autocorrelate the onset envelope for the beat period; the peak height relative to lag 0 is the pulse clarity
+   */
+  private static estimateTempo(onsets: Float32Array): { tempo: number; pulseClarity: number } {
+    const hop = ONSET_HOP / ANALYSIS_RATE;
+    const minLag = Math.floor(60 / MAX_BPM / hop);
+    const maxLag = Math.ceil(60 / MIN_BPM / hop);
+    const size = onsets.length;
+    const none = { tempo: 0, pulseClarity: 0 };
+    if (size < maxLag * 4) return none;
+
+    let mean = 0;
+    for (let i = 0; i < size; i++) mean += onsets[i] ?? 0;
+    mean /= size;
+    const centered = onsets.map(value => value - mean);
+
+    const autocorrelate = (lag: number) => {
+      let sum = 0;
+      for (let i = 0; i + lag < size; i++) sum += (centered[i] ?? 0) * (centered[i + lag] ?? 0);
+      return sum / (size - lag);
+    };
+
+    const zeroLag = autocorrelate(0);
+    if (zeroLag <= 0) return none;
+
+    const scores = new Float64Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) scores[lag] = autocorrelate(lag);
+
+    let bestLag = -1;
+    let bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      // Prefer tempos near 120 BPM so half/double time ambiguities resolve sensibly
+      const bpm = 60 / (lag * hop);
+      const weight = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120), 2));
+      const score = (scores[lag] ?? 0) * weight;
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+    if (bestLag < 0) return none;
+
+    // Parabolic interpolation between neighbouring lags
+    const left = scores[bestLag - 1] ?? 0;
+    const centre = scores[bestLag] ?? 0;
+    const right = scores[bestLag + 1] ?? 0;
+    const denominator = left - 2 * centre + right;
+    const period = bestLag + (denominator !== 0 ? 0.5 * (left - right) / denominator : 0);
+
+    return {
+      tempo: 60 / (period * hop),
+      pulseClarity: Math.max(0, centre / zeroLag)
+    };
+  }
+
+  /**
+   * Correlate the track's average chroma with all 24 rotated major/minor profiles
+   */
+  private static estimateKey(samples: Float32Array): { key: number; mode: number } {
+    const window = hannWindow(CHROMA_FRAME);
+    const pitchClassOfBin = new Int8Array(CHROMA_FRAME / 2).fill(-1);
+    for (let bin = 1; bin < pitchClassOfBin.length; bin++) {
+      const frequency = bin * ANALYSIS_RATE / CHROMA_FRAME;
+      if (frequency < CHROMA_MIN_FREQUENCY || frequency > CHROMA_MAX_FREQUENCY) continue;
+      const semitone = Math.round(12 * Math.log2(frequency / C0_FREQUENCY));
+      pitchClassOfBin[bin] = ((semitone % 12) + 12) % 12;
+    }
+
+    const chroma = new Float64Array(12);
+    const frame = new Float64Array(12);
+    const real = new Float64Array(CHROMA_FRAME);
+    const imag = new Float64Array(CHROMA_FRAME);
+
+    for (let start = 0; start + CHROMA_FRAME <= samples.length; start += CHROMA_HOP) {
+      for (let i = 0; i < CHROMA_FRAME; i++) {
+        real[i] = (samples[start + i] ?? 0) * (window[i] ?? 0);
+        imag[i] = 0;
+      }
+      fft(real, imag);
+
+      frame.fill(0);
+      for (let bin = 1; bin < pitchClassOfBin.length; bin++) {
+        const pitchClass = pitchClassOfBin[bin] ?? -1;
+        if (pitchClass < 0) continue;
+        const re = real[bin] ?? 0;
+        const im = imag[bin] ?? 0;
+        frame[pitchClass] = (frame[pitchClass] ?? 0) + Math.sqrt(re * re + im * im);
+      }
+
+      // Each frame votes equally regardless of its level
+      const total = frame.reduce((sum, value) => sum + value, 0);
+      if (total > 0) {
+        for (let pc = 0; pc < 12; pc++) chroma[pc] = (chroma[pc] ?? 0) + (frame[pc] ?? 0) / total;
+      }
+    }
+
+    let best = { key: 0, mode: 1, score: -Infinity };
+    for (let key = 0; key < 12; key++) {
+      const major = FeatureExtractor.correlate(chroma, MAJOR_PROFILE, key);
+      const minor = FeatureExtractor.correlate(chroma, MINOR_PROFILE, key);
+      if (major > best.score) best = { key, mode: 1, score: major };
+      if (minor > best.score) best = { key, mode: 0, score: minor };
+    }
+
+    return { key: best.key, mode: best.mode };
+  }
+
+  /**
+   * Pearson correlation of the chroma with a profile whose tonic is moved to the given key
+   */
+  private static correlate(chroma: Float64Array, profile: number[], key: number): number {
+    const rotated = Array.from({ length: 12 }, (_, pc) => profile[(pc - key + 12) % 12] ?? 0);
+    const meanA = chroma.reduce((sum, value) => sum + value, 0) / 12;
+    const meanB = rotated.reduce((sum, value) => sum + value, 0) / 12;
+
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let pc = 0; pc < 12; pc++) {
+      const a = (chroma[pc] ?? 0) - meanA;
+      const b = (rotated[pc] ?? 0) - meanB;
+      covariance += a * b;
+      varianceA += a * a;
+      varianceB += b * b;
+    }
+
+    return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+  }
+
+  /**
+   * Peaks in the onset envelope per second
+   */
+  private static onsetRate(onsets: Float32Array): number {
+    if (onsets.length < 3) return 0;
+
+    let mean = 0;
+    for (let i = 0; i < onsets.length; i++) mean += onsets[i] ?? 0;
+    mean /= onsets.length;
+
+    let peaks = 0;
+    for (let i = 1; i < onsets.length - 1; i++) {
+      const value = onsets[i] ?? 0;
+      if (value > 1.5 * mean && value > (onsets[i - 1] ?? 0) && value >= (onsets[i + 1] ?? 0)) peaks++;
+    }
+
+    return peaks / (onsets.length * ONSET_HOP / ANALYSIS_RATE);
+  }
+
+  private static clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Gapless Decoder for Meow-Play
+ * Features: Ahead-of-time decoding, LAME/iTunSMPB encoder delay and padding trimming
+ */
+
+import { AudioTrack } from './AudioEngine';
+
+export interface GaplessInfo {
+  delay: number; // samples to drop from the start (source sample rate)
+  padding: number; // samples to drop from the end (source sample rate)
+  totalSamples?: number; // original, untrimmed-by-encoder sample count
+  sampleRate?: number; // source sample rate, when known from the headers
+  source: 'lame' | 'itunsmpb';
+}
+
+// MP3 decoders add a fixed 528 + 1 sample delay on top of the encoder delay
+const MP3_DECODER_DELAY = 529;
+
+// Only the head of the file is searched for gapless tags
+const TAG_SEARCH_WINDOW = 256 * 1024;
+
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000] // MPEG 2.5
+};
+
+export class GaplessDecoder {
+  private cache: Map<string, AudioBuffer> = new Map();
+  private pending: Map<string, Promise<AudioBuffer>> = new Map();
+  private maxCachedBuffers: number;
+
+  constructor(private audioContext: BaseAudioContext, maxCachedBuffers: number = 3) {
+    this.maxCachedBuffers = maxCachedBuffers;
+  }
+
+  /**
+   * Fetch, decode and trim a track. Concurrent calls for the same track share one request.
+   */
+  async decode(track: AudioTrack, signal?: AbortSignal): Promise<AudioBuffer> {
+    const cached = this.cache.get(track.id);
+    if (cached) return cached;
+
+    const inFlight = this.pending.get(track.id);
+    if (inFlight) return inFlight;
+
+    const request = this.fetchAndDecode(track, signal)
+      .then(buffer => {
+        this.remember(track.id, buffer);
+        return buffer;
+      })
+      .finally(() => {
+        this.pending.delete(track.id);
+      });
+
+    this.pending.set(track.id, request);
+    return request;
+  }
+
+  /**
+   * Get an already decoded buffer without triggering a download
+   */
+  getCached(trackId: string): AudioBuffer | null {
+    return this.cache.get(trackId) || null;
+  }
+
+  /**
+   * Drop every cached buffer except the given track ids
+   */
+  retainOnly(trackIds: string[]): void {
+    const keep = new Set(trackIds);
+    Array.from(this.cache.keys()).forEach(id => {
+      if (!keep.has(id)) this.cache.delete(id);
+    });
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.pending.clear();
+  }
+
+  private async fetchAndDecode(track: AudioTrack, signal?: AbortSignal): Promise<AudioBuffer> {
+    const response = await fetch(track.url, signal ? { signal } : {});
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const bytes = await response.arrayBuffer();
+    const info = GaplessDecoder.parseGaplessInfo(bytes);
+
+    // decodeAudioData detaches the buffer it is given
+    const decoded = await this.audioContext.decodeAudioData(bytes.slice(0));
+
+    return info ? GaplessDecoder.trimBuffer(this.audioContext, decoded, info) : decoded;
+  }
+
+  private remember(trackId: string, buffer: AudioBuffer): void {
+    this.cache.delete(trackId);
+    this.cache.set(trackId, buffer);
+
+    while (this.cache.size > this.maxCachedBuffers) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
+  }
+
+  /**
+   * Read encoder delay/padding from a LAME header or an iTunSMPB tag
+   */
+  static parseGaplessInfo(data: ArrayBuffer): GaplessInfo | null {
+    const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, TAG_SEARCH_WINDOW));
+    return GaplessDecoder.parseITunSMPB(bytes) || GaplessDecoder.parseLameHeader(bytes);
+  }
+
+  /**
+   * Cut encoder delay and padding off a decoded buffer.
+   * Browsers that already honour the tags return a buffer of the trimmed length, which is left untouched.
+   */
+  static trimBuffer(context: BaseAudioContext, buffer: AudioBuffer, info: GaplessInfo): AudioBuffer {
+    const ratio = info.sampleRate ? buffer.sampleRate / info.sampleRate : 1;
+
+    if (info.totalSamples) {
+      const expectedLength = Math.round(info.totalSamples * ratio);
+      // Within one MP3 frame of the expected length means the decoder already trimmed
+      if (Math.abs(buffer.length - expectedLength) <= Math.ceil(1152 * ratio)) {
+        return buffer;
+      }
+    }
+
+    const start = Math.min(buffer.length, Math.round(info.delay * ratio));
+    const end = Math.max(start, buffer.length - Math.round(info.padding * ratio));
+    const length = end - start;
+
+    if (length === buffer.length || length <= 0) return buffer;
+
+    const trimmed = context.createBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      trimmed.copyToChannel(buffer.getChannelData(channel).subarray(start, end), channel);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * iTunSMPB: " 00000000 DDDDDDDD PPPPPPPP TTTTTTTTTTTTTTTT ..." (hex delay, padding, total samples)
+   */
+  private static parseITunSMPB(bytes: Uint8Array): GaplessInfo | null {
+    const marker = GaplessDecoder.indexOf(bytes, 'iTunSMPB');
+    if (marker < 0) return null;
+
+    const window = bytes.subarray(marker + 8, Math.min(bytes.length, marker + 8 + 256));
+    const text = new TextDecoder('latin1').decode(window).replace(/\0/g, ' ');
+    const match = text.match(/[0-9A-Fa-f]{8}\s+([0-9A-Fa-f]{8})\s+([0-9A-Fa-f]{8})\s+([0-9A-Fa-f]{16})/);
+    if (!match || !match[1] || !match[2] || !match[3]) return null;
+
+    const delay = parseInt(match[1], 16);
+    const padding = parseInt(match[2], 16);
+    const totalSamples = parseInt(match[3], 16);
+
+    return {
+      delay,
+      padding,
+      ...(totalSamples > 0 ? { totalSamples } : {}),
+      source: 'itunsmpb'
+    };
+  }
+
+  /**
+   * LAME tag inside the Xing/Info frame of an MP3 stream
+   */
+  private static parseLameHeader(bytes: Uint8Array): GaplessInfo | null {
+    let offset = 0;
+
+    // Skip ID3v2 tag
+    if (bytes.length > 10 && bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33) {
+      const size = ((bytes[6]! & 0x7f) << 21) | ((bytes[7]! & 0x7f) << 14) | ((bytes[8]! & 0x7f) << 7) | (bytes[9]! & 0x7f);
+      const hasFooter = (bytes[5]! & 0x10) !== 0;
+      offset = 10 + size + (hasFooter ? 10 : 0);
+    }
+
+    // Find first frame sync
+    while (offset + 4 < bytes.length && !(bytes[offset] === 0xff && (bytes[offset + 1]! & 0xe0) === 0xe0)) {
+      offset++;
+    }
+    if (offset + 4 >= bytes.length) return null;
+
+    const versionBits = (bytes[offset + 1]! >> 3) & 0x03;
+    const layerBits = (bytes[offset + 1]! >> 1) & 0x03;
+    const sampleRateIndex = (bytes[offset + 2]! >> 2) & 0x03;
+    const channelMode = (bytes[offset + 3]! >> 6) & 0x03;
+
+    // Layer III only, reserved version/sample rate rejected
+    if (layerBits !== 1 || versionBits === 1 || sampleRateIndex === 3) return null;
+
+    const sampleRate = MPEG_SAMPLE_RATES[versionBits]?.[sampleRateIndex];
+    const isMpeg1 = versionBits === 3;
+    const isMono = channelMode === 3;
+    const samplesPerFrame = isMpeg1 ? 1152 : 576;
+    const sideInfoSize = isMpeg1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+
+    let xing = offset + 4 + sideInfoSize;
+    const tag = String.fromCharCode(...bytes.subarray(xing, xing + 4));
+    if (tag !== 'Xing' && tag !== 'Info') return null;
+
+    const flags = GaplessDecoder.readUint32(bytes, xing + 4);
+    xing += 8;
+
+    let frameCount: number | undefined;
+    if (flags & 0x1) {
+      frameCount = GaplessDecoder.readUint32(bytes, xing);
+      xing += 4;
+    }
+    if (flags & 0x2) xing += 4; // byte count
+    if (flags & 0x4) xing += 100; // TOC
+    if (flags & 0x8) xing += 4; // quality
+
+    // LAME extension: 9 byte encoder string, delay/padding 12 bits each at +21
+    if (xing + 24 > bytes.length) return null;
+    const encoder = String.fromCharCode(...bytes.subarray(xing, xing + 4));
+    if (encoder !== 'LAME' && encoder !== 'Lavf' && encoder !== 'Lavc') return null;
+
+    const b0 = bytes[xing + 21]!;
+    const b1 = bytes[xing + 22]!;
+    const b2 = bytes[xing + 23]!;
+    const encoderDelay = (b0 << 4) | (b1 >> 4);
+    const encoderPadding = ((b1 & 0x0f) << 8) | b2;
+
+    if (encoderDelay === 0 && encoderPadding === 0) return null;
+
+    const info: GaplessInfo = {
+      delay: encoderDelay + MP3_DECODER_DELAY,
+      padding: Math.max(0, encoderPadding - MP3_DECODER_DELAY),
+      source: 'lame'
+    };
+
+    if (sampleRate) info.sampleRate = sampleRate;
+    if (frameCount) {
+      // The Info frame itself carries no audio
+      info.totalSamples = frameCount * samplesPerFrame - encoderDelay - encoderPadding;
+    }
+
+    return info;
+  }
+
+  private static readUint32(bytes: Uint8Array, offset: number): number {
+    return (((bytes[offset] ?? 0) << 24) | ((bytes[offset + 1] ?? 0) << 16) | ((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0)) >>> 0;
+  }
+
+  private static indexOf(bytes: Uint8Array, needle: string): number {
+    const first = needle.charCodeAt(0);
+    outer: for (let i = 0; i <= bytes.length - needle.length; i++) {
+      if (bytes[i] !== first) continue;
+      for (let j = 1; j < needle.length; j++) {
+        if (bytes[i + j] !== needle.charCodeAt(j)) continue outer;
+      }
+      return i;
+    }
+    return -1;
+  }
+}
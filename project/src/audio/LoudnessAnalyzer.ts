@@ -0,0 +1,207 @@
+/**
+ * Loudness Analyzer for Meow-Play
+ * Features: ITU-R BS.1770 / EBU R128 integrated loudness, sample peak, ReplayGain/R128 tag reading
+ */
+
+export interface LoudnessMeasurement {
+  integratedLoudness: number; // LUFS, -Infinity for digital silence
+  samplePeak: number; // linear, 1.0 = 0 dBFS
+}
+
+export interface LoudnessTags {
+  trackGain?: number; // dB relative to the ReplayGain 2.0 reference (-18 LUFS)
+  trackPeak?: number; // linear
+  albumGain?: number;
+  albumPeak?: number;
+}
+
+// ReplayGain 2.0 reference level; R128 tags are relative to -23 LUFS
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+const R128_REFERENCE_LUFS = -23;
+
+const BLOCK_DURATION = 0.4; // seconds
+const BLOCK_STEP = 0.1; // 75% overlap
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the absolute-gated loudness
+
+// Tags live near the start of the file for every container we handle
+const TAG_SEARCH_WINDOW = 256 * 1024;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export class LoudnessAnalyzer {
+  /**
+   * Measure integrated loudness of decoded PCM
+   */
+  static measure(channels: Float32Array[], sampleRate: number): LoudnessMeasurement {
+    const stepSize = Math.round(sampleRate * BLOCK_STEP);
+    const stepsPerBlock = Math.round(BLOCK_DURATION / BLOCK_STEP);
+    const length = channels[0]?.length ?? 0;
+    const stepCount = Math.floor(length / stepSize);
+
+    let samplePeak = 0;
+    // Weighted sum of squares per 100ms step, summed over channels
+    const stepEnergy = new Float64Array(stepCount);
+    const [preFilter, highPass] = LoudnessAnalyzer.createKWeighting(sampleRate);
+
+    channels.forEach((samples, channelIndex) => {
+      const weight = LoudnessAnalyzer.getChannelWeight(channelIndex, channels.length);
+
+      let x1 = 0, x2 = 0, y1 = 0, y2 = 0; // pre-filter state
+      let z1 = 0, z2 = 0, w1 = 0, w2 = 0; // high-pass state
+
+      for (let i = 0; i < stepCount * stepSize; i++) {
+        const x = samples[i] ?? 0;
+        const abs = Math.abs(x);
+        if (abs > samplePeak) samplePeak = abs;
+
+        const y = preFilter.b0 * x + preFilter.b1 * x1 + preFilter.b2 * x2 - preFilter.a1 * y1 - preFilter.a2 * y2;
+        x2 = x1; x1 = x; y2 = y1; y1 = y;
+
+        const w = highPass.b0 * y + highPass.b1 * z1 + highPass.b2 * z2 - highPass.a1 * w1 - highPass.a2 * w2;
+        z2 = z1; z1 = y; w2 = w1; w1 = w;
+
+        if (weight > 0) {
+          const step = Math.floor(i / stepSize);
+          stepEnergy[step] = (stepEnergy[step] ?? 0) + weight * w * w;
+        }
+      }
+
+      // Peak of any tail shorter than one step
+      for (let i = stepCount * stepSize; i < samples.length; i++) {
+        const abs = Math.abs(samples[i] ?? 0);
+        if (abs > samplePeak) samplePeak = abs;
+      }
+    });
+
+    // Mean square per 400ms block
+    const blockSize = stepSize * stepsPerBlock;
+    const blocks: number[] = [];
+    for (let start = 0; start + stepsPerBlock <= stepCount; start++) {
+      let energy = 0;
+      for (let s = start; s < start + stepsPerBlock; s++) {
+        energy += stepEnergy[s] ?? 0;
+      }
+      blocks.push(energy / blockSize);
+    }
+
+    const toLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+    const absoluteGated = blocks.filter(z => toLoudness(z) > ABSOLUTE_GATE);
+    if (absoluteGated.length === 0) {
+      return { integratedLoudness: -Infinity, samplePeak };
+    }
+
+    const relativeThreshold = toLoudness(LoudnessAnalyzer.mean(absoluteGated)) + RELATIVE_GATE;
+    const relativeGated = absoluteGated.filter(z => toLoudness(z) > relativeThreshold);
+
+    return {
+      integratedLoudness: toLoudness(LoudnessAnalyzer.mean(relativeGated)),
+      samplePeak
+    };
+  }
+
+  /**
+   * Measure a decoded AudioBuffer
+   */
+  static measureBuffer(buffer: AudioBuffer): LoudnessMeasurement {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    return LoudnessAnalyzer.measure(channels, buffer.sampleRate);
+  }
+
+  /**
+   * Read REPLAYGAIN_* and R128_* values from ID3 TXXX frames, Vorbis comments or MP4 freeform atoms
+   */
+  static parseTags(data: ArrayBuffer): LoudnessTags | null {
+    const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, TAG_SEARCH_WINDOW));
+    // Dropping NULs makes UTF-16 and NUL-separated frames readable as plain text
+    const text = new TextDecoder('latin1').decode(bytes).replace(/\0/g, '');
+    const tags: LoudnessTags = {};
+
+    const replayGain = /REPLAYGAIN_(TRACK|ALBUM)_(GAIN|PEAK)[^0-9+\-.]{0,12}([+-]?\d+(?:\.\d+)?)/gi;
+    for (const match of text.matchAll(replayGain)) {
+      const scope = match[1]?.toLowerCase();
+      const kind = match[2]?.toLowerCase();
+      const value = parseFloat(match[3] ?? '');
+      if (isNaN(value)) continue;
+
+      if (scope === 'track' && kind === 'gain') tags.trackGain ??= value;
+      if (scope === 'track' && kind === 'peak') tags.trackPeak ??= value;
+      if (scope === 'album' && kind === 'gain') tags.albumGain ??= value;
+      if (scope === 'album' && kind === 'peak') tags.albumPeak ??= value;
+    }
+
+    // R128 gains are Q7.8 fixed point relative to -23 LUFS
+    const r128 = /R128_(TRACK|ALBUM)_GAIN=([+-]?\d+)/gi;
+    const offset = REPLAYGAIN_REFERENCE_LUFS - R128_REFERENCE_LUFS;
+    for (const match of text.matchAll(r128)) {
+      const value = parseInt(match[2] ?? '', 10) / 256 + offset;
+      if (isNaN(value)) continue;
+
+      if (match[1]?.toLowerCase() === 'track') tags.trackGain ??= value;
+      else tags.albumGain ??= value;
+    }
+
+    return tags.trackGain !== undefined || tags.albumGain !== undefined ? tags : null;
+  }
+
+  /**
+   * K-weighting filter pair (high shelf pre-filter + RLB high-pass) for any sample rate
+   */
+  private static createKWeighting(sampleRate: number): [Biquad, Biquad] {
+    // Pre-filter
+    let f0 = 1681.974450955533;
+    const G = 3.999843853973347;
+    let Q = 0.7071752369554196;
+
+    let K = Math.tan(Math.PI * f0 / sampleRate);
+    const Vh = Math.pow(10, G / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+
+    const preFilter: Biquad = {
+      b0: (Vh + Vb * K / Q + K * K) / a0,
+      b1: 2 * (K * K - Vh) / a0,
+      b2: (Vh - Vb * K / Q + K * K) / a0,
+      a1: 2 * (K * K - 1) / a0,
+      a2: (1 - K / Q + K * K) / a0
+    };
+
+    // RLB high-pass
+    f0 = 38.13547087602444;
+    Q = 0.5003270373238773;
+    K = Math.tan(Math.PI * f0 / sampleRate);
+    a0 = 1 + K / Q + K * K;
+
+    const highPass: Biquad = {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: 2 * (K * K - 1) / a0,
+      a2: (1 - K / Q + K * K) / a0
+    };
+
+    return [preFilter, highPass];
+  }
+
+  /**
+   * BS.1770 channel weights: surrounds +1.5 dB, LFE excluded
+   */
+  private static getChannelWeight(channelIndex: number, channelCount: number): number {
+    if (channelCount >= 6) {
+      if (channelIndex === 3) return 0;
+      if (channelIndex >= 4) return 1.41;
+    }
+    return 1;
+  }
+
+  private static mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Loudness Normalizer for Meow-Play
+ * Features: ReplayGain track/album modes, R128 tags, LUFS analysis fallback, per-song cache, peak protection
+ */
+
+import { AudioTrack } from './AudioEngine';
+import { LoudnessAnalyzer, REPLAYGAIN_REFERENCE_LUFS } from './LoudnessAnalyzer';
+import { db } from '../utils/indexedDB';
+import { ReplayGainMode, PlaybackSettings } from '../types/music';
+
+export interface LoudnessSettings {
+  replayGainEnabled: boolean; // use ReplayGain/R128 tags when present
+  normalizationEnabled: boolean; // analyse untagged tracks
+  mode: ReplayGainMode;
+  preampDb: number;
+  targetLufs: number;
+  preventClipping: boolean;
+}
+
+export interface LoudnessInfo {
+  songId: string;
+  source: 'tags' | 'analysis';
+  trackGain?: number; // dB relative to -18 LUFS
+  trackPeak?: number; // linear
+  albumGain?: number;
+  albumPeak?: number;
+  integratedLoudness?: number; // LUFS, analysis only
+  analyzedAt: number;
+}
+
+export const DEFAULT_LOUDNESS_SETTINGS: LoudnessSettings = {
+  replayGainEnabled: false,
+  normalizationEnabled: false,
+  mode: 'track',
+  preampDb: 0,
+  targetLufs: REPLAYGAIN_REFERENCE_LUFS,
+  preventClipping: true
+};
+
+// Never boost quiet tracks by more than this, whatever the tags say
+const MAX_GAIN_DB = 15;
+const HEAD_BYTES = 256 * 1024;
+
+export class LoudnessNormalizer {
+  private pending: Map<string, Promise<LoudnessInfo | null>> = new Map();
+
+  constructor(private audioContext: BaseAudioContext) {}
+
+  /**
+   * Resolve loudness information: cache, then tags, then (optionally) PCM analysis
+   */
+  async resolve(track: AudioTrack, options: { analyze: boolean; decoded?: AudioBuffer }): Promise<LoudnessInfo | null> {
+    const inFlight = this.pending.get(track.id);
+    if (inFlight) return inFlight;
+
+    const request = this.resolveUncached(track, options).finally(() => {
+      this.pending.delete(track.id);
+    });
+
+    this.pending.set(track.id, request);
+    return request;
+  }
+
+  /**
+   * Gain in dB to apply for the given settings
+   */
+  static computeGain(info: LoudnessInfo | null, settings: LoudnessSettings): number {
+    if (!info) return 0;
+    if (info.source === 'tags' && !settings.replayGainEnabled) return 0;
+    if (info.source === 'analysis' && !settings.normalizationEnabled) return 0;
+
+    const useAlbum = settings.mode === 'album' && info.albumGain !== undefined;
+    const referenceGain = useAlbum ? info.albumGain : info.trackGain;
+    if (referenceGain === undefined) return 0;
+
+    // Tags and analysis both express gain against the ReplayGain reference level
+    let gainDb = referenceGain + (settings.targetLufs - REPLAYGAIN_REFERENCE_LUFS) + settings.preampDb;
+
+    const peak = useAlbum ? (info.albumPeak ?? info.trackPeak) : info.trackPeak;
+    if (settings.preventClipping && peak && peak > 0) {
+      gainDb = Math.min(gainDb, -20 * Math.log10(peak));
+    }
+
+    return Math.max(-MAX_GAIN_DB * 2, Math.min(MAX_GAIN_DB, gainDb));
+  }
+
+  /**
+   * Loudness settings chosen in the playback settings
+   */
+  static fromPlaybackSettings(
+    settings: Pick<PlaybackSettings, 'replayGainEnabled' | 'replayGainMode' | 'replayGainPreamp' | 'normalizationEnabled'>
+  ): Partial<LoudnessSettings> {
+    return {
+      replayGainEnabled: settings.replayGainEnabled,
+      normalizationEnabled: settings.normalizationEnabled,
+      mode: settings.replayGainMode,
+      preampDb: settings.replayGainPreamp
+    };
+  }
+
+  /**
+   * Convert decibels to a linear gain factor
+   */
+  static toLinear(gainDb: number): number {
+    return Math.pow(10, gainDb / 20);
+  }
+
+  private async resolveUncached(track: AudioTrack, options: { analyze: boolean; decoded?: AudioBuffer }): Promise<LoudnessInfo | null> {
+    const cached = await this.readCache(track.id);
+    if (cached && (cached.source === 'tags' || options.analyze)) {
+      return cached;
+    }
+
+    let bytes: ArrayBuffer | null = null;
+    let complete = false;
+
+    try {
+      const head = await this.fetchHead(track.url);
+      bytes = head.bytes;
+      complete = head.complete;
+
+      const tags = LoudnessAnalyzer.parseTags(bytes);
+      if (tags) {
+        const info: LoudnessInfo = { songId: track.id, source: 'tags', ...tags, analyzedAt: Date.now() };
+        await this.writeCache(info);
+        return info;
+      }
+    } catch (error) {
+      console.warn('Failed to read loudness tags:', error);
+    }
+
+    if (!options.analyze) return null;
+
+    let decoded = options.decoded;
+    if (!decoded) {
+      if (!bytes || !complete) {
+        const response = await fetch(track.url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        bytes = await response.arrayBuffer();
+      }
+      decoded = await this.audioContext.decodeAudioData(bytes.slice(0));
+    }
+
+    const measurement = LoudnessAnalyzer.measureBuffer(decoded);
+    if (!isFinite(measurement.integratedLoudness)) return null;
+
+    const info: LoudnessInfo = {
+      songId: track.id,
+      source: 'analysis',
+      trackGain: REPLAYGAIN_REFERENCE_LUFS - measurement.integratedLoudness,
+      trackPeak: measurement.samplePeak,
+      integratedLoudness: measurement.integratedLoudness,
+      analyzedAt: Date.now()
+    };
+
+    await this.writeCache(info);
+    return info;
+  }
+
+  /**
+   * Fetch the start of the file; servers that ignore Range return the whole body
+   */
+  private async fetchHead(url: string): Promise<{ bytes: ArrayBuffer; complete: boolean }> {
+    const response = await fetch(url, {
+      headers: { 'Range': `bytes=0-${HEAD_BYTES - 1}` }
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return {
+      bytes: await response.arrayBuffer(),
+      complete: response.status !== 206
+    };
+  }
+
+  private async readCache(songId: string): Promise<LoudnessInfo | null> {
+    try {
+      return (await db.loudness.get(songId)) || null;
+    } catch (error) {
+      console.warn('Loudness cache unavailable:', error);
+      return null;
+    }
+  }
+
+  private async writeCache(info: LoudnessInfo): Promise<void> {
+    try {
+      await db.loudness.put(info);
+    } catch (error) {
+      console.warn('Failed to cache loudness info:', error);
+    }
+  }
+}
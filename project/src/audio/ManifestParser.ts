@@ -0,0 +1,576 @@
+/**
+ * Stream Manifest Parser for Meow-Play
+ * Features: HLS master/media playlists, DASH MPD (SegmentTemplate, SegmentTimeline, SegmentList, SegmentBase/sidx)
+ */
+
+export type StreamProtocol = 'hls' | 'dash';
+export type SegmentContainer = 'fmp4' | 'ts' | 'adts' | 'mp3';
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive, as in an HTTP Range header
+}
+
+export interface SegmentReference {
+  url: string;
+  byteRange?: ByteRange;
+}
+
+export interface MediaSegment extends SegmentReference {
+  start: number; // seconds
+  duration: number; // seconds
+}
+
+export interface Rendition {
+  id: string;
+  bandwidth: number; // bits per second
+  codecs: string;
+  container: SegmentContainer;
+  sampleRate?: number;
+  channels?: number;
+  initSegment?: SegmentReference;
+  index?: SegmentReference; // DASH SegmentBase sidx box, replaced by segments once loaded
+  segments: MediaSegment[];
+}
+
+export interface StreamManifest {
+  protocol: StreamProtocol;
+  url: string;
+  duration: number; // seconds
+  renditions: Rendition[]; // lowest bandwidth first
+}
+
+export interface HlsVariant {
+  url: string;
+  bandwidth: number;
+  codecs?: string;
+}
+
+export type HlsPlaylist =
+  | { type: 'master'; variants: HlsVariant[] }
+  | {
+      type: 'media';
+      container: SegmentContainer;
+      initSegment?: SegmentReference;
+      segments: MediaSegment[];
+      duration: number;
+    };
+
+export type TextFetcher = (url: string) => Promise<string>;
+export type BytesFetcher = (url: string, byteRange?: ByteRange) => Promise<ArrayBuffer>;
+
+const AUDIO_CODEC_PATTERN = /^(mp4a|mp3|opus|flac|ac-3|ec-3|alac)/i;
+const DEFAULT_AUDIO_CODEC = 'mp4a.40.2';
+
+const CONTAINER_BY_EXTENSION: Record<string, SegmentContainer> = {
+  ts: 'ts',
+  aac: 'adts',
+  adts: 'adts',
+  mp3: 'mp3',
+  mp4: 'fmp4',
+  m4s: 'fmp4',
+  m4a: 'fmp4',
+  cmfa: 'fmp4'
+};
+
+const CONTAINER_BY_MIME: Record<string, SegmentContainer> = {
+  'audio/mp4': 'fmp4',
+  'video/mp4': 'fmp4',
+  'video/mp2t': 'ts',
+  'audio/aac': 'adts',
+  'audio/mpeg': 'mp3'
+};
+
+export class ManifestParser {
+  /**
+   * Whether a URL points at an HLS playlist or DASH manifest
+   */
+  static isSegmentedUrl(url: string): boolean {
+    const path = url.split(/[?#]/)[0]?.toLowerCase() ?? '';
+    return path.endsWith('.m3u8') || path.endsWith('.mpd');
+  }
+
+  /**
+   * Fetch and parse a manifest, including HLS media playlists and DASH segment indexes
+   */
+  static async load(url: string, fetchText: TextFetcher, fetchBytes: BytesFetcher): Promise<StreamManifest> {
+    const text = await fetchText(url);
+
+    if (text.trimStart().startsWith('<')) {
+      const manifest = this.parseDash(text, url);
+      await Promise.all(manifest.renditions.map(rendition => this.loadSegmentIndex(rendition, fetchBytes)));
+      return manifest;
+    }
+
+    const playlist = this.parseHlsPlaylist(text, url);
+    const variants = playlist.type === 'master'
+      ? await Promise.all(playlist.variants.map(async variant => ({
+          variant,
+          playlist: this.parseHlsPlaylist(await fetchText(variant.url), variant.url)
+        })))
+      : [{ variant: { url, bandwidth: 0 } as HlsVariant, playlist }];
+
+    const renditions = variants.map(({ variant, playlist: media }, i): Rendition => {
+      if (media.type !== 'media') {
+        throw new Error(`Expected a media playlist at ${variant.url}`);
+      }
+      return {
+        id: String(i),
+        bandwidth: variant.bandwidth || this.estimateBandwidth(media.segments),
+        codecs: this.pickAudioCodec(variant.codecs) ?? (media.container === 'mp3' ? 'mp3' : DEFAULT_AUDIO_CODEC),
+        container: media.container,
+        ...(media.initSegment ? { initSegment: media.initSegment } : {}),
+        segments: media.segments
+      };
+    });
+
+    return {
+      protocol: 'hls',
+      url,
+      duration: Math.max(0, ...variants.map(({ playlist: media }) => (media.type === 'media' ? media.duration : 0))),
+      renditions: renditions.sort((a, b) => a.bandwidth - b.bandwidth)
+    };
+  }
+
+  /**
+   * Parse an HLS master or media playlist
+   */
+  static parseHlsPlaylist(text: string, baseUrl: string): HlsPlaylist {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    if (lines[0] !== '#EXTM3U') {
+      throw new Error('Not an HLS playlist');
+    }
+
+    if (lines.some(line => line.startsWith('#EXT-X-STREAM-INF') || line.startsWith('#EXT-X-MEDIA:'))) {
+      return { type: 'master', variants: this.parseHlsVariants(lines, baseUrl) };
+    }
+
+    const segments: MediaSegment[] = [];
+    let initSegment: SegmentReference | undefined;
+    let segmentDuration = 0;
+    let byteRange: ByteRange | undefined;
+    let lastRangeEnd = -1;
+    let time = 0;
+
+    lines.forEach(line => {
+      if (line.startsWith('#EXTINF:')) {
+        segmentDuration = parseFloat(line.slice(8));
+      } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+        byteRange = this.parseHlsByteRange(line.slice(17), lastRangeEnd + 1);
+        lastRangeEnd = byteRange.end;
+      } else if (line.startsWith('#EXT-X-MAP:')) {
+        const attributes = this.parseAttributes(line.slice(11));
+        const range = attributes['BYTERANGE'];
+        initSegment = {
+          url: this.resolveUrl(attributes['URI'] ?? '', baseUrl),
+          ...(range ? { byteRange: this.parseHlsByteRange(range, 0) } : {})
+        };
+      } else if (line.startsWith('#EXT-X-KEY:')) {
+        const method = this.parseAttributes(line.slice(11))['METHOD'];
+        if (method && method !== 'NONE') {
+          throw new Error(`Encrypted HLS segments (${method}) are not supported`);
+        }
+      } else if (!line.startsWith('#')) {
+        segments.push({
+          url: this.resolveUrl(line, baseUrl),
+          start: time,
+          duration: segmentDuration,
+          ...(byteRange ? { byteRange } : {})
+        });
+        time += segmentDuration;
+        byteRange = undefined;
+      }
+    });
+
+    const container = initSegment ? 'fmp4' : this.containerFromUrl(segments[0]?.url ?? '') ?? 'ts';
+
+    return {
+      type: 'media',
+      container,
+      ...(initSegment ? { initSegment } : {}),
+      segments,
+      duration: time
+    };
+  }
+
+  /**
+   * Parse the audio representations of the first period of a DASH MPD.
+   * SegmentBase representations keep their sidx location in `index` until load() resolves it.
+   */
+  static parseDash(text: string, url: string): StreamManifest {
+    const document = new DOMParser().parseFromString(text, 'application/xml');
+    const mpd = document.documentElement;
+    if (!mpd || mpd.localName !== 'MPD') {
+      throw new Error('Not a DASH manifest');
+    }
+    if (mpd.getAttribute('type') === 'dynamic') {
+      throw new Error('Live DASH streams are not supported');
+    }
+
+    const period = this.child(mpd, 'Period');
+    if (!period) {
+      throw new Error('DASH manifest has no Period');
+    }
+
+    const duration = this.parseIsoDuration(mpd.getAttribute('mediaPresentationDuration'))
+      || this.parseIsoDuration(period.getAttribute('duration'));
+    const periodBase = this.resolveBase(this.resolveBase(url, mpd), period);
+    const renditions: Rendition[] = [];
+
+    this.children(period, 'AdaptationSet').forEach(set => {
+      const setBase = this.resolveBase(periodBase, set);
+
+      this.children(set, 'Representation').forEach(representation => {
+        const attribute = (name: string) => representation.getAttribute(name) ?? set.getAttribute(name);
+        const mimeType = attribute('mimeType') ?? '';
+        const codecs = this.pickAudioCodec(attribute('codecs') ?? undefined);
+        const isAudio = mimeType.startsWith('audio/') || set.getAttribute('contentType') === 'audio'
+          || (!!codecs && !mimeType.startsWith('video/'));
+        if (!isAudio) return;
+
+        const id = representation.getAttribute('id') ?? String(renditions.length);
+        const bandwidth = parseInt(representation.getAttribute('bandwidth') ?? '0', 10);
+        const baseUrl = this.resolveBase(setBase, representation);
+        const sampleRate = parseInt(attribute('audioSamplingRate') ?? '', 10);
+        const channelConfig = this.child(representation, 'AudioChannelConfiguration') ?? this.child(set, 'AudioChannelConfiguration');
+        const channels = parseInt(channelConfig?.getAttribute('value') ?? '', 10);
+
+        const rendition: Rendition = {
+          id,
+          bandwidth,
+          codecs: codecs ?? DEFAULT_AUDIO_CODEC,
+          container: CONTAINER_BY_MIME[mimeType] ?? this.containerFromUrl(baseUrl) ?? 'fmp4',
+          ...(sampleRate > 0 ? { sampleRate } : {}),
+          ...(channels > 0 ? { channels } : {}),
+          segments: []
+        };
+
+        const template = this.mergeElements(this.child(set, 'SegmentTemplate'), this.child(representation, 'SegmentTemplate'));
+        const list = this.child(representation, 'SegmentList') ?? this.child(set, 'SegmentList');
+        const base = this.child(representation, 'SegmentBase') ?? this.child(set, 'SegmentBase');
+
+        if (template) {
+          this.applySegmentTemplate(rendition, template, baseUrl, duration);
+        } else if (list) {
+          this.applySegmentList(rendition, list, baseUrl, duration);
+        } else if (base) {
+          const initialization = this.child(base, 'Initialization');
+          const initRange = this.parseRange(initialization?.getAttribute('range'));
+          const indexRange = this.parseRange(base.getAttribute('indexRange'));
+          if (initRange) rendition.initSegment = { url: baseUrl, byteRange: initRange };
+          if (indexRange) rendition.index = { url: baseUrl, byteRange: indexRange };
+        }
+
+        // A bare BaseURL is one segment covering the whole period
+        if (!rendition.segments.length && !rendition.index) {
+          rendition.segments = [{ url: baseUrl, start: 0, duration }];
+        }
+
+        renditions.push(rendition);
+      });
+    });
+
+    if (!renditions.length) {
+      throw new Error('DASH manifest has no audio representations');
+    }
+
+    return {
+      protocol: 'dash',
+      url,
+      duration,
+      renditions: renditions.sort((a, b) => a.bandwidth - b.bandwidth)
+    };
+  }
+
+  /**
+   * Read subsegment references from an ISO BMFF sidx box.
+   * `anchor` is the file offset of the first byte after the box.
+   */
+  static parseSidx(bytes: ArrayBuffer, url: string, anchor?: number): MediaSegment[] {
+    const view = new DataView(bytes);
+    let offset = 0;
+
+    while (offset + 8 <= view.byteLength) {
+      const size = view.getUint32(offset);
+      const type = String.fromCharCode(...new Uint8Array(bytes, offset + 4, 4));
+      if (size < 8) break;
+
+      if (type === 'sidx') {
+        const version = view.getUint8(offset + 8);
+        const timescale = view.getUint32(offset + 16);
+        let cursor = offset + 20;
+        let presentationTime: number;
+        let firstOffset: number;
+
+        if (version === 0) {
+          presentationTime = view.getUint32(cursor);
+          firstOffset = view.getUint32(cursor + 4);
+          cursor += 8;
+        } else {
+          presentationTime = Number(view.getBigUint64(cursor));
+          firstOffset = Number(view.getBigUint64(cursor + 8));
+          cursor += 16;
+        }
+
+        const referenceCount = view.getUint16(cursor + 2);
+        cursor += 4;
+
+        let byte = (anchor ?? offset + size) + firstOffset;
+        let time = presentationTime / timescale;
+        const segments: MediaSegment[] = [];
+
+        for (let i = 0; i < referenceCount; i++) {
+          const referencedSize = view.getUint32(cursor) & 0x7fffffff;
+          const duration = view.getUint32(cursor + 4) / timescale;
+          segments.push({ url, start: time, duration, byteRange: { start: byte, end: byte + referencedSize - 1 } });
+          byte += referencedSize;
+          time += duration;
+          cursor += 12;
+        }
+
+        return segments;
+      }
+
+      offset += size;
+    }
+
+    throw new Error('No sidx box in segment index');
+  }
+
+  /**
+   * Convert an ISO 8601 duration (PT3M12.5S) to seconds
+   */
+  static parseIsoDuration(value: string | null): number {
+    const match = value?.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+    if (!match) return 0;
+
+    const [, days, hours, minutes, seconds] = match;
+    return parseFloat(days ?? '0') * 86400 + parseFloat(hours ?? '0') * 3600
+      + parseFloat(minutes ?? '0') * 60 + parseFloat(seconds ?? '0');
+  }
+
+  private static parseHlsVariants(lines: string[], baseUrl: string): HlsVariant[] {
+    const variants: HlsVariant[] = [];
+
+    lines.forEach((line, i) => {
+      if (line.startsWith('#EXT-X-STREAM-INF:')) {
+        const attributes = this.parseAttributes(line.slice(18));
+        const uri = lines.slice(i + 1).find(next => !next.startsWith('#'));
+        if (!uri) return;
+        const codecs = attributes['CODECS'];
+        variants.push({
+          url: this.resolveUrl(uri, baseUrl),
+          bandwidth: parseInt(attributes['AVERAGE-BANDWIDTH'] ?? attributes['BANDWIDTH'] ?? '0', 10),
+          ...(codecs ? { codecs } : {})
+        });
+      }
+    });
+
+    // Audio-only masters may list renditions as EXT-X-MEDIA entries alone
+    if (!variants.length) {
+      lines.forEach(line => {
+        if (!line.startsWith('#EXT-X-MEDIA:')) return;
+        const attributes = this.parseAttributes(line.slice(13));
+        const uri = attributes['URI'];
+        if (attributes['TYPE'] === 'AUDIO' && uri) {
+          variants.push({ url: this.resolveUrl(uri, baseUrl), bandwidth: 0 });
+        }
+      });
+    }
+
+    if (!variants.length) {
+      throw new Error('HLS master playlist has no variants');
+    }
+    return variants;
+  }
+
+  private static parseAttributes(list: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(list)) !== null) {
+      const [, key, value] = match;
+      if (key && value !== undefined) attributes[key] = value.replace(/^"|"$/g, '');
+    }
+    return attributes;
+  }
+
+  // "length[@offset]"; without an offset the range follows the previous one
+  private static parseHlsByteRange(value: string, defaultStart: number): ByteRange {
+    const [length, offset] = value.split('@');
+    const start = offset !== undefined ? parseInt(offset, 10) : defaultStart;
+    return { start, end: start + parseInt(length ?? '0', 10) - 1 };
+  }
+
+  private static applySegmentTemplate(rendition: Rendition, template: Element, baseUrl: string, duration: number): void {
+    const timescale = parseInt(template.getAttribute('timescale') ?? '1', 10) || 1;
+    const startNumber = parseInt(template.getAttribute('startNumber') ?? '1', 10);
+    const presentationOffset = parseInt(template.getAttribute('presentationTimeOffset') ?? '0', 10);
+    const media = template.getAttribute('media') ?? '';
+    const initialization = template.getAttribute('initialization');
+
+    const expand = (pattern: string, number?: number, time?: number) =>
+      this.resolveUrl(this.expandTemplate(pattern, rendition, number, time), baseUrl);
+
+    if (initialization) {
+      rendition.initSegment = { url: expand(initialization) };
+    }
+
+    const timeline = this.child(template, 'SegmentTimeline');
+    if (timeline) {
+      this.expandTimeline(timeline, timescale, duration).forEach(({ time, length }, i) => {
+        rendition.segments.push({
+          url: expand(media, startNumber + i, time),
+          start: (time - presentationOffset) / timescale,
+          duration: length / timescale
+        });
+      });
+      return;
+    }
+
+    const segmentDuration = parseInt(template.getAttribute('duration') ?? '0', 10) / timescale;
+    if (segmentDuration <= 0) return;
+
+    const count = Math.ceil(duration / segmentDuration - 1e-6);
+    for (let i = 0; i < count; i++) {
+      const start = i * segmentDuration;
+      rendition.segments.push({
+        url: expand(media, startNumber + i, Math.round(start * timescale) + presentationOffset),
+        start,
+        duration: Math.min(segmentDuration, duration - start)
+      });
+    }
+  }
+
+  private static applySegmentList(rendition: Rendition, list: Element, baseUrl: string, duration: number): void {
+    const timescale = parseInt(list.getAttribute('timescale') ?? '1', 10) || 1;
+    const segmentDuration = parseInt(list.getAttribute('duration') ?? '0', 10) / timescale;
+    const initialization = this.child(list, 'Initialization');
+
+    if (initialization) {
+      const range = this.parseRange(initialization.getAttribute('range'));
+      rendition.initSegment = {
+        url: this.resolveUrl(initialization.getAttribute('sourceURL') ?? '', baseUrl),
+        ...(range ? { byteRange: range } : {})
+      };
+    }
+
+    const timeline = this.child(list, 'SegmentTimeline');
+    const times = timeline ? this.expandTimeline(timeline, timescale, duration) : null;
+    let start = 0;
+
+    this.children(list, 'SegmentURL').forEach((segmentUrl, i) => {
+      const range = this.parseRange(segmentUrl.getAttribute('mediaRange'));
+      const entry = times?.[i];
+      const length = entry ? entry.length / timescale : Math.min(segmentDuration, duration - start);
+      rendition.segments.push({
+        url: this.resolveUrl(segmentUrl.getAttribute('media') ?? '', baseUrl),
+        start: entry ? entry.time / timescale : start,
+        duration: length,
+        ...(range ? { byteRange: range } : {})
+      });
+      start += length;
+    });
+  }
+
+  private static expandTimeline(timeline: Element, timescale: number, duration: number): Array<{ time: number; length: number }> {
+    const entries: Array<{ time: number; length: number }> = [];
+    let time = 0;
+
+    this.children(timeline, 'S').forEach(s => {
+      const t = s.getAttribute('t');
+      if (t !== null) time = parseInt(t, 10);
+      const length = parseInt(s.getAttribute('d') ?? '0', 10);
+      const repeat = parseInt(s.getAttribute('r') ?? '0', 10);
+      if (length <= 0) return;
+
+      // r="-1" repeats until the end of the period
+      const count = repeat < 0 ? Math.ceil((duration * timescale - time) / length) : repeat + 1;
+      for (let i = 0; i < count; i++) {
+        entries.push({ time, length });
+        time += length;
+      }
+    });
+
+    return entries;
+  }
+
+  private static expandTemplate(pattern: string, rendition: Rendition, number?: number, time?: number): string {
+    return pattern.replace(/\$(RepresentationID|Number|Time|Bandwidth|)(?:%0(\d+)d)?\$/g, (_, name: string, width?: string) => {
+      const values: Record<string, string | number | undefined> = {
+        RepresentationID: rendition.id,
+        Number: number,
+        Time: time,
+        Bandwidth: rendition.bandwidth,
+        '': '$'
+      };
+      const value = String(values[name] ?? '');
+      return width ? value.padStart(parseInt(width, 10), '0') : value;
+    });
+  }
+
+  private static async loadSegmentIndex(rendition: Rendition, fetchBytes: BytesFetcher): Promise<void> {
+    if (!rendition.index) return;
+
+    const { url, byteRange } = rendition.index;
+    const bytes = await fetchBytes(url, byteRange);
+    rendition.segments = this.parseSidx(bytes, url, byteRange ? byteRange.end + 1 : undefined);
+    delete rendition.index;
+  }
+
+  private static estimateBandwidth(segments: MediaSegment[]): number {
+    const bytes = segments.reduce((sum, s) => sum + (s.byteRange ? s.byteRange.end - s.byteRange.start + 1 : 0), 0);
+    const duration = segments.reduce((sum, s) => sum + s.duration, 0);
+    return bytes > 0 && duration > 0 ? Math.round((bytes * 8) / duration) : 0;
+  }
+
+  private static pickAudioCodec(codecs: string | undefined): string | undefined {
+    return codecs?.split(',').map(codec => codec.trim()).find(codec => AUDIO_CODEC_PATTERN.test(codec));
+  }
+
+  private static containerFromUrl(url: string): SegmentContainer | undefined {
+    const extension = url.split(/[?#]/)[0]?.split('.').pop()?.toLowerCase() ?? '';
+    return CONTAINER_BY_EXTENSION[extension];
+  }
+
+  private static parseRange(value: string | null | undefined): ByteRange | undefined {
+    const match = value?.match(/^(\d+)-(\d+)$/);
+    return match ? { start: parseInt(match[1] ?? '0', 10), end: parseInt(match[2] ?? '0', 10) } : undefined;
+  }
+
+  private static resolveBase(base: string, element: Element): string {
+    const baseUrl = this.child(element, 'BaseURL')?.textContent?.trim();
+    return baseUrl ? this.resolveUrl(baseUrl, base) : base;
+  }
+
+  private static resolveUrl(url: string, base: string): string {
+    try {
+      return new URL(url, new URL(base, globalThis.location?.href)).toString();
+    } catch {
+      return url;
+    }
+  }
+
+  // Representation-level template attributes override the adaptation set's
+  private static mergeElements(outer: Element | undefined, inner: Element | undefined): Element | undefined {
+    if (!outer || !inner) return inner ?? outer;
+
+    const merged = inner.cloneNode(true) as Element;
+    Array.from(outer.attributes).forEach(attribute => {
+      if (!merged.hasAttribute(attribute.name)) merged.setAttribute(attribute.name, attribute.value);
+    });
+    if (!this.child(merged, 'SegmentTimeline')) {
+      const timeline = this.child(outer, 'SegmentTimeline');
+      if (timeline) merged.appendChild(timeline.cloneNode(true));
+    }
+    return merged;
+  }
+
+  private static child(element: Element, name: string): Element | undefined {
+    return this.children(element, name)[0];
+  }
+
+  private static children(element: Element, name: string): Element[] {
+    return Array.from(element.children).filter(child => child.localName === name);
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * Media Source Stream for Meow-Play
+ * Features: HLS/DASH segments appended to a SourceBuffer, buffer-ahead pumping, seeking, eviction,
+ * rendition switches at segment boundaries
+ */
+
+import { StreamManifest, Rendition, MediaSegment, SegmentReference } from './ManifestParser';
+import { TransportStreamDemuxer } from './TransportStreamDemuxer';
+
+export interface MediaSourceStreamOptions {
+  bufferAhead: number; // seconds fetched ahead of the playhead
+  bufferBehind: number; // seconds kept behind it before eviction
+}
+
+export type SegmentFetcher = (segment: SegmentReference, signal: AbortSignal) => Promise<ArrayBuffer>;
+
+const DEFAULT_OPTIONS: MediaSourceStreamOptions = {
+  bufferAhead: 30,
+  bufferBehind: 30
+};
+
+// Segment ends closer than this to the playhead count as already played
+const TIME_EPSILON = 0.01;
+
+export class MediaSourceStream extends EventTarget {
+  private manifest: StreamManifest;
+  private fetchSegment: SegmentFetcher;
+  private options: MediaSourceStreamOptions;
+
+  private media: HTMLMediaElement | null = null;
+  private mediaSource: MediaSource | null = null;
+  private sourceBuffer: SourceBuffer | null = null;
+  private sourceBufferType: string | null = null;
+  private objectUrl: string | null = null;
+  private listeners: Array<() => void> = [];
+
+  private requestedRendition: number;
+  private appendedRendition = -1; // rendition whose init segment the SourceBuffer last received
+  private initSegments: Map<number, ArrayBuffer> = new Map();
+  private nextTime = 0; // start of the next segment to append
+
+  // A seek bumps the generation so in-flight segments for the old position are dropped
+  private generation = 0;
+  private pumping = false;
+  private repump = false;
+  private abortController: AbortController | null = null;
+
+  constructor(
+    manifest: StreamManifest,
+    fetchSegment: SegmentFetcher,
+    initialRendition: number = 0,
+    options: Partial<MediaSourceStreamOptions> = {}
+  ) {
+    super();
+    this.manifest = manifest;
+    this.fetchSegment = fetchSegment;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.requestedRendition = this.clampRendition(initialRendition);
+  }
+
+  /**
+   * SourceBuffer type for a rendition; TS segments are demuxed to their raw audio bytestream
+   */
+  static getSourceBufferType(rendition: Rendition): string {
+    const isMpegAudio = /^(mp3|mp4a\.(40\.34|69|6b))$/i.test(rendition.codecs);
+
+    switch (rendition.container) {
+      case 'fmp4':
+        return `audio/mp4; codecs="${rendition.codecs}"`;
+      case 'ts':
+        return isMpegAudio ? 'audio/mpeg' : 'audio/aac';
+      case 'adts':
+        return 'audio/aac';
+      case 'mp3':
+        return 'audio/mpeg';
+    }
+  }
+
+  /**
+   * Whether this browser's MSE implementation can play a rendition
+   */
+  static isSupported(rendition: Rendition): boolean {
+    return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(this.getSourceBufferType(rendition));
+  }
+
+  /**
+   * Point a media element at this stream; segments are fetched once the MediaSource opens
+   */
+  attach(media: HTMLMediaElement): void {
+    this.detach();
+
+    const mediaSource = new MediaSource();
+    this.media = media;
+    this.mediaSource = mediaSource;
+    this.objectUrl = URL.createObjectURL(mediaSource);
+
+    this.listen(mediaSource, 'sourceopen', () => this.handleSourceOpen());
+    this.listen(media, 'timeupdate', () => void this.pump());
+    this.listen(media, 'seeking', () => this.handleSeeking());
+
+    media.src = this.objectUrl;
+  }
+
+  /**
+   * Stop fetching and release the MediaSource
+   */
+  detach(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.listeners.forEach(remove => remove());
+    this.listeners = [];
+
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+
+    this.media = null;
+    this.mediaSource = null;
+    this.sourceBuffer = null;
+    this.sourceBufferType = null;
+    this.appendedRendition = -1;
+    this.initSegments.clear();
+    this.nextTime = 0;
+    this.generation++;
+  }
+
+  /**
+   * Switch rendition; takes effect from the next segment appended, so playback never jumps
+   */
+  setRendition(index: number): void {
+    this.requestedRendition = this.clampRendition(index);
+  }
+
+  /**
+   * Rendition the next segment will be fetched from
+   */
+  getRequestedRendition(): number {
+    return this.requestedRendition;
+  }
+
+  /**
+   * Rendition of the most recently appended segment, or -1 before the first one
+   */
+  getActiveRendition(): number {
+    return this.appendedRendition;
+  }
+
+  /**
+   * Seconds buffered ahead of the playhead
+   */
+  getBufferedAhead(): number {
+    const buffered = this.sourceBuffer?.buffered;
+    const time = this.media?.currentTime ?? 0;
+    if (!buffered) return 0;
+
+    for (let i = 0; i < buffered.length; i++) {
+      if (time >= buffered.start(i) - TIME_EPSILON && time <= buffered.end(i)) {
+        return buffered.end(i) - time;
+      }
+    }
+    return 0;
+  }
+
+  private handleSourceOpen(): void {
+    const mediaSource = this.mediaSource;
+    const rendition = this.manifest.renditions[this.requestedRendition];
+    if (!mediaSource || !rendition || this.sourceBuffer) return;
+
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+
+    try {
+      if (this.manifest.duration > 0) {
+        mediaSource.duration = this.manifest.duration;
+      }
+      this.sourceBufferType = MediaSourceStream.getSourceBufferType(rendition);
+      this.sourceBuffer = mediaSource.addSourceBuffer(this.sourceBufferType);
+      this.sourceBuffer.mode = this.usesSequenceMode(rendition) ? 'sequence' : 'segments';
+    } catch (error) {
+      this.fail(error);
+      return;
+    }
+
+    void this.pump();
+  }
+
+  private handleSeeking(): void {
+    const media = this.media;
+    const sourceBuffer = this.sourceBuffer;
+    if (!media || !sourceBuffer) return;
+
+    const time = media.currentTime;
+    const buffered = sourceBuffer.buffered;
+    for (let i = 0; i < buffered.length; i++) {
+      // Seeking within what is already buffered needs no refetch
+      if (time >= buffered.start(i) && time < buffered.end(i) && this.nextTime >= buffered.end(i) - 1) {
+        return;
+      }
+    }
+
+    this.generation++;
+    this.abortController?.abort();
+    this.nextTime = time;
+
+    // Resets the parser so a sequence-mode append starts cleanly at the new position
+    if (!sourceBuffer.updating && this.mediaSource?.readyState === 'open') {
+      sourceBuffer.abort();
+    }
+
+    this.repump = true;
+    void this.pump();
+  }
+
+  private async pump(): Promise<void> {
+    if (this.pumping) {
+      this.repump = true;
+      return;
+    }
+
+    this.pumping = true;
+    try {
+      do {
+        this.repump = false;
+        try {
+          await this.fill();
+        } catch (error) {
+          if (!this.isAbort(error)) {
+            this.fail(error);
+            return;
+          }
+        }
+      } while (this.repump && this.sourceBuffer);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async fill(): Promise<void> {
+    while (this.media && this.sourceBuffer && this.mediaSource && this.mediaSource.readyState !== 'closed') {
+      if (this.nextTime - this.media.currentTime >= this.options.bufferAhead) return;
+
+      const renditionIndex = this.requestedRendition;
+      const rendition = this.manifest.renditions[renditionIndex];
+      const segment = rendition ? this.findSegment(rendition, this.nextTime) : undefined;
+      if (!rendition || !segment) {
+        this.endOfStream();
+        return;
+      }
+
+      const generation = this.generation;
+      const appended = await this.appendSegment(renditionIndex, rendition, segment, generation);
+      if (!appended || generation !== this.generation) return;
+
+      this.nextTime = segment.start + segment.duration;
+    }
+  }
+
+  private async appendSegment(renditionIndex: number, rendition: Rendition, segment: MediaSegment, generation: number): Promise<boolean> {
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    const data = await this.fetchSegment(segment, controller.signal);
+    if (generation !== this.generation) return false;
+
+    if (renditionIndex !== this.appendedRendition) {
+      await this.switchRendition(renditionIndex, rendition, segment, controller.signal);
+      if (generation !== this.generation) return false;
+    }
+
+    const sourceBuffer = this.sourceBuffer;
+    if (!sourceBuffer) return false;
+
+    this.evictBehind();
+    if (sourceBuffer.mode === 'sequence') {
+      // Raw ADTS/MP3 frames carry no timestamps
+      sourceBuffer.timestampOffset = segment.start;
+    }
+    await this.appendBuffer(this.prepareSegment(rendition, data));
+
+    this.dispatchEvent(new CustomEvent('segmentAppended', {
+      detail: { rendition: renditionIndex, segment, bytes: data.byteLength }
+    }));
+    return true;
+  }
+
+  /**
+   * Ready the SourceBuffer for a new rendition before its first segment is appended
+   */
+  private async switchRendition(index: number, rendition: Rendition, segment: MediaSegment, signal: AbortSignal): Promise<void> {
+    const sourceBuffer = this.sourceBuffer;
+    if (!sourceBuffer) return;
+
+    const type = MediaSourceStream.getSourceBufferType(rendition);
+    if (type !== this.sourceBufferType) {
+      if (typeof sourceBuffer.changeType !== 'function') {
+        throw new Error(`Cannot switch from ${this.sourceBufferType} to ${type} in this browser`);
+      }
+      await this.waitForUpdate(sourceBuffer);
+      sourceBuffer.changeType(type);
+      sourceBuffer.mode = this.usesSequenceMode(rendition) ? 'sequence' : 'segments';
+      this.sourceBufferType = type;
+    }
+
+    if (rendition.initSegment) {
+      let init = this.initSegments.get(index);
+      if (!init) {
+        init = await this.fetchSegment(rendition.initSegment, signal);
+        this.initSegments.set(index, init);
+      }
+      await this.appendBuffer(init);
+    }
+
+    const previous = this.appendedRendition;
+    this.appendedRendition = index;
+
+    if (previous !== -1) {
+      this.dispatchEvent(new CustomEvent('renditionChange', {
+        detail: { previous, current: index, time: segment.start }
+      }));
+    }
+  }
+
+  private prepareSegment(rendition: Rendition, data: ArrayBuffer): Uint8Array {
+    const bytes = new Uint8Array(data);
+    switch (rendition.container) {
+      case 'ts':
+        return TransportStreamDemuxer.extractAudio(bytes).data;
+      case 'adts':
+      case 'mp3':
+        return TransportStreamDemuxer.stripId3(bytes);
+      default:
+        return bytes;
+    }
+  }
+
+  private async appendBuffer(data: BufferSource): Promise<void> {
+    try {
+      await this.updateSourceBuffer(sourceBuffer => sourceBuffer.appendBuffer(data));
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error;
+
+      // Browser buffer full: drop everything behind the playhead and retry once
+      await this.removeBuffered(0, Math.max(0, (this.media?.currentTime ?? 0) - 1));
+      await this.updateSourceBuffer(sourceBuffer => sourceBuffer.appendBuffer(data));
+    }
+  }
+
+  private evictBehind(): void {
+    const sourceBuffer = this.sourceBuffer;
+    const time = this.media?.currentTime ?? 0;
+    const limit = time - this.options.bufferBehind;
+    if (!sourceBuffer || limit <= 0 || !sourceBuffer.buffered.length) return;
+
+    if (sourceBuffer.buffered.start(0) < limit) {
+      void this.removeBuffered(0, limit).catch(() => undefined);
+    }
+  }
+
+  private async removeBuffered(start: number, end: number): Promise<void> {
+    if (end <= start) return;
+    await this.updateSourceBuffer(sourceBuffer => sourceBuffer.remove(start, end));
+  }
+
+  private async updateSourceBuffer(action: (sourceBuffer: SourceBuffer) => void): Promise<void> {
+    const sourceBuffer = this.sourceBuffer;
+    if (!sourceBuffer) throw new DOMException('Stream detached', 'AbortError');
+
+    await this.waitForUpdate(sourceBuffer);
+    await new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        sourceBuffer.removeEventListener('updateend', handleEnd);
+        sourceBuffer.removeEventListener('error', handleError);
+      };
+      const handleEnd = () => {
+        cleanup();
+        resolve();
+      };
+      const handleError = () => {
+        cleanup();
+        reject(new Error('SourceBuffer update failed'));
+      };
+
+      sourceBuffer.addEventListener('updateend', handleEnd);
+      sourceBuffer.addEventListener('error', handleError);
+      try {
+        action(sourceBuffer);
+      } catch (error) {
+        cleanup();
+        reject(error);
+      }
+    });
+  }
+
+  private waitForUpdate(sourceBuffer: SourceBuffer): Promise<void> {
+    if (!sourceBuffer.updating) return Promise.resolve();
+    return new Promise(resolve => sourceBuffer.addEventListener('updateend', () => resolve(), { once: true }));
+  }
+
+  private endOfStream(): void {
+    const mediaSource = this.mediaSource;
+    if (mediaSource?.readyState !== 'open' || this.sourceBuffer?.updating) return;
+
+    try {
+      mediaSource.endOfStream();
+      this.dispatchEvent(new CustomEvent('ended'));
+    } catch (error) {
+      console.warn('Failed to end media stream:', error);
+    }
+  }
+
+  private findSegment(rendition: Rendition, time: number): MediaSegment | undefined {
+    return rendition.segments.find(segment => segment.start + segment.duration > time + TIME_EPSILON);
+  }
+
+  // Raw ADTS/MP3 bytestreams have no timestamps, so MSE generates them in sequence mode
+  private usesSequenceMode(rendition: Rendition): boolean {
+    return rendition.container !== 'fmp4';
+  }
+
+  private clampRendition(index: number): number {
+    return Math.max(0, Math.min(this.manifest.renditions.length - 1, Math.round(index)));
+  }
+
+  private isAbort(error: unknown): boolean {
+    return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+  }
+
+  private fail(error: unknown): void {
+    console.error('Media source stream failed:', error);
+    this.dispatchEvent(new CustomEvent('error', { detail: { error } }));
+  }
+
+  private listen(target: EventTarget, type: string, handler: () => void): void {
+    target.addEventListener(type, handler);
+    this.listeners.push(() => target.removeEventListener(type, handler));
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Offline Library Bundle for Meow-Play
+ * Features: single-file export of offline tracks, playlists and cover art, streamed writing,
+ * SHA-256 checksums per entry, import planning with deduplication and a storage budget
+ */
+
+import type { OfflineTrack } from './OfflineManager';
+import { ChunkedDownloader, IntegrityError } from './ChunkedDownloader';
+import { Playlist, Song } from '../types';
+
+// Byte range of an entry inside the archive
+export interface BundleEntry {
+  offset: number;
+  length: number;
+  sha256: string; // hex
+}
+
+export interface BundleTrack {
+  track: OfflineTrack;
+  song?: Song; // library entry; archives written before it was added lack it
+  audio: BundleEntry;
+}
+
+export interface BundleCover {
+  url: string;
+  type: string; // MIME type
+  image: BundleEntry;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: Date;
+  tracks: BundleTrack[];
+  playlists: Playlist[];
+  covers: BundleCover[];
+}
+
+// What an export reads from; audio and covers are pulled one at a time while the archive streams
+export interface BundleSource {
+  tracks: OfflineTrack[];
+  songs: Song[]; // library entries for the tracks
+  playlists: Playlist[];
+  coverUrls: string[];
+  readAudio(trackId: string): Promise<Uint8Array | null>;
+  readCover(url: string): Promise<{ type: string; data: Uint8Array } | null>;
+}
+
+// A Blob or File; only ranged reads are needed
+export interface BundleFile {
+  size: number;
+  slice(start: number, end: number): { arrayBuffer(): Promise<ArrayBuffer> };
+}
+
+export interface BundleArchive {
+  manifest: BundleManifest;
+  readEntry(entry: BundleEntry): Promise<Uint8Array>; // throws IntegrityError on a checksum mismatch
+}
+
+export interface BundleImportPlan {
+  import: BundleTrack[]; // in archive order
+  duplicates: BundleTrack[]; // already offline under the same song ID or audio hash
+  overQuota: BundleTrack[]; // would not fit in the storage budget
+  bytesToImport: number;
+}
+
+export class BundleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleFormatError';
+  }
+}
+
+export const BUNDLE_FORMAT = 'meow-play-offline-library';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_MIME_TYPE = 'application/vnd.meow-play.library';
+
+// Layout: magic, entry payloads, manifest JSON, then a trailer with the manifest length and checksum and the magic again
+const MAGIC = new TextEncoder().encode('MEOWLIB\n');
+const TRAILER_LENGTH = 4 + 32 + MAGIC.length;
+
+const DATE_FIELDS = new Set(['createdAt', 'downloadedAt', 'expiresAt', 'lastRefreshed', 'updatedAt']);
+
+export class OfflineBundle {
+  /**
+   * Stream an archive of the source, reading one track or cover into memory at a time.
+   * Tracks whose audio cannot be read and covers that cannot be fetched are left out.
+   */
+  static write(source: BundleSource): ReadableStream<Uint8Array> {
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      createdAt: new Date(),
+      tracks: [],
+      playlists: source.playlists,
+      covers: []
+    };
+
+    const songs = new Map(source.songs.map(song => [song.id, song]));
+    let offset = MAGIC.length;
+    const entryFor = async (data: Uint8Array): Promise<BundleEntry> => {
+      const entry = { offset, length: data.length, sha256: await ChunkedDownloader.sha256(data) };
+      offset += data.length;
+      return entry;
+    };
+
+    const parts = (async function* (): AsyncGenerator<Uint8Array> {
+      yield MAGIC;
+
+      for (const track of source.tracks) {
+        const data = await source.readAudio(track.id);
+        if (!data) continue;
+        const song = songs.get(track.id);
+        manifest.tracks.push({ track, ...(song ? { song } : {}), audio: await entryFor(data) });
+        yield data;
+      }
+
+      for (const url of new Set(source.coverUrls)) {
+        const cover = await source.readCover(url);
+        if (!cover) continue;
+        manifest.covers.push({ url, type: cover.type, image: await entryFor(cover.data) });
+        yield cover.data;
+      }
+
+      const json = new TextEncoder().encode(JSON.stringify(manifest));
+      const trailer = new Uint8Array(TRAILER_LENGTH);
+      new DataView(trailer.buffer).setUint32(0, json.length);
+      trailer.set(OfflineBundle.fromHex(await ChunkedDownloader.sha256(json)), 4);
+      trailer.set(MAGIC, 36);
+
+      yield json;
+      yield trailer;
+    })();
+
+    return new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        const { done, value } = await parts.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel: async () => {
+        await parts.return(undefined);
+      }
+    });
+  }
+
+  /**
+   * Read and verify an archive's manifest; entries are read and checked on demand
+   */
+  static async open(file: BundleFile): Promise<BundleArchive> {
+    const read = async (start: number, end: number) => new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+    if (file.size < MAGIC.length + TRAILER_LENGTH || !this.isMagic(await read(0, MAGIC.length))) {
+      throw new BundleFormatError('Not an offline library archive');
+    }
+
+    const trailer = await read(file.size - TRAILER_LENGTH, file.size);
+    if (!this.isMagic(trailer.subarray(36))) {
+      throw new BundleFormatError('The archive is truncated');
+    }
+
+    const manifestLength = new DataView(trailer.buffer, trailer.byteOffset).getUint32(0);
+    const manifestEnd = file.size - TRAILER_LENGTH;
+    if (manifestLength > manifestEnd - MAGIC.length) {
+      throw new BundleFormatError('The archive is truncated');
+    }
+
+    const json = await read(manifestEnd - manifestLength, manifestEnd);
+    if (await ChunkedDownloader.sha256(json) !== this.toHex(trailer.subarray(4, 36))) {
+      throw new IntegrityError('The archive manifest is corrupted');
+    }
+
+    const manifest = JSON.parse(new TextDecoder().decode(json), (key, value) =>
+      DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+    ) as BundleManifest;
+
+    if (manifest.format !== BUNDLE_FORMAT) {
+      throw new BundleFormatError('Not an offline library archive');
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+      throw new BundleFormatError(`Archive version ${manifest.version} is newer than this app supports`);
+    }
+
+    return {
+      manifest,
+      readEntry: async entry => {
+        if (entry.offset < MAGIC.length || entry.offset + entry.length > manifestEnd - manifestLength) {
+          throw new IntegrityError('Archive entry lies outside the archive');
+        }
+        const data = await read(entry.offset, entry.offset + entry.length);
+        if (!(await ChunkedDownloader.verify(data, entry.sha256))) {
+          throw new IntegrityError('Archive entry failed its checksum');
+        }
+        return data;
+      }
+    };
+  }
+
+  /**
+   * Decide which archived tracks to import: skip songs already offline by ID or audio hash,
+   * then take the rest in archive order while they fit the budget
+   */
+  static planImport(manifest: BundleManifest, offlineTracks: OfflineTrack[], budget: number): BundleImportPlan {
+    const downloaded = offlineTracks.filter(track => track.downloadStatus === 'downloaded');
+    const ids = new Set(downloaded.map(track => track.id));
+    const hashes = new Set(downloaded.flatMap(track => track.checksum ? [track.checksum.toLowerCase()] : []));
+    const plan: BundleImportPlan = { import: [], duplicates: [], overQuota: [], bytesToImport: 0 };
+
+    for (const item of manifest.tracks) {
+      const hash = item.audio.sha256.toLowerCase();
+      if (ids.has(item.track.id) || hashes.has(hash)) {
+        plan.duplicates.push(item);
+        continue;
+      }
+
+      if (plan.bytesToImport + item.audio.length > budget) {
+        plan.overQuota.push(item);
+        continue;
+      }
+
+      ids.add(item.track.id);
+      hashes.add(hash);
+      plan.import.push(item);
+      plan.bytesToImport += item.audio.length;
+    }
+
+    return plan;
+  }
+
+  private static isMagic(bytes: Uint8Array): boolean {
+    return bytes.length === MAGIC.length && bytes.every((byte, i) => byte === MAGIC[i]);
+  }
+
+  private static toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private static fromHex(hex: string): Uint8Array {
+    return Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+  }
+}
@@ -4,16 +4,24 @@
  * Rating Target: A+ (10/10)
  */
 
-import { AudioTrack } from './AudioEngine';
+import { AudioTrack, AudioFormat, AudioFormatDetector } from './AudioEngine';
+import { OfflineSync, OfflineRule, OfflineLibrary, SyncPlan } from './OfflineSync';
+import { ChunkedDownloader, ChunkedDownloadState, ChunkStore, IntegrityError } from './ChunkedDownloader';
+import { OfflineVault, VaultKey, SealedData } from './OfflineVault';
+import { OfflineBundle, BundleFile, BundleTrack, BUNDLE_MIME_TYPE } from './OfflineBundle';
+import { db, LOGOUT_EVENT } from '../utils/indexedDB';
+import { Song } from '../types';
 
-export interface OfflineTrack extends AudioTrack {
-  downloadStatus: 'pending' | 'downloading' | 'downloaded' | 'failed';
+// Resume point and expected checksum are persisted with the track
+export interface OfflineTrack extends AudioTrack, ChunkedDownloadState {
+  downloadStatus: 'pending' | 'downloading' | 'paused' | 'downloaded' | 'failed';
   downloadProgress: number; // 0-100
   downloadedAt?: Date;
   fileSize: number;
   localPath: string;
   quality: string;
   expiresAt?: Date;
+  syncRuleId?: string; // rule that downloaded the track; unset for manual downloads
 }
 
 export interface DownloadOptions {
@@ -21,7 +29,7 @@ export interface DownloadOptions {
   maxConcurrentDownloads: number;
   retryAttempts: number;
   chunkSize: number; // bytes
-  compressionLevel: number; // 0-9
+  compressionLevel: number; // 0 stores metadata blobs uncompressed; CompressionStream has no levels
 }
 
 export interface StorageQuota {
@@ -31,6 +39,13 @@ export interface StorageQuota {
   percentage: number; // 0-100
 }
 
+// Audio is stored sealed; rows written before encryption hold plain data until they are next read
+interface AudioDataRecord {
+  trackId: string;
+  sealed?: SealedData;
+  data?: Uint8Array;
+}
+
 export interface DownloadProgress {
   trackId: string;
   progress: number; // 0-100
@@ -48,14 +63,65 @@ export interface CachePolicy {
   wifiOnlyDownload: boolean;
 }
 
+export interface SyncResult extends SyncPlan {
+  downloadsDeferred: boolean; // Wi-Fi-only policy held the downloads back
+}
+
+export interface LibraryExportResult {
+  trackCount: number;
+  size: number; // bytes written
+}
+
+export interface LibraryImportResult {
+  imported: OfflineTrack[];
+  duplicates: BundleTrack[]; // already offline under the same song ID or audio hash
+  overQuota: BundleTrack[]; // left out to stay within the storage budget
+  corrupted: BundleTrack[]; // audio failed its checksum
+  songsImported: number; // library entries added for imported tracks
+  playlistsImported: number;
+  coversImported: number;
+}
+
+// Name offered for library exports
+export const EXPORT_FILE_EXTENSION = '.meowlib';
+const EXPORT_FILE_NAME = `meow-play-library${EXPORT_FILE_EXTENSION}`;
+
+// Image cache the service worker serves cover art from
+const COVER_CACHE = 'meow-play-images-v1';
+
+const OFFLINE_DB_NAME = 'MeowPlayOffline';
+
+// Formats Media Source Extensions play as stored; MP4 would need fragmenting and the rest are not supported
+const MSE_FORMATS: AudioFormat[] = ['mp3', 'aac', 'webm'];
+
 export class OfflineManager extends EventTarget {
+  private static instance: OfflineManager;
+  
   private db: IDBDatabase | null = null;
+  private ready: Promise<void>;
   private downloadQueue: Map<string, OfflineTrack> = new Map();
   private activeDownloads: Map<string, AbortController> = new Map();
   private downloadOptions: DownloadOptions;
   private cachePolicy: CachePolicy;
   private storageQuota: StorageQuota = { used: 0, available: 0, total: 0, percentage: 0 };
   
+  // Backoff for downloads interrupted by the network
+  private retryAfter: Map<string, number> = new Map();
+  private networkRetries: Map<string, number> = new Map();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // Encrypts audio and partial chunks with the device key
+  private vault = new OfflineVault({
+    load: () => this.loadDeviceKey(),
+    save: key => this.saveDeviceKey(key)
+  });
+  
+  private chunkStore: ChunkStore = {
+    getChunks: trackId => this.getChunks(trackId),
+    putChunk: (trackId, index, data) => this.putChunk(trackId, index, data),
+    clearChunks: trackId => this.clearChunks(trackId)
+  };
+  
   // Service worker for background downloads
   private serviceWorkerRegistration: ServiceWorkerRegistration | null = null;
   
@@ -83,22 +149,71 @@ export class OfflineManager extends EventTarget {
       ...cachePolicy
     };
     
-    this.initializeOfflineStorage();
+    this.ready = this.initializeOfflineStorage().catch(error => {
+      console.warn('Offline storage unavailable:', error);
+    });
     this.initializeServiceWorker();
     this.startStorageMonitoring();
+    
+    window.addEventListener('online', this.handleOnline);
   }
 
+  /**
+   * Offline storage shared by the player and the settings views
+   */
+  static getInstance(): OfflineManager {
+    if (!OfflineManager.instance) {
+      OfflineManager.instance = new OfflineManager();
+    }
+    return OfflineManager.instance;
+  }
+
+  /**
+   * Wipe offline data on logout, whether or not an OfflineManager was created this session.
+   * Returns a function that stops watching.
+   */
+  static watchLogout(): () => void {
+    window.addEventListener(LOGOUT_EVENT, OfflineManager.handleLogout);
+    return () => window.removeEventListener(LOGOUT_EVENT, OfflineManager.handleLogout);
+  }
+
+  /**
+   * Delete all offline data and the device key. Without a live instance the database is
+   * deleted outright, which drops the key with it; the next download creates a new one.
+   */
+  static async wipeStoredData(): Promise<void> {
+    if (OfflineManager.instance) {
+      await OfflineManager.instance.wipeOfflineData();
+      return;
+    }
+    
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(OFFLINE_DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      // Another tab still has the database open; it is deleted once that tab closes it
+      request.onblocked = () => reject(new Error('Offline data is open in another tab and will be deleted when it closes'));
+    });
+  }
+
+  private static handleLogout = (): void => {
+    OfflineManager.wipeStoredData().catch(error => {
+      console.error('Failed to wipe offline data:', error);
+    });
+  };
+
   /**
    * Initialize IndexedDB for offline storage
    */
   private async initializeOfflineStorage(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open('MeowPlayOffline', 2);
+      const request = indexedDB.open(OFFLINE_DB_NAME, 4);
       
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         this.db = request.result;
         this.updateStorageQuota();
+        this.restoreInterruptedDownloads();
         resolve();
       };
       
@@ -123,6 +238,16 @@ export class OfflineManager extends EventTarget {
         if (!db.objectStoreNames.contains('metadata')) {
           db.createObjectStore('metadata', { keyPath: 'key' });
         }
+        
+        // Create partial download chunk store
+        if (!db.objectStoreNames.contains('chunks')) {
+          db.createObjectStore('chunks', { keyPath: ['trackId', 'index'] });
+        }
+        
+        // Create device key store
+        if (!db.objectStoreNames.contains('keys')) {
+          db.createObjectStore('keys', { keyPath: 'name' });
+        }
       };
     });
   }
@@ -211,7 +336,7 @@ export class OfflineManager extends EventTarget {
   /**
    * Download track for offline playback
    */
-  async downloadTrack(track: AudioTrack, quality?: string): Promise<void> {
+  async downloadTrack(track: AudioTrack, quality?: string, syncRuleId?: string): Promise<void> {
     const downloadQuality = quality || this.downloadOptions.quality;
     
     // Check if already downloading or downloaded
@@ -220,6 +345,16 @@ export class OfflineManager extends EventTarget {
       return;
     }
     
+    // Continue a paused or interrupted download from its stored chunks
+    if (existingTrack && ['pending', 'paused'].includes(existingTrack.downloadStatus)) {
+      const queuedTrack = this.downloadQueue.get(track.id) ?? existingTrack;
+      queuedTrack.downloadStatus = 'pending';
+      this.downloadQueue.set(track.id, queuedTrack);
+      await this.saveOfflineTrack(queuedTrack);
+      this.processDownloadQueue();
+      return;
+    }
+    
     // Check Wi-Fi requirement
     if (this.cachePolicy.wifiOnlyDownload && !this.isOnWiFi()) {
       throw new Error('Wi-Fi required for downloads');
@@ -242,7 +377,8 @@ export class OfflineManager extends EventTarget {
       downloadProgress: 0,
       fileSize: estimatedSize,
       localPath: `offline/${track.id}_${downloadQuality}`,
-      quality: downloadQuality
+      quality: downloadQuality,
+      ...(syncRuleId ? { syncRuleId } : {})
     };
     
     // Add to queue
@@ -268,9 +404,13 @@ export class OfflineManager extends EventTarget {
     
     if (activeCount >= maxConcurrent) return;
     
+    // Interrupted downloads resume when the connection comes back
+    if (!navigator.onLine) return;
+    
     // Find next pending download
+    const now = Date.now();
     const pendingTracks = Array.from(this.downloadQueue.values())
-      .filter(track => track.downloadStatus === 'pending');
+      .filter(track => track.downloadStatus === 'pending' && (this.retryAfter.get(track.id) ?? 0) <= now);
     
     if (pendingTracks.length === 0) return;
     
@@ -306,10 +446,27 @@ export class OfflineManager extends EventTarget {
       // Create streaming URL for download
       const downloadUrl = this.createDownloadUrl(track.url, track.quality);
       
-      // Download with progress tracking
-      await this.downloadWithProgress(downloadUrl, track, controller.signal);
+      // Download in resumable chunks, starting over while the finished file fails verification
+      let audioData: Uint8Array | null = null;
+      for (let attempt = 0; !audioData; attempt++) {
+        try {
+          audioData = await this.downloadInChunks(downloadUrl, track, controller.signal);
+        } catch (error) {
+          if (!(error instanceof IntegrityError) || attempt >= this.downloadOptions.retryAttempts) throw error;
+          
+          track.downloadProgress = 0;
+          this.dispatchEvent(new CustomEvent('downloadCorrupted', {
+            detail: { track, attempt: attempt + 1, error }
+          }));
+        }
+      }
+      
+      // Save encrypted audio data to IndexedDB and drop the partial chunks
+      await this.saveAudioData(track.id, audioData);
+      await this.clearChunks(track.id);
       
       // Mark as completed
+      track.fileSize = audioData.byteLength;
       track.downloadStatus = 'downloaded';
       track.downloadProgress = 100;
       track.downloadedAt = new Date();
@@ -322,12 +479,32 @@ export class OfflineManager extends EventTarget {
       }
       
       await this.saveOfflineTrack(track);
+      this.networkRetries.delete(track.id);
       
       this.dispatchEvent(new CustomEvent('downloadComplete', {
         detail: { track }
       }));
       
     } catch (error) {
+      // Deleted while downloading
+      if (this.downloadQueue.get(track.id) !== track) return;
+      
+      if (controller.signal.aborted || this.isNetworkError(error)) {
+        // Keep the stored chunks so the download resumes from the last completed byte
+        if (controller.signal.aborted) {
+          track.downloadStatus = 'paused';
+        } else {
+          track.downloadStatus = 'pending';
+          this.scheduleRetry(track.id);
+        }
+        await this.saveOfflineTrack(track);
+        
+        this.dispatchEvent(new CustomEvent('downloadInterrupted', {
+          detail: { track, bytesDownloaded: track.bytesDownloaded ?? 0 }
+        }));
+        return;
+      }
+      
       track.downloadStatus = 'failed';
       await this.saveOfflineTrack(track);
       
@@ -335,8 +512,12 @@ export class OfflineManager extends EventTarget {
         detail: { track, error }
       }));
     } finally {
-      this.activeDownloads.delete(track.id);
-      this.downloadQueue.delete(track.id);
+      if (this.activeDownloads.get(track.id) === controller) {
+        this.activeDownloads.delete(track.id);
+      }
+      if (track.downloadStatus === 'downloaded' || track.downloadStatus === 'failed') {
+        this.downloadQueue.delete(track.id);
+      }
       
       // Continue processing queue
       this.processDownloadQueue();
@@ -344,87 +525,93 @@ export class OfflineManager extends EventTarget {
   }
 
   /**
-   * Download with progress tracking
+   * Download in HTTP Range chunks, persisting each chunk and the resume point as it arrives
    */
-  private async downloadWithProgress(
+  private async downloadInChunks(
     url: string, 
     track: OfflineTrack, 
     signal: AbortSignal
-  ): Promise<void> {
-    const response = await fetch(url, { signal });
-    
-    if (!response.ok) {
-      throw new Error(`Download failed: ${response.status}`);
-    }
-    
-    const contentLength = parseInt(response.headers.get('content-length') || '0');
-    const reader = response.body?.getReader();
-    
-    if (!reader) {
-      throw new Error('Unable to read response body');
-    }
-    
-    let downloadedBytes = 0;
-    const chunks: Uint8Array[] = [];
+  ): Promise<Uint8Array> {
     const startTime = Date.now();
+    const startBytes = track.bytesDownloaded ?? 0;
     
-    while (true) {
-      const { done, value } = await reader.read();
-      
-      if (done) break;
-      
-      chunks.push(value);
-      downloadedBytes += value.length;
-      
-      // Update progress
-      const progress = contentLength > 0 ? (downloadedBytes / contentLength) * 100 : 0;
-      track.downloadProgress = Math.round(progress);
-      
-      // Calculate download speed and ETA
-      const elapsed = (Date.now() - startTime) / 1000;
-      const speed = downloadedBytes / elapsed;
-      const eta = contentLength > 0 ? (contentLength - downloadedBytes) / speed : 0;
-      
-      const progressInfo: DownloadProgress = {
-        trackId: track.id,
-        progress: track.downloadProgress,
-        downloadSpeed: speed,
-        eta,
-        bytesDownloaded: downloadedBytes,
-        totalBytes: contentLength
-      };
-      
-      this.dispatchEvent(new CustomEvent('downloadProgress', {
-        detail: progressInfo
-      }));
-      
-      // Update track in database periodically
-      if (downloadedBytes % (1024 * 1024) === 0) { // Every MB
+    return ChunkedDownloader.download(url, track.id, track, this.chunkStore, {
+      chunkSize: this.downloadOptions.chunkSize,
+      signal,
+      onChunk: async () => {
+        const bytesDownloaded = track.bytesDownloaded ?? 0;
+        const totalBytes = track.totalBytes ?? 0;
+        track.downloadProgress = totalBytes > 0 ? Math.round((bytesDownloaded / totalBytes) * 100) : 0;
+        
+        // Calculate download speed and ETA for this session
+        const elapsed = (Date.now() - startTime) / 1000;
+        const speed = elapsed > 0 ? Math.max(0, bytesDownloaded - startBytes) / elapsed : 0;
+        const eta = speed > 0 ? (totalBytes - bytesDownloaded) / speed : 0;
+        
+        const progressInfo: DownloadProgress = {
+          trackId: track.id,
+          progress: track.downloadProgress,
+          downloadSpeed: speed,
+          eta,
+          bytesDownloaded,
+          totalBytes
+        };
+        
+        this.dispatchEvent(new CustomEvent('downloadProgress', {
+          detail: progressInfo
+        }));
+        
         await this.saveOfflineTrack(track);
       }
-    }
-    
-    // Combine chunks
-    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    const audioData = new Uint8Array(totalLength);
-    let offset = 0;
-    
-    for (const chunk of chunks) {
-      audioData.set(chunk, offset);
-      offset += chunk.length;
-    }
+    });
+  }
+
+  /**
+   * Whether a download failed because the connection dropped
+   */
+  private isNetworkError(error: unknown): boolean {
+    // fetch rejects with a TypeError when the request never completes
+    return !navigator.onLine || error instanceof TypeError;
+  }
+
+  /**
+   * Retry a download interrupted by the network with exponential backoff
+   */
+  private scheduleRetry(trackId: string): void {
+    const retries = (this.networkRetries.get(trackId) ?? 0) + 1;
+    const delay = Math.min(60000, 2000 * 2 ** (retries - 1));
+    this.networkRetries.set(trackId, retries);
+    this.retryAfter.set(trackId, Date.now() + delay);
     
-    // Compress if configured
-    let finalData = audioData;
-    if (this.downloadOptions.compressionLevel > 0) {
-      finalData = await this.compressAudioData(audioData, this.downloadOptions.compressionLevel);
-    }
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processDownloadQueue();
+    }, delay);
+  }
+
+  /**
+   * Resume interrupted downloads when the connection comes back
+   */
+  private handleOnline = (): void => {
+    this.retryAfter.clear();
+    this.processDownloadQueue();
+  };
+
+  /**
+   * Queue downloads left unfinished by the previous session
+   */
+  private async restoreInterruptedDownloads(): Promise<void> {
+    const tracks = await this.getAllOfflineTracks();
     
-    // Save audio data to IndexedDB
-    await this.saveAudioData(track.id, finalData);
+    tracks
+      .filter(track => ['pending', 'downloading', 'paused'].includes(track.downloadStatus))
+      .forEach(track => {
+        if (track.downloadStatus === 'downloading') track.downloadStatus = 'pending';
+        this.downloadQueue.set(track.id, track);
+      });
     
-    // Update file size
-    track.fileSize = finalData.byteLength;
+    this.processDownloadQueue();
   }
 
   /**
@@ -437,15 +624,6 @@ export class OfflineManager extends EventTarget {
     return url.toString();
   }
 
-  /**
-   * Compress audio data
-   */
-  private async compressAudioData(data: Uint8Array, level: number): Promise<Uint8Array> {
-    // This would integrate with a compression library like pako for gzip compression
-    // For now, return original data
-    return data;
-  }
-
   /**
    * Save offline track metadata
    */
@@ -463,15 +641,17 @@ export class OfflineManager extends EventTarget {
   }
 
   /**
-   * Save audio data
+   * Save audio data, encrypted with the device key
    */
   private async saveAudioData(trackId: string, data: Uint8Array): Promise<void> {
     if (!this.db) return;
     
+    const sealed = await this.vault.seal(trackId, data);
+    
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['audioData'], 'readwrite');
       const store = transaction.objectStore('audioData');
-      const request = store.put({ trackId, data });
+      const request = store.put({ trackId, sealed });
       
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -495,9 +675,119 @@ export class OfflineManager extends EventTarget {
   }
 
   /**
-   * Get offline audio data
+   * Get offline audio data, re-downloading the track if the stored copy fails its checksum
    */
   async getOfflineAudioData(trackId: string): Promise<Uint8Array | null> {
+    const stream = await this.getOfflineAudioStream(trackId);
+    if (!stream) return null;
+    
+    let data: Uint8Array;
+    try {
+      data = new Uint8Array(await new Response(stream).arrayBuffer());
+    } catch {
+      return null;
+    }
+    
+    const track = await this.getOfflineTrack(trackId);
+    if (track?.checksum && !(await ChunkedDownloader.verify(data, track.checksum))) {
+      await this.redownloadCorruptedTrack(track);
+      return null;
+    }
+    
+    return data;
+  }
+
+  /**
+   * Stream offline audio, decrypting one record at a time. A record that fails
+   * authentication errors the stream and queues the track for re-download.
+   */
+  async getOfflineAudioStream(trackId: string): Promise<ReadableStream<Uint8Array> | null> {
+    const record = await this.readAudioRecord(trackId);
+    if (!record) return null;
+    
+    if (!record.sealed) {
+      // Encrypt rows stored before encryption the first time they are read
+      if (!record.data) return null;
+      await this.saveAudioData(trackId, record.data);
+      return new Response(record.data).body;
+    }
+    
+    const reader = this.vault.open(trackId, record.sealed).getReader();
+    
+    return new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          controller.error(error);
+          
+          const track = await this.getOfflineTrack(trackId);
+          if (track) await this.redownloadCorruptedTrack(track);
+        }
+      },
+      cancel: reason => reader.cancel(reason)
+    });
+  }
+
+  /**
+   * Object URL that plays an offline track while it is being decrypted. Formats Media Source
+   * Extensions can take are appended record by record; others have to be collected into a blob.
+   */
+  async getOfflinePlaybackUrl(track: AudioTrack): Promise<string | null> {
+    const stream = await this.getOfflineAudioStream(track.id);
+    if (!stream) return null;
+    
+    const mimeType = AudioFormatDetector.getMimeType(track.format);
+    if (MSE_FORMATS.includes(track.format) && typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(mimeType)) {
+      return OfflineManager.createMediaSourceUrl(stream, mimeType);
+    }
+    
+    const blob = await new Response(stream, { headers: { 'Content-Type': mimeType } }).blob().catch(() => null);
+    return blob ? URL.createObjectURL(blob) : null;
+  }
+
+  /**
+   * Media source fed from a stream once the media element opens it, one appendBuffer at a time
+   */
+  private static createMediaSourceUrl(stream: ReadableStream<Uint8Array>, mimeType: string): string {
+    const mediaSource = new MediaSource();
+    const reader = stream.getReader();
+    
+    mediaSource.addEventListener('sourceopen', async () => {
+      try {
+        const sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+        // MP3 and ADTS frames carry no timestamps of their own
+        if (mimeType !== 'audio/webm') sourceBuffer.mode = 'sequence';
+        
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          
+          const updated = new Promise(resolve => sourceBuffer.addEventListener('updateend', resolve, { once: true }));
+          sourceBuffer.appendBuffer(value);
+          await updated;
+        }
+        
+        if (mediaSource.readyState === 'open') mediaSource.endOfStream();
+      } catch (error) {
+        // Detached from the element, or a record failed to decrypt
+        reader.cancel(error).catch(() => {});
+        if (mediaSource.readyState === 'open') mediaSource.endOfStream('decode');
+      }
+    }, { once: true });
+    
+    return URL.createObjectURL(mediaSource);
+  }
+
+  /**
+   * Read a stored audio data row
+   */
+  private async readAudioRecord(trackId: string): Promise<AudioDataRecord | null> {
     if (!this.db) return null;
     
     return new Promise((resolve, reject) => {
@@ -505,14 +795,447 @@ export class OfflineManager extends EventTarget {
       const store = transaction.objectStore('audioData');
       const request = store.get(trackId);
       
-      request.onsuccess = () => {
-        const result = request.result;
-        resolve(result ? result.data : null);
-      };
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Save a metadata blob, gzipped unless compression is disabled
+   */
+  async saveMetadata(key: string, value: unknown): Promise<void> {
+    await this.ready;
+    if (!this.db) return;
+    
+    const json = new TextEncoder().encode(JSON.stringify(value));
+    const compressed = this.downloadOptions.compressionLevel > 0;
+    const data = compressed ? await OfflineVault.compress(json) : json;
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['metadata'], 'readwrite');
+      const store = transaction.objectStore('metadata');
+      const request = store.put({ key, data, compressed });
+      
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get a metadata blob
+   */
+  async getMetadata<T>(key: string): Promise<T | null> {
+    await this.ready;
+    if (!this.db) return null;
+    
+    const record = await new Promise<{ data: Uint8Array; compressed: boolean } | undefined>((resolve, reject) => {
+      const transaction = this.db!.transaction(['metadata'], 'readonly');
+      const store = transaction.objectStore('metadata');
+      const request = store.get(key);
+      
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (!record) return null;
+    
+    const json = record.compressed ? await OfflineVault.decompress(record.data) : record.data;
+    return JSON.parse(new TextDecoder().decode(json)) as T;
+  }
+
+  /**
+   * Drop a corrupted download and queue it again from scratch
+   */
+  private async redownloadCorruptedTrack(track: OfflineTrack): Promise<void> {
+    if (this.db) {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = this.db!.transaction(['audioData', 'chunks'], 'readwrite');
+        transaction.objectStore('audioData').delete(track.id);
+        transaction.objectStore('chunks').delete(this.chunkRange(track.id));
+        
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    }
+    
+    delete track.bytesDownloaded;
+    delete track.totalBytes;
+    delete track.etag;
+    delete track.checksum;
+    delete track.downloadedAt;
+    track.downloadStatus = 'pending';
+    track.downloadProgress = 0;
+    
+    this.downloadQueue.set(track.id, track);
+    await this.saveOfflineTrack(track);
+    
+    this.dispatchEvent(new CustomEvent('downloadCorrupted', {
+      detail: { track, attempt: 0 }
+    }));
+    
+    this.processDownloadQueue();
+  }
+
+  /**
+   * Get stored chunks of a partial download, in order. Chunks sealed with a
+   * rotated key cannot be opened and are dropped so the download starts over.
+   */
+  private async getChunks(trackId: string): Promise<Uint8Array[]> {
+    if (!this.db) return [];
+    
+    const records = await new Promise<Array<{ index: number; sealed: SealedData }>>((resolve, reject) => {
+      const transaction = this.db!.transaction(['chunks'], 'readonly');
+      const store = transaction.objectStore('chunks');
+      const request = store.getAll(this.chunkRange(trackId));
+      
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    
+    try {
+      return await Promise.all(records.map(record => this.vault.openAll(this.chunkOwner(trackId, record.index), record.sealed)));
+    } catch {
+      await this.clearChunks(trackId);
+      return [];
+    }
+  }
+
+  /**
+   * Save one chunk of a partial download, encrypted with the device key
+   */
+  private async putChunk(trackId: string, index: number, data: Uint8Array): Promise<void> {
+    if (!this.db) return;
+    
+    const sealed = await this.vault.seal(this.chunkOwner(trackId, index), data);
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['chunks'], 'readwrite');
+      const store = transaction.objectStore('chunks');
+      const request = store.put({ trackId, index, sealed });
+      
+      request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
 
+  /**
+   * Delete the chunks of a partial download
+   */
+  private async clearChunks(trackId: string): Promise<void> {
+    if (!this.db) return;
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['chunks'], 'readwrite');
+      const store = transaction.objectStore('chunks');
+      const request = store.delete(this.chunkRange(trackId));
+      
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Owner ID binding a sealed chunk to its track and position
+   */
+  private chunkOwner(trackId: string, index: number): string {
+    return `${trackId}#chunk${index}`;
+  }
+
+  /**
+   * Load the device key
+   */
+  private async loadDeviceKey(): Promise<VaultKey | null> {
+    await this.ready;
+    if (!this.db) throw new Error('Offline storage unavailable');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['keys'], 'readonly');
+      const store = transaction.objectStore('keys');
+      const request = store.get('device');
+      
+      request.onsuccess = () => resolve(request.result?.key ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Save the device key, replacing the previous one
+   */
+  private async saveDeviceKey(key: VaultKey): Promise<void> {
+    await this.ready;
+    if (!this.db) throw new Error('Offline storage unavailable');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['keys'], 'readwrite');
+      const store = transaction.objectStore('keys');
+      const request = store.put({ name: 'device', key });
+      
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Export the offline library as a single archive, streamed into a file the user picks so only
+   * one track is in memory at a time. Browsers without showSaveFilePicker download it instead,
+   * which has to hold the whole archive. Resolves null if the user cancels the file picker.
+   * The audio is written decrypted, since the vault key can't leave this device.
+   */
+  async exportLibrary(): Promise<LibraryExportResult | null> {
+    // Ask for the file first, while the click that started the export still counts as a user gesture
+    const sink = await OfflineManager.pickExportFile();
+    if (sink === null) return null;
+    
+    await this.ready;
+    
+    const tracks = (await this.getDownloadedTracks()).filter(track => !this.isTrackExpired(track));
+    const trackIds = new Set(tracks.map(track => track.id));
+    const [songs, playlists] = await Promise.all([db.songs.getAll(), db.playlists.getAll()]);
+    const offlineSongs = songs.filter(song => trackIds.has(song.id));
+    const offlinePlaylists = playlists.filter(playlist => playlist.songs.some(song => trackIds.has(song.id)));
+    
+    const coverUrls = [
+      ...offlineSongs.map(song => song.coverArt),
+      ...offlinePlaylists.map(playlist => playlist.coverArt)
+    ].filter((url): url is string => !!url);
+    
+    let size = 0;
+    const stream = OfflineBundle.write({
+      tracks,
+      songs: offlineSongs,
+      playlists: offlinePlaylists,
+      coverUrls,
+      readAudio: trackId => this.getOfflineAudioData(trackId),
+      readCover: url => this.readCover(url)
+    }).pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        size += chunk.length;
+        controller.enqueue(chunk);
+      }
+    }));
+    
+    if (sink) {
+      await stream.pipeTo(sink);
+    } else {
+      const archive = await new Response(stream, { headers: { 'Content-Type': BUNDLE_MIME_TYPE } }).blob();
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = EXPORT_FILE_NAME;
+      link.click();
+      URL.revokeObjectURL(url);
+    }
+    
+    const result: LibraryExportResult = { trackCount: tracks.length, size };
+    this.dispatchEvent(new CustomEvent('libraryExported', {
+      detail: result
+    }));
+    
+    return result;
+  }
+
+  /**
+   * Writable file for an export; undefined where the browser has no file picker, null if the user cancelled
+   */
+  private static async pickExportFile(): Promise<WritableStream<Uint8Array> | null | undefined> {
+    const picker = (window as Window & {
+      showSaveFilePicker?: (options: {
+        suggestedName: string;
+        types: Array<{ description: string; accept: Record<string, string[]> }>;
+      }) => Promise<{ createWritable(): Promise<WritableStream<Uint8Array>> }>;
+    }).showSaveFilePicker;
+    if (!picker) return undefined;
+    
+    try {
+      const handle = await picker({
+        suggestedName: EXPORT_FILE_NAME,
+        types: [{ description: 'Meow-Play offline library', accept: { [BUNDLE_MIME_TYPE]: [EXPORT_FILE_EXTENSION] } }]
+      });
+      return await handle.createWritable();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Import an exported archive. Songs already offline by ID or audio hash are skipped, and
+   * tracks that would exceed the storage budget are left out rather than evicting anything.
+   */
+  async importLibrary(file: BundleFile): Promise<LibraryImportResult> {
+    await this.ready;
+    
+    const archive = await OfflineBundle.open(file);
+    const offlineTracks = await this.getAllOfflineTracks();
+    await this.updateStorageQuota();
+    
+    const offlineBytes = offlineTracks
+      .filter(track => track.downloadStatus === 'downloaded')
+      .reduce((sum, track) => sum + track.fileSize, 0);
+    const available = this.storageQuota.total > 0 ? this.storageQuota.available : Infinity;
+    const budget = Math.max(0, Math.min(this.cachePolicy.maxCacheSize - offlineBytes, available));
+    const plan = OfflineBundle.planImport(archive.manifest, offlineTracks, budget);
+    
+    const result: LibraryImportResult = {
+      imported: [],
+      duplicates: plan.duplicates,
+      overQuota: plan.overQuota,
+      corrupted: [],
+      songsImported: 0,
+      playlistsImported: 0,
+      coversImported: 0
+    };
+    
+    for (const item of plan.import) {
+      let data: Uint8Array;
+      try {
+        data = await archive.readEntry(item.audio);
+      } catch (error) {
+        if (!(error instanceof IntegrityError)) throw error;
+        result.corrupted.push(item);
+        continue;
+      }
+      
+      // Any partial download of the same song is superseded
+      this.downloadQueue.delete(item.track.id);
+      this.activeDownloads.get(item.track.id)?.abort();
+      await this.clearChunks(item.track.id);
+      await this.saveAudioData(item.track.id, data);
+      
+      const track: OfflineTrack = {
+        ...item.track,
+        downloadStatus: 'downloaded',
+        downloadProgress: 100,
+        downloadedAt: new Date(),
+        fileSize: data.byteLength,
+        checksum: item.audio.sha256
+      };
+      // Resume state belonged to the exporting device, and its sync rules do not exist here
+      delete track.bytesDownloaded;
+      delete track.totalBytes;
+      delete track.etag;
+      delete track.syncRuleId;
+      delete track.expiresAt;
+      if (this.cachePolicy.maxTrackAge > 0) {
+        const expireDate = new Date();
+        expireDate.setDate(expireDate.getDate() + this.cachePolicy.maxTrackAge);
+        track.expiresAt = expireDate;
+      }
+      
+      await this.saveOfflineTrack(track);
+      result.imported.push(track);
+      
+      // The library lists db.songs, so a track only shows up with an entry there; local entries win
+      if (!(await db.songs.get(track.id))) {
+        await db.songs.put(item.song ?? OfflineManager.songFromTrack(track));
+        result.songsImported++;
+      }
+      
+      this.dispatchEvent(new CustomEvent('trackImported', {
+        detail: { track }
+      }));
+    }
+    
+    // Local copies of a playlist win over archived ones
+    for (const playlist of archive.manifest.playlists) {
+      if (await db.playlists.get(playlist.id)) continue;
+      await db.playlists.put(playlist);
+      result.playlistsImported++;
+    }
+    
+    if ('caches' in window) {
+      const cache = await caches.open(COVER_CACHE);
+      for (const cover of archive.manifest.covers) {
+        if (await cache.match(cover.url)) continue;
+        try {
+          const image = await archive.readEntry(cover.image);
+          await cache.put(cover.url, new Response(image, { headers: { 'Content-Type': cover.type } }));
+          result.coversImported++;
+        } catch (error) {
+          console.warn('Skipping archived cover art:', cover.url, error);
+        }
+      }
+    }
+    
+    await this.updateStorageQuota();
+    this.dispatchEvent(new CustomEvent('libraryImported', {
+      detail: { result }
+    }));
+    
+    return result;
+  }
+
+  /**
+   * Library entry for a track from an archive that did not carry one
+   */
+  private static songFromTrack(track: OfflineTrack): Song {
+    return {
+      id: track.id,
+      title: track.title,
+      artist: track.artist,
+      ...(track.album ? { album: track.album } : {}),
+      ...(track.trackNumber !== undefined ? { trackNumber: track.trackNumber } : {}),
+      duration: track.duration,
+      filePath: track.url,
+      uploadedBy: 'external',
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Cover art for an export, from the image cache or the network
+   */
+  private async readCover(url: string): Promise<{ type: string; data: Uint8Array } | null> {
+    try {
+      const cached = 'caches' in window ? await caches.match(url, { cacheName: COVER_CACHE }) : undefined;
+      const response = cached ?? await fetch(url);
+      if (!response.ok) return null;
+      
+      return {
+        type: response.headers.get('Content-Type') ?? 'application/octet-stream',
+        data: new Uint8Array(await response.arrayBuffer())
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Rotate the device key and delete every offline track, partial download and metadata blob
+   */
+  async wipeOfflineData(): Promise<void> {
+    this.activeDownloads.forEach(controller => {
+      controller.abort();
+    });
+    this.activeDownloads.clear();
+    this.downloadQueue.clear();
+    this.retryAfter.clear();
+    this.networkRetries.clear();
+    
+    // Rotate first so anything the wipe misses can no longer be decrypted
+    await this.vault.rotateKey();
+    
+    await this.ready;
+    if (this.db) {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = this.db!.transaction(['tracks', 'audioData', 'chunks', 'metadata'], 'readwrite');
+        ['tracks', 'audioData', 'chunks', 'metadata'].forEach(name => transaction.objectStore(name).clear());
+        
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    }
+    
+    await this.updateStorageQuota();
+    this.dispatchEvent(new CustomEvent('offlineDataWiped'));
+  }
+
+  /**
+   * Key range covering every chunk of a track
+   */
+  private chunkRange(trackId: string): IDBKeyRange {
+    return IDBKeyRange.bound([trackId, 0], [trackId, Infinity]);
+  }
+
   /**
    * Get all downloaded tracks
    */
@@ -552,8 +1275,19 @@ export class OfflineManager extends EventTarget {
   async deleteOfflineTrack(trackId: string): Promise<void> {
     if (!this.db) return;
     
+    // Cancel active download if exists
+    const controller = this.activeDownloads.get(trackId);
+    if (controller) {
+      controller.abort();
+      this.activeDownloads.delete(trackId);
+    }
+    
+    this.downloadQueue.delete(trackId);
+    this.retryAfter.delete(trackId);
+    this.networkRetries.delete(trackId);
+    
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['tracks', 'audioData'], 'readwrite');
+      const transaction = this.db!.transaction(['tracks', 'audioData', 'chunks'], 'readwrite');
       
       // Delete track metadata
       const trackStore = transaction.objectStore('tracks');
@@ -563,6 +1297,10 @@ export class OfflineManager extends EventTarget {
       const audioStore = transaction.objectStore('audioData');
       audioStore.delete(trackId);
       
+      // Delete partial download chunks
+      const chunkStore = transaction.objectStore('chunks');
+      chunkStore.delete(this.chunkRange(trackId));
+      
       transaction.oncomplete = () => {
         this.updateStorageQuota();
         this.dispatchEvent(new CustomEvent('trackDeleted', {
@@ -573,15 +1311,67 @@ export class OfflineManager extends EventTarget {
       
       transaction.onerror = () => reject(transaction.error);
     });
+  }
+
+  /**
+   * Preview what syncing the offline rules would download and evict, without changing anything
+   */
+  async previewSync(rules: OfflineRule[], library?: OfflineLibrary): Promise<SyncPlan> {
+    const offlineTracks = await this.getAllOfflineTracks();
+    await this.updateStorageQuota();
     
-    // Cancel active download if exists
-    const controller = this.activeDownloads.get(trackId);
-    if (controller) {
-      controller.abort();
-      this.activeDownloads.delete(trackId);
+    const plan = OfflineSync.plan(
+      rules,
+      library ?? await OfflineSync.loadLibrary(),
+      offlineTracks,
+      this.getSyncBudget(offlineTracks),
+      track => this.estimateTrackSize(track, this.downloadOptions.quality)
+    );
+    
+    // Least valuable first, so an interrupted sync frees the right space
+    plan.evict.sort((a, b) => this.getDeletionPriority(b) - this.getDeletionPriority(a));
+    
+    this.dispatchEvent(new CustomEvent('syncPreview', {
+      detail: { plan }
+    }));
+    
+    return plan;
+  }
+
+  /**
+   * Reconcile offline storage with the rules: evict what no rule keeps, then queue missing tracks
+   */
+  async syncOffline(rules: OfflineRule[], library?: OfflineLibrary): Promise<SyncResult> {
+    const plan = await this.previewSync(rules, library);
+    
+    for (const track of plan.evict) {
+      await this.deleteOfflineTrack(track.id);
     }
     
-    this.downloadQueue.delete(trackId);
+    const downloadsDeferred = this.cachePolicy.wifiOnlyDownload && !this.isOnWiFi();
+    if (!downloadsDeferred) {
+      for (const item of plan.download) {
+        await this.downloadTrack(item.track, this.downloadOptions.quality, item.ruleId ?? undefined);
+      }
+    }
+    
+    const result: SyncResult = { ...plan, downloadsDeferred };
+    
+    this.dispatchEvent(new CustomEvent('syncComplete', {
+      detail: { result }
+    }));
+    
+    return result;
+  }
+
+  /**
+   * Bytes offline tracks may use: the cache size limit, capped by what the browser grants
+   */
+  private getSyncBudget(offlineTracks: OfflineTrack[]): number {
+    if (this.storageQuota.total === 0) return this.cachePolicy.maxCacheSize;
+    
+    const offlineBytes = offlineTracks.reduce((sum, track) => sum + track.fileSize, 0);
+    return Math.min(this.cachePolicy.maxCacheSize, offlineBytes + this.storageQuota.available);
   }
 
   /**
@@ -774,21 +1564,36 @@ export class OfflineManager extends EventTarget {
   }
 
   /**
-   * Pause all downloads
+   * Pause all downloads, keeping their completed chunks
    */
   pauseAllDownloads(): void {
+    this.downloadQueue.forEach(track => {
+      if (track.downloadStatus === 'pending' || track.downloadStatus === 'downloading') {
+        track.downloadStatus = 'paused';
+        this.saveOfflineTrack(track);
+      }
+    });
+    
     this.activeDownloads.forEach(controller => {
       controller.abort();
     });
     this.activeDownloads.clear();
     
-    this.dispatchEvent(new CustomEvent('downloadssPaused'));
+    this.dispatchEvent(new CustomEvent('downloadsPaused'));
   }
 
   /**
-   * Resume downloads
+   * Resume downloads from the last completed byte
    */
   resumeDownloads(): void {
+    this.downloadQueue.forEach(track => {
+      if (track.downloadStatus === 'paused') {
+        track.downloadStatus = 'pending';
+        this.saveOfflineTrack(track);
+      }
+    });
+    this.retryAfter.clear();
+    
     this.processDownloadQueue();
     this.dispatchEvent(new CustomEvent('downloadsResumed'));
   }
@@ -806,6 +1611,7 @@ export class OfflineManager extends EventTarget {
   getDownloadQueueStatus(): {
     pending: number;
     downloading: number;
+    paused: number;
     completed: number;
     failed: number;
   } {
@@ -814,6 +1620,7 @@ export class OfflineManager extends EventTarget {
     return {
       pending: tracks.filter(t => t.downloadStatus === 'pending').length,
       downloading: tracks.filter(t => t.downloadStatus === 'downloading').length,
+      paused: tracks.filter(t => t.downloadStatus === 'paused').length,
       completed: tracks.filter(t => t.downloadStatus === 'downloaded').length,
       failed: tracks.filter(t => t.downloadStatus === 'failed').length
     };
@@ -848,6 +1655,12 @@ export class OfflineManager extends EventTarget {
     this.activeDownloads.clear();
     this.downloadQueue.clear();
     
+    window.removeEventListener('online', this.handleOnline);
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    
     // Close database
     if (this.db) {
       this.db.close();
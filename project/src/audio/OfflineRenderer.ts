@@ -0,0 +1,232 @@
+/**
+ * Offline Renderer for Meow-Play
+ * Features: Faster-than-realtime render through the playback graph (time-stretch, EQ, effects, normalization), A-B region trim, progress, WAV 16/24-bit export
+ */
+
+import { ParametricEqualizer, EqualizerPreset } from './ParametricEqualizer';
+import { EffectsChain, IMPULSE_RESPONSES } from './AudioEffects';
+import { LoudnessNormalizer } from './LoudnessNormalizer';
+import { createPitchShifterNode, getPitchRatio } from './PitchShifter';
+import { WsolaPitchShifter } from './worklets/WsolaPitchShifter';
+import type { AudioEffect, LoopRegion } from './AudioEngine';
+
+export type WavBitDepth = 16 | 24;
+
+export interface OfflineRenderSettings {
+  playbackRate: number;
+  pitchSemitones: number;
+  preservePitch: boolean;
+  equalizer: EqualizerPreset;
+  equalizerEnabled: boolean;
+  effects: AudioEffect[];
+  normalizationGain: number; // dB
+}
+
+export interface OfflineRenderOptions {
+  region?: LoopRegion | null; // seconds into the source; the whole track when omitted
+  sampleRate?: number; // defaults to the source's
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+export const WAV_MIME_TYPE = 'audio/wav';
+
+const OUTPUT_CHANNELS = 2; // the pitch shifter and the stereo effects always produce two channels
+const PROGRESS_STEPS = 100;
+
+export class OfflineRenderer {
+  /**
+   * Render a decoded track through the same nodes AudioEngine plays it through.
+   * User volume and mute are left out; normalization gain is applied, so loud tracks may clip in 16/24-bit.
+   */
+  static async render(source: AudioBuffer, settings: OfflineRenderSettings, options: OfflineRenderOptions = {}): Promise<AudioBuffer> {
+    const sampleRate = options.sampleRate ?? source.sampleRate;
+    const { start, end } = OfflineRenderer.resolveRegion(source.duration, options.region);
+    const rate = settings.playbackRate;
+    const ratio = getPitchRatio(rate, settings.pitchSemitones, settings.preservePitch);
+    const shifted = Math.abs(ratio - 1) > 1e-4;
+
+    // Audio the shifter holds back is rendered past the end and cut from the start
+    const latency = shifted ? new WsolaPitchShifter(OUTPUT_CHANNELS).getLatency(ratio) : 0;
+    // A reverb keeps ringing after the last sample of a full-length export
+    const tail = end >= source.duration ? OfflineRenderer.getEffectsTail(settings.effects) : 0;
+    const length = Math.ceil((end - start) / rate * sampleRate + tail * sampleRate) + latency;
+
+    const context = new OfflineAudioContext(OUTPUT_CHANNELS, length, sampleRate);
+
+    const equalizer = new ParametricEqualizer(context, settings.equalizer);
+    equalizer.setEnabled(settings.equalizerEnabled);
+    const effects = new EffectsChain(context, settings.effects);
+    const output = context.createGain();
+    output.gain.value = LoudnessNormalizer.toLinear(settings.normalizationGain);
+
+    const sourceNode = context.createBufferSource();
+    sourceNode.buffer = source;
+    sourceNode.playbackRate.value = rate;
+
+    if (shifted) {
+      const shifter = await createPitchShifterNode(context);
+      if (!shifter) {
+        throw new Error('Tempo and pitch changes cannot be rendered without AudioWorklet support');
+      }
+      shifter.parameters.get('pitchRatio')?.setValueAtTime(ratio, 0);
+      sourceNode.connect(shifter);
+      shifter.connect(equalizer.input);
+    } else {
+      sourceNode.connect(equalizer.input);
+    }
+
+    equalizer.output.connect(effects.input);
+    effects.output.connect(output);
+    output.connect(context.destination);
+
+    sourceNode.start(0, start, end - start);
+
+    const rendered = await OfflineRenderer.startRendering(context, options);
+    return latency > 0 ? OfflineRenderer.trimStart(rendered, latency) : rendered;
+  }
+
+  /**
+   * Encode PCM as a RIFF/WAVE file with integer samples
+   */
+  static encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16): ArrayBuffer {
+    const channelCount = channels.length;
+    const frames = channels[0]?.length ?? 0;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channelCount * bytesPerSample;
+    const dataSize = frames * blockAlign;
+
+    const data = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(data);
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channelCount, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const max = Math.pow(2, bitDepth - 1) - 1;
+    let offset = 44;
+    for (let frame = 0; frame < frames; frame++) {
+      for (let channel = 0; channel < channelCount; channel++) {
+        const sample = Math.max(-1, Math.min(1, channels[channel]?.[frame] ?? 0));
+        const value = Math.round(sample * max);
+
+        if (bitDepth === 16) {
+          view.setInt16(offset, value, true);
+        } else {
+          // 24-bit little endian: low 16 bits then the signed high byte
+          view.setUint16(offset, value & 0xffff, true);
+          view.setInt8(offset + 2, value >> 16);
+        }
+        offset += bytesPerSample;
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Encode a rendered buffer as a WAV blob
+   */
+  static toWavBlob(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    return new Blob([OfflineRenderer.encodeWav(channels, buffer.sampleRate, bitDepth)], { type: WAV_MIME_TYPE });
+  }
+
+  /**
+   * Clamp a region to the track; an empty or missing region means the whole track
+   */
+  static resolveRegion(duration: number, region?: LoopRegion | null): { start: number; end: number } {
+    if (!region) return { start: 0, end: duration };
+
+    const start = Math.max(0, Math.min(duration, region.start));
+    const end = Math.max(start, Math.min(duration, region.end));
+    if (end - start <= 0) {
+      throw new Error('The export region is empty');
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Seconds an enabled reverb rings on after its input stops
+   */
+  private static getEffectsTail(effects: AudioEffect[]): number {
+    const reverb = effects.find(effect => effect.id === 'reverb' && effect.enabled);
+    if (!reverb) return 0;
+
+    const spec = IMPULSE_RESPONSES[Math.round(reverb.parameters['impulse'] ?? 0)];
+    return spec ? spec.preDelay + spec.duration : 0;
+  }
+
+  /**
+   * Render, pausing at regular points to report progress and honour cancellation
+   */
+  private static startRendering(context: OfflineAudioContext, options: OfflineRenderOptions): Promise<AudioBuffer> {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Export cancelled', 'AbortError'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const duration = context.length / context.sampleRate;
+      const quantum = 128 / context.sampleRate;
+      const step = Math.max(quantum, Math.ceil(duration / PROGRESS_STEPS / quantum) * quantum);
+      let cancelled = false;
+
+      if (onProgress || signal) {
+        for (let time = step; time < duration; time += step) {
+          context.suspend(time).then(() => {
+            // A context left suspended is simply dropped; its rendering promise never settles
+            if (cancelled) return;
+            if (signal?.aborted) {
+              cancelled = true;
+              reject(new DOMException('Export cancelled', 'AbortError'));
+              return;
+            }
+            onProgress?.(time / duration);
+            void context.resume();
+          }).catch(() => {
+            // Suspend points past the end of a short render are rejected; nothing to report
+          });
+        }
+      }
+
+      context.startRendering().then(buffer => {
+        if (cancelled) return;
+        onProgress?.(1);
+        resolve(buffer);
+      }, reject);
+    });
+  }
+
+  /**
+   * Drop the first samples of every channel
+   */
+  private static trimStart(buffer: AudioBuffer, samples: number): AudioBuffer {
+    const length = Math.max(1, buffer.length - samples);
+    const trimmed = new AudioBuffer({
+      numberOfChannels: buffer.numberOfChannels,
+      length,
+      sampleRate: buffer.sampleRate
+    });
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      trimmed.copyToChannel(buffer.getChannelData(channel).subarray(samples, samples + length), channel);
+    }
+
+    return trimmed;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Rule-based Offline Sync for Meow-Play
+ * Features: prioritized keep rules (liked, playlist, most played, recently played), storage budget, sync preview
+ */
+
+import { AudioEngine, AudioTrack } from './AudioEngine';
+import type { OfflineTrack } from './OfflineManager';
+import { Song, Playlist, RecentPlay } from '../types';
+import { db } from '../utils/indexedDB';
+
+export type OfflineRuleSource =
+  | { type: 'liked' }
+  | { type: 'playlist'; playlistId: string }
+  | { type: 'mostPlayed'; limit: number }
+  | { type: 'recentlyPlayed'; days: number };
+
+export interface OfflineRule {
+  id: string;
+  name: string;
+  priority: number; // lower numbers claim the storage budget first
+  enabled: boolean;
+  source: OfflineRuleSource;
+}
+
+export interface OfflineLibrary {
+  songs: Song[];
+  playlists: Playlist[];
+  recentPlays: RecentPlay[];
+}
+
+export interface SyncItem {
+  track: AudioTrack;
+  ruleId: string | null; // null for manual downloads, which sync never evicts
+  size: number; // bytes, estimated for tracks not downloaded yet
+}
+
+export interface SyncPlan {
+  keep: SyncItem[]; // already offline and still wanted
+  download: SyncItem[]; // wanted and missing, in priority order
+  evict: OfflineTrack[]; // downloaded by sync but no longer wanted or over budget
+  overBudget: SyncItem[]; // wanted by a rule but beyond the storage budget
+  budget: number; // bytes
+  usedAfterSync: number; // bytes
+  bytesToDownload: number;
+  bytesToFree: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class OfflineSync {
+  /**
+   * Work out which tracks the rules keep within the budget and what has to change to get there
+   */
+  static plan(
+    rules: OfflineRule[],
+    library: OfflineLibrary,
+    offlineTracks: OfflineTrack[],
+    budget: number,
+    estimateSize: (track: AudioTrack) => number,
+    now: number = Date.now()
+  ): SyncPlan {
+    const plan: SyncPlan = {
+      keep: [],
+      download: [],
+      evict: [],
+      overBudget: [],
+      budget,
+      usedAfterSync: 0,
+      bytesToDownload: 0,
+      bytesToFree: 0
+    };
+
+    // Failed downloads count as missing
+    const present = new Map(offlineTracks
+      .filter(track => track.downloadStatus !== 'failed')
+      .map(track => [track.id, track]));
+    const claimed = new Set<string>();
+
+    // Manual downloads are pinned and use the budget first
+    present.forEach(track => {
+      if (track.syncRuleId) return;
+      claimed.add(track.id);
+      plan.keep.push({ track, ruleId: null, size: track.fileSize });
+      plan.usedAfterSync += track.fileSize;
+    });
+
+    [...rules]
+      .filter(rule => rule.enabled)
+      .sort((a, b) => a.priority - b.priority)
+      .forEach(rule => {
+        this.resolveRule(rule, library, now).forEach(song => {
+          if (claimed.has(song.id)) return;
+          claimed.add(song.id);
+
+          const existing = present.get(song.id);
+          const track = existing ?? AudioEngine.trackFromSong(song);
+          const item: SyncItem = { track, ruleId: rule.id, size: existing ? existing.fileSize : estimateSize(track) };
+
+          if (plan.usedAfterSync + item.size > budget) {
+            plan.overBudget.push(item);
+            return;
+          }
+
+          plan.usedAfterSync += item.size;
+          if (existing) {
+            plan.keep.push(item);
+          } else {
+            plan.download.push(item);
+            plan.bytesToDownload += item.size;
+          }
+        });
+      });
+
+    const kept = new Set(plan.keep.map(item => item.track.id));
+    plan.evict = offlineTracks.filter(track => track.syncRuleId && !kept.has(track.id));
+    plan.bytesToFree = plan.evict.reduce((sum, track) => sum + track.fileSize, 0);
+
+    return plan;
+  }
+
+  /**
+   * Songs a rule asks to keep, most important first
+   */
+  static resolveRule(rule: OfflineRule, library: OfflineLibrary, now: number = Date.now()): Song[] {
+    const byPlays = (a: Song, b: Song) => (b.playCount ?? 0) - (a.playCount ?? 0);
+    const source = rule.source;
+
+    switch (source.type) {
+      case 'liked':
+        return library.songs.filter(song => song.liked).sort(byPlays);
+
+      case 'playlist': {
+        const playlist = library.playlists.find(p => p.id === source.playlistId);
+        const songs = new Map(library.songs.map(song => [song.id, song]));
+        return playlist ? playlist.songs.map(song => songs.get(song.id) ?? song) : [];
+      }
+
+      case 'mostPlayed':
+        return library.songs.filter(song => (song.playCount ?? 0) > 0).sort(byPlays).slice(0, source.limit);
+
+      case 'recentlyPlayed': {
+        // Each play is its own entry; the latest one orders the song
+        const songs = new Map(library.songs.map(song => [song.id, song]));
+        const recent = new Map<string, Song>();
+        library.recentPlays
+          .map(play => ({ song: play.song, playedAt: new Date(play.playedAt).getTime() }))
+          .filter(play => play.song && play.playedAt >= now - source.days * DAY_MS)
+          .sort((a, b) => b.playedAt - a.playedAt)
+          .forEach(play => {
+            if (!recent.has(play.song.id)) recent.set(play.song.id, songs.get(play.song.id) ?? play.song);
+          });
+        return [...recent.values()];
+      }
+    }
+  }
+
+  /**
+   * Read the songs, playlists and play history the rules draw from
+   */
+  static async loadLibrary(): Promise<OfflineLibrary> {
+    const [songs, playlists, recentPlays] = await Promise.all([
+      db.songs.getAll(),
+      db.playlists.getAll(),
+      db.recentlyPlayed.getAll()
+    ]);
+    return { songs, playlists, recentPlays };
+  }
+}
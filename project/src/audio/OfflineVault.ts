@@ -0,0 +1,160 @@
+/**
+ * Offline Vault for Meow-Play
+ * Features: AES-GCM encryption at rest with a non-extractable device key, record-by-record streaming
+ * decryption, key rotation, gzip compression for metadata blobs
+ */
+
+export interface VaultKey {
+  id: string;
+  key: CryptoKey; // non-extractable; IndexedDB stores it without exposing the raw bytes
+  createdAt: number;
+}
+
+export interface VaultKeyStore {
+  load(): Promise<VaultKey | null>;
+  save(key: VaultKey): Promise<void>;
+}
+
+export interface SealedData {
+  keyId: string; // key the records were sealed with
+  recordSize: number; // plaintext bytes per record
+  byteLength: number; // plaintext bytes in total
+  records: ArrayBuffer[]; // 12-byte IV followed by ciphertext and tag
+}
+
+const IV_LENGTH = 12;
+const DEFAULT_RECORD_SIZE = 256 * 1024;
+
+const encoder = new TextEncoder();
+
+export class OfflineVault {
+  private keyStore: VaultKeyStore;
+  private recordSize: number;
+  private currentKey: Promise<VaultKey> | null = null;
+
+  constructor(keyStore: VaultKeyStore, recordSize: number = DEFAULT_RECORD_SIZE) {
+    this.keyStore = keyStore;
+    this.recordSize = recordSize;
+  }
+
+  /**
+   * Encrypt data in fixed-size records bound to the owner ID, so records cannot be swapped or truncated
+   */
+  async seal(ownerId: string, data: Uint8Array): Promise<SealedData> {
+    const { id, key } = await this.getKey();
+    const count = Math.max(1, Math.ceil(data.length / this.recordSize));
+    const records: ArrayBuffer[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+      const plaintext = data.subarray(index * this.recordSize, (index + 1) * this.recordSize);
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: this.recordData(ownerId, index, index === count - 1) },
+        key,
+        plaintext
+      );
+
+      const record = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+      record.set(iv);
+      record.set(new Uint8Array(ciphertext), IV_LENGTH);
+      records.push(record.buffer);
+    }
+
+    return { keyId: id, recordSize: this.recordSize, byteLength: data.length, records };
+  }
+
+  /**
+   * Decrypt sealed data one record per pull; the stream errors if any record fails authentication
+   */
+  open(ownerId: string, sealed: SealedData): ReadableStream<Uint8Array> {
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        const { id, key } = await this.getKey();
+        if (sealed.keyId !== id) {
+          throw new Error('Sealed with a key this device no longer has');
+        }
+
+        const record = new Uint8Array(sealed.records[index]!);
+        const plaintext = await crypto.subtle.decrypt(
+          {
+            name: 'AES-GCM',
+            iv: record.subarray(0, IV_LENGTH),
+            additionalData: this.recordData(ownerId, index, index === sealed.records.length - 1)
+          },
+          key,
+          record.subarray(IV_LENGTH)
+        );
+
+        controller.enqueue(new Uint8Array(plaintext));
+        if (++index === sealed.records.length) controller.close();
+      }
+    });
+  }
+
+  /**
+   * Decrypt sealed data into a single buffer
+   */
+  async openAll(ownerId: string, sealed: SealedData): Promise<Uint8Array> {
+    return new Uint8Array(await new Response(this.open(ownerId, sealed)).arrayBuffer());
+  }
+
+  /**
+   * Replace the device key; everything sealed with the old key becomes unreadable
+   */
+  async rotateKey(): Promise<void> {
+    const pending = this.createKey();
+    this.currentKey = pending;
+    try {
+      await pending;
+    } catch (error) {
+      // Keep using the stored key rather than the failed rotation
+      if (this.currentKey === pending) this.currentKey = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Gzip a metadata blob
+   */
+  static async compress(data: Uint8Array): Promise<Uint8Array> {
+    return this.pipe(data, new CompressionStream('gzip'));
+  }
+
+  /**
+   * Inflate a gzipped metadata blob
+   */
+  static async decompress(data: Uint8Array): Promise<Uint8Array> {
+    return this.pipe(data, new DecompressionStream('gzip'));
+  }
+
+  private static async pipe(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const stream = new Response(data).body!.pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  private getKey(): Promise<VaultKey> {
+    if (!this.currentKey) {
+      const pending = this.keyStore.load().then(key => key ?? this.createKey());
+      // Let a failed load be retried on the next call
+      pending.catch(() => {
+        if (this.currentKey === pending) this.currentKey = null;
+      });
+      this.currentKey = pending;
+    }
+    return this.currentKey;
+  }
+
+  private async createKey(): Promise<VaultKey> {
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const vaultKey: VaultKey = { id: crypto.randomUUID(), key, createdAt: Date.now() };
+    await this.keyStore.save(vaultKey);
+    return vaultKey;
+  }
+
+  // Additional authenticated data tying a record to its owner and position
+  private recordData(ownerId: string, index: number, last: boolean): Uint8Array {
+    return encoder.encode(`${ownerId}:${index}:${last ? 'last' : 'more'}`);
+  }
+}
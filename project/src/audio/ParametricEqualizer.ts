@@ -0,0 +1,444 @@
+/**
+ * Parametric Equalizer for Meow-Play
+ * Features: Variable band count, per-band filter type/Q/frequency, preamp,
+ * Equalizer APO / AutoEQ ParametricEQ.txt and JSON presets, combined frequency response
+ */
+
+export type EqualizerFilterType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass' | 'notch';
+
+export interface EqualizerBand {
+  frequency: number;
+  gain: number; // dB, ignored by pass and notch filters
+  q: number;
+  type: EqualizerFilterType;
+  enabled: boolean;
+}
+
+export interface EqualizerPreset {
+  name: string;
+  preamp: number; // dB
+  bands: EqualizerBand[];
+}
+
+export type EqualizerPresetFormat = 'text' | 'json';
+
+export const MAX_EQUALIZER_BANDS = 32;
+export const EQUALIZER_GAIN_RANGE = 30; // ±dB per band and for the preamp
+
+const eqBand = (frequency: number, type: EqualizerFilterType = 'peaking'): EqualizerBand => ({
+  frequency, gain: 0, q: 0.7, type, enabled: true
+});
+
+export const DEFAULT_EQUALIZER_BANDS: readonly EqualizerBand[] = [
+  eqBand(60, 'lowshelf'),    // Sub Bass
+  eqBand(120),               // Bass
+  eqBand(250),               // Low Mid
+  eqBand(500),               // Mid
+  eqBand(1000),              // Upper Mid
+  eqBand(2000),              // Presence
+  eqBand(4000),              // High Mid
+  eqBand(8000),              // Treble
+  eqBand(12000),             // High Treble
+  eqBand(16000, 'highshelf') // Air
+];
+
+const PRESET_FORMAT_VERSION = 1;
+const DEFAULT_Q = Math.SQRT1_2;
+const MIN_FREQUENCY = 10;
+
+const FILTER_TYPES: EqualizerFilterType[] = ['peaking', 'lowshelf', 'highshelf', 'lowpass', 'highpass', 'notch'];
+
+// Equalizer APO filter mnemonics
+const APO_TYPES: Record<string, EqualizerFilterType> = {
+  PK: 'peaking',
+  PEQ: 'peaking',
+  MODAL: 'peaking',
+  LS: 'lowshelf',
+  LSC: 'lowshelf',
+  HS: 'highshelf',
+  HSC: 'highshelf',
+  LP: 'lowpass',
+  LPQ: 'lowpass',
+  HP: 'highpass',
+  HPQ: 'highpass',
+  NO: 'notch'
+};
+
+const APO_EXPORT_TYPES: Record<EqualizerFilterType, string> = {
+  peaking: 'PK',
+  lowshelf: 'LSC',
+  highshelf: 'HSC',
+  lowpass: 'LPQ',
+  highpass: 'HPQ',
+  notch: 'NO'
+};
+
+export class ParametricEqualizer {
+  readonly input: GainNode; // preamp
+  readonly output: GainNode;
+
+  private filters: BiquadFilterNode[] = [];
+  private preset: EqualizerPreset;
+  private enabled: boolean = true;
+
+  constructor(private context: BaseAudioContext, preset: EqualizerPreset) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.preset = ParametricEqualizer.normalizePreset(preset);
+    this.rebuild();
+  }
+
+  /**
+   * Copy of the current preset
+   */
+  getPreset(): EqualizerPreset {
+    return {
+      ...this.preset,
+      bands: this.preset.bands.map(band => ({ ...band }))
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Bypass every filter and the preamp when disabled
+   */
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    this.rebuild();
+  }
+
+  /**
+   * Replace all bands and the preamp
+   */
+  setPreset(preset: EqualizerPreset): void {
+    this.preset = ParametricEqualizer.normalizePreset(preset);
+    this.rebuild();
+  }
+
+  setPreamp(preamp: number): void {
+    this.preset.preamp = ParametricEqualizer.clampGain(preamp);
+    this.applyPreamp();
+  }
+
+  /**
+   * Change one band; parameter changes are applied in place, toggling a band rewires the chain
+   */
+  updateBand(index: number, changes: Partial<EqualizerBand>): void {
+    const current = this.preset.bands[index];
+    if (!current) return;
+
+    const band = ParametricEqualizer.normalizeBand({ ...current, ...changes }, this.context.sampleRate);
+    this.preset.bands[index] = band;
+
+    if (band.enabled !== current.enabled) {
+      this.rebuild();
+      return;
+    }
+
+    const filter = this.getFilter(index);
+    if (filter) {
+      ParametricEqualizer.applyBand(filter, band, this.context.currentTime);
+    }
+  }
+
+  addBand(band: EqualizerBand): number {
+    if (this.preset.bands.length >= MAX_EQUALIZER_BANDS) {
+      throw new Error(`An equalizer preset can have at most ${MAX_EQUALIZER_BANDS} bands`);
+    }
+
+    this.preset.bands.push(ParametricEqualizer.normalizeBand(band, this.context.sampleRate));
+    this.rebuild();
+    return this.preset.bands.length - 1;
+  }
+
+  removeBand(index: number): void {
+    if (index < 0 || index >= this.preset.bands.length) return;
+    this.preset.bands.splice(index, 1);
+    this.rebuild();
+  }
+
+  /**
+   * Combined magnitude response in dB, preamp included
+   */
+  getFrequencyResponse(frequencies: Float32Array): Float32Array {
+    if (!this.enabled) return new Float32Array(frequencies.length);
+    return ParametricEqualizer.computeResponse(this.context, this.preset, frequencies);
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.filters.forEach(filter => filter.disconnect());
+    this.filters = [];
+  }
+
+  /**
+   * Rewire input -> enabled filters -> output
+   */
+  private rebuild(): void {
+    this.input.disconnect();
+    this.filters.forEach(filter => filter.disconnect());
+
+    this.filters = this.enabled
+      ? this.preset.bands
+        .filter(band => band.enabled)
+        .map(band => ParametricEqualizer.createFilter(this.context, band))
+      : [];
+
+    let previous: AudioNode = this.input;
+    this.filters.forEach(filter => {
+      previous.connect(filter);
+      previous = filter;
+    });
+    previous.connect(this.output);
+
+    this.applyPreamp();
+  }
+
+  private applyPreamp(): void {
+    const gain = this.enabled ? Math.pow(10, this.preset.preamp / 20) : 1;
+    this.input.gain.setValueAtTime(gain, this.context.currentTime);
+  }
+
+  /**
+   * Filter node for a band index; disabled bands have none
+   */
+  private getFilter(index: number): BiquadFilterNode | undefined {
+    if (!this.enabled) return undefined;
+    const position = this.preset.bands.slice(0, index).filter(band => band.enabled).length;
+    return this.filters[position];
+  }
+
+  /**
+   * Combined magnitude response in dB of a preset, using throwaway filters on any context
+   */
+  static computeResponse(context: BaseAudioContext, preset: EqualizerPreset, frequencies: Float32Array): Float32Array {
+    const response = new Float32Array(frequencies.length).fill(preset.preamp);
+    const magnitude = new Float32Array(frequencies.length);
+    const phase = new Float32Array(frequencies.length);
+
+    preset.bands
+      .filter(band => band.enabled)
+      .forEach(band => {
+        const filter = ParametricEqualizer.createFilter(context, band);
+        filter.getFrequencyResponse(frequencies, magnitude, phase);
+        for (let i = 0; i < response.length; i++) {
+          response[i] = (response[i] ?? 0) + 20 * Math.log10(Math.max(magnitude[i] ?? 1, 1e-6));
+        }
+      });
+
+    return response;
+  }
+
+  /**
+   * Logarithmically spaced frequencies for plotting
+   */
+  static logFrequencies(count: number, min: number = 20, max: number = 20000): Float32Array {
+    const ratio = Math.log(max / min);
+    return Float32Array.from({ length: count }, (_, i) => min * Math.exp(ratio * i / Math.max(1, count - 1)));
+  }
+
+  /**
+   * Parse an Equalizer APO / AutoEQ ParametricEQ.txt configuration
+   */
+  static parseText(text: string, name: string = 'Imported'): EqualizerPreset {
+    const preset: EqualizerPreset = { name, preamp: 0, bands: [] };
+
+    text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      if (!line) return;
+
+      const preamp = line.match(/^Preamp:\s*([+-]?\d+(?:\.\d+)?)\s*dB/i);
+      if (preamp) {
+        // Equalizer APO adds up repeated preamp lines
+        preset.preamp += parseFloat(preamp[1] ?? '0');
+        return;
+      }
+
+      const filter = line.match(/^Filter\s*\d*:\s*(ON|OFF)\s+([A-Za-z]+)(?:\s+\d+\s*dB)?\b(.*)$/i);
+      if (!filter) return;
+
+      const mnemonic = (filter[2] ?? '').toUpperCase();
+      const type = APO_TYPES[mnemonic];
+      if (!type) {
+        throw new Error(`Unsupported filter type "${mnemonic}" on line ${lineIndex + 1}`);
+      }
+
+      const parameters = filter[3] ?? '';
+      const frequency = ParametricEqualizer.readParameter(parameters, /Fc\s+([+-]?\d+(?:\.\d+)?)\s*Hz/i);
+      if (frequency === undefined) {
+        throw new Error(`Missing filter frequency on line ${lineIndex + 1}`);
+      }
+
+      const bandwidth = ParametricEqualizer.readParameter(parameters, /BW\s+Oct\s+(\d+(?:\.\d+)?)/i);
+      const q = ParametricEqualizer.readParameter(parameters, /\bQ\s+(\d+(?:\.\d+)?)/i)
+        ?? (bandwidth !== undefined ? ParametricEqualizer.bandwidthToQ(bandwidth) : DEFAULT_Q);
+
+      preset.bands.push({
+        type,
+        frequency,
+        gain: ParametricEqualizer.readParameter(parameters, /Gain\s+([+-]?\d+(?:\.\d+)?)\s*dB/i) ?? 0,
+        q,
+        enabled: (filter[1] ?? '').toUpperCase() === 'ON'
+      });
+    });
+
+    return ParametricEqualizer.normalizePreset(preset);
+  }
+
+  /**
+   * Serialize a preset as an Equalizer APO / AutoEQ ParametricEQ.txt configuration
+   */
+  static toText(preset: EqualizerPreset): string {
+    const lines = [`Preamp: ${ParametricEqualizer.formatNumber(preset.preamp, 1)} dB`];
+
+    preset.bands.forEach((band, index) => {
+      const parts = [
+        `Filter ${index + 1}: ${band.enabled ? 'ON' : 'OFF'} ${APO_EXPORT_TYPES[band.type]}`,
+        `Fc ${ParametricEqualizer.formatNumber(band.frequency, 1)} Hz`
+      ];
+      if (ParametricEqualizer.hasGain(band.type)) {
+        parts.push(`Gain ${ParametricEqualizer.formatNumber(band.gain, 1)} dB`);
+      }
+      parts.push(`Q ${ParametricEqualizer.formatNumber(band.q, 2)}`);
+      lines.push(parts.join(' '));
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Parse a preset exported by toJSON
+   */
+  static parseJSON(json: string): EqualizerPreset {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Invalid equalizer preset: not valid JSON');
+    }
+
+    if (!data || typeof data !== 'object' || !Array.isArray((data as { bands?: unknown }).bands)) {
+      throw new Error('Invalid equalizer preset: missing bands');
+    }
+
+    const raw = data as { name?: unknown; preamp?: unknown; bands: unknown[] };
+    const bands = raw.bands.map((value, index): EqualizerBand => {
+      const band = (value ?? {}) as Partial<Record<keyof EqualizerBand, unknown>>;
+      if (typeof band.type !== 'string' || !FILTER_TYPES.includes(band.type as EqualizerFilterType)) {
+        throw new Error(`Invalid equalizer preset: band ${index + 1} has an unknown type`);
+      }
+      if (typeof band.frequency !== 'number' || !isFinite(band.frequency)) {
+        throw new Error(`Invalid equalizer preset: band ${index + 1} has no frequency`);
+      }
+
+      return {
+        type: band.type as EqualizerFilterType,
+        frequency: band.frequency,
+        gain: typeof band.gain === 'number' && isFinite(band.gain) ? band.gain : 0,
+        q: typeof band.q === 'number' && band.q > 0 ? band.q : DEFAULT_Q,
+        enabled: band.enabled !== false
+      };
+    });
+
+    return ParametricEqualizer.normalizePreset({
+      name: typeof raw.name === 'string' && raw.name ? raw.name : 'Imported',
+      preamp: typeof raw.preamp === 'number' && isFinite(raw.preamp) ? raw.preamp : 0,
+      bands
+    });
+  }
+
+  static toJSON(preset: EqualizerPreset): string {
+    return JSON.stringify({ version: PRESET_FORMAT_VERSION, ...preset }, null, 2);
+  }
+
+  /**
+   * Parse either format, detected from the content
+   */
+  static parse(content: string, name?: string): EqualizerPreset {
+    return content.trimStart().startsWith('{')
+      ? ParametricEqualizer.parseJSON(content)
+      : ParametricEqualizer.parseText(content, name);
+  }
+
+  static createFilter(context: BaseAudioContext, band: EqualizerBand): BiquadFilterNode {
+    const filter = context.createBiquadFilter();
+    ParametricEqualizer.applyBand(filter, band, context.currentTime);
+    return filter;
+  }
+
+  /**
+   * Map a band onto BiquadFilterNode parameters.
+   * Web Audio reads Q in dB for low/high pass and ignores it for shelves (fixed slope S = 1, i.e. Q ≈ 0.71).
+   */
+  private static applyBand(filter: BiquadFilterNode, band: EqualizerBand, time: number): void {
+    filter.type = band.type;
+    filter.frequency.setValueAtTime(band.frequency, time);
+    filter.gain.setValueAtTime(ParametricEqualizer.hasGain(band.type) ? band.gain : 0, time);
+
+    const q = band.type === 'lowpass' || band.type === 'highpass'
+      ? 20 * Math.log10(band.q)
+      : band.q;
+    filter.Q.setValueAtTime(q, time);
+  }
+
+  private static normalizePreset(preset: EqualizerPreset): EqualizerPreset {
+    if (preset.bands.length > MAX_EQUALIZER_BANDS) {
+      throw new Error(`An equalizer preset can have at most ${MAX_EQUALIZER_BANDS} bands`);
+    }
+
+    return {
+      name: preset.name,
+      preamp: ParametricEqualizer.clampGain(preset.preamp),
+      bands: preset.bands.map(band => ParametricEqualizer.normalizeBand(band))
+    };
+  }
+
+  private static normalizeBand(band: EqualizerBand, sampleRate: number = 48000): EqualizerBand {
+    return {
+      type: band.type,
+      frequency: Math.max(MIN_FREQUENCY, Math.min(sampleRate / 2, band.frequency)),
+      gain: ParametricEqualizer.clampGain(band.gain),
+      q: Math.max(0.01, Math.min(100, band.q)),
+      enabled: band.enabled
+    };
+  }
+
+  private static clampGain(gain: number): number {
+    return Math.max(-EQUALIZER_GAIN_RANGE, Math.min(EQUALIZER_GAIN_RANGE, gain));
+  }
+
+  /**
+   * Whether the filter type uses the gain parameter
+   */
+  static hasGain(type: EqualizerFilterType): boolean {
+    return type === 'peaking' || type === 'lowshelf' || type === 'highshelf';
+  }
+
+  /**
+   * Whether the filter type uses Q; Web Audio shelves have a fixed slope
+   */
+  static hasQ(type: EqualizerFilterType): boolean {
+    return type !== 'lowshelf' && type !== 'highshelf';
+  }
+
+  /**
+   * Bandwidth in octaves to Q
+   */
+  private static bandwidthToQ(octaves: number): number {
+    const ratio = Math.pow(2, octaves);
+    return Math.sqrt(ratio) / (ratio - 1);
+  }
+
+  private static readParameter(text: string, pattern: RegExp): number | undefined {
+    const match = text.match(pattern);
+    return match?.[1] !== undefined ? parseFloat(match[1]) : undefined;
+  }
+
+  private static formatNumber(value: number, digits: number): string {
+    return String(Number(value.toFixed(digits)));
+  }
+}
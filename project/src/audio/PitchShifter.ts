@@ -0,0 +1,53 @@
+/**
+ * Pitch Shifter for Meow-Play
+ * Features: Pitch-preserving tempo and semitone transpose through an AudioWorklet
+ */
+
+import pitchShifterWorkletUrl from './worklets/pitchShifterProcessor.ts?worker&url';
+import { PITCH_SHIFTER_PROCESSOR } from './worklets/WsolaPitchShifter';
+
+export {
+  MIN_TEMPO,
+  MAX_TEMPO,
+  MAX_PITCH_SEMITONES,
+  MIN_PITCH_RATIO,
+  MAX_PITCH_RATIO
+} from './worklets/WsolaPitchShifter';
+
+/**
+ * Resampling factor for the worklet: undo the pitch change caused by the playback rate
+ * (when preserving pitch) and apply the transpose on top
+ */
+export function getPitchRatio(tempo: number, semitones: number, preservePitch: boolean = true): number {
+  const transpose = Math.pow(2, semitones / 12);
+  return preservePitch ? transpose / tempo : transpose;
+}
+
+const workletModules = new WeakMap<BaseAudioContext, Promise<boolean>>();
+
+/**
+ * Load the worklet module once per context and create a stereo pitch shifter node.
+ * Resolves to null where AudioWorklet is unavailable.
+ */
+export async function createPitchShifterNode(context: BaseAudioContext): Promise<AudioWorkletNode | null> {
+  if (!context.audioWorklet || typeof AudioWorkletNode === 'undefined') return null;
+
+  let loaded = workletModules.get(context);
+  if (!loaded) {
+    loaded = context.audioWorklet.addModule(pitchShifterWorkletUrl)
+      .then(() => true)
+      .catch(error => {
+        console.warn('Failed to load pitch shifter worklet:', error);
+        return false;
+      });
+    workletModules.set(context, loaded);
+  }
+
+  if (!(await loaded)) return null;
+
+  return new AudioWorkletNode(context, PITCH_SHIFTER_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2]
+  });
+}
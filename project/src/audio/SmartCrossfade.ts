@@ -0,0 +1,306 @@
+/**
+ * Smart Crossfade for Meow-Play
+ * Features: Leading/trailing silence detection, beat grid estimation, beat-aligned transition planning, album sequence detection
+ */
+
+import type { AudioTrack } from './AudioEngine';
+
+export type TransitionCurve = 'equal-power' | 'logarithmic' | 'cut';
+
+export interface BeatGrid {
+  bpm: number;
+  offset: number; // seconds, time of one beat; the grid extends both ways
+}
+
+export interface TrackEdges {
+  duration: number;
+  audibleStart: number; // seconds, end of leading silence
+  audibleEnd: number; // seconds, start of trailing silence
+  fadesIn: boolean; // intro already ramps up
+  fadesOut: boolean; // outro already ramps down
+  introBeats: BeatGrid | null;
+  outroBeats: BeatGrid | null;
+}
+
+export interface CrossfadePlan {
+  startAt: number; // seconds into the outgoing track
+  duration: number; // seconds of overlap, 0 for a cut
+  incomingOffset: number; // seconds into the incoming track
+  curve: TransitionCurve;
+}
+
+export const SILENCE_THRESHOLD_DB = -50;
+
+const WINDOW_DURATION = 0.005; // seconds, analysis hop
+const BEAT_REGION = 30; // seconds of intro/outro searched for beats
+const FADE_REGION = 3; // seconds at the edge compared with the body
+const FADE_DROP_DB = 6;
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+const MIN_CONFIDENCE = 0.1;
+const TEMPO_TOLERANCE = 0.06; // relative BPM difference still mixed on the beat
+const MIN_FADE = 0.5; // seconds; shorter overlaps are cut instead
+
+export class SmartCrossfade {
+  /**
+   * Find silence and beats at both edges of decoded PCM.
+   * A known tempo (e.g. AudioFeatures.tempo) skips the BPM estimate; the phase is still measured.
+   */
+  static analyze(channels: Float32Array[], sampleRate: number, knownBpm?: number): TrackEdges {
+    const length = channels[0]?.length ?? 0;
+    const duration = length / sampleRate;
+    const windowSize = Math.max(1, Math.round(sampleRate * WINDOW_DURATION));
+    const hop = windowSize / sampleRate;
+    const windowCount = Math.ceil(length / windowSize);
+
+    // Peak and mean square per window, mixed over channels
+    const peaks = new Float32Array(windowCount);
+    const energy = new Float32Array(windowCount);
+    for (const samples of channels) {
+      for (let w = 0; w < windowCount; w++) {
+        const end = Math.min(length, (w + 1) * windowSize);
+        let peak = peaks[w] ?? 0;
+        let sum = 0;
+        for (let i = w * windowSize; i < end; i++) {
+          const x = samples[i] ?? 0;
+          const abs = Math.abs(x);
+          if (abs > peak) peak = abs;
+          sum += x * x;
+        }
+        peaks[w] = peak;
+        energy[w] = (energy[w] ?? 0) + sum / (windowSize * channels.length);
+      }
+    }
+
+    const threshold = Math.pow(10, SILENCE_THRESHOLD_DB / 20);
+    let first = 0;
+    while (first < windowCount && (peaks[first] ?? 0) < threshold) first++;
+    let last = windowCount - 1;
+    while (last >= first && (peaks[last] ?? 0) < threshold) last--;
+
+    // Nothing audible: treat the whole track as content
+    if (first >= windowCount) {
+      return {
+        duration,
+        audibleStart: 0,
+        audibleEnd: duration,
+        fadesIn: false,
+        fadesOut: false,
+        introBeats: null,
+        outroBeats: null
+      };
+    }
+
+    const regionWindows = Math.round(BEAT_REGION / hop);
+    const introEnd = Math.min(last + 1, first + regionWindows);
+    const outroStart = Math.max(first, last + 1 - regionWindows);
+
+    return {
+      duration,
+      audibleStart: first * hop,
+      audibleEnd: Math.min(duration, (last + 1) * hop),
+      fadesIn: SmartCrossfade.isFade(energy, first, last + 1, hop, true),
+      fadesOut: SmartCrossfade.isFade(energy, first, last + 1, hop, false),
+      introBeats: SmartCrossfade.estimateBeats(energy, first, introEnd, hop, knownBpm),
+      outroBeats: SmartCrossfade.estimateBeats(energy, outroStart, last + 1, hop, knownBpm)
+    };
+  }
+
+  /**
+   * Analyze a decoded AudioBuffer
+   */
+  static analyzeBuffer(buffer: AudioBuffer, knownBpm?: number): TrackEdges {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    return SmartCrossfade.analyze(channels, buffer.sampleRate, knownBpm);
+  }
+
+  /**
+   * Decide where the transition starts, how long it overlaps and which curve it uses
+   */
+  static planTransition(outgoing: TrackEdges, incoming: TrackEdges, maxDuration: number): CrossfadePlan {
+    const outEnd = outgoing.audibleEnd;
+    const inStart = incoming.audibleStart;
+    const outBeats = outgoing.outroBeats;
+    const inBeats = incoming.introBeats;
+    const beatMatched = !!outBeats && !!inBeats && SmartCrossfade.temposMatch(outBeats.bpm, inBeats.bpm);
+
+    // Never overlap more than half of either track's audible content
+    const limit = Math.min(
+      maxDuration,
+      (outEnd - outgoing.audibleStart) / 2,
+      (incoming.audibleEnd - inStart) / 2
+    );
+
+    let curve: TransitionCurve;
+    if (limit < MIN_FADE) {
+      curve = 'cut';
+    } else if (outgoing.fadesOut || incoming.fadesIn) {
+      curve = 'logarithmic';
+    } else if (outBeats && inBeats && !beatMatched) {
+      // Two steady, unrelated tempos clash audibly while overlapping
+      curve = 'cut';
+    } else {
+      curve = 'equal-power';
+    }
+
+    if (curve === 'cut') {
+      return { startAt: outEnd, duration: 0, incomingOffset: inStart, curve };
+    }
+
+    let duration = limit;
+    let startAt = outEnd - duration;
+
+    if (outBeats) {
+      const period = 60 / outBeats.bpm;
+      const beats = Math.floor(duration / period);
+      if (beats >= 1) duration = beats * period;
+
+      // Start on the nearest beat; spilling into the trailing silence is harmless
+      startAt = SmartCrossfade.nearestBeat(outBeats, outEnd - duration);
+      startAt = Math.min(startAt, outgoing.duration - duration);
+    }
+
+    let incomingOffset = inStart;
+    if (beatMatched && inBeats) {
+      // Start on the last beat before the audio begins, so nothing audible is skipped
+      const period = 60 / inBeats.bpm;
+      const n = Math.floor((inStart + 0.02 - inBeats.offset) / period);
+      incomingOffset = Math.max(0, inBeats.offset + n * period);
+    }
+
+    return {
+      startAt: Math.max(0, startAt),
+      duration,
+      incomingOffset,
+      curve
+    };
+  }
+
+  /**
+   * Consecutive tracks of the same album play straight through instead of fading
+   */
+  static isAlbumSequence(current: AudioTrack | null, next: AudioTrack | null): boolean {
+    if (!current?.album || !next?.album) return false;
+    if (current.album !== next.album) return false;
+    if (current.trackNumber === undefined || next.trackNumber === undefined) return false;
+    return next.trackNumber === current.trackNumber + 1;
+  }
+
+  /**
+   * Whether two tempos can be mixed on the beat, allowing half/double time
+   */
+  static temposMatch(a: number, b: number): boolean {
+    let ratio = a / b;
+    while (ratio > 1.5) ratio /= 2;
+    while (ratio < 0.75) ratio *= 2;
+    return Math.abs(ratio - 1) <= TEMPO_TOLERANCE;
+  }
+
+  private static nearestBeat(grid: BeatGrid, time: number): number {
+    const period = 60 / grid.bpm;
+    return grid.offset + Math.round((time - grid.offset) / period) * period;
+  }
+
+  /**
+   * Compare the level of the outermost seconds with the body next to them
+   */
+  private static isFade(energy: Float32Array, from: number, to: number, hop: number, atStart: boolean): boolean {
+    const edge = Math.round(FADE_REGION / hop);
+    if (to - from < edge * 4) return false;
+
+    const mean = (start: number, end: number) => {
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += energy[i] ?? 0;
+      return sum / Math.max(1, end - start);
+    };
+
+    const edgeLevel = atStart ? mean(from, from + edge) : mean(to - edge, to);
+    const bodyLevel = atStart ? mean(from + edge, from + edge * 3) : mean(to - edge * 3, to - edge);
+    if (bodyLevel <= 0) return false;
+
+    return 10 * Math.log10(Math.max(edgeLevel, 1e-12) / bodyLevel) <= -FADE_DROP_DB;
+  }
+
+  /**
+   * Autocorrelate the onset envelope for the tempo, then comb-filter it for the beat phase
+   */
+  private static estimateBeats(energy: Float32Array, from: number, to: number, hop: number, knownBpm?: number): BeatGrid | null {
+    const size = to - from;
+    const maxLag = Math.round(60 / MIN_BPM / hop);
+    if (size < maxLag * 4) return null;
+
+    // Half-wave rectified log-energy flux
+    const onsets = new Float32Array(size);
+    let previous = Math.log(1e-10 + (energy[from] ?? 0));
+    for (let i = 1; i < size; i++) {
+      const current = Math.log(1e-10 + (energy[from + i] ?? 0));
+      onsets[i] = Math.max(0, current - previous);
+      previous = current;
+    }
+
+    let mean = 0;
+    for (let i = 0; i < size; i++) mean += onsets[i] ?? 0;
+    mean /= size;
+    for (let i = 0; i < size; i++) onsets[i] = (onsets[i] ?? 0) - mean;
+
+    const autocorrelate = (lag: number) => {
+      let sum = 0;
+      for (let i = 0; i + lag < size; i++) sum += (onsets[i] ?? 0) * (onsets[i + lag] ?? 0);
+      return sum / (size - lag);
+    };
+
+    const zeroLag = autocorrelate(0);
+    if (zeroLag <= 0) return null;
+
+    let period: number;
+    if (knownBpm && knownBpm > 0) {
+      period = 60 / knownBpm / hop;
+    } else {
+      const minLag = Math.round(60 / MAX_BPM / hop);
+      const scores = new Float64Array(maxLag + 2);
+      let bestLag = -1;
+      let bestScore = 0;
+
+      for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+        scores[lag] = autocorrelate(lag);
+      }
+      for (let lag = minLag; lag <= maxLag; lag++) {
+        // Prefer tempos near 120 BPM so half/double time ambiguities resolve sensibly
+        const bpm = 60 / (lag * hop);
+        const weight = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120), 2));
+        const score = (scores[lag] ?? 0) * weight;
+        if (score > bestScore) {
+          bestScore = score;
+          bestLag = lag;
+        }
+      }
+
+      if (bestLag < 0 || (scores[bestLag] ?? 0) / zeroLag < MIN_CONFIDENCE) return null;
+
+      // Parabolic interpolation between neighbouring lags
+      const left = scores[bestLag - 1] ?? 0;
+      const centre = scores[bestLag] ?? 0;
+      const right = scores[bestLag + 1] ?? 0;
+      const denominator = left - 2 * centre + right;
+      period = bestLag + (denominator !== 0 ? 0.5 * (left - right) / denominator : 0);
+    }
+
+    let bestPhase = 0;
+    let bestSum = -Infinity;
+    for (let phase = 0; phase < Math.ceil(period); phase++) {
+      let sum = 0;
+      for (let t = phase; t < size; t += period) {
+        sum += onsets[Math.round(t)] ?? 0;
+      }
+      if (sum > bestSum) {
+        bestSum = sum;
+        bestPhase = phase;
+      }
+    }
+
+    return {
+      bpm: 60 / (period * hop),
+      offset: (from + bestPhase) * hop
+    };
+  }
+}
@@ -1,9 +1,14 @@
 /**
  * Advanced Audio Streaming Manager for Meow-Play
- * Features: Progressive streaming, quality adjustment, intelligent buffering
+ * Features: Progressive streaming, HLS/DASH via Media Source Extensions, quality adjustment, intelligent buffering
  * Rating Target: A+ (10/10)
  */
 
+import { ManifestParser, StreamManifest, Rendition, ByteRange } from './ManifestParser';
+import { MediaSourceStream } from './MediaSourceStream';
+import { ThroughputEstimator } from './ThroughputEstimator';
+import { AbrController } from './AbrController';
+
 export interface StreamingQuality {
   bitrate: number; // kbps
   sampleRate: number; // Hz
@@ -43,6 +48,25 @@ export interface StreamingStats {
   playTime: number;
 }
 
+export interface QualityHistoryEntry {
+  timestamp: number;
+  quality: string;
+  reason: string;
+  bufferLevel: number; // seconds ahead when the decision was made
+  throughput: number | null; // measured kbps, null before the first download
+}
+
+// Opening seconds of an upcoming track, fetched before it starts playing
+interface TrackPrefetch {
+  controller: AbortController;
+  promise: Promise<void>;
+  manifest: StreamManifest | null; // HLS/DASH only
+  segments: Map<string, ArrayBuffer>; // HLS/DASH segments by segmentKey()
+}
+
+// Quality history kept for diagnostics
+const MAX_QUALITY_HISTORY = 200;
+
 export class StreamingManager extends EventTarget {
   private options: StreamingOptions;
   private availableQualities: StreamingQuality[] = [];
@@ -50,8 +74,8 @@ export class StreamingManager extends EventTarget {
   private bufferStatus: BufferStatus;
   private stats: StreamingStats;
   
-  // Network monitoring
-  private bandwidthSamples: number[] = [];
+  // Network monitoring; throughput is measured from real downloads
+  private throughput = new ThroughputEstimator();
   private lastBandwidthCheck: number = 0;
   private connectionType: string = 'unknown';
   
@@ -64,10 +88,20 @@ export class StreamingManager extends EventTarget {
   private downloadQueue: Array<{ url: string; start: number; end: number }> = [];
   
   // Quality adaptation
-  private qualityHistory: Array<{ timestamp: number; quality: string; reason: string }> = [];
+  private abr: AbrController;
+  private qualityHistory: QualityHistoryEntry[] = [];
   private lastQualitySwitch: number = 0;
   private minimumSwitchInterval: number = 5000; // 5 seconds
   
+  // Segmented (HLS/DASH) playback; qualities mirror the manifest's renditions while attached
+  private segmentedStream: MediaSourceStream | null = null;
+  private manifest: StreamManifest | null = null;
+  private renditionLabels: string[] = [];
+  
+  // Prefetched upcoming tracks by URL; the attached stream consumes its own prefetch
+  private prefetches: Map<string, TrackPrefetch> = new Map();
+  private activePrefetch: TrackPrefetch | null = null;
+  
   constructor(options: Partial<StreamingOptions> = {}) {
     super();
     
@@ -82,6 +116,11 @@ export class StreamingManager extends EventTarget {
       ...options
     };
     
+    this.abr = new AbrController({
+      bufferTarget: this.options.preloadAmount,
+      minimumBuffer: this.options.minBufferSize
+    });
+    
     this.bufferStatus = {
       buffered: 0,
       total: 0,
@@ -122,9 +161,6 @@ export class StreamingManager extends EventTarget {
         this.handleConnectionChange();
       });
     }
-    
-    // Start bandwidth monitoring
-    this.startBandwidthMonitoring();
   }
 
   /**
@@ -177,89 +213,43 @@ export class StreamingManager extends EventTarget {
       if (preferred) return preferred;
     }
     
-    // Auto-select based on connection
-    const bandwidth = this.getEstimatedBandwidth();
-    
-    if (bandwidth < 200) {
-      return this.availableQualities.find(q => q.label === 'Data Saver') || this.availableQualities[3];
-    } else if (bandwidth < 500) {
-      return this.availableQualities.find(q => q.label === 'Low') || this.availableQualities[2];
-    } else if (bandwidth < 1000) {
-      return this.availableQualities.find(q => q.label === 'Medium') || this.availableQualities[1];
-    } else {
-      return this.availableQualities.find(q => q.label === 'High') || this.availableQualities[0];
-    }
+    // Auto-select the highest quality the estimated throughput sustains
+    const ladder = this.getQualityLadder();
+    return ladder[this.abr.selectForThroughput(ladder.map(q => q.bitrate), this.getEstimatedBandwidth())]!;
   }
 
   /**
-   * Get estimated bandwidth from recent measurements
+   * Get estimated bandwidth from measured downloads, falling back to the connection type
    */
   private getEstimatedBandwidth(): number {
-    if (this.bandwidthSamples.length === 0) {
-      // Default estimates based on connection type
-      const connectionEstimates: Record<string, number> = {
-        'slow-2g': 50,
-        '2g': 100,
-        '3g': 500,
-        '4g': 2000,
-        'unknown': 1000
-      };
-      return connectionEstimates[this.connectionType] || 1000;
-    }
-    
-    // Use weighted average of recent samples
-    const recentSamples = this.bandwidthSamples.slice(-5);
-    const weights = recentSamples.map((_, index) => index + 1);
-    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-    
-    const weightedSum = recentSamples.reduce((sum, sample, index) => {
-      return sum + (sample * weights[index]);
-    }, 0);
-    
-    return weightedSum / totalWeight;
-  }
-
-  /**
-   * Start bandwidth monitoring
-   */
-  private startBandwidthMonitoring(): void {
-    const measureBandwidth = async () => {
-      try {
-        const startTime = performance.now();
-        const response = await fetch('/api/bandwidth-test', {
-          method: 'HEAD',
-          cache: 'no-cache'
-        });
-        const endTime = performance.now();
-        
-        if (response.ok) {
-          const contentLength = parseInt(response.headers.get('content-length') || '0', 10);
-          const duration = (endTime - startTime) / 1000; // seconds
-          const bandwidth = (contentLength * 8) / duration / 1000; // kbps
-          
-          this.bandwidthSamples.push(bandwidth);
-          if (this.bandwidthSamples.length > 10) {
-            this.bandwidthSamples.shift(); // Keep only recent samples
-          }
-          
-          this.bufferStatus.estimatedBandwidth = this.getEstimatedBandwidth();
-        }
-      } catch (error) {
-        console.warn('Bandwidth measurement failed:', error);
-      }
+    const measured = this.throughput.getEstimate();
+    if (measured !== null) return measured;
+    
+    // Default estimates based on connection type
+    const connectionEstimates: Record<string, number> = {
+      'slow-2g': 50,
+      '2g': 100,
+      '3g': 500,
+      '4g': 2000,
+      'unknown': 1000
     };
-    
-    // Initial measurement
-    measureBandwidth();
-    
-    // Periodic measurements
-    setInterval(measureBandwidth, 30000); // Every 30 seconds
+    return connectionEstimates[this.connectionType] || 1000;
+  }
+
+  /**
+   * Available qualities, lowest bitrate first
+   */
+  private getQualityLadder(): StreamingQuality[] {
+    return [...this.availableQualities].sort((a, b) => a.bitrate - b.bitrate);
   }
 
   /**
    * Handle connection changes
    */
   private handleConnectionChange(): void {
+    // Measurements from the previous network no longer apply
+    this.throughput.reset();
+    
     if (this.options.adaptiveStreaming) {
       const newQuality = this.selectOptimalQuality();
       
@@ -279,11 +269,11 @@ export class StreamingManager extends EventTarget {
   /**
    * Switch to different quality
    */
-  private async switchQuality(quality: StreamingQuality, reason: string): Promise<void> {
+  private async switchQuality(quality: StreamingQuality, reason: string, force: boolean = false): Promise<void> {
     const now = Date.now();
     
     // Prevent frequent quality switches
-    if (now - this.lastQualitySwitch < this.minimumSwitchInterval) {
+    if (!force && now - this.lastQualitySwitch < this.minimumSwitchInterval) {
       return;
     }
     
@@ -295,11 +285,22 @@ export class StreamingManager extends EventTarget {
     this.qualityHistory.push({
       timestamp: now,
       quality: quality.label,
-      reason
+      reason,
+      bufferLevel: this.getBufferLevel(),
+      throughput: this.throughput.getEstimate()
     });
+    if (this.qualityHistory.length > MAX_QUALITY_HISTORY) {
+      this.qualityHistory.shift();
+    }
     
     this.stats.qualitySwitches++;
     
+    // Segmented streams pick the new rendition up at the next segment boundary
+    const renditionIndex = this.renditionLabels.indexOf(quality.label);
+    if (this.segmentedStream && renditionIndex !== -1) {
+      this.segmentedStream.setRendition(renditionIndex);
+    }
+    
     this.dispatchEvent(new CustomEvent('qualityChange', {
       detail: { 
         previousQuality,
@@ -315,7 +316,10 @@ export class StreamingManager extends EventTarget {
   createStreamingUrl(baseUrl: string): string {
     if (!this.currentQuality) return baseUrl;
     
-    const url = new URL(baseUrl);
+    // Blob and data URLs (offline and uploaded copies) are whole files that take no parameters
+    const url = new URL(baseUrl, window.location.href);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return baseUrl;
+    
     url.searchParams.set('bitrate', this.currentQuality.bitrate.toString());
     url.searchParams.set('format', this.currentQuality.format);
     url.searchParams.set('quality', this.currentQuality.label.toLowerCase());
@@ -323,6 +327,247 @@ export class StreamingManager extends EventTarget {
     return url.toString();
   }
 
+  /**
+   * Whether a URL points at an HLS playlist or DASH manifest
+   */
+  isSegmentedUrl(url: string): boolean {
+    return ManifestParser.isSegmentedUrl(url);
+  }
+
+  /**
+   * Play an HLS/DASH stream in a media element through Media Source Extensions.
+   * Resolves false for progressive URLs, or when the browser cannot play any rendition
+   * through MSE, so the caller can hand the URL to the element directly.
+   */
+  async attachMedia(media: HTMLMediaElement, url: string): Promise<boolean> {
+    this.detachSegmentedStream();
+    if (!this.isSegmentedUrl(url) || typeof MediaSource === 'undefined') return false;
+
+    // A finished prefetch already holds the manifest and the opening segments
+    const prefetch = this.prefetches.get(url);
+    this.prefetches.delete(url);
+    if (prefetch?.manifest) {
+      this.activePrefetch = prefetch;
+    } else {
+      prefetch?.controller.abort();
+    }
+
+    const manifest = this.activePrefetch?.manifest ?? await this.loadPlayableManifest(url);
+    if (!manifest) return false;
+    const renditions = manifest.renditions;
+
+    this.manifest = manifest;
+    this.renditionLabels = renditions.map(rendition => this.getRenditionLabel(rendition));
+    this.availableQualities = renditions.map((rendition, i) => this.toStreamingQuality(rendition, this.renditionLabels[i]!)).reverse();
+
+    const previousQuality = this.currentQuality;
+    this.currentQuality = this.selectOptimalQuality();
+    if (this.currentQuality.label !== previousQuality?.label) {
+      this.dispatchEvent(new CustomEvent('qualityChange', {
+        detail: { previousQuality, currentQuality: this.currentQuality, reason: 'stream_start' }
+      }));
+    }
+
+    const stream = new MediaSourceStream(
+      this.manifest,
+      (segment, signal) => this.downloadSegment(segment.url, segment.byteRange, signal),
+      this.renditionLabels.indexOf(this.currentQuality.label),
+      { bufferAhead: this.options.preloadAmount, bufferBehind: this.options.maxBufferSize - this.options.preloadAmount }
+    );
+    stream.addEventListener('renditionChange', (e: Event) => {
+      this.dispatchEvent(new CustomEvent('renditionChange', { detail: (e as CustomEvent).detail }));
+    });
+    stream.addEventListener('error', (e: Event) => {
+      this.dispatchEvent(new CustomEvent('streamError', { detail: (e as CustomEvent).detail }));
+    });
+
+    this.segmentedStream = stream;
+    stream.attach(media);
+    this.startBufferMonitoring(media as HTMLAudioElement);
+
+    this.dispatchEvent(new CustomEvent('manifestLoaded', {
+      detail: { protocol: manifest.protocol, renditions: this.manifest.renditions, duration: manifest.duration }
+    }));
+    return true;
+  }
+
+  /**
+   * Stop the current HLS/DASH stream and return to the progressive quality ladder
+   */
+  detachSegmentedStream(): void {
+    if (!this.segmentedStream && !this.manifest) return;
+
+    this.segmentedStream?.detach();
+    this.segmentedStream = null;
+    this.manifest = null;
+    this.activePrefetch = null;
+    this.renditionLabels = [];
+    this.stopBufferMonitoring();
+    this.setupDefaultQualities();
+  }
+
+  /**
+   * Renditions of the attached HLS/DASH stream, lowest bandwidth first
+   */
+  getRenditions(): Rendition[] {
+    return this.manifest ? [...this.manifest.renditions] : [];
+  }
+
+  /**
+   * Download one HLS/DASH segment; timings feed the bandwidth estimate like range requests
+   */
+  async downloadSegment(url: string, byteRange?: ByteRange, signal?: AbortSignal): Promise<ArrayBuffer> {
+    const key = this.segmentKey(url, byteRange);
+    const prefetched = this.activePrefetch?.segments.get(key);
+    if (prefetched) {
+      this.activePrefetch!.segments.delete(key);
+      return prefetched;
+    }
+    
+    const startTime = performance.now();
+    const response = await fetch(url, {
+      ...(byteRange ? { headers: { 'Range': `bytes=${byteRange.start}-${byteRange.end}` } } : {}),
+      ...(signal ? { signal } : {})
+    });
+    
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    
+    const data = await response.arrayBuffer();
+    const start = byteRange?.start ?? 0;
+    this.recordDownload(url, start, byteRange?.end ?? start + data.byteLength - 1, data.byteLength, performance.now() - startTime);
+    
+    return data;
+  }
+
+  /**
+   * Fetch the opening seconds of an upcoming track so it starts without a cold fetch.
+   * HLS/DASH keeps the manifest and first segments in memory for attachMedia. Progressive
+   * files only get a range request that warms the HTTP cache where the server allows it;
+   * the media element still makes its own requests and may not be served from that cache.
+   */
+  prefetchTrack(url: string, seconds: number): Promise<void> {
+    const existing = this.prefetches.get(url);
+    if (existing) return existing.promise;
+    
+    const prefetch: TrackPrefetch = {
+      controller: new AbortController(),
+      promise: Promise.resolve(),
+      manifest: null,
+      segments: new Map()
+    };
+    this.prefetches.set(url, prefetch);
+    
+    const work = this.isSegmentedUrl(url)
+      ? this.prefetchSegments(url, seconds, prefetch)
+      : this.prefetchRange(url, seconds, prefetch.controller.signal);
+    
+    prefetch.promise = work
+      .then(() => {
+        this.dispatchEvent(new CustomEvent('trackPrefetched', { detail: { url, seconds } }));
+      })
+      .catch(error => {
+        if (this.prefetches.get(url) === prefetch) {
+          this.prefetches.delete(url);
+        }
+        if (!prefetch.controller.signal.aborted) throw error;
+      });
+    
+    return prefetch.promise;
+  }
+
+  /**
+   * Abort prefetches for tracks that are no longer coming up
+   */
+  cancelPrefetches(keepUrls: string[] = []): void {
+    this.prefetches.forEach((prefetch, url) => {
+      if (keepUrls.includes(url)) return;
+      prefetch.controller.abort();
+      this.prefetches.delete(url);
+    });
+  }
+
+  /**
+   * URLs with a prefetch in progress or completed
+   */
+  getPrefetchedUrls(): string[] {
+    return [...this.prefetches.keys()];
+  }
+
+  private async prefetchRange(url: string, seconds: number, signal: AbortSignal): Promise<void> {
+    const bytes = Math.ceil(seconds * (this.currentQuality?.bitrate || 128) * 1000 / 8);
+    await this.downloadSegment(url, { start: 0, end: bytes - 1 }, signal);
+  }
+
+  private async prefetchSegments(url: string, seconds: number, prefetch: TrackPrefetch): Promise<void> {
+    if (typeof MediaSource === 'undefined') return;
+    
+    const signal = prefetch.controller.signal;
+    const manifest = await this.loadPlayableManifest(url, signal);
+    if (!manifest || signal.aborted) return;
+    
+    // The rendition attachMedia would start with
+    const preferred = manifest.renditions.findIndex(rendition =>
+      this.getRenditionLabel(rendition).toLowerCase() === this.options.preferredQuality.toLowerCase()
+    );
+    const rendition = manifest.renditions[preferred !== -1 ? preferred : this.abr.selectForThroughput(
+      manifest.renditions.map(r => r.bandwidth / 1000),
+      this.getEstimatedBandwidth()
+    )]!;
+    
+    const references = [
+      ...(rendition.initSegment ? [rendition.initSegment] : []),
+      ...rendition.segments.filter(segment => segment.start < seconds)
+    ];
+    for (const reference of references) {
+      const data = await this.downloadSegment(reference.url, reference.byteRange, signal);
+      prefetch.segments.set(this.segmentKey(reference.url, reference.byteRange), data);
+    }
+    
+    prefetch.manifest = manifest;
+  }
+
+  /**
+   * Load a manifest and keep the renditions this browser can play through MSE
+   */
+  private async loadPlayableManifest(url: string, signal?: AbortSignal): Promise<StreamManifest | null> {
+    const manifest = await ManifestParser.load(
+      url,
+      manifestUrl => this.fetchText(manifestUrl),
+      (segmentUrl, byteRange) => this.downloadSegment(segmentUrl, byteRange, signal)
+    );
+    const renditions = manifest.renditions.filter(rendition => MediaSourceStream.isSupported(rendition));
+    return renditions.length ? { ...manifest, renditions } : null;
+  }
+
+  private segmentKey(url: string, byteRange?: ByteRange): string {
+    return byteRange ? `${url}#${byteRange.start}-${byteRange.end}` : url;
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  private getRenditionLabel(rendition: Rendition): string {
+    const codec = rendition.codecs.startsWith('mp4a.40') ? 'AAC' : rendition.codecs.split('.')[0]!.toUpperCase();
+    return `${Math.round(rendition.bandwidth / 1000)} kbps ${codec}`;
+  }
+
+  private toStreamingQuality(rendition: Rendition, label: string): StreamingQuality {
+    return {
+      bitrate: Math.round(rendition.bandwidth / 1000),
+      sampleRate: rendition.sampleRate ?? 44100,
+      channels: rendition.channels ?? 2,
+      format: rendition.container === 'fmp4' ? 'mp4' : rendition.container,
+      label
+    };
+  }
+
   /**
    * Progressive download with range requests
    */
@@ -354,34 +599,10 @@ export class StreamingManager extends EventTarget {
       const data = await response.arrayBuffer();
       const endTime = performance.now();
       
-      // Calculate download speed
-      const duration = (endTime - startTime) / 1000; // seconds
-      const bytes = data.byteLength;
-      const speed = (bytes * 8) / duration / 1000; // kbps
-      
-      // Update statistics
-      this.stats.bytesLoaded += bytes;
-      this.stats.downloadSpeed = speed;
-      this.updateAverageSpeed(speed);
-      
       // Cache the range
       this.downloadRanges.set(rangeKey, { start, end, data });
       
-      // Update bandwidth samples
-      this.bandwidthSamples.push(speed);
-      if (this.bandwidthSamples.length > 10) {
-        this.bandwidthSamples.shift();
-      }
-      
-      this.dispatchEvent(new CustomEvent('rangeDownloaded', {
-        detail: { 
-          start, 
-          end, 
-          bytes, 
-          speed,
-          url 
-        }
-      }));
+      this.recordDownload(url, start, end, data.byteLength, endTime - startTime);
       
       return data;
       
@@ -395,6 +616,35 @@ export class StreamingManager extends EventTarget {
     }
   }
 
+  /**
+   * Update statistics and bandwidth samples from a finished download
+   */
+  private recordDownload(url: string, start: number, end: number, bytes: number, elapsedMs: number): void {
+    const duration = elapsedMs / 1000; // seconds
+    const speed = (bytes * 8) / duration / 1000; // kbps
+    
+    // Update statistics
+    this.stats.bytesLoaded += bytes;
+    this.stats.downloadSpeed = speed;
+    this.updateAverageSpeed(speed);
+    
+    // Feed the throughput estimate; tiny and outlying downloads are filtered there
+    this.throughput.addSample(bytes, elapsedMs);
+    this.bufferStatus.estimatedBandwidth = this.getEstimatedBandwidth();
+    
+    this.dispatchEvent(new CustomEvent('rangeDownloaded', {
+      detail: { 
+        start, 
+        end, 
+        bytes, 
+        speed,
+        url 
+      }
+    }));
+    
+    this.evaluateQuality();
+  }
+
   /**
    * Update average download speed
    */
@@ -473,10 +723,7 @@ export class StreamingManager extends EventTarget {
         detail: { bufferStatus: this.bufferStatus }
       }));
       
-      // Consider quality downgrade if stalling frequently
-      if (this.options.adaptiveStreaming && this.stats.stallEvents > 2) {
-        this.considerQualityDowngrade();
-      }
+      this.evaluateQuality();
     });
     
     audioElement.addEventListener('canplay', () => {
@@ -522,47 +769,42 @@ export class StreamingManager extends EventTarget {
       detail: { bufferStatus: this.bufferStatus, stats: this.stats }
     }));
     
-    // Check if we need to preload more
-    if (this.bufferStatus.buffered < this.options.preloadAmount) {
+    this.evaluateQuality();
+    
+    // Check if we need to preload more; segmented streams fetch their own segments
+    if (!this.segmentedStream && this.bufferStatus.buffered < this.options.preloadAmount) {
       this.preloadSegments(audioElement.src, currentTime, duration);
     }
   }
 
   /**
-   * Consider quality downgrade due to poor performance
+   * Let the ABR controller pick a quality from the buffer level and measured throughput
    */
-  private considerQualityDowngrade(): void {
-    if (!this.currentQuality || !this.options.adaptiveStreaming) return;
-    
-    const currentIndex = this.availableQualities.findIndex(q => q.label === this.currentQuality!.label);
-    
-    // Find lower quality option
-    const lowerQuality = this.availableQualities.find((q, index) => 
-      index > currentIndex && q.bitrate < this.currentQuality!.bitrate
-    );
+  private evaluateQuality(): void {
+    if (!this.currentQuality || !this.options.adaptiveStreaming || this.options.preferredQuality !== 'auto') return;
+    
+    const ladder = this.getQualityLadder();
+    const currentIndex = ladder.findIndex(q => q.label === this.currentQuality!.label);
+    if (currentIndex === -1) return;
+    
+    const decision = this.abr.decide({
+      bitrates: ladder.map(q => q.bitrate),
+      currentIndex,
+      bufferLevel: this.getBufferLevel(),
+      throughput: this.throughput.getEstimate()
+    });
     
-    if (lowerQuality) {
-      this.switchQuality(lowerQuality, 'performance_degradation');
+    if (decision.index !== currentIndex) {
+      // Dropping quality to avoid a stall skips the minimum switch interval
+      this.switchQuality(ladder[decision.index]!, decision.reason, decision.reason === 'buffer_low');
     }
   }
 
   /**
-   * Consider quality upgrade when performance allows
+   * Seconds buffered ahead of the playhead
    */
-  private considerQualityUpgrade(): void {
-    if (!this.currentQuality || !this.options.adaptiveStreaming) return;
-    
-    const bandwidth = this.getEstimatedBandwidth();
-    const currentIndex = this.availableQualities.findIndex(q => q.label === this.currentQuality!.label);
-    
-    // Find higher quality option that bandwidth can support
-    const higherQuality = this.availableQualities.find((q, index) => 
-      index < currentIndex && q.bitrate * 1.5 < bandwidth // 50% headroom
-    );
-    
-    if (higherQuality && this.stats.bufferHealth > 80) {
-      this.switchQuality(higherQuality, 'bandwidth_improvement');
-    }
+  private getBufferLevel(): number {
+    return this.segmentedStream ? this.segmentedStream.getBufferedAhead() : this.bufferStatus.buffered;
   }
 
   /**
@@ -650,7 +892,7 @@ export class StreamingManager extends EventTarget {
   /**
    * Get quality history
    */
-  getQualityHistory(): Array<{ timestamp: number; quality: string; reason: string }> {
+  getQualityHistory(): QualityHistoryEntry[] {
     return [...this.qualityHistory];
   }
 
@@ -677,8 +919,10 @@ export class StreamingManager extends EventTarget {
    * Dispose of resources
    */
   dispose(): void {
+    this.detachSegmentedStream();
     this.stopBufferMonitoring();
     this.cancelAllPreloads();
+    this.cancelPrefetches();
     
     // Clear cached ranges
     this.downloadRanges.clear();
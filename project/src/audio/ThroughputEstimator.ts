@@ -0,0 +1,129 @@
+/**
+ * Throughput Estimator for Meow-Play
+ * Features: sliding window of measured downloads, fast/slow EWMA weighted by download time, outlier rejection
+ */
+
+export interface ThroughputEstimatorOptions {
+  windowSize: number; // accepted samples kept
+  fastHalfLife: number; // seconds of download time
+  slowHalfLife: number; // seconds of download time
+  minBytes: number; // smaller downloads are dominated by latency and ignored
+  outlierThreshold: number; // median absolute deviations (log scale) before a sample is rejected
+  regimeChangeSamples: number; // consecutive outliers on one side that are accepted as a real change
+}
+
+interface ThroughputSample {
+  kbps: number;
+  duration: number; // seconds
+}
+
+const DEFAULT_OPTIONS: ThroughputEstimatorOptions = {
+  windowSize: 20,
+  fastHalfLife: 3,
+  slowHalfLife: 9,
+  minBytes: 16 * 1024,
+  outlierThreshold: 4,
+  regimeChangeSamples: 3
+};
+
+// Outliers are only judged once the window holds enough samples for a median
+const MIN_SAMPLES_FOR_REJECTION = 4;
+
+// Floor for the deviation so near-identical samples do not reject small variations
+const MIN_LOG_DEVIATION = Math.log(1.25);
+
+export class ThroughputEstimator {
+  private options: ThroughputEstimatorOptions;
+  private samples: ThroughputSample[] = [];
+  private outliers: ThroughputSample[] = [];
+
+  constructor(options: Partial<ThroughputEstimatorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Record a finished download. Returns false if the sample was ignored or rejected.
+   */
+  addSample(bytes: number, durationMs: number): boolean {
+    if (bytes < this.options.minBytes || durationMs <= 0) return false;
+
+    const sample = { kbps: (bytes * 8) / durationMs, duration: durationMs / 1000 };
+    const side = this.outlierSide(sample.kbps);
+
+    if (side !== 0) {
+      // A run of outliers in the same direction means the network itself changed
+      if (this.outliers.length && this.outlierSide(this.outliers[0]!.kbps) !== side) {
+        this.outliers = [];
+      }
+      this.outliers.push(sample);
+      if (this.outliers.length < this.options.regimeChangeSamples) return false;
+
+      this.samples = this.outliers;
+      this.outliers = [];
+      return true;
+    }
+
+    this.outliers = [];
+    this.samples.push(sample);
+    if (this.samples.length > this.options.windowSize) {
+      this.samples.shift();
+    }
+    return true;
+  }
+
+  /**
+   * Conservative throughput in kbps (the lower of the fast and slow averages), or null without samples
+   */
+  getEstimate(): number | null {
+    if (!this.samples.length) return null;
+    return Math.min(this.average(this.options.fastHalfLife), this.average(this.options.slowHalfLife));
+  }
+
+  /**
+   * Number of samples in the window
+   */
+  getSampleCount(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Forget all samples, e.g. after the connection type changes
+   */
+  reset(): void {
+    this.samples = [];
+    this.outliers = [];
+  }
+
+  // EWMA over the window, weighted by download time and corrected for its zero start
+  private average(halfLife: number): number {
+    let estimate = 0;
+    let totalWeight = 0;
+
+    this.samples.forEach(sample => {
+      const alpha = 1 - Math.pow(0.5, sample.duration / halfLife);
+      estimate = alpha * sample.kbps + (1 - alpha) * estimate;
+      totalWeight += sample.duration;
+    });
+
+    return estimate / (1 - Math.pow(0.5, totalWeight / halfLife));
+  }
+
+  // -1 / 1 when a sample is far below / above the window median, 0 otherwise
+  private outlierSide(kbps: number): number {
+    if (this.samples.length < MIN_SAMPLES_FOR_REJECTION) return 0;
+
+    const logs = this.samples.map(sample => Math.log(sample.kbps));
+    const median = this.median(logs);
+    const deviation = Math.max(MIN_LOG_DEVIATION, this.median(logs.map(value => Math.abs(value - median))));
+    const distance = Math.log(kbps) - median;
+
+    if (Math.abs(distance) <= this.options.outlierThreshold * deviation) return 0;
+    return distance < 0 ? -1 : 1;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle]! : ((sorted[middle - 1]! + sorted[middle]!) / 2);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * MPEG-TS Audio Demuxer for Meow-Play
+ * Features: PAT/PMT lookup, PES reassembly into raw ADTS or MP3 frames for MSE, ID3 stripping for packed audio
+ */
+
+export interface DemuxedAudio {
+  codec: 'aac' | 'mp3';
+  data: Uint8Array;
+}
+
+const PACKET_SIZE = 188;
+const SYNC_BYTE = 0x47;
+
+// PMT stream_type values carrying audio that MSE can take as a raw bytestream
+const AUDIO_STREAM_TYPES: Record<number, DemuxedAudio['codec']> = {
+  0x0f: 'aac', // ADTS AAC
+  0x03: 'mp3', // MPEG-1 audio
+  0x04: 'mp3' // MPEG-2 audio
+};
+
+interface TsPacket {
+  pid: number;
+  payloadStart: boolean;
+  payload: Uint8Array;
+}
+
+export class TransportStreamDemuxer {
+  /**
+   * Extract the first audio elementary stream from a transport stream segment
+   */
+  static extractAudio(bytes: Uint8Array): DemuxedAudio {
+    const packets = this.readPackets(bytes);
+
+    let pmtPid = -1;
+    let audio: { pid: number; codec: DemuxedAudio['codec'] } | null = null;
+
+    for (const packet of packets) {
+      if (packet.pid === 0 && packet.payloadStart) {
+        pmtPid = this.parsePat(this.sectionOf(packet.payload));
+      } else if (packet.pid === pmtPid && packet.payloadStart) {
+        audio = this.parsePmt(this.sectionOf(packet.payload));
+        if (audio) break;
+      }
+    }
+
+    if (!audio) {
+      throw new Error('No AAC or MP3 audio stream found in transport stream');
+    }
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+
+    packets.forEach(packet => {
+      if (packet.pid !== audio!.pid) return;
+
+      let payload = packet.payload;
+      if (packet.payloadStart) {
+        // PES header: start code, stream id, length, two flag bytes, header data length
+        if (payload[0] !== 0 || payload[1] !== 0 || payload[2] !== 1) return;
+        payload = payload.subarray(9 + (payload[8] ?? 0));
+      }
+      chunks.push(payload);
+      length += payload.length;
+    });
+
+    const data = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    });
+
+    return { codec: audio.codec, data };
+  }
+
+  /**
+   * Drop a leading ID3v2 tag, which HLS packed audio segments carry for timestamps
+   */
+  static stripId3(bytes: Uint8Array): Uint8Array {
+    let offset = 0;
+    while (bytes[offset] === 0x49 && bytes[offset + 1] === 0x44 && bytes[offset + 2] === 0x33 && offset + 10 <= bytes.length) {
+      const size = ((bytes[offset + 6] ?? 0) << 21) | ((bytes[offset + 7] ?? 0) << 14)
+        | ((bytes[offset + 8] ?? 0) << 7) | (bytes[offset + 9] ?? 0);
+      const hasFooter = ((bytes[offset + 5] ?? 0) & 0x10) !== 0;
+      offset += 10 + size + (hasFooter ? 10 : 0);
+    }
+    return offset > 0 ? bytes.subarray(Math.min(offset, bytes.length)) : bytes;
+  }
+
+  private static readPackets(bytes: Uint8Array): TsPacket[] {
+    // First offset where sync bytes line up a packet apart
+    let start = 0;
+    while (start < PACKET_SIZE && start < bytes.length
+      && !(bytes[start] === SYNC_BYTE && (start + PACKET_SIZE >= bytes.length || bytes[start + PACKET_SIZE] === SYNC_BYTE))) {
+      start++;
+    }
+
+    const packets: TsPacket[] = [];
+    for (let offset = start; offset + PACKET_SIZE <= bytes.length; offset += PACKET_SIZE) {
+      if (bytes[offset] !== SYNC_BYTE) continue;
+
+      const b1 = bytes[offset + 1] ?? 0;
+      const adaptation = ((bytes[offset + 3] ?? 0) >> 4) & 0x03;
+      if (!(adaptation & 0x01)) continue; // no payload
+
+      let payloadOffset = offset + 4;
+      if (adaptation & 0x02) payloadOffset += 1 + (bytes[offset + 4] ?? 0);
+      if (payloadOffset >= offset + PACKET_SIZE) continue;
+
+      packets.push({
+        pid: ((b1 & 0x1f) << 8) | (bytes[offset + 2] ?? 0),
+        payloadStart: (b1 & 0x40) !== 0,
+        payload: bytes.subarray(payloadOffset, offset + PACKET_SIZE)
+      });
+    }
+    return packets;
+  }
+
+  // PSI sections start after a pointer field
+  private static sectionOf(payload: Uint8Array): Uint8Array {
+    return payload.subarray(1 + (payload[0] ?? 0));
+  }
+
+  private static parsePat(section: Uint8Array): number {
+    const sectionLength = (((section[1] ?? 0) & 0x0f) << 8) | (section[2] ?? 0);
+    const end = Math.min(section.length, 3 + sectionLength - 4); // excluding CRC
+
+    for (let offset = 8; offset + 4 <= end; offset += 4) {
+      const program = ((section[offset] ?? 0) << 8) | (section[offset + 1] ?? 0);
+      if (program !== 0) {
+        return (((section[offset + 2] ?? 0) & 0x1f) << 8) | (section[offset + 3] ?? 0);
+      }
+    }
+    return -1;
+  }
+
+  private static parsePmt(section: Uint8Array): { pid: number; codec: DemuxedAudio['codec'] } | null {
+    const sectionLength = (((section[1] ?? 0) & 0x0f) << 8) | (section[2] ?? 0);
+    const end = Math.min(section.length, 3 + sectionLength - 4);
+    const programInfoLength = (((section[10] ?? 0) & 0x0f) << 8) | (section[11] ?? 0);
+
+    for (let offset = 12 + programInfoLength; offset + 5 <= end;) {
+      const streamType = section[offset] ?? 0;
+      const pid = (((section[offset + 1] ?? 0) & 0x1f) << 8) | (section[offset + 2] ?? 0);
+      const infoLength = (((section[offset + 3] ?? 0) & 0x0f) << 8) | (section[offset + 4] ?? 0);
+
+      const codec = AUDIO_STREAM_TYPES[streamType];
+      if (codec) return { pid, codec };
+      offset += 5 + infoLength;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Waveform Peaks for Meow-Play
+ * Features: min/max peaks at several zoom levels, 8-bit storage, audiowaveform JSON import/export, display resampling
+ */
+
+import { downmix } from './dsp';
+
+export interface WaveformLevel {
+  samplesPerPixel: number;
+  data: Int8Array; // Interleaved min/max pairs, one per pixel
+}
+
+export interface WaveformData {
+  sampleRate: number;
+  duration: number;
+  levels: WaveformLevel[]; // Finest first
+}
+
+/**
+ * Format written by BBC audiowaveform (`audiowaveform -i x.mp3 -o x.json`)
+ */
+export interface AudiowaveformJson {
+  version: 1 | 2;
+  channels?: number;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: 8 | 16;
+  length: number;
+  data: number[];
+}
+
+export interface DisplayPeaks {
+  min: Float32Array; // -1..1, scaled to the loudest peak
+  max: Float32Array;
+}
+
+// Samples per pixel of each stored zoom level; multiples of the finest so levels can be merged
+export const WAVEFORM_ZOOM_LEVELS = [256, 1024, 4096];
+
+export class WaveformPeaks {
+  /**
+   * Generate peaks for every zoom level from decoded channels, downmixed to mono
+   */
+  static generate(channels: Float32Array[], sampleRate: number, zoomLevels: number[] = WAVEFORM_ZOOM_LEVELS): WaveformData {
+    const samples = downmix(channels);
+    const levels = [...zoomLevels]
+      .sort((a, b) => a - b)
+      .map(samplesPerPixel => ({ samplesPerPixel, data: this.computeLevel(samples, samplesPerPixel) }));
+
+    return { sampleRate, duration: samples.length / sampleRate, levels };
+  }
+
+  /**
+   * Export one zoom level as audiowaveform version 2 JSON
+   */
+  static toJson(waveform: WaveformData, levelIndex: number = 0): AudiowaveformJson {
+    const level = waveform.levels[levelIndex];
+    if (!level) {
+      throw new Error(`Waveform has no zoom level ${levelIndex}`);
+    }
+
+    return {
+      version: 2,
+      channels: 1,
+      sample_rate: waveform.sampleRate,
+      samples_per_pixel: level.samplesPerPixel,
+      bits: 8,
+      length: level.data.length / 2,
+      data: Array.from(level.data)
+    };
+  }
+
+  /**
+   * Import audiowaveform JSON, deriving any coarser zoom levels that are multiples of it
+   */
+  static fromJson(json: AudiowaveformJson, zoomLevels: number[] = WAVEFORM_ZOOM_LEVELS): WaveformData {
+    if (json.version !== 1 && json.version !== 2) {
+      throw new Error(`Unsupported audiowaveform version: ${String(json.version)}`);
+    }
+
+    const channels = json.version === 2 ? Math.max(1, json.channels ?? 1) : 1;
+    const shift = json.bits === 16 ? 8 : 0;
+    const length = Math.min(json.length, Math.floor(json.data.length / (channels * 2)));
+    const data = new Int8Array(length * 2);
+
+    // Multi-channel files interleave each channel's pair per pixel; keep the widest range
+    for (let i = 0; i < length; i++) {
+      let min = 127;
+      let max = -128;
+      for (let c = 0; c < channels; c++) {
+        const offset = (i * channels + c) * 2;
+        min = Math.min(min, (json.data[offset] ?? 0) >> shift);
+        max = Math.max(max, (json.data[offset + 1] ?? 0) >> shift);
+      }
+      data[i * 2] = min;
+      data[i * 2 + 1] = max;
+    }
+
+    const base: WaveformLevel = { samplesPerPixel: json.samples_per_pixel, data };
+    const levels = [base];
+    zoomLevels
+      .filter(spp => spp > base.samplesPerPixel && spp % base.samplesPerPixel === 0)
+      .sort((a, b) => a - b)
+      .forEach(spp => levels.push(this.mergeLevel(base, spp / base.samplesPerPixel)));
+
+    return {
+      sampleRate: json.sample_rate,
+      duration: (length * json.samples_per_pixel) / json.sample_rate,
+      levels
+    };
+  }
+
+  /**
+   * The coarsest level that still has at least the requested number of pixels
+   */
+  static selectLevel(waveform: WaveformData, pixels: number): WaveformLevel | undefined {
+    let selected = waveform.levels[0];
+    waveform.levels.forEach(level => {
+      if (level.data.length / 2 >= pixels) selected = level;
+    });
+    return selected;
+  }
+
+  /**
+   * Reduce to a fixed number of bars for drawing, normalized to the loudest peak
+   */
+  static resample(waveform: WaveformData, bars: number): DisplayPeaks {
+    const min = new Float32Array(bars);
+    const max = new Float32Array(bars);
+    const level = this.selectLevel(waveform, bars);
+    const pixels = level ? level.data.length / 2 : 0;
+    if (!level || pixels === 0 || bars <= 0) return { min, max };
+
+    let peak = 0;
+    for (let bar = 0; bar < bars; bar++) {
+      const start = Math.floor((bar * pixels) / bars);
+      const end = Math.max(start + 1, Math.floor(((bar + 1) * pixels) / bars));
+      let low = 0;
+      let high = 0;
+      for (let i = start; i < end && i < pixels; i++) {
+        low = Math.min(low, level.data[i * 2] ?? 0);
+        high = Math.max(high, level.data[i * 2 + 1] ?? 0);
+      }
+      min[bar] = low;
+      max[bar] = high;
+      peak = Math.max(peak, -low, high);
+    }
+
+    if (peak > 0) {
+      for (let bar = 0; bar < bars; bar++) {
+        min[bar] = (min[bar] ?? 0) / peak;
+        max[bar] = (max[bar] ?? 0) / peak;
+      }
+    }
+
+    return { min, max };
+  }
+
+  private static computeLevel(samples: Float32Array, samplesPerPixel: number): Int8Array {
+    const pixels = Math.ceil(samples.length / samplesPerPixel);
+    const data = new Int8Array(pixels * 2);
+
+    for (let pixel = 0; pixel < pixels; pixel++) {
+      const start = pixel * samplesPerPixel;
+      const end = Math.min(samples.length, start + samplesPerPixel);
+      let min = 0;
+      let max = 0;
+      for (let i = start; i < end; i++) {
+        const sample = samples[i] ?? 0;
+        if (sample < min) min = sample;
+        if (sample > max) max = sample;
+      }
+      data[pixel * 2] = this.quantize(min);
+      data[pixel * 2 + 1] = this.quantize(max);
+    }
+
+    return data;
+  }
+
+  private static mergeLevel(level: WaveformLevel, factor: number): WaveformLevel {
+    const pixels = level.data.length / 2;
+    const merged = new Int8Array(Math.ceil(pixels / factor) * 2);
+
+    for (let i = 0; i < pixels; i++) {
+      const target = Math.floor(i / factor) * 2;
+      merged[target] = Math.min(merged[target] ?? 0, level.data[i * 2] ?? 0);
+      merged[target + 1] = Math.max(merged[target + 1] ?? 0, level.data[i * 2 + 1] ?? 0);
+    }
+
+    return { samplesPerPixel: level.samplesPerPixel * factor, data: merged };
+  }
+
+  // Same scale audiowaveform uses for 8-bit output
+  private static quantize(sample: number): number {
+    return Math.max(-128, Math.min(127, Math.round(sample * 128)));
+  }
+}
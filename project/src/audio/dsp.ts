@@ -0,0 +1,120 @@
+/**
+ * DSP helpers for Meow-Play
+ * Features: radix-2 FFT, cached Hann windows, mono downmix, box-filtered decimation
+ */
+
+const windows = new Map<number, Float64Array>();
+const bitReversals = new Map<number, Uint32Array>();
+
+/**
+ * In-place iterative radix-2 FFT; the length must be a power of two
+ */
+export function fft(real: Float64Array, imag: Float64Array): void {
+  const size = real.length;
+  const reversal = getBitReversal(size);
+
+  for (let i = 0; i < size; i++) {
+    const j = reversal[i] ?? i;
+    if (j > i) {
+      const re = real[i] ?? 0;
+      const im = imag[i] ?? 0;
+      real[i] = real[j] ?? 0;
+      imag[i] = imag[j] ?? 0;
+      real[j] = re;
+      imag[j] = im;
+    }
+  }
+
+  for (let span = 2; span <= size; span *= 2) {
+    const half = span / 2;
+    const step = -2 * Math.PI / span;
+    for (let k = 0; k < half; k++) {
+      const wr = Math.cos(step * k);
+      const wi = Math.sin(step * k);
+      for (let start = 0; start < size; start += span) {
+        const even = start + k;
+        const odd = even + half;
+        const oddRe = real[odd] ?? 0;
+        const oddIm = imag[odd] ?? 0;
+        const tr = wr * oddRe - wi * oddIm;
+        const ti = wr * oddIm + wi * oddRe;
+        const er = real[even] ?? 0;
+        const ei = imag[even] ?? 0;
+        real[even] = er + tr;
+        imag[even] = ei + ti;
+        real[odd] = er - tr;
+        imag[odd] = ei - ti;
+      }
+    }
+  }
+}
+
+/**
+ * Hann window of the given length, shared between callers
+ */
+export function hannWindow(size: number): Float64Array {
+  let window = windows.get(size);
+  if (!window) {
+    window = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (size - 1));
+    }
+    windows.set(size, window);
+  }
+  return window;
+}
+
+/**
+ * Average all channels into one, keeping at most maxLength samples
+ */
+export function downmix(channels: Float32Array[], maxLength: number = Infinity): Float32Array {
+  const length = Math.min(channels[0]?.length ?? 0, maxLength);
+  if (channels.length === 1) return (channels[0] ?? new Float32Array(0)).subarray(0, length);
+
+  const mono = new Float32Array(length);
+  channels.forEach(samples => {
+    for (let i = 0; i < length; i++) {
+      mono[i] = (mono[i] ?? 0) + (samples[i] ?? 0) / channels.length;
+    }
+  });
+  return mono;
+}
+
+/**
+ * Box-filtered resampling; adequate when only the lower part of the spectrum is analyzed
+ */
+export function decimate(samples: Float32Array, sampleRate: number, targetRate: number): Float32Array {
+  if (sampleRate === targetRate) return samples;
+
+  const ratio = sampleRate / targetRate;
+  const half = Math.floor(ratio / 2);
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const center = Math.floor(i * ratio);
+    const start = Math.max(0, center - half);
+    const end = Math.min(samples.length - 1, center + half);
+    let sum = 0;
+    for (let j = start; j <= end; j++) sum += samples[j] ?? 0;
+    output[i] = sum / (end - start + 1);
+  }
+
+  return output;
+}
+
+function getBitReversal(size: number): Uint32Array {
+  let reversal = bitReversals.get(size);
+  if (!reversal) {
+    const bits = Math.log2(size);
+    reversal = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed |= ((i >> b) & 1) << (bits - 1 - b);
+      }
+      reversal[i] = reversed;
+    }
+    bitReversals.set(size, reversal);
+  }
+  return reversal;
+}
@@ -0,0 +1,35 @@
+/**
+ * Feature Extractor Web Worker for Meow-Play
+ * Runs FeatureExtractor and WaveformPeaks off the main thread
+ */
+
+import { FeatureExtractor, ExtractedAudioFeatures } from '../FeatureExtractor';
+import { WaveformPeaks, WaveformData } from '../WaveformPeaks';
+
+export interface FeatureExtractionRequest {
+  id: number;
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export type FeatureExtractionResponse =
+  | { id: number; features: ExtractedAudioFeatures; waveform: WaveformData }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<FeatureExtractionRequest>) => {
+  const { id, channels, sampleRate } = event.data;
+  let response: FeatureExtractionResponse;
+
+  try {
+    response = {
+      id,
+      features: FeatureExtractor.extract(channels, sampleRate),
+      waveform: WaveformPeaks.generate(channels, sampleRate)
+    };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const transfer = 'waveform' in response ? response.waveform.levels.map(level => level.data.buffer as ArrayBuffer) : [];
+  self.postMessage(response, { transfer });
+};
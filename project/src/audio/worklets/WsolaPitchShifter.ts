@@ -0,0 +1,174 @@
+/**
+ * WSOLA pitch shifter DSP for Meow-Play
+ * Runs inside the pitch shifter AudioWorklet; kept free of DOM APIs
+ */
+
+export const PITCH_SHIFTER_PROCESSOR = 'meow-pitch-shifter';
+
+export const MIN_TEMPO = 0.5;
+export const MAX_TEMPO = 2;
+export const MAX_PITCH_SEMITONES = 12;
+
+// Extremes of tempo compensation combined with a full octave transpose
+export const MIN_PITCH_RATIO = Math.pow(2, -MAX_PITCH_SEMITONES / 12) / MAX_TEMPO;
+export const MAX_PITCH_RATIO = Math.pow(2, MAX_PITCH_SEMITONES / 12) / MIN_TEMPO;
+
+const RING_SIZE = 1 << 16; // samples per channel, power of two
+const RING_MASK = RING_SIZE - 1;
+
+export interface PitchShifterOptions {
+  grainSize?: number; // samples, even
+  searchRange?: number; // ± samples searched for the best grain alignment
+}
+
+interface Grain {
+  start: number; // input position of the first grain sample
+  ratio: number; // read speed, fixed for the grain's lifetime
+  offset: number; // output samples rendered so far
+}
+
+/**
+ * Grain-based pitch shifter. Each grain reads the input at `ratio` speed; new grains start every
+ * half grain at a position chosen by waveform similarity (WSOLA) so overlapping grains stay in phase.
+ */
+export class WsolaPitchShifter {
+  private readonly grainSize: number;
+  private readonly hop: number;
+  private readonly searchRange: number;
+  private readonly window: Float32Array;
+  private readonly ring: Float32Array[];
+
+  private written: number = 0; // total input samples written
+  private grains: Grain[] = [];
+  private sinceGrain: number = 0;
+
+  constructor(private channelCount: number, options: PitchShifterOptions = {}) {
+    this.grainSize = options.grainSize ?? 2048;
+    this.hop = this.grainSize / 2;
+    this.searchRange = options.searchRange ?? 256;
+
+    // Periodic Hann: two half-overlapping windows sum to exactly one
+    this.window = Float32Array.from(
+      { length: this.grainSize },
+      (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / this.grainSize)
+    );
+    this.ring = Array.from({ length: channelCount }, () => new Float32Array(RING_SIZE));
+  }
+
+  /**
+   * Delay between input and output for a given ratio, in samples
+   */
+  getLatency(ratio: number): number {
+    return Math.ceil(this.grainSize * Math.max(ratio - 1, 0)) + this.searchRange + 2;
+  }
+
+  reset(): void {
+    this.ring.forEach(channel => channel.fill(0));
+    this.written = 0;
+    this.grains = [];
+    this.sinceGrain = 0;
+  }
+
+  /**
+   * Process one block. Missing input channels reuse the first channel (mono up-mix).
+   */
+  process(input: Float32Array[], output: Float32Array[], ratio: number): void {
+    const blockSize = output[0]?.length ?? input[0]?.length ?? 0;
+    const safeRatio = Math.max(MIN_PITCH_RATIO, Math.min(MAX_PITCH_RATIO, ratio));
+
+    for (let channel = 0; channel < this.channelCount; channel++) {
+      const source = input[channel] ?? input[0];
+      const ring = this.ring[channel]!;
+      for (let i = 0; i < blockSize; i++) {
+        ring[(this.written + i) & RING_MASK] = source?.[i] ?? 0;
+      }
+    }
+    this.written += blockSize;
+
+    for (let i = 0; i < blockSize; i++) {
+      if (this.grains.length === 0 || this.sinceGrain >= this.hop) {
+        this.startGrain(this.written - blockSize + i, safeRatio);
+      }
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const ring = this.ring[Math.min(channel, this.channelCount - 1)]!;
+        let sample = 0;
+        for (const grain of this.grains) {
+          sample += (this.window[grain.offset] ?? 0) * this.read(ring, grain.start + grain.offset * grain.ratio);
+        }
+        output[channel]![i] = sample;
+      }
+
+      this.grains.forEach(grain => grain.offset++);
+      this.grains = this.grains.filter(grain => grain.offset < this.grainSize);
+      this.sinceGrain++;
+    }
+  }
+
+  private startGrain(now: number, ratio: number): void {
+    const nominal = now - this.getLatency(ratio);
+    const previous = this.grains[this.grains.length - 1];
+    let start = nominal;
+
+    if (previous) {
+      // Where the previous grain's content continues from the overlap onwards
+      const continuation = previous.start + previous.offset * previous.ratio;
+      start = Math.abs(continuation - nominal) <= 0.5 && previous.ratio === ratio
+        ? continuation
+        : nominal + this.findBestOffset(continuation, previous.ratio, nominal, ratio);
+    }
+
+    this.grains.push({ start, ratio, offset: 0 });
+    this.sinceGrain = 0;
+  }
+
+  /**
+   * Offset around `nominal` whose waveform best matches the continuation of the previous grain
+   */
+  private findBestOffset(continuation: number, previousRatio: number, nominal: number, ratio: number): number {
+    const length = Math.min(this.hop, 512);
+    const step = 4;
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+
+    for (let offset = -this.searchRange; offset <= this.searchRange; offset += 2) {
+      let correlation = 0;
+      let energy = 0;
+
+      for (let j = 0; j < length; j += step) {
+        const reference = this.readMix(continuation + j * previousRatio);
+        const candidate = this.readMix(nominal + offset + j * ratio);
+        correlation += reference * candidate;
+        energy += candidate * candidate;
+      }
+
+      const score = energy > 0 ? correlation / Math.sqrt(energy) : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+
+    return bestOffset;
+  }
+
+  private readMix(position: number): number {
+    let sum = 0;
+    for (const ring of this.ring) {
+      sum += this.read(ring, position);
+    }
+    return sum;
+  }
+
+  /**
+   * Linearly interpolated ring buffer read
+   */
+  private read(ring: Float32Array, position: number): number {
+    if (position < 0) return 0;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const a = ring[index & RING_MASK] ?? 0;
+    const b = ring[(index + 1) & RING_MASK] ?? 0;
+    return a + (b - a) * fraction;
+  }
+}
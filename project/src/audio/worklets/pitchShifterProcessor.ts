@@ -0,0 +1,51 @@
+/**
+ * Pitch Shifter AudioWorklet processor for Meow-Play
+ * Runs WsolaPitchShifter on the audio rendering thread
+ */
+
+import { WsolaPitchShifter, PITCH_SHIFTER_PROCESSOR, MIN_PITCH_RATIO, MAX_PITCH_RATIO } from './WsolaPitchShifter';
+
+// AudioWorkletGlobalScope is not part of the DOM typings
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+declare function registerProcessor(
+  name: string,
+  processorCtor: new () => AudioWorkletProcessor & {
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+  }
+): void;
+
+const CHANNELS = 2;
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  private shifter = new WsolaPitchShifter(CHANNELS);
+
+  static get parameterDescriptors() {
+    return [{
+      name: 'pitchRatio',
+      defaultValue: 1,
+      minValue: MIN_PITCH_RATIO,
+      maxValue: MAX_PITCH_RATIO,
+      automationRate: 'k-rate'
+    }];
+  }
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent) => {
+      if (event.data?.type === 'reset') this.shifter.reset();
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const output = outputs[0];
+    if (!output || output.length === 0) return true;
+
+    this.shifter.process(inputs[0] ?? [], output, parameters['pitchRatio']?.[0] ?? 1);
+    return true;
+  }
+}
+
+registerProcessor(PITCH_SHIFTER_PROCESSOR, PitchShifterProcessor);
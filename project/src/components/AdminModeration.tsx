@@ -2,8 +2,8 @@
  * Admin Moderation Dashboard for Community Content
  */
 import React, { useState, useEffect } from 'react';
-import { Shield, Eye, CheckCircle, XCircle, Flag, User, Music, MessageSquare, Search, Filter } from 'lucide-react';
-import { CommunityApiService, CommunityMusic } from '../services/communityApi';
+import { Shield, Eye, CheckCircle, XCircle, Flag, User, Music, MessageSquare, Search, Filter, Copy } from 'lucide-react';
+import { CommunityApiService, CommunityMusic, NearDuplicateMatch } from '../services/communityApi';
 import { useAppSelector, useAppDispatch } from '../store';
 import { addToast } from '../store/slices/uiSlice';
 
@@ -17,6 +17,7 @@ interface ModerationItem {
   description?: string;
   created_at: string;
   priority: 'low' | 'medium' | 'high';
+  duplicates?: NearDuplicateMatch[];
 }
 
 interface AdminModerationProps {
@@ -86,7 +87,11 @@ export const AdminModeration: React.FC<AdminModerationProps> = ({ className }) =
         }
       ];
       
-      setModerationQueue(mockItems);
+      // Uploads the fingerprint check matched against existing music
+      const nearDuplicates = await communityApi.getNearDuplicateFlags().catch(() => []);
+      const duplicateItems = nearDuplicates.map(toDuplicateItem);
+
+      setModerationQueue([...duplicateItems, ...mockItems]);
     } catch (error) {
       console.error('Failed to load moderation queue:', error);
       dispatch(addToast({
@@ -161,6 +166,24 @@ export const AdminModeration: React.FC<AdminModerationProps> = ({ className }) =
     }
   };
 
+  const toDuplicateItem = (music: CommunityMusic): ModerationItem => {
+    const duplicates = music.near_duplicates ?? [];
+    const best = duplicates[0];
+    return {
+      id: `duplicate-${music.id}`,
+      type: 'music',
+      content: music,
+      status: music.status,
+      reason: 'possible duplicate',
+      ...(best && {
+        description: `Sounds like "${best.title}" by ${best.artist} (${Math.round(best.similarity * 100)}% match)`
+      }),
+      created_at: music.uploaded_at,
+      priority: best && best.similarity >= 0.95 ? 'high' : 'medium',
+      duplicates
+    };
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high': return 'text-red-400 bg-red-900/20';
@@ -313,6 +336,18 @@ export const AdminModeration: React.FC<AdminModerationProps> = ({ className }) =
                       {item.type === 'comment' && item.content.content}
                     </p>
 
+                    {item.duplicates && item.duplicates.length > 0 && (
+                      <div className="bg-orange-900/20 border border-orange-600/30 rounded p-2 mb-2">
+                        <p className="text-orange-400 text-sm font-medium flex items-center">
+                          <Copy className="w-4 h-4 mr-1" />
+                          Possible duplicate
+                        </p>
+                        {item.description && (
+                          <p className="text-orange-300 text-sm mt-1">{item.description}</p>
+                        )}
+                      </div>
+                    )}
+
                     {item.reported_by && (
                       <div className="bg-red-900/20 border border-red-600/30 rounded p-2 mb-2">
                         <p className="text-red-400 text-sm font-medium">
@@ -429,6 +464,23 @@ export const AdminModeration: React.FC<AdminModerationProps> = ({ className }) =
                   </div>
                 )}
 
+                {selectedItem.duplicates && selectedItem.duplicates.length > 0 && (
+                  <div className="bg-orange-900/20 border border-orange-600/30 rounded p-4">
+                    <h4 className="font-medium text-orange-400 mb-2">Possible Duplicates</h4>
+                    <ul className="space-y-2 text-sm">
+                      {selectedItem.duplicates.map(match => (
+                        <li key={match.music_id} className="flex justify-between text-orange-300">
+                          <span>{match.title} by {match.artist}</span>
+                          <span>
+                            {Math.round(match.similarity * 100)}% match
+                            {match.offset_seconds !== 0 && ` • offset ${match.offset_seconds}s`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {selectedItem.reported_by && (
                   <div className="bg-red-900/20 border border-red-600/30 rounded p-4">
                     <h4 className="font-medium text-red-400 mb-2">Report Details</h4>
@@ -1,5 +1,5 @@
 /**
- * Advanced Audio Player with Equalizer, Crossfade, and High-Quality Audio
+ * Advanced Audio Player with Equalizer, Crossfade, Tempo/Pitch, and High-Quality Audio
  */
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { useAppSelector, useAppDispatch } from '../store';
@@ -9,8 +9,19 @@ import {
   pauseSong, 
   resumeSong, 
   setLoading,
-  updateEqualizerSettings 
+  updateEqualizerSettings,
+  setTempo,
+  setPitchShift
 } from '../store/slices/musicSlice';
+import {
+  createPitchShifterNode,
+  getPitchRatio,
+  MIN_TEMPO,
+  MAX_TEMPO,
+  MAX_PITCH_SEMITONES
+} from '../audio/PitchShifter';
+import { audioFeatureAnalyzer } from '../audio/AudioFeatureAnalyzer';
+import WaveformSeekBar from './WaveformSeekBar';
 
 interface AdvancedAudioPlayerProps {
   className?: string;
@@ -26,7 +37,11 @@ export const AdvancedAudioPlayer: React.FC<AdvancedAudioPlayerProps> = ({ classN
     audioQuality,
     equalizerSettings,
     crossfadeEnabled,
-    crossfadeDuration
+    crossfadeDuration,
+    tempo,
+    pitchSemitones,
+    currentTime,
+    duration
   } = useAppSelector(state => state.music);
 
   const audioRef = useRef<HTMLAudioElement>(null);
@@ -35,6 +50,7 @@ export const AdvancedAudioPlayer: React.FC<AdvancedAudioPlayerProps> = ({ classN
   const gainNodeRef = useRef<GainNode | null>(null);
   const equalizerNodesRef = useRef<BiquadFilterNode[]>([]);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const pitchShifterRef = useRef<AudioWorkletNode | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
 
   // EQ frequency bands (10-band equalizer)
@@ -70,9 +86,17 @@ export const AdvancedAudioPlayer: React.FC<AdvancedAudioPlayerProps> = ({ classN
         return filter;
       });
 
+      // Pitch shifter keeps the pitch constant when the tempo changes
+      pitchShifterRef.current = await createPitchShifterNode(audioContext);
+
       // Connect audio graph
       let currentNode: AudioNode = sourceNodeRef.current;
       
+      if (pitchShifterRef.current) {
+        currentNode.connect(pitchShifterRef.current);
+        currentNode = pitchShifterRef.current;
+      }
+      
       // Connect equalizer chain
       if (equalizerSettings.enabled) {
         equalizerNodesRef.current.forEach(filter => {
@@ -122,6 +146,21 @@ export const AdvancedAudioPlayer: React.FC<AdvancedAudioPlayerProps> = ({ classN
     });
   }, [equalizerSettings]);
 
+  // Update tempo and pitch; the element resamples and the worklet corrects the pitch
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.defaultPlaybackRate = tempo;
+    audio.playbackRate = tempo;
+    audio.preservesPitch = !pitchShifterRef.current;
+
+    const pitchRatio = pitchShifterRef.current?.parameters.get('pitchRatio');
+    if (pitchRatio && audioContextRef.current) {
+      pitchRatio.setValueAtTime(getPitchRatio(tempo, pitchSemitones), audioContextRef.current.currentTime);
+    }
+  }, [tempo, pitchSemitones, isInitialized, currentSong]);
+
   // Update volume
   useEffect(() => {
     if (gainNodeRef.current) {
@@ -180,6 +219,9 @@ export const AdvancedAudioPlayer: React.FC<AdvancedAudioPlayerProps> = ({ classN
       audio.src = currentSong.url;
       audio.load();
     }
+
+    // Peaks for the seek bar are generated the first time a song is decoded
+    void audioFeatureAnalyzer.analyze(currentSong.id, currentSong.url);
   }, [currentSong, crossfadeEnabled, crossfadeDuration, dispatch]);
 
   // Audio event handlers
@@ -207,6 +249,13 @@ export const AdvancedAudioPlayer: React.FC<AdvancedAudioPlayerProps> = ({ classN
     dispatch(pauseSong());
   }, [dispatch]);
 
+  const handleSeek = useCallback((time: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+      dispatch(setCurrentTime(time));
+    }
+  }, [dispatch]);
+
   const handleCanPlay = useCallback(async () => {
     await initializeAudioContext();
   }, [initializeAudioContext]);
@@ -242,6 +291,61 @@ export const AdvancedAudioPlayer: React.FC<AdvancedAudioPlayerProps> = ({ classN
         crossOrigin="anonymous"
         preload="metadata"
       />
+
+      {/* Waveform Seek Bar */}
+      {currentSong && (
+        <WaveformSeekBar
+          songId={currentSong.id}
+          currentTime={currentTime}
+          duration={duration}
+          onSeek={handleSeek}
+          bars={160}
+          className="w-full h-12 mb-3"
+        />
+      )}
+
+      {/* Tempo / Pitch Controls */}
+      <div className="practice-controls flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <label className="flex items-center space-x-2">
+          <span>Tempo</span>
+          <input
+            type="range"
+            min={MIN_TEMPO}
+            max={MAX_TEMPO}
+            step="0.05"
+            value={tempo}
+            onChange={(e) => dispatch(setTempo(parseFloat(e.target.value)))}
+            className="w-24 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <span className="w-12 text-white">{tempo.toFixed(2)}x</span>
+        </label>
+
+        <label className="flex items-center space-x-2">
+          <span>Pitch</span>
+          <input
+            type="range"
+            min={-MAX_PITCH_SEMITONES}
+            max={MAX_PITCH_SEMITONES}
+            step="1"
+            value={pitchSemitones}
+            onChange={(e) => dispatch(setPitchShift(parseInt(e.target.value, 10)))}
+            className="w-24 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <span className="w-12 text-white">{pitchSemitones > 0 ? '+' : ''}{pitchSemitones} st</span>
+        </label>
+
+        {(tempo !== 1 || pitchSemitones !== 0) && (
+          <button
+            onClick={() => {
+              dispatch(setTempo(1));
+              dispatch(setPitchShift(0));
+            }}
+            className="text-purple-400 hover:text-purple-300 transition-colors"
+          >
+            Reset
+          </button>
+        )}
+      </div>
       
       {/* Equalizer Controls */}
       {equalizerSettings.enabled && (
@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { Search, Filter, Calendar, Clock, Star, Music, User, Disc } from 'lucide-react';
 import { useMusic } from '../contexts/MusicContext';
 import { useDebounce } from '../hooks/useDebounce';
+import { useAudioFeatures } from '../hooks/useAudioFeatures';
 import SongCard from './SongCard';
 
 interface SearchFilters {
@@ -25,6 +26,7 @@ const AdvancedSearch: React.FC = () => {
   });
   const [sortBy, setSortBy] = useState('relevance');
   const { songs } = useMusic();
+  const getFeatures = useAudioFeatures();
   
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
 
@@ -84,7 +86,7 @@ const AdvancedSearch: React.FC = () => {
     if (filters.tempo !== 'all') {
       const [min, max] = filters.tempo.split('-').map(Number);
       filtered = filtered.filter(song => {
-        const tempo = song.tempo || 120;
+        const tempo = song.tempo || getFeatures(song.id)?.tempo || 120;
         return tempo >= min && tempo <= max;
       });
     }
@@ -108,7 +110,7 @@ const AdvancedSearch: React.FC = () => {
           return 0;
       }
     });
-  }, [songs, debouncedSearchTerm, filters, sortBy]);
+  }, [songs, debouncedSearchTerm, filters, sortBy, getFeatures]);
 
   const availableGenres = useMemo(() => {
     return [...new Set(songs.map(song => song.genre).filter(Boolean))].sort();
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { useMusic } from '../contexts/MusicContext';
+import { AudioEffect } from '../audio/AudioEngine';
+import { AUDIO_EFFECT_DEFINITIONS, AudioEffectParameterDefinition, isAudioEffectId } from '../audio/AudioEffects';
+
+const formatParameter = (definition: AudioEffectParameterDefinition, value: number) => {
+  const decimals = definition.step < 0.01 ? 3 : definition.step < 1 ? 2 : 0;
+  return `${value.toFixed(decimals)}${definition.unit ? ` ${definition.unit}` : ''}`;
+};
+
+// Effects chain of the live player, in processing order
+const AudioEffectsPanel: React.FC = () => {
+  const { player } = useMusic();
+  const [effects, setEffects] = useState<AudioEffect[]>([]);
+
+  useEffect(() => {
+    if (!player) return;
+
+    setEffects(player.getEffects());
+    const handleEffectsChange = (e: Event) => {
+      setEffects((e as CustomEvent<{ effects: AudioEffect[] }>).detail.effects);
+    };
+    player.addEventListener('effectsChange', handleEffectsChange);
+    return () => player.removeEventListener('effectsChange', handleEffectsChange);
+  }, [player]);
+
+  if (!player) return null;
+
+  return (
+    <div className="border-t border-white/10 pt-6 space-y-4">
+      <span className="text-white font-medium">Effects</span>
+
+      {effects.map((effect, index) => {
+        const definition = isAudioEffectId(effect.id) ? AUDIO_EFFECT_DEFINITIONS[effect.id] : null;
+        if (!definition) return null;
+
+        return (
+          <div key={effect.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className={effect.enabled ? 'text-gray-300' : 'text-gray-500'}>{definition.name}</span>
+              <div className="flex items-center space-x-1">
+                <button
+                  type="button"
+                  onClick={() => player.moveEffect(effect.id, index - 1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  aria-label={`Move ${definition.name} earlier`}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => player.moveEffect(effect.id, index + 1)}
+                  disabled={index === effects.length - 1}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  aria-label={`Move ${definition.name} later`}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => player.setEffectEnabled(effect.id, !effect.enabled)}
+                  aria-label={definition.name}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    effect.enabled ? 'bg-purple-500' : 'bg-gray-600'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      effect.enabled ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+
+            {effect.enabled && Object.entries(definition.parameters).map(([name, parameter]) => {
+              const value = effect.parameters[name] ?? parameter.default;
+              return (
+                <div key={name} className="flex items-center justify-between pl-4">
+                  <span className="text-gray-400 text-sm">{parameter.label}</span>
+                  {parameter.options ? (
+                    <select
+                      value={value}
+                      onChange={(e) => player.setEffectParameter(effect.id, name, parseInt(e.target.value, 10))}
+                      aria-label={`${definition.name} ${parameter.label}`}
+                      className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      {parameter.options.map((option, i) => (
+                        <option key={option} value={i}>{option}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="range"
+                        min={parameter.min}
+                        max={parameter.max}
+                        step={parameter.step}
+                        value={value}
+                        onChange={(e) => player.setEffectParameter(effect.id, name, parseFloat(e.target.value))}
+                        aria-label={`${definition.name} ${parameter.label}`}
+                        className="w-32 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+                      />
+                      <span className="text-white text-sm w-20 text-right">{formatParameter(parameter, value)}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AudioEffectsPanel;
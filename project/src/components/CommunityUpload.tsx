@@ -1,9 +1,9 @@
 /**
  * Community Upload Component with Progress Tracking
  */
-import React, { useState, useCallback } from 'react';
-import { Upload, Music, Image, Tag, Globe, Lock, AlertCircle, CheckCircle, X } from 'lucide-react';
-import { CommunityApiService, UploadProgress } from '../services/communityApi';
+import React, { useState, useCallback, useRef } from 'react';
+import { Upload, Music, Image, Tag, Globe, Lock, AlertCircle, CheckCircle, X, Copy } from 'lucide-react';
+import { CommunityApiService, NearDuplicateMatch, UploadProgress } from '../services/communityApi';
 import { useAppSelector, useAppDispatch } from '../store';
 import { addToast } from '../store/slices/uiSlice';
 
@@ -36,6 +36,11 @@ export const CommunityUpload: React.FC<CommunityUploadProps> = ({
   const [copyrightInfo, setCopyrightInfo] = useState('');
   const [shareToPublic, setShareToPublic] = useState(true);
 
+  // Duplicate check runs as soon as a file is picked
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  const [nearDuplicates, setNearDuplicates] = useState<NearDuplicateMatch[]>([]);
+  const duplicateCheckFile = useRef<File | null>(null);
+
   const communityApi = CommunityApiService.getInstance();
 
   const genres = [
@@ -87,6 +92,7 @@ export const CommunityUpload: React.FC<CommunityUploadProps> = ({
     }
 
     setFile(selectedFile);
+    checkDuplicates(selectedFile);
     
     // Auto-extract metadata from filename if possible
     const filename = selectedFile.name.replace(/\.[^/.]+$/, '');
@@ -102,6 +108,30 @@ export const CommunityUpload: React.FC<CommunityUploadProps> = ({
     }
   };
 
+  const checkDuplicates = (selectedFile: File) => {
+    duplicateCheckFile.current = selectedFile;
+    setNearDuplicates([]);
+    setCheckingDuplicates(true);
+
+    communityApi.checkForDuplicates(selectedFile)
+      .then(result => {
+        if (duplicateCheckFile.current !== selectedFile) return;
+        if (result.exactMatch) {
+          dispatch(addToast({
+            type: 'error',
+            message: `This file is already in the community as "${result.exactMatch.title}"`
+          }));
+        }
+        setNearDuplicates(result.nearDuplicates);
+      })
+      .catch(error => console.warn('Duplicate check failed:', error))
+      .finally(() => {
+        if (duplicateCheckFile.current === selectedFile) {
+          setCheckingDuplicates(false);
+        }
+      });
+  };
+
   const handleAddTag = () => {
     const tag = tagInput.trim().toLowerCase();
     if (tag && !tags.includes(tag) && tags.length < 10) {
@@ -160,6 +190,13 @@ export const CommunityUpload: React.FC<CommunityUploadProps> = ({
           : 'Music uploaded to your library!'
       }));
 
+      if (result.near_duplicates?.length || nearDuplicates.length > 0) {
+        dispatch(addToast({
+          type: 'warning',
+          message: 'Your upload sounds like an existing song and will be reviewed by a moderator'
+        }));
+      }
+
       // Reset form
       setFile(null);
       setTitle('');
@@ -171,6 +208,8 @@ export const CommunityUpload: React.FC<CommunityUploadProps> = ({
       setExplicitContent(false);
       setCopyrightInfo('');
       setUploadProgress(null);
+      setNearDuplicates([]);
+      duplicateCheckFile.current = null;
 
       if (onUploadComplete) {
         onUploadComplete(result.id);
@@ -199,6 +238,9 @@ export const CommunityUpload: React.FC<CommunityUploadProps> = ({
     setExplicitContent(false);
     setCopyrightInfo('');
     setUploadProgress(null);
+    setNearDuplicates([]);
+    setCheckingDuplicates(false);
+    duplicateCheckFile.current = null;
   };
 
   return (
@@ -469,6 +511,34 @@ export const CommunityUpload: React.FC<CommunityUploadProps> = ({
                 </div>
               </div>
 
+              {/* Possible Duplicates */}
+              {checkingDuplicates && (
+                <div className="text-sm text-gray-400 flex items-center">
+                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-gray-400 mr-2"></div>
+                  Checking the community library for this song...
+                </div>
+              )}
+              {nearDuplicates.length > 0 && (
+                <div className="bg-orange-900/20 border border-orange-600/30 rounded-lg p-4">
+                  <div className="flex items-start space-x-3">
+                    <Copy className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" />
+                    <div className="text-sm text-orange-200">
+                      <p className="font-medium mb-1">This sounds like music already in the community:</p>
+                      <ul className="space-y-1 text-orange-300">
+                        {nearDuplicates.map(match => (
+                          <li key={match.music_id}>
+                            • {match.title} by {match.artist} ({Math.round(match.similarity * 100)}% match)
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="mt-2 text-orange-300">
+                        You can still upload it, but a moderator will review it before it is shared.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Warning */}
               <div className="bg-yellow-900/20 border border-yellow-600/30 rounded-lg p-4">
                 <div className="flex items-start space-x-3">
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Wifi, WifiOff, RefreshCw, CheckCircle, AlertCircle, Clock } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import OutboxConflicts from './OutboxConflicts';
 
 const ConnectionStatus: React.FC = () => {
   const { isOnline, syncStatus, forceSync } = useAuth();
@@ -51,6 +52,9 @@ const ConnectionStatus: React.FC = () => {
         <span className="text-sm text-gray-300">{getSyncText()}</span>
       </div>
 
+      {/* Offline actions that did not sync */}
+      <OutboxConflicts />
+
       {/* Manual Sync Button */}
       {isOnline && (
         <button
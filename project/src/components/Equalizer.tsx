@@ -1,36 +1,200 @@
-import React from 'react';
-import { Settings, RotateCcw } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Settings, RotateCcw, Plus, Trash2, Upload, Download } from 'lucide-react';
 import { useMusic } from '../contexts/MusicContext';
+import { usePlaybackPreferences } from '../hooks/usePlaybackPreferences';
+import AudioEffectsPanel from './AudioEffectsPanel';
+import TempoControls from './TempoControls';
+import TrackExportPanel from './TrackExportPanel';
+import { ReplayGainMode } from '../types/music';
+import {
+  ParametricEqualizer,
+  DEFAULT_EQUALIZER_BANDS,
+  EQUALIZER_GAIN_RANGE,
+  MAX_EQUALIZER_BANDS,
+  EqualizerBand,
+  EqualizerFilterType,
+  EqualizerPresetFormat
+} from '../audio/ParametricEqualizer';
 
 interface EqualizerProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const FILTER_LABELS: Record<EqualizerFilterType, string> = {
+  peaking: 'Peak',
+  lowshelf: 'Low shelf',
+  highshelf: 'High shelf',
+  lowpass: 'Low pass',
+  highpass: 'High pass',
+  notch: 'Notch'
+};
+
+// Response curve geometry
+const CURVE_WIDTH = 600;
+const CURVE_HEIGHT = 160;
+const CURVE_RANGE = 18; // ±dB shown
+const CURVE_POINTS = 256;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+const frequencyToX = (frequency: number) =>
+  (Math.log(frequency / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY)) * CURVE_WIDTH;
+
+const gainToY = (gain: number) =>
+  CURVE_HEIGHT / 2 - (Math.max(-CURVE_RANGE, Math.min(CURVE_RANGE, gain)) / CURVE_RANGE) * (CURVE_HEIGHT / 2);
+
+const formatFrequency = (frequency: number) =>
+  frequency >= 1000 ? `${Number((frequency / 1000).toFixed(1))}k` : `${Math.round(frequency)}`;
+
+interface NumberFieldProps {
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  disabled?: boolean;
+  label: string;
+  onChange: (value: number) => void;
+}
+
+// Keeps the text being typed; in-range values apply as they are typed, the rest are clamped on blur
+const NumberField: React.FC<NumberFieldProps> = ({ value, min, max, step, disabled, label, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    const parsed = parseFloat(text);
+    if (parsed >= min && parsed <= max) onChange(parsed);
+  };
+
+  const handleBlur = () => {
+    const parsed = parseFloat(draft ?? '');
+    setDraft(null);
+    if (Number.isFinite(parsed)) onChange(Math.max(min, Math.min(max, parsed)));
+  };
+
+  return (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={draft ?? value}
+      disabled={disabled}
+      aria-label={label}
+      onChange={(e) => handleChange(e.target.value)}
+      onBlur={handleBlur}
+      className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm disabled:opacity-40"
+    />
+  );
+};
+
 const Equalizer: React.FC<EqualizerProps> = ({ isOpen, onClose }) => {
-  const { equalizer, setEqualizer, crossfadeEnabled, crossfadeDuration, setCrossfade } = useMusic();
+  const { equalizer, setEqualizer, crossfadeEnabled, crossfadeDuration, setCrossfade, player } = useMusic();
+  const [preferences, updatePreferences] = usePlaybackPreferences();
+  const [importError, setImportError] = useState<string | null>(null);
+  const [normalizationGain, setNormalizationGain] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const responseContextRef = useRef<OfflineAudioContext | null>(null);
+
+  const frequencies = useMemo(
+    () => ParametricEqualizer.logFrequencies(CURVE_POINTS, MIN_FREQUENCY, MAX_FREQUENCY),
+    []
+  );
 
-  const handleEqualizerChange = (band: keyof typeof equalizer, value: number) => {
+  // Combined response from BiquadFilterNode.getFrequencyResponse on a silent offline context
+  const responsePath = useMemo(() => {
+    if (!isOpen || typeof OfflineAudioContext === 'undefined') return null;
+
+    responseContextRef.current ??= new OfflineAudioContext(1, 1, 48000);
+    const response = equalizer.enabled
+      ? ParametricEqualizer.computeResponse(
+          responseContextRef.current,
+          { name: 'Current', preamp: equalizer.preamp, bands: equalizer.bands },
+          frequencies
+        )
+      : new Float32Array(frequencies.length);
+
+    return Array.from(frequencies, (frequency, i) =>
+      `${i === 0 ? 'M' : 'L'}${frequencyToX(frequency).toFixed(1)},${gainToY(response[i] ?? 0).toFixed(1)}`
+    ).join(' ');
+  }, [isOpen, equalizer, frequencies]);
+
+  // Gain the player applies to the current track
+  useEffect(() => {
+    if (!player) return;
+
+    setNormalizationGain(player.getState().normalizationGain);
+    const handleNormalizationChange = (e: Event) => {
+      setNormalizationGain((e as CustomEvent).detail.gainDb);
+    };
+    player.addEventListener('normalizationChange', handleNormalizationChange);
+    return () => player.removeEventListener('normalizationChange', handleNormalizationChange);
+  }, [player]);
+
+  const updateBand = (index: number, changes: Partial<EqualizerBand>) => {
+    setEqualizer({
+      ...equalizer,
+      bands: equalizer.bands.map((band, i) => (i === index ? { ...band, ...changes } : band))
+    });
+  };
+
+  const addBand = () => {
+    if (equalizer.bands.length >= MAX_EQUALIZER_BANDS) return;
     setEqualizer({
       ...equalizer,
-      [band]: value
+      bands: [...equalizer.bands, { type: 'peaking', frequency: 1000, gain: 0, q: 1, enabled: true }]
+    });
+  };
+
+  const removeBand = (index: number) => {
+    setEqualizer({
+      ...equalizer,
+      bands: equalizer.bands.filter((_, i) => i !== index)
     });
   };
 
   const resetEqualizer = () => {
+    setImportError(null);
     setEqualizer({
-      bass: 0,
-      mid: 0,
-      treble: 0,
-      enabled: true
+      enabled: true,
+      preamp: 0,
+      bands: DEFAULT_EQUALIZER_BANDS.map(band => ({ ...band }))
     });
   };
 
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const preset = ParametricEqualizer.parse(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      setEqualizer({ enabled: true, preamp: preset.preamp, bands: preset.bands });
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to import preset');
+    }
+  };
+
+  const handleExport = (format: EqualizerPresetFormat) => {
+    const preset = { name: 'Meow-Play', preamp: equalizer.preamp, bands: equalizer.bands };
+    const content = format === 'json' ? ParametricEqualizer.toJSON(preset) : ParametricEqualizer.toText(preset);
+    const url = URL.createObjectURL(new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = format === 'json' ? 'equalizer.json' : 'ParametricEQ.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-gray-900 rounded-xl w-full max-w-md">
+      <div className="bg-gray-900 rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-white/10">
           <div className="flex items-center space-x-2">
@@ -50,7 +214,7 @@ const Equalizer: React.FC<EqualizerProps> = ({ isOpen, onClose }) => {
           <div className="flex items-center justify-between">
             <span className="text-white font-medium">Equalizer</span>
             <button
-              onClick={() => handleEqualizerChange('enabled', !equalizer.enabled)}
+              onClick={() => setEqualizer({ ...equalizer, enabled: !equalizer.enabled })}
               className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
                 equalizer.enabled ? 'bg-purple-500' : 'bg-gray-600'
               }`}
@@ -65,69 +229,186 @@ const Equalizer: React.FC<EqualizerProps> = ({ isOpen, onClose }) => {
 
           {/* EQ Controls */}
           <div className={`space-y-4 ${!equalizer.enabled ? 'opacity-50 pointer-events-none' : ''}`}>
-            <div className="flex items-center justify-between">
-              <span className="text-gray-300">Bass</span>
-              <div className="flex items-center space-x-2">
-                <span className="text-gray-400 text-sm w-8">-12</span>
-                <input
-                  type="range"
-                  min="-12"
-                  max="12"
-                  step="1"
-                  value={equalizer.bass}
-                  onChange={(e) => handleEqualizerChange('bass', parseFloat(e.target.value))}
-                  className="w-32 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
-                />
-                <span className="text-gray-400 text-sm w-8">+12</span>
-                <span className="text-white text-sm w-8">{equalizer.bass > 0 ? '+' : ''}{equalizer.bass}</span>
-              </div>
-            </div>
+            {/* Frequency response */}
+            {responsePath && (
+              <svg
+                viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+                className="w-full h-40 bg-gray-800 rounded-lg"
+                role="img"
+                aria-label="Equalizer frequency response"
+              >
+                {GRID_FREQUENCIES.map(frequency => (
+                  <g key={frequency}>
+                    <line
+                      x1={frequencyToX(frequency)}
+                      x2={frequencyToX(frequency)}
+                      y1={0}
+                      y2={CURVE_HEIGHT}
+                      className="stroke-white/10"
+                    />
+                    <text x={frequencyToX(frequency) + 2} y={CURVE_HEIGHT - 4} className="fill-gray-500 text-[10px]">
+                      {formatFrequency(frequency)}
+                    </text>
+                  </g>
+                ))}
+                <line x1={0} x2={CURVE_WIDTH} y1={gainToY(0)} y2={gainToY(0)} className="stroke-white/20" />
+                <path d={responsePath} fill="none" className="stroke-purple-400" strokeWidth={2} />
+                {equalizer.bands.filter(band => band.enabled).map((band, index) => (
+                  <circle
+                    key={index}
+                    cx={frequencyToX(band.frequency)}
+                    cy={gainToY(ParametricEqualizer.hasGain(band.type) ? band.gain : 0)}
+                    r={4}
+                    className="fill-purple-300"
+                  />
+                ))}
+              </svg>
+            )}
 
+            {/* Preamp */}
             <div className="flex items-center justify-between">
-              <span className="text-gray-300">Mid</span>
+              <span className="text-gray-300">Preamp</span>
               <div className="flex items-center space-x-2">
-                <span className="text-gray-400 text-sm w-8">-12</span>
                 <input
                   type="range"
-                  min="-12"
-                  max="12"
-                  step="1"
-                  value={equalizer.mid}
-                  onChange={(e) => handleEqualizerChange('mid', parseFloat(e.target.value))}
-                  className="w-32 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+                  min={-EQUALIZER_GAIN_RANGE}
+                  max={EQUALIZER_GAIN_RANGE / 2}
+                  step="0.5"
+                  value={equalizer.preamp}
+                  onChange={(e) => setEqualizer({ ...equalizer, preamp: parseFloat(e.target.value) })}
+                  className="w-40 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
                 />
-                <span className="text-gray-400 text-sm w-8">+12</span>
-                <span className="text-white text-sm w-8">{equalizer.mid > 0 ? '+' : ''}{equalizer.mid}</span>
+                <span className="text-white text-sm w-16 text-right">
+                  {equalizer.preamp > 0 ? '+' : ''}{equalizer.preamp} dB
+                </span>
               </div>
             </div>
 
-            <div className="flex items-center justify-between">
-              <span className="text-gray-300">Treble</span>
-              <div className="flex items-center space-x-2">
-                <span className="text-gray-400 text-sm w-8">-12</span>
-                <input
-                  type="range"
-                  min="-12"
-                  max="12"
-                  step="1"
-                  value={equalizer.treble}
-                  onChange={(e) => handleEqualizerChange('treble', parseFloat(e.target.value))}
-                  className="w-32 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
-                />
-                <span className="text-gray-400 text-sm w-8">+12</span>
-                <span className="text-white text-sm w-8">{equalizer.treble > 0 ? '+' : ''}{equalizer.treble}</span>
+            {/* Bands */}
+            <div className="space-y-2">
+              <div className="grid grid-cols-[auto_1fr_1fr_1fr_1fr_auto] gap-2 text-xs text-gray-400 px-1">
+                <span>On</span>
+                <span>Type</span>
+                <span>Freq (Hz)</span>
+                <span>Gain (dB)</span>
+                <span>Q</span>
+                <span />
               </div>
+              {equalizer.bands.map((band, index) => (
+                <div key={index} className="grid grid-cols-[auto_1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                  <input
+                    type="checkbox"
+                    checked={band.enabled}
+                    onChange={(e) => updateBand(index, { enabled: e.target.checked })}
+                    aria-label={`Enable band ${index + 1}`}
+                    className="accent-purple-500"
+                  />
+                  <select
+                    value={band.type}
+                    onChange={(e) => updateBand(index, { type: e.target.value as EqualizerFilterType })}
+                    className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {(Object.keys(FILTER_LABELS) as EqualizerFilterType[]).map(type => (
+                      <option key={type} value={type}>{FILTER_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <NumberField
+                    min={MIN_FREQUENCY}
+                    max={MAX_FREQUENCY}
+                    value={band.frequency}
+                    label={`Band ${index + 1} frequency`}
+                    onChange={(frequency) => updateBand(index, { frequency })}
+                  />
+                  <NumberField
+                    min={-EQUALIZER_GAIN_RANGE}
+                    max={EQUALIZER_GAIN_RANGE}
+                    step={0.5}
+                    value={band.gain}
+                    disabled={!ParametricEqualizer.hasGain(band.type)}
+                    label={`Band ${index + 1} gain`}
+                    onChange={(gain) => updateBand(index, { gain })}
+                  />
+                  <NumberField
+                    min={0.1}
+                    max={30}
+                    step={0.1}
+                    value={band.q}
+                    disabled={!ParametricEqualizer.hasQ(band.type)}
+                    label={`Band ${index + 1} Q`}
+                    onChange={(q) => updateBand(index, { q })}
+                  />
+                  <button
+                    onClick={() => removeBand(index)}
+                    className="text-gray-400 hover:text-red-400 transition-colors"
+                    aria-label={`Remove band ${index + 1}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
             </div>
 
-            <button
-              onClick={resetEqualizer}
-              className="flex items-center space-x-2 text-purple-400 hover:text-purple-300 transition-colors"
-            >
-              <RotateCcw className="w-4 h-4" />
-              <span>Reset</span>
-            </button>
+            {importError && (
+              <p className="text-red-400 text-sm">{importError}</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4">
+              <button
+                onClick={addBand}
+                disabled={equalizer.bands.length >= MAX_EQUALIZER_BANDS}
+                className="flex items-center space-x-2 text-purple-400 hover:text-purple-300 transition-colors disabled:opacity-40"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add band</span>
+              </button>
+
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center space-x-2 text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Import</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.json,text/plain,application/json"
+                onChange={handleImport}
+                className="hidden"
+              />
+
+              <button
+                onClick={() => handleExport('text')}
+                className="flex items-center space-x-2 text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                <span>ParametricEQ.txt</span>
+              </button>
+
+              <button
+                onClick={() => handleExport('json')}
+                className="flex items-center space-x-2 text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                <span>JSON</span>
+              </button>
+
+              <button
+                onClick={resetEqualizer}
+                className="flex items-center space-x-2 text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>Reset</span>
+              </button>
+            </div>
           </div>
 
+          <AudioEffectsPanel />
+
+          <TempoControls />
+
+          <TrackExportPanel />
+
           {/* Crossfade */}
           <div className="border-t border-white/10 pt-6">
             <div className="flex items-center justify-between mb-4">
@@ -165,6 +446,135 @@ const Equalizer: React.FC<EqualizerProps> = ({ isOpen, onClose }) => {
                 </div>
               </div>
             )}
+
+            {crossfadeEnabled && (
+              <div className="flex items-center justify-between mt-4">
+                <div>
+                  <span className="text-gray-300">Smart crossfade</span>
+                  <p className="text-gray-400 text-sm">Trim silence and line the fade up with the beat</p>
+                </div>
+                <button
+                  onClick={() => updatePreferences({ smartCrossfade: !preferences.smartCrossfade })}
+                  aria-label="Smart crossfade"
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    preferences.smartCrossfade ? 'bg-purple-500' : 'bg-gray-600'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      preferences.smartCrossfade ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Gapless */}
+          <div className="border-t border-white/10 pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-white font-medium">Gapless playback</span>
+                <p className="text-gray-400 text-sm">Start the next track exactly where this one ends</p>
+              </div>
+              <button
+                onClick={() => updatePreferences({ gaplessEnabled: !preferences.gaplessEnabled })}
+                aria-label="Gapless playback"
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  preferences.gaplessEnabled ? 'bg-purple-500' : 'bg-gray-600'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    preferences.gaplessEnabled ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+
+          {/* Volume normalization */}
+          <div className="border-t border-white/10 pt-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-white font-medium">ReplayGain</span>
+                <p className="text-gray-400 text-sm">Use the loudness tags stored in the file</p>
+              </div>
+              <button
+                onClick={() => updatePreferences({ replayGainEnabled: !preferences.replayGainEnabled })}
+                aria-label="ReplayGain"
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  preferences.replayGainEnabled ? 'bg-purple-500' : 'bg-gray-600'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    preferences.replayGainEnabled ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-white font-medium">Normalize untagged tracks</span>
+                <p className="text-gray-400 text-sm">Measure the loudness of tracks without tags</p>
+              </div>
+              <button
+                onClick={() => updatePreferences({ normalizationEnabled: !preferences.normalizationEnabled })}
+                aria-label="Normalize untagged tracks"
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  preferences.normalizationEnabled ? 'bg-purple-500' : 'bg-gray-600'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    preferences.normalizationEnabled ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+
+            {(preferences.replayGainEnabled || preferences.normalizationEnabled) && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-300">Mode</span>
+                  <select
+                    value={preferences.replayGainMode}
+                    onChange={(e) => updatePreferences({ replayGainMode: e.target.value as ReplayGainMode })}
+                    className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="track">Track</option>
+                    <option value="album">Album</option>
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-300">Preamp</span>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="range"
+                      min="-15"
+                      max="15"
+                      step="0.5"
+                      value={preferences.replayGainPreamp}
+                      onChange={(e) => updatePreferences({ replayGainPreamp: parseFloat(e.target.value) })}
+                      className="w-40 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+                    />
+                    <span className="text-white text-sm w-16 text-right">
+                      {preferences.replayGainPreamp > 0 ? '+' : ''}{preferences.replayGainPreamp} dB
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-300">Current track</span>
+                  <span className="text-white text-sm">
+                    {normalizationGain > 0 ? '+' : ''}{normalizationGain.toFixed(1)} dB
+                  </span>
+                </div>
+              </>
+            )}
           </div>
         </div>
       </div>
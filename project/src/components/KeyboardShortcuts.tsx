@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import { useMusic } from '../contexts/MusicContext';
 import { useNavigate } from 'react-router-dom';
+import { sleepTimer } from '../managers/SleepTimer';
 
 const KeyboardShortcuts: React.FC = () => {
   const { togglePlay, nextSong, prevSong, setVolume, volume } = useMusic();
@@ -43,6 +44,16 @@ const KeyboardShortcuts: React.FC = () => {
             setVolume(Math.max(0, volume - 0.1));
           }
           break;
+        case 'KeyZ':
+          if (e.shiftKey) {
+            sleepTimer.extend();
+          }
+          break;
+        case 'KeyX':
+          if (e.shiftKey) {
+            sleepTimer.cancel();
+          }
+          break;
         case 'KeyH':
           if (e.ctrlKey || e.metaKey) {
             navigate('/');
@@ -1,14 +1,39 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Play, Sparkles } from 'lucide-react';
 import { MoodPlaylist } from '../types';
 import { mockMoodPlaylists } from '../utils/mockData';
 import { useMusic } from '../contexts/MusicContext';
+import { useAudioFeatures } from '../hooks/useAudioFeatures';
+import type { StoredAudioFeatures } from '../audio/AudioFeatureAnalyzer';
+
+// Which analyzed songs belong in each mood playlist
+const MOOD_RULES: Record<string, (features: StoredAudioFeatures) => boolean> = {
+  relaxed: features => features.energy < 0.4 && features.tempo < 100,
+  energetic: features => features.energy >= 0.65,
+  focused: features => features.energy >= 0.3 && features.energy < 0.6 && features.danceability < 0.6,
+  happy: features => features.mode === 1 && features.tempo >= 100 && features.energy >= 0.45
+};
+
+// Below this many matches the curated picks are shown instead
+const MIN_MOOD_SONGS = 2;
 
 const MoodPlaylists: React.FC = () => {
-  const { setQueue, play } = useMusic();
+  const { setQueue, play, songs } = useMusic();
+  const getFeatures = useAudioFeatures();
+
+  const playlists = useMemo(() => mockMoodPlaylists.map(playlist => {
+    const rule = MOOD_RULES[playlist.mood];
+    if (!rule) return playlist;
+
+    const matches = songs.filter(song => {
+      const features = getFeatures(song.id);
+      return features ? rule(features) : false;
+    });
+    return matches.length >= MIN_MOOD_SONGS ? { ...playlist, songs: matches } : playlist;
+  }), [songs, getFeatures]);
 
   const handlePlayMoodPlaylist = (playlist: MoodPlaylist) => {
-    setQueue(playlist.songs);
+    setQueue(playlist.songs, 0, { type: 'playlist', id: playlist.id, name: playlist.name });
     play(playlist.songs[0]);
   };
 
@@ -21,7 +46,7 @@ const MoodPlaylists: React.FC = () => {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {mockMoodPlaylists.map((playlist) => (
+        {playlists.map((playlist) => (
           <div
             key={playlist.id}
             className="group relative bg-white/5 backdrop-blur-sm rounded-lg p-6 hover:bg-white/10 transition-all cursor-pointer"
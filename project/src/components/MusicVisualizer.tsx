@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useMusic } from '../contexts/MusicContext';
 
 interface MusicVisualizerProps {
@@ -12,38 +12,13 @@ const MusicVisualizer: React.FC<MusicVisualizerProps> = ({
   barCount = 32,
   height = 100 
 }) => {
-  const { audioRef, isPlaying } = useMusic();
+  const { player, isPlaying } = useMusic();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
-  const analyserRef = useRef<AnalyserNode>();
-  const dataArrayRef = useRef<Uint8Array>();
-  const [isInitialized, setIsInitialized] = useState(false);
 
+  // Bars follow the player's analyser; without audio data they animate randomly
   useEffect(() => {
-    if (!audioRef.current || isInitialized) return;
-
-    try {
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const analyser = audioContext.createAnalyser();
-      const source = audioContext.createMediaElementSource(audioRef.current);
-      
-      source.connect(analyser);
-      analyser.connect(audioContext.destination);
-      
-      analyser.fftSize = 256;
-      const bufferLength = analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      
-      analyserRef.current = analyser;
-      dataArrayRef.current = dataArray;
-      setIsInitialized(true);
-    } catch (error) {
-      console.warn('Audio context not available:', error);
-    }
-  }, [audioRef, isInitialized]);
-
-  useEffect(() => {
-    if (!isPlaying || !analyserRef.current || !dataArrayRef.current) {
+    if (!isPlaying) {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
@@ -57,9 +32,7 @@ const MusicVisualizer: React.FC<MusicVisualizerProps> = ({
     if (!ctx) return;
 
     const draw = () => {
-      if (!analyserRef.current || !dataArrayRef.current) return;
-
-      analyserRef.current.getByteFrequencyData(dataArrayRef.current);
+      const frequencyData = player?.getVisualizationData()?.frequencyData;
 
       ctx.clearRect(0, 0, canvas.width, canvas.height);
 
@@ -67,7 +40,9 @@ const MusicVisualizer: React.FC<MusicVisualizerProps> = ({
       let x = 0;
 
       for (let i = 0; i < barCount; i++) {
-        const barHeight = (dataArrayRef.current[i] / 255) * canvas.height;
+        const barHeight = frequencyData
+          ? ((frequencyData[i] ?? 0) / 255) * canvas.height
+          : Math.random() * canvas.height * 0.8 + canvas.height * 0.1;
         
         // Create gradient
         const gradient = ctx.createLinearGradient(0, canvas.height, 0, canvas.height - barHeight);
@@ -91,49 +66,7 @@ const MusicVisualizer: React.FC<MusicVisualizerProps> = ({
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isPlaying, barCount]);
-
-  // Fallback animation when no audio context
-  useEffect(() => {
-    if (isInitialized || !isPlaying) return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const draw = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      const barWidth = canvas.width / barCount;
-      let x = 0;
-
-      for (let i = 0; i < barCount; i++) {
-        const barHeight = Math.random() * canvas.height * 0.8 + canvas.height * 0.1;
-        
-        const gradient = ctx.createLinearGradient(0, canvas.height, 0, canvas.height - barHeight);
-        gradient.addColorStop(0, '#a855f7');
-        gradient.addColorStop(0.5, '#ec4899');
-        gradient.addColorStop(1, '#f59e0b');
-
-        ctx.fillStyle = gradient;
-        ctx.fillRect(x, canvas.height - barHeight, barWidth - 2, barHeight);
-
-        x += barWidth;
-      }
-
-      animationRef.current = requestAnimationFrame(draw);
-    };
-
-    draw();
-
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
-  }, [isPlaying, isInitialized, barCount]);
+  }, [isPlaying, barCount, player]);
 
   return (
     <canvas
@@ -0,0 +1,451 @@
+/**
+ * Offline & Data Settings Component
+ */
+import React, { useState } from 'react';
+import { Wifi, Gauge, Download, ListChecks, ArrowUp, ArrowDown, Trash2, Plus, Eye, RefreshCw, Archive, Upload, ShieldAlert } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAppSelector, useAppDispatch, RootState } from '../store';
+import {
+  setDataSaver,
+  setDownloadOnWifiOnly,
+  addOfflineRule,
+  updateOfflineRule,
+  removeOfflineRule
+} from '../store/slices/offlineSlice';
+import { addToast } from '../store/slices/uiSlice';
+import { OfflineManager, EXPORT_FILE_EXTENSION } from '../audio/OfflineManager';
+import { BUNDLE_MIME_TYPE } from '../audio/OfflineBundle';
+import type { OfflineRule, OfflineRuleSource, SyncPlan } from '../audio/OfflineSync';
+import type { Playlist } from '../types/music';
+
+interface OfflineSettingsProps {
+  className?: string;
+}
+
+type RuleType = OfflineRuleSource['type'];
+
+const RULE_TYPES: Array<{ value: RuleType; label: string }> = [
+  { value: 'liked', label: 'Liked songs' },
+  { value: 'playlist', label: 'A playlist' },
+  { value: 'mostPlayed', label: 'Most played' },
+  { value: 'recentlyPlayed', label: 'Recently played' }
+];
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1024 ** 2)} MB`;
+};
+
+const describeSource = (source: OfflineRuleSource, playlistName?: string): string => {
+  switch (source.type) {
+    case 'liked':
+      return 'Liked songs';
+    case 'playlist':
+      return `Playlist: ${playlistName ?? 'deleted playlist'}`;
+    case 'mostPlayed':
+      return `Top ${source.limit} most played`;
+    case 'recentlyPlayed':
+      return `Played in the last ${source.days} days`;
+  }
+};
+
+const ToggleSwitch: React.FC<{
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+  description: string;
+}> = ({ checked, onChange, label, description }) => (
+  <div className="flex items-center justify-between p-4 bg-gray-800 rounded-lg">
+    <div className="flex-1">
+      <h3 className="font-medium text-white">{label}</h3>
+      <p className="text-sm text-gray-400 mt-1">{description}</p>
+    </div>
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={() => onChange(!checked)}
+      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+        checked ? 'bg-purple-600' : 'bg-gray-600'
+      }`}
+    >
+      <span
+        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+          checked ? 'translate-x-6' : 'translate-x-1'
+        }`}
+      />
+    </button>
+  </div>
+);
+
+export const OfflineSettings: React.FC<OfflineSettingsProps> = ({ className }) => {
+  const dispatch = useAppDispatch();
+  const { dataSaver, downloadOnWifiOnly, offlineRules } = useAppSelector((state: RootState) => state.offline);
+  const playlists: Playlist[] = useAppSelector((state: RootState) => state.playlists.playlists);
+
+  const [newRuleType, setNewRuleType] = useState<RuleType>('liked');
+  const [newRulePlaylist, setNewRulePlaylist] = useState('');
+  const [newRuleCount, setNewRuleCount] = useState(50);
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const [working, setWorking] = useState<'preview' | 'sync' | 'export' | 'import' | null>(null);
+
+  const rules = [...offlineRules].sort((a, b) => a.priority - b.priority);
+  const playlistName = (id: string) => playlists.find(playlist => playlist.id === id)?.name;
+
+  // Any rule change makes the last preview stale
+  const changeRules = (change: () => void) => {
+    change();
+    setPlan(null);
+  };
+
+  const handleAddRule = () => {
+    let source: OfflineRuleSource;
+    switch (newRuleType) {
+      case 'playlist':
+        if (!newRulePlaylist) return;
+        source = { type: 'playlist', playlistId: newRulePlaylist };
+        break;
+      case 'mostPlayed':
+        source = { type: 'mostPlayed', limit: newRuleCount };
+        break;
+      case 'recentlyPlayed':
+        source = { type: 'recentlyPlayed', days: newRuleCount };
+        break;
+      default:
+        source = { type: 'liked' };
+    }
+
+    const rule: OfflineRule = {
+      id: uuidv4(),
+      name: describeSource(source, playlistName(newRulePlaylist)),
+      priority: rules.reduce((max, r) => Math.max(max, r.priority), 0) + 1,
+      enabled: true,
+      source
+    };
+    changeRules(() => dispatch(addOfflineRule(rule)));
+  };
+
+  // Swap priorities with the neighbouring rule
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const rule = rules[index];
+    const other = rules[index + direction];
+    if (!rule || !other) return;
+
+    changeRules(() => {
+      dispatch(updateOfflineRule({ id: rule.id, changes: { priority: other.priority } }));
+      dispatch(updateOfflineRule({ id: other.id, changes: { priority: rule.priority } }));
+    });
+  };
+
+  const handlePreview = async () => {
+    setWorking('preview');
+    try {
+      setPlan(await OfflineManager.getInstance().previewSync(rules));
+    } catch (error) {
+      console.error('Failed to preview offline sync:', error);
+      dispatch(addToast({ type: 'error', message: 'Failed to preview offline sync' }));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleSync = async () => {
+    setWorking('sync');
+    try {
+      const result = await OfflineManager.getInstance().syncOffline(rules);
+      dispatch(addToast({
+        type: 'success',
+        message: result.downloadsDeferred
+          ? `Freed ${formatBytes(result.bytesToFree)}; downloads will start on Wi-Fi`
+          : `Downloading ${result.download.length} songs and freed ${formatBytes(result.bytesToFree)}`
+      }));
+      setPlan(null);
+    } catch (error) {
+      console.error('Offline sync failed:', error);
+      dispatch(addToast({ type: 'error', message: 'Offline sync failed' }));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleExport = async () => {
+    setWorking('export');
+    try {
+      const result = await OfflineManager.getInstance().exportLibrary();
+      if (result) {
+        dispatch(addToast({
+          type: 'success',
+          message: `Exported ${result.trackCount} songs (${formatBytes(result.size)})`
+        }));
+      }
+    } catch (error) {
+      console.error('Library export failed:', error);
+      dispatch(addToast({ type: 'error', message: 'Library export failed' }));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setWorking('import');
+    try {
+      const result = await OfflineManager.getInstance().importLibrary(file);
+      const skipped = result.duplicates.length + result.overQuota.length + result.corrupted.length;
+      dispatch(addToast({
+        type: result.corrupted.length > 0 ? 'warning' : 'success',
+        message: `Imported ${result.imported.length} songs${skipped > 0 ? `, skipped ${skipped}` : ''}`
+      }));
+    } catch (error) {
+      console.error('Library import failed:', error);
+      dispatch(addToast({ type: 'error', message: 'Library import failed' }));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <div className={`offline-settings ${className || ''}`}>
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-white mb-2 flex items-center">
+            <Download className="w-8 h-8 mr-3 text-purple-400" />
+            Offline & Data
+          </h1>
+          <p className="text-gray-400">Control how much data playback and downloads use</p>
+        </div>
+
+        <div className="space-y-8">
+          <section>
+            <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+              <Gauge className="w-5 h-5 mr-2 text-purple-400" />
+              Data Usage
+            </h2>
+            <div className="space-y-4">
+              <ToggleSwitch
+                checked={dataSaver}
+                onChange={(checked) => dispatch(setDataSaver(checked))}
+                label="Data Saver"
+                description="Don't prefetch upcoming tracks or download anything in advance"
+              />
+
+              <ToggleSwitch
+                checked={downloadOnWifiOnly}
+                onChange={(checked) => dispatch(setDownloadOnWifiOnly(checked))}
+                label="Wi-Fi Only"
+                description="Prefetch and download only on Wi-Fi or wired connections"
+              />
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+              <ListChecks className="w-5 h-5 mr-2 text-purple-400" />
+              Offline Rules
+            </h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Songs matching these rules are kept offline. Rules higher in the list get storage first.
+            </p>
+
+            <div className="space-y-2 mb-4">
+              {rules.length === 0 && (
+                <p className="text-sm text-gray-500 p-4 bg-gray-800 rounded-lg">No rules yet</p>
+              )}
+              {rules.map((rule, index) => (
+                <div key={rule.id} className="flex items-center justify-between p-4 bg-gray-800 rounded-lg">
+                  <label className="flex items-center flex-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => changeRules(() => dispatch(updateOfflineRule({ id: rule.id, changes: { enabled: e.target.checked } })))}
+                      className="w-4 h-4 mr-3 accent-purple-500"
+                    />
+                    <span className={rule.enabled ? 'text-white' : 'text-gray-500'}>
+                      {rule.source.type === 'playlist'
+                        ? describeSource(rule.source, playlistName(rule.source.playlistId))
+                        : rule.name}
+                    </span>
+                  </label>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      type="button"
+                      onClick={() => moveRule(index, -1)}
+                      disabled={index === 0}
+                      className="p-2 text-gray-400 hover:text-white disabled:opacity-30"
+                      aria-label="Raise priority"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveRule(index, 1)}
+                      disabled={index === rules.length - 1}
+                      className="p-2 text-gray-400 hover:text-white disabled:opacity-30"
+                      aria-label="Lower priority"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => changeRules(() => dispatch(removeOfflineRule(rule.id)))}
+                      className="p-2 text-gray-400 hover:text-red-400"
+                      aria-label="Remove rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 p-4 bg-gray-800 rounded-lg">
+              <select
+                value={newRuleType}
+                onChange={(e) => setNewRuleType(e.target.value as RuleType)}
+                className="px-3 py-2 bg-gray-700 text-white rounded-lg"
+                aria-label="Rule type"
+              >
+                {RULE_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+              {newRuleType === 'playlist' && (
+                <select
+                  value={newRulePlaylist}
+                  onChange={(e) => setNewRulePlaylist(e.target.value)}
+                  className="px-3 py-2 bg-gray-700 text-white rounded-lg"
+                  aria-label="Playlist"
+                >
+                  <option value="">Choose a playlist</option>
+                  {playlists.map(playlist => (
+                    <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+                  ))}
+                </select>
+              )}
+              {(newRuleType === 'mostPlayed' || newRuleType === 'recentlyPlayed') && (
+                <label className="flex items-center text-sm text-gray-300">
+                  <input
+                    type="number"
+                    min={1}
+                    value={newRuleCount}
+                    onChange={(e) => setNewRuleCount(Math.max(1, Number(e.target.value) || 1))}
+                    className="w-20 px-3 py-2 mr-2 bg-gray-700 text-white rounded-lg"
+                  />
+                  {newRuleType === 'mostPlayed' ? 'songs' : 'days'}
+                </label>
+              )}
+              <button
+                type="button"
+                onClick={handleAddRule}
+                disabled={newRuleType === 'playlist' && !newRulePlaylist}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 flex items-center"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Rule
+              </button>
+            </div>
+
+            <div className="mt-4 p-4 bg-gray-800 rounded-lg">
+              {plan ? (
+                <ul className="text-sm text-gray-300 space-y-1 mb-4">
+                  <li>Download {plan.download.length} songs ({formatBytes(plan.bytesToDownload)})</li>
+                  <li>Remove {plan.evict.length} songs ({formatBytes(plan.bytesToFree)})</li>
+                  <li>Keep {plan.keep.length} songs already offline</li>
+                  {plan.overBudget.length > 0 && (
+                    <li className="text-yellow-300">{plan.overBudget.length} songs don't fit in the storage budget</li>
+                  )}
+                  <li className="text-gray-400">
+                    {formatBytes(plan.usedAfterSync)} of {formatBytes(plan.budget)} used after syncing
+                  </li>
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-400 mb-4">Preview the changes before syncing</p>
+              )}
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={working !== null}
+                  className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 flex items-center"
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  {working === 'preview' ? 'Previewing...' : 'Preview'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSync}
+                  disabled={!plan || working !== null}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 flex items-center"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${working === 'sync' ? 'animate-spin' : ''}`} />
+                  {working === 'sync' ? 'Syncing...' : 'Sync Now'}
+                </button>
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+              <Archive className="w-5 h-5 mr-2 text-purple-400" />
+              Backup
+            </h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Move your offline songs, playlists and covers to another device without downloading them again.
+            </p>
+
+            {/* Downloads are encrypted with a key that never leaves this device, so exports carry decrypted audio */}
+            <div className="flex items-start space-x-3 p-4 mb-4 bg-yellow-900/20 border border-yellow-600/30 rounded-lg">
+              <ShieldAlert className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-yellow-200">
+                The backup file is not encrypted. Downloads are locked to this device, so the backup holds
+                playable copies of your songs that anyone with the file can open. Keep it somewhere private.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={working !== null}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 flex items-center"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {working === 'export' ? 'Exporting...' : 'Export Unencrypted Backup'}
+              </button>
+              <label
+                className={`px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 flex items-center ${
+                  working !== null ? 'opacity-50 pointer-events-none' : 'cursor-pointer'
+                }`}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {working === 'import' ? 'Importing...' : 'Import Backup'}
+                <input
+                  type="file"
+                  accept={`${EXPORT_FILE_EXTENSION},${BUNDLE_MIME_TYPE}`}
+                  disabled={working !== null}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) void handleImport(file);
+                  }}
+                  className="sr-only"
+                />
+              </label>
+            </div>
+          </section>
+
+          <div className="bg-blue-900/20 border border-blue-600/30 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <Wifi className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-blue-200">
+                Your browser's own data saver setting also turns off prefetching.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineSettings;
@@ -0,0 +1,111 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, RotateCcw, X } from 'lucide-react';
+import { OfflineOutbox, OutboxAction, OutboxEntry } from '../services/OfflineOutbox';
+import { errorService } from '../services/ErrorService';
+
+const describeAction = (action: OutboxAction) => {
+  switch (action.type) {
+    case 'like':
+      return 'Like a song';
+    case 'unlike':
+      return 'Unlike a song';
+    case 'playlistAdd':
+      return 'Add a song to a playlist';
+    case 'playlistRemove':
+      return 'Remove a song from a playlist';
+    case 'playlistReorder':
+      return 'Reorder a playlist';
+    case 'follow':
+      return 'Follow a user';
+    case 'unfollow':
+      return 'Unfollow a user';
+    case 'trackPlay':
+      return 'Record a play';
+  }
+};
+
+// Offline actions that conflicted or gave up on replay, for the user to retry or dismiss
+const OutboxConflicts: React.FC = () => {
+  const [conflicts, setConflicts] = useState<OutboxEntry[]>([]);
+  const [showList, setShowList] = useState(false);
+
+  const refresh = useCallback(() => {
+    OfflineOutbox.getInstance().getConflicts()
+      .then(setConflicts)
+      .catch((error: unknown) => console.warn('Failed to load offline conflicts:', error));
+  }, []);
+
+  useEffect(() => {
+    const outbox = OfflineOutbox.getInstance();
+    refresh();
+
+    const handleConflict = (e: Event) => {
+      const { entry } = (e as CustomEvent<{ entry: OutboxEntry }>).detail;
+      errorService.notifyUser(`${describeAction(entry.action)} could not be synced: ${entry.conflict?.reason ?? 'it no longer applies'}`, {
+        type: 'warning',
+        action: { label: 'Review', onClick: () => setShowList(true) }
+      });
+    };
+
+    outbox.addEventListener('actionConflict', handleConflict);
+    outbox.addEventListener('flushComplete', refresh);
+    return () => {
+      outbox.removeEventListener('actionConflict', handleConflict);
+      outbox.removeEventListener('flushComplete', refresh);
+    };
+  }, [refresh]);
+
+  if (conflicts.length === 0) return null;
+
+  const settle = (settling: Promise<void>) => {
+    settling
+      .catch((error: unknown) => console.warn('Failed to settle offline conflict:', error))
+      .finally(refresh);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowList(!showList)}
+        className="flex items-center space-x-2 text-sm text-yellow-400 hover:text-yellow-300 transition-colors"
+        aria-expanded={showList}
+      >
+        <AlertTriangle className="w-4 h-4" />
+        <span>{conflicts.length} not synced</span>
+      </button>
+
+      {showList && (
+        <div className="absolute top-full left-0 mt-2 w-80 bg-gray-900 border border-white/10 rounded-lg shadow-xl p-3 space-y-2 z-50">
+          {conflicts.map(entry => (
+            <div key={entry.id} className="flex items-start justify-between space-x-2">
+              <div className="min-w-0">
+                <p className="text-sm text-white">{describeAction(entry.action)}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {entry.conflict?.reason ?? entry.lastError ?? 'Gave up after repeated failures'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => settle(OfflineOutbox.getInstance().retry(entry.id))}
+                  className="p-1 text-gray-400 hover:text-white transition-colors"
+                  aria-label={`Retry ${describeAction(entry.action)}`}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => settle(OfflineOutbox.getInstance().dismiss(entry.id))}
+                  className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                  aria-label={`Dismiss ${describeAction(entry.action)}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutboxConflicts;
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { 
   Play, 
   Pause, 
@@ -22,6 +22,13 @@ import Equalizer from './Equalizer';
 import LyricsDisplay from './LyricsDisplay';
 import QueueManager from './QueueManager';
 import MusicVisualizer from './MusicVisualizer';
+import SleepTimerControl from './SleepTimerControl';
+import PracticeControls from './PracticeControls';
+import StreamQualityIndicator from './StreamQualityIndicator';
+import WaveformSeekBar from './WaveformSeekBar';
+import { db, BOOKMARKS_CHANGE_EVENT } from '../utils/indexedDB';
+import { getUser } from '../utils/auth';
+import { TrackBookmark } from '../types';
 
 const PlayerBar: React.FC = () => {
   const {
@@ -50,6 +57,37 @@ const PlayerBar: React.FC = () => {
   const [showVisualizer, setShowVisualizer] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [previousVolume, setPreviousVolume] = useState(volume);
+  const [bookmarks, setBookmarks] = useState<TrackBookmark[]>([]);
+
+  const songId = currentSong?.id;
+
+  // Bookmark markers for the seek bar; the player broadcasts changes on window
+  useEffect(() => {
+    setBookmarks([]);
+    if (!songId) return;
+
+    let cancelled = false;
+    db.getBookmarks(songId, getUser()?.id ?? null)
+      .then(saved => {
+        if (!cancelled) setBookmarks(saved);
+      })
+      .catch(() => {
+        // IndexedDB unavailable: no markers
+      });
+
+    const handleChange = (e: Event) => {
+      const detail = (e as CustomEvent<{ songId: string | null; bookmarks: TrackBookmark[] }>).detail;
+      if (detail.songId === songId) {
+        setBookmarks(detail.bookmarks);
+      }
+    };
+
+    window.addEventListener(BOOKMARKS_CHANGE_EVENT, handleChange);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(BOOKMARKS_CHANGE_EVENT, handleChange);
+    };
+  }, [songId]);
 
   const formatTime = useCallback((time: number) => {
     if (isNaN(time) || time < 0) return '0:00';
@@ -58,18 +96,6 @@ const PlayerBar: React.FC = () => {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   }, []);
 
-  const progressPercentage = useMemo(() => {
-    if (!duration || duration <= 0 || isNaN(currentTime) || isNaN(duration)) return 0;
-    return Math.min(100, Math.max(0, (currentTime / duration) * 100));
-  }, [currentTime, duration]);
-
-  const handleSeek = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const time = parseFloat(e.target.value);
-    if (!isNaN(time) && time >= 0) {
-      seek(time);
-    }
-  }, [seek]);
-
   const handleVolumeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const vol = parseFloat(e.target.value);
     if (!isNaN(vol)) {
@@ -207,23 +233,24 @@ const PlayerBar: React.FC = () => {
             <span className="text-xs text-gray-400 min-w-[30px] sm:min-w-[35px]">
               {formatTime(currentTime)}
             </span>
-            <div className="flex-1 relative">
-              <div className="h-1 bg-gray-600 rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full transition-all duration-300"
-                  style={{ width: `${progressPercentage}%` }}
+            <WaveformSeekBar
+              songId={songId}
+              currentTime={currentTime}
+              duration={duration}
+              onSeek={seek}
+              className="flex-1 h-6"
+            >
+              {duration > 0 && bookmarks.map(bookmark => (
+                <button
+                  key={bookmark.id}
+                  onClick={() => seek(bookmark.time)}
+                  className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-1.5 h-3 bg-yellow-400 rounded-sm hover:scale-125 transition-transform z-10"
+                  style={{ left: `${Math.min(100, (bookmark.time / duration) * 100)}%` }}
+                  title={`${bookmark.name} (${formatTime(bookmark.time)})`}
+                  aria-label={`Jump to bookmark ${bookmark.name}`}
                 />
-              </div>
-              <input
-                type="range"
-                min="0"
-                max={duration || 0}
-                value={currentTime || 0}
-                onChange={handleSeek}
-                className="absolute inset-0 w-full h-1 opacity-0 cursor-pointer"
-                aria-label="Seek"
-              />
-            </div>
+              ))}
+            </WaveformSeekBar>
             <span className="text-xs text-gray-400 min-w-[30px] sm:min-w-[35px]">
               {formatTime(duration)}
             </span>
@@ -232,6 +259,9 @@ const PlayerBar: React.FC = () => {
 
         {/* Volume & Controls */}
         <div className="flex items-center space-x-2 sm:space-x-4 w-1/4 justify-end">
+          <StreamQualityIndicator />
+          <PracticeControls />
+          <SleepTimerControl />
           <button 
             onClick={() => setShowVisualizer(true)}
             className="text-gray-400 hover:text-white active:scale-95 transition-all touch-manipulation hidden sm:block"
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { useAppDispatch } from '../store';
+import { reorderSongs, savePlaylistOrder } from '../store/slices/playlistSlice';
+import type { Playlist } from '../types/music';
+
+interface PlaylistOrderEditorProps {
+  playlist: Playlist;
+}
+
+// Moves songs within one of the user's playlists and saves each new order
+const PlaylistOrderEditor: React.FC<PlaylistOrderEditorProps> = ({ playlist }) => {
+  const dispatch = useAppDispatch();
+  const songs = playlist.songs ?? [];
+
+  const moveSong = (fromIndex: number, toIndex: number) => {
+    const songIds = songs.map(song => song.id);
+    const [moved] = songIds.splice(fromIndex, 1);
+    if (!moved) return;
+    songIds.splice(toIndex, 0, moved);
+
+    dispatch(reorderSongs({ playlistId: playlist.id, fromIndex, toIndex }));
+    // A playlist changed elsewhere since it was loaded comes back as an outbox conflict instead of being overwritten
+    dispatch(savePlaylistOrder({ playlistId: playlist.id, songIds, baseVersion: playlist.updatedAt }));
+  };
+
+  if (songs.length === 0) {
+    return <p className="text-gray-500 text-sm">No songs in this playlist</p>;
+  }
+
+  return (
+    <ol className="space-y-1">
+      {songs.map((song, index) => (
+        <li key={song.id} className="flex items-center justify-between px-2 py-1 rounded hover:bg-white/5">
+          <span className="text-sm text-white truncate">
+            {song.title} <span className="text-gray-400">· {song.artist}</span>
+          </span>
+          <div className="flex items-center space-x-1">
+            <button
+              type="button"
+              onClick={() => moveSong(index, index - 1)}
+              disabled={index === 0}
+              className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+              aria-label={`Move ${song.title} up`}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveSong(index, index + 1)}
+              disabled={index === songs.length - 1}
+              className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+              aria-label={`Move ${song.title} down`}
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default PlaylistOrderEditor;
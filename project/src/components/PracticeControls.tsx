@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { Repeat1, Bookmark, Trash2, X } from 'lucide-react';
+import { useMusic } from '../contexts/MusicContext';
+import { LoopRegion } from '../audio/AudioEngine';
+import { PracticeState } from '../managers/PlayerManager';
+import { TrackBookmark } from '../types';
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// A-B loop, practice mode and bookmarks of the live player's current track
+const PracticeControls: React.FC = () => {
+  const { player } = useMusic();
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [practice, setPractice] = useState<PracticeState | null>(null);
+  const [bookmarks, setBookmarks] = useState<TrackBookmark[]>([]);
+  const [showMenu, setShowMenu] = useState(false);
+
+  useEffect(() => {
+    if (!player) return;
+
+    const state = player.getState();
+    setLoopRegion(state.loopRegion);
+    setPractice(state.practice ? { ...state.practice } : null);
+    setBookmarks(state.bookmarks);
+
+    const handleLoopChange = (e: Event) => setLoopRegion((e as CustomEvent).detail.region);
+    // The player updates one practice object between repetitions, so it is copied for React
+    const handlePracticeChange = (e: Event) => {
+      const next: PracticeState | null = (e as CustomEvent).detail.practice;
+      setPractice(next ? { ...next } : null);
+    };
+    const handleBookmarksChange = (e: Event) => setBookmarks((e as CustomEvent).detail.bookmarks);
+
+    player.addEventListener('loopChange', handleLoopChange);
+    player.addEventListener('practiceChange', handlePracticeChange);
+    player.addEventListener('bookmarksChange', handleBookmarksChange);
+    return () => {
+      player.removeEventListener('loopChange', handleLoopChange);
+      player.removeEventListener('practiceChange', handlePracticeChange);
+      player.removeEventListener('bookmarksChange', handleBookmarksChange);
+    };
+  }, [player]);
+
+  if (!player) return null;
+
+  const startPractice = () => {
+    player.startPractice().catch((error: unknown) => {
+      console.warn('Failed to start practice mode:', error);
+    });
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        className={`active:scale-95 transition-all touch-manipulation ${
+          loopRegion ? 'text-purple-400' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-label="Loop and bookmarks"
+        aria-expanded={showMenu}
+      >
+        <Repeat1 className="w-4 h-4 sm:w-5 sm:h-5" />
+      </button>
+
+      {showMenu && (
+        <div className="absolute bottom-full right-0 mb-2 w-64 bg-gray-900 border border-white/10 rounded-lg shadow-xl p-3 space-y-3 z-50">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400">A-B loop</span>
+              {loopRegion && (
+                <span className="text-xs text-purple-300 tabular-nums">
+                  {formatTime(loopRegion.start)} – {formatTime(loopRegion.end)}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => player.setLoopPoint('a')}
+                className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-sm text-white transition-colors"
+              >
+                Set A
+              </button>
+              <button
+                onClick={() => player.setLoopPoint('b')}
+                className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-sm text-white transition-colors"
+              >
+                Set B
+              </button>
+              {loopRegion && (
+                <button
+                  onClick={() => player.clearLoopRegion()}
+                  className="text-gray-400 hover:text-white transition-colors"
+                  aria-label="Clear loop"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            {practice ? (
+              <>
+                <span className="text-xs text-purple-300 tabular-nums">
+                  Pass {practice.repetition + 1} at {practice.rate.toFixed(2)}x
+                </span>
+                <button
+                  onClick={() => player.stopPractice()}
+                  className="px-2 py-1 rounded bg-purple-500/20 hover:bg-purple-500/30 text-sm text-white transition-colors"
+                >
+                  Stop practice
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={startPractice}
+                disabled={!loopRegion}
+                className="px-2 py-1 rounded bg-purple-500/20 hover:bg-purple-500/30 text-sm text-white transition-colors disabled:opacity-40"
+              >
+                Start practice
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-1 border-t border-white/10 pt-3">
+            <button
+              onClick={() => void player.addBookmark('')}
+              className="flex items-center space-x-2 text-sm text-purple-400 hover:text-purple-300 transition-colors"
+            >
+              <Bookmark className="w-4 h-4" />
+              <span>Add bookmark</span>
+            </button>
+            {bookmarks.map(bookmark => (
+              <div key={bookmark.id} className="flex items-center justify-between">
+                <button
+                  onClick={() => player.jumpToBookmark(bookmark.id)}
+                  className="text-left text-sm text-white hover:text-purple-300 truncate transition-colors"
+                >
+                  {bookmark.name} <span className="text-gray-400 tabular-nums">{formatTime(bookmark.time)}</span>
+                </button>
+                <button
+                  onClick={() => void player.removeBookmark(bookmark.id)}
+                  className="text-gray-400 hover:text-red-400 transition-colors"
+                  aria-label={`Remove bookmark ${bookmark.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeControls;
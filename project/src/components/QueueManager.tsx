@@ -9,13 +9,13 @@ interface QueueManagerProps {
 }
 
 const QueueManager: React.FC<QueueManagerProps> = ({ isOpen, onClose }) => {
-  const { queue, currentIndex, currentSong, removeFromQueue, play, setQueue } = useMusic();
+  const { queue, currentIndex, currentSong, removeFromQueue, play, setQueue, playContext } = useMusic();
 
   const moveUp = (index: number) => {
     if (index > 0) {
       const newQueue = [...queue];
       [newQueue[index], newQueue[index - 1]] = [newQueue[index - 1], newQueue[index]];
-      setQueue(newQueue);
+      setQueue(newQueue, 0, playContext ?? undefined);
     }
   };
 
@@ -23,7 +23,7 @@ const QueueManager: React.FC<QueueManagerProps> = ({ isOpen, onClose }) => {
     if (index < queue.length - 1) {
       const newQueue = [...queue];
       [newQueue[index], newQueue[index + 1]] = [newQueue[index + 1], newQueue[index]];
-      setQueue(newQueue);
+      setQueue(newQueue, 0, playContext ?? undefined);
     }
   };
 
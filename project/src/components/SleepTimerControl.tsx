@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { Moon, X } from 'lucide-react';
+import {
+  sleepTimer,
+  SleepTimerState,
+  SLEEP_TIMER_DURATIONS,
+  SLEEP_TIMER_EXTENSION
+} from '../managers/SleepTimer';
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const padded = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${padded}` : padded;
+};
+
+const SleepTimerControl: React.FC = () => {
+  const [timer, setTimer] = useState<SleepTimerState | null>(sleepTimer.getState());
+  const [remaining, setRemaining] = useState<number | null>(sleepTimer.getRemaining());
+  const [showMenu, setShowMenu] = useState(false);
+
+  useEffect(() => {
+    const handleChange = () => {
+      setTimer(sleepTimer.getState());
+      setRemaining(sleepTimer.getRemaining());
+    };
+    const handleTick = () => setRemaining(sleepTimer.getRemaining());
+
+    sleepTimer.addEventListener('change', handleChange);
+    sleepTimer.addEventListener('tick', handleTick);
+    return () => {
+      sleepTimer.removeEventListener('change', handleChange);
+      sleepTimer.removeEventListener('tick', handleTick);
+    };
+  }, []);
+
+  const start = (mode: SleepTimerState['mode'], minutes?: number) => {
+    sleepTimer.start(mode, minutes);
+    setShowMenu(false);
+  };
+
+  // End of track/queue timers only know their remaining time while playing
+  const label = remaining !== null
+    ? formatRemaining(remaining)
+    : timer?.mode === 'endOfTrack' ? 'End of track' : 'End of queue';
+
+  return (
+    <div className="relative flex items-center space-x-1">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        className={`active:scale-95 transition-all touch-manipulation ${
+          timer ? 'text-purple-400' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-label="Sleep timer"
+        aria-expanded={showMenu}
+      >
+        <Moon className="w-4 h-4 sm:w-5 sm:h-5" />
+      </button>
+
+      {timer && (
+        <div className="flex items-center space-x-1 text-[10px] sm:text-xs text-purple-300">
+          <span className="tabular-nums whitespace-nowrap">{label}</span>
+          <button
+            onClick={() => sleepTimer.extend(SLEEP_TIMER_EXTENSION)}
+            className="px-1 rounded bg-purple-500/20 hover:bg-purple-500/30 transition-colors"
+            aria-label={`Extend sleep timer by ${SLEEP_TIMER_EXTENSION} minutes`}
+          >
+            +{SLEEP_TIMER_EXTENSION}
+          </button>
+          <button
+            onClick={() => sleepTimer.cancel()}
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="Cancel sleep timer"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {showMenu && (
+        <div className="absolute bottom-full right-0 mb-2 w-40 bg-gray-900 border border-white/10 rounded-lg shadow-xl py-1 z-50">
+          <p className="px-3 py-1 text-xs text-gray-400">Stop playback after</p>
+          {SLEEP_TIMER_DURATIONS.map(minutes => (
+            <button
+              key={minutes}
+              onClick={() => start('duration', minutes)}
+              className="block w-full text-left px-3 py-1 text-sm text-white hover:bg-white/10 transition-colors"
+            >
+              {minutes} min
+            </button>
+          ))}
+          <button
+            onClick={() => start('endOfTrack')}
+            className="block w-full text-left px-3 py-1 text-sm text-white hover:bg-white/10 transition-colors"
+          >
+            End of track
+          </button>
+          <button
+            onClick={() => start('endOfQueue')}
+            className="block w-full text-left px-3 py-1 text-sm text-white hover:bg-white/10 transition-colors"
+          >
+            End of queue
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SleepTimerControl;
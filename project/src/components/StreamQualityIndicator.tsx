@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import { useMusic } from '../contexts/MusicContext';
+import { StreamingQuality } from '../audio/StreamingManager';
+
+// Quality the live player's adaptive streaming picked for the current stream
+const StreamQualityIndicator: React.FC = () => {
+  const { player } = useMusic();
+  const [quality, setQuality] = useState<StreamingQuality | null>(null);
+
+  useEffect(() => {
+    if (!player) return;
+
+    setQuality(player.getState().streamingQuality);
+    const handleQualityChange = (e: Event) => {
+      setQuality((e as CustomEvent<{ currentQuality: StreamingQuality }>).detail.currentQuality);
+    };
+    player.addEventListener('qualityChange', handleQualityChange);
+    return () => player.removeEventListener('qualityChange', handleQualityChange);
+  }, [player]);
+
+  if (!quality) return null;
+
+  return (
+    <span
+      className="hidden sm:inline px-1.5 py-0.5 rounded bg-white/10 text-[10px] text-gray-300 whitespace-nowrap"
+      title={`Streaming at ${quality.bitrate} kbps ${quality.format.toUpperCase()}`}
+      aria-label="Stream quality"
+    >
+      {quality.label} · {quality.bitrate} kbps
+    </span>
+  );
+};
+
+export default StreamQualityIndicator;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { useMusic } from '../contexts/MusicContext';
+import { TimeStretchState } from '../managers/PlayerManager';
+import { MIN_TEMPO, MAX_TEMPO, MAX_PITCH_SEMITONES } from '../audio/PitchShifter';
+
+const DEFAULT_TIME_STRETCH: TimeStretchState = { playbackRate: 1, pitchSemitones: 0, preservePitch: true };
+
+// Tempo and transpose of the live player
+const TempoControls: React.FC = () => {
+  const { player } = useMusic();
+  const [timeStretch, setTimeStretch] = useState<TimeStretchState>(DEFAULT_TIME_STRETCH);
+
+  useEffect(() => {
+    if (!player) return;
+
+    setTimeStretch(player.getTimeStretch());
+    const handleTimeStretchChange = (e: Event) => {
+      setTimeStretch((e as CustomEvent<TimeStretchState>).detail);
+    };
+    player.addEventListener('timeStretchChange', handleTimeStretchChange);
+    return () => player.removeEventListener('timeStretchChange', handleTimeStretchChange);
+  }, [player]);
+
+  if (!player) return null;
+
+  const { playbackRate, pitchSemitones, preservePitch } = timeStretch;
+
+  return (
+    <div className="border-t border-white/10 pt-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium">Tempo &amp; pitch</span>
+        {(playbackRate !== 1 || pitchSemitones !== 0) && (
+          <button
+            onClick={() => {
+              player.setPlaybackRate(1);
+              player.setPitchShift(0);
+            }}
+            className="flex items-center space-x-2 text-purple-400 hover:text-purple-300 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Reset</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-gray-300">Tempo</span>
+        <div className="flex items-center space-x-2">
+          <input
+            type="range"
+            min={MIN_TEMPO}
+            max={MAX_TEMPO}
+            step="0.05"
+            value={playbackRate}
+            onChange={(e) => player.setPlaybackRate(parseFloat(e.target.value))}
+            aria-label="Tempo"
+            className="w-40 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <span className="text-white text-sm w-16 text-right">{playbackRate.toFixed(2)}x</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-gray-300">Pitch</span>
+        <div className="flex items-center space-x-2">
+          <input
+            type="range"
+            min={-MAX_PITCH_SEMITONES}
+            max={MAX_PITCH_SEMITONES}
+            step="1"
+            value={pitchSemitones}
+            onChange={(e) => player.setPitchShift(parseInt(e.target.value, 10))}
+            aria-label="Pitch"
+            className="w-40 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <span className="text-white text-sm w-16 text-right">
+            {pitchSemitones > 0 ? '+' : ''}{pitchSemitones} st
+          </span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-gray-300">Keep pitch</span>
+          <p className="text-gray-400 text-sm">Change the tempo without changing the key</p>
+        </div>
+        <button
+          onClick={() => player.setPreservePitch(!preservePitch)}
+          aria-label="Keep pitch"
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+            preservePitch ? 'bg-purple-500' : 'bg-gray-600'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              preservePitch ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TempoControls;
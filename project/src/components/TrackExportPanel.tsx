@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { useMusic } from '../contexts/MusicContext';
+import { LoopRegion, WavBitDepth } from '../audio/AudioEngine';
+
+// Renders the current track through the live player's EQ, effects and tempo into a WAV file
+const TrackExportPanel: React.FC = () => {
+  const { player, currentSong } = useMusic();
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [loopRegionOnly, setLoopRegionOnly] = useState(false);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!player) return;
+
+    setLoopRegion(player.getState().loopRegion);
+    const handleLoopChange = (e: Event) => setLoopRegion((e as CustomEvent).detail.region);
+    const handleStart = () => {
+      setProgress(0);
+      setExportError(null);
+    };
+    const handleProgress = (e: Event) => setProgress((e as CustomEvent).detail.progress);
+    const handleComplete = (e: Event) => {
+      const { blob, fileName } = (e as CustomEvent<{ blob: Blob; fileName: string }>).detail;
+      setProgress(null);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    };
+    const handleError = () => setProgress(null);
+
+    player.addEventListener('loopChange', handleLoopChange);
+    player.addEventListener('exportStart', handleStart);
+    player.addEventListener('exportProgress', handleProgress);
+    player.addEventListener('exportComplete', handleComplete);
+    player.addEventListener('exportError', handleError);
+    return () => {
+      player.removeEventListener('loopChange', handleLoopChange);
+      player.removeEventListener('exportStart', handleStart);
+      player.removeEventListener('exportProgress', handleProgress);
+      player.removeEventListener('exportComplete', handleComplete);
+      player.removeEventListener('exportError', handleError);
+    };
+  }, [player]);
+
+  if (!player) return null;
+
+  const startExport = () => {
+    setExportError(null);
+    player.exportCurrentTrack({ bitDepth, loopRegionOnly: loopRegionOnly && loopRegion !== null })
+      .catch((error: unknown) => {
+        setProgress(null);
+        setExportError(error instanceof Error ? error.message : 'Export failed');
+      });
+  };
+
+  const cancelExport = () => {
+    player.cancelExport();
+    setProgress(null);
+  };
+
+  return (
+    <div className="border-t border-white/10 pt-6 space-y-4">
+      <div>
+        <span className="text-white font-medium">Export track</span>
+        <p className="text-gray-400 text-sm">Save the current track as WAV with the equalizer, effects and tempo applied</p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-gray-300">Bit depth</span>
+        <select
+          value={bitDepth}
+          onChange={(e) => setBitDepth(parseInt(e.target.value, 10) as WavBitDepth)}
+          aria-label="Bit depth"
+          className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          <option value={16}>16-bit</option>
+          <option value={24}>24-bit</option>
+        </select>
+      </div>
+
+      <label className="flex items-center text-gray-300">
+        <input
+          type="checkbox"
+          checked={loopRegionOnly}
+          disabled={!loopRegion}
+          onChange={(e) => setLoopRegionOnly(e.target.checked)}
+          className="w-4 h-4 mr-3 accent-purple-500"
+        />
+        <span className={loopRegion ? '' : 'text-gray-500'}>A-B loop only</span>
+      </label>
+
+      {exportError && <p className="text-red-400 text-sm">{exportError}</p>}
+
+      {progress !== null ? (
+        <div className="flex items-center space-x-3">
+          <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-500" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <span className="text-white text-sm w-12 text-right">{Math.round(progress * 100)}%</span>
+          <button
+            onClick={cancelExport}
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="Cancel export"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={startExport}
+          disabled={!currentSong}
+          className="flex items-center space-x-2 text-purple-400 hover:text-purple-300 transition-colors disabled:opacity-40"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export WAV</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TrackExportPanel;
@@ -0,0 +1,163 @@
+/**
+ * Waveform Seek Bar for Meow-Play
+ * Features: stored peaks with played/unplayed colouring, hover time preview, drag and keyboard seeking
+ */
+import React, { useState, useMemo, useCallback, useId, useRef } from 'react';
+import { WaveformPeaks } from '../audio/WaveformPeaks';
+import { useWaveform } from '../hooks/useWaveform';
+
+interface WaveformSeekBarProps {
+  songId: string | undefined;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  bars?: number;
+  className?: string;
+  children?: React.ReactNode; // Markers positioned over the bar
+}
+
+const KEYBOARD_STEP_SECONDS = 5;
+
+const formatTime = (time: number) => {
+  if (isNaN(time) || time < 0) return '0:00';
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const WaveformSeekBar: React.FC<WaveformSeekBarProps> = ({
+  songId,
+  currentTime,
+  duration,
+  onSeek,
+  bars = 100,
+  className = '',
+  children
+}) => {
+  const waveform = useWaveform(songId);
+  const [hoverRatio, setHoverRatio] = useState<number | null>(null);
+  const [dragRatio, setDragRatio] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const gradientId = useId();
+  const clipId = useId();
+  const hoverClipId = useId();
+
+  // One rectangle per bar in a bars x 2 viewBox, centred on y = 1
+  const barPath = useMemo(() => {
+    if (!waveform) return `M0 0.95h${bars}v0.1h-${bars}Z`;
+
+    const { min, max } = WaveformPeaks.resample(waveform, bars);
+    let path = '';
+    for (let i = 0; i < bars; i++) {
+      const top = 1 - Math.max(max[i] ?? 0, 0.03);
+      const bottom = 1 - Math.min(min[i] ?? 0, -0.03);
+      path += `M${i + 0.15} ${top.toFixed(3)}h0.7V${bottom.toFixed(3)}h-0.7Z`;
+    }
+    return path;
+  }, [waveform, bars]);
+
+  const validDuration = duration > 0 && !isNaN(duration) ? duration : 0;
+  const playedRatio = dragRatio ?? (validDuration ? Math.min(1, Math.max(0, currentTime / validDuration)) : 0);
+
+  const ratioAt = useCallback((clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width <= 0) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+  }, []);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    // Marker buttons handle their own clicks
+    if (!validDuration || (e.target as Element).closest('button')) return;
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    setDragRatio(ratioAt(e.clientX));
+  }, [validDuration, ratioAt]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const ratio = ratioAt(e.clientX);
+    setHoverRatio(ratio);
+    if (dragRatio !== null) setDragRatio(ratio);
+  }, [ratioAt, dragRatio]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRatio === null) return;
+    setDragRatio(null);
+    onSeek(ratioAt(e.clientX) * validDuration);
+  }, [dragRatio, ratioAt, onSeek, validDuration]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!validDuration) return;
+
+    const targets: Record<string, number> = {
+      ArrowLeft: currentTime - KEYBOARD_STEP_SECONDS,
+      ArrowDown: currentTime - KEYBOARD_STEP_SECONDS,
+      ArrowRight: currentTime + KEYBOARD_STEP_SECONDS,
+      ArrowUp: currentTime + KEYBOARD_STEP_SECONDS,
+      Home: 0,
+      End: validDuration
+    };
+    const target = targets[e.key];
+    if (target === undefined) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    onSeek(Math.min(validDuration, Math.max(0, target)));
+  }, [currentTime, validDuration, onSeek]);
+
+  return (
+    <div
+      ref={containerRef}
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={validDuration}
+      aria-valuenow={Math.round(playedRatio * validDuration)}
+      aria-valuetext={`${formatTime(playedRatio * validDuration)} of ${formatTime(validDuration)}`}
+      className={`relative cursor-pointer touch-none select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 rounded ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDragRatio(null)}
+      onPointerLeave={() => setHoverRatio(null)}
+      onKeyDown={handleKeyDown}
+    >
+      <svg
+        viewBox={`0 0 ${bars} 2`}
+        preserveAspectRatio="none"
+        className="absolute inset-0 w-full h-full"
+        aria-hidden="true"
+      >
+        <defs>
+          <linearGradient id={gradientId} x1="0" x2="1" y1="0" y2="0">
+            <stop offset="0%" stopColor="#a855f7" />
+            <stop offset="100%" stopColor="#ec4899" />
+          </linearGradient>
+          <clipPath id={clipId}>
+            <rect x="0" y="0" width={playedRatio * bars} height="2" />
+          </clipPath>
+          <clipPath id={hoverClipId}>
+            <rect x="0" y="0" width={(hoverRatio ?? 0) * bars} height="2" />
+          </clipPath>
+        </defs>
+        <path d={barPath} className="fill-gray-600" />
+        {hoverRatio !== null && (
+          <path d={barPath} className="fill-gray-400" clipPath={`url(#${hoverClipId})`} />
+        )}
+        <path d={barPath} fill={`url(#${gradientId})`} clipPath={`url(#${clipId})`} />
+      </svg>
+
+      {hoverRatio !== null && validDuration > 0 && (
+        <div
+          className="absolute -top-7 -translate-x-1/2 px-1.5 py-0.5 rounded bg-black/90 text-white text-[10px] pointer-events-none whitespace-nowrap z-20"
+          style={{ left: `${hoverRatio * 100}%` }}
+        >
+          {formatTime(hoverRatio * validDuration)}
+        </div>
+      )}
+
+      {children}
+    </div>
+  );
+};
+
+export default WaveformSeekBar;
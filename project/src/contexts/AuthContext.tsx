@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
 import { AuthState, User } from '../types';
 import { AuthService } from '../services/auth';
+import { LOGIN_EVENT, LOGOUT_EVENT } from '../utils/indexedDB';
 import type { Session, User as SupabaseUser } from '@supabase/supabase-js';
 
 interface AuthContextType extends AuthState {
@@ -108,6 +109,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
   }, []);
 
+  // Per-user player settings follow the signed-in account
+  const userId = state.user?.id;
+  useEffect(() => {
+    if (userId) {
+      window.dispatchEvent(new CustomEvent(LOGIN_EVENT, { detail: { userId } }));
+    }
+  }, [userId]);
+
   const login = async (email: string, password: string): Promise<void> => {
     dispatch({ type: 'SET_LOADING', payload: true });
     
@@ -161,6 +170,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // Force logout even if there's an error
       dispatch({ type: 'LOGOUT' });
     }
+    window.dispatchEvent(new CustomEvent(LOGOUT_EVENT));
   };
 
   return (
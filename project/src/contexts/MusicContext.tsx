@@ -1,14 +1,19 @@
-import React, { createContext, useContext, useReducer, useRef, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useRef, useEffect, useCallback, useState, ReactNode } from 'react';
 import { PlaybackState, Song, Repeat } from '../types';
 import { db } from '../utils/indexedDB';
 import { mockSongs } from '../utils/mockData';
 import { sharedDatabase } from '../utils/sharedDatabase';
-import { PlayerManager } from '../utils/playerManager';
+import { PlayerManager, PlayerState } from '../managers/PlayerManager';
+import { AudioEngine, AudioTrack } from '../audio/AudioEngine';
 import { CacheManager } from '../utils/cacheManager';
 import { ApiService } from '../services/api';
+import { OfflineOutbox } from '../services/OfflineOutbox';
+import { PlaybackSessionService, PlaybackSession, PlayContext } from '../services/PlaybackSession';
+import { DEFAULT_EQUALIZER_BANDS } from '../audio/ParametricEqualizer';
+import { OfflineManager } from '../audio/OfflineManager';
 
 export interface MusicContextType extends PlaybackState {
-  audioRef: React.RefObject<HTMLAudioElement>;
+  player: PlayerManager | null; // plays the queue; null until mounted
   play: (song?: Song) => Promise<void>;
   pause: () => void;
   togglePlay: () => void;
@@ -18,7 +23,8 @@ export interface MusicContextType extends PlaybackState {
   prevSong: () => void;
   addToQueue: (song: Song) => void;
   removeFromQueue: (index: number) => void;
-  setQueue: (songs: Song[], startIndex?: number) => void;
+  setQueue: (songs: Song[], startIndex?: number, context?: PlayContext) => void;
+  playContext: PlayContext | null;
   toggleShuffle: () => void;
   toggleRepeat: () => void;
   updateCurrentTime: (time: number) => void;
@@ -39,7 +45,20 @@ export const MusicContext = createContext<MusicContextType | undefined>(undefine
 
 // MusicAction type is defined below
 
-const initialState: PlaybackState & { songs: Song[]; loading: boolean; error: string | null } = {
+// Signed-in user whose likes and plays are sent to the backend
+const getSignedInUserId = (): string | null => {
+  const authContext = window.localStorage.getItem('meow_play_auth');
+  return authContext ? JSON.parse(authContext)?.user?.id ?? null : null;
+};
+
+// shuffledIndices and playContext make up the persisted playback session along with the queue
+const initialState: PlaybackState & {
+  shuffledIndices: number[] | null;
+  playContext: PlayContext | null;
+  songs: Song[];
+  loading: boolean;
+  error: string | null;
+} = {
   currentSong: null,
   isPlaying: false,
   volume: 0.7,
@@ -48,14 +67,15 @@ const initialState: PlaybackState & { songs: Song[]; loading: boolean; error: st
   queue: [],
   currentIndex: 0,
   isShuffled: false,
+  shuffledIndices: null,
+  playContext: null,
   repeat: 'none' as Repeat,
   crossfadeEnabled: false,
   crossfadeDuration: 3,
   equalizer: {
-    bass: 0,
-    mid: 0,
-    treble: 0,
-    enabled: true
+    enabled: true,
+    preamp: 0,
+    bands: DEFAULT_EQUALIZER_BANDS.map(band => ({ ...band }))
   },
   songs: mockSongs,
   loading: false,
@@ -68,7 +88,8 @@ type MusicAction =
   | { type: 'SET_VOLUME'; payload: number }
   | { type: 'SET_CURRENT_TIME'; payload: number }
   | { type: 'SET_DURATION'; payload: number }
-  | { type: 'SET_QUEUE'; payload: { songs: Song[]; startIndex?: number } }
+  | { type: 'SET_QUEUE'; payload: { songs: Song[]; startIndex?: number; context?: PlayContext } }
+  | { type: 'RESTORE_SESSION'; payload: PlaybackSession }
   | { type: 'ADD_TO_QUEUE'; payload: Song }
   | { type: 'REMOVE_FROM_QUEUE'; payload: number }
   | { type: 'SET_CURRENT_INDEX'; payload: number }
@@ -85,7 +106,12 @@ type MusicAction =
 const musicReducer = (state: typeof initialState, action: MusicAction): typeof initialState => {
   switch (action.type) {
     case 'SET_CURRENT_SONG':
-      return { ...state, currentSong: action.payload, error: null };
+      return {
+        ...state,
+        currentSong: action.payload,
+        currentTime: action.payload.id === state.currentSong?.id ? state.currentTime : 0,
+        error: null
+      };
     case 'SET_PLAYING':
       return { ...state, isPlaying: action.payload };
     case 'SET_VOLUME':
@@ -94,14 +120,38 @@ const musicReducer = (state: typeof initialState, action: MusicAction): typeof i
       return { ...state, currentTime: Math.max(0, action.payload) };
     case 'SET_DURATION':
       return { ...state, duration: Math.max(0, action.payload) };
-    case 'SET_QUEUE':
+    case 'SET_QUEUE': {
+      const currentIndex = Math.max(0, Math.min(action.payload.songs.length - 1, action.payload.startIndex || 0));
       return { 
         ...state, 
         queue: action.payload.songs,
-        currentIndex: Math.max(0, Math.min(action.payload.songs.length - 1, action.payload.startIndex || 0))
+        currentIndex,
+        shuffledIndices: state.isShuffled ? PlaybackSessionService.shuffleOrder(action.payload.songs.length, currentIndex) : null,
+        playContext: action.payload.context ?? null
       };
+    }
     case 'ADD_TO_QUEUE':
-      return { ...state, queue: [...state.queue, action.payload] };
+      return {
+        ...state,
+        queue: [...state.queue, action.payload],
+        shuffledIndices: state.shuffledIndices
+          && PlaybackSessionService.insertIntoOrder(state.shuffledIndices, state.queue.length, state.currentIndex, false)
+      };
+    case 'RESTORE_SESSION': {
+      const session = action.payload;
+      return {
+        ...state,
+        queue: session.queue,
+        currentIndex: session.currentIndex,
+        shuffledIndices: session.shuffledIndices,
+        isShuffled: session.shuffledIndices !== null,
+        repeat: session.repeat,
+        playContext: session.context,
+        currentSong: session.queue[session.currentIndex] ?? null,
+        currentTime: session.position,
+        isPlaying: false
+      };
+    }
     case 'TOGGLE_LIKE': {
       // Update the song in the songs array
       const updatedSongs = state.songs.map(song => {
@@ -137,13 +187,18 @@ const musicReducer = (state: typeof initialState, action: MusicAction): typeof i
       return { 
         ...state, 
         queue: newQueue,
-        currentIndex: Math.max(0, Math.min(newQueue.length - 1, newIndex))
+        currentIndex: Math.max(0, Math.min(newQueue.length - 1, newIndex)),
+        shuffledIndices: state.shuffledIndices && PlaybackSessionService.removeFromOrder(state.shuffledIndices, action.payload)
       };
     }
     case 'SET_CURRENT_INDEX':
       return { ...state, currentIndex: Math.max(0, Math.min(state.queue.length - 1, action.payload)) };
     case 'TOGGLE_SHUFFLE':
-      return { ...state, isShuffled: !state.isShuffled };
+      return {
+        ...state,
+        isShuffled: !state.isShuffled,
+        shuffledIndices: state.isShuffled ? null : PlaybackSessionService.shuffleOrder(state.queue.length, state.currentIndex)
+      };
     case 'TOGGLE_REPEAT': {
       const nextRepeat = (): Repeat => {
         switch (state.repeat) {
@@ -185,15 +240,63 @@ const musicReducer = (state: typeof initialState, action: MusicAction): typeof i
 
 export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(musicReducer, initialState);
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const [player, setPlayer] = useState<PlayerManager | null>(null);
+  const playerRef = useRef<PlayerManager | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
   const playPromiseRef = useRef<Promise<void> | null>(null);
-  const playerManagerRef = useRef<PlayerManager | null>(null);
+  const playRequestRef = useRef(0);
   const cacheManagerRef = useRef<CacheManager | null>(null);
+  const sessionRestoredRef = useRef(false);
+  // The id is the play's record on the server, online or replayed from the outbox
+  const currentPlayRef = useRef<{ id: string; songId: string; playedAt: number } | null>(null);
+  // Song loaded in the player; a restored session loads its song on first play
+  const loadedSongRef = useRef<Song | null>(null);
+  // Queue indices in the order the player plays them
+  const playOrderRef = useRef<number[]>([]);
+  // Equalizer last handed to the player
+  const appliedEqualizerRef = useRef<{ player: PlayerManager; equalizer: PlaybackState['equalizer'] } | null>(null);
+
+  // Report the play in progress with how long it was listened to; offline or when sending fails it waits in the outbox
+  const reportPlay = useCallback((listened: number) => {
+    const play = currentPlayRef.current;
+    currentPlayRef.current = null;
+    const userId = getSignedInUserId();
+    if (!play || !userId) return;
+
+    const duration = Number.isFinite(listened) ? listened : 0;
+    const queuePlay = () => OfflineOutbox.getInstance()
+      .enqueue({ type: 'trackPlay', songId: play.songId, duration, playedAt: play.playedAt }, play.id);
+    const report = navigator.onLine
+      ? ApiService.getInstance().trackPlay(userId, play.songId, duration, { id: play.id, playedAt: play.playedAt })
+        .catch(queuePlay)
+      : queuePlay();
+    report.catch(error => {
+      console.warn('Failed to record play:', error);
+    });
+  }, []);
+
+  // Load a song into the player, preferring the cached copy; offline copies and streams are resolved by the player.
+  // Restored songs saved without their blob: or data: URL take it from the cache or the library.
+  const loadSong = useCallback(async (manager: PlayerManager, song: Song): Promise<void> => {
+    const cachedSong = await cacheManagerRef.current?.get(song.id);
+    if (!cachedSong && song.id && song.filePath) {
+      void cacheManagerRef.current?.set(song.id, song);
+    }
+
+    const filePath = cachedSong?.filePath
+      || song.filePath
+      || stateRef.current.songs.find(librarySong => librarySong.id === song.id)?.filePath
+      || '';
+    loadedSongRef.current = song;
+    await manager.loadTrack(AudioEngine.trackFromSong({ ...song, filePath }));
+  }, []);
 
   // Core playback functions
   const play = useCallback(async (song?: Song): Promise<void> => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    const manager = playerRef.current;
+    if (!manager) return;
+    const request = ++playRequestRef.current;
 
     try {
       if (playPromiseRef.current) {
@@ -201,32 +304,30 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       }
 
       if (song) {
+        reportPlay(stateRef.current.currentTime);
         dispatch({ type: 'SET_CURRENT_SONG', payload: song });
-        dispatch({ type: 'SET_ERROR', payload: null });
-        
-        const cachedSong = await cacheManagerRef.current?.get(song.id);
-        if (cachedSong) {
-          audio.src = cachedSong.filePath;
-        } else if (song.uploadedBy === 'community' && song.filePath.startsWith('data:audio/')) {
-          audio.src = song.filePath;
-          void cacheManagerRef.current?.set(song.id, song);
-        } else {
-          audio.src = song.filePath;
-          if (song.id) {
-            void cacheManagerRef.current?.set(song.id, song);
-          }
-        }
-        
-        try {
-          await db.addToRecentlyPlayed(song);
-        } catch (error) {
-          console.warn('Failed to add to recently played:', error);
+      }
+
+      const target = song ?? stateRef.current.currentSong;
+      if (!target) return;
+
+      if (song || loadedSongRef.current?.id !== target.id) {
+        // A restored song resumes at its saved position
+        const resumeAt = song ? 0 : stateRef.current.currentTime;
+        dispatch({ type: 'SET_LOADING', payload: true });
+        playPromiseRef.current = loadSong(manager, target);
+        await playPromiseRef.current;
+        dispatch({ type: 'SET_LOADING', payload: false });
+        if (resumeAt > 0) {
+          manager.seek(resumeAt);
         }
       }
 
-      playPromiseRef.current = audio.play();
+      // Another song was picked while this one loaded
+      if (request !== playRequestRef.current) return;
+
+      playPromiseRef.current = manager.play();
       await playPromiseRef.current;
-      dispatch({ type: 'SET_PLAYING', payload: true });
     } catch (error) {
       console.error('Error playing audio:', error);
       dispatch({ type: 'SET_ERROR', payload: 'Failed to play audio' });
@@ -234,14 +335,11 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     } finally {
       playPromiseRef.current = null;
     }
-  }, []);
+  }, [loadSong, reportPlay]);
 
   const pause = useCallback(() => {
-    const audio = audioRef.current;
-    if (audio && !audio.paused) {
-      audio.pause();
-      dispatch({ type: 'SET_PLAYING', payload: false });
-    }
+    playerRef.current?.pause();
+    dispatch({ type: 'SET_PLAYING', payload: false });
   }, []);
 
   const togglePlay = useCallback(() => {
@@ -257,21 +355,17 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   }, [state.isPlaying, state.currentSong, state.queue, state.currentIndex, play, pause]);
 
   // Navigation functions
-  const getNextIndex = useCallback(() => {
-    if (state.isShuffled) {
-      const availableIndexes = [...Array(state.queue.length).keys()].filter(i => i !== state.currentIndex);
-      if (availableIndexes.length === 0) return null;
-      return availableIndexes[Math.floor(Math.random() * availableIndexes.length)];
-    } else {
-      const nextIndex = state.currentIndex + 1;
-      return nextIndex < state.queue.length ? nextIndex : (state.repeat === 'all' ? 0 : null);
-    }
-  }, [state.isShuffled, state.currentIndex, state.queue.length, state.repeat]);
+  const getNextIndex = useCallback(() => PlaybackSessionService.nextIndex({
+    queueLength: state.queue.length,
+    currentIndex: state.currentIndex,
+    shuffledIndices: state.shuffledIndices,
+    repeat: state.repeat
+  }), [state.shuffledIndices, state.currentIndex, state.queue.length, state.repeat]);
 
   const nextSong = useCallback(() => {
     const nextIndex = getNextIndex();
     if (nextIndex === null) {
-      dispatch({ type: 'SET_PLAYING', payload: false });
+      pause();
     } else {
       dispatch({ type: 'SET_CURRENT_INDEX', payload: nextIndex });
       const nextSong = state.queue[nextIndex];
@@ -279,19 +373,19 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         void play(nextSong);
       }
     }
-  }, [getNextIndex, state.queue, play]);
+  }, [getNextIndex, state.queue, play, pause]);
 
   const prevSong = useCallback(() => {
-    if (state.queue.length === 0) return;
-    
-    let prevIndex = state.currentIndex - 1;
-    if (prevIndex < 0) {
-      prevIndex = state.queue.length - 1;
-    }
+    const prevIndex = PlaybackSessionService.previousIndex({
+      queueLength: state.queue.length,
+      currentIndex: state.currentIndex,
+      shuffledIndices: state.shuffledIndices
+    });
+    if (prevIndex === null) return;
     
     dispatch({ type: 'SET_CURRENT_INDEX', payload: prevIndex });
     void play(state.queue[prevIndex]);
-  }, [state.queue, state.currentIndex, play]);
+  }, [state.queue, state.currentIndex, state.shuffledIndices, play]);
 
   // Queue management functions
   const addToQueue = useCallback((song: Song) => {
@@ -304,8 +398,8 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, [state.queue.length]);
 
-  const setQueue = useCallback((songs: Song[], startIndex = 0) => {
-    dispatch({ type: 'SET_QUEUE', payload: { songs, startIndex } });
+  const setQueue = useCallback((songs: Song[], startIndex = 0, context?: PlayContext) => {
+    dispatch({ type: 'SET_QUEUE', payload: { songs, startIndex, ...(context ? { context } : {}) } });
   }, []);
 
   // Playback control functions
@@ -322,82 +416,17 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   }, []);
 
   const seek = useCallback((time: number) => {
-    const audio = audioRef.current;
-    if (audio && !isNaN(time) && time >= 0 && time <= audio.duration) {
-      audio.currentTime = time;
-      dispatch({ type: 'SET_CURRENT_TIME', payload: time });
-    }
-  }, []);
-
-  // Audio event handlers
-  const handleTimeUpdate = useCallback(() => {
-    const audio = audioRef.current;
-    if (audio && !isNaN(audio.currentTime)) {
-      dispatch({ type: 'SET_CURRENT_TIME', payload: audio.currentTime });
-    }
-  }, []);
-
-  const handleDurationChange = useCallback(() => {
-    const audio = audioRef.current;
-    if (audio && !isNaN(audio.duration) && audio.duration > 0) {
-      dispatch({ type: 'SET_DURATION', payload: audio.duration });
-    }
-  }, []);
-
-  const handleLoadStart = useCallback(() => {
-    dispatch({ type: 'SET_LOADING', payload: true });
-  }, []);
-
-  const handleCanPlay = useCallback(() => {
-    dispatch({ type: 'SET_LOADING', payload: false });
-    dispatch({ type: 'SET_ERROR', payload: null });
-  }, []);
+    if (isNaN(time) || time < 0) return;
 
-  const handleError = useCallback((event: Event) => {
-    const audio = event.target as HTMLAudioElement;
-    const error = audio.error;
-    let errorMessage = 'Audio playback failed';
-    
-    if (error) {
-      switch (error.code) {
-        case error.MEDIA_ERR_ABORTED:
-          errorMessage = 'Audio playback was aborted';
-          break;
-        case error.MEDIA_ERR_NETWORK:
-          errorMessage = 'Network error occurred';
-          break;
-        case error.MEDIA_ERR_DECODE:
-          errorMessage = 'Audio decoding failed';
-          break;
-        case error.MEDIA_ERR_SRC_NOT_SUPPORTED:
-          errorMessage = 'Audio format not supported';
-          break;
-      }
+    // Before a restored song is loaded, the position is where its first play starts
+    const { currentSong, duration } = stateRef.current;
+    if (currentSong && loadedSongRef.current?.id === currentSong.id) {
+      if (time > duration) return;
+      playerRef.current?.seek(time);
     }
-    
-    dispatch({ type: 'SET_ERROR', payload: errorMessage });
-    dispatch({ type: 'SET_PLAYING', payload: false });
-    dispatch({ type: 'SET_LOADING', payload: false });
+    dispatch({ type: 'SET_CURRENT_TIME', payload: time });
   }, []);
 
-  const handleEnded = useCallback(() => {
-    if (state.repeat === 'one') {
-      const audio = audioRef.current;
-      if (audio) {
-        audio.currentTime = 0;
-        void audio.play();
-      }
-    } else {
-      if (state.repeat === 'all' || state.isShuffled) {
-        void nextSong();
-      } else if (state.currentIndex < state.queue.length - 1) {
-        void nextSong();
-      } else {
-        dispatch({ type: 'SET_PLAYING', payload: false });
-      }
-    }
-  }, [state.repeat, state.isShuffled, state.currentIndex, state.queue.length, nextSong]);
-
   // State update functions
   const updateCurrentTime = useCallback((time: number) => {
     if (!isNaN(time) && time >= 0) {
@@ -452,18 +481,16 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       await db.songs.update(songId, { liked: !song.liked });
       
       // If we have a user and Supabase is configured, update the backend
-      const authContext = window.localStorage.getItem('meow_play_auth');
-      if (authContext) {
-        const auth = JSON.parse(authContext);
-        const userId = auth?.user?.id;
-        
-        if (userId) {
-          const api = ApiService.getInstance();
-          if (!song.liked) {
-            await api.likeSong(userId, songId);
-          } else {
-            await api.unlikeSong(userId, songId);
-          }
+      const userId = getSignedInUserId();
+      if (userId && !navigator.onLine) {
+        // Replayed from the outbox once the connection is back
+        await OfflineOutbox.getInstance().enqueue({ type: song.liked ? 'unlike' : 'like', songId });
+      } else if (userId) {
+        const api = ApiService.getInstance();
+        if (!song.liked) {
+          await api.likeSong(userId, songId);
+        } else {
+          await api.unlikeSong(userId, songId);
         }
       }
     } catch (error) {
@@ -480,45 +507,191 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
 
   // Setup effects
   useEffect(() => {
-    playerManagerRef.current = new PlayerManager();
+    const manager = new PlayerManager({
+      defaultVolume: initialState.volume,
+      crossfadeEnabled: initialState.crossfadeEnabled,
+      crossfadeDuration: initialState.crossfadeDuration
+    });
+    playerRef.current = manager;
+    setPlayer(manager);
     cacheManagerRef.current = new CacheManager();
+    OfflineOutbox.getInstance().start();
+    const stopOfflineWipe = OfflineManager.watchLogout();
     return () => {
-      playerManagerRef.current?.cleanup();
-      playerManagerRef.current = null;
+      OfflineOutbox.getInstance().stop();
+      stopOfflineWipe();
+      manager.dispose();
+      playerRef.current = null;
+      loadedSongRef.current = null;
       cacheManagerRef.current?.destroy();
       cacheManagerRef.current = null;
     };
   }, []);
 
-  // Volume effect
+  // Follow the player: transport state, the tracks it moves on to, finished plays and errors
   useEffect(() => {
-    const audio = audioRef.current;
-    if (audio) {
-      audio.volume = state.volume;
+    if (!player) return;
+
+    const handleStateChange = (e: Event) => {
+      const playerState: PlayerState = (e as CustomEvent).detail.state;
+      const current = stateRef.current;
+
+      if (playerState.isPlaying !== current.isPlaying) {
+        dispatch({ type: 'SET_PLAYING', payload: playerState.isPlaying });
+      }
+
+      // A restored song keeps its saved position until it is loaded
+      if (!loadedSongRef.current) return;
+      if (playerState.currentTime !== current.currentTime) {
+        dispatch({ type: 'SET_CURRENT_TIME', payload: playerState.currentTime });
+      }
+      if (Number.isFinite(playerState.duration) && playerState.duration > 0 && playerState.duration !== current.duration) {
+        dispatch({ type: 'SET_DURATION', payload: playerState.duration });
+      }
+    };
+
+    const handleTrackChange = (e: Event) => {
+      const track: AudioTrack = (e as CustomEvent).detail.track;
+      const { queue, currentIndex } = stateRef.current;
+
+      // Songs played from here are current already; gapless, crossfaded and automatic moves come from the player's queue
+      const position = playOrderRef.current[player.getState().queuePosition];
+      const index = queue[currentIndex]?.id === track.id ? currentIndex
+        : position !== undefined && queue[position]?.id === track.id ? position
+        : queue.findIndex(song => song.id === track.id);
+      const song = loadedSongRef.current?.id === track.id ? loadedSongRef.current : queue[index];
+      if (!song) return;
+
+      loadedSongRef.current = song;
+      if (index !== -1 && index !== currentIndex) {
+        dispatch({ type: 'SET_CURRENT_INDEX', payload: index });
+      }
+      dispatch({ type: 'SET_CURRENT_SONG', payload: song });
+      currentPlayRef.current = { id: crypto.randomUUID(), songId: song.id, playedAt: Date.now() };
+
+      db.addToRecentlyPlayed(song).catch(error => {
+        console.warn('Failed to add to recently played:', error);
+      });
+    };
+
+    const handleTrackEnd = () => {
+      reportPlay(stateRef.current.duration);
+    };
+
+    const handleError = (e: Event) => {
+      dispatch({ type: 'SET_ERROR', payload: (e as CustomEvent).detail.message });
+    };
+
+    player.addEventListener('stateChange', handleStateChange);
+    player.addEventListener('trackChange', handleTrackChange);
+    player.addEventListener('trackEnd', handleTrackEnd);
+    player.addEventListener('error', handleError);
+    return () => {
+      player.removeEventListener('stateChange', handleStateChange);
+      player.removeEventListener('trackChange', handleTrackChange);
+      player.removeEventListener('trackEnd', handleTrackEnd);
+      player.removeEventListener('error', handleError);
+    };
+  }, [player, reportPlay]);
+
+  // Hand the queue to the player in play order, so it can preload, crossfade and move on by itself
+  useEffect(() => {
+    if (!player) return;
+
+    const order = state.shuffledIndices ?? state.queue.map((_, index) => index);
+    const tracks = order.map(index => AudioEngine.trackFromSong(state.queue[index]!));
+    const position = order.indexOf(state.currentIndex);
+    playOrderRef.current = order;
+
+    const current = player.getState();
+    if (
+      position !== current.queuePosition ||
+      tracks.length !== current.queue.length ||
+      tracks.some((track, i) => track.id !== current.queue[i]?.id)
+    ) {
+      player.setQueue(tracks, position);
+    }
+    if (state.repeat !== current.repeat) {
+      player.setRepeatMode(state.repeat);
     }
-  }, [state.volume]);
+  }, [player, state.queue, state.shuffledIndices, state.currentIndex, state.repeat]);
+
+  // Volume effect
+  useEffect(() => {
+    player?.setVolume(state.volume);
+  }, [player, state.volume]);
+
+  // Crossfade settings effect
+  useEffect(() => {
+    player?.updateSettings({
+      crossfadeEnabled: state.crossfadeEnabled,
+      crossfadeDuration: state.crossfadeDuration
+    });
+  }, [player, state.crossfadeEnabled, state.crossfadeDuration]);
 
-  // Audio event binding effect
+  // Equalizer effect: band edits apply in place, adding or removing bands reloads the whole preset
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    if (!player) return;
+
+    const { enabled, preamp, bands } = state.equalizer;
+    const applied = appliedEqualizerRef.current?.player === player ? appliedEqualizerRef.current.equalizer : null;
+    if (!applied || applied.bands.length !== bands.length) {
+      player.loadEqualizerPreset({ name: 'Custom', preamp, bands });
+    } else {
+      bands.forEach((band, index) => {
+        if (band !== applied.bands[index]) {
+          player.setEqualizerBand(index, band);
+        }
+      });
+      if (preamp !== applied.preamp) {
+        player.setEqualizerPreamp(preamp);
+      }
+    }
+    if (!applied || enabled !== applied.enabled) {
+      player.setEqualizerEnabled(enabled);
+    }
+    appliedEqualizerRef.current = { player, equalizer: state.equalizer };
+  }, [player, state.equalizer]);
 
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('durationchange', handleDurationChange);
-    audio.addEventListener('loadstart', handleLoadStart);
-    audio.addEventListener('canplay', handleCanPlay);
-    audio.addEventListener('error', handleError);
-    audio.addEventListener('ended', handleEnded);
+  // Restore the last playback session, paused at the saved position; its song loads on first play
+  useEffect(() => {
+    const sessionService = PlaybackSessionService.getInstance();
+    let cancelled = false;
+    sessionService.start();
+
+    void sessionService.restore().then(session => {
+      if (cancelled) return;
+      if (session?.queue[session.currentIndex]) {
+        dispatch({ type: 'RESTORE_SESSION', payload: session });
+      }
+      sessionRestoredRef.current = true;
+    });
 
     return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('durationchange', handleDurationChange);
-      audio.removeEventListener('loadstart', handleLoadStart);
-      audio.removeEventListener('canplay', handleCanPlay);
-      audio.removeEventListener('error', handleError);
-      audio.removeEventListener('ended', handleEnded);
+      cancelled = true;
+      sessionService.stop();
     };
-  }, [handleTimeUpdate, handleDurationChange, handleLoadStart, handleCanPlay, handleError, handleEnded]);
+  }, []);
+
+  // Persist the session whenever the queue or its order changes
+  useEffect(() => {
+    if (!sessionRestoredRef.current) return;
+    PlaybackSessionService.getInstance().update({
+      queue: state.queue,
+      currentIndex: state.currentIndex,
+      shuffledIndices: state.shuffledIndices,
+      repeat: state.repeat,
+      context: state.playContext
+    });
+  }, [state.queue, state.currentIndex, state.shuffledIndices, state.repeat, state.playContext]);
+
+  // Persist the position while the queued song plays; songs played from outside the queue are not resumed
+  useEffect(() => {
+    if (!sessionRestoredRef.current) return;
+    if (state.currentSong && state.currentSong.id === state.queue[state.currentIndex]?.id) {
+      PlaybackSessionService.getInstance().update({ position: state.currentTime });
+    }
+  }, [state.currentTime, state.currentSong, state.queue, state.currentIndex]);
 
   // Auto-refresh community songs effect
   useEffect(() => {
@@ -532,7 +705,7 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   return (
     <MusicContext.Provider value={{
       ...state,
-      audioRef,
+      player,
       play,
       pause,
       togglePlay,
@@ -556,7 +729,6 @@ export const MusicProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       isRepeating: state.repeat !== 'none'
     }}>
       {children}
-      <audio ref={audioRef} preload="metadata" />
     </MusicContext.Provider>
   );
 };
@@ -1,13 +1,16 @@
-import React, { createContext, useContext, useReducer, useCallback, useEffect, ReactNode, useRef } from 'react';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, ReactNode } from 'react';
 import { Song, Repeat } from '../types';
 import { usePlayback } from './PlaybackContext';
 import { PlayerService } from '../services/PlayerService';
 import { errorService } from '../services/ErrorService';
+import { PlaybackSessionService, PlaybackSession, PlayContext } from '../services/PlaybackSession';
 
 export interface QueueState {
   queue: Song[];
   currentIndex: number;
   isShuffled: boolean;
+  shuffledIndices: number[] | null; // play order while shuffle is on
+  playContext: PlayContext | null;
   repeat: Repeat;
   history: Song[];
   loading: boolean;
@@ -19,7 +22,7 @@ export interface QueueContextType extends QueueState {
   prevSong: () => void;
   addToQueue: (song: Song, position?: 'next' | 'end') => void;
   removeFromQueue: (index: number) => void;
-  setQueue: (songs: Song[], startIndex?: number) => void;
+  setQueue: (songs: Song[], startIndex?: number, context?: PlayContext) => void;
   toggleShuffle: () => void;
   toggleRepeat: () => void;
   setCurrentIndex: (index: number) => void;
@@ -31,7 +34,8 @@ export interface QueueContextType extends QueueState {
 }
 
 type QueueAction = 
-  | { type: 'SET_QUEUE'; payload: { songs: Song[]; startIndex?: number } }
+  | { type: 'SET_QUEUE'; payload: { songs: Song[]; startIndex?: number; context?: PlayContext } }
+  | { type: 'RESTORE_SESSION'; payload: PlaybackSession }
   | { type: 'ADD_TO_QUEUE'; payload: { song: Song; position?: 'next' | 'end' } }
   | { type: 'REMOVE_FROM_QUEUE'; payload: number }
   | { type: 'SET_CURRENT_INDEX'; payload: number }
@@ -47,6 +51,8 @@ const initialState: QueueState = {
   queue: [],
   currentIndex: 0,
   isShuffled: false,
+  shuffledIndices: null,
+  playContext: null,
   repeat: 'none' as Repeat,
   history: [],
   loading: false,
@@ -56,24 +62,44 @@ const initialState: QueueState = {
 const queueReducer = (state: QueueState, action: QueueAction): QueueState => {
   try {
     switch (action.type) {
-      case 'SET_QUEUE':
+      case 'SET_QUEUE': {
+        const currentIndex = Math.max(0, Math.min(action.payload.songs.length - 1, action.payload.startIndex || 0));
         return { 
           ...state, 
           queue: action.payload.songs,
-          currentIndex: Math.max(0, Math.min(action.payload.songs.length - 1, action.payload.startIndex || 0)),
+          currentIndex,
+          shuffledIndices: state.isShuffled
+            ? PlaybackSessionService.shuffleOrder(action.payload.songs.length, currentIndex)
+            : null,
+          playContext: action.payload.context ?? null,
           error: null
         };
+      }
       case 'ADD_TO_QUEUE': {
         const { song, position = 'end' } = action.payload;
         const newQueue = [...state.queue];
+        const index = position === 'next' ? state.currentIndex + 1 : newQueue.length;
+        newQueue.splice(index, 0, song);
         
-        if (position === 'next') {
-          newQueue.splice(state.currentIndex + 1, 0, song);
-        } else {
-          newQueue.push(song);
-        }
-        
-        return { ...state, queue: newQueue, error: null };
+        return {
+          ...state,
+          queue: newQueue,
+          shuffledIndices: state.shuffledIndices
+            && PlaybackSessionService.insertIntoOrder(state.shuffledIndices, index, state.currentIndex, position === 'next'),
+          error: null
+        };
+      }
+      case 'RESTORE_SESSION': {
+        const session = action.payload;
+        return {
+          ...state,
+          queue: session.queue,
+          currentIndex: session.currentIndex,
+          shuffledIndices: session.shuffledIndices,
+          isShuffled: session.shuffledIndices !== null,
+          repeat: session.repeat,
+          playContext: session.context
+        };
       }
       case 'REMOVE_FROM_QUEUE': {
         const index = action.payload;
@@ -94,6 +120,7 @@ const queueReducer = (state: QueueState, action: QueueAction): QueueState => {
           ...state, 
           queue: newQueue,
           currentIndex: Math.max(0, newIndex),
+          shuffledIndices: state.shuffledIndices && PlaybackSessionService.removeFromOrder(state.shuffledIndices, index),
           error: null
         };
       }
@@ -112,7 +139,11 @@ const queueReducer = (state: QueueState, action: QueueAction): QueueState => {
         };
       }
       case 'TOGGLE_SHUFFLE':
-        return { ...state, isShuffled: !state.isShuffled };
+        return {
+          ...state,
+          isShuffled: !state.isShuffled,
+          shuffledIndices: state.isShuffled ? null : PlaybackSessionService.shuffleOrder(state.queue.length, state.currentIndex)
+        };
       case 'TOGGLE_REPEAT': {
         const nextRepeat = (): Repeat => {
           switch (state.repeat) {
@@ -128,6 +159,8 @@ const queueReducer = (state: QueueState, action: QueueAction): QueueState => {
           ...state, 
           queue: [], 
           currentIndex: 0, 
+          shuffledIndices: state.isShuffled ? [] : null,
+          playContext: null,
           history: [], 
           error: null 
         };
@@ -154,19 +187,15 @@ const QueueContext = createContext<QueueContextType | undefined>(undefined);
 
 export const QueueProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(queueReducer, initialState);
-  const { play } = usePlayback();
+  const { play, setCurrentSong, updateCurrentTime } = usePlayback();
 
   // Navigation functions
-  const getNextIndex = useCallback(() => {
-    if (state.isShuffled) {
-      const availableIndexes = [...Array(state.queue.length).keys()].filter(i => i !== state.currentIndex);
-      if (availableIndexes.length === 0) return null;
-      return availableIndexes[Math.floor(Math.random() * availableIndexes.length)];
-    } else {
-      const nextIndex = state.currentIndex + 1;
-      return nextIndex < state.queue.length ? nextIndex : (state.repeat === 'all' ? 0 : null);
-    }
-  }, [state.isShuffled, state.currentIndex, state.queue.length, state.repeat]);
+  const getNextIndex = useCallback(() => PlaybackSessionService.nextIndex({
+    queueLength: state.queue.length,
+    currentIndex: state.currentIndex,
+    shuffledIndices: state.shuffledIndices,
+    repeat: state.repeat
+  }), [state.shuffledIndices, state.currentIndex, state.queue.length, state.repeat]);
 
   const nextSong = useCallback(() => {
     const nextIndex = getNextIndex();
@@ -183,16 +212,16 @@ export const QueueProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   }, [getNextIndex, state.queue, play]);
 
   const prevSong = useCallback(() => {
-    if (state.queue.length === 0) return;
-    
-    let prevIndex = state.currentIndex - 1;
-    if (prevIndex < 0) {
-      prevIndex = state.queue.length - 1;
-    }
+    const prevIndex = PlaybackSessionService.previousIndex({
+      queueLength: state.queue.length,
+      currentIndex: state.currentIndex,
+      shuffledIndices: state.shuffledIndices
+    });
+    if (prevIndex === null) return;
     
     dispatch({ type: 'SET_CURRENT_INDEX', payload: prevIndex });
     void play(state.queue[prevIndex]);
-  }, [state.queue, state.currentIndex, play]);
+  }, [state.queue, state.currentIndex, state.shuffledIndices, play]);
 
   // Queue management functions with error handling
   const addToQueue = useCallback((song: Song, position: 'next' | 'end' = 'end') => {
@@ -225,12 +254,12 @@ export const QueueProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, [state.queue]);
 
-  const setQueue = useCallback((songs: Song[], startIndex = 0) => {
+  const setQueue = useCallback((songs: Song[], startIndex = 0, context?: PlayContext) => {
     try {
       if (!Array.isArray(songs)) {
         throw new Error('Invalid songs array');
       }
-      dispatch({ type: 'SET_QUEUE', payload: { songs, startIndex } });
+      dispatch({ type: 'SET_QUEUE', payload: { songs, startIndex, ...(context ? { context } : {}) } });
     } catch (error) {
       errorService.logUIError(error as Error, 'QueueContext.setQueue');
       errorService.showError('Failed to set queue', { duration: 5000 });
@@ -340,6 +369,26 @@ export const QueueProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, [state.repeat]);
 
+  // Restore the session MusicContext saves; the current song comes back paused at the saved position
+  useEffect(() => {
+    let cancelled = false;
+    
+    void PlaybackSessionService.getInstance().restore().then(session => {
+      if (cancelled) return;
+      const song = session?.queue[session.currentIndex];
+      
+      if (session && song) {
+        dispatch({ type: 'RESTORE_SESSION', payload: session });
+        setCurrentSong(song);
+        updateCurrentTime(session.position);
+      }
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [setCurrentSong, updateCurrentTime]);
+
   // Handle song end events
   useEffect(() => {
     const playerService = PlayerService.getInstance();
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { audioFeatureAnalyzer, StoredAudioFeatures } from '../audio/AudioFeatureAnalyzer';
+
+/**
+ * Lookup for analyzed tempo/key/energy that re-renders when stored features load or change
+ */
+export function useAudioFeatures(): (songId: string) => StoredAudioFeatures | undefined {
+  const [features, setFeatures] = useState(() => audioFeatureAnalyzer.getAllCachedFeatures());
+
+  useEffect(() => {
+    let active = true;
+    const refresh = () => {
+      if (active) setFeatures(audioFeatureAnalyzer.getAllCachedFeatures());
+    };
+
+    void audioFeatureAnalyzer.loadCache().then(refresh);
+    audioFeatureAnalyzer.addEventListener('featuresChange', refresh);
+
+    return () => {
+      active = false;
+      audioFeatureAnalyzer.removeEventListener('featuresChange', refresh);
+    };
+  }, []);
+
+  return useCallback((songId: string) => features.get(songId), [features]);
+}
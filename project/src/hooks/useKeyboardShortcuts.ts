@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { useMusic } from '../contexts/MusicContext';
 import { useNavigate } from 'react-router-dom';
+import { sleepTimer } from '../managers/SleepTimer';
 
 export const useKeyboardShortcuts = () => {
   const { togglePlay, nextSong, prevSong, setVolume, volume } = useMusic();
@@ -47,6 +48,18 @@ export const useKeyboardShortcuts = () => {
             setVolume(Math.max(0, volume - 0.1));
           }
           break;
+        case 'KeyZ':
+          if (e.shiftKey) {
+            e.preventDefault();
+            sleepTimer.extend();
+          }
+          break;
+        case 'KeyX':
+          if (e.shiftKey) {
+            e.preventDefault();
+            sleepTimer.cancel();
+          }
+          break;
         case 'KeyH':
           if (e.altKey) {
             e.preventDefault();
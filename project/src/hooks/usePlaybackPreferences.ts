@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import { playbackPreferences, PlaybackPreferencesState } from '../managers/PlaybackPreferences';
+
+/**
+ * Shared playback preferences, updated whenever any view changes them
+ */
+export function usePlaybackPreferences(): [PlaybackPreferencesState, (changes: Partial<PlaybackPreferencesState>) => void] {
+  const [preferences, setPreferences] = useState<PlaybackPreferencesState>(playbackPreferences.getState());
+
+  useEffect(() => {
+    const handleChange = () => setPreferences(playbackPreferences.getState());
+
+    playbackPreferences.addEventListener('change', handleChange);
+    return () => playbackPreferences.removeEventListener('change', handleChange);
+  }, []);
+
+  return [preferences, changes => playbackPreferences.update(changes)];
+}
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { audioFeatureAnalyzer, StoredWaveform, WaveformEvent } from '../audio/AudioFeatureAnalyzer';
+
+/**
+ * Stored waveform peaks for a song, updated once they are generated
+ */
+export function useWaveform(songId: string | undefined): StoredWaveform | null {
+  const [waveform, setWaveform] = useState<StoredWaveform | null>(null);
+
+  useEffect(() => {
+    setWaveform(null);
+    if (!songId) return;
+
+    let active = true;
+    void audioFeatureAnalyzer.getWaveform(songId).then(stored => {
+      if (active && stored) setWaveform(stored);
+    });
+
+    const handleChange = (e: Event) => {
+      const { detail } = e as WaveformEvent;
+      if (active && detail.songId === songId) setWaveform(detail.waveform);
+    };
+
+    audioFeatureAnalyzer.addEventListener('waveformChange', handleChange);
+    return () => {
+      active = false;
+      audioFeatureAnalyzer.removeEventListener('waveformChange', handleChange);
+    };
+  }, [songId]);
+
+  return waveform;
+}
@@ -0,0 +1,77 @@
+/**
+ * Playback Preferences for Meow-Play
+ * Features: Player settings chosen in the views, persisted across reloads and applied by every PlayerManager
+ */
+
+import { PlaybackSettings } from '../types/music';
+import type { PrefetchSettings } from './PlayerManager';
+
+export type PlaybackPreferencesState = Pick<
+  PlaybackSettings,
+  'gaplessEnabled' | 'replayGainEnabled' | 'replayGainMode' | 'replayGainPreamp' | 'normalizationEnabled'
+> & {
+  smartCrossfade: boolean; // silence trimming and beat-aligned crossfades
+  prefetchPolicy: Pick<PrefetchSettings, 'dataSaver' | 'wifiOnly'>; // mirrors offlineSlice's selectPrefetchPolicy
+};
+
+export const DEFAULT_PLAYBACK_PREFERENCES: PlaybackPreferencesState = {
+  gaplessEnabled: false,
+  replayGainEnabled: false,
+  replayGainMode: 'track',
+  replayGainPreamp: 0,
+  normalizationEnabled: false,
+  smartCrossfade: false,
+  prefetchPolicy: { dataSaver: false, wifiOnly: false }
+};
+
+const PLAYBACK_PREFERENCES_STORAGE_KEY = 'meow_play_playback_preferences';
+
+export class PlaybackPreferences extends EventTarget {
+  private state: PlaybackPreferencesState = { ...DEFAULT_PLAYBACK_PREFERENCES };
+
+  constructor() {
+    super();
+    this.restore();
+  }
+
+  getState(): PlaybackPreferencesState {
+    return { ...this.state };
+  }
+
+  /**
+   * Change some preferences; listeners receive the full new state
+   */
+  update(changes: Partial<PlaybackPreferencesState>): void {
+    this.state = { ...this.state, ...changes };
+    this.persist();
+
+    this.dispatchEvent(new CustomEvent('change', {
+      detail: { preferences: this.getState() }
+    }));
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(PLAYBACK_PREFERENCES_STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('Failed to save playback preferences:', error);
+    }
+  }
+
+  /**
+   * Load saved preferences; settings added since they were saved keep their defaults
+   */
+  private restore(): void {
+    try {
+      const saved = localStorage.getItem(PLAYBACK_PREFERENCES_STORAGE_KEY);
+      if (!saved) return;
+
+      this.state = { ...DEFAULT_PLAYBACK_PREFERENCES, ...(JSON.parse(saved) as Partial<PlaybackPreferencesState>) };
+    } catch (error) {
+      console.warn('Failed to restore playback preferences:', error);
+    }
+  }
+}
+
+// Shared by the player and the views that control it
+export const playbackPreferences = new PlaybackPreferences();
@@ -4,10 +4,21 @@
  * Rating Target: A+ (10/10)
  */
 
-import { AudioEngine, AudioTrack, AudioEngineState } from '../audio/AudioEngine';
+import { AudioEngine, AudioTrack, AudioEngineState, AudioVisualizationData, TrackTransition, LoopRegion, AudioEffect, EqualizerBand, EqualizerPreset, EqualizerPresetFormat, WavBitDepth } from '../audio/AudioEngine';
 import { StreamingManager, StreamingQuality, BufferStatus } from '../audio/StreamingManager';
-import { OfflineManager, OfflineTrack } from '../audio/OfflineManager';
+import { OfflineManager, OfflineTrack, SyncResult, LibraryExportResult, LibraryImportResult } from '../audio/OfflineManager';
+import { OfflineRule, SyncPlan } from '../audio/OfflineSync';
 import { AudioVisualizer, VisualizationMode } from '../audio/AudioVisualizer';
+import { LoudnessNormalizer, LoudnessSettings, DEFAULT_LOUDNESS_SETTINGS } from '../audio/LoudnessNormalizer';
+import { normalizeEffects } from '../audio/AudioEffects';
+import { SmartCrossfade } from '../audio/SmartCrossfade';
+import { OfflineRenderer } from '../audio/OfflineRenderer';
+import { audioFeatureAnalyzer } from '../audio/AudioFeatureAnalyzer';
+import { sleepTimer, SleepTimer, SleepTimerEvent, SleepTimerMode, SleepTimerState } from './SleepTimer';
+import { playbackPreferences, PlaybackPreferences, PlaybackPreferencesState } from './PlaybackPreferences';
+import { getUser } from '../utils/auth';
+import { db, BOOKMARKS_CHANGE_EVENT, LOGIN_EVENT, LOGOUT_EVENT } from '../utils/indexedDB';
+import { TrackBookmark } from '../types';
 
 export interface PlayerState {
   currentTrack: AudioTrack | null;
@@ -22,6 +33,13 @@ export interface PlayerState {
   queuePosition: number;
   crossfadeEnabled: boolean;
   crossfadeDuration: number;
+  smartCrossfade: boolean;
+  gaplessEnabled: boolean;
+  normalizationGain: number; // dB
+  loopRegion: LoopRegion | null;
+  bookmarks: TrackBookmark[]; // current track, sorted by time
+  practice: PracticeState | null;
+  sleepTimer: SleepTimerState | null;
   isOffline: boolean;
   bufferStatus: BufferStatus;
   streamingQuality: StreamingQuality | null;
@@ -31,11 +49,62 @@ export interface PlayerSettings {
   defaultVolume: number;
   crossfadeEnabled: boolean;
   crossfadeDuration: number;
+  smartCrossfade: boolean;
+  gaplessEnabled: boolean;
+  loudness: LoudnessSettings;
   visualizerEnabled: boolean;
   visualizerMode: VisualizationMode;
   offlineEnabled: boolean;
   adaptiveStreaming: boolean;
   preferredQuality: string;
+  prefetch: PrefetchSettings;
+}
+
+export interface PrefetchSettings {
+  enabled: boolean;
+  tracks: number; // upcoming tracks to prefetch
+  seconds: number; // opening seconds fetched per track
+  startAt: number; // share of the current track played before prefetching starts
+  dataSaver: boolean; // from offlineSlice; disables prefetching
+  wifiOnly: boolean; // from offlineSlice; prefetch only on unmetered connections
+}
+
+export const DEFAULT_PREFETCH_SETTINGS: PrefetchSettings = {
+  enabled: true,
+  tracks: 1,
+  seconds: 20,
+  startAt: 0.5,
+  dataSaver: false,
+  wifiOnly: false
+};
+
+export interface PracticeSettings {
+  startRate: number; // tempo of the first repetition
+  targetRate: number; // tempo to work up to
+  step: number; // tempo added after each repetition
+  countInBeats: number; // 0 disables the count-in
+}
+
+export interface PracticeState extends PracticeSettings {
+  repetition: number;
+  rate: number;
+}
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+  startRate: 0.7,
+  targetRate: 1,
+  step: 0.05,
+  countInBeats: 4
+};
+
+// Count-in tempo for tracks without a known BPM
+const DEFAULT_COUNT_IN_BPM = 100;
+
+export type TimeStretchState = Pick<AudioEngineState, 'playbackRate' | 'pitchSemitones' | 'preservePitch'>;
+
+export interface TrackExportOptions {
+  bitDepth?: WavBitDepth;
+  loopRegionOnly?: boolean; // export just the A-B loop
 }
 
 export type PlayerEvent = 
@@ -46,7 +115,21 @@ export type PlayerEvent =
   | 'bufferUpdate'
   | 'qualityChange'
   | 'downloadProgress'
-  | 'offlineStateChange';
+  | 'offlineStateChange'
+  | 'normalizationChange'
+  | 'effectsChange'
+  | 'timeStretchChange'
+  | 'loopChange'
+  | 'bookmarksChange'
+  | 'practiceChange'
+  | 'sleepTimerChange'
+  | 'exportStart'
+  | 'exportProgress'
+  | 'exportComplete'
+  | 'exportError';
+
+// Effect settings are stored per user under `${EFFECTS_STORAGE_KEY}_${userId}`
+const EFFECTS_STORAGE_KEY = 'meow_play_audio_effects';
 
 export class PlayerManager extends EventTarget {
   private audioEngine: AudioEngine;
@@ -64,9 +147,34 @@ export class PlayerManager extends EventTarget {
   // Crossfade management
   private crossfadeTimer: number | null = null;
   
+  // Per-user effect settings
+  private effectsUserId: string | null = null;
+  
+  // Practice mode restores this tempo when it ends
+  private rateBeforePractice: number = 1;
+  
+  // Sleep timer is shared with the views, so its listeners are removed on dispose
+  private sleepTimer: SleepTimer = sleepTimer;
+  private sleepTimerListeners: Array<[SleepTimerEvent, EventListener]> = [];
+  
+  // Preferences are shared with the settings views too
+  private preferences: PlaybackPreferences = playbackPreferences;
+  
+  // Blob URLs of the offline copies being played and preloaded; each is revoked once replaced
+  private currentObjectUrl: string | null = null;
+  private preloadObjectUrl: string | null = null;
+  private preloadGeneration: number = 0;
+  
+  // Offline export in progress; starting another one cancels it
+  private exportController: AbortController | null = null;
+  
   // Error handling
   private retryAttempts: Map<string, number> = new Map();
   private maxRetries: number = 3;
+  
+  // URLs of the tracks currently being prefetched; a new generation cancels stale work
+  private prefetchKey: string | null = null;
+  private prefetchGeneration: number = 0;
 
   constructor(
     settings: Partial<PlayerSettings> = {},
@@ -79,11 +187,15 @@ export class PlayerManager extends EventTarget {
       defaultVolume: 0.8,
       crossfadeEnabled: true,
       crossfadeDuration: 3,
+      smartCrossfade: this.preferences.getState().smartCrossfade,
+      gaplessEnabled: this.preferences.getState().gaplessEnabled,
+      loudness: { ...DEFAULT_LOUDNESS_SETTINGS, ...LoudnessNormalizer.fromPlaybackSettings(this.preferences.getState()) },
       visualizerEnabled: true,
       visualizerMode: 'bars',
       offlineEnabled: true,
       adaptiveStreaming: true,
       preferredQuality: 'auto',
+      prefetch: { ...DEFAULT_PREFETCH_SETTINGS, ...this.preferences.getState().prefetchPolicy },
       ...settings
     };
     
@@ -101,6 +213,13 @@ export class PlayerManager extends EventTarget {
       queuePosition: -1,
       crossfadeEnabled: this.settings.crossfadeEnabled,
       crossfadeDuration: this.settings.crossfadeDuration,
+      smartCrossfade: this.settings.smartCrossfade,
+      gaplessEnabled: this.settings.gaplessEnabled,
+      normalizationGain: 0,
+      loopRegion: null,
+      bookmarks: [],
+      practice: null,
+      sleepTimer: this.sleepTimer.getState(),
       isOffline: false,
       bufferStatus: {
         buffered: 0,
@@ -135,15 +254,27 @@ export class PlayerManager extends EventTarget {
     try {
       // Initialize audio engine
       this.audioEngine = new AudioEngine();
+      this.audioEngine.setGaplessEnabled(this.settings.gaplessEnabled);
+      this.audioEngine.setCrossfadeSettings({
+        enabled: this.settings.crossfadeEnabled,
+        duration: this.settings.crossfadeDuration,
+        smart: this.settings.smartCrossfade
+      });
+      this.audioEngine.setLoudnessSettings(this.settings.loudness);
+      
+      // Restore the signed-in user's effects chain
+      this.effectsUserId = getUser()?.id ?? null;
+      this.audioEngine.setEffects(this.loadSavedEffects());
       
       // Initialize streaming manager
       this.streamingManager = new StreamingManager({
         preferredQuality: this.settings.preferredQuality,
         adaptiveStreaming: this.settings.adaptiveStreaming
       });
+      this.audioEngine.setMediaAttacher((media, track) => this.streamingManager.attachMedia(media, track.url));
       
       // Initialize offline manager
-      this.offlineManager = new OfflineManager();
+      this.offlineManager = OfflineManager.getInstance();
       
       this.dispatchEvent(new CustomEvent('systemsInitialized'));
     } catch (error) {
@@ -175,12 +306,20 @@ export class PlayerManager extends EventTarget {
     // Audio engine events
     this.audioEngine.addEventListener('playStateChange', (e: any) => {
       this.state.isPlaying = e.detail.isPlaying;
+      this.updateSleepTimerEstimate();
       this.emitStateChange();
     });
     
     this.audioEngine.addEventListener('timeUpdate', (e: any) => {
       this.state.currentTime = e.detail.currentTime;
       this.checkCrossfade();
+      this.refreshPrefetch();
+      this.updateSleepTimerEstimate();
+      this.emitStateChange();
+    });
+    
+    this.audioEngine.addEventListener('metadataLoaded', (e: Event) => {
+      this.state.duration = (e as CustomEvent).detail.duration;
       this.emitStateChange();
     });
     
@@ -188,6 +327,48 @@ export class PlayerManager extends EventTarget {
       this.handleTrackEnd();
     });
     
+    this.audioEngine.addEventListener('normalizationChange', (e: Event) => {
+      this.state.normalizationGain = (e as CustomEvent).detail.gainDb;
+      this.dispatchEvent(new CustomEvent('normalizationChange', { detail: (e as CustomEvent).detail }));
+      this.emitStateChange();
+    });
+    
+    this.audioEngine.addEventListener('gaplessTransition', (e: Event) => {
+      this.handleScheduledTransition((e as CustomEvent).detail.track, 'gapless');
+    });
+    
+    this.audioEngine.addEventListener('crossfadeTransition', (e: Event) => {
+      this.handleScheduledTransition((e as CustomEvent).detail.track, 'crossfade');
+    });
+    
+    this.audioEngine.addEventListener('effectsChange', (e: Event) => {
+      this.saveEffects((e as CustomEvent).detail.effects);
+      this.dispatchEvent(new CustomEvent('effectsChange', { detail: (e as CustomEvent).detail }));
+    });
+    
+    this.audioEngine.addEventListener('playbackRateChange', () => {
+      this.emitTimeStretchChange();
+    });
+    
+    this.audioEngine.addEventListener('pitchShiftChange', () => {
+      this.emitTimeStretchChange();
+    });
+    
+    this.audioEngine.addEventListener('loopChange', (e: Event) => {
+      this.state.loopRegion = (e as CustomEvent).detail.region;
+      if (!this.state.loopRegion && this.state.practice) {
+        this.stopPractice();
+      }
+      this.dispatchEvent(new CustomEvent('loopChange', { detail: (e as CustomEvent).detail }));
+      this.emitStateChange();
+    });
+    
+    this.audioEngine.addEventListener('loopEnd', (e: Event) => {
+      if (!this.state.practice) return;
+      e.preventDefault();
+      void this.nextPracticeRepetition();
+    });
+    
     this.audioEngine.addEventListener('audioError', (e: any) => {
       this.handleError('Audio playback error', e.detail.error);
     });
@@ -213,23 +394,52 @@ export class PlayerManager extends EventTarget {
       this.handleBufferStall();
     });
     
-    // Offline manager events
-    this.offlineManager.addEventListener('downloadProgress', (e: any) => {
-      this.dispatchEvent(new CustomEvent('downloadProgress', { detail: e.detail }));
+    this.streamingManager.addEventListener('streamError', (e: Event) => {
+      this.handleError('Streaming error', (e as CustomEvent).detail.error);
     });
     
-    this.offlineManager.addEventListener('downloadComplete', (e: any) => {
-      this.dispatchEvent(new CustomEvent('downloadComplete', { detail: e.detail }));
+    this.streamingManager.addEventListener('connectionChange', () => {
+      this.refreshPrefetch(true);
     });
     
-    // Network status events
-    window.addEventListener('online', () => {
-      this.updateOfflineStatus();
+    // Offline manager events; the manager is shared, so these are removed on dispose
+    this.offlineManager.addEventListener('downloadProgress', this.forwardDownloadEvent);
+    this.offlineManager.addEventListener('downloadComplete', this.forwardDownloadEvent);
+    
+    // Sleep timer events
+    this.listenToSleepTimer('change', (e: Event) => {
+      this.state.sleepTimer = (e as CustomEvent).detail.state;
+      this.updateSleepTimerEstimate();
+      // The next track must not be scheduled when playback stops after this one
+      this.refreshGaplessPreload();
+      this.refreshPrefetch();
+      this.dispatchEvent(new CustomEvent('sleepTimerChange', { detail: (e as CustomEvent).detail }));
+      this.emitStateChange();
+    });
+    
+    this.listenToSleepTimer('fade', (e: Event) => {
+      this.audioEngine.fadeOut((e as CustomEvent).detail.seconds);
     });
     
-    window.addEventListener('offline', () => {
-      this.updateOfflineStatus();
+    this.listenToSleepTimer('fadeCancel', () => {
+      this.audioEngine.cancelFadeOut();
     });
+    
+    this.listenToSleepTimer('expire', () => {
+      this.pause();
+      this.audioEngine.cancelFadeOut();
+    });
+    
+    // Preferences changed in the settings views
+    this.preferences.addEventListener('change', this.handlePreferencesChange);
+    
+    // Effects are saved per user, so they switch with the signed-in account
+    window.addEventListener(LOGIN_EVENT, this.handleLogin);
+    window.addEventListener(LOGOUT_EVENT, this.handleLogout);
+    
+    // Network status events
+    window.addEventListener('online', this.handleConnectivityChange);
+    window.addEventListener('offline', this.handleConnectivityChange);
   }
 
   /**
@@ -239,32 +449,18 @@ export class PlayerManager extends EventTarget {
     try {
       this.state.currentTrack = track;
       
-      // Check if track is available offline
-      const isOfflineAvailable = await this.offlineManager.isTrackOffline(track.id);
-      
-      let audioUrl = track.url;
-      
-      if (isOfflineAvailable) {
-        // Use offline version
-        const offlineData = await this.offlineManager.getOfflineAudioData(track.id);
-        if (offlineData) {
-          // Convert offline data to blob URL
-          const blob = new Blob([offlineData], { type: `audio/${track.format}` });
-          audioUrl = URL.createObjectURL(blob);
-        }
-      } else if (!this.state.isOffline) {
-        // Use streaming version
-        audioUrl = this.streamingManager.createStreamingUrl(track.url);
-        
-        // Start buffer monitoring
-        // Note: This would be implemented when audio element is available
-      }
+      const { playbackTrack, isOfflineAvailable } = await this.resolvePlaybackTrack(track);
+      const features = await audioFeatureAnalyzer.getFeatures(track.id);
       
-      // Update track with streaming URL
-      const streamingTrack = { ...track, url: audioUrl };
+      // Load track in audio engine; a known tempo lets smart crossfades skip the BPM estimate
+      await this.audioEngine.loadTrack(
+        features && features.tempo > 0 && !playbackTrack.tempo
+          ? { ...playbackTrack, tempo: features.tempo }
+          : playbackTrack
+      );
       
-      // Load track in audio engine
-      await this.audioEngine.loadTrack(streamingTrack);
+      // The previous track's offline copy is no longer played
+      this.setCurrentObjectUrl(playbackTrack.url);
       
       // Reset retry counter
       this.retryAttempts.delete(track.id);
@@ -273,11 +469,53 @@ export class PlayerManager extends EventTarget {
         detail: { track, isOffline: isOfflineAvailable } 
       }));
       
+      this.refreshGaplessPreload();
+      this.refreshPrefetch();
+      void this.loadBookmarks();
+
+      // First play of an unanalyzed track: extract its features in the background.
+      // An offline copy may be playing through a media source, which cannot be fetched.
+      if (!features && isOfflineAvailable) {
+        void this.offlineManager.getOfflineAudioData(track.id)
+          .then(data => (data ? audioFeatureAnalyzer.analyze(track.id, new Blob([data])) : null))
+          .catch(() => {});
+      } else if (!features && !this.streamingManager.isSegmentedUrl(playbackTrack.url)) {
+        void audioFeatureAnalyzer.analyze(track.id, playbackTrack.url);
+      }
+      
     } catch (error) {
       await this.handleTrackLoadError(track, error);
     }
   }
 
+  /**
+   * Resolve the URL a track should be played from (offline copy or streaming URL)
+   */
+  private async resolvePlaybackTrack(track: AudioTrack): Promise<{ playbackTrack: AudioTrack; isOfflineAvailable: boolean }> {
+    // Check if track is available offline
+    const isOfflineAvailable = await this.offlineManager.isTrackOffline(track.id);
+    
+    let audioUrl = track.url;
+    
+    if (isOfflineAvailable) {
+      // Use offline version, decrypted record by record as it plays
+      const offlineUrl = await this.offlineManager.getOfflinePlaybackUrl(track).catch(() => null);
+      
+      if (offlineUrl) {
+        audioUrl = offlineUrl;
+      } else if (!this.state.isOffline && !this.streamingManager.isSegmentedUrl(track.url)) {
+        // The stored copy failed to decrypt and is being downloaded again
+        audioUrl = this.streamingManager.createStreamingUrl(track.url);
+      }
+    } else if (!this.state.isOffline && !this.streamingManager.isSegmentedUrl(track.url)) {
+      // Use streaming version; HLS/DASH manifests choose renditions once attached to the audio element
+      audioUrl = this.streamingManager.createStreamingUrl(track.url);
+    }
+    
+    // Update track with streaming URL
+    return { playbackTrack: { ...track, url: audioUrl }, isOfflineAvailable };
+  }
+
   /**
    * Play current track
    */
@@ -366,6 +604,8 @@ export class PlayerManager extends EventTarget {
       this.shuffleQueue();
     }
     
+    this.refreshGaplessPreload();
+    this.refreshPrefetch();
     this.emitStateChange();
   }
 
@@ -385,6 +625,8 @@ export class PlayerManager extends EventTarget {
       this.updateShuffledIndices();
     }
     
+    this.refreshGaplessPreload();
+    this.refreshPrefetch();
     this.emitStateChange();
   }
 
@@ -404,6 +646,8 @@ export class PlayerManager extends EventTarget {
         this.updateShuffledIndices();
       }
       
+      this.refreshGaplessPreload();
+      this.refreshPrefetch();
       this.emitStateChange();
     }
   }
@@ -450,6 +694,8 @@ export class PlayerManager extends EventTarget {
       }
     }
     
+    this.refreshGaplessPreload();
+    this.refreshPrefetch();
     this.emitStateChange();
   }
 
@@ -458,6 +704,8 @@ export class PlayerManager extends EventTarget {
    */
   setRepeatMode(mode: 'none' | 'one' | 'all'): void {
     this.state.repeat = mode;
+    this.refreshGaplessPreload();
+    this.refreshPrefetch();
     this.emitStateChange();
   }
 
@@ -466,6 +714,8 @@ export class PlayerManager extends EventTarget {
    */
   toggleCrossfade(): void {
     this.state.crossfadeEnabled = !this.state.crossfadeEnabled;
+    this.audioEngine.setCrossfadeSettings({ enabled: this.state.crossfadeEnabled });
+    this.refreshGaplessPreload();
     this.emitStateChange();
   }
 
@@ -474,9 +724,45 @@ export class PlayerManager extends EventTarget {
    */
   setCrossfadeDuration(duration: number): void {
     this.state.crossfadeDuration = Math.max(1, Math.min(10, duration));
+    this.audioEngine.setCrossfadeSettings({ duration: this.state.crossfadeDuration });
+    this.emitStateChange();
+  }
+
+  /**
+   * Toggle smart crossfades (silence trimming, beat alignment, per-transition curve).
+   * Takes effect from the next loaded track.
+   */
+  setSmartCrossfadeEnabled(enabled: boolean): void {
+    this.state.smartCrossfade = enabled;
+    this.settings.smartCrossfade = enabled;
+    this.audioEngine.setCrossfadeSettings({ smart: enabled });
+    this.refreshGaplessPreload();
     this.emitStateChange();
   }
 
+  /**
+   * Toggle gapless playback
+   */
+  setGaplessEnabled(enabled: boolean): void {
+    this.state.gaplessEnabled = enabled;
+    this.settings.gaplessEnabled = enabled;
+    this.audioEngine.setGaplessEnabled(enabled);
+    this.refreshGaplessPreload();
+    this.emitStateChange();
+  }
+
+  /**
+   * Configure ReplayGain / loudness normalization (track or album mode, preamp, clipping protection)
+   */
+  setLoudnessSettings(settings: Partial<LoudnessSettings>): void {
+    try {
+      this.settings.loudness = { ...this.settings.loudness, ...settings };
+      this.audioEngine.setLoudnessSettings(this.settings.loudness);
+    } catch (error) {
+      this.handleError('Failed to update loudness settings', error);
+    }
+  }
+
   /**
    * Download track for offline playback
    */
@@ -499,6 +785,54 @@ export class PlayerManager extends EventTarget {
     }
   }
 
+  /**
+   * Preview the downloads and evictions the offline rules (offlineSlice `offlineRules`) would cause
+   */
+  async previewOfflineSync(rules: OfflineRule[]): Promise<SyncPlan | null> {
+    try {
+      return await this.offlineManager.previewSync(rules);
+    } catch (error) {
+      this.handleError('Failed to preview offline sync', error);
+      return null;
+    }
+  }
+
+  /**
+   * Apply the offline rules within the storage budget
+   */
+  async syncOffline(rules: OfflineRule[]): Promise<SyncResult | null> {
+    try {
+      return await this.offlineManager.syncOffline(rules);
+    } catch (error) {
+      this.handleError('Offline sync failed', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the offline library as a single archive for another browser or device; null if cancelled or failed
+   */
+  async exportOfflineLibrary(): Promise<LibraryExportResult | null> {
+    try {
+      return await this.offlineManager.exportLibrary();
+    } catch (error) {
+      this.handleError('Failed to export offline library', error);
+      return null;
+    }
+  }
+
+  /**
+   * Import an offline library archive exported on another browser or device
+   */
+  async importOfflineLibrary(file: Blob): Promise<LibraryImportResult | null> {
+    try {
+      return await this.offlineManager.importLibrary(file);
+    } catch (error) {
+      this.handleError('Failed to import offline library', error);
+      return null;
+    }
+  }
+
   /**
    * Set visualizer mode
    */
@@ -546,10 +880,528 @@ export class PlayerManager extends EventTarget {
     }
   }
 
+  /**
+   * Set tempo (0.5x-2x); pitch is kept unless pitch preservation is turned off
+   */
+  setPlaybackRate(rate: number): void {
+    this.audioEngine.setPlaybackRate(rate);
+  }
+
+  /**
+   * Transpose by up to ±12 semitones independently of tempo
+   */
+  setPitchShift(semitones: number): void {
+    this.audioEngine.setPitchShift(semitones);
+  }
+
+  /**
+   * Choose whether tempo changes keep the original pitch
+   */
+  setPreservePitch(preserve: boolean): void {
+    this.audioEngine.setPreservePitch(preserve);
+    this.emitTimeStretchChange();
+  }
+
+  /**
+   * Current tempo, transpose and pitch preservation
+   */
+  getTimeStretch(): TimeStretchState {
+    const { playbackRate, pitchSemitones, preservePitch } = this.audioEngine.getState();
+    return { playbackRate, pitchSemitones, preservePitch };
+  }
+
+  /**
+   * Loop the current track between A and B (seconds)
+   */
+  setLoopRegion(start: number, end: number): void {
+    this.audioEngine.setLoopRegion({ start, end });
+  }
+
+  /**
+   * Set A or B at the given time (defaults to the current position), keeping the other point
+   */
+  setLoopPoint(point: 'a' | 'b', time: number = this.state.currentTime): void {
+    const region = this.state.loopRegion;
+
+    if (point === 'a') {
+      this.setLoopRegion(time, region?.end ?? this.state.duration);
+    } else {
+      this.setLoopRegion(region?.start ?? 0, time);
+    }
+  }
+
+  /**
+   * Stop looping; also ends practice mode
+   */
+  clearLoopRegion(): void {
+    this.audioEngine.setLoopRegion(null);
+  }
+
+  /**
+   * Practice the A-B loop: start slow, speed up after each repetition and count in before each pass
+   */
+  async startPractice(settings: Partial<PracticeSettings> = {}): Promise<void> {
+    const region = this.state.loopRegion;
+    if (!region) {
+      throw new Error('Set an A-B loop before starting practice mode');
+    }
+
+    const practice = { ...DEFAULT_PRACTICE_SETTINGS, ...settings };
+    if (!this.state.practice) {
+      this.rateBeforePractice = this.audioEngine.getState().playbackRate;
+    }
+
+    this.state.practice = { ...practice, repetition: 0, rate: practice.startRate };
+    this.dispatchEvent(new CustomEvent('practiceChange', { detail: { practice: this.state.practice } }));
+
+    await this.beginPracticePass(region);
+  }
+
+  /**
+   * Leave practice mode and restore the previous tempo; the loop stays active
+   */
+  stopPractice(): void {
+    if (!this.state.practice) return;
+
+    this.state.practice = null;
+    this.audioEngine.setPlaybackRate(this.rateBeforePractice);
+
+    this.dispatchEvent(new CustomEvent('practiceChange', { detail: { practice: null } }));
+    this.emitStateChange();
+  }
+
+  /**
+   * Stop playback after a number of minutes, or at the end of the current track or queue,
+   * fading out over the last fadeSeconds
+   */
+  startSleepTimer(mode: SleepTimerMode, minutes?: number, fadeSeconds?: number): void {
+    this.sleepTimer.start(mode, minutes, fadeSeconds);
+  }
+
+  /**
+   * Add minutes to the sleep timer ("+10 min")
+   */
+  extendSleepTimer(minutes?: number): void {
+    this.sleepTimer.extend(minutes);
+  }
+
+  cancelSleepTimer(): void {
+    this.sleepTimer.cancel();
+  }
+
+  getSleepTimer(): SleepTimerState | null {
+    return this.sleepTimer.getState();
+  }
+
+  /**
+   * Bookmarks of the current track, sorted by time
+   */
+  getBookmarks(): TrackBookmark[] {
+    return [...this.state.bookmarks];
+  }
+
+  /**
+   * Save a named bookmark on the current track (defaults to the current position)
+   */
+  async addBookmark(name: string, time: number = this.state.currentTime): Promise<TrackBookmark | null> {
+    const track = this.state.currentTrack;
+    if (!track) return null;
+
+    const bookmark: TrackBookmark = {
+      id: `${track.id}-${Date.now()}`,
+      songId: track.id,
+      userId: getUser()?.id ?? null,
+      name: name.trim() || this.formatBookmarkTime(time),
+      time: Math.max(0, Math.min(time, this.state.duration || time)),
+      createdAt: Date.now()
+    };
+
+    try {
+      await db.bookmarks.put(bookmark);
+      await this.loadBookmarks();
+      return bookmark;
+    } catch (error) {
+      this.handleError('Failed to save bookmark', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rename a bookmark of the current track
+   */
+  async renameBookmark(bookmarkId: string, name: string): Promise<void> {
+    try {
+      await db.bookmarks.update(bookmarkId, { name: name.trim() });
+      await this.loadBookmarks();
+    } catch (error) {
+      this.handleError('Failed to rename bookmark', error);
+    }
+  }
+
+  /**
+   * Delete a bookmark
+   */
+  async removeBookmark(bookmarkId: string): Promise<void> {
+    try {
+      await db.bookmarks.delete(bookmarkId);
+      await this.loadBookmarks();
+    } catch (error) {
+      this.handleError('Failed to delete bookmark', error);
+    }
+  }
+
+  /**
+   * Seek to a bookmark of the current track
+   */
+  jumpToBookmark(bookmarkId: string): void {
+    const bookmark = this.state.bookmarks.find(b => b.id === bookmarkId);
+    if (bookmark) {
+      this.seek(bookmark.time);
+    }
+  }
+
+  /**
+   * Get the effects chain in processing order
+   */
+  getEffects(): AudioEffect[] {
+    return this.audioEngine.getEffects();
+  }
+
+  /**
+   * Replace the whole effects chain, e.g. from a saved preset
+   */
+  setEffects(effects: AudioEffect[]): void {
+    try {
+      this.audioEngine.setEffects(effects);
+    } catch (error) {
+      this.handleError('Failed to apply effects', error);
+    }
+  }
+
+  /**
+   * Enable or bypass an effect
+   */
+  setEffectEnabled(effectId: string, enabled: boolean): void {
+    try {
+      this.audioEngine.setEffectEnabled(effectId, enabled);
+    } catch (error) {
+      this.handleError('Failed to toggle effect', error);
+    }
+  }
+
+  /**
+   * Change an effect parameter
+   */
+  setEffectParameter(effectId: string, parameter: string, value: number): void {
+    this.audioEngine.setEffectParameter(effectId, parameter, value);
+  }
+
+  /**
+   * Reorder the effects chain
+   */
+  moveEffect(effectId: string, toIndex: number): void {
+    this.audioEngine.moveEffect(effectId, toIndex);
+  }
+
+  /**
+   * Switch the user whose effect settings are loaded and saved
+   */
+  setEffectsUser(userId: string | null): void {
+    if (userId === this.effectsUserId) return;
+
+    this.effectsUserId = userId;
+    this.audioEngine.setEffects(this.loadSavedEffects());
+  }
+
+  /**
+   * Change type, frequency, gain, Q or enabled state of an equalizer band
+   */
+  setEqualizerBand(bandIndex: number, changes: Partial<EqualizerBand>): void {
+    try {
+      this.audioEngine.setEqualizerBand(bandIndex, changes);
+    } catch (error) {
+      this.handleError('Failed to update equalizer', error);
+    }
+  }
+
+  /**
+   * Add an equalizer band, returns its index
+   */
+  addEqualizerBand(band: Partial<EqualizerBand> = {}): number {
+    try {
+      return this.audioEngine.addEqualizerBand(band);
+    } catch (error) {
+      this.handleError('Failed to add equalizer band', error);
+      return -1;
+    }
+  }
+
+  /**
+   * Remove an equalizer band
+   */
+  removeEqualizerBand(bandIndex: number): void {
+    this.audioEngine.removeEqualizerBand(bandIndex);
+  }
+
+  /**
+   * Set equalizer preamp in dB
+   */
+  setEqualizerPreamp(preamp: number): void {
+    this.audioEngine.setEqualizerPreamp(preamp);
+  }
+
+  /**
+   * Enable or bypass the equalizer
+   */
+  setEqualizerEnabled(enabled: boolean): void {
+    this.audioEngine.setEqualizerEnabled(enabled);
+  }
+
+  /**
+   * Replace all equalizer bands and the preamp
+   */
+  loadEqualizerPreset(preset: EqualizerPreset): void {
+    this.audioEngine.loadEqualizerPreset(preset);
+  }
+
+  /**
+   * Import a ParametricEQ.txt (Equalizer APO / AutoEQ) or JSON preset
+   */
+  importEqualizerPreset(content: string, name?: string): EqualizerPreset | null {
+    try {
+      return this.audioEngine.importEqualizerPreset(content, name);
+    } catch (error) {
+      this.handleError('Failed to import equalizer preset', error);
+      return null;
+    }
+  }
+
+  /**
+   * Export the current equalizer as ParametricEQ.txt or JSON
+   */
+  exportEqualizerPreset(format: EqualizerPresetFormat, name?: string): string {
+    return this.audioEngine.exportEqualizerPreset(format, name);
+  }
+
+  /**
+   * Combined equalizer response in dB for drawing curves
+   */
+  getEqualizerResponse(frequencies: Float32Array): Float32Array {
+    return this.audioEngine.getEqualizerResponse(frequencies);
+  }
+
+  /**
+   * Render the current track as it is heard to a WAV file, optionally only the A-B loop.
+   * Resolves to null when cancelled.
+   */
+  async exportCurrentTrack(options: TrackExportOptions = {}): Promise<Blob | null> {
+    const track = this.state.currentTrack;
+    if (!track) {
+      throw new Error('No track to export');
+    }
+
+    const region = options.loopRegionOnly ? this.state.loopRegion : null;
+    if (options.loopRegionOnly && !region) {
+      throw new Error('Set an A-B loop before exporting it');
+    }
+
+    this.exportController?.abort();
+    const controller = new AbortController();
+    this.exportController = controller;
+    const bitDepth = options.bitDepth ?? 16;
+
+    this.dispatchEvent(new CustomEvent('exportStart', { detail: { track, region, bitDepth } }));
+
+    try {
+      const rendered = await this.audioEngine.renderOffline({
+        region,
+        signal: controller.signal,
+        onProgress: progress => {
+          this.dispatchEvent(new CustomEvent('exportProgress', { detail: { track, progress } }));
+        }
+      });
+
+      const blob = OfflineRenderer.toWavBlob(rendered, bitDepth);
+      this.dispatchEvent(new CustomEvent('exportComplete', {
+        detail: { track, blob, fileName: this.getExportFileName(track, region) }
+      }));
+      return blob;
+    } catch (error) {
+      if (controller.signal.aborted) return null;
+
+      this.dispatchEvent(new CustomEvent('exportError', { detail: { track, error } }));
+      throw error;
+    } finally {
+      if (this.exportController === controller) {
+        this.exportController = null;
+      }
+    }
+  }
+
+  /**
+   * Stop a running export
+   */
+  cancelExport(): void {
+    this.exportController?.abort();
+    this.exportController = null;
+  }
+
   /**
    * Private helper methods
    */
   
+  private getExportFileName(track: AudioTrack, region: LoopRegion | null): string {
+    const name = `${track.artist} - ${track.title}`.replace(/[\\/:*?"<>|]+/g, '_').trim();
+    const suffix = region
+      ? ` (${this.formatBookmarkTime(region.start)}-${this.formatBookmarkTime(region.end)})`.replace(/:/g, '.')
+      : '';
+    return `${name}${suffix}.wav`;
+  }
+
+  private async loadBookmarks(): Promise<void> {
+    const track = this.state.currentTrack;
+    let bookmarks: TrackBookmark[] = [];
+    
+    if (track) {
+      try {
+        bookmarks = await db.getBookmarks(track.id, getUser()?.id ?? null);
+      } catch (error) {
+        console.warn('Bookmarks unavailable:', error);
+      }
+    }
+    
+    // The track changed while loading
+    if (this.state.currentTrack?.id !== track?.id) return;
+    
+    this.state.bookmarks = bookmarks;
+    this.dispatchEvent(new CustomEvent('bookmarksChange', { detail: { bookmarks } }));
+    window.dispatchEvent(new CustomEvent(BOOKMARKS_CHANGE_EVENT, {
+      detail: { songId: track?.id ?? null, bookmarks }
+    }));
+    this.emitStateChange();
+  }
+  
+  private formatBookmarkTime(time: number): string {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+  
+  /**
+   * Loop reached B in practice mode: speed up, jump back to A and count in again
+   */
+  private async nextPracticeRepetition(): Promise<void> {
+    const practice = this.state.practice;
+    const region = this.state.loopRegion;
+    if (!practice || !region) return;
+    
+    practice.repetition += 1;
+    practice.rate = Math.min(practice.targetRate, Math.round((practice.rate + practice.step) * 100) / 100);
+    
+    this.dispatchEvent(new CustomEvent('practiceChange', { detail: { practice } }));
+    await this.beginPracticePass(region);
+  }
+  
+  private async beginPracticePass(region: LoopRegion): Promise<void> {
+    const practice = this.state.practice;
+    if (!practice) return;
+    
+    this.audioEngine.pause();
+    this.audioEngine.setPlaybackRate(practice.rate);
+    this.audioEngine.seek(region.start);
+    
+    try {
+      if (practice.countInBeats > 0) {
+        const bpm = (this.state.currentTrack?.tempo ?? DEFAULT_COUNT_IN_BPM) * practice.rate;
+        await this.audioEngine.playCountIn(practice.countInBeats, bpm);
+      }
+      
+      // Practice was stopped or the loop changed during the count-in
+      if (this.state.practice !== practice || this.state.loopRegion !== region) return;
+      
+      await this.audioEngine.play();
+    } catch (error) {
+      this.handleError('Practice mode failed', error);
+    }
+    
+    this.emitStateChange();
+  }
+  
+  /**
+   * Configure prefetching of upcoming tracks; pass offlineSlice's `selectPrefetchPolicy`
+   * to follow the data saver and Wi-Fi-only settings
+   */
+  setPrefetchSettings(settings: Partial<PrefetchSettings>): void {
+    this.settings.prefetch = { ...this.settings.prefetch, ...settings };
+    this.refreshPrefetch(true);
+  }
+
+  /**
+   * Prefetch the opening seconds of the tracks that play next once the current track is past
+   * the configured point, and cancel prefetches for tracks that are no longer coming up
+   */
+  private refreshPrefetch(force: boolean = false): void {
+    if (!this.streamingManager) return;
+    
+    const tracks = this.shouldPrefetch() ? this.getUpcomingTracks(this.settings.prefetch.tracks) : [];
+    const urls = tracks.map(track => this.getPrefetchUrl(track));
+    const key = urls.join('\n');
+    if (!force && key === this.prefetchKey) return;
+    
+    this.prefetchKey = key;
+    const generation = ++this.prefetchGeneration;
+    this.streamingManager.cancelPrefetches(urls);
+    
+    void (async () => {
+      for (let i = 0; i < tracks.length; i++) {
+        // Offline copies need no network
+        const isOffline = await this.offlineManager.isTrackOffline(tracks[i]!.id).catch(() => false);
+        if (generation !== this.prefetchGeneration) return;
+        if (isOffline) continue;
+        
+        try {
+          await this.streamingManager.prefetchTrack(urls[i]!, this.settings.prefetch.seconds);
+        } catch (error) {
+          console.warn('Track prefetch failed:', error);
+        }
+      }
+    })();
+  }
+
+  private shouldPrefetch(): boolean {
+    const prefetch = this.settings.prefetch;
+    if (!prefetch.enabled || prefetch.dataSaver || this.state.isOffline || !this.state.currentTrack) return false;
+    if (this.sleepTimerEndsAfterCurrent()) return false;
+    
+    const { connection } = navigator as Navigator & { connection?: { saveData?: boolean; type?: string } };
+    if (connection?.saveData) return false;
+    if (prefetch.wifiOnly && connection?.type && !['wifi', 'ethernet'].includes(connection.type)) return false;
+    
+    return this.state.duration > 0 && this.state.currentTime >= this.state.duration * prefetch.startAt;
+  }
+
+  /**
+   * Tracks that play after the current one, following shuffle order and repeat mode
+   */
+  private getUpcomingTracks(count: number): AudioTrack[] {
+    const tracks: AudioTrack[] = [];
+    let position = this.state.queuePosition;
+    
+    while (tracks.length < count) {
+      position = this.getQueuePositionAfter(position);
+      const track = position >= 0 ? this.state.queue[position] : undefined;
+      if (!track || track.id === this.state.currentTrack?.id || tracks.some(t => t.id === track.id)) break;
+      tracks.push(track);
+    }
+    
+    return tracks;
+  }
+
+  // The URL playback will request, so the prefetch is reused
+  private getPrefetchUrl(track: AudioTrack): string {
+    return this.streamingManager.isSegmentedUrl(track.url) ? track.url : this.streamingManager.createStreamingUrl(track.url);
+  }
+  
   private getNextTrack(): AudioTrack | null {
     const nextIndex = this.getNextQueuePosition();
     return nextIndex >= 0 ? this.state.queue[nextIndex] : null;
@@ -561,13 +1413,17 @@ export class PlayerManager extends EventTarget {
   }
 
   private getNextQueuePosition(): number {
+    return this.getQueuePositionAfter(this.state.queuePosition);
+  }
+
+  private getQueuePositionAfter(position: number): number {
     if (this.state.queue.length === 0) return -1;
     
     if (this.state.repeat === 'one') {
-      return this.state.queuePosition;
+      return position;
     }
     
-    const nextIndex = this.state.queuePosition + 1;
+    const nextIndex = position + 1;
     
     if (nextIndex >= this.state.queue.length) {
       return this.state.repeat === 'all' ? 0 : -1;
@@ -616,7 +1472,10 @@ export class PlayerManager extends EventTarget {
   }
 
   private checkCrossfade(): void {
+    // Gapless playback and smart crossfades schedule the next track in the engine
+    if (this.usesScheduledTransitions() || this.sleepTimerEndsAfterCurrent()) return;
     if (!this.state.crossfadeEnabled || !this.state.currentTrack) return;
+    if (SmartCrossfade.isAlbumSequence(this.state.currentTrack, this.getNextTrack())) return;
     
     const timeRemaining = this.state.duration - this.state.currentTime;
     
@@ -633,9 +1492,20 @@ export class PlayerManager extends EventTarget {
       await this.audioEngine.setupCrossfade(nextTrack);
       
       this.crossfadeTimer = window.setTimeout(() => {
+        const previousTrack = this.state.currentTrack;
         this.state.queuePosition = this.getNextQueuePosition();
         this.state.currentTrack = nextTrack;
         this.crossfadeTimer = null;
+        
+        this.dispatchEvent(new CustomEvent('trackEnd', { 
+          detail: { track: previousTrack, transition: 'crossfade' } 
+        }));
+        this.dispatchEvent(new CustomEvent('trackChange', { 
+          detail: { track: nextTrack, transition: 'crossfade' } 
+        }));
+        
+        this.refreshPrefetch();
+        void this.loadBookmarks();
         this.emitStateChange();
       }, this.state.crossfadeDuration * 1000);
       
@@ -654,10 +1524,188 @@ export class PlayerManager extends EventTarget {
       detail: { track: this.state.currentTrack } 
     }));
     
-    // Auto-play next track if not in crossfade mode
-    if (!this.state.crossfadeEnabled) {
-      this.playNext();
+    if (this.sleepTimerEndsAfterCurrent()) {
+      this.sleepTimer.expire();
+      return;
+    }
+    
+    // Auto-play next track if not in crossfade mode, or the crossfade was skipped
+    // for an album sequence. With scheduled transitions this only happens when
+    // the next track could not be scheduled in time.
+    const nextTrack = this.getNextTrack();
+    if (
+      nextTrack && (
+        !this.state.crossfadeEnabled ||
+        this.usesScheduledTransitions() ||
+        SmartCrossfade.isAlbumSequence(this.state.currentTrack, nextTrack)
+      )
+    ) {
+      void this.playNext();
+      return;
+    }
+    
+    // Nothing follows: playback stops with this track
+    this.state.isPlaying = false;
+    this.emitStateChange();
+  }
+
+  /**
+   * Whether the engine schedules the next track itself
+   */
+  private usesScheduledTransitions(): boolean {
+    return this.state.gaplessEnabled || (this.state.crossfadeEnabled && this.state.smartCrossfade);
+  }
+
+  /**
+   * The engine already started the preloaded track; only advance the queue
+   */
+  private handleScheduledTransition(track: AudioTrack, transition: TrackTransition): void {
+    const previousTrack = this.state.currentTrack;
+    
+    // The preloaded copy is the one playing now
+    this.setCurrentObjectUrl(this.preloadObjectUrl);
+    this.preloadObjectUrl = null;
+    
+    this.state.queuePosition = this.getNextQueuePosition();
+    this.state.currentTrack = this.state.queue[this.state.queuePosition] || track;
+    this.state.currentTime = 0;
+    
+    this.dispatchEvent(new CustomEvent('trackEnd', { 
+      detail: { track: previousTrack, gapless: transition === 'gapless', transition } 
+    }));
+    this.dispatchEvent(new CustomEvent('trackChange', { 
+      detail: { track: this.state.currentTrack, gapless: transition === 'gapless', transition } 
+    }));
+    
+    this.refreshGaplessPreload();
+    this.refreshPrefetch();
+    void this.loadBookmarks();
+    this.emitStateChange();
+  }
+
+  /**
+   * Hand the upcoming track to the engine so it can be decoded and scheduled ahead of time.
+   * Consecutive album tracks always play gapless; other smart transitions crossfade.
+   */
+  private refreshGaplessPreload(): void {
+    if (!this.audioEngine || !this.state.currentTrack) return;
+    
+    const nextTrack = this.getNextTrack();
+    const generation = ++this.preloadGeneration;
+    if (!this.usesScheduledTransitions() || !nextTrack || this.sleepTimerEndsAfterCurrent()) {
+      this.audioEngine.cancelPreloadedTrack();
+      this.setPreloadObjectUrl(null);
+      return;
+    }
+    
+    const transition: TrackTransition = this.state.gaplessEnabled ||
+      SmartCrossfade.isAlbumSequence(this.state.currentTrack, nextTrack) ? 'gapless' : 'crossfade';
+    
+    this.resolvePlaybackTrack(nextTrack)
+      .then(({ playbackTrack }) => {
+        // Superseded by a newer preload or a cancellation while resolving
+        if (generation !== this.preloadGeneration) {
+          PlayerManager.revokeObjectUrl(playbackTrack.url);
+          return;
+        }
+        this.setPreloadObjectUrl(playbackTrack.url);
+        return this.audioEngine.preloadNextTrack(playbackTrack, transition);
+      })
+      .catch(error => console.warn('Gapless preload failed:', error));
+  }
+
+  private setCurrentObjectUrl(url: string | null): void {
+    if (url === this.currentObjectUrl) return;
+    PlayerManager.revokeObjectUrl(this.currentObjectUrl);
+    this.currentObjectUrl = url?.startsWith('blob:') ? url : null;
+  }
+
+  private setPreloadObjectUrl(url: string | null): void {
+    if (url === this.preloadObjectUrl) return;
+    PlayerManager.revokeObjectUrl(this.preloadObjectUrl);
+    this.preloadObjectUrl = url?.startsWith('blob:') ? url : null;
+  }
+
+  private static revokeObjectUrl(url: string | null): void {
+    if (url?.startsWith('blob:')) {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private handleLogin = (e: Event): void => {
+    this.setEffectsUser((e as CustomEvent).detail.userId);
+  };
+
+  private handleLogout = (): void => {
+    this.setEffectsUser(null);
+  };
+
+  private handleConnectivityChange = (): void => {
+    this.updateOfflineStatus();
+  };
+
+  private forwardDownloadEvent = (e: Event): void => {
+    this.dispatchEvent(new CustomEvent(e.type, { detail: (e as CustomEvent).detail }));
+  };
+
+  private handlePreferencesChange = (e: Event): void => {
+    const preferences: PlaybackPreferencesState = (e as CustomEvent).detail.preferences;
+    
+    if (preferences.gaplessEnabled !== this.state.gaplessEnabled) {
+      this.setGaplessEnabled(preferences.gaplessEnabled);
+    }
+    
+    if (preferences.smartCrossfade !== this.state.smartCrossfade) {
+      this.setSmartCrossfadeEnabled(preferences.smartCrossfade);
+    }
+    
+    const loudness = LoudnessNormalizer.fromPlaybackSettings(preferences);
+    const current = this.settings.loudness;
+    if ((Object.keys(loudness) as Array<keyof LoudnessSettings>).some(key => loudness[key] !== current[key])) {
+      this.setLoudnessSettings(loudness);
     }
+    
+    const { dataSaver, wifiOnly } = preferences.prefetchPolicy;
+    if (dataSaver !== this.settings.prefetch.dataSaver || wifiOnly !== this.settings.prefetch.wifiOnly) {
+      this.setPrefetchSettings({ dataSaver, wifiOnly });
+    }
+  };
+
+  private listenToSleepTimer(event: SleepTimerEvent, listener: EventListener): void {
+    this.sleepTimer.addEventListener(event, listener);
+    this.sleepTimerListeners.push([event, listener]);
+  }
+
+  /**
+   * End of track/queue sleep timers stop playback when the current track ends
+   */
+  private sleepTimerEndsAfterCurrent(): boolean {
+    const mode = this.state.sleepTimer?.mode;
+    if (mode === 'endOfTrack') return true;
+    return mode === 'endOfQueue' && this.state.queuePosition >= this.state.queue.length - 1;
+  }
+
+  /**
+   * Tell end of track/queue timers when playback is expected to finish, so they can fade in time
+   */
+  private updateSleepTimerEstimate(): void {
+    const mode = this.state.sleepTimer?.mode;
+    if (!mode || mode === 'duration') return;
+
+    if (!this.state.isPlaying || !this.state.duration) {
+      this.sleepTimer.setEstimatedDeadline(null);
+      return;
+    }
+
+    let remaining = Math.max(0, this.state.duration - this.state.currentTime);
+    if (mode === 'endOfQueue') {
+      for (const track of this.state.queue.slice(this.state.queuePosition + 1)) {
+        remaining += track.duration;
+      }
+    }
+
+    const rate = this.audioEngine.getState().playbackRate || 1;
+    this.sleepTimer.setEstimatedDeadline(Date.now() + (remaining / rate) * 1000);
   }
 
   private async handleTrackLoadError(track: AudioTrack, error: any): Promise<void> {
@@ -698,10 +1746,33 @@ export class PlayerManager extends EventTarget {
       this.dispatchEvent(new CustomEvent('offlineStateChange', {
         detail: { isOffline: this.state.isOffline }
       }));
+      this.refreshPrefetch();
       this.emitStateChange();
     }
   }
 
+  private getEffectsStorageKey(): string {
+    return `${EFFECTS_STORAGE_KEY}_${this.effectsUserId ?? 'guest'}`;
+  }
+
+  private loadSavedEffects(): AudioEffect[] {
+    try {
+      const saved = localStorage.getItem(this.getEffectsStorageKey());
+      return normalizeEffects(saved ? JSON.parse(saved) : null);
+    } catch (error) {
+      console.warn('Failed to load saved effects:', error);
+      return normalizeEffects(null);
+    }
+  }
+
+  private saveEffects(effects: AudioEffect[]): void {
+    try {
+      localStorage.setItem(this.getEffectsStorageKey(), JSON.stringify(effects));
+    } catch (error) {
+      console.warn('Failed to save effects:', error);
+    }
+  }
+
   private handleError(message: string, error: any): void {
     console.error(message, error);
     
@@ -720,6 +1791,12 @@ export class PlayerManager extends EventTarget {
     }));
   }
 
+  private emitTimeStretchChange(): void {
+    this.dispatchEvent(new CustomEvent('timeStretchChange', {
+      detail: this.getTimeStretch()
+    }));
+  }
+
   /**
    * Public API methods
    */
@@ -728,6 +1805,10 @@ export class PlayerManager extends EventTarget {
     return { ...this.state };
   }
 
+  getVisualizationData(): AudioVisualizationData | null {
+    return this.audioEngine.getVisualizationData();
+  }
+
   getSettings(): PlayerSettings {
     return { ...this.settings };
   }
@@ -742,12 +1823,26 @@ export class PlayerManager extends EventTarget {
     
     if (settings.crossfadeEnabled !== undefined) {
       this.state.crossfadeEnabled = settings.crossfadeEnabled;
+      this.audioEngine.setCrossfadeSettings({ enabled: settings.crossfadeEnabled });
+      this.refreshGaplessPreload();
     }
     
     if (settings.crossfadeDuration !== undefined) {
       this.setCrossfadeDuration(settings.crossfadeDuration);
     }
     
+    if (settings.smartCrossfade !== undefined) {
+      this.setSmartCrossfadeEnabled(settings.smartCrossfade);
+    }
+    
+    if (settings.gaplessEnabled !== undefined) {
+      this.setGaplessEnabled(settings.gaplessEnabled);
+    }
+    
+    if (settings.loudness) {
+      this.setLoudnessSettings(settings.loudness);
+    }
+    
     if (settings.visualizerMode && this.visualizer) {
       this.setVisualizerMode(settings.visualizerMode);
     }
@@ -775,9 +1870,27 @@ export class PlayerManager extends EventTarget {
       clearTimeout(this.crossfadeTimer);
     }
     
+    this.sleepTimerListeners.forEach(([event, listener]) => {
+      this.sleepTimer.removeEventListener(event, listener);
+    });
+    this.sleepTimerListeners = [];
+    this.preferences.removeEventListener('change', this.handlePreferencesChange);
+    window.removeEventListener(LOGIN_EVENT, this.handleLogin);
+    window.removeEventListener(LOGOUT_EVENT, this.handleLogout);
+    window.removeEventListener('online', this.handleConnectivityChange);
+    window.removeEventListener('offline', this.handleConnectivityChange);
+    this.offlineManager?.removeEventListener('downloadProgress', this.forwardDownloadEvent);
+    this.offlineManager?.removeEventListener('downloadComplete', this.forwardDownloadEvent);
+    
+    this.cancelExport();
+    
+    this.preloadGeneration++;
+    this.setCurrentObjectUrl(null);
+    this.setPreloadObjectUrl(null);
+    
+    // The offline manager is shared with the offline views and outlives the player
     this.audioEngine?.dispose();
     this.streamingManager?.dispose();
-    this.offlineManager?.dispose();
     this.visualizer?.dispose();
   }
 }
@@ -0,0 +1,221 @@
+/**
+ * Sleep Timer for Meow-Play
+ * Features: Fixed durations, end of track/queue modes, fade-out window, +N minutes, deadline persisted across reloads
+ */
+
+export type SleepTimerMode = 'duration' | 'endOfTrack' | 'endOfQueue';
+
+export interface SleepTimerState {
+  mode: SleepTimerMode;
+  deadline: number | null; // epoch ms; estimated from playback in end of track/queue modes
+  fadeSeconds: number;
+  startedAt: number;
+}
+
+export type SleepTimerEvent =
+  | 'change'
+  | 'tick'
+  | 'fade' // detail.seconds: fade the output to silence over this many seconds
+  | 'fadeCancel'
+  | 'expire';
+
+export const SLEEP_TIMER_DURATIONS = [5, 15, 30, 45, 60, 90]; // minutes
+export const DEFAULT_SLEEP_FADE_SECONDS = 30;
+export const SLEEP_TIMER_EXTENSION = 10; // minutes added by "+10 min"
+
+const SLEEP_TIMER_STORAGE_KEY = 'meow_play_sleep_timer';
+const MAX_FADE_SECONDS = 300;
+
+export class SleepTimer extends EventTarget {
+  private state: SleepTimerState | null = null;
+  private ticker: number | null = null;
+  private fading: boolean = false;
+
+  constructor() {
+    super();
+    this.restore();
+  }
+
+  /**
+   * Start (or replace) the timer. Minutes only apply to the fixed duration mode.
+   */
+  start(mode: SleepTimerMode, minutes: number = 30, fadeSeconds: number = DEFAULT_SLEEP_FADE_SECONDS): void {
+    const now = Date.now();
+    this.cancelFade();
+
+    this.state = {
+      mode,
+      deadline: mode === 'duration' ? now + Math.max(1, minutes) * 60000 : null,
+      fadeSeconds: Math.max(0, Math.min(MAX_FADE_SECONDS, fadeSeconds)),
+      startedAt: now
+    };
+
+    this.persist();
+    this.startTicker();
+    this.emitChange();
+  }
+
+  /**
+   * Push the deadline back. End of track/queue timers become fixed timers counted from their estimated end;
+   * without a running timer this starts one.
+   */
+  extend(minutes: number = SLEEP_TIMER_EXTENSION): void {
+    if (!this.state) {
+      this.start('duration', minutes);
+      return;
+    }
+
+    const base = Math.max(Date.now(), this.state.deadline ?? Date.now());
+    this.state = { ...this.state, mode: 'duration', deadline: base + minutes * 60000 };
+    this.cancelFade();
+
+    this.persist();
+    this.emitChange();
+  }
+
+  /**
+   * Stop the timer; a fade in progress is undone
+   */
+  cancel(): void {
+    if (!this.state) return;
+
+    this.cancelFade();
+    this.state = null;
+    this.stopTicker();
+    this.persist();
+    this.emitChange();
+  }
+
+  /**
+   * Fire the timer now (end of track/queue reached, or the fixed deadline passed)
+   */
+  expire(): void {
+    if (!this.state) return;
+
+    this.state = null;
+    this.fading = false;
+    this.stopTicker();
+    this.persist();
+
+    this.dispatchEvent(new CustomEvent('expire'));
+    this.emitChange();
+  }
+
+  /**
+   * Update the estimated end for end of track/queue timers; null while playback is paused
+   */
+  setEstimatedDeadline(deadline: number | null): void {
+    if (!this.state || this.state.mode === 'duration') return;
+
+    this.state.deadline = deadline;
+
+    // Seeking back or pausing moves the end out of the fade window
+    if (this.fading && (deadline === null || deadline - Date.now() > this.state.fadeSeconds * 1000)) {
+      this.cancelFade();
+    }
+  }
+
+  getState(): SleepTimerState | null {
+    return this.state ? { ...this.state } : null;
+  }
+
+  /**
+   * Milliseconds until the timer fires, when known
+   */
+  getRemaining(): number | null {
+    if (!this.state || this.state.deadline === null) return null;
+    return Math.max(0, this.state.deadline - Date.now());
+  }
+
+  isFading(): boolean {
+    return this.fading;
+  }
+
+  private tick(): void {
+    if (!this.state) return;
+
+    const remaining = this.getRemaining();
+    if (remaining !== null) {
+      if (!this.fading && this.state.fadeSeconds > 0 && remaining <= this.state.fadeSeconds * 1000) {
+        this.fading = true;
+        this.dispatchEvent(new CustomEvent('fade', {
+          detail: { seconds: remaining / 1000 }
+        }));
+      }
+
+      // End of track/queue timers fire from the player when playback actually gets there
+      if (this.state.mode === 'duration' && remaining <= 0) {
+        this.expire();
+        return;
+      }
+    }
+
+    this.dispatchEvent(new CustomEvent('tick', {
+      detail: { remaining }
+    }));
+  }
+
+  private cancelFade(): void {
+    if (!this.fading) return;
+
+    this.fading = false;
+    this.dispatchEvent(new CustomEvent('fadeCancel'));
+  }
+
+  private startTicker(): void {
+    this.stopTicker();
+    this.ticker = window.setInterval(() => this.tick(), 1000);
+  }
+
+  private stopTicker(): void {
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+  }
+
+  private emitChange(): void {
+    this.dispatchEvent(new CustomEvent('change', {
+      detail: { state: this.getState() }
+    }));
+  }
+
+  private persist(): void {
+    try {
+      if (this.state) {
+        localStorage.setItem(SLEEP_TIMER_STORAGE_KEY, JSON.stringify(this.state));
+      } else {
+        localStorage.removeItem(SLEEP_TIMER_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Failed to save sleep timer:', error);
+    }
+  }
+
+  /**
+   * Resume a timer from before a reload; fixed timers that ran out meanwhile are dropped
+   */
+  private restore(): void {
+    try {
+      const saved = localStorage.getItem(SLEEP_TIMER_STORAGE_KEY);
+      if (!saved) return;
+
+      const state = JSON.parse(saved) as SleepTimerState;
+      const expired = state.mode === 'duration' && (state.deadline === null || state.deadline <= Date.now());
+
+      if (expired) {
+        localStorage.removeItem(SLEEP_TIMER_STORAGE_KEY);
+        return;
+      }
+
+      // Estimates are recomputed once playback resumes
+      this.state = { ...state, deadline: state.mode === 'duration' ? state.deadline : null };
+      this.startTicker();
+    } catch (error) {
+      console.warn('Failed to restore sleep timer:', error);
+    }
+  }
+}
+
+// Shared by the player and the views that control it
+export const sleepTimer = new SleepTimer();
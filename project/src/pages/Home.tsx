@@ -3,6 +3,7 @@ import { Play, Heart, Share2, Download, Plus, TrendingUp, Clock, Users, Music, H
 import { mockPlaylists } from '../utils/mockData';
 import { Link } from 'react-router-dom';
 import { useMusic } from '../contexts/MusicContext';
+import { PlayContext } from '../services/PlaybackSession';
 import Layout, { Section, Container, Grid, Flex } from '../components/ui/Layout';
 import { NavItem } from '../components/ui/Navigation';
 import AdvancedCard, { CardHeader, CardBody, CardFooter } from '../components/ui/AdvancedCard';
@@ -59,9 +60,9 @@ const Home: React.FC = () => {
   }, [songs]);
 
   // Memoized event handlers
-  const handlePlayAll = useCallback((songList: typeof songs) => {
+  const handlePlayAll = useCallback((songList: typeof songs, context: PlayContext = { type: 'library' }) => {
     if (songList.length > 0) {
-      setQueue(songList);
+      setQueue(songList, 0, context);
       play(songList[0]);
     }
   }, [setQueue, play]);
@@ -69,7 +70,7 @@ const Home: React.FC = () => {
   const handlePlayArtist = useCallback((artistName: string) => {
     const artistSongs = songs.filter(song => song.artist === artistName);
     if (artistSongs.length > 0) {
-      setQueue(artistSongs);
+      setQueue(artistSongs, 0, { type: 'artist', id: artistName, name: artistName });
       play(artistSongs[0]);
     }
   }, [songs, setQueue, play]);
@@ -314,7 +315,7 @@ const Home: React.FC = () => {
                         className="absolute bottom-2 right-2 opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0 transition-all duration-300 shadow-lg"
                         onClick={(e) => {
                           e.preventDefault();
-                          handlePlayAll(playlist.songs);
+                          handlePlayAll(playlist.songs, { type: 'playlist', id: playlist.id, name: playlist.name });
                         }}
                       >
                         <Play className="w-4 h-4" />
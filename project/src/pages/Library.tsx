@@ -2,10 +2,15 @@ import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { Play, Grid, List, Filter, Sparkles, RefreshCw, Clock, Heart, TrendingUp, Zap } from 'lucide-react';
 import SongCard from '../components/SongCard';
+import PlaylistOrderEditor from '../components/PlaylistOrderEditor';
 import { useMusic } from '../contexts/MusicContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useAppSelector, useAppDispatch, RootState } from '../store';
+import { fetchPlaylists } from '../store/slices/playlistSlice';
 import { playlistGenerator, PlaylistSuggestion } from '../utils/playlistGenerator';
 import { db } from '../utils/indexedDB';
 import { Song, Playlist } from '../types';
+import type { Playlist as UserPlaylist } from '../types/music';
 
 const Library: React.FC = () => {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
@@ -21,6 +26,16 @@ const Library: React.FC = () => {
   const [timeUntilRefresh, setTimeUntilRefresh] = useState({ days: 0, hours: 0 });
   
   const { songs, setQueue, play } = useMusic();
+  const { user } = useAuth();
+  const dispatch = useAppDispatch();
+  const userPlaylists: UserPlaylist[] = useAppSelector((state: RootState) => state.playlists.playlists);
+  const [editingPlaylistId, setEditingPlaylistId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (activeTab === 'playlists' && user) {
+      dispatch(fetchPlaylists(user.id));
+    }
+  }, [activeTab, user, dispatch]);
 
   // Load recently played songs
   useEffect(() => {
@@ -369,11 +384,38 @@ const Library: React.FC = () => {
           {/* Regular Playlists */}
           <div className="bg-white/5 backdrop-blur-sm rounded-lg p-6">
             <h3 className="text-xl font-semibold text-white mb-4">Your Playlists</h3>
-            <div className="text-center py-8">
-              <span className="text-4xl mb-4 block">📝</span>
-              <h4 className="text-lg font-semibold text-gray-400 mb-2">No custom playlists yet</h4>
-              <p className="text-gray-500">Create your first playlist to organize your meow-sic!</p>
-            </div>
+            {userPlaylists.length > 0 ? (
+              <div className="space-y-3">
+                {userPlaylists.map((playlist) => (
+                  <div key={playlist.id} className="border-b border-white/10 pb-3 last:border-b-0">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="text-white font-medium">{playlist.name}</h4>
+                        <p className="text-gray-400 text-sm">{playlist.songCount} songs</p>
+                      </div>
+                      <button
+                        onClick={() => setEditingPlaylistId(editingPlaylistId === playlist.id ? null : playlist.id)}
+                        className="px-3 py-1 text-sm text-purple-400 hover:text-purple-300 transition-colors"
+                        aria-expanded={editingPlaylistId === playlist.id}
+                      >
+                        {editingPlaylistId === playlist.id ? 'Done' : 'Reorder'}
+                      </button>
+                    </div>
+                    {editingPlaylistId === playlist.id && (
+                      <div className="mt-3">
+                        <PlaylistOrderEditor playlist={playlist} />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <span className="text-4xl mb-4 block">📝</span>
+                <h4 className="text-lg font-semibold text-gray-400 mb-2">No custom playlists yet</h4>
+                <p className="text-gray-500">Create your first playlist to organize your meow-sic!</p>
+              </div>
+            )}
           </div>
         </div>
       )}
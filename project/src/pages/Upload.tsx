@@ -1,10 +1,14 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Upload as UploadIcon, X, Music, CheckCircle, AlertCircle, FileAudio, Sparkles, Share, Database } from 'lucide-react';
+import { Upload as UploadIcon, X, Music, CheckCircle, AlertCircle, FileAudio, Sparkles, Share, Database, Image as ImageIcon, Layers } from 'lucide-react';
 import { useMusic } from '../contexts/MusicContext';
 import { useAuth } from '../contexts/AuthContext';
 import { audioMetadataExtractor, AudioMetadata } from '../utils/audioMetadata';
 import { sharedDatabase } from '../utils/sharedDatabase';
 import { songStorage } from '../utils/songStorage';
+import { computeTagEdits, hasTagEdits, writeTags } from '../utils/tagWriter';
+import { audioFeatureAnalyzer } from '../audio/AudioFeatureAnalyzer';
+import { AudioFormatDetector, AudioProbeResult } from '../audio/AudioEngine';
+import { CommunityApiService, NearDuplicateMatch } from '../services/communityApi';
 import { v4 as uuidv4 } from 'uuid';
 import type { Song } from '../types';
 
@@ -17,15 +21,42 @@ interface UploadProgress {
 interface FileWithMetadata {
   file: File;
   metadata: AudioMetadata;
+  originalMetadata: AudioMetadata; // as read from the file, to find the edits to write back
+  probe: AudioProbeResult;
   id: string;
   shareToDatabase: boolean;
+  selected: boolean; // included in batch edits
+  nearDuplicates?: NearDuplicateMatch[]; // community songs that sound the same
 }
 
+type BatchField = 'artist' | 'albumArtist' | 'album' | 'genre' | 'year' | 'coverArt';
+
+const AUDIO_FILE_PATTERN = /\.(mp3|wav|ogg|oga|opus|m4a|mp4|aac|flac|aif|aiff|webm|mka)$/i;
+
+const formatProbe = (probe: AudioProbeResult): string => {
+  const parts: string[] = [probe.codec === 'unknown' ? probe.container.toUpperCase() : probe.codec.toUpperCase()];
+  if (probe.sampleRate) parts.push(`${(probe.sampleRate / 1000).toFixed(1).replace(/\.0$/, '')} kHz`);
+  if (probe.bitDepth) parts.push(`${probe.bitDepth}-bit`);
+  if (probe.bitrate && !probe.bitDepth) parts.push(`${Math.round(probe.bitrate / 1000)} kbps`);
+  if (probe.channels) parts.push(probe.channels === 1 ? 'mono' : probe.channels === 2 ? 'stereo' : `${probe.channels} ch`);
+  return parts.join(' • ');
+};
+
+const readImageAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const INPUT_CLASS = 'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-500/20 transition-all';
+
 const Upload: React.FC = (): JSX.Element => {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<FileWithMetadata[]>([]);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress>({ progress: 0, status: 'idle' });
   const [processingFiles, setProcessingFiles] = useState(false);
+  const [batchEdits, setBatchEdits] = useState<Pick<AudioMetadata, BatchField>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { songs, setSongs } = useMusic();
   const { user } = useAuth();
@@ -41,13 +72,7 @@ const Upload: React.FC = (): JSX.Element => {
   }, [selectedFiles]);
 
   const validateFile = useCallback((file: File): string | null => {
-    // Validate file type
-    const validTypes = ['audio/mp3', 'audio/wav', 'audio/ogg', 'audio/mpeg', 'audio/m4a', 'audio/aac', 'audio/flac'];
-    if (!validTypes.includes(file.type) && !file.name.match(/\.(mp3|wav|ogg|m4a|aac|flac)$/i)) {
-      return 'Invalid file type. Please upload MP3, WAV, OGG, M4A, AAC, or FLAC files.';
-    }
-    
-    // Validate file size (100MB limit)
+    // Validate file size (100MB limit); the type is sniffed from the contents in processFiles
     const maxSize = 100 * 1024 * 1024; // 100MB
     if (file.size > maxSize) {
       return 'File size must be less than 100MB';
@@ -59,41 +84,82 @@ const Upload: React.FC = (): JSX.Element => {
   const processFiles = useCallback(async (files: File[]) => {
     setProcessingFiles(true);
     const processedFiles: FileWithMetadata[] = [];
+    const skippedFiles: string[] = [];
 
     for (const file of files) {
       const validationError = validateFile(file);
       if (validationError) {
         console.warn(`Skipping ${file.name}: ${validationError}`);
+        skippedFiles.push(`${file.name} (${validationError})`);
+        continue;
+      }
+
+      // Sniff the real format so mislabelled files are caught before upload, not at playback
+      const probe = await AudioFormatDetector.probe(file).catch(() => null);
+      if (!probe) {
+        skippedFiles.push(`${file.name} (not a recognized audio file)`);
+        continue;
+      }
+      if (!AudioFormatDetector.canPlayProbe(probe)) {
+        skippedFiles.push(`${file.name} (${formatProbe(probe)} cannot be played in this browser)`);
         continue;
       }
 
       try {
         // Extract metadata automatically
         const metadata = await audioMetadataExtractor.extractMetadata(file);
+        if (!metadata.duration && probe.duration) {
+          metadata.duration = Math.floor(probe.duration);
+        }
         
         processedFiles.push({
           file,
           metadata,
+          originalMetadata: { ...metadata },
+          probe,
           id: uuidv4(),
-          shareToDatabase: true // Default to sharing
+          shareToDatabase: true, // Default to sharing
+          selected: true
         });
       } catch (error) {
         console.error(`Failed to process ${file.name}:`, error);
-        // Still add the file with basic info
+        // Still add the file with basic info; nothing was read from its tags
         processedFiles.push({
           file,
           metadata: {
             title: file.name.replace(/\.[^/.]+$/, ''),
-            artist: 'Unknown Artist'
+            artist: 'Unknown Artist',
+            ...(probe.duration ? { duration: Math.floor(probe.duration) } : {})
           },
+          originalMetadata: {},
+          probe,
           id: uuidv4(),
-          shareToDatabase: true
+          shareToDatabase: true,
+          selected: true
         });
       }
     }
 
     setSelectedFiles(prev => [...prev, ...processedFiles]);
     setProcessingFiles(false);
+
+    // Fingerprinting decodes each file, so results are filled in as they arrive
+    processedFiles.forEach(({ id, file }) => {
+      CommunityApiService.getInstance().checkForDuplicates(file)
+        .then(({ nearDuplicates }) => {
+          if (nearDuplicates.length === 0) return;
+          setSelectedFiles(prev => prev.map(item => (item.id === id ? { ...item, nearDuplicates } : item)));
+        })
+        .catch(error => console.warn(`Duplicate check failed for ${file.name}:`, error));
+    });
+
+    if (skippedFiles.length > 0) {
+      setUploadProgress({
+        progress: 0,
+        status: 'error',
+        message: `Skipped ${skippedFiles.join(', ')}`
+      });
+    }
   }, [validateFile]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -112,7 +178,7 @@ const Upload: React.FC = (): JSX.Element => {
     setDragActive(false);
     
     const files = Array.from(e.dataTransfer.files).filter(file => 
-      file.type.startsWith('audio/') || file.name.match(/\.(mp3|wav|ogg|m4a|aac|flac)$/i)
+      file.type.startsWith('audio/') || AUDIO_FILE_PATTERN.test(file.name)
     );
     
     if (files.length > 0) {
@@ -127,7 +193,7 @@ const Upload: React.FC = (): JSX.Element => {
     }
   }, [processFiles]);
 
-  const updateFileMetadata = useCallback((fileId: string, field: keyof AudioMetadata, value: string) => {
+  const updateFileMetadata = useCallback(<K extends keyof AudioMetadata>(fileId: string, field: K, value: AudioMetadata[K]) => {
     setSelectedFiles(prev => prev.map(item => 
       item.id === fileId 
         ? { ...item, metadata: { ...item.metadata, [field]: value } }
@@ -135,6 +201,51 @@ const Upload: React.FC = (): JSX.Element => {
     ));
   }, []);
 
+  const updateNumberField = useCallback((fileId: string, field: 'year' | 'trackNumber', value: string) => {
+    const parsed = parseInt(value, 10);
+    updateFileMetadata(fileId, field, parsed > 0 ? parsed : undefined);
+  }, [updateFileMetadata]);
+
+  const handleCoverSelect = useCallback(async (fileId: string | null, e: React.ChangeEvent<HTMLInputElement>) => {
+    const image = e.target.files?.[0];
+    e.target.value = '';
+    if (!image) return;
+
+    try {
+      const coverArt = await readImageAsDataUrl(image);
+      if (fileId) {
+        updateFileMetadata(fileId, 'coverArt', coverArt);
+      } else {
+        setBatchEdits(prev => ({ ...prev, coverArt }));
+      }
+    } catch (error) {
+      console.warn('Failed to read cover image:', error);
+    }
+  }, [updateFileMetadata]);
+
+  const toggleFileSelected = useCallback((fileId: string) => {
+    setSelectedFiles(prev => prev.map(item =>
+      item.id === fileId ? { ...item, selected: !item.selected } : item
+    ));
+  }, []);
+
+  const setAllSelected = useCallback((selected: boolean) => {
+    setSelectedFiles(prev => prev.map(item => ({ ...item, selected })));
+  }, []);
+
+  const applyBatchEdits = useCallback(() => {
+    // Only fields filled in on the batch form are applied
+    const changes = Object.fromEntries(
+      Object.entries(batchEdits).filter(([, value]) => value !== undefined && value !== '')
+    ) as Partial<AudioMetadata>;
+    if (Object.keys(changes).length === 0) return;
+
+    setSelectedFiles(prev => prev.map(item =>
+      item.selected ? { ...item, metadata: { ...item.metadata, ...changes } } : item
+    ));
+    setBatchEdits({});
+  }, [batchEdits]);
+
   const toggleShareToDatabase = useCallback((fileId: string) => {
     setSelectedFiles(prev => prev.map(item => 
       item.id === fileId 
@@ -183,7 +294,16 @@ const Upload: React.FC = (): JSX.Element => {
       const newSongs = [];
       const sharedSongs = [];
 
-      for (const { file, metadata, shareToDatabase: shouldShare } of selectedFiles) {
+      for (const { file: sourceFile, metadata, originalMetadata, shareToDatabase: shouldShare } of selectedFiles) {
+        // Write edited fields and cover art back into the file so downloads carry the corrected tags
+        const edits = computeTagEdits(originalMetadata, metadata);
+        const file = hasTagEdits(edits)
+          ? await writeTags(sourceFile, edits).catch(error => {
+            console.warn(`Uploading ${sourceFile.name} with its original tags:`, error);
+            return sourceFile;
+          })
+          : sourceFile;
+
         // Upload to storage system
         const songMetadata = await songStorage.storeSong(file, {
           title: metadata.title || file.name.replace(/\.[^/.]+$/, ''),
@@ -192,6 +312,9 @@ const Upload: React.FC = (): JSX.Element => {
           uploaderUsername: user.username
         });
 
+        // Tempo/key analysis runs in a worker and is not waited for
+        void audioFeatureAnalyzer.analyze(songMetadata.id, file);
+
         // Update progress
         completedFiles++;
         setUploadProgress(prev => ({
@@ -214,6 +337,11 @@ const Upload: React.FC = (): JSX.Element => {
           duration: metadata.duration || 0,
           playCount: 0,
           year: metadata.year,
+          albumArtist: metadata.albumArtist,
+          trackNumber: metadata.trackNumber,
+          discNumber: metadata.discNumber,
+          releaseDate: metadata.releaseDate,
+          lyrics: metadata.lyrics,
         };
 
         newSongs.push(song);
@@ -230,7 +358,12 @@ const Upload: React.FC = (): JSX.Element => {
               album: metadata.album,
               genre: metadata.genre,
               coverArt: metadata.coverArt,
-              year: metadata.year
+              year: metadata.year,
+              albumArtist: metadata.albumArtist,
+              trackNumber: metadata.trackNumber,
+              discNumber: metadata.discNumber,
+              releaseDate: metadata.releaseDate,
+              lyrics: metadata.lyrics
             }
           );
           sharedSongs.push(sharedSong);
@@ -365,7 +498,7 @@ const Upload: React.FC = (): JSX.Element => {
                   </button>
                 </div>
                 <p className="text-sm text-gray-500">
-                  Supported: MP3, WAV, OGG, M4A, AAC, FLAC (Max 100MB each)
+                  Supported: MP3, WAV, OGG, OPUS, M4A, AAC, ALAC, FLAC, AIFF, WEBM (Max 100MB each)
                 </p>
               </div>
             )}
@@ -404,7 +537,7 @@ const Upload: React.FC = (): JSX.Element => {
           <input
             ref={fileInputRef}
             type="file"
-            accept="audio/*,.mp3,.wav,.ogg,.m4a,.aac,.flac"
+            accept="audio/*,.mp3,.wav,.ogg,.opus,.m4a,.aac,.flac,.aif,.aiff,.webm"
             onChange={handleFileSelect}
             multiple
             className="hidden"
@@ -419,21 +552,121 @@ const Upload: React.FC = (): JSX.Element => {
               <h2 className="text-xl sm:text-2xl font-bold text-white">Auto-Detected Song Details</h2>
               <span className="text-2xl">🎵</span>
             </div>
+
+            {/* Batch Editor */}
+            {selectedFiles.length > 1 && (
+              <div className="mb-6 p-4 sm:p-6 bg-white/5 border border-purple-500/30 rounded-lg">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                  <div className="flex items-center space-x-2">
+                    <Layers className="w-5 h-5 text-purple-400" />
+                    <h3 className="text-white font-semibold">Edit Selected Files</h3>
+                    <span className="text-gray-400 text-sm">
+                      {selectedFiles.filter(item => item.selected).length} of {selectedFiles.length} selected
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-3 text-sm">
+                    <button type="button" onClick={() => setAllSelected(true)} className="text-purple-400 hover:text-purple-300">
+                      Select all
+                    </button>
+                    <button type="button" onClick={() => setAllSelected(false)} className="text-gray-400 hover:text-gray-300">
+                      Select none
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <input
+                    type="text"
+                    value={batchEdits.artist || ''}
+                    onChange={(e) => setBatchEdits(prev => ({ ...prev, artist: e.target.value }))}
+                    className={INPUT_CLASS}
+                    placeholder="Artist"
+                  />
+                  <input
+                    type="text"
+                    value={batchEdits.albumArtist || ''}
+                    onChange={(e) => setBatchEdits(prev => ({ ...prev, albumArtist: e.target.value }))}
+                    className={INPUT_CLASS}
+                    placeholder="Album artist"
+                  />
+                  <input
+                    type="text"
+                    value={batchEdits.album || ''}
+                    onChange={(e) => setBatchEdits(prev => ({ ...prev, album: e.target.value }))}
+                    className={INPUT_CLASS}
+                    placeholder="Album"
+                  />
+                  <input
+                    type="text"
+                    value={batchEdits.genre || ''}
+                    onChange={(e) => setBatchEdits(prev => ({ ...prev, genre: e.target.value }))}
+                    className={INPUT_CLASS}
+                    placeholder="Genre"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={batchEdits.year || ''}
+                    onChange={(e) => {
+                      const year = parseInt(e.target.value, 10);
+                      setBatchEdits(prev => {
+                        const next = { ...prev };
+                        if (year > 0) next.year = year;
+                        else delete next.year;
+                        return next;
+                      });
+                    }}
+                    className={INPUT_CLASS}
+                    placeholder="Year"
+                  />
+                  <label className="flex items-center justify-center space-x-2 px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-gray-300 hover:border-purple-500 cursor-pointer transition-all">
+                    <ImageIcon className="w-4 h-4" />
+                    <span>{batchEdits.coverArt ? 'Cover selected' : 'Choose cover'}</span>
+                    <input type="file" accept="image/jpeg,image/png" className="hidden" onChange={(e) => handleCoverSelect(null, e)} />
+                  </label>
+                </div>
+
+                <div className="mt-4 text-right">
+                  <button
+                    type="button"
+                    onClick={applyBatchEdits}
+                    disabled={!selectedFiles.some(item => item.selected)}
+                    className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                  >
+                    Apply to Selected
+                  </button>
+                </div>
+              </div>
+            )}
             
             <div className="space-y-6">
               {selectedFiles.map((fileItem) => (
                 <div key={fileItem.id} className="bg-white/5 rounded-lg p-4 sm:p-6">
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex items-center space-x-3">
-                      <div className="w-12 h-12 bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
-                        <Music className="w-6 h-6 text-white" />
-                      </div>
+                      {selectedFiles.length > 1 && (
+                        <input
+                          type="checkbox"
+                          checked={fileItem.selected}
+                          onChange={() => toggleFileSelected(fileItem.id)}
+                          className="w-4 h-4 accent-purple-500"
+                          aria-label={`Select ${fileItem.file.name} for batch editing`}
+                        />
+                      )}
+                      {fileItem.metadata.coverArt ? (
+                        <img src={fileItem.metadata.coverArt} alt="Cover art" className="w-12 h-12 rounded-lg object-cover" />
+                      ) : (
+                        <div className="w-12 h-12 bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
+                          <Music className="w-6 h-6 text-white" />
+                        </div>
+                      )}
                       <div>
                         <h3 className="text-white font-semibold">{fileItem.file.name}</h3>
                         <p className="text-gray-400 text-sm">
                           {(fileItem.file.size / 1024 / 1024).toFixed(2)} MB
                           {fileItem.metadata.duration && ` • ${Math.floor(fileItem.metadata.duration / 60)}:${(fileItem.metadata.duration % 60).toString().padStart(2, '0')}`}
                         </p>
+                        <p className="text-gray-500 text-xs">{formatProbe(fileItem.probe)}</p>
                       </div>
                     </div>
                     <button
@@ -509,6 +742,55 @@ const Upload: React.FC = (): JSX.Element => {
                         <option value="Other" className="bg-gray-800 text-white">Other</option>
                       </select>
                     </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Year
+                        </label>
+                        <input
+                          type="number"
+                          min={1}
+                          value={fileItem.metadata.year || ''}
+                          onChange={(e) => updateNumberField(fileItem.id, 'year', e.target.value)}
+                          className={INPUT_CLASS}
+                          placeholder="Year"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Track
+                        </label>
+                        <input
+                          type="number"
+                          min={1}
+                          value={fileItem.metadata.trackNumber || ''}
+                          onChange={(e) => updateNumberField(fileItem.id, 'trackNumber', e.target.value)}
+                          className={INPUT_CLASS}
+                          placeholder="#"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Cover Art
+                      </label>
+                      <div className="flex items-center space-x-3">
+                        <label className="flex items-center space-x-2 px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-gray-300 hover:border-purple-500 cursor-pointer transition-all">
+                          <ImageIcon className="w-4 h-4" />
+                          <span>{fileItem.metadata.coverArt ? 'Change' : 'Add cover'}</span>
+                          <input type="file" accept="image/jpeg,image/png" className="hidden" onChange={(e) => handleCoverSelect(fileItem.id, e)} />
+                        </label>
+                        {fileItem.metadata.coverArt && (
+                          <button
+                            type="button"
+                            onClick={() => updateFileMetadata(fileItem.id, 'coverArt', undefined)}
+                            className="text-sm text-gray-400 hover:text-red-400 transition-colors"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    </div>
                   </div>
 
                   {/* Share to Database Option */}
@@ -545,6 +827,23 @@ const Upload: React.FC = (): JSX.Element => {
                         </div>
                       </div>
                     )}
+                    {fileItem.shareToDatabase && fileItem.nearDuplicates && (
+                      <div className="mt-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                        <div className="flex items-center space-x-2">
+                          <AlertCircle className="w-4 h-4 text-yellow-400" />
+                          <span className="text-yellow-300 text-sm">
+                            This may be a copy of songs already in the community database
+                          </span>
+                        </div>
+                        <ul className="mt-2 space-y-1">
+                          {fileItem.nearDuplicates.map(match => (
+                            <li key={match.music_id} className="text-yellow-200/80 text-xs">
+                              {match.title} by {match.artist} ({Math.round(match.similarity * 100)}% similar)
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -603,6 +902,12 @@ const Upload: React.FC = (): JSX.Element => {
                   Extracts embedded album artwork when available in the audio file.
                 </p>
               </div>
+              <div>
+                <h4 className="text-yellow-400 font-medium mb-2">✏️ Tag Write-Back</h4>
+                <p className="text-gray-300">
+                  Your edits and cover art are saved into the MP3, FLAC, Ogg or M4A file itself, so downloads keep them.
+                </p>
+              </div>
             </div>
           </div>
           
@@ -1,6 +1,9 @@
 import { Plugin } from 'vite';
 import { SongMetadata } from '../utils/songStorage';
 import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createHash } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
 import path from 'path';
 import mime from 'mime-types';
 
@@ -9,9 +12,118 @@ interface StorageOptions {
   metadataFile?: string;
 }
 
+/*
+ * Packaged HLS/DASH content lives under <songsDir>/<songId>/ and is served from
+ * /api/songs/stream/<songId>/..., with byte ranges for EXT-X-BYTERANGE and SegmentBase. For example:
+ *   ffmpeg -i song.flac -c:a aac -b:a 128k -f hls -hls_time 6 -hls_playlist_type vod \
+ *     -hls_segment_type fmp4 public/songs/<songId>/hls/128k.m3u8
+ *   ffmpeg -i song.flac -c:a aac -b:a 128k -f dash -seg_duration 6 public/songs/<songId>/dash/manifest.mpd
+ */
+const STREAM_ROUTE = '/api/songs/stream/';
+
+const STREAM_MIME_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.mpd': 'application/dash+xml',
+  '.m4s': 'video/iso.segment',
+  '.ts': 'video/mp2t',
+  '.aac': 'audio/aac',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'audio/mp4'
+};
+
+// SHA-256 per file, keyed by path and mtime so edited files are hashed again
+const fileHashes = new Map<string, { mtimeMs: number; hash: Promise<Buffer> }>();
+
+function hashFile(filePath: string, mtimeMs: number): Promise<Buffer> {
+  const cached = fileHashes.get(filePath);
+  if (cached?.mtimeMs === mtimeMs) return cached.hash;
+
+  const hash = new Promise<Buffer>((resolve, reject) => {
+    const digest = createHash('sha256');
+    createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => digest.update(chunk))
+      .on('end', () => resolve(digest.digest()));
+  });
+  hash.catch(() => fileHashes.delete(filePath));
+  fileHashes.set(filePath, { mtimeMs, hash });
+  return hash;
+}
+
+async function serveStreamFile(req: IncomingMessage, res: ServerResponse, songsDir: string): Promise<void> {
+  const relative = decodeURIComponent((req.url ?? '').slice(STREAM_ROUTE.length).split('?')[0] ?? '');
+  const filePath = path.resolve(songsDir, relative);
+
+  if (!filePath.startsWith(songsDir + path.sep)) {
+    res.statusCode = 403;
+    res.end();
+    return;
+  }
+
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat?.isFile()) {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  res.setHeader('Content-Type', STREAM_MIME_TYPES[extension] || mime.lookup(filePath) || 'application/octet-stream');
+  res.setHeader('Accept-Ranges', 'bytes');
+  // Manifests change when a song is repackaged; segments never do
+  res.setHeader('Cache-Control', extension === '.m3u8' || extension === '.mpd' ? 'no-cache' : 'max-age=3600');
+
+  // The strong ETag doubles as the checksum offline downloads verify against
+  const hash = await hashFile(filePath, stat.mtimeMs);
+  const etag = `"${hash.toString('hex')}"`;
+  res.setHeader('ETag', etag);
+  res.setHeader('Repr-Digest', `sha-256=:${hash.toString('base64')}:`);
+
+  let start = 0;
+  let end = stat.size - 1;
+  const range = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+  const ifRange = req.headers['if-range'];
+
+  // A range against an older version of the file gets the whole current file
+  if (range && (!ifRange || ifRange === etag)) {
+    const [, first, last] = range;
+    if (first) {
+      start = parseInt(first, 10);
+      if (last) end = Math.min(end, parseInt(last, 10));
+    } else if (last) {
+      start = Math.max(0, stat.size - parseInt(last, 10)); // suffix range
+    }
+
+    if (start > end) {
+      res.statusCode = 416;
+      res.setHeader('Content-Range', `bytes */${stat.size}`);
+      res.end();
+      return;
+    }
+
+    res.statusCode = 206;
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${stat.size}`);
+  } else {
+    res.statusCode = 200;
+  }
+
+  res.setHeader('Content-Length', end - start + 1);
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    createReadStream(filePath, { start, end })
+      .on('error', reject)
+      .on('end', resolve)
+      .pipe(res);
+  });
+}
+
 export function songStoragePlugin(options: StorageOptions = {}): Plugin {
-  const songsDir = path.join(process.cwd(), 'public', 'songs');
-  const metadataFile = path.join(songsDir, 'songs.json');
+  const songsDir = path.resolve(process.cwd(), options.songsDir ?? path.join('public', 'songs'));
+  const metadataFile = path.resolve(process.cwd(), options.metadataFile ?? path.join(songsDir, 'songs.json'));
 
   return {
     name: 'vite:song-storage',
@@ -26,6 +138,12 @@ export function songStoragePlugin(options: StorageOptions = {}): Plugin {
         }
 
         try {
+          // Serve packaged HLS/DASH manifests and segments
+          if ((req.method === 'GET' || req.method === 'HEAD') && req.url.startsWith(STREAM_ROUTE)) {
+            await serveStreamFile(req, res, songsDir);
+            return;
+          }
+
           // Handle uploads
           if (req.method === 'POST' && req.url === '/api/songs/upload') {
             const chunks: Buffer[] = [];
@@ -0,0 +1,610 @@
+/**
+ * Offline Action Outbox for Meow-Play
+ * Features: durable IndexedDB queue shared with the service worker, typed idempotent actions replayed to Supabase
+ * only as the user who queued them, coalescing, per-action retry with backoff, replay on reconnect and Background Sync, conflict reporting
+ */
+
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { ApiService } from './api';
+
+export type OutboxAction =
+  | { type: 'like'; songId: string }
+  | { type: 'unlike'; songId: string }
+  | { type: 'playlistAdd'; playlistId: string; songId: string; position?: number }
+  | { type: 'playlistRemove'; playlistId: string; songId: string }
+  | { type: 'playlistReorder'; playlistId: string; songIds: string[]; baseVersion?: string }
+  | { type: 'follow'; userId: string }
+  | { type: 'unfollow'; userId: string }
+  | { type: 'trackPlay'; songId: string; duration: number; playedAt: number };
+
+// The signed-in user, as the service worker needs it to call Supabase's REST API
+export interface OutboxSession {
+  userId: string;
+  url: string;
+  anonKey: string;
+  accessToken: string;
+  expiresAt: number; // ms
+}
+
+export interface OutboxEntry {
+  id: string; // also the id of the recorded play, so a replayed play counts once
+  key: string; // a newer action with the same key supersedes a pending one
+  scope: string; // actions in a scope replay strictly in order
+  userId: string | null; // who queued it; null while signed out, replayed as the next user to sign in
+  action: OutboxAction;
+  status: 'pending' | 'conflict' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  leaseUntil: number; // set while the app or the service worker is sending it
+  createdAt: number;
+  lastError?: string;
+  conflict?: { status: number; reason: string };
+}
+
+export interface OutboxStore {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+  claim(id: string, leaseUntil: number, now: number): Promise<OutboxEntry | null>; // null if leased elsewhere
+  saveSession(session: OutboxSession | null): Promise<void>;
+}
+
+// Where replayed actions go
+export interface OutboxRemote {
+  getSession(): Promise<OutboxSession | null>; // null while signed out: actions wait for a sign-in
+  send(entry: OutboxEntry, session: OutboxSession): Promise<void>; // rejects with the HTTP statusCode, 0 if unanswered
+}
+
+export interface OutboxOptions {
+  baseDelay: number; // ms before the first retry
+  maxDelay: number; // ms
+  maxAttempts: number;
+  leaseDuration: number; // ms
+}
+
+export interface OutboxFlushResult {
+  synced: OutboxEntry[];
+  conflicts: OutboxEntry[];
+  failed: OutboxEntry[];
+  deferred: number; // still pending: backing off, offline, or behind an earlier action; other users' actions are not counted
+}
+
+export type OutboxOutcome = 'synced' | 'conflict' | 'retry' | 'failed';
+
+// Schema shared with public/sw.js
+export const OUTBOX_DB_NAME = 'MeowPlayOutbox';
+export const OUTBOX_DB_VERSION = 2;
+export const OUTBOX_STORE = 'actions';
+export const OUTBOX_SESSION_STORE = 'session';
+export const OUTBOX_SESSION_KEY = 'current';
+export const OUTBOX_SYNC_TAG = 'outbox-sync';
+
+const DEFAULT_OPTIONS: OutboxOptions = {
+  baseDelay: 2000,
+  maxDelay: 5 * 60 * 1000,
+  maxAttempts: 8,
+  leaseDuration: 30 * 1000
+};
+
+// Server answers meaning the action no longer applies to the current server state
+const CONFLICT_REASONS: Record<number, string> = {
+  403: 'No longer allowed to change this item',
+  404: 'The item no longer exists',
+  409: 'The item changed on the server',
+  410: 'The item no longer exists',
+  412: 'The item changed on the server'
+};
+
+function toOutboxSession(session: Session): OutboxSession {
+  return {
+    userId: session.user.id,
+    url: import.meta.env['VITE_SUPABASE_URL'],
+    anonKey: import.meta.env['VITE_SUPABASE_ANON_KEY'],
+    accessToken: session.access_token,
+    expiresAt: (session.expires_at ?? 0) * 1000
+  };
+}
+
+// Replays through ApiService with the Supabase client's own session
+const supabaseRemote: OutboxRemote = {
+  async getSession() {
+    if (!supabase) return null;
+    const { data: { session } } = await supabase.auth.getSession();
+    return session ? toOutboxSession(session) : null;
+  },
+  send: (entry, session) => OfflineOutbox.perform(entry, session.userId)
+};
+
+class IndexedDBOutboxStore implements OutboxStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async getAll(): Promise<OutboxEntry[]> {
+    return this.request('readonly', store => store.getAll());
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  async claim(id: string, leaseUntil: number, now: number): Promise<OutboxEntry | null> {
+    const db = await this.open();
+
+    // Read and lease in one transaction so the app and the service worker never both claim an entry
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([OUTBOX_STORE], 'readwrite');
+      const store = transaction.objectStore(OUTBOX_STORE);
+      let claimed: OutboxEntry | null = null;
+
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const entry: OutboxEntry | undefined = request.result;
+        if (!entry || entry.status !== 'pending' || entry.leaseUntil > now) return;
+        claimed = { ...entry, leaseUntil };
+        store.put(claimed);
+      };
+
+      transaction.oncomplete = () => resolve(claimed);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async saveSession(session: OutboxSession | null): Promise<void> {
+    const db = await this.open();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([OUTBOX_SESSION_STORE], 'readwrite');
+      const store = transaction.objectStore(OUTBOX_SESSION_STORE);
+      if (session) {
+        store.put(session, OUTBOX_SESSION_KEY);
+      } else {
+        store.delete(OUTBOX_SESSION_KEY);
+      }
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction([OUTBOX_STORE], mode).objectStore(OUTBOX_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+            const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+            store.createIndex('key', 'key');
+          }
+          if (!db.objectStoreNames.contains(OUTBOX_SESSION_STORE)) {
+            db.createObjectStore(OUTBOX_SESSION_STORE);
+          }
+        };
+      });
+    }
+    return this.db;
+  }
+}
+
+export class OfflineOutbox extends EventTarget {
+  private static instance: OfflineOutbox;
+
+  private store: OutboxStore;
+  private remote: OutboxRemote;
+  private options: OutboxOptions;
+  private flushing: Promise<OutboxFlushResult> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private stopSessionSync: (() => void) | null = null;
+  private lastCreatedAt = 0; // keeps replay order stable for actions queued in the same millisecond
+
+  constructor(
+    store: OutboxStore = new IndexedDBOutboxStore(),
+    options: Partial<OutboxOptions> = {},
+    remote: OutboxRemote = supabaseRemote
+  ) {
+    super();
+    this.store = store;
+    this.remote = remote;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  static getInstance(): OfflineOutbox {
+    if (!OfflineOutbox.instance) {
+      OfflineOutbox.instance = new OfflineOutbox();
+    }
+    return OfflineOutbox.instance;
+  }
+
+  /**
+   * Replay on reconnect, on retry deadlines and when the service worker reports a replay
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    window.addEventListener('online', this.handleOnline);
+    navigator.serviceWorker?.addEventListener('message', this.handleWorkerMessage);
+    this.syncSession();
+    this.replaySoon();
+  }
+
+  stop(): void {
+    this.started = false;
+
+    window.removeEventListener('online', this.handleOnline);
+    navigator.serviceWorker?.removeEventListener('message', this.handleWorkerMessage);
+    this.stopSessionSync?.();
+    this.stopSessionSync = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Store an action durably, superseding a pending action with the same key, and replay it when possible;
+   * an action already sent under an id keeps it, so a play that reached the server still counts once
+   */
+  async enqueue(action: OutboxAction, id: string = crypto.randomUUID()): Promise<OutboxEntry> {
+    const session = await this.getSession();
+    const now = Date.now();
+    this.lastCreatedAt = Math.max(now, this.lastCreatedAt + 1);
+    const entry: OutboxEntry = {
+      id,
+      key: OfflineOutbox.keyFor(action, id),
+      scope: OfflineOutbox.scopeFor(action, id),
+      userId: session?.userId ?? null,
+      action,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      leaseUntil: 0,
+      createdAt: this.lastCreatedAt
+    };
+
+    // An action being sent right now is left alone; the newer one replays after it
+    const superseded = (await this.store.getAll()).filter(existing =>
+      existing.key === entry.key && existing.userId === entry.userId && existing.status === 'pending' && existing.leaseUntil <= now
+    );
+    await Promise.all(superseded.map(existing => this.store.delete(existing.id)));
+    await this.store.put(entry);
+
+    this.dispatchEvent(new CustomEvent('actionQueued', {
+      detail: { entry, superseded }
+    }));
+
+    void this.requestBackgroundSync();
+    if (navigator.onLine) this.replaySoon();
+
+    return entry;
+  }
+
+  /**
+   * Send every due action in order; only one replay runs at a time
+   */
+  flush(): Promise<OutboxFlushResult> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * All stored actions, oldest first
+   */
+  async getEntries(): Promise<OutboxEntry[]> {
+    return (await this.store.getAll()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * The signed-in user's actions that no longer apply or gave up, for them to review
+   */
+  async getConflicts(): Promise<OutboxEntry[]> {
+    const userId = (await this.getSession())?.userId ?? null;
+    return (await this.getEntries())
+      .filter(entry => entry.status !== 'pending' && OfflineOutbox.belongsTo(entry, userId));
+  }
+
+  /**
+   * Drop an action, typically after the user has seen its conflict
+   */
+  async dismiss(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  /**
+   * Queue a conflicted or failed action again from scratch
+   */
+  async retry(id: string): Promise<void> {
+    const entry = (await this.store.getAll()).find(existing => existing.id === id);
+    if (!entry) return;
+
+    const requeued: OutboxEntry = { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), leaseUntil: 0 };
+    delete requeued.conflict;
+    delete requeued.lastError;
+    await this.store.put(requeued);
+    this.replaySoon();
+  }
+
+  /**
+   * How a replay's HTTP status settles an action; 0 means the request got no answer
+   */
+  static classify(status: number): OutboxOutcome {
+    if (status >= 200 && status < 300) return 'synced';
+    if (CONFLICT_REASONS[status]) return 'conflict';
+    if (status === 0 || status === 408 || status === 429 || status >= 500) return 'retry';
+    return 'failed';
+  }
+
+  /**
+   * Delay before the given retry, never shorter than the server's Retry-After
+   */
+  static backoffDelay(attempts: number, options: OutboxOptions, retryAfter: number | null = null): number {
+    const delay = Math.min(options.maxDelay, options.baseDelay * 2 ** Math.max(0, attempts - 1));
+    return Math.max(delay, retryAfter ?? 0);
+  }
+
+  /**
+   * Apply an action through ApiService as the given user; each operation leaves the same state when repeated
+   */
+  static async perform(entry: OutboxEntry, userId: string): Promise<void> {
+    const api = ApiService.getInstance();
+    const { action } = entry;
+
+    switch (action.type) {
+      case 'like':
+        return api.likeSong(userId, action.songId);
+      case 'unlike':
+        return api.unlikeSong(userId, action.songId);
+      case 'playlistAdd':
+        return api.addSongToPlaylist(action.playlistId, action.songId, userId, action.position);
+      case 'playlistRemove':
+        return api.removeSongFromPlaylist(action.playlistId, action.songId);
+      case 'playlistReorder':
+        await api.reorderPlaylistSongs(action.playlistId, action.songIds, action.baseVersion);
+        return;
+      case 'follow':
+        return api.followUser(userId, action.userId);
+      case 'unfollow':
+        return api.unfollowUser(userId, action.userId);
+      case 'trackPlay':
+        return api.trackPlay(userId, action.songId, action.duration, { id: entry.id, playedAt: action.playedAt });
+    }
+  }
+
+  /**
+   * Coalescing key: opposite actions on the same target share one, plays never coalesce
+   */
+  static keyFor(action: OutboxAction, id: string): string {
+    switch (action.type) {
+      case 'like':
+      case 'unlike':
+        return `like:${action.songId}`;
+      case 'playlistAdd':
+      case 'playlistRemove':
+        return `playlist:${action.playlistId}:song:${action.songId}`;
+      case 'playlistReorder':
+        return `playlist:${action.playlistId}:order`;
+      case 'follow':
+      case 'unfollow':
+        return `follow:${action.userId}`;
+      case 'trackPlay':
+        return `play:${id}`;
+    }
+  }
+
+  /**
+   * Whether an action may be replayed as the given user; actions queued while signed out go out as whoever signs in
+   */
+  static belongsTo(entry: OutboxEntry, userId: string | null): boolean {
+    return !entry.userId || entry.userId === userId;
+  }
+
+  private static scopeFor(action: OutboxAction, id: string): string {
+    // Playlist edits build on each other, so they replay in order per playlist
+    return 'playlistId' in action ? `playlist:${action.playlistId}` : this.keyFor(action, id);
+  }
+
+  private async replay(): Promise<OutboxFlushResult> {
+    const result: OutboxFlushResult = { synced: [], conflicts: [], failed: [], deferred: 0 };
+    const pending = (await this.getEntries()).filter(entry => entry.status === 'pending');
+
+    const session = navigator.onLine && pending.length ? await this.remote.getSession() : null;
+    if (!session) {
+      result.deferred = pending.length;
+      return result;
+    }
+
+    // Another user's actions wait until they sign in again
+    const entries = pending.filter(entry => OfflineOutbox.belongsTo(entry, session.userId));
+
+    const blockedScopes = new Set<string>();
+    for (const entry of entries) {
+      const now = Date.now();
+      const claimed = blockedScopes.has(entry.scope) || entry.nextAttemptAt > now
+        ? null
+        : await this.store.claim(entry.id, now + this.options.leaseDuration, now);
+
+      if (!claimed) {
+        blockedScopes.add(entry.scope);
+        result.deferred++;
+        continue;
+      }
+
+      const { outcome, entry: settled } = await this.send(claimed, session);
+      switch (outcome) {
+        case 'synced':
+          result.synced.push(settled);
+          break;
+        case 'conflict':
+          result.conflicts.push(settled);
+          break;
+        case 'failed':
+          result.failed.push(settled);
+          break;
+        case 'retry':
+          blockedScopes.add(entry.scope);
+          result.deferred++;
+          break;
+      }
+    }
+
+    await this.scheduleRetry(session.userId);
+    this.dispatchEvent(new CustomEvent('flushComplete', { detail: result }));
+    return result;
+  }
+
+  private async send(entry: OutboxEntry, session: OutboxSession): Promise<{ outcome: OutboxOutcome; entry: OutboxEntry }> {
+    let status = 200;
+    let message = '';
+    try {
+      await this.remote.send(entry, session);
+    } catch (error) {
+      status = (error as { statusCode?: number } | null)?.statusCode ?? 0;
+      message = error instanceof Error ? error.message : String(error);
+    }
+
+    switch (OfflineOutbox.classify(status)) {
+      case 'synced':
+        await this.store.delete(entry.id);
+        this.dispatchEvent(new CustomEvent('actionSynced', { detail: { entry } }));
+        return { outcome: 'synced', entry };
+
+      case 'conflict': {
+        const conflicted: OutboxEntry = {
+          ...entry,
+          status: 'conflict',
+          leaseUntil: 0,
+          conflict: { status, reason: CONFLICT_REASONS[status]! }
+        };
+        await this.store.put(conflicted);
+        this.dispatchEvent(new CustomEvent('actionConflict', { detail: { entry: conflicted } }));
+        return { outcome: 'conflict', entry: conflicted };
+      }
+
+      case 'retry':
+        return this.reschedule(entry, status ? `HTTP ${status}` : message);
+
+      case 'failed':
+        return { outcome: 'failed', entry: await this.fail({ ...entry, lastError: `HTTP ${status}` }) };
+    }
+  }
+
+  private async reschedule(entry: OutboxEntry, error: string): Promise<{ outcome: OutboxOutcome; entry: OutboxEntry }> {
+    const attempts = entry.attempts + 1;
+    if (attempts >= this.options.maxAttempts) {
+      return { outcome: 'failed', entry: await this.fail({ ...entry, attempts, lastError: error }) };
+    }
+
+    const rescheduled: OutboxEntry = {
+      ...entry,
+      attempts,
+      lastError: error,
+      leaseUntil: 0,
+      nextAttemptAt: Date.now() + OfflineOutbox.backoffDelay(attempts, this.options)
+    };
+    await this.store.put(rescheduled);
+    return { outcome: 'retry', entry: rescheduled };
+  }
+
+  private async fail(entry: OutboxEntry): Promise<OutboxEntry> {
+    const failed: OutboxEntry = { ...entry, status: 'failed', leaseUntil: 0 };
+    await this.store.put(failed);
+    this.dispatchEvent(new CustomEvent('actionFailed', { detail: { entry: failed } }));
+    return failed;
+  }
+
+  private async scheduleRetry(userId: string): Promise<void> {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    if (!this.started) return;
+
+    const pending = (await this.store.getAll())
+      .filter(entry => entry.status === 'pending' && OfflineOutbox.belongsTo(entry, userId));
+    if (!pending.length) return;
+
+    const next = Math.min(...pending.map(entry => Math.max(entry.nextAttemptAt, entry.leaseUntil)));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.replaySoon();
+    }, Math.max(0, next - Date.now()));
+  }
+
+  private async requestBackgroundSync(): Promise<void> {
+    try {
+      const registration = await navigator.serviceWorker?.getRegistration() as
+        (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined;
+      await registration?.sync?.register(OUTBOX_SYNC_TAG);
+    } catch {
+      // No Background Sync; replay waits for the app to come back online
+    }
+  }
+
+  // Keeps the service worker's copy of the session current as tokens refresh and users sign in and out
+  private syncSession(): void {
+    if (!supabase) return;
+
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      this.store.saveSession(session ? toOutboxSession(session) : null).catch(error => {
+        console.warn('Failed to share the session with the service worker:', error);
+      });
+      // Actions queued while signed out go out on sign-in; deferred so the auth callback never waits on the client
+      if (event === 'SIGNED_IN') setTimeout(() => this.replaySoon());
+    });
+    this.stopSessionSync = () => data.subscription.unsubscribe();
+  }
+
+  private async getSession(): Promise<OutboxSession | null> {
+    try {
+      return await this.remote.getSession();
+    } catch (error) {
+      console.warn('Failed to read the session for offline actions:', error);
+      return null;
+    }
+  }
+
+  private replaySoon(): void {
+    this.flush().catch(error => {
+      console.warn('Failed to replay offline actions:', error);
+    });
+  }
+
+  private handleOnline = (): void => {
+    this.replaySoon();
+  };
+
+  // The service worker replays in the background and reports what it settled
+  private handleWorkerMessage = (event: MessageEvent): void => {
+    if (event.data?.type !== 'OUTBOX_REPLAYED') return;
+
+    const { synced = [], conflicts = [], failed = [] } = event.data as {
+      synced?: OutboxEntry[];
+      conflicts?: OutboxEntry[];
+      failed?: OutboxEntry[];
+    };
+    synced.forEach(entry => this.dispatchEvent(new CustomEvent('actionSynced', { detail: { entry } })));
+    conflicts.forEach(entry => this.dispatchEvent(new CustomEvent('actionConflict', { detail: { entry } })));
+    failed.forEach(entry => this.dispatchEvent(new CustomEvent('actionFailed', { detail: { entry } })));
+    this.dispatchEvent(new CustomEvent('flushComplete', {
+      detail: { synced, conflicts, failed, deferred: 0 }
+    }));
+  };
+}
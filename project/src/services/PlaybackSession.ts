@@ -0,0 +1,437 @@
+/**
+ * Playback Session for Meow-Play
+ * Features: one persisted playback session (queue, shuffle order, current index, position, play context),
+ * throttled IndexedDB saves with the position kept in its own small record, versioned records with migrations,
+ * restore on start-up, songs saved without page-bound blob: and data: URLs. MusicContext writes the session;
+ * other players only restore from it.
+ */
+
+import { Song, Repeat } from '../types';
+import { LOGOUT_EVENT } from '../utils/indexedDB';
+
+export interface PlayContext {
+  type: 'playlist' | 'album' | 'artist' | 'search' | 'library' | 'recommendations';
+  id?: string;
+  name?: string;
+}
+
+export interface PlaybackSession {
+  version: number;
+  queue: Song[];
+  shuffledIndices: number[] | null; // play order over the queue while shuffle is on
+  currentIndex: number; // into the queue
+  position: number; // seconds into the current song
+  repeat: Repeat;
+  context: PlayContext | null; // what the queue was started from
+  updatedAt: number;
+}
+
+export type PlaybackSessionChanges = Partial<Omit<PlaybackSession, 'version' | 'updatedAt'>>;
+
+// Saved on its own as the song plays, so the queue is only rewritten when it changes
+export interface SessionPosition {
+  songId: string; // the song the position is in
+  position: number; // seconds
+  updatedAt: number;
+}
+
+export interface PlaybackSessionStorage {
+  load(): Promise<unknown>; // the stored record as written, of any version
+  save(session: PlaybackSession): Promise<void>;
+  loadPosition(): Promise<SessionPosition | undefined>;
+  savePosition(position: SessionPosition): Promise<void>;
+  clear(): Promise<void>; // the session and its position
+}
+
+// Upgrades a stored record by one version
+export type SessionMigration = (session: Record<string, unknown>) => Record<string, unknown>;
+
+export interface PlaybackSessionOptions {
+  version: number;
+  migrations: Record<number, SessionMigration>; // keyed by the version they upgrade from
+  saveDelay: number; // ms; position updates arrive several times a second
+}
+
+export const PLAYBACK_SESSION_VERSION = 1;
+
+// Add an entry here, keyed by the old version, whenever PlaybackSession changes shape
+export const SESSION_MIGRATIONS: Record<number, SessionMigration> = {};
+
+const SESSION_DB_NAME = 'MeowPlaySession';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+const POSITION_KEY = 'position';
+
+const DEFAULT_OPTIONS: PlaybackSessionOptions = {
+  version: PLAYBACK_SESSION_VERSION,
+  migrations: SESSION_MIGRATIONS,
+  saveDelay: 1000
+};
+
+const REPEAT_MODES: Repeat[] = ['none', 'one', 'all'];
+
+// blob: URLs die with the page and data: URLs can hold a whole song
+const isTransientUrl = (url: string | undefined): boolean => !!url && /^(blob|data):/i.test(url);
+
+class IndexedDBSessionStorage implements PlaybackSessionStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async load(): Promise<unknown> {
+    return this.request('readonly', store => store.get(SESSION_KEY));
+  }
+
+  async save(session: PlaybackSession): Promise<void> {
+    await this.request('readwrite', store => store.put(session, SESSION_KEY));
+  }
+
+  async loadPosition(): Promise<SessionPosition | undefined> {
+    return this.request('readonly', store => store.get(POSITION_KEY));
+  }
+
+  async savePosition(position: SessionPosition): Promise<void> {
+    await this.request('readwrite', store => store.put(position, POSITION_KEY));
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction([SESSION_STORE], mode).objectStore(SESSION_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        // The record carries its own version, so the database itself never needs upgrading for schema changes
+        const request = indexedDB.open(SESSION_DB_NAME, 1);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(SESSION_STORE)) {
+            request.result.createObjectStore(SESSION_STORE);
+          }
+        };
+      });
+    }
+    return this.db;
+  }
+}
+
+export class PlaybackSessionService extends EventTarget {
+  private static instance: PlaybackSessionService;
+
+  private storage: PlaybackSessionStorage;
+  private options: PlaybackSessionOptions;
+  private session: PlaybackSession | null = null;
+  private restoring: Promise<PlaybackSession | null> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private dirty = false; // the session record needs saving
+  private positionDirty = false; // only the position record does
+  private started = false;
+
+  constructor(storage: PlaybackSessionStorage = new IndexedDBSessionStorage(), options: Partial<PlaybackSessionOptions> = {}) {
+    super();
+    this.storage = storage;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  static getInstance(): PlaybackSessionService {
+    if (!PlaybackSessionService.instance) {
+      PlaybackSessionService.instance = new PlaybackSessionService();
+    }
+    return PlaybackSessionService.instance;
+  }
+
+  /**
+   * Save pending changes when the page is hidden, and forget the session on logout
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    window.addEventListener('pagehide', this.handlePageHide);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener(LOGOUT_EVENT, this.handleLogout);
+  }
+
+  stop(): void {
+    this.started = false;
+
+    window.removeEventListener('pagehide', this.handlePageHide);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener(LOGOUT_EVENT, this.handleLogout);
+    void this.flush();
+  }
+
+  /**
+   * Load the saved session once, migrating older records; records that cannot be migrated are dropped
+   */
+  restore(): Promise<PlaybackSession | null> {
+    if (!this.restoring) {
+      this.restoring = this.load().then(session => {
+        // Changes made while loading win over the saved session
+        this.session ??= session;
+
+        this.dispatchEvent(new CustomEvent('sessionRestored', {
+          detail: { session: this.session }
+        }));
+        return this.session;
+      });
+    }
+    return this.restoring;
+  }
+
+  /**
+   * The session as last updated
+   */
+  getSession(): PlaybackSession | null {
+    return this.session;
+  }
+
+  /**
+   * Apply changes to the session and save it shortly; position-only changes save just the position
+   */
+  update(changes: PlaybackSessionChanges): PlaybackSession {
+    const base = this.session ?? PlaybackSessionService.createEmpty(this.options.version);
+    this.session = PlaybackSessionService.normalize({
+      ...base,
+      ...changes,
+      version: this.options.version,
+      updatedAt: Date.now()
+    });
+
+    if (Object.keys(changes).some(key => key !== 'position')) {
+      this.dirty = true;
+    } else {
+      this.positionDirty = true;
+    }
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => {
+        this.saveTimer = null;
+        void this.flush();
+      }, this.options.saveDelay);
+    }
+
+    return this.session;
+  }
+
+  /**
+   * Write pending changes now
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    const session = this.session;
+    if (!session || (!this.dirty && !this.positionDirty)) return;
+
+    // The session record carries the position too, so a pending position save is covered by it
+    const saveSession = this.dirty;
+    this.dirty = false;
+    this.positionDirty = false;
+    try {
+      if (saveSession) {
+        await this.storage.save({ ...session, queue: session.queue.map(PlaybackSessionService.withoutTransientUrls) });
+      } else {
+        const song = session.queue[session.currentIndex];
+        if (song) await this.storage.savePosition({ songId: song.id, position: session.position, updatedAt: session.updatedAt });
+      }
+    } catch (error) {
+      if (saveSession) {
+        this.dirty = true;
+      } else {
+        this.positionDirty = true;
+      }
+      console.warn('Failed to save playback session:', error);
+    }
+  }
+
+  /**
+   * Forget the session, in memory and in storage
+   */
+  async clear(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.session = null;
+    this.dirty = false;
+    this.positionDirty = false;
+
+    await this.storage.clear();
+    this.dispatchEvent(new CustomEvent('sessionCleared'));
+  }
+
+  /**
+   * A song as the session saves it; an empty filePath means the song has to be looked up again to play
+   */
+  static withoutTransientUrls(song: Song): Song {
+    if (!isTransientUrl(song.filePath) && !isTransientUrl(song.coverArt)) return song;
+
+    const { coverArt, ...rest } = song;
+    return {
+      ...rest,
+      filePath: isTransientUrl(song.filePath) ? '' : song.filePath,
+      ...(coverArt && !isTransientUrl(coverArt) ? { coverArt } : {})
+    };
+  }
+
+  /**
+   * Random play order over a queue, starting with the given index
+   */
+  static shuffleOrder(length: number, startIndex: number): number[] {
+    const rest = Array.from({ length }, (_, i) => i).filter(i => i !== startIndex);
+
+    // Fisher-Yates shuffle
+    for (let i = rest.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [rest[i], rest[j]] = [rest[j]!, rest[i]!];
+    }
+
+    return startIndex >= 0 && startIndex < length ? [startIndex, ...rest] : rest;
+  }
+
+  /**
+   * Queue index to play after the current one, following the shuffle order; null at the end of the queue
+   */
+  static nextIndex(session: Pick<PlaybackSession, 'currentIndex' | 'shuffledIndices' | 'repeat'> & { queueLength: number }): number | null {
+    const order = session.shuffledIndices ?? Array.from({ length: session.queueLength }, (_, i) => i);
+    if (order.length === 0) return null;
+
+    const next = order.indexOf(session.currentIndex) + 1;
+    if (next < order.length) return order[next]!;
+    return session.repeat === 'all' ? order[0]! : null;
+  }
+
+  /**
+   * Queue index to play before the current one, following the shuffle order and wrapping around
+   */
+  static previousIndex(session: Pick<PlaybackSession, 'currentIndex' | 'shuffledIndices'> & { queueLength: number }): number | null {
+    const order = session.shuffledIndices ?? Array.from({ length: session.queueLength }, (_, i) => i);
+    if (order.length === 0) return null;
+
+    const previous = order.indexOf(session.currentIndex) - 1;
+    return order[previous < 0 ? order.length - 1 : previous]!;
+  }
+
+  /**
+   * Shuffle order after a song was inserted at a queue index; songs queued to play next go right after the current one
+   */
+  static insertIntoOrder(order: number[], index: number, currentIndex: number, playNext: boolean): number[] {
+    const shifted = order.map(i => (i >= index ? i + 1 : i));
+    const at = playNext ? shifted.indexOf(currentIndex >= index ? currentIndex + 1 : currentIndex) + 1 : shifted.length;
+    return [...shifted.slice(0, at), index, ...shifted.slice(at)];
+  }
+
+  /**
+   * Shuffle order after the song at a queue index was removed
+   */
+  static removeFromOrder(order: number[], index: number): number[] {
+    return order.filter(i => i !== index).map(i => (i > index ? i - 1 : i));
+  }
+
+  private async load(): Promise<PlaybackSession | null> {
+    try {
+      const stored = await this.storage.load();
+      if (stored === undefined || stored === null) return null;
+
+      const session = this.migrate(stored);
+      if (!session) {
+        await this.storage.clear();
+        return null;
+      }
+
+      // A position saved after the session record, in the same song, is the more recent one
+      const saved = await this.storage.loadPosition();
+      if (saved && saved.songId === session.queue[session.currentIndex]?.id && saved.updatedAt >= session.updatedAt) {
+        return PlaybackSessionService.normalize({ ...session, position: saved.position, updatedAt: saved.updatedAt });
+      }
+      return session;
+    } catch (error) {
+      console.warn('Failed to restore playback session:', error);
+      return null;
+    }
+  }
+
+  private migrate(stored: unknown): PlaybackSession | null {
+    if (typeof stored !== 'object' || stored === null) return null;
+
+    let record = stored as Record<string, unknown>;
+    let version = typeof record['version'] === 'number' ? record['version'] : 0;
+
+    // Written by a newer version of the app
+    if (version > this.options.version) return null;
+
+    while (version < this.options.version) {
+      const migration = this.options.migrations[version];
+      if (!migration) return null;
+
+      record = migration(record);
+      version++;
+    }
+
+    return PlaybackSessionService.normalize({ ...record, version } as unknown as PlaybackSession);
+  }
+
+  // Repair anything out of range so a damaged or hand-edited record still restores
+  private static normalize(session: PlaybackSession): PlaybackSession {
+    const queue = Array.isArray(session.queue) ? session.queue.filter(song => song && typeof song.id === 'string') : [];
+    const currentIndex = Number.isInteger(session.currentIndex)
+      ? Math.max(0, Math.min(queue.length - 1, session.currentIndex))
+      : 0;
+
+    let shuffledIndices = session.shuffledIndices;
+    if (shuffledIndices) {
+      const isPermutation = shuffledIndices.length === queue.length
+        && new Set(shuffledIndices).size === queue.length
+        && shuffledIndices.every(i => Number.isInteger(i) && i >= 0 && i < queue.length);
+      if (!isPermutation) shuffledIndices = this.shuffleOrder(queue.length, currentIndex);
+    }
+
+    return {
+      version: session.version,
+      queue,
+      shuffledIndices: shuffledIndices ?? null,
+      currentIndex,
+      position: Number.isFinite(session.position) && session.position > 0 ? session.position : 0,
+      repeat: REPEAT_MODES.includes(session.repeat) ? session.repeat : 'none',
+      context: session.context ?? null,
+      updatedAt: Number.isFinite(session.updatedAt) ? session.updatedAt : Date.now()
+    };
+  }
+
+  private static createEmpty(version: number): PlaybackSession {
+    return {
+      version,
+      queue: [],
+      shuffledIndices: null,
+      currentIndex: 0,
+      position: 0,
+      repeat: 'none',
+      context: null,
+      updatedAt: Date.now()
+    };
+  }
+
+  private handlePageHide = (): void => {
+    void this.flush();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') void this.flush();
+  };
+
+  private handleLogout = (): void => {
+    this.clear().catch(error => {
+      console.warn('Failed to clear playback session:', error);
+    });
+  };
+}
@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { Song, User } from '../types';
+import { audioFeatureAnalyzer } from '../audio/AudioFeatureAnalyzer';
 
 interface UserListeningHistory {
   user_id: string;
@@ -163,6 +164,8 @@ export class AIRecommendationEngine {
   // Content-based filtering using song features
   static async getContentBasedRecommendations(userId: string, limit: number = 20): Promise<Song[]> {
     try {
+      await audioFeatureAnalyzer.loadCache();
+
       // Get user's liked songs to analyze preferences
       const { data: likedSongs } = await supabase
         .from('user_listening_history')
@@ -214,6 +217,8 @@ export class AIRecommendationEngine {
   // Time-based recommendations
   static async getTimeBasedRecommendations(userId: string, limit: number = 10): Promise<Song[]> {
     try {
+      await audioFeatureAnalyzer.loadCache();
+
       const currentHour = new Date().getHours();
       let moodFilter: Partial<MoodProfile>;
 
@@ -306,8 +311,7 @@ export class AIRecommendationEngine {
   }
 
   private static extractSongFeatures(song: Song): MoodProfile {
-    // Extract features from song metadata or use defaults
-    // In a real implementation, you'd use audio analysis APIs
+    // Measured features from AudioFeatureAnalyzer win; metadata heuristics fill the rest
     const title = song.title.toLowerCase();
     const genre = song.genre?.toLowerCase() || '';
     
@@ -342,6 +346,13 @@ export class AIRecommendationEngine {
     if (title.includes('happy') || title.includes('joy')) valence = 0.8;
     if (title.includes('dance') || title.includes('party')) danceability = 0.8;
 
+    const analyzed = audioFeatureAnalyzer.getCachedFeatures(song.id);
+    if (analyzed) {
+      energy = analyzed.energy;
+      danceability = analyzed.danceability;
+      if (analyzed.tempo > 0) tempo = analyzed.tempo;
+    }
+
     return { energy, valence, danceability, acousticness, tempo };
   }
 
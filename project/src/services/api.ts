@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { User, Song, Playlist } from '../types';
+import { APIErrorClass } from '../types/api';
 import { makeRetryable } from '../utils/retry';
 import { errorService } from './ErrorService';
 import { offlineAuth } from '../utils/offlineAuth';
@@ -226,16 +227,19 @@ class ApiService {
     if (!this.isSupabaseConfigured()) return;
 
     try {
-      const { error } = await supabase!
+      // A like that already exists is left alone, so a replayed like counts once
+      const { data, error, status } = await supabase!
         .from('user_likes')
-        .insert({ user_id: userId, song_id: songId });
+        .upsert({ user_id: userId, song_id: songId }, { onConflict: 'user_id,song_id', ignoreDuplicates: true })
+        .select('id');
 
-      if (error) throw error;
+      if (error) throw this.toApiError(error, status);
 
       // Update song likes count
-      await supabase!.rpc('increment_song_likes', { song_id: songId });
+      if (data?.length) await supabase!.rpc('increment_song_likes', { song_id: songId });
     } catch (error) {
       await errorService.logNetworkError(error as Error, '/user_likes', 'POST');
+      throw error;
     }
   }
 
@@ -243,38 +247,54 @@ class ApiService {
     if (!this.isSupabaseConfigured()) return;
 
     try {
-      const { error } = await supabase!
+      const { data, error, status } = await supabase!
         .from('user_likes')
         .delete()
         .eq('user_id', userId)
-        .eq('song_id', songId);
+        .eq('song_id', songId)
+        .select('id');
 
-      if (error) throw error;
+      if (error) throw this.toApiError(error, status);
 
       // Update song likes count
-      await supabase!.rpc('decrement_song_likes', { song_id: songId });
+      if (data?.length) await supabase!.rpc('decrement_song_likes', { song_id: songId });
     } catch (error) {
       await errorService.logNetworkError(error as Error, '/user_likes', 'DELETE');
+      throw error;
     }
   }
 
-  async trackPlay(userId: string, songId: string, duration: number): Promise<void> {
+  /**
+   * Record a play; passing the play's own id makes a retried call record it once
+   */
+  async trackPlay(
+    userId: string,
+    songId: string,
+    duration: number,
+    play: { id?: string; playedAt?: number } = {}
+  ): Promise<void> {
     if (!this.isSupabaseConfigured()) return;
 
     try {
       // Add to listening history
-      await supabase!
+      const { data, error, status } = await supabase!
         .from('listening_history')
-        .insert({
+        .upsert({
+          ...(play.id ? { id: play.id } : {}),
           user_id: userId,
           song_id: songId,
-          play_duration: duration
-        });
+          play_duration: Math.round(duration),
+          ...(play.playedAt !== undefined ? { played_at: new Date(play.playedAt).toISOString() } : {})
+        }, { onConflict: 'id', ignoreDuplicates: true })
+        .select('id');
+
+      if (error) throw this.toApiError(error, status);
 
       // Update play count
-      await supabase!.rpc('increment_play_count', { song_id: songId });
+      if (data?.length) await supabase!.rpc('increment_play_count', { song_id: songId });
     } catch (error) {
       await errorService.logNetworkError(error as Error, '/listening_history', 'POST');
+      throw error;
     }
   }
 
@@ -358,21 +378,118 @@ class ApiService {
     }
   }
 
+  /**
+   * Append a song, or place it at the given position; a song already in the playlist stays where it is
+   */
+  async addSongToPlaylist(playlistId: string, songId: string, userId: string, position?: number): Promise<void> {
+    if (!this.isSupabaseConfigured()) return;
+
+    try {
+      let at = position;
+      if (at === undefined) {
+        const { data: last, error, status } = await supabase!
+          .from('playlist_songs')
+          .select('position')
+          .eq('playlist_id', playlistId)
+          .order('position', { ascending: false })
+          .limit(1);
+
+        if (error) throw this.toApiError(error, status);
+        at = last?.[0] ? last[0].position + 1 : 0;
+      }
+
+      const { error, status } = await supabase!
+        .from('playlist_songs')
+        .upsert(
+          { playlist_id: playlistId, song_id: songId, position: at, added_by: userId },
+          { onConflict: 'playlist_id,song_id', ignoreDuplicates: true }
+        );
+
+      if (error) throw this.toApiError(error, status);
+    } catch (error) {
+      await errorService.logNetworkError(error as Error, '/playlist_songs', 'POST');
+      throw error;
+    }
+  }
+
+  async removeSongFromPlaylist(playlistId: string, songId: string): Promise<void> {
+    if (!this.isSupabaseConfigured()) return;
+
+    try {
+      const { error, status } = await supabase!
+        .from('playlist_songs')
+        .delete()
+        .eq('playlist_id', playlistId)
+        .eq('song_id', songId);
+
+      if (error) throw this.toApiError(error, status);
+    } catch (error) {
+      await errorService.logNetworkError(error as Error, '/playlist_songs', 'DELETE');
+      throw error;
+    }
+  }
+
+  /**
+   * Save a playlist's song order; with baseVersion (the playlist's updatedAt when it was reordered),
+   * a playlist changed since then is reported as a 412 instead of overwritten. Resolves to the new updatedAt
+   */
+  async reorderPlaylistSongs(playlistId: string, songIds: string[], baseVersion?: string): Promise<string | null> {
+    if (!this.isSupabaseConfigured()) return null;
+
+    try {
+      const { data: playlist, error, status } = await supabase!
+        .from('playlists')
+        .select('updated_at')
+        .eq('id', playlistId)
+        .maybeSingle();
+
+      if (error) throw this.toApiError(error, status);
+      if (!playlist) throw new APIErrorClass('Playlist not found', 'NOT_FOUND', 404);
+      if (baseVersion && new Date(playlist.updated_at).getTime() !== new Date(baseVersion).getTime()) {
+        throw new APIErrorClass('Playlist changed since it was reordered', 'VERSION_MISMATCH', 412);
+      }
+
+      for (const [position, songId] of songIds.entries()) {
+        const { error: moveError, status: moveStatus } = await supabase!
+          .from('playlist_songs')
+          .update({ position })
+          .eq('playlist_id', playlistId)
+          .eq('song_id', songId);
+
+        if (moveError) throw this.toApiError(moveError, moveStatus);
+      }
+
+      // Bumps updated_at, so other devices' stale reorders conflict
+      const updatedAt = new Date().toISOString();
+      const { error: touchError, status: touchStatus } = await supabase!
+        .from('playlists')
+        .update({ updated_at: updatedAt })
+        .eq('id', playlistId);
+
+      if (touchError) throw this.toApiError(touchError, touchStatus);
+      return updatedAt;
+    } catch (error) {
+      await errorService.logNetworkError(error as Error, '/playlist_songs', 'PATCH');
+      throw error;
+    }
+  }
+
   // Social Features
   async followUser(followerId: string, followingId: string): Promise<void> {
     if (!this.isSupabaseConfigured()) return;
 
     try {
-      const { error } = await supabase!
+      const { error, status } = await supabase!
         .from('user_follows')
-        .insert({
-          follower_id: followerId,
-          following_id: followingId
-        });
+        .upsert(
+          { follower_id: followerId, following_id: followingId },
+          { onConflict: 'follower_id,following_id', ignoreDuplicates: true }
+        );
 
-      if (error) throw error;
+      if (error) throw this.toApiError(error, status);
     } catch (error) {
       await errorService.logNetworkError(error as Error, '/user_follows', 'POST');
+      throw error;
     }
   }
 
@@ -380,15 +497,16 @@ class ApiService {
     if (!this.isSupabaseConfigured()) return;
 
     try {
-      const { error } = await supabase!
+      const { error, status } = await supabase!
         .from('user_follows')
         .delete()
         .eq('follower_id', followerId)
         .eq('following_id', followingId);
 
-      if (error) throw error;
+      if (error) throw this.toApiError(error, status);
     } catch (error) {
       await errorService.logNetworkError(error as Error, '/user_follows', 'DELETE');
+      throw error;
     }
   }
 
@@ -462,6 +580,11 @@ class ApiService {
     }
   }
 
+  // Keeps the HTTP status (0 when the request never got an answer) for callers that retry
+  private toApiError(error: { message: string; code?: string }, status: number): APIErrorClass {
+    return new APIErrorClass(error.message, error.code ?? '', status);
+  }
+
   // Transform functions
   private transformSupabaseUser(userData: any): User {
     return {
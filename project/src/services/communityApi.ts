@@ -2,6 +2,8 @@
  * Community API Service for Global Music Sharing
  */
 import { ApiService } from './api';
+import { supabase } from '../lib/supabase';
+import { AcousticFingerprint, DEFAULT_SIMILARITY_THRESHOLD, FINGERPRINT_FRAME_DURATION } from '../audio/AcousticFingerprint';
 
 export interface CommunityMusic {
   id: string;
@@ -22,6 +24,8 @@ export interface CommunityMusic {
   uploaded_at: string;
   original_filename?: string;
   file_hash: string;
+  fingerprint?: string; // base64 chroma fingerprint of the first two minutes
+  near_duplicates?: NearDuplicateMatch[];
   
   // Community metrics
   play_count: number;
@@ -46,6 +50,21 @@ export interface CommunityMusic {
   updated_at: string;
 }
 
+export interface NearDuplicateMatch {
+  music_id: string;
+  title: string;
+  artist: string;
+  similarity: number; // 0..1
+  offset_seconds: number; // where the upload lines up against the existing song
+}
+
+export interface DuplicateCheckResult {
+  fileHash: string;
+  fingerprint: string | null; // null when the file could not be decoded
+  exactMatch: CommunityMusic | null;
+  nearDuplicates: NearDuplicateMatch[];
+}
+
 export interface CommunityPlaylist {
   id: string;
   name: string;
@@ -126,9 +145,15 @@ export interface UploadProgress {
   message?: string;
 }
 
+// Candidates are prefiltered by duration before their fingerprints are compared
+const FINGERPRINT_DURATION_TOLERANCE = 10; // seconds
+const MAX_FINGERPRINT_CANDIDATES = 200;
+
 export class CommunityApiService {
   private static instance: CommunityApiService;
   private apiService: ApiService;
+  private duplicateChecks = new WeakMap<File, Promise<DuplicateCheckResult>>();
+  private similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD;
 
   private constructor() {
     this.apiService = ApiService.getInstance();
@@ -159,16 +184,20 @@ export class CommunityApiService {
     onProgress?: (progress: UploadProgress) => void
   ): Promise<CommunityMusic> {
     try {
-      // Calculate file hash for duplicate detection
-      const fileHash = await this.calculateFileHash(file);
-      
-      // Check for duplicates
-      const existingMusic = await this.findMusicByHash(fileHash);
-      if (existingMusic) {
+      onProgress?.({
+        loaded: 0,
+        total: file.size,
+        percentage: 0,
+        stage: 'analyzing',
+        message: 'Checking for duplicates...',
+      });
+
+      const { fileHash, fingerprint, exactMatch, nearDuplicates } = await this.checkForDuplicates(file);
+      if (exactMatch) {
         throw new Error('This music file already exists in the community database');
       }
 
-      // Create form data
+      // Create form data; near-duplicates go along so the upload lands in moderation
       const formData = new FormData();
       formData.append('file', file);
       formData.append('metadata', JSON.stringify({
@@ -176,6 +205,8 @@ export class CommunityApiService {
         file_hash: fileHash,
         original_filename: file.name,
         file_size: file.size,
+        ...(fingerprint && { fingerprint }),
+        ...(nearDuplicates.length > 0 && { near_duplicates: nearDuplicates, status: 'flagged' }),
       }));
 
       // Upload with progress tracking
@@ -192,6 +223,57 @@ export class CommunityApiService {
     }
   }
 
+  /**
+   * Look for exact (same bytes) and near (same recording) duplicates; results are cached per file
+   */
+  checkForDuplicates(file: File): Promise<DuplicateCheckResult> {
+    let check = this.duplicateChecks.get(file);
+    if (!check) {
+      check = this.runDuplicateCheck(file);
+      this.duplicateChecks.set(file, check);
+      // A failed check should be retried on the next attempt
+      check.catch(() => this.duplicateChecks.delete(file));
+    }
+    return check;
+  }
+
+  /**
+   * Minimum fingerprint similarity (0..1) for two uploads to count as the same recording
+   */
+  setSimilarityThreshold(threshold: number): void {
+    this.similarityThreshold = Math.max(0.5, Math.min(1, threshold));
+  }
+
+  /**
+   * Current near-duplicate similarity threshold
+   */
+  getSimilarityThreshold(): number {
+    return this.similarityThreshold;
+  }
+
+  /**
+   * Get uploads flagged as possible duplicates of existing music
+   */
+  async getNearDuplicateFlags(limit: number = 50): Promise<CommunityMusic[]> {
+    try {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('community_music')
+        .select('*')
+        .eq('status', 'flagged')
+        .not('near_duplicates', 'is', null)
+        .order('uploaded_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data ?? [];
+    } catch (error) {
+      console.error('Failed to get near-duplicate flags:', error);
+      throw error;
+    }
+  }
+
   /**
    * Search community music
    */
@@ -451,18 +533,95 @@ export class CommunityApiService {
     return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 
-  private async findMusicByHash(hash: string): Promise<CommunityMusic | null> {
+  private async runDuplicateCheck(file: File): Promise<DuplicateCheckResult> {
+    const fileHash = await this.calculateFileHash(file);
+    const exactMatch = await this.findMusicByHash(fileHash);
+    if (exactMatch) {
+      return { fileHash, fingerprint: null, exactMatch, nearDuplicates: [] };
+    }
+
+    let fingerprint: Uint32Array | null = null;
+    let duration = 0;
     try {
-      const response = await this.apiService.get(`/api/community/music/by-hash/${hash}`);
-      return response.data;
+      fingerprint = await AcousticFingerprint.fromBlob(file);
+      duration = await this.getAudioDuration(file);
     } catch (error) {
-      if (error.status === 404) {
-        return null;
-      }
-      throw error;
+      console.warn('Failed to fingerprint upload:', error);
+    }
+
+    if (!fingerprint || fingerprint.length === 0) {
+      return { fileHash, fingerprint: null, exactMatch: null, nearDuplicates: [] };
+    }
+
+    const candidates = await this.findFingerprintCandidates(duration);
+    const nearDuplicates = candidates
+      .flatMap(candidate => {
+        if (!candidate.fingerprint) return [];
+        const match = AcousticFingerprint.compare(fingerprint, AcousticFingerprint.decode(candidate.fingerprint));
+        if (match.similarity < this.similarityThreshold) return [];
+        return [{
+          music_id: candidate.id,
+          title: candidate.title,
+          artist: candidate.artist,
+          similarity: Math.round(match.similarity * 1000) / 1000,
+          offset_seconds: Math.round(match.offset * FINGERPRINT_FRAME_DURATION * 10) / 10,
+        }];
+      })
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return { fileHash, fingerprint: AcousticFingerprint.encode(fingerprint), exactMatch: null, nearDuplicates };
+  }
+
+  /**
+   * Songs of similar length that have a stored fingerprint; without a duration there is nothing to narrow the search by
+   */
+  private async findFingerprintCandidates(duration: number): Promise<Pick<CommunityMusic, 'id' | 'title' | 'artist' | 'fingerprint'>[]> {
+    if (!supabase || duration <= 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('community_music')
+        .select('id, title, artist, fingerprint')
+        .not('fingerprint', 'is', null)
+        .gte('duration', Math.max(0, Math.floor(duration - FINGERPRINT_DURATION_TOLERANCE)))
+        .lte('duration', Math.ceil(duration + FINGERPRINT_DURATION_TOLERANCE))
+        .limit(MAX_FINGERPRINT_CANDIDATES);
+
+      if (error) throw error;
+      return data ?? [];
+    } catch (error) {
+      console.warn('Failed to load fingerprint candidates:', error);
+      return [];
     }
   }
 
+  private getAudioDuration(file: File): Promise<number> {
+    return new Promise((resolve) => {
+      const audio = new Audio();
+      const url = URL.createObjectURL(file);
+      const done = (duration: number) => {
+        URL.revokeObjectURL(url);
+        resolve(isFinite(duration) ? duration : 0);
+      };
+      audio.addEventListener('loadedmetadata', () => done(audio.duration));
+      audio.addEventListener('error', () => done(0));
+      audio.src = url;
+    });
+  }
+
+  private async findMusicByHash(hash: string): Promise<CommunityMusic | null> {
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+      .from('community_music')
+      .select('*')
+      .eq('file_hash', hash)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
   private async uploadWithProgress(
     url: string,
     formData: FormData,
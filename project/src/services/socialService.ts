@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { User } from '../types';
+import { OfflineOutbox } from './OfflineOutbox';
 
 export interface UserFollow {
   id: string;
@@ -22,6 +23,12 @@ export interface ActivityFeedItem {
 export class SocialService {
   // User Following System
   static async followUser(followingId: string): Promise<void> {
+    // Replayed from the outbox once the connection is back
+    if (!navigator.onLine) {
+      await OfflineOutbox.getInstance().enqueue({ type: 'follow', userId: followingId });
+      return;
+    }
+
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
@@ -41,6 +48,11 @@ export class SocialService {
   }
 
   static async unfollowUser(followingId: string): Promise<void> {
+    if (!navigator.onLine) {
+      await OfflineOutbox.getInstance().enqueue({ type: 'unfollow', userId: followingId });
+      return;
+    }
+
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
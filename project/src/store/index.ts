@@ -10,11 +10,14 @@ import { createListenerMiddleware } from '@reduxjs/toolkit';
 import musicSlice from './slices/musicSlice';
 import userSlice from './slices/userSlice';
 import playlistSlice from './slices/playlistSlice';
-import queueSlice from './slices/queueSlice';
+import queueSlice, { restoreQueue } from './slices/queueSlice';
 import uiSlice from './slices/uiSlice';
-import offlineSlice from './slices/offlineSlice';
+import offlineSlice, { selectPrefetchPolicy } from './slices/offlineSlice';
 import analyticsSlice from './slices/analyticsSlice';
 
+import { playbackPreferences } from '../managers/PlaybackPreferences';
+import { PlaybackSessionService, PlaybackSession } from '../services/PlaybackSession';
+
 // Middleware
 import { analyticsMiddleware } from './middleware/analyticsMiddleware';
 import { offlineMiddleware } from './middleware/offlineMiddleware';
@@ -27,8 +30,8 @@ export const listenerMiddleware = createListenerMiddleware();
 const persistConfig = {
   key: 'meow-play-root',
   storage,
-  whitelist: ['user', 'playlists', 'queue', 'ui', 'offline'], // Only persist these slices
-  blacklist: ['music', 'analytics'], // Don't persist these (real-time data)
+  whitelist: ['user', 'playlists', 'ui', 'offline'], // Only persist these slices
+  blacklist: ['music', 'analytics', 'queue'], // Don't persist these (real-time data; the queue comes from the playback session)
 };
 
 // Root reducer
@@ -63,6 +66,32 @@ export const store = configureStore({
 // Persistor
 export const persistor = persistStore(store);
 
+// The players read the data saver and Wi-Fi-only settings from the shared playback preferences
+const syncPrefetchPolicy = (state: RootState) => {
+  playbackPreferences.update({ prefetchPolicy: selectPrefetchPolicy(state) });
+};
+
+listenerMiddleware.startListening({
+  predicate: (_action: unknown, currentState: unknown, previousState: unknown) => {
+    const current = selectPrefetchPolicy(currentState as RootState);
+    const previous = selectPrefetchPolicy(previousState as RootState);
+    return current.dataSaver !== previous.dataSaver || current.wifiOnly !== previous.wifiOnly;
+  },
+  effect: (_action: unknown, listenerApi: { getState: () => unknown }) => syncPrefetchPolicy(listenerApi.getState() as RootState),
+});
+syncPrefetchPolicy(store.getState());
+
+// MusicContext restores the saved playback session at start-up; the queue slice starts from it,
+// including when the store loads after the restore has finished
+const startQueueFromSession = (session: PlaybackSession | null) => {
+  if (session?.queue.length) store.dispatch(restoreQueue(session));
+};
+const playbackSessions = PlaybackSessionService.getInstance();
+playbackSessions.addEventListener('sessionRestored', (event: Event) => {
+  startQueueFromSession((event as CustomEvent<{ session: PlaybackSession | null }>).detail.session);
+});
+startQueueFromSession(playbackSessions.getSession());
+
 // Types
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
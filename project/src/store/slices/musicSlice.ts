@@ -4,6 +4,8 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { Song, Artist, Album, Playlist } from '../../types/music';
 import { ApiService } from '../../services/api';
+import { OfflineOutbox } from '../../services/OfflineOutbox';
+import { MIN_TEMPO, MAX_TEMPO, MAX_PITCH_SEMITONES } from '../../audio/PitchShifter';
 
 // Async thunks for API calls
 export const fetchSongs = createAsyncThunk(
@@ -25,6 +27,10 @@ export const fetchSongById = createAsyncThunk(
 export const likeSong = createAsyncThunk(
   'music/likeSong',
   async ({ userId, songId }: { userId: string; songId: string }) => {
+    if (!navigator.onLine) {
+      await OfflineOutbox.getInstance().enqueue({ type: 'like', songId });
+      return songId;
+    }
     const api = ApiService.getInstance();
     await api.likeSong(userId, songId);
     return songId;
@@ -34,6 +40,10 @@ export const likeSong = createAsyncThunk(
 export const unlikeSong = createAsyncThunk(
   'music/unlikeSong',
   async ({ userId, songId }: { userId: string; songId: string }) => {
+    if (!navigator.onLine) {
+      await OfflineOutbox.getInstance().enqueue({ type: 'unlike', songId });
+      return songId;
+    }
     const api = ApiService.getInstance();
     await api.unlikeSong(userId, songId);
     return songId;
@@ -65,6 +75,8 @@ interface MusicState {
   };
   crossfadeEnabled: boolean;
   crossfadeDuration: number;
+  tempo: number; // pitch-preserving speed, 0.5-2
+  pitchSemitones: number; // transpose, -12..12
   
   // Music library
   songs: Song[];
@@ -125,6 +137,8 @@ const initialState: MusicState = {
   },
   crossfadeEnabled: false,
   crossfadeDuration: 3,
+  tempo: 1,
+  pitchSemitones: 0,
   
   songs: [],
   artists: [],
@@ -247,6 +261,14 @@ const musicSlice = createSlice({
       state.crossfadeDuration = Math.max(0, Math.min(10, action.payload));
     },
     
+    setTempo: (state, action: PayloadAction<number>) => {
+      state.tempo = Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, action.payload));
+    },
+    
+    setPitchShift: (state, action: PayloadAction<number>) => {
+      state.pitchSemitones = Math.max(-MAX_PITCH_SEMITONES, Math.min(MAX_PITCH_SEMITONES, action.payload));
+    },
+    
     // Library management
     setSongs: (state, action: PayloadAction<Song[]>) => {
       state.songs = action.payload;
@@ -398,6 +420,8 @@ export const {
   updateEqualizerSettings,
   toggleCrossfade,
   setCrossfadeDuration,
+  setTempo,
+  setPitchShift,
   setSongs,
   addSong,
   removeSong,
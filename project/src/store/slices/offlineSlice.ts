@@ -1,8 +1,42 @@
 /**
  * Offline State Management with Redux Toolkit
  */
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { Song } from '../../types/music';
+import type { OfflineRule } from '../../audio/OfflineSync';
+import { OfflineOutbox, OutboxAction, OutboxEntry } from '../../services/OfflineOutbox';
+
+// Outbox thunks; the outbox in IndexedDB is the source of truth and queuedActions mirrors it
+export const queueAction = createAsyncThunk(
+  'offline/queueAction',
+  async (action: OutboxAction) => {
+    return await OfflineOutbox.getInstance().enqueue(action);
+  }
+);
+
+export const syncQueuedActions = createAsyncThunk(
+  'offline/syncQueuedActions',
+  async () => {
+    const outbox = OfflineOutbox.getInstance();
+    await outbox.flush();
+    return await outbox.getEntries();
+  }
+);
+
+export const loadQueuedActions = createAsyncThunk(
+  'offline/loadQueuedActions',
+  async () => {
+    return await OfflineOutbox.getInstance().getEntries();
+  }
+);
+
+export const dismissQueuedAction = createAsyncThunk(
+  'offline/dismissQueuedAction',
+  async (actionId: string) => {
+    await OfflineOutbox.getInstance().dismiss(actionId);
+    return actionId;
+  }
+);
 
 interface OfflineItem {
   id: string;
@@ -22,17 +56,13 @@ interface OfflineState {
   maxStorageLimit: number;
   autoDownload: boolean;
   downloadOnWifiOnly: boolean;
+  dataSaver: boolean; // no prefetching or other speculative downloads
+  offlineRules: OfflineRule[]; // applied by OfflineManager.syncOffline
   downloadQuality: 'low' | 'medium' | 'high' | 'lossless';
   syncInProgress: boolean;
   lastSyncTime: number | null;
   offlineMode: boolean;
-  queuedActions: Array<{
-    id: string;
-    type: string;
-    data: any;
-    timestamp: number;
-    retryCount: number;
-  }>;
+  queuedActions: OutboxEntry[]; // pending actions plus conflicts waiting to be reviewed
 }
 
 const initialState: OfflineState = {
@@ -43,6 +73,8 @@ const initialState: OfflineState = {
   maxStorageLimit: 2 * 1024 * 1024 * 1024, // 2GB default
   autoDownload: false,
   downloadOnWifiOnly: true,
+  dataSaver: false,
+  offlineRules: [],
   downloadQuality: 'high',
   syncInProgress: false,
   lastSyncTime: null,
@@ -56,7 +88,7 @@ const offlineSlice = createSlice({
   reducers: {
     setOnlineStatus: (state, action: PayloadAction<boolean>) => {
       state.isOnline = action.payload;
-      if (action.payload && state.queuedActions.length > 0) {
+      if (action.payload && state.queuedActions.some(queued => queued.status === 'pending')) {
         // Trigger sync when coming back online
         state.syncInProgress = true;
       }
@@ -171,6 +203,10 @@ const offlineSlice = createSlice({
       state.downloadOnWifiOnly = action.payload;
     },
 
+    setDataSaver: (state, action: PayloadAction<boolean>) => {
+      state.dataSaver = action.payload;
+    },
+
     setDownloadQuality: (state, action: PayloadAction<'low' | 'medium' | 'high' | 'lossless'>) => {
       state.downloadQuality = action.payload;
     },
@@ -183,35 +219,27 @@ const offlineSlice = createSlice({
       state.offlineMode = action.payload;
     },
 
-    // Queued actions for offline sync
-    queueAction: (state, action: PayloadAction<{ type: string; data: any }>) => {
-      const { type, data } = action.payload;
-      const queuedAction = {
-        id: `action-${Date.now()}-${Math.random()}`,
-        type,
-        data,
-        timestamp: Date.now(),
-        retryCount: 0,
-      };
-      
-      state.queuedActions.push(queuedAction);
+    // Offline sync rules
+    addOfflineRule: (state, action: PayloadAction<OfflineRule>) => {
+      state.offlineRules = state.offlineRules.filter(rule => rule.id !== action.payload.id);
+      state.offlineRules.push(action.payload);
     },
 
-    removeQueuedAction: (state, action: PayloadAction<string>) => {
-      const actionId = action.payload;
-      state.queuedActions = state.queuedActions.filter(action => action.id !== actionId);
+    updateOfflineRule: (state, action: PayloadAction<{ id: string; changes: Partial<Omit<OfflineRule, 'id'>> }>) => {
+      const { id, changes } = action.payload;
+      const rule = state.offlineRules.find(rule => rule.id === id);
+      if (rule) {
+        Object.assign(rule, changes);
+      }
     },
 
-    incrementRetryCount: (state, action: PayloadAction<string>) => {
-      const actionId = action.payload;
-      const action_ = state.queuedActions.find(a => a.id === actionId);
-      if (action_) {
-        action_.retryCount++;
-      }
+    removeOfflineRule: (state, action: PayloadAction<string>) => {
+      state.offlineRules = state.offlineRules.filter(rule => rule.id !== action.payload);
     },
 
-    clearQueuedActions: (state) => {
-      state.queuedActions = [];
+    // Mirror of the outbox, refreshed from its events
+    setQueuedActions: (state, action: PayloadAction<OutboxEntry[]>) => {
+      state.queuedActions = action.payload;
     },
 
     setSyncInProgress: (state, action: PayloadAction<boolean>) => {
@@ -282,6 +310,35 @@ const offlineSlice = createSlice({
       }
     },
   },
+
+  extraReducers: (builder) => {
+    builder
+      .addCase(queueAction.fulfilled, (state, action) => {
+        const entry = action.payload;
+        // Same coalescing as the outbox: the new action supersedes a pending one with its key
+        state.queuedActions = state.queuedActions.filter(queued =>
+          !(queued.key === entry.key && queued.status === 'pending' && queued.leaseUntil <= entry.createdAt)
+        );
+        state.queuedActions.push(entry);
+      })
+      .addCase(syncQueuedActions.pending, (state) => {
+        state.syncInProgress = true;
+      })
+      .addCase(syncQueuedActions.fulfilled, (state, action) => {
+        state.queuedActions = action.payload;
+        state.syncInProgress = false;
+        state.lastSyncTime = Date.now();
+      })
+      .addCase(syncQueuedActions.rejected, (state) => {
+        state.syncInProgress = false;
+      })
+      .addCase(loadQueuedActions.fulfilled, (state, action) => {
+        state.queuedActions = action.payload;
+      })
+      .addCase(dismissQueuedAction.fulfilled, (state, action) => {
+        state.queuedActions = state.queuedActions.filter(queued => queued.id !== action.payload);
+      });
+  },
 });
 
 export const {
@@ -296,17 +353,28 @@ export const {
   clearAllDownloads,
   setAutoDownload,
   setDownloadOnWifiOnly,
+  setDataSaver,
   setDownloadQuality,
   setMaxStorageLimit,
   setOfflineMode,
-  queueAction,
-  removeQueuedAction,
-  incrementRetryCount,
-  clearQueuedActions,
+  addOfflineRule,
+  updateOfflineRule,
+  removeOfflineRule,
+  setQueuedActions,
   setSyncInProgress,
   autoDownloadLikedSongs,
   cleanupOldDownloads,
   optimizeStorage,
 } = offlineSlice.actions;
 
+// Network settings the player's track prefetching follows
+export const selectPrefetchPolicy = (state: { offline: OfflineState }) => ({
+  dataSaver: state.offline.dataSaver,
+  wifiOnly: state.offline.downloadOnWifiOnly,
+});
+
+// Offline actions that no longer apply on the server or gave up retrying
+export const selectActionConflicts = (state: { offline: OfflineState }) =>
+  state.offline.queuedActions.filter(queued => queued.status !== 'pending');
+
 export default offlineSlice.reducer;
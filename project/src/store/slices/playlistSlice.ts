@@ -4,6 +4,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { Playlist, Song } from '../../types/music';
 import { ApiService } from '../../services/api';
+import { OfflineOutbox } from '../../services/OfflineOutbox';
 
 // Async thunks
 export const fetchPlaylists = createAsyncThunk(
@@ -41,9 +42,13 @@ export const deletePlaylist = createAsyncThunk(
 
 export const addSongToPlaylist = createAsyncThunk(
   'playlists/addSong',
-  async ({ playlistId, songId }: { playlistId: string; songId: string }) => {
+  async ({ playlistId, songId, userId }: { playlistId: string; songId: string; userId: string }) => {
+    if (!navigator.onLine) {
+      await OfflineOutbox.getInstance().enqueue({ type: 'playlistAdd', playlistId, songId });
+      return { playlistId, songId };
+    }
     const api = ApiService.getInstance();
-    await api.addSongToPlaylist(playlistId, songId);
+    await api.addSongToPlaylist(playlistId, songId, userId);
     return { playlistId, songId };
   }
 );
@@ -51,12 +56,35 @@ export const addSongToPlaylist = createAsyncThunk(
 export const removeSongFromPlaylist = createAsyncThunk(
   'playlists/removeSong',
   async ({ playlistId, songId }: { playlistId: string; songId: string }) => {
+    if (!navigator.onLine) {
+      await OfflineOutbox.getInstance().enqueue({ type: 'playlistRemove', playlistId, songId });
+      return { playlistId, songId };
+    }
     const api = ApiService.getInstance();
     await api.removeSongFromPlaylist(playlistId, songId);
     return { playlistId, songId };
   }
 );
 
+// Saves the order left by reorderSongs; baseVersion is the playlist's updatedAt before the reorder
+export const savePlaylistOrder = createAsyncThunk(
+  'playlists/saveOrder',
+  async ({ playlistId, songIds, baseVersion }: { playlistId: string; songIds: string[]; baseVersion?: string }) => {
+    if (!navigator.onLine) {
+      await OfflineOutbox.getInstance().enqueue({
+        type: 'playlistReorder',
+        playlistId,
+        songIds,
+        ...(baseVersion ? { baseVersion } : {})
+      });
+      return { playlistId, songIds, updatedAt: null };
+    }
+    const api = ApiService.getInstance();
+    const updatedAt = await api.reorderPlaylistSongs(playlistId, songIds, baseVersion);
+    return { playlistId, songIds, updatedAt };
+  }
+);
+
 interface PlaylistState {
   playlists: Playlist[];
   currentPlaylist: Playlist | null;
@@ -316,6 +344,22 @@ const playlistSlice = createSlice({
         state.loading.removeSong = false;
         state.error = action.error.message || 'Failed to remove song from playlist';
       });
+    
+    builder
+      // The saved order is the next reorder's base version
+      .addCase(savePlaylistOrder.fulfilled, (state, action) => {
+        const { playlistId, updatedAt } = action.payload;
+        const playlist = state.playlists.find(p => p.id === playlistId);
+        if (!updatedAt || !playlist) return;
+
+        playlist.updatedAt = updatedAt;
+        if (state.currentPlaylist?.id === playlistId) {
+          state.currentPlaylist.updatedAt = updatedAt;
+        }
+      })
+      .addCase(savePlaylistOrder.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to save playlist order';
+      });
   }
 });
 
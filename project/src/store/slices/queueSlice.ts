@@ -3,6 +3,8 @@
  */
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { Song } from '../../types/music';
+import type { Song as LibrarySong } from '../../types';
+import type { PlaybackSession } from '../../services/PlaybackSession';
 
 interface QueueItem {
   id: string;
@@ -22,6 +24,23 @@ interface QueueState {
   repeatMode: 'none' | 'one' | 'all';
 }
 
+// Sessions hold the library's songs; the queue keeps the streaming shape
+const toQueueSong = (song: LibrarySong): Song => ({
+  id: song.id,
+  title: song.title,
+  artist: song.artist,
+  duration: song.duration,
+  url: song.filePath,
+  ...(song.album !== undefined ? { album: song.album } : {}),
+  ...(song.genre !== undefined ? { genre: song.genre } : {}),
+  ...(song.coverArt !== undefined ? { coverArt: song.coverArt } : {}),
+  ...(song.releaseDate !== undefined ? { releaseDate: song.releaseDate } : {}),
+  ...(song.trackNumber !== undefined ? { trackNumber: song.trackNumber } : {}),
+  ...(song.lyrics !== undefined ? { lyrics: song.lyrics } : {}),
+  ...(song.playCount !== undefined ? { playCount: song.playCount } : {}),
+  ...(song.liked !== undefined ? { isLiked: song.liked } : {})
+});
+
 const initialState: QueueState = {
   items: [],
   currentIndex: -1,
@@ -94,6 +113,24 @@ const queueSlice = createSlice({
       }
     },
 
+    // The saved playback session, in play order
+    restoreQueue: (state: QueueState, action: PayloadAction<PlaybackSession>) => {
+      const session: PlaybackSession = action.payload;
+      const items: QueueItem[] = session.queue.map((song, index) => ({
+        id: `${song.id}-session-${index}`,
+        song: toQueueSong(song),
+        addedAt: session.updatedAt,
+        originalIndex: index,
+      }));
+      const order = session.shuffledIndices ?? items.map((_, index) => index);
+
+      state.items = order.map(index => items[index]!);
+      state.originalOrder = items;
+      state.isShuffled = session.shuffledIndices !== null;
+      state.currentIndex = order.indexOf(session.currentIndex);
+      state.repeatMode = session.repeat;
+    },
+
     clearQueue: (state) => {
       state.items = [];
       state.currentIndex = -1;
@@ -298,6 +335,7 @@ const queueSlice = createSlice({
 export const {
   addToQueue,
   addMultipleToQueue,
+  restoreQueue,
   removeFromQueue,
   clearQueue,
   setCurrentIndex,
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { AbrController } from '../../audio/AbrController';
+import { simulateAbrSession, TRACES } from '../helpers/networkTrace';
+
+const BITRATES = [64, 128, 192, 320];
+
+describe('AbrController', () => {
+  const controller = new AbrController();
+
+  it('climbs the ladder as the buffer fills', () => {
+    const picks = [0, 5, 10, 15, 20, 25, 30, 40].map(level => controller.bolaIndex(BITRATES, level));
+
+    expect(picks[0]).toBe(0);
+    expect(picks[picks.length - 1]).toBe(BITRATES.length - 1);
+    picks.slice(1).forEach((pick, i) => expect(pick).toBeGreaterThanOrEqual(picks[i]!));
+  });
+
+  it('holds the current quality inside the hysteresis band', () => {
+    const threshold = [...Array(400).keys()].map(i => i / 10).find(level => controller.bolaIndex(BITRATES, level) === 1)!;
+
+    const justAbove = controller.decide({ bitrates: BITRATES, currentIndex: 0, bufferLevel: threshold + 1, throughput: 5000 });
+    expect(justAbove).toMatchObject({ index: 0, reason: 'hold', bolaIndex: 1 });
+
+    const clear = controller.decide({ bitrates: BITRATES, currentIndex: 0, bufferLevel: threshold + 3, throughput: 5000 });
+    expect(clear).toMatchObject({ index: 1, reason: 'bola_up' });
+
+    const justBelow = controller.decide({ bitrates: BITRATES, currentIndex: 1, bufferLevel: threshold - 1, throughput: 80 });
+    expect(justBelow).toMatchObject({ index: 1, reason: 'hold' });
+  });
+
+  it('only switches up as far as the throughput carries', () => {
+    const decision = controller.decide({ bitrates: BITRATES, currentIndex: 0, bufferLevel: 35, throughput: 160 });
+    expect(decision).toMatchObject({ index: 1, reason: 'bola_up', bolaIndex: 3, throughputIndex: 1 });
+
+    const capped = controller.decide({ bitrates: BITRATES, currentIndex: 1, bufferLevel: 35, throughput: 160 });
+    expect(capped).toMatchObject({ index: 1, reason: 'throughput_cap' });
+  });
+
+  it('drops to a sustainable quality when the buffer runs low', () => {
+    const decision = controller.decide({ bitrates: BITRATES, currentIndex: 3, bufferLevel: 1, throughput: 100 });
+    expect(decision).toMatchObject({ index: 0, reason: 'buffer_low' });
+
+    // A healthy throughput keeps the quality even with little buffered
+    expect(controller.decide({ bitrates: BITRATES, currentIndex: 3, bufferLevel: 1, throughput: 3000 }).index).toBe(3);
+  });
+
+  it('keeps the quality until there is a throughput measurement', () => {
+    expect(controller.decide({ bitrates: BITRATES, currentIndex: 2, bufferLevel: 0, throughput: null }))
+      .toMatchObject({ index: 2, reason: 'no_estimate' });
+  });
+
+  it('reaches the top quality on a stable connection without stalling', () => {
+    const result = simulateAbrSession(TRACES['stable']!, { bitrates: BITRATES });
+
+    expect(result.stallTime).toBe(0);
+    expect(result.qualities[result.qualities.length - 1]).toBe(3);
+    expect(result.switches).toBeLessThanOrEqual(BITRATES.length - 1);
+  });
+
+  it('steps down after a sustained throughput drop without stalling', () => {
+    const result = simulateAbrSession(TRACES['drop']!, { bitrates: BITRATES });
+
+    expect(result.stallTime).toBe(0);
+    expect(result.qualities).toContain(3);
+    expect(result.qualities[result.qualities.length - 1]).toBeLessThanOrEqual(1);
+    expect(result.reasons).toContain('bola_down');
+  });
+
+  it('rides out short dips and spikes without oscillating', () => {
+    ['spiky', 'commute'].forEach(name => {
+      const result = simulateAbrSession(TRACES[name]!, { bitrates: BITRATES });
+
+      expect(result.stallTime).toBe(0);
+      expect(result.switches).toBeLessThanOrEqual(BITRATES.length);
+    });
+  });
+});
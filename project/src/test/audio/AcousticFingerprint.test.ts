@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { AcousticFingerprint, DEFAULT_SIMILARITY_THRESHOLD, FINGERPRINT_SAMPLE_RATE } from '../../audio/AcousticFingerprint';
+
+// Deterministic pseudo-random sequence so "songs" are reproducible
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+// A chord progression with harmonics; each seed gives a different "song"
+function song(seed: number, sampleRate: number, seconds = 30): Float32Array {
+  const next = random(seed);
+  const chordLength = Math.round(sampleRate * 0.6);
+  const samples = new Float32Array(sampleRate * seconds);
+  let frequencies: number[] = [];
+
+  for (let i = 0; i < samples.length; i++) {
+    if (i % chordLength === 0) {
+      const root = 110 * Math.pow(2, Math.floor(next() * 24) / 12);
+      frequencies = [root, root * Math.pow(2, 4 / 12), root * Math.pow(2, 7 / 12)];
+    }
+    const t = i / sampleRate;
+    let value = 0;
+    frequencies.forEach(frequency => {
+      value += Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t);
+    });
+    samples[i] = value / 6;
+  }
+
+  return samples;
+}
+
+function degrade(samples: Float32Array, gain: number, noise: number): Float32Array {
+  const next = random(99);
+  return samples.map(sample => sample * gain + (next() - 0.5) * noise);
+}
+
+describe('AcousticFingerprint', () => {
+  const original = AcousticFingerprint.compute([song(1, FINGERPRINT_SAMPLE_RATE)], FINGERPRINT_SAMPLE_RATE);
+
+  it('produces one 32-bit word per hop after the classifier window', () => {
+    // ~8 sub-fingerprints per second
+    expect(original.length).toBeGreaterThan(200);
+    expect(original.length).toBeLessThan(260);
+  });
+
+  it('matches a quieter, noisier copy at another sample rate', () => {
+    const stereo = degrade(song(1, 44100), 0.5, 0.05);
+    const copy = AcousticFingerprint.compute([stereo, stereo], 44100);
+
+    expect(AcousticFingerprint.compare(original, copy).similarity).toBeGreaterThan(DEFAULT_SIMILARITY_THRESHOLD);
+  });
+
+  it('aligns a copy that starts later', () => {
+    const trimmed = song(1, FINGERPRINT_SAMPLE_RATE).subarray(FINGERPRINT_SAMPLE_RATE * 3);
+    const match = AcousticFingerprint.compare(original, AcousticFingerprint.compute([trimmed], FINGERPRINT_SAMPLE_RATE));
+
+    expect(match.similarity).toBeGreaterThan(0.9);
+    expect(match.offset).toBeLessThan(-20);
+  });
+
+  it('keeps different songs below the threshold', () => {
+    const other = AcousticFingerprint.compute([song(2, FINGERPRINT_SAMPLE_RATE)], FINGERPRINT_SAMPLE_RATE);
+
+    expect(AcousticFingerprint.compare(original, other).similarity).toBeLessThan(DEFAULT_SIMILARITY_THRESHOLD);
+  });
+
+  it('round-trips through the base64 encoding', () => {
+    expect(Array.from(AcousticFingerprint.decode(AcousticFingerprint.encode(original)))).toEqual(Array.from(original));
+  });
+});
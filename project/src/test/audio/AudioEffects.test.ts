@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createDefaultEffects, normalizeEffects, createImpulseResponse, IMPULSE_RESPONSES } from '../../audio/AudioEffects';
+
+describe('AudioEffects', () => {
+  it('creates every built-in effect bypassed with default parameters', () => {
+    const effects = createDefaultEffects();
+
+    expect(effects.map(effect => effect.id)).toEqual(['karaoke', 'compressor', 'crossfeed', 'widener', 'reverb']);
+    expect(effects.every(effect => !effect.enabled)).toBe(true);
+    expect(effects.find(effect => effect.id === 'crossfeed')?.parameters).toEqual({ level: -6, cutoff: 700 });
+  });
+
+  it('restores saved order, state and parameters', () => {
+    const effects = normalizeEffects([
+      { id: 'reverb', enabled: true, parameters: { mix: 0.5 } },
+      { id: 'widener', enabled: false, parameters: { width: 1.8 } }
+    ]);
+
+    expect(effects.map(effect => effect.id)).toEqual(['reverb', 'widener', 'karaoke', 'compressor', 'crossfeed']);
+    expect(effects[0]).toMatchObject({ enabled: true, parameters: { mix: 0.5, impulse: 2 } });
+    expect(effects[1]?.parameters['width']).toBe(1.8);
+  });
+
+  it('drops unknown effects and parameters and clamps values', () => {
+    const effects = normalizeEffects([
+      { id: 'flanger', enabled: true, parameters: {} },
+      { id: 'compressor', enabled: 'yes', parameters: { ratio: 100, bogus: 1 } }
+    ]);
+
+    const compressor = effects.find(effect => effect.id === 'compressor');
+    expect(effects).toHaveLength(5);
+    expect(compressor?.enabled).toBe(false);
+    expect(compressor?.parameters['ratio']).toBe(20);
+    expect(compressor?.parameters).not.toHaveProperty('bogus');
+  });
+
+  it('falls back to defaults for corrupt saved state', () => {
+    expect(normalizeEffects('nonsense')).toEqual(createDefaultEffects());
+  });
+
+  it('synthesises decaying, decorrelated impulse responses', () => {
+    const channels: Float32Array[] = [];
+    const context = {
+      sampleRate: 8000,
+      createBuffer: (count: number, length: number, sampleRate: number) => {
+        for (let i = 0; i < count; i++) channels.push(new Float32Array(length));
+        return { length, sampleRate, numberOfChannels: count, getChannelData: (i: number) => channels[i]! };
+      }
+    } as unknown as BaseAudioContext;
+
+    const spec = IMPULSE_RESPONSES[0]!;
+    const buffer = createImpulseResponse(context, spec);
+    const [left, right] = channels as [Float32Array, Float32Array];
+    const energy = (data: Float32Array, from: number, to: number) =>
+      data.subarray(from, to).reduce((sum, value) => sum + value * value, 0);
+
+    expect(buffer.length).toBe(Math.round((spec.preDelay + spec.duration) * 8000));
+    expect(left[0]).toBe(0);
+    expect(energy(left, 0, 800)).toBeGreaterThan(energy(left, buffer.length - 800, buffer.length) * 100);
+    expect(left).not.toEqual(right);
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest';
+import { AudioProber } from '../../audio/AudioProber';
+
+// Little byte builder: strings are ASCII, numbers are written with the given width
+function bytes(...parts: Array<string | number[] | Uint8Array>): Uint8Array {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? Uint8Array.from(part, c => c.charCodeAt(0))
+    : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  arrays.forEach(array => {
+    result.set(array, offset);
+    offset += array.length;
+  });
+  return result;
+}
+
+const u16be = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const u16le = (n: number) => u16be(n).reverse();
+const u32le = (n: number) => u32be(n).reverse();
+
+function box(type: string, ...payload: Array<string | number[] | Uint8Array>): Uint8Array {
+  const body = bytes(...payload);
+  return bytes(u32be(body.length + 8), type, body);
+}
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo: 417 bytes per frame
+function mp3Frame(xingFrames?: number): Uint8Array {
+  const frame = new Uint8Array(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  if (xingFrames !== undefined) {
+    frame.set(bytes('Xing', u32be(1), u32be(xingFrames)), 4 + 32);
+  }
+  return frame;
+}
+
+describe('AudioProber', () => {
+  it('reads a CBR MP3 behind an ID3v2 tag', () => {
+    const id3 = bytes('ID3', [4, 0, 0], [0, 0, 0, 20], new Uint8Array(20));
+    const head = bytes(id3, mp3Frame(), mp3Frame(), mp3Frame());
+
+    const result = AudioProber.probe(head, { fileSize: 30 + 417 * 1000 });
+
+    expect(result).toMatchObject({
+      container: 'mp3',
+      codec: 'mp3',
+      mimeType: 'audio/mpeg',
+      sampleRate: 44100,
+      channels: 2,
+      bitDepth: null,
+      bitrate: 128000
+    });
+    expect(result?.duration).toBeCloseTo(417 * 1000 * 8 / 128000, 3);
+  });
+
+  it('reads past an ID3v2 tag larger than the probe head', async () => {
+    // 100000-byte tag, as with embedded cover art; syncsafe size is 7 bits per byte
+    const tagSize = 100_000;
+    const syncsafe = [(tagSize >> 21) & 0x7f, (tagSize >> 14) & 0x7f, (tagSize >> 7) & 0x7f, tagSize & 0x7f];
+    const file = bytes('ID3', [4, 0, 0], syncsafe, new Uint8Array(tagSize), mp3Frame(), mp3Frame(), mp3Frame());
+    const offsets: number[] = [];
+
+    const result = await AudioProber.probeSource({
+      size: 10 + tagSize + 417 * 1000,
+      read: async (offset, length) => {
+        offsets.push(offset);
+        return file.subarray(offset, offset + length);
+      }
+    });
+
+    expect(result).toMatchObject({ container: 'mp3', sampleRate: 44100, bitrate: 128000 });
+    expect(result?.duration).toBeCloseTo(417 * 1000 * 8 / 128000, 3);
+    expect(offsets).toEqual([0, 10 + tagSize]);
+  });
+
+  it('takes the VBR duration from the Xing header', () => {
+    const head = bytes(mp3Frame(2000), mp3Frame(), mp3Frame());
+    const result = AudioProber.probe(head, { fileSize: 5_000_000 });
+
+    expect(result?.duration).toBeCloseTo(2000 * 1152 / 44100, 5);
+    expect(result?.bitrate).toBe(Math.round(5_000_000 * 8 / (2000 * 1152 / 44100)));
+  });
+
+  it('rejects bytes that are not audio', () => {
+    expect(AudioProber.probe(bytes('<!DOCTYPE html><html></html>'))).toBeNull();
+    expect(AudioProber.probe(new Uint8Array(0))).toBeNull();
+  });
+
+  it('reads FLAC STREAMINFO', () => {
+    // 48 kHz, 2 channels, 24 bits, 480000 samples
+    const packed = (48000 << 12) | (1 << 9) | (23 << 4);
+    const streamInfo = bytes(new Uint8Array(10), u32be(packed), u32be(480000), new Uint8Array(16));
+    const head = bytes('fLaC', [0x80, 0, 0, 34], streamInfo);
+
+    expect(AudioProber.probe(head, { fileSize: 1_000_000 })).toMatchObject({
+      container: 'flac',
+      codec: 'flac',
+      sampleRate: 48000,
+      channels: 2,
+      bitDepth: 24,
+      duration: 10,
+      bitrate: Math.round((1_000_000 - head.length) * 8 / 10)
+    });
+  });
+
+  it('reads Ogg Opus with the duration from the last page', () => {
+    const page = (granule: number, packet: Uint8Array) => bytes(
+      'OggS', [0, 2], u32le(granule), u32le(0), new Uint8Array(12), [1, packet.length], packet
+    );
+    const opusHead = bytes('OpusHead', [1, 2], u16le(312), u32le(44100), [0, 0, 0]);
+    const head = page(0, opusHead);
+    const tail = bytes(page(48000 * 30 + 312, new Uint8Array(10)));
+
+    const result = AudioProber.probe(head, { fileSize: 480_000, tail });
+
+    expect(result).toMatchObject({
+      container: 'ogg',
+      codec: 'opus',
+      mimeType: 'audio/ogg; codecs="opus"',
+      sampleRate: 48000,
+      channels: 2,
+      duration: 30,
+      bitrate: 128000
+    });
+  });
+
+  it('reads 24-bit WAV and RF64 data sizes', () => {
+    const fmt = bytes('fmt ', u32le(16), u16le(1), u16le(2), u32le(96000), u32le(96000 * 6), u16le(6), u16le(24));
+    const wav = bytes('RIFF', u32le(0), 'WAVE', fmt, 'data', u32le(96000 * 6 * 5));
+
+    expect(AudioProber.probe(wav)).toMatchObject({
+      container: 'wav',
+      codec: 'pcm',
+      sampleRate: 96000,
+      channels: 2,
+      bitDepth: 24,
+      bitrate: 96000 * 48,
+      duration: 5
+    });
+
+    const ds64 = bytes('ds64', u32le(28), u32le(0), u32le(0), u32le(0), u32le(1), u32le(0), u32le(0), u32le(0));
+    const rf64 = bytes('RF64', u32le(0xffffffff), 'WAVE', ds64, fmt, 'data', u32le(0xffffffff));
+    // 2^32 bytes at 576000 bytes per second
+    expect(AudioProber.probe(rf64)?.duration).toBeCloseTo(0x100000000 / 576000, 5);
+  });
+
+  it('reads AIFF with an 80-bit sample rate', () => {
+    // 44100 = 0xAC44 * 2^0 -> exponent 16383 + 15, mantissa 0xAC44 << 48
+    const rate = [0x40, 0x0e, 0xac, 0x44, 0, 0, 0, 0, 0, 0];
+    const comm = bytes('COMM', u32be(18), u16be(2), u32be(441000), u16be(16), rate);
+    const head = bytes('FORM', u32be(0), 'AIFF', comm);
+
+    expect(AudioProber.probe(head)).toMatchObject({
+      container: 'aiff',
+      codec: 'pcm',
+      sampleRate: 44100,
+      channels: 2,
+      bitDepth: 16,
+      duration: 10
+    });
+  });
+
+  describe('MP4', () => {
+    const ftyp = box('ftyp', 'M4A ', u32be(0), 'M4A isom');
+
+    function soundTrack(entry: Uint8Array): Uint8Array {
+      const mdhd = box('mdhd', u32be(0), u32be(0), u32be(0), u32be(44100), u32be(44100 * 200), u32be(0));
+      const hdlr = box('hdlr', u32be(0), u32be(0), 'soun', new Uint8Array(12));
+      const stsd = box('stsd', u32be(0), u32be(1), entry);
+      return box('trak', box('mdia', mdhd, hdlr, box('minf', box('stbl', stsd))));
+    }
+
+    function sampleEntry(type: string, channels: number, bitDepth: number, ...children: Uint8Array[]): Uint8Array {
+      return box(type, new Uint8Array(6), u16be(1), new Uint8Array(8), u16be(channels), u16be(bitDepth), u32be(0), u32be(44100 << 16), ...children);
+    }
+
+    it('reads AAC parameters from esds', () => {
+      // AudioSpecificConfig: AAC LC, 44.1 kHz (index 4), stereo
+      const asc = [0x12, 0x10];
+      const decoderConfig = bytes([0x04, 13 + 2 + asc.length, 0x40, 0x15, 0, 0, 0], u32be(256000), u32be(192000), [0x05, asc.length], asc);
+      const esDescriptor = bytes([0x03, 3 + decoderConfig.length], u16be(1), [0], decoderConfig);
+      const esds = box('esds', u32be(0), esDescriptor);
+      const head = bytes(ftyp, box('moov', soundTrack(sampleEntry('mp4a', 2, 16, esds))));
+
+      expect(AudioProber.probe(head)).toMatchObject({
+        container: 'mp4',
+        codec: 'aac',
+        mimeType: 'audio/mp4; codecs="mp4a.40.2"',
+        sampleRate: 44100,
+        channels: 2,
+        bitDepth: null,
+        bitrate: 192000,
+        duration: 200
+      });
+    });
+
+    it('reads ALAC from a trailing moov', () => {
+      const alacConfig = box('alac', u32be(0), u32be(4096), [0, 24, 40, 10, 14, 2], u16be(255), u32be(0), u32be(2_000_000), u32be(96000));
+      const moov = box('moov', soundTrack(sampleEntry('alac', 2, 16, alacConfig)));
+      const head = bytes(ftyp, box('mdat', new Uint8Array(64)));
+
+      expect(AudioProber.probe(head)?.codec).toBe('unknown');
+      expect(AudioProber.probe(head, { tail: moov })).toMatchObject({
+        codec: 'alac',
+        mimeType: 'audio/mp4; codecs="alac"',
+        sampleRate: 96000,
+        bitDepth: 24,
+        bitrate: 2_000_000
+      });
+    });
+
+    it('walks top-level boxes to a trailing moov without reading the media data', async () => {
+      const moov = box('moov', soundTrack(sampleEntry('alac', 2, 16)));
+      const file = bytes(ftyp, box('mdat', new Uint8Array(200 * 1024)), moov);
+      const reads: number[] = [];
+
+      const result = await AudioProber.probeSource({
+        size: file.length,
+        read: async (offset, length) => {
+          reads.push(length);
+          return file.subarray(offset, offset + length);
+        }
+      });
+
+      expect(result?.codec).toBe('alac');
+      expect(result?.duration).toBe(200);
+      expect(reads.reduce((sum, length) => sum + length, 0)).toBeLessThan(80 * 1024);
+    });
+  });
+
+  it('reads the audio track of a WebM file', () => {
+    const ebml = (id: number[], payload: Uint8Array | number[]) => {
+      const body = Uint8Array.from(payload);
+      return bytes(id, [0x80 | body.length], body);
+    };
+    const float64 = (n: number) => {
+      const view = new DataView(new ArrayBuffer(8));
+      view.setFloat64(0, n);
+      return new Uint8Array(view.buffer);
+    };
+
+    const header = ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], bytes('webm')));
+    const info = ebml([0x15, 0x49, 0xa9, 0x66], bytes(ebml([0x2a, 0xd7, 0xb1], u32be(1000000)), ebml([0x44, 0x89], float64(61500))));
+    const audio = ebml([0xe1], bytes(ebml([0xb5], float64(48000)), ebml([0x9f], [2])));
+    const entry = ebml([0xae], bytes(ebml([0x83], [2]), ebml([0x86], bytes('A_OPUS')), audio));
+    const tracks = ebml([0x16, 0x54, 0xae, 0x6b], entry);
+    // Segment of unknown size, as written by live recorders
+    const segment = bytes([0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff], info, tracks);
+
+    expect(AudioProber.probe(bytes(header, segment))).toMatchObject({
+      container: 'webm',
+      codec: 'opus',
+      mimeType: 'audio/webm; codecs="opus"',
+      sampleRate: 48000,
+      channels: 2,
+      duration: 61.5
+    });
+  });
+});
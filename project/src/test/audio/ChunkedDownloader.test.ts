@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ChunkedDownloader, ChunkStore, ChunkedDownloadState, IntegrityError } from '../../audio/ChunkedDownloader';
+
+const URL = 'https://example.com/song.mp3';
+
+const createStore = () => {
+  const chunks = new Map<string, Uint8Array[]>();
+  const store: ChunkStore = {
+    getChunks: async trackId => [...(chunks.get(trackId) ?? [])],
+    putChunk: async (trackId, index, data) => {
+      const list = chunks.get(trackId) ?? [];
+      list[index] = data;
+      chunks.set(trackId, list);
+    },
+    clearChunks: async trackId => {
+      chunks.delete(trackId);
+    }
+  };
+  return { store, chunks };
+};
+
+const createFile = (size: number) => Uint8Array.from({ length: size }, (_, i) => (i * 7) % 251);
+
+// Serves a file with Range, If-Range, ETag and Repr-Digest the way the song storage plugin does
+const serve = (getFile: () => Uint8Array, options: { failAfter?: number; digest?: string } = {}) => {
+  let requests = 0;
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (_input, init) => {
+    if (options.failAfter !== undefined && requests >= options.failAfter) {
+      throw new TypeError('Failed to fetch');
+    }
+    requests++;
+
+    const file = getFile();
+    const hash = await ChunkedDownloader.sha256(file);
+    const headers = new Headers({
+      'ETag': `"${hash}"`,
+      'Repr-Digest': `sha-256=:${options.digest ?? btoa(String.fromCharCode(...hash.match(/../g)!.map(h => parseInt(h, 16))))}:`
+    });
+
+    const requestHeaders = (init?.headers ?? {}) as Record<string, string>;
+    const range = requestHeaders['Range']?.match(/^bytes=(\d+)-(\d+)$/);
+    const ifRange = requestHeaders['If-Range'];
+    if (!range || (ifRange && ifRange !== `"${hash}"`)) {
+      return new Response(file, { status: 200, headers });
+    }
+
+    const start = parseInt(range[1]!, 10);
+    const end = Math.min(file.length - 1, parseInt(range[2]!, 10));
+    headers.set('Content-Range', `bytes ${start}-${end}/${file.length}`);
+    return new Response(file.slice(start, end + 1), { status: 206, headers });
+  });
+};
+
+describe('ChunkedDownloader', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('downloads a file in range chunks and verifies its checksum', async () => {
+    const file = createFile(10_000);
+    const fetchMock = serve(() => file);
+    const { store, chunks } = createStore();
+    const state: ChunkedDownloadState = {};
+
+    const data = await ChunkedDownloader.download(URL, 'song', state, store, { chunkSize: 4096 });
+
+    expect(data).toEqual(file);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(chunks.get('song')?.map(chunk => chunk.length)).toEqual([4096, 4096, 1808]);
+    expect(state).toMatchObject({ bytesDownloaded: 10_000, totalBytes: 10_000 });
+    expect(state.checksum).toBe(await ChunkedDownloader.sha256(file));
+  });
+
+  it('resumes from the last stored chunk after the connection drops', async () => {
+    const file = createFile(10_000);
+    const { store } = createStore();
+    const state: ChunkedDownloadState = {};
+
+    serve(() => file, { failAfter: 2 });
+    await expect(ChunkedDownloader.download(URL, 'song', state, store, { chunkSize: 4096 }))
+      .rejects.toThrow(TypeError);
+    expect(state.bytesDownloaded).toBe(8192);
+
+    vi.restoreAllMocks();
+    const fetchMock = serve(() => file);
+    const data = await ChunkedDownloader.download(URL, 'song', state, store, { chunkSize: 4096 });
+
+    expect(data).toEqual(file);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]![1]?.headers).toEqual({ 'Range': 'bytes=8192-12287', 'If-Range': state.etag });
+  });
+
+  it('starts over when the file changed since the stored chunks were fetched', async () => {
+    let file = createFile(10_000);
+    const { store } = createStore();
+    const state: ChunkedDownloadState = {};
+
+    serve(() => file, { failAfter: 1 });
+    await expect(ChunkedDownloader.download(URL, 'song', state, store, { chunkSize: 4096 })).rejects.toThrow();
+
+    vi.restoreAllMocks();
+    file = createFile(12_000).reverse();
+    serve(() => file);
+    const data = await ChunkedDownloader.download(URL, 'song', state, store, { chunkSize: 4096 });
+
+    expect(data).toEqual(file);
+    expect(state.totalBytes).toBe(12_000);
+  });
+
+  it('discards the chunks when the finished file fails its checksum', async () => {
+    const file = createFile(5000);
+    serve(() => file, { digest: btoa('x'.repeat(32)) });
+    const { store, chunks } = createStore();
+    const state: ChunkedDownloadState = {};
+
+    await expect(ChunkedDownloader.download(URL, 'song', state, store, { chunkSize: 4096 }))
+      .rejects.toThrow(IntegrityError);
+    expect(chunks.has('song')).toBe(false);
+    expect(state).toEqual({});
+  });
+
+  it('reads SHA-256 checksums from digest headers and SHA-256 ETags', () => {
+    const hex = 'ab'.repeat(32);
+
+    expect(ChunkedDownloader.parseChecksum(new Headers({ 'Digest': `SHA-256=${btoa('\xab'.repeat(32))}` }))).toBe(hex);
+    expect(ChunkedDownloader.parseChecksum(new Headers({ 'ETag': `"${hex.toUpperCase()}"` }))).toBe(hex);
+    expect(ChunkedDownloader.parseChecksum(new Headers({ 'ETag': '"5f3a-1c"' }))).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { FeatureExtractor } from '../../audio/FeatureExtractor';
+
+const SAMPLE_RATE = 22050;
+
+const NOTE = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+// Decaying drum hits on every beat over a sustained chord
+function track(bpm: number, chord: number[], seconds = 20, drums = 0.5): Float32Array {
+  const samples = new Float32Array(SAMPLE_RATE * seconds);
+  const beat = 60 / bpm;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const beatIndex = Math.floor(t / beat);
+    const sinceBeat = t - beatIndex * beat;
+    const accent = beatIndex % 4 === 0 ? 1 : 0.5;
+    const hit = accent * Math.exp(-sinceBeat * 40) * Math.sin(2 * Math.PI * 60 * sinceBeat) + 0.3 * accent * Math.exp(-sinceBeat * 60) * (Math.sin(i * 12.9898) * 43758.5453 % 1);
+    let tone = 0;
+    chord.forEach(midi => {
+      const f = NOTE(midi);
+      tone += Math.sin(2 * Math.PI * f * t) + 0.5 * Math.sin(4 * Math.PI * f * t) + 0.25 * Math.sin(6 * Math.PI * f * t);
+    });
+    samples[i] = drums * hit + 0.08 * tone;
+  }
+  return samples;
+}
+
+describe('FeatureExtractor', () => {
+  it('finds the tempo and a minor key', () => {
+    const features = FeatureExtractor.extract([track(128, [57, 60, 64, 69])], SAMPLE_RATE);
+
+    expect(features.tempo).toBeGreaterThan(126);
+    expect(features.tempo).toBeLessThan(130);
+    expect(FeatureExtractor.formatKey(features.key, features.mode)).toBe('A minor');
+  });
+
+  it('finds a major key at a slower tempo', () => {
+    const features = FeatureExtractor.extract([track(96, [48, 52, 55, 60])], SAMPLE_RATE);
+
+    expect(features.tempo).toBeGreaterThan(94);
+    expect(features.tempo).toBeLessThan(98);
+    expect(FeatureExtractor.formatKey(features.key, features.mode)).toBe('C major');
+  });
+
+  it('rates a quiet pad without drums as less energetic and danceable', () => {
+    const beat = FeatureExtractor.extract([track(120, [48, 52, 55])], SAMPLE_RATE);
+    const pad = FeatureExtractor.extract([track(120, [48, 52, 55], 20, 0).map(x => x * 0.2)], SAMPLE_RATE);
+
+    expect(pad.loudness).toBeLessThan(beat.loudness - 10);
+    expect(pad.energy).toBeLessThan(beat.energy);
+    expect(pad.danceability).toBeLessThan(beat.danceability);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { GaplessDecoder } from '../../audio/GaplessDecoder';
+
+const ascii = (text: string) => Array.from(text).map(c => c.charCodeAt(0));
+
+function createLameFrame(encoderDelay: number, encoderPadding: number, frames: number): ArrayBuffer {
+  const bytes = new Uint8Array(417);
+  // MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo
+  bytes.set([0xff, 0xfb, 0x90, 0x64], 0);
+
+  let offset = 4 + 32;
+  bytes.set(ascii('Info'), offset);
+  bytes.set([0, 0, 0, 0x0f], offset + 4);
+  bytes.set([(frames >> 24) & 0xff, (frames >> 16) & 0xff, (frames >> 8) & 0xff, frames & 0xff], offset + 8);
+  offset += 8 + 4 + 4 + 100 + 4;
+
+  bytes.set(ascii('LAME3.100'), offset);
+  bytes[offset + 21] = encoderDelay >> 4;
+  bytes[offset + 22] = ((encoderDelay & 0x0f) << 4) | (encoderPadding >> 8);
+  bytes[offset + 23] = encoderPadding & 0xff;
+
+  return bytes.buffer;
+}
+
+function createFakeBuffer(length: number, sampleRate = 44100) {
+  const data = Float32Array.from({ length }, (_, i) => i);
+  return {
+    length,
+    sampleRate,
+    numberOfChannels: 1,
+    duration: length / sampleRate,
+    getChannelData: () => data
+  } as unknown as AudioBuffer;
+}
+
+const fakeContext = {
+  createBuffer: (channels: number, length: number, sampleRate: number) => {
+    const data = new Float32Array(length);
+    return {
+      length,
+      sampleRate,
+      numberOfChannels: channels,
+      getChannelData: () => data,
+      copyToChannel: (source: Float32Array) => data.set(source)
+    };
+  }
+} as unknown as BaseAudioContext;
+
+describe('GaplessDecoder', () => {
+  it('reads encoder delay and padding from a LAME header', () => {
+    const info = GaplessDecoder.parseGaplessInfo(createLameFrame(576, 1000, 100));
+
+    expect(info).toEqual({
+      delay: 576 + 529,
+      padding: 1000 - 529,
+      sampleRate: 44100,
+      totalSamples: 100 * 1152 - 576 - 1000,
+      source: 'lame'
+    });
+  });
+
+  it('skips a leading ID3v2 tag before looking for the LAME header', () => {
+    const frame = new Uint8Array(createLameFrame(576, 1000, 10));
+    const withTag = new Uint8Array(20 + frame.length);
+    withTag.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 10], 0);
+    withTag.set(frame, 20);
+
+    expect(GaplessDecoder.parseGaplessInfo(withTag.buffer)?.delay).toBe(1105);
+  });
+
+  it('reads iTunSMPB gapless info', () => {
+    const text = 'xxxxiTunSMPB\0\0\0\0data\0\0\0\0 00000000 00000840 000001CA 00000000001CCE76 00000000';
+    const info = GaplessDecoder.parseGaplessInfo(new Uint8Array(ascii(text)).buffer);
+
+    expect(info).toEqual({
+      delay: 0x840,
+      padding: 0x1ca,
+      totalSamples: 0x1cce76,
+      source: 'itunsmpb'
+    });
+  });
+
+  it('returns null when no gapless metadata is present', () => {
+    expect(GaplessDecoder.parseGaplessInfo(new Uint8Array(64).buffer)).toBeNull();
+  });
+
+  it('trims delay and padding from a decoded buffer', () => {
+    const trimmed = GaplessDecoder.trimBuffer(fakeContext, createFakeBuffer(10000), {
+      delay: 100,
+      padding: 50,
+      source: 'lame'
+    });
+
+    expect(trimmed.length).toBe(9850);
+    expect(trimmed.getChannelData(0)[0]).toBe(100);
+  });
+
+  it('leaves buffers that the browser already trimmed untouched', () => {
+    const buffer = createFakeBuffer(113624);
+    const trimmed = GaplessDecoder.trimBuffer(fakeContext, buffer, {
+      delay: 1105,
+      padding: 471,
+      totalSamples: 113624,
+      sampleRate: 44100,
+      source: 'lame'
+    });
+
+    expect(trimmed).toBe(buffer);
+  });
+});
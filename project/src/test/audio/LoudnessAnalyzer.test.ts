@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { LoudnessAnalyzer } from '../../audio/LoudnessAnalyzer';
+import { LoudnessNormalizer, DEFAULT_LOUDNESS_SETTINGS, LoudnessInfo } from '../../audio/LoudnessNormalizer';
+
+const SAMPLE_RATE = 48000;
+
+function sine(amplitude: number, frequency = 997, seconds = 5): Float32Array {
+  return Float32Array.from(
+    { length: SAMPLE_RATE * seconds },
+    (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  );
+}
+
+const ascii = (text: string) => new Uint8Array(Array.from(text).map(c => c.charCodeAt(0))).buffer;
+
+describe('LoudnessAnalyzer', () => {
+  it('measures a full scale stereo 997 Hz sine at about 0 LUFS', () => {
+    const { integratedLoudness, samplePeak } = LoudnessAnalyzer.measure([sine(1), sine(1)], SAMPLE_RATE);
+
+    expect(integratedLoudness).toBeCloseTo(0, 1);
+    expect(samplePeak).toBeCloseTo(1, 2);
+  });
+
+  it('measures a single channel sine 3 dB lower', () => {
+    const { integratedLoudness } = LoudnessAnalyzer.measure([sine(1)], SAMPLE_RATE);
+
+    expect(integratedLoudness).toBeCloseTo(-3.01, 1);
+  });
+
+  it('follows level changes linearly', () => {
+    const { integratedLoudness } = LoudnessAnalyzer.measure([sine(0.1), sine(0.1)], SAMPLE_RATE);
+
+    expect(integratedLoudness).toBeCloseTo(-20, 1);
+  });
+
+  it('gates out silence', () => {
+    const withSilence = new Float32Array(SAMPLE_RATE * 10);
+    withSilence.set(sine(0.1), 0);
+
+    const { integratedLoudness } = LoudnessAnalyzer.measure([withSilence, withSilence], SAMPLE_RATE);
+
+    // Blocks straddling the cut still pass the relative gate
+    expect(integratedLoudness).toBeCloseTo(-20, 0);
+  });
+
+  it('reports -Infinity for digital silence', () => {
+    const silence = new Float32Array(SAMPLE_RATE);
+
+    expect(LoudnessAnalyzer.measure([silence], SAMPLE_RATE).integratedLoudness).toBe(-Infinity);
+  });
+
+  it('reads ReplayGain tags from Vorbis comments and ID3 TXXX frames', () => {
+    const tags = LoudnessAnalyzer.parseTags(ascii(
+      'REPLAYGAIN_TRACK_GAIN=-7.25 dB\u0000REPLAYGAIN_TRACK_PEAK=0.988\u0000' +
+      'TXXX\u0000\u0000\u0000 \u0000\u0000\u0003REPLAYGAIN_ALBUM_GAIN\u0000-6.10 dB'
+    ));
+
+    expect(tags).toEqual({ trackGain: -7.25, trackPeak: 0.988, albumGain: -6.1 });
+  });
+
+  it('converts R128 gains to the ReplayGain reference level', () => {
+    const tags = LoudnessAnalyzer.parseTags(ascii('R128_TRACK_GAIN=-1280'));
+
+    expect(tags?.trackGain).toBeCloseTo(0);
+  });
+});
+
+describe('LoudnessNormalizer.computeGain', () => {
+  const info: LoudnessInfo = {
+    songId: 'song-1',
+    source: 'tags',
+    trackGain: -6,
+    trackPeak: 0.5,
+    albumGain: -4,
+    albumPeak: 0.9,
+    analyzedAt: 0
+  };
+
+  it('ignores tags unless ReplayGain is enabled', () => {
+    expect(LoudnessNormalizer.computeGain(info, DEFAULT_LOUDNESS_SETTINGS)).toBe(0);
+  });
+
+  it('applies track or album gain with preamp', () => {
+    const settings = { ...DEFAULT_LOUDNESS_SETTINGS, replayGainEnabled: true, preampDb: 1 };
+
+    expect(LoudnessNormalizer.computeGain(info, settings)).toBe(-5);
+    expect(LoudnessNormalizer.computeGain(info, { ...settings, mode: 'album' })).toBe(-3);
+  });
+
+  it('limits positive gain to the track peak', () => {
+    const settings = { ...DEFAULT_LOUDNESS_SETTINGS, replayGainEnabled: true, preampDb: 14 };
+
+    expect(LoudnessNormalizer.computeGain(info, settings)).toBeCloseTo(6.02, 2);
+  });
+
+  it('takes mode and preamp from the playback settings', () => {
+    const settings = {
+      ...DEFAULT_LOUDNESS_SETTINGS,
+      ...LoudnessNormalizer.fromPlaybackSettings({
+        replayGainEnabled: true,
+        replayGainMode: 'album',
+        replayGainPreamp: 2,
+        normalizationEnabled: false
+      })
+    };
+
+    expect(LoudnessNormalizer.computeGain(info, settings)).toBe(-2);
+    expect(LoudnessNormalizer.computeGain({ ...info, source: 'analysis' }, settings)).toBe(0);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { ManifestParser, ByteRange } from '../../audio/ManifestParser';
+
+const BASE = 'https://cdn.example.com/songs/42/';
+
+function fetcher(files: Record<string, string>) {
+  return async (url: string) => {
+    const text = files[url];
+    if (text === undefined) throw new Error(`Unexpected fetch ${url}`);
+    return text;
+  };
+}
+
+const noBytes = async (): Promise<ArrayBuffer> => {
+  throw new Error('Unexpected byte fetch');
+};
+
+// sidx v0 box with 1000 Hz timescale, referencing subsegments of the given sizes and durations
+function sidx(references: Array<[size: number, duration: number]>, firstOffset = 0): ArrayBuffer {
+  const size = 32 + references.length * 12;
+  const view = new DataView(new ArrayBuffer(size));
+  view.setUint32(0, size);
+  [0x73, 0x69, 0x64, 0x78].forEach((c, i) => view.setUint8(4 + i, c));
+  view.setUint32(12, 1); // reference_ID
+  view.setUint32(16, 1000); // timescale
+  view.setUint32(20, 0); // earliest_presentation_time
+  view.setUint32(24, firstOffset);
+  view.setUint16(30, references.length);
+  references.forEach(([bytes, duration], i) => {
+    view.setUint32(32 + i * 12, bytes);
+    view.setUint32(36 + i * 12, duration);
+  });
+  return view.buffer;
+}
+
+describe('ManifestParser', () => {
+  it('recognises manifest URLs', () => {
+    expect(ManifestParser.isSegmentedUrl('/api/songs/stream/1/hls/master.m3u8?token=a')).toBe(true);
+    expect(ManifestParser.isSegmentedUrl('https://x.test/a/manifest.MPD')).toBe(true);
+    expect(ManifestParser.isSegmentedUrl('https://x.test/a/song.mp3?format=m3u8')).toBe(false);
+  });
+
+  it('loads an HLS master playlist with fMP4 and byte-range media playlists', async () => {
+    const manifest = await ManifestParser.load(`${BASE}master.m3u8`, fetcher({
+      [`${BASE}master.m3u8`]: [
+        '#EXTM3U',
+        '#EXT-X-STREAM-INF:BANDWIDTH=270000,AVERAGE-BANDWIDTH=260000,CODECS="mp4a.40.2"',
+        'hi/index.m3u8',
+        '#EXT-X-STREAM-INF:BANDWIDTH=70000,CODECS="mp4a.40.5"',
+        'lo/index.m3u8'
+      ].join('\n'),
+      [`${BASE}hi/index.m3u8`]: [
+        '#EXTM3U',
+        '#EXT-X-TARGETDURATION:6',
+        '#EXT-X-MAP:URI="init.mp4"',
+        '#EXTINF:6.0,',
+        'seg0.m4s',
+        '#EXTINF:6.0,',
+        'seg1.m4s',
+        '#EXTINF:3.5,',
+        'seg2.m4s',
+        '#EXT-X-ENDLIST'
+      ].join('\n'),
+      [`${BASE}lo/index.m3u8`]: [
+        '#EXTM3U',
+        '#EXT-X-TARGETDURATION:6',
+        '#EXTINF:6.0,',
+        '#EXT-X-BYTERANGE:1000@0',
+        'all.ts',
+        '#EXTINF:6.0,',
+        '#EXT-X-BYTERANGE:800',
+        'all.ts',
+        '#EXTINF:3.5,',
+        '#EXT-X-BYTERANGE:500',
+        'all.ts',
+        '#EXT-X-ENDLIST'
+      ].join('\n')
+    }), noBytes);
+
+    expect(manifest.protocol).toBe('hls');
+    expect(manifest.duration).toBeCloseTo(15.5);
+    expect(manifest.renditions.map(r => [r.bandwidth, r.codecs, r.container])).toEqual([
+      [70000, 'mp4a.40.5', 'ts'],
+      [260000, 'mp4a.40.2', 'fmp4']
+    ]);
+
+    const [low, high] = manifest.renditions;
+    expect(high?.initSegment).toEqual({ url: `${BASE}hi/init.mp4` });
+    expect(high?.segments[2]).toMatchObject({ url: `${BASE}hi/seg2.m4s`, start: 12, duration: 3.5 });
+    expect(low?.segments.map(s => s.byteRange)).toEqual([
+      { start: 0, end: 999 },
+      { start: 1000, end: 1799 },
+      { start: 1800, end: 2299 }
+    ]);
+  });
+
+  it('rejects encrypted HLS', () => {
+    expect(() => ManifestParser.parseHlsPlaylist(
+      '#EXTM3U\n#EXT-X-KEY:METHOD=AES-128,URI="key"\n#EXTINF:6,\na.ts',
+      BASE
+    )).toThrow(/AES-128/);
+  });
+
+  it('expands DASH SegmentTemplate by number and by timeline', () => {
+    const manifest = ManifestParser.parseDash(`<?xml version="1.0"?>
+      <MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT0M15.5S">
+        <BaseURL>dash/</BaseURL>
+        <Period>
+          <AdaptationSet mimeType="audio/mp4" segmentAlignment="true">
+            <AudioChannelConfiguration schemeIdUri="urn:mpeg:dash:23003:3:audio_channel_configuration:2011" value="2"/>
+            <SegmentTemplate timescale="48000" initialization="init-$RepresentationID$.m4s" media="chunk-$RepresentationID$-$Number%05d$.m4s" startNumber="1" duration="288000"/>
+            <Representation id="a128" codecs="mp4a.40.2" bandwidth="128000" audioSamplingRate="48000"/>
+            <Representation id="a64" codecs="mp4a.40.5" bandwidth="64000">
+              <SegmentTemplate media="t-$Time$.m4s" initialization="init-lo.m4s">
+                <SegmentTimeline>
+                  <S t="0" d="288000" r="1"/>
+                  <S d="168000"/>
+                </SegmentTimeline>
+              </SegmentTemplate>
+            </Representation>
+          </AdaptationSet>
+          <AdaptationSet mimeType="video/mp4">
+            <Representation id="v1" codecs="avc1.4d401f" bandwidth="900000"/>
+          </AdaptationSet>
+        </Period>
+      </MPD>`, `${BASE}manifest.mpd`);
+
+    expect(manifest.duration).toBeCloseTo(15.5);
+    expect(manifest.renditions.map(r => r.id)).toEqual(['a64', 'a128']);
+
+    const [low, high] = manifest.renditions;
+    expect(high).toMatchObject({ sampleRate: 48000, channels: 2, container: 'fmp4' });
+    expect(high?.initSegment?.url).toBe(`${BASE}dash/init-a128.m4s`);
+    expect(high?.segments.map(s => [s.url.slice(BASE.length), s.start, s.duration])).toEqual([
+      ['dash/chunk-a128-00001.m4s', 0, 6],
+      ['dash/chunk-a128-00002.m4s', 6, 6],
+      ['dash/chunk-a128-00003.m4s', 12, 3.5]
+    ]);
+    expect(low?.segments.map(s => [s.url.slice(BASE.length), s.start, s.duration])).toEqual([
+      ['dash/t-0.m4s', 0, 6],
+      ['dash/t-288000.m4s', 6, 6],
+      ['dash/t-576000.m4s', 12, 3.5]
+    ]);
+  });
+
+  it('resolves DASH SegmentBase through the sidx box', async () => {
+    const requests: Array<ByteRange | undefined> = [];
+    const manifest = await ManifestParser.load(`${BASE}single.mpd`, fetcher({
+      [`${BASE}single.mpd`]: `<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" mediaPresentationDuration="PT10S">
+        <Period>
+          <AdaptationSet contentType="audio">
+            <Representation id="0" mimeType="audio/mp4" codecs="mp4a.40.2" bandwidth="96000">
+              <BaseURL>song.m4a</BaseURL>
+              <SegmentBase indexRange="700-767"><Initialization range="0-699"/></SegmentBase>
+            </Representation>
+          </AdaptationSet>
+        </Period>
+      </MPD>`
+    }), async (_url, byteRange) => {
+      requests.push(byteRange);
+      return sidx([[4000, 6000], [2500, 4000]]);
+    });
+
+    const [rendition] = manifest.renditions;
+    expect(requests).toEqual([{ start: 700, end: 767 }]);
+    expect(rendition?.index).toBeUndefined();
+    expect(rendition?.initSegment).toEqual({ url: `${BASE}song.m4a`, byteRange: { start: 0, end: 699 } });
+    expect(rendition?.segments).toEqual([
+      { url: `${BASE}song.m4a`, start: 0, duration: 6, byteRange: { start: 768, end: 4767 } },
+      { url: `${BASE}song.m4a`, start: 6, duration: 4, byteRange: { start: 4768, end: 7267 } }
+    ]);
+  });
+
+  it('parses ISO 8601 durations', () => {
+    expect(ManifestParser.parseIsoDuration('PT1H2M3.5S')).toBeCloseTo(3723.5);
+    expect(ManifestParser.parseIsoDuration('P1DT1S')).toBe(86401);
+    expect(ManifestParser.parseIsoDuration('bogus')).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MediaSourceStream } from '../../audio/MediaSourceStream';
+import { StreamManifest, Rendition, SegmentContainer } from '../../audio/ManifestParser';
+
+interface Append {
+  content: string;
+  timestampOffset: number;
+}
+
+class FakeSourceBuffer extends EventTarget {
+  updating = false;
+  mode: AppendMode = 'segments';
+  timestampOffset = 0;
+  buffered = { length: 0, start: () => 0, end: () => 0 };
+  appends: Append[] = [];
+  types: string[];
+
+  constructor(type: string) {
+    super();
+    this.types = [type];
+  }
+
+  appendBuffer(data: Uint8Array): void {
+    this.appends.push({ content: new TextDecoder().decode(data), timestampOffset: this.timestampOffset });
+    this.update();
+  }
+
+  remove(): void {
+    this.update();
+  }
+
+  changeType(type: string): void {
+    this.types.push(type);
+  }
+
+  abort(): void {}
+
+  private update(): void {
+    this.updating = true;
+    setTimeout(() => {
+      this.updating = false;
+      this.dispatchEvent(new Event('updateend'));
+    }, 0);
+  }
+}
+
+class FakeMediaSource extends EventTarget {
+  static instances: FakeMediaSource[] = [];
+  static isTypeSupported = () => true;
+
+  readyState: ReadyState = 'closed';
+  duration = NaN;
+  sourceBuffers: FakeSourceBuffer[] = [];
+
+  constructor() {
+    super();
+    FakeMediaSource.instances.push(this);
+  }
+
+  addSourceBuffer(type: string): FakeSourceBuffer {
+    const sourceBuffer = new FakeSourceBuffer(type);
+    this.sourceBuffers.push(sourceBuffer);
+    return sourceBuffer;
+  }
+
+  endOfStream(): void {
+    this.readyState = 'ended';
+  }
+
+  open(): void {
+    this.readyState = 'open';
+    this.dispatchEvent(new Event('sourceopen'));
+  }
+}
+
+class FakeMedia extends EventTarget {
+  currentTime = 0;
+  src = '';
+
+  at(time: number, event: string): void {
+    this.currentTime = time;
+    this.dispatchEvent(new Event(event));
+  }
+}
+
+function rendition(id: string, container: SegmentContainer, codecs = 'mp4a.40.2'): Rendition {
+  return {
+    id,
+    bandwidth: 64000,
+    codecs,
+    container,
+    ...(container === 'fmp4' ? { initSegment: { url: `${id}/init` } } : {}),
+    segments: [0, 1, 2, 3].map(i => ({ url: `${id}/${i}`, start: i * 6, duration: 6 }))
+  };
+}
+
+function manifest(...renditions: Rendition[]): StreamManifest {
+  return { protocol: 'dash', url: 'test.mpd', duration: 24, renditions };
+}
+
+const fetchSegment = async (segment: { url: string }) => new TextEncoder().encode(segment.url).buffer as ArrayBuffer;
+
+const settle = async () => {
+  for (let i = 0; i < 20; i++) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+describe('MediaSourceStream', () => {
+  const originalMediaSource = globalThis.MediaSource;
+  const originalCreateObjectURL = URL.createObjectURL;
+  const originalRevokeObjectURL = URL.revokeObjectURL;
+
+  beforeEach(() => {
+    FakeMediaSource.instances = [];
+    globalThis.MediaSource = FakeMediaSource as unknown as typeof MediaSource;
+    URL.createObjectURL = () => 'blob:stream';
+    URL.revokeObjectURL = () => undefined;
+  });
+
+  afterEach(() => {
+    globalThis.MediaSource = originalMediaSource;
+    URL.createObjectURL = originalCreateObjectURL;
+    URL.revokeObjectURL = originalRevokeObjectURL;
+  });
+
+  it('switches rendition at the next segment boundary and keeps it across seeks', async () => {
+    const stream = new MediaSourceStream(manifest(rendition('lo', 'fmp4'), rendition('hi', 'fmp4')), fetchSegment, 0, { bufferAhead: 12 });
+    const media = new FakeMedia();
+    const changes: unknown[] = [];
+    let ended = false;
+    stream.addEventListener('renditionChange', e => changes.push((e as CustomEvent).detail));
+    stream.addEventListener('ended', () => { ended = true; });
+
+    stream.attach(media as unknown as HTMLMediaElement);
+    expect(media.src).toBe('blob:stream');
+
+    const mediaSource = FakeMediaSource.instances[0]!;
+    mediaSource.open();
+    await settle();
+
+    const sourceBuffer = mediaSource.sourceBuffers[0]!;
+    expect(mediaSource.duration).toBe(24);
+    expect(sourceBuffer.types).toEqual(['audio/mp4; codecs="mp4a.40.2"']);
+    expect(sourceBuffer.appends.map(a => a.content)).toEqual(['lo/init', 'lo/0', 'lo/1']);
+
+    stream.setRendition(1);
+    media.at(5, 'timeupdate');
+    await settle();
+
+    expect(sourceBuffer.appends.map(a => a.content)).toEqual(['lo/init', 'lo/0', 'lo/1', 'hi/init', 'hi/2']);
+    expect(changes).toEqual([{ previous: 0, current: 1, time: 12 }]);
+    expect(stream.getActiveRendition()).toBe(1);
+
+    media.at(19, 'seeking');
+    await settle();
+    media.at(20, 'timeupdate');
+    await settle();
+
+    expect(sourceBuffer.appends.map(a => a.content).slice(5)).toEqual(['hi/3']);
+    expect(ended).toBe(true);
+    expect(mediaSource.readyState).toBe('ended');
+  });
+
+  it('timestamps raw ADTS segments in sequence mode and changes type for a new codec', async () => {
+    const stream = new MediaSourceStream(
+      manifest(rendition('aac', 'adts'), rendition('mp4', 'fmp4', 'mp4a.40.5')),
+      fetchSegment,
+      0,
+      { bufferAhead: 6 }
+    );
+    const media = new FakeMedia();
+    stream.attach(media as unknown as HTMLMediaElement);
+
+    const mediaSource = FakeMediaSource.instances[0]!;
+    mediaSource.open();
+    await settle();
+
+    const sourceBuffer = mediaSource.sourceBuffers[0]!;
+    expect(sourceBuffer.mode).toBe('sequence');
+    expect(sourceBuffer.appends).toEqual([{ content: 'aac/0', timestampOffset: 0 }]);
+
+    stream.setRendition(1);
+    media.at(1, 'timeupdate');
+    await settle();
+
+    expect(sourceBuffer.types).toEqual(['audio/aac', 'audio/mp4; codecs="mp4a.40.5"']);
+    expect(sourceBuffer.mode).toBe('segments');
+    expect(sourceBuffer.appends.map(a => a.content)).toEqual(['aac/0', 'mp4/init', 'mp4/1']);
+  });
+
+  it('maps renditions to SourceBuffer types', () => {
+    expect(MediaSourceStream.getSourceBufferType(rendition('a', 'ts'))).toBe('audio/aac');
+    expect(MediaSourceStream.getSourceBufferType(rendition('a', 'ts', 'mp4a.40.34'))).toBe('audio/mpeg');
+    expect(MediaSourceStream.getSourceBufferType(rendition('a', 'mp3', 'mp3'))).toBe('audio/mpeg');
+  });
+});
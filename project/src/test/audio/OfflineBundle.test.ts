@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { OfflineBundle, BundleSource, BundleFormatError } from '../../audio/OfflineBundle';
+import { IntegrityError } from '../../audio/ChunkedDownloader';
+import type { OfflineTrack } from '../../audio/OfflineManager';
+import { Playlist, Song } from '../../types';
+
+const createTrack = (id: string, overrides: Partial<OfflineTrack> = {}): OfflineTrack => ({
+  id,
+  url: `/songs/${id}.mp3`,
+  format: 'mp3',
+  title: `Song ${id}`,
+  artist: 'Artist',
+  duration: 180,
+  downloadStatus: 'downloaded',
+  downloadProgress: 100,
+  downloadedAt: new Date('2026-01-02T03:04:05Z'),
+  fileSize: 0,
+  localPath: `offline/${id}_medium`,
+  quality: 'medium',
+  ...overrides
+});
+
+const audio = new Map(['a', 'b', 'c'].map(id => [id, `audio of song ${id}`]));
+
+const createSource = (overrides: Partial<BundleSource> = {}): BundleSource => ({
+  tracks: ['a', 'b'].map(id => createTrack(id)),
+  songs: [],
+  playlists: [],
+  coverUrls: ['/covers/a.jpg', '/covers/a.jpg'],
+  readAudio: async id => audio.has(id) ? new TextEncoder().encode(audio.get(id)) : null,
+  readCover: async () => ({ type: 'image/jpeg', data: new TextEncoder().encode('jpeg') }),
+  ...overrides
+});
+
+// jsdom's Blob cannot be read back, so archives are wrapped in Node's
+const writeArchive = async (source: BundleSource) =>
+  new NodeBlob([await new Response(OfflineBundle.write(source)).arrayBuffer()]);
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('OfflineBundle', () => {
+  it('round-trips tracks, songs, playlists and cover art with a checksummed manifest', async () => {
+    const playlist = { id: 'p1', name: 'Road trip', songs: [], userId: 'u1', isPublic: false, createdAt: new Date('2026-02-03T00:00:00Z') } as Playlist;
+    const song = { id: 'a', title: 'Song a', artist: 'Artist', duration: 180, filePath: '/songs/a.mp3', uploadedBy: 'u1', createdAt: new Date('2026-01-01T00:00:00Z') } as Song;
+    const archive = await OfflineBundle.open(await writeArchive(createSource({ songs: [song], playlists: [playlist] })));
+    const { manifest } = archive;
+
+    expect(manifest.tracks.map(item => item.track.id)).toEqual(['a', 'b']);
+    expect(manifest.tracks.map(item => item.song)).toEqual([song, undefined]);
+    expect(manifest.tracks[0]!.track.downloadedAt).toEqual(new Date('2026-01-02T03:04:05Z'));
+    expect(manifest.playlists[0]!.createdAt).toEqual(playlist.createdAt);
+    expect(manifest.covers).toHaveLength(1);
+
+    expect(decode(await archive.readEntry(manifest.tracks[1]!.audio))).toBe(audio.get('b'));
+    expect(decode(await archive.readEntry(manifest.covers[0]!.image))).toBe('jpeg');
+  });
+
+  it('leaves out tracks whose audio cannot be read', async () => {
+    const source = createSource({ tracks: ['a', 'missing', 'c'].map(id => createTrack(id)), coverUrls: [] });
+    const { manifest } = await OfflineBundle.open(await writeArchive(source));
+
+    expect(manifest.tracks.map(item => item.track.id)).toEqual(['a', 'c']);
+  });
+
+  it('rejects files that are not archives, truncated archives and corrupted entries', async () => {
+    const bytes = new Uint8Array(await (await writeArchive(createSource())).arrayBuffer());
+
+    await expect(OfflineBundle.open(new NodeBlob(['not an archive at all, just some text'])))
+      .rejects.toBeInstanceOf(BundleFormatError);
+    await expect(OfflineBundle.open(new NodeBlob([bytes.subarray(0, bytes.length - 10)])))
+      .rejects.toBeInstanceOf(BundleFormatError);
+
+    const archive = await OfflineBundle.open(new NodeBlob([bytes]));
+    const entry = archive.manifest.tracks[0]!.audio;
+    const corrupted = bytes.slice();
+    corrupted[entry.offset] = corrupted[entry.offset]! ^ 1;
+
+    const damaged = await OfflineBundle.open(new NodeBlob([corrupted]));
+    await expect(damaged.readEntry(entry)).rejects.toBeInstanceOf(IntegrityError);
+    expect(decode(await damaged.readEntry(archive.manifest.tracks[1]!.audio))).toBe(audio.get('b'));
+  });
+
+  it('skips songs already offline by ID or audio hash and stays within the budget', async () => {
+    const source = createSource({ tracks: ['a', 'b', 'c'].map(id => createTrack(id)), coverUrls: [] });
+    const { manifest } = await OfflineBundle.open(await writeArchive(source));
+    const [a, b, c] = manifest.tracks;
+
+    const offline = [
+      createTrack('a'),
+      createTrack('other-id', { checksum: b!.audio.sha256.toUpperCase() }),
+      createTrack('c', { downloadStatus: 'failed' })
+    ];
+
+    const plan = OfflineBundle.planImport(manifest, offline, c!.audio.length);
+    expect(plan.duplicates).toEqual([a, b]);
+    expect(plan.import).toEqual([c]);
+    expect(plan.bytesToImport).toBe(c!.audio.length);
+
+    const tight = OfflineBundle.planImport(manifest, [], a!.audio.length + 1);
+    expect(tight.import).toEqual([a]);
+    expect(tight.overQuota).toEqual([b, c]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OfflineManager } from '../../audio/OfflineManager';
+import { LOGOUT_EVENT } from '../../utils/indexedDB';
+
+describe('OfflineManager', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('deletes the offline database on logout when no instance was created', async () => {
+    const deleteDatabase = vi.fn(() => {
+      const request = {} as IDBOpenDBRequest;
+      setTimeout(() => request.onsuccess?.(new Event('success')));
+      return request;
+    });
+    vi.stubGlobal('indexedDB', { deleteDatabase });
+
+    const stop = OfflineManager.watchLogout();
+    window.dispatchEvent(new CustomEvent(LOGOUT_EVENT));
+    stop();
+    window.dispatchEvent(new CustomEvent(LOGOUT_EVENT));
+
+    expect(deleteDatabase).toHaveBeenCalledTimes(1);
+    expect(deleteDatabase).toHaveBeenCalledWith('MeowPlayOffline');
+  });
+
+  it('reports a wipe that another tab blocks', async () => {
+    vi.stubGlobal('indexedDB', {
+      deleteDatabase: () => {
+        const request = {} as IDBOpenDBRequest;
+        setTimeout(() => request.onblocked?.(new Event('blocked') as IDBVersionChangeEvent));
+        return request;
+      }
+    });
+
+    await expect(OfflineManager.wipeStoredData()).rejects.toThrow('open in another tab');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { OfflineRenderer } from '../../audio/OfflineRenderer';
+
+function readString(view: DataView, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+}
+
+describe('OfflineRenderer', () => {
+  it('writes a 16-bit stereo WAV header and interleaved samples', () => {
+    const left = Float32Array.from([0, 0.5, -1]);
+    const right = Float32Array.from([1, -0.5, 2]);
+    const view = new DataView(OfflineRenderer.encodeWav([left, right], 44100, 16));
+
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(12);
+    expect(view.byteLength).toBe(44 + 12);
+
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    // Out-of-range input is clipped
+    expect(samples).toEqual([0, 32767, 16384, -16383, -32767, 32767]);
+  });
+
+  it('packs 24-bit samples little endian', () => {
+    const view = new DataView(OfflineRenderer.encodeWav([Float32Array.from([0.5, -0.25])], 48000, 24));
+
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(6);
+
+    const read24 = (offset: number) => (view.getInt8(offset + 2) << 16) | view.getUint16(offset, true);
+    expect(read24(44)).toBe(Math.round(0.5 * 8388607));
+    expect(read24(47)).toBe(Math.round(-0.25 * 8388607));
+  });
+
+  it('clamps the export region to the track', () => {
+    expect(OfflineRenderer.resolveRegion(180)).toEqual({ start: 0, end: 180 });
+    expect(OfflineRenderer.resolveRegion(180, { start: -2, end: 200 })).toEqual({ start: 0, end: 180 });
+    expect(OfflineRenderer.resolveRegion(180, { start: 30, end: 45.5 })).toEqual({ start: 30, end: 45.5 });
+    expect(() => OfflineRenderer.resolveRegion(180, { start: 190, end: 200 })).toThrow();
+  });
+});
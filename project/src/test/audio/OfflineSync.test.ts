@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { OfflineSync, OfflineRule, OfflineLibrary } from '../../audio/OfflineSync';
+import { OfflineTrack } from '../../audio/OfflineManager';
+import { AudioEngine } from '../../audio/AudioEngine';
+import { Song } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1);
+const MB = 1024 * 1024;
+
+const song = (id: string, changes: Partial<Song> = {}): Song => ({
+  id,
+  title: `Song ${id}`,
+  artist: 'Artist',
+  duration: 200,
+  filePath: `https://example.com/${id}.flac`,
+  uploadedBy: 'user-1',
+  createdAt: new Date(NOW),
+  ...changes
+});
+
+const offline = (id: string, fileSize: number, syncRuleId?: string): OfflineTrack => ({
+  ...AudioEngine.trackFromSong(song(id)),
+  downloadStatus: 'downloaded',
+  downloadProgress: 100,
+  fileSize,
+  localPath: `offline/${id}`,
+  quality: 'medium',
+  ...(syncRuleId ? { syncRuleId } : {})
+});
+
+const rule = (id: string, priority: number, source: OfflineRule['source']): OfflineRule => ({
+  id, name: id, priority, enabled: true, source
+});
+
+const library: OfflineLibrary = {
+  songs: [
+    song('a', { liked: true, playCount: 3 }),
+    song('b', { liked: true, playCount: 40 }),
+    song('c', { playCount: 25 }),
+    song('d', { playCount: 10 }),
+    song('e')
+  ],
+  playlists: [{
+    id: 'road-trip', name: 'Road trip', songs: [song('e'), song('c')],
+    userId: 'user-1', isPublic: false, createdAt: new Date(NOW)
+  }],
+  recentPlays: [
+    // Stored as addToRecentlyPlayed writes them: one entry per play
+    { id: `d-${NOW - 3 * DAY_MS}`, song: song('d'), playedAt: new Date(NOW - 3 * DAY_MS) },
+    { id: `d-${NOW - 2 * DAY_MS}`, song: song('d'), playedAt: new Date(NOW - 2 * DAY_MS) },
+    { id: `a-${NOW - 40 * DAY_MS}`, song: song('a'), playedAt: new Date(NOW - 40 * DAY_MS) },
+    { id: `e-${NOW - DAY_MS}`, song: song('e'), playedAt: new Date(NOW - DAY_MS) }
+  ]
+};
+
+const ids = (songs: Array<{ id: string }>) => songs.map(s => s.id);
+
+describe('OfflineSync', () => {
+  it('resolves each kind of rule in order of importance', () => {
+    expect(ids(OfflineSync.resolveRule(rule('liked', 1, { type: 'liked' }), library, NOW))).toEqual(['b', 'a']);
+    expect(ids(OfflineSync.resolveRule(rule('p', 1, { type: 'playlist', playlistId: 'road-trip' }), library, NOW))).toEqual(['e', 'c']);
+    expect(ids(OfflineSync.resolveRule(rule('top', 1, { type: 'mostPlayed', limit: 2 }), library, NOW))).toEqual(['b', 'c']);
+    expect(ids(OfflineSync.resolveRule(rule('recent', 1, { type: 'recentlyPlayed', days: 30 }), library, NOW))).toEqual(['e', 'd']);
+  });
+
+  it('fills the budget by rule priority and evicts what no rule keeps', () => {
+    const rules = [
+      rule('recent', 2, { type: 'recentlyPlayed', days: 30 }),
+      rule('liked', 1, { type: 'liked' }),
+      { ...rule('top', 3, { type: 'mostPlayed', limit: 10 }), enabled: false }
+    ];
+    const downloaded = [offline('a', 4 * MB, 'liked'), offline('c', 5 * MB, 'top'), offline('x', 2 * MB)];
+
+    const plan = OfflineSync.plan(rules, library, downloaded, 13 * MB, () => 3 * MB, NOW);
+
+    // Manual download x is pinned; liked b and a come next, then recent e; d no longer fits
+    expect(plan.keep.map(item => [item.track.id, item.ruleId])).toEqual([['x', null], ['a', 'liked']]);
+    expect(plan.download.map(item => [item.track.id, item.ruleId])).toEqual([['b', 'liked'], ['e', 'recent']]);
+    expect(ids(plan.overBudget.map(item => item.track))).toEqual(['d']);
+    expect(ids(plan.evict)).toEqual(['c']);
+    expect(plan).toMatchObject({ usedAfterSync: 12 * MB, bytesToDownload: 6 * MB, bytesToFree: 5 * MB });
+  });
+
+  it('keeps a song claimed by several rules once, under the highest priority', () => {
+    const rules = [
+      rule('playlist', 1, { type: 'playlist', playlistId: 'road-trip' }),
+      rule('top', 2, { type: 'mostPlayed', limit: 3 })
+    ];
+
+    const plan = OfflineSync.plan(rules, library, [], 100 * MB, () => MB, NOW);
+
+    expect(plan.download.map(item => [item.track.id, item.ruleId])).toEqual([
+      ['e', 'playlist'], ['c', 'playlist'], ['b', 'top'], ['d', 'top']
+    ]);
+    expect(plan.download[0]!.track).toMatchObject({ url: 'https://example.com/e.flac', format: 'flac' });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { OfflineVault, VaultKey, VaultKeyStore } from '../../audio/OfflineVault';
+
+const createKeyStore = () => {
+  const saved: VaultKey[] = [];
+  const keyStore: VaultKeyStore = {
+    load: async () => saved[saved.length - 1] ?? null,
+    save: async key => {
+      saved.push(key);
+    }
+  };
+  return { keyStore, saved };
+};
+
+const createAudio = (size: number) => Uint8Array.from({ length: size }, (_, i) => (i * 13) % 256);
+
+describe('OfflineVault', () => {
+  it('seals audio in encrypted records under a non-extractable device key', async () => {
+    const { keyStore, saved } = createKeyStore();
+    const vault = new OfflineVault(keyStore, 1024);
+    const audio = createAudio(2500);
+
+    const sealed = await vault.seal('song', audio);
+
+    expect(sealed.records).toHaveLength(3);
+    expect(sealed.byteLength).toBe(2500);
+    // 12-byte IV and 16-byte tag around each record
+    expect(sealed.records.map(record => record.byteLength)).toEqual([1052, 1052, 480]);
+    expect(new Uint8Array(sealed.records[0]!).subarray(12, 1036)).not.toEqual(audio.subarray(0, 1024));
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0]!.key.extractable).toBe(false);
+    await expect(crypto.subtle.exportKey('raw', saved[0]!.key)).rejects.toThrow();
+  });
+
+  it('decrypts the records as a stream, one record per chunk', async () => {
+    const vault = new OfflineVault(createKeyStore().keyStore, 1024);
+    const audio = createAudio(2500);
+    const sealed = await vault.seal('song', audio);
+
+    const reader = vault.open('song', sealed).getReader();
+    const first = await reader.read();
+    expect(first.value).toEqual(audio.subarray(0, 1024));
+    reader.releaseLock();
+
+    expect(await vault.openAll('song', await vault.seal('song', audio))).toEqual(audio);
+  });
+
+  it('rejects tampered, reordered, truncated or misattributed records', async () => {
+    const vault = new OfflineVault(createKeyStore().keyStore, 1024);
+    const sealed = await vault.seal('song', createAudio(2500));
+
+    const tampered = new Uint8Array(sealed.records[1]!.slice(0));
+    tampered[40] = tampered[40]! ^ 1;
+    const [first, second, third] = sealed.records;
+
+    await expect(vault.openAll('song', { ...sealed, records: [first!, tampered.buffer, third!] })).rejects.toThrow();
+    await expect(vault.openAll('song', { ...sealed, records: [second!, first!, third!] })).rejects.toThrow();
+    await expect(vault.openAll('song', { ...sealed, records: [first!, second!] })).rejects.toThrow();
+    await expect(vault.openAll('other-song', sealed)).rejects.toThrow();
+  });
+
+  it('cannot open data sealed before the key was rotated', async () => {
+    const { keyStore, saved } = createKeyStore();
+    const vault = new OfflineVault(keyStore);
+    const sealed = await vault.seal('song', createAudio(100));
+
+    await vault.rotateKey();
+
+    expect(saved).toHaveLength(2);
+    await expect(vault.openAll('song', sealed)).rejects.toThrow('no longer has');
+    // A fresh vault on the same device picks up the rotated key
+    expect((await new OfflineVault(keyStore).seal('song', createAudio(1))).keyId).toBe(saved[1]!.id);
+  });
+
+  it('keeps the stored key when saving a rotated key fails', async () => {
+    const { keyStore, saved } = createKeyStore();
+    const vault = new OfflineVault(keyStore);
+    const sealed = await vault.seal('song', createAudio(100));
+
+    const save = keyStore.save;
+    keyStore.save = async () => {
+      throw new Error('Quota exceeded');
+    };
+    await expect(vault.rotateKey()).rejects.toThrow('Quota exceeded');
+    keyStore.save = save;
+
+    expect(saved).toHaveLength(1);
+    expect(await vault.openAll('song', sealed)).toEqual(createAudio(100));
+  });
+
+  it('gzips metadata blobs', async () => {
+    const text = JSON.stringify({ lyrics: 'meow '.repeat(500) });
+    const json = new TextEncoder().encode(text);
+
+    const compressed = await OfflineVault.compress(json);
+
+    expect(compressed.length).toBeLessThan(json.length / 10);
+    expect(new TextDecoder().decode(await OfflineVault.decompress(compressed))).toBe(text);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { ParametricEqualizer, EqualizerPreset } from '../../audio/ParametricEqualizer';
+
+const AUTOEQ_PRESET = `Preamp: -6.4 dB
+Filter 1: ON LSC Fc 105 Hz Gain 6.1 dB Q 0.70
+Filter 2: ON PK Fc 3512 Hz Gain -4.2 dB Q 2.31
+Filter 3: OFF PK Fc 7000 Hz Gain 2 dB Q 4
+Filter 4: ON HSC Fc 10000 Hz Gain -1.9 dB Q 0.70
+`;
+
+describe('ParametricEqualizer', () => {
+  it('parses AutoEQ ParametricEQ.txt presets', () => {
+    const preset = ParametricEqualizer.parseText(AUTOEQ_PRESET, 'Headphones');
+
+    expect(preset.name).toBe('Headphones');
+    expect(preset.preamp).toBe(-6.4);
+    expect(preset.bands).toHaveLength(4);
+    expect(preset.bands[0]).toEqual({ type: 'lowshelf', frequency: 105, gain: 6.1, q: 0.7, enabled: true });
+    expect(preset.bands[1]).toEqual({ type: 'peaking', frequency: 3512, gain: -4.2, q: 2.31, enabled: true });
+    expect(preset.bands[2]?.enabled).toBe(false);
+    expect(preset.bands[3]?.type).toBe('highshelf');
+  });
+
+  it('accepts Equalizer APO pass filters, bandwidth and comments', () => {
+    const preset = ParametricEqualizer.parseText([
+      '# Equalizer APO config',
+      'Preamp: -3 dB',
+      'Preamp: -1.5 dB',
+      'Filter: ON HP Fc 25 Hz',
+      'Filter: ON NO Fc 60 Hz Q 30',
+      'Filter: ON PK Fc 1000 Hz Gain 3 dB BW Oct 1'
+    ].join('\r\n'));
+
+    expect(preset.preamp).toBe(-4.5);
+    expect(preset.bands.map(band => band.type)).toEqual(['highpass', 'notch', 'peaking']);
+    expect(preset.bands[0]?.q).toBeCloseTo(Math.SQRT1_2);
+    expect(preset.bands[2]?.q).toBeCloseTo(1.414, 3);
+  });
+
+  it('rejects filter types it cannot reproduce', () => {
+    expect(() => ParametricEqualizer.parseText('Filter 1: ON BP Fc 1000 Hz')).toThrow(/Unsupported filter type "BP" on line 1/);
+  });
+
+  it('round-trips presets through text and JSON', () => {
+    const preset = ParametricEqualizer.parseText(AUTOEQ_PRESET, 'Headphones');
+
+    expect(ParametricEqualizer.parseText(ParametricEqualizer.toText(preset), 'Headphones')).toEqual(preset);
+    expect(ParametricEqualizer.parse(ParametricEqualizer.toJSON(preset))).toEqual(preset);
+  });
+
+  it('writes gain only for filters that use it', () => {
+    const preset: EqualizerPreset = {
+      name: 'Test',
+      preamp: -2,
+      bands: [{ type: 'lowpass', frequency: 18000, gain: 5, q: 0.71, enabled: true }]
+    };
+
+    expect(ParametricEqualizer.toText(preset)).toBe('Preamp: -2 dB\nFilter 1: ON LPQ Fc 18000 Hz Q 0.71\n');
+  });
+
+  it('validates JSON presets', () => {
+    expect(() => ParametricEqualizer.parseJSON('{"bands": [{"type": "comb", "frequency": 100}]}')).toThrow(/unknown type/);
+    expect(() => ParametricEqualizer.parseJSON('not json')).toThrow(/not valid JSON/);
+  });
+});
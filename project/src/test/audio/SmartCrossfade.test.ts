@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { SmartCrossfade, TrackEdges } from '../../audio/SmartCrossfade';
+import { AudioEngine, AudioTrack } from '../../audio/AudioEngine';
+import { Song } from '../../types';
+
+const SAMPLE_RATE = 8000;
+
+// Short decaying 1 kHz bursts on every beat between start and end (seconds)
+function createClickTrack(bpm: number, start: number, end: number, duration: number): Float32Array {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  const period = 60 / bpm;
+  const clickLength = Math.round(0.03 * SAMPLE_RATE);
+
+  for (let beat = start; beat < end; beat += period) {
+    const offset = Math.round(beat * SAMPLE_RATE);
+    for (let i = 0; i < clickLength && offset + i < samples.length; i++) {
+      samples[offset + i] = 0.5 * Math.sin(2 * Math.PI * 1000 * i / SAMPLE_RATE) * Math.exp(-i / (clickLength / 4));
+    }
+  }
+
+  return samples;
+}
+
+// Steady pseudo-random noise with an optional linear fade-out over the last seconds
+function createNoise(duration: number, fadeOut: number = 0): Float32Array {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  const fadeStart = samples.length - Math.round(fadeOut * SAMPLE_RATE);
+  let seed = 1;
+
+  for (let i = 0; i < samples.length; i++) {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    const gain = i >= fadeStart ? (samples.length - i) / (samples.length - fadeStart) : 1;
+    samples[i] = 0.3 * (seed / 2147483648 - 1) * gain;
+  }
+
+  return samples;
+}
+
+function createEdges(overrides: Partial<TrackEdges> = {}): TrackEdges {
+  return {
+    duration: 200,
+    audibleStart: 0,
+    audibleEnd: 200,
+    fadesIn: false,
+    fadesOut: false,
+    introBeats: null,
+    outroBeats: null,
+    ...overrides
+  };
+}
+
+function createTrack(overrides: Partial<AudioTrack>): AudioTrack {
+  return { id: 't', url: '', format: 'mp3', title: '', artist: '', duration: 200, ...overrides };
+}
+
+describe('SmartCrossfade', () => {
+  it('detects leading and trailing silence', () => {
+    const edges = SmartCrossfade.analyze([createClickTrack(120, 1, 38, 40)], SAMPLE_RATE);
+
+    expect(edges.audibleStart).toBeCloseTo(1, 1);
+    expect(edges.audibleEnd).toBeGreaterThan(37.5);
+    expect(edges.audibleEnd).toBeLessThan(37.6);
+  });
+
+  it('estimates tempo and beat phase of a click track', () => {
+    const edges = SmartCrossfade.analyze([createClickTrack(120, 1, 38, 40)], SAMPLE_RATE);
+
+    expect(edges.outroBeats?.bpm).toBeGreaterThan(118);
+    expect(edges.outroBeats?.bpm).toBeLessThan(122);
+
+    // Beats sit on whole half seconds
+    const phase = (edges.introBeats?.offset ?? 0.25) % 0.5;
+    expect(Math.min(phase, 0.5 - phase)).toBeLessThan(0.02);
+  });
+
+  it('finds no beat grid in steady noise', () => {
+    const edges = SmartCrossfade.analyze([createNoise(20)], SAMPLE_RATE);
+    expect(edges.outroBeats).toBeNull();
+  });
+
+  it('recognizes a faded outro', () => {
+    expect(SmartCrossfade.analyze([createNoise(30, 5)], SAMPLE_RATE).fadesOut).toBe(true);
+    expect(SmartCrossfade.analyze([createNoise(30)], SAMPLE_RATE).fadesOut).toBe(false);
+  });
+
+  it('aligns a beat-matched transition to whole beats before the trailing silence', () => {
+    const outgoing = createEdges({ audibleEnd: 195, outroBeats: { bpm: 120, offset: 0.1 } });
+    const incoming = createEdges({ audibleStart: 1.2, introBeats: { bpm: 121, offset: 0.05 } });
+
+    const plan = SmartCrossfade.planTransition(outgoing, incoming, 5.2);
+
+    expect(plan.curve).toBe('equal-power');
+    expect(plan.duration).toBeCloseTo(5, 5);
+    expect(plan.startAt).toBeCloseTo(190.1, 5);
+    // Incoming starts on its last beat before the audio, not inside the intro
+    expect(plan.incomingOffset).toBeLessThanOrEqual(1.22);
+    expect(plan.incomingOffset).toBeGreaterThan(1.2 - 60 / 121);
+  });
+
+  it('treats half and double time as matching tempos', () => {
+    expect(SmartCrossfade.temposMatch(120, 60)).toBe(true);
+    expect(SmartCrossfade.temposMatch(87, 174)).toBe(true);
+    expect(SmartCrossfade.temposMatch(120, 97)).toBe(false);
+  });
+
+  it('cuts between clashing tempos at the end of the audible outro', () => {
+    const outgoing = createEdges({ audibleEnd: 195, outroBeats: { bpm: 120, offset: 0 } });
+    const incoming = createEdges({ audibleStart: 0.8, introBeats: { bpm: 97, offset: 0 } });
+
+    expect(SmartCrossfade.planTransition(outgoing, incoming, 6)).toEqual({
+      startAt: 195,
+      duration: 0,
+      incomingOffset: 0.8,
+      curve: 'cut'
+    });
+  });
+
+  it('uses a logarithmic curve over a natural fade-out', () => {
+    const plan = SmartCrossfade.planTransition(createEdges({ fadesOut: true }), createEdges(), 4);
+
+    expect(plan.curve).toBe('logarithmic');
+    expect(plan.startAt).toBe(196);
+    expect(plan.duration).toBe(4);
+  });
+
+  it('cuts when a track is too short to overlap', () => {
+    const plan = SmartCrossfade.planTransition(createEdges(), createEdges({ audibleEnd: 0.6 }), 4);
+    expect(plan.curve).toBe('cut');
+  });
+
+  it('detects consecutive tracks of an album', () => {
+    const first = createTrack({ album: 'Nine Lives', trackNumber: 3 });
+
+    expect(SmartCrossfade.isAlbumSequence(first, createTrack({ album: 'Nine Lives', trackNumber: 4 }))).toBe(true);
+    expect(SmartCrossfade.isAlbumSequence(first, createTrack({ album: 'Nine Lives', trackNumber: 7 }))).toBe(false);
+    expect(SmartCrossfade.isAlbumSequence(first, createTrack({ album: 'Other', trackNumber: 4 }))).toBe(false);
+    expect(SmartCrossfade.isAlbumSequence(first, createTrack({ trackNumber: 4 }))).toBe(false);
+  });
+
+  it('detects album sequences in tracks built from library songs', () => {
+    const song = (id: string, trackNumber: number): Song => ({
+      id,
+      title: `Track ${trackNumber}`,
+      artist: 'Artist',
+      album: 'Nine Lives',
+      trackNumber,
+      duration: 200,
+      filePath: `/songs/${id}.flac`,
+      uploadedBy: 'user-1',
+      createdAt: new Date(0)
+    });
+
+    const [first, second] = [song('a', 1), song('b', 2)].map(AudioEngine.trackFromSong);
+
+    expect(second).toMatchObject({ format: 'flac', album: 'Nine Lives', trackNumber: 2 });
+    expect(SmartCrossfade.isAlbumSequence(first ?? null, second ?? null)).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StreamingManager } from '../../audio/StreamingManager';
+
+describe('StreamingManager adaptive quality', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('logs ABR decisions made from measured range downloads', async () => {
+    const manager = new StreamingManager();
+    expect(manager.getCurrentQuality()?.label).toBe('High');
+
+    // 64 KB arriving over 2.5 s measures about 210 kbps
+    let clock = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => (clock += 2500));
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(new Uint8Array(64 * 1024)));
+
+    await manager.downloadRange('https://example.com/song.mp3', 0, 64 * 1024 - 1);
+
+    expect(manager.getCurrentQuality()?.label).toBe('Low');
+    const [entry] = manager.getQualityHistory();
+    expect(entry).toMatchObject({ quality: 'Low', reason: 'buffer_low', bufferLevel: 0 });
+    expect(entry?.throughput).toBeCloseTo(209.7, 0);
+
+    manager.dispose();
+  });
+
+  it('adds quality parameters to network URLs only', () => {
+    const manager = new StreamingManager();
+
+    expect(manager.createStreamingUrl('https://example.com/song.mp3'))
+      .toBe('https://example.com/song.mp3?bitrate=320&format=mp3&quality=high');
+    expect(manager.createStreamingUrl('blob:http://localhost/1234')).toBe('blob:http://localhost/1234');
+    expect(manager.createStreamingUrl('data:audio/mpeg;base64,AAAA')).toBe('data:audio/mpeg;base64,AAAA');
+
+    manager.dispose();
+  });
+});
+
+describe('StreamingManager track prefetching', () => {
+  const originalMediaSource = globalThis.MediaSource;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    globalThis.MediaSource = originalMediaSource;
+  });
+
+  const mockFetch = () => vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const url = String(input);
+    if (url.endsWith('.m3u8')) {
+      return new Response([
+        '#EXTM3U', '#EXT-X-TARGETDURATION:4',
+        '#EXTINF:4.0,', 'seg0.aac', '#EXTINF:4.0,', 'seg1.aac', '#EXTINF:4.0,', 'seg2.aac',
+        '#EXT-X-ENDLIST'
+      ].join('\n'));
+    }
+    if (init?.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    return new Response(new Uint8Array(32 * 1024));
+  });
+
+  it('fetches the opening seconds of a progressive track as a range', async () => {
+    const fetchMock = mockFetch();
+    const manager = new StreamingManager({ preferredQuality: 'Low' });
+
+    await manager.prefetchTrack('https://example.com/next.mp3', 10);
+
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('https://example.com/next.mp3');
+    expect(init?.headers).toEqual({ 'Range': `bytes=0-${10 * 128 * 1000 / 8 - 1}` });
+    expect(manager.getPrefetchedUrls()).toEqual(['https://example.com/next.mp3']);
+
+    manager.dispose();
+  });
+
+  it('fetches the manifest and opening segments of an HLS track', async () => {
+    globalThis.MediaSource = { isTypeSupported: () => true } as unknown as typeof MediaSource;
+    const fetchMock = mockFetch();
+    const manager = new StreamingManager();
+
+    await manager.prefetchTrack('https://example.com/next/playlist.m3u8', 6);
+
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+      'https://example.com/next/playlist.m3u8',
+      'https://example.com/next/seg0.aac',
+      'https://example.com/next/seg1.aac'
+    ]);
+
+    manager.dispose();
+  });
+
+  it('cancels prefetches for tracks that are no longer coming up', () => {
+    const fetchMock = mockFetch();
+    const manager = new StreamingManager();
+
+    void manager.prefetchTrack('https://example.com/a.mp3', 10);
+    void manager.prefetchTrack('https://example.com/b.mp3', 10);
+    manager.cancelPrefetches(['https://example.com/b.mp3']);
+
+    expect(manager.getPrefetchedUrls()).toEqual(['https://example.com/b.mp3']);
+    const signals = fetchMock.mock.calls.map(([, init]) => init?.signal);
+    expect(signals.map(signal => signal?.aborted)).toEqual([true, false]);
+
+    manager.dispose();
+  });
+});
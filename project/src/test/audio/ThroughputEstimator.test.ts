@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { ThroughputEstimator } from '../../audio/ThroughputEstimator';
+
+// Bytes that take `ms` to arrive at `kbps`
+const bytesAt = (kbps: number, ms: number) => (kbps * ms) / 8;
+
+describe('ThroughputEstimator', () => {
+  it('measures from download timings and ignores tiny downloads', () => {
+    const estimator = new ThroughputEstimator();
+    expect(estimator.getEstimate()).toBeNull();
+
+    expect(estimator.addSample(1024, 50)).toBe(false);
+    expect(estimator.getEstimate()).toBeNull();
+
+    expect(estimator.addSample(bytesAt(800, 1000), 1000)).toBe(true);
+    expect(estimator.getEstimate()).toBeCloseTo(800);
+  });
+
+  it('rejects a lone outlier but follows a sustained change', () => {
+    const estimator = new ThroughputEstimator();
+    for (let i = 0; i < 6; i++) {
+      estimator.addSample(bytesAt(1000 + (i % 2) * 100, 1000), 1000);
+    }
+    const before = estimator.getEstimate()!;
+
+    expect(estimator.addSample(bytesAt(20000, 500), 500)).toBe(false);
+    expect(estimator.getEstimate()).toBe(before);
+
+    estimator.addSample(bytesAt(100, 2000), 2000);
+    estimator.addSample(bytesAt(100, 2000), 2000);
+    expect(estimator.getEstimate()).toBe(before);
+
+    expect(estimator.addSample(bytesAt(100, 2000), 2000)).toBe(true);
+    expect(estimator.getEstimate()).toBeCloseTo(100);
+    expect(estimator.getSampleCount()).toBe(3);
+  });
+
+  it('reacts to a slowdown faster than to a speed-up', () => {
+    const estimator = new ThroughputEstimator({ outlierThreshold: Infinity });
+    for (let i = 0; i < 5; i++) estimator.addSample(bytesAt(1000, 1000), 1000);
+
+    estimator.addSample(bytesAt(500, 2000), 2000);
+    const afterDrop = estimator.getEstimate()!;
+
+    estimator.reset();
+    for (let i = 0; i < 5; i++) estimator.addSample(bytesAt(500, 1000), 1000);
+    estimator.addSample(bytesAt(1000, 1000), 1000);
+    const afterRise = estimator.getEstimate()!;
+
+    expect(1000 - afterDrop).toBeGreaterThan(afterRise - 500);
+  });
+});
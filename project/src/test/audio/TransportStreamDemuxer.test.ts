@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { TransportStreamDemuxer } from '../../audio/TransportStreamDemuxer';
+
+const PMT_PID = 0x1000;
+const AUDIO_PID = 0x101;
+
+// One 188-byte packet; short payloads are padded with adaptation field stuffing
+function packet(pid: number, payload: number[], payloadStart: boolean): number[] {
+  const header = [0x47, (payloadStart ? 0x40 : 0) | (pid >> 8), pid & 0xff];
+  const room = 184 - payload.length;
+  if (room === 0) return [...header, 0x10, ...payload];
+
+  const adaptation = room === 1 ? [0] : [room - 1, 0x00, ...new Array<number>(room - 2).fill(0xff)];
+  return [...header, 0x30, ...adaptation, ...payload];
+}
+
+function section(tableId: number, body: number[]): number[] {
+  const length = body.length + 5 + 4; // header remainder + CRC
+  return [0, tableId, 0xb0 | (length >> 8), length & 0xff, 0, 1, 0xc1, 0, 0, ...body, 0, 0, 0, 0];
+}
+
+function transportStream(streamType: number, frames: number[]): Uint8Array {
+  const pat = section(0x00, [0, 1, 0xe0 | (PMT_PID >> 8), PMT_PID & 0xff]);
+  const pmt = section(0x02, [0xe0 | (AUDIO_PID >> 8), AUDIO_PID & 0xff, 0xf0, 0,
+    streamType, 0xe0 | (AUDIO_PID >> 8), AUDIO_PID & 0xff, 0xf0, 0]);
+  const pes = [0, 0, 1, 0xc0, 0, 0, 0x80, 0x80, 5, 0x21, 0, 1, 0, 1, ...frames];
+
+  const packets = [packet(0, pat, true), packet(PMT_PID, pmt, true)];
+  for (let offset = 0; offset < pes.length; offset += 184) {
+    packets.push(packet(AUDIO_PID, pes.slice(offset, offset + 184), offset === 0));
+  }
+  return new Uint8Array(packets.flat());
+}
+
+describe('TransportStreamDemuxer', () => {
+  it('reassembles the ADTS payload of the audio PES across packets', () => {
+    const frames = Array.from({ length: 300 }, (_, i) => (i === 0 ? 0xff : i === 1 ? 0xf1 : i % 251));
+    const bytes = transportStream(0x0f, frames);
+
+    expect(bytes.length % 188).toBe(0);
+
+    const audio = TransportStreamDemuxer.extractAudio(bytes);
+    expect(audio.codec).toBe('aac');
+    expect(Array.from(audio.data)).toEqual(frames);
+  });
+
+  it('identifies MPEG audio and rejects streams without audio', () => {
+    expect(TransportStreamDemuxer.extractAudio(transportStream(0x03, [0xff, 0xfb, 1, 2])).codec).toBe('mp3');
+    expect(() => TransportStreamDemuxer.extractAudio(transportStream(0x1b, [0, 0, 0, 1]))).toThrow(/No AAC or MP3/);
+  });
+
+  it('strips leading ID3 tags from packed audio', () => {
+    const tagged = new Uint8Array([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 3, 1, 2, 3, 0xff, 0xf1]);
+    expect(Array.from(TransportStreamDemuxer.stripId3(tagged))).toEqual([0xff, 0xf1]);
+
+    const untagged = new Uint8Array([0xff, 0xf1, 0x50]);
+    expect(TransportStreamDemuxer.stripId3(untagged)).toBe(untagged);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { WaveformPeaks, AudiowaveformJson } from '../../audio/WaveformPeaks';
+
+const SAMPLE_RATE = 22050;
+
+// Full-scale first half, quarter-scale second half
+function halves(seconds = 4): Float32Array {
+  const samples = new Float32Array(SAMPLE_RATE * seconds);
+  for (let i = 0; i < samples.length; i++) {
+    const amplitude = i < samples.length / 2 ? 1 : 0.25;
+    samples[i] = amplitude * Math.sin(2 * Math.PI * 220 * i / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+describe('WaveformPeaks', () => {
+  it('generates min/max pairs at every zoom level', () => {
+    const samples = halves();
+    const waveform = WaveformPeaks.generate([samples, samples], SAMPLE_RATE, [4096, 256, 1024]);
+
+    expect(waveform.duration).toBeCloseTo(4, 5);
+    expect(waveform.levels.map(level => level.samplesPerPixel)).toEqual([256, 1024, 4096]);
+    waveform.levels.forEach(level => {
+      expect(level.data.length).toBe(Math.ceil(samples.length / level.samplesPerPixel) * 2);
+    });
+
+    const finest = waveform.levels[0]!.data;
+    expect(finest[0]).toBeLessThanOrEqual(-126);
+    expect(finest[1]).toBe(127);
+    expect(finest[finest.length - 1]).toBeGreaterThan(28);
+    expect(finest[finest.length - 1]).toBeLessThan(36);
+  });
+
+  it('round-trips through audiowaveform JSON and derives coarser levels', () => {
+    const waveform = WaveformPeaks.generate([halves()], SAMPLE_RATE);
+    const json = WaveformPeaks.toJson(waveform);
+
+    expect(json).toMatchObject({ version: 2, channels: 1, sample_rate: SAMPLE_RATE, samples_per_pixel: 256, bits: 8 });
+    expect(json.data.length).toBe(json.length * 2);
+
+    const imported = WaveformPeaks.fromJson(JSON.parse(JSON.stringify(json)) as AudiowaveformJson);
+    expect(imported.levels.map(level => level.samplesPerPixel)).toEqual([256, 1024, 4096]);
+    expect(Array.from(imported.levels[2]!.data)).toEqual(Array.from(waveform.levels[2]!.data));
+  });
+
+  it('reads 16-bit multi-channel files as one widest channel', () => {
+    const json: AudiowaveformJson = {
+      version: 2,
+      channels: 2,
+      sample_rate: 44100,
+      samples_per_pixel: 512,
+      bits: 16,
+      length: 2,
+      data: [-1000, 2000, -8000, 500, -256, 256, -512, 32767]
+    };
+
+    const waveform = WaveformPeaks.fromJson(json, []);
+
+    expect(Array.from(waveform.levels[0]!.data)).toEqual([-32, 7, -2, 127]);
+    expect(waveform.duration).toBeCloseTo(1024 / 44100, 6);
+  });
+
+  it('resamples to display bars normalized to the loudest peak', () => {
+    const waveform = WaveformPeaks.generate([halves()], SAMPLE_RATE);
+    const { min, max } = WaveformPeaks.resample(waveform, 50);
+
+    expect(WaveformPeaks.selectLevel(waveform, 50)?.samplesPerPixel).toBe(1024);
+    expect(max[0]).toBeGreaterThan(0.98);
+    expect(min[0]).toBeLessThan(-0.98);
+    expect(max[49]).toBeGreaterThan(0.2);
+    expect(max[49]).toBeLessThan(0.3);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { WsolaPitchShifter } from '../../audio/worklets/WsolaPitchShifter';
+import { getPitchRatio } from '../../audio/PitchShifter';
+
+const SAMPLE_RATE = 48000;
+const BLOCK = 128;
+
+function render(shifter: WsolaPitchShifter, input: Float32Array, ratio: number): Float32Array {
+  const output = new Float32Array(input.length);
+  for (let offset = 0; offset + BLOCK <= input.length; offset += BLOCK) {
+    const block = new Float32Array(BLOCK);
+    shifter.process([input.subarray(offset, offset + BLOCK)], [block], ratio);
+    output.set(block, offset);
+  }
+  return output;
+}
+
+function sine(frequency: number, length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE));
+}
+
+function zeroCrossings(data: Float32Array): number {
+  let count = 0;
+  for (let i = 1; i < data.length; i++) {
+    if ((data[i - 1]! < 0) !== (data[i]! < 0)) count++;
+  }
+  return count;
+}
+
+describe('WsolaPitchShifter', () => {
+  it('passes audio through unchanged, delayed by its latency, at ratio 1', () => {
+    const shifter = new WsolaPitchShifter(1);
+    const input = sine(440, BLOCK * 200);
+    const output = render(shifter, input, 1);
+    const latency = shifter.getLatency(1);
+
+    for (let i = 8192; i < input.length; i += 97) {
+      expect(output[i]).toBeCloseTo(input[i - latency]!, 4);
+    }
+  });
+
+  it.each([0.5, 2])('shifts frequency by a ratio of %s without changing duration', ratio => {
+    const shifter = new WsolaPitchShifter(1);
+    const input = sine(400, BLOCK * 400);
+    const output = render(shifter, input, ratio);
+
+    // Skip the start-up region
+    const settled = output.subarray(16384);
+    const expected = zeroCrossings(input.subarray(16384)) * ratio;
+    expect(zeroCrossings(settled)).toBeGreaterThan(expected * 0.95);
+    expect(zeroCrossings(settled)).toBeLessThan(expected * 1.05);
+  });
+
+  it('up-mixes a mono input to every output channel', () => {
+    const shifter = new WsolaPitchShifter(2);
+    const left = new Float32Array(BLOCK);
+    const right = new Float32Array(BLOCK);
+    const input = sine(440, BLOCK * 40);
+
+    for (let offset = 0; offset < input.length; offset += BLOCK) {
+      shifter.process([input.subarray(offset, offset + BLOCK)], [left, right], 1.5);
+    }
+
+    expect(left.some(value => value !== 0)).toBe(true);
+    expect(right).toEqual(left);
+  });
+});
+
+describe('getPitchRatio', () => {
+  it('compensates tempo when preserving pitch', () => {
+    expect(getPitchRatio(2, 0)).toBe(0.5);
+    expect(getPitchRatio(0.5, 12)).toBe(4);
+    expect(getPitchRatio(1.5, 0, false)).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { render, screen, act, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import OutboxConflicts from '../../components/OutboxConflicts';
+import { OfflineOutbox, OutboxEntry } from '../../services/OfflineOutbox';
+import { errorService } from '../../services/ErrorService';
+
+const conflicted: OutboxEntry = {
+  id: 'reorder-1',
+  key: 'playlistReorder:p1',
+  scope: 'playlist:p1',
+  userId: 'me',
+  action: { type: 'playlistReorder', playlistId: 'p1', songIds: ['s2', 's1'], baseVersion: '2024-01-01T00:00:00.000Z' },
+  status: 'conflict',
+  attempts: 1,
+  nextAttemptAt: 0,
+  leaseUntil: 0,
+  createdAt: 1,
+  conflict: { status: 412, reason: 'The item changed on the server' }
+};
+
+describe('OutboxConflicts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lists conflicted actions and retries or dismisses them', async () => {
+    let conflicts = [conflicted];
+    vi.spyOn(OfflineOutbox.prototype, 'getConflicts').mockImplementation(async () => conflicts);
+    const retry = vi.spyOn(OfflineOutbox.prototype, 'retry').mockImplementation(async () => {});
+    const dismiss = vi.spyOn(OfflineOutbox.prototype, 'dismiss').mockImplementation(async () => {
+      conflicts = [];
+    });
+    const user = userEvent.setup();
+
+    render(<OutboxConflicts />);
+    await user.click(await screen.findByText('1 not synced'));
+
+    expect(screen.getByText('Reorder a playlist')).toBeInTheDocument();
+    expect(screen.getByText('The item changed on the server')).toBeInTheDocument();
+
+    await user.click(screen.getByLabelText('Retry Reorder a playlist'));
+    expect(retry).toHaveBeenCalledWith('reorder-1');
+
+    await user.click(screen.getByLabelText('Dismiss Reorder a playlist'));
+    expect(dismiss).toHaveBeenCalledWith('reorder-1');
+    await waitFor(() => expect(screen.queryByText('1 not synced')).not.toBeInTheDocument());
+  });
+
+  it('notifies the user when a replayed action conflicts', async () => {
+    vi.spyOn(OfflineOutbox.prototype, 'getConflicts').mockResolvedValue([]);
+    const notify = vi.spyOn(errorService, 'notifyUser').mockReturnValue('toast-1');
+
+    render(<OutboxConflicts />);
+    act(() => {
+      OfflineOutbox.getInstance().dispatchEvent(new CustomEvent('actionConflict', { detail: { entry: conflicted } }));
+    });
+
+    expect(notify).toHaveBeenCalledWith(
+      'Reorder a playlist could not be synced: The item changed on the server',
+      expect.objectContaining({ type: 'warning' })
+    );
+  });
+});
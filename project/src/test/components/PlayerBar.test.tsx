@@ -1,9 +1,10 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import PlayerBar from '../../components/PlayerBar';
 import { Song } from '../../types';
 import { MockMusicProvider } from '../utils/mockMusicContext';
+import { BOOKMARKS_CHANGE_EVENT } from '../../utils/indexedDB';
 
 const mockSong: Song = {
   id: '1',
@@ -148,4 +149,47 @@ describe('PlayerBar', () => {
     const likeButton = screen.getByLabelText(/like song/i);
     expect(likeButton).toHaveClass('text-gray-400');
   });
-});
\ No newline at end of file
+  it('shows bookmarks as seek bar markers that seek when clicked', async () => {
+    render(
+      <MockMusicProvider mockValues={{ ...mockFns, currentSong: mockSong, duration: 180 }}>
+        <PlayerBar />
+      </MockMusicProvider>
+    );
+
+    act(() => {
+      window.dispatchEvent(new CustomEvent(BOOKMARKS_CHANGE_EVENT, {
+        detail: {
+          songId: mockSong.id,
+          bookmarks: [{ id: 'b1', songId: mockSong.id, userId: null, name: 'Chorus', time: 45, createdAt: 0 }]
+        }
+      }));
+    });
+
+    const marker = screen.getByLabelText('Jump to bookmark Chorus');
+    expect(marker).toHaveStyle({ left: '25%' });
+
+    const user = userEvent.setup();
+    await user.click(marker);
+
+    expect(mockFns.seek).toHaveBeenCalledWith(45);
+  });
+
+  it('seeks with the keyboard on the waveform seek bar', async () => {
+    render(
+      <MockMusicProvider mockValues={{ ...mockFns, currentSong: mockSong, currentTime: 60, duration: 180 }}>
+        <PlayerBar />
+      </MockMusicProvider>
+    );
+
+    const seekBar = screen.getByRole('slider', { name: 'Seek' });
+    expect(seekBar).toHaveAttribute('aria-valuetext', '1:00 of 3:00');
+
+    const user = userEvent.setup();
+    seekBar.focus();
+    await user.keyboard('{ArrowRight}');
+    expect(mockFns.seek).toHaveBeenCalledWith(65);
+
+    await user.keyboard('{End}');
+    expect(mockFns.seek).toHaveBeenCalledWith(180);
+  });
+});
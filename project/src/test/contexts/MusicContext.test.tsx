@@ -1,9 +1,124 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, act, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { MusicProvider, useMusic } from '../../contexts/MusicContext';
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { MusicProvider, useMusic, MusicContextType } from '../../contexts/MusicContext';
 import { Song } from '../../types';
 import { ApiService } from '../../services/api';
+import { sleepTimer } from '../../managers/SleepTimer';
+import { playbackPreferences, DEFAULT_PLAYBACK_PREFERENCES } from '../../managers/PlaybackPreferences';
+import { AudioEngine, AudioTrack, LoopRegion } from '../../audio/AudioEngine';
+import { StreamingManager } from '../../audio/StreamingManager';
+import { OfflineManager } from '../../audio/OfflineManager';
+import { OfflineOutbox } from '../../services/OfflineOutbox';
+import { PlaybackSessionService } from '../../services/PlaybackSession';
+import AudioEffectsPanel from '../../components/AudioEffectsPanel';
+import TempoControls from '../../components/TempoControls';
+import PracticeControls from '../../components/PracticeControls';
+import TrackExportPanel from '../../components/TrackExportPanel';
+import StreamQualityIndicator from '../../components/StreamQualityIndicator';
+
+type FakeAudioEngine = EventTarget & Record<
+  'loadTrack' | 'play' | 'pause' | 'seek' | 'fadeOut' | 'cancelFadeOut' | 'setGaplessEnabled' | 'preloadNextTrack' |
+  'setLoudnessSettings' | 'setCrossfadeSettings' | 'loadEqualizerPreset' | 'setEqualizerBand' | 'setEqualizerPreamp' |
+  'setEqualizerEnabled' | 'setEffectEnabled' | 'setEffectParameter' | 'setPlaybackRate' | 'setPitchShift' |
+  'setLoopRegion' | 'playCountIn' | 'renderOffline' | 'setMediaAttacher',
+  Mock
+>;
+
+type MediaAttacher = (media: HTMLMediaElement, track: AudioTrack) => Promise<boolean>;
+
+const { engines } = vi.hoisted(() => ({ engines: [] as EventTarget[] }));
+const latestEngine = () => engines[engines.length - 1] as FakeAudioEngine;
+
+// jsdom has no Web Audio; the player drives this engine instead
+vi.mock('../../audio/AudioEngine', async importOriginal => {
+  const actual = await importOriginal<typeof import('../../audio/AudioEngine')>();
+  const { createDefaultEffects } = await import('../../audio/AudioEffects');
+
+  class FakeAudioEngine extends EventTarget {
+    static trackFromSong = actual.AudioEngine.trackFromSong;
+
+    constructor() {
+      super();
+      engines.push(this);
+    }
+
+    loadTrack = vi.fn(async (track: AudioTrack) => {
+      this.dispatchEvent(new CustomEvent('metadataLoaded', { detail: { duration: track.duration, track } }));
+    });
+    play = vi.fn(async () => this.setPlaying(true));
+    pause = vi.fn(() => this.setPlaying(false));
+    timeStretch = { playbackRate: 1, pitchSemitones: 0, preservePitch: true };
+    getState = vi.fn(() => ({ ...this.timeStretch }));
+    getVisualizationData = vi.fn(() => null);
+    seek = vi.fn();
+    stop = vi.fn();
+    setVolume = vi.fn();
+    fadeOut = vi.fn();
+    cancelFadeOut = vi.fn();
+    setGaplessEnabled = vi.fn();
+    setCrossfadeSettings = vi.fn();
+    setupCrossfade = vi.fn();
+    setLoudnessSettings = vi.fn();
+    setEffects = vi.fn();
+    setMediaAttacher = vi.fn();
+    preloadNextTrack = vi.fn(async () => {});
+    cancelPreloadedTrack = vi.fn();
+    setLoopRegion = vi.fn((region: LoopRegion | null) => {
+      this.dispatchEvent(new CustomEvent('loopChange', { detail: { region } }));
+    });
+    playCountIn = vi.fn(async () => {});
+    renderOffline = vi.fn(async (options: { onProgress?: (progress: number) => void }) => {
+      options.onProgress?.(1);
+      return { numberOfChannels: 1, sampleRate: 8000, getChannelData: () => new Float32Array(8) } as unknown as AudioBuffer;
+    });
+    loadEqualizerPreset = vi.fn();
+    setEqualizerBand = vi.fn();
+    setEqualizerPreamp = vi.fn();
+    setEqualizerEnabled = vi.fn();
+    effects = createDefaultEffects();
+    getEffects = vi.fn(() => this.effects);
+    setEffectEnabled = vi.fn((id: string, enabled: boolean) => {
+      this.effects = this.effects.map(effect => (effect.id === id ? { ...effect, enabled } : effect));
+      this.dispatchEvent(new CustomEvent('effectsChange', { detail: { effects: this.effects } }));
+    });
+    setEffectParameter = vi.fn();
+    moveEffect = vi.fn();
+    setPlaybackRate = vi.fn((playbackRate: number) => {
+      this.timeStretch.playbackRate = playbackRate;
+      this.dispatchEvent(new CustomEvent('playbackRateChange', { detail: { playbackRate } }));
+    });
+    setPitchShift = vi.fn((semitones: number) => {
+      this.timeStretch.pitchSemitones = semitones;
+      this.dispatchEvent(new CustomEvent('pitchShiftChange', { detail: { semitones } }));
+    });
+    setPreservePitch = vi.fn();
+    dispose = vi.fn();
+
+    private setPlaying(isPlaying: boolean): void {
+      this.dispatchEvent(new CustomEvent('playStateChange', { detail: { isPlaying } }));
+    }
+  }
+
+  return { ...actual, AudioEngine: FakeAudioEngine };
+});
+
+// jsdom has no IndexedDB for cached copies
+vi.mock('../../utils/cacheManager', () => ({
+  CacheManager: class {
+    get = async () => undefined;
+    set = async () => {};
+    destroy = () => {};
+  }
+}));
+
+// Feature analysis would fetch the test files
+vi.mock('../../audio/AudioFeatureAnalyzer', () => ({
+  audioFeatureAnalyzer: {
+    getFeatures: async () => null,
+    analyze: async () => null
+  }
+}));
 
 // Mock the ApiService
 vi.mock('../../services/api', () => {
@@ -16,6 +131,35 @@ vi.mock('../../services/api', () => {
   };
 });
 
+const testSongs: Song[] = [
+  {
+    id: '1',
+    title: 'Test Song 1',
+    artist: 'Test Artist',
+    album: 'Test Album',
+    duration: 180,
+    filePath: '/test/song1.mp3',
+    liked: false,
+    playCount: 0,
+    createdAt: new Date(),
+    uploadedBy: 'user1',
+    genre: 'Pop'
+  },
+  {
+    id: '2',
+    title: 'Test Song 2',
+    artist: 'Test Artist 2',
+    album: 'Test Album 2',
+    duration: 240,
+    filePath: '/test/song2.mp3',
+    liked: true,
+    playCount: 5,
+    createdAt: new Date(),
+    uploadedBy: 'user1',
+    genre: 'Rock'
+  }
+];
+
 // Test component that uses the MusicContext
 const TestComponent = () => {
   const { 
@@ -24,7 +168,9 @@ const TestComponent = () => {
     togglePlay, 
     toggleLike,
     songs,
-    setSongs
+    setSongs,
+    setQueue,
+    play
   } = useMusic();
 
   return (
@@ -43,45 +189,26 @@ const TestComponent = () => {
           </button>
         </div>
       ))}
-      <button 
-        onClick={() => setSongs([
-          {
-            id: '1',
-            title: 'Test Song 1',
-            artist: 'Test Artist',
-            album: 'Test Album',
-            duration: 180,
-            filePath: '/test/song1.mp3',
-            liked: false,
-            playCount: 0,
-            createdAt: new Date(),
-            uploadedBy: 'user1',
-            genre: 'Pop'
-          },
-          {
-            id: '2',
-            title: 'Test Song 2',
-            artist: 'Test Artist 2',
-            album: 'Test Album 2',
-            duration: 240,
-            filePath: '/test/song2.mp3',
-            liked: true,
-            playCount: 5,
-            createdAt: new Date(),
-            uploadedBy: 'user1',
-            genre: 'Rock'
-          }
-        ])}
-      >
+      <button onClick={() => setSongs(testSongs)}>
         Load Songs
       </button>
+      <button onClick={() => { setQueue(testSongs, 0); void play(testSongs[0]); }}>
+        Play Queue
+      </button>
     </div>
   );
 };
 
+// Hands the context to the test for calls no button makes
+const ContextProbe = ({ onContext }: { onContext: (context: MusicContextType) => void }) => {
+  onContext(useMusic());
+  return null;
+};
+
 describe('MusicContext', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
   });
 
   it('provides music context to children components', async () => {
@@ -153,4 +280,405 @@ describe('MusicContext', () => {
     // Verify UI updated
     expect(screen.getByTestId('like-button-2')).toHaveTextContent('Like');
   });
-});
\ No newline at end of file
+
+  it('plays the queue through the player and applies the gapless setting', async () => {
+    render(
+      <MusicProvider>
+        <TestComponent />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    try {
+      await userEvent.setup().click(screen.getByText('Play Queue'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('playing-status')).toHaveTextContent('Playing');
+      });
+      expect(engine.loadTrack).toHaveBeenCalledWith(expect.objectContaining({ id: '1', url: expect.stringContaining('/test/song1.mp3') }));
+      expect(screen.getByTestId('current-song')).toHaveTextContent('Test Song 1');
+
+      act(() => {
+        playbackPreferences.update({ gaplessEnabled: true });
+      });
+      expect(engine.setGaplessEnabled).toHaveBeenLastCalledWith(true);
+      await waitFor(() => {
+        expect(engine.preloadNextTrack).toHaveBeenCalledWith(expect.objectContaining({ id: '2' }), 'gapless');
+      });
+
+      // The engine starts the preloaded track itself; the context follows
+      act(() => {
+        engine.dispatchEvent(new CustomEvent('gaplessTransition', { detail: { track: { id: '2' } } }));
+      });
+      expect(screen.getByTestId('current-song')).toHaveTextContent('Test Song 2');
+    } finally {
+      playbackPreferences.update({ gaplessEnabled: false });
+    }
+  });
+
+  it('applies ReplayGain and normalization preferences to the engine that plays', async () => {
+    render(
+      <MusicProvider>
+        <TestComponent />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    try {
+      act(() => {
+        playbackPreferences.update({ replayGainEnabled: true, replayGainMode: 'album', replayGainPreamp: 3, normalizationEnabled: true });
+      });
+      expect(engine.setLoudnessSettings).toHaveBeenLastCalledWith(expect.objectContaining({
+        replayGainEnabled: true,
+        normalizationEnabled: true,
+        mode: 'album',
+        preampDb: 3
+      }));
+
+      // Tracks played from the context are loaded by that engine, which applies the gain
+      await userEvent.setup().click(screen.getByText('Play Queue'));
+      await waitFor(() => {
+        expect(engine.loadTrack).toHaveBeenCalledWith(expect.objectContaining({ id: '1', album: 'Test Album' }));
+      });
+    } finally {
+      playbackPreferences.update(DEFAULT_PLAYBACK_PREFERENCES);
+    }
+  });
+
+  it('applies the smart crossfade preference to the engine that plays', () => {
+    render(
+      <MusicProvider>
+        <TestComponent />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+    expect(engine.setCrossfadeSettings).toHaveBeenCalledWith(expect.objectContaining({ smart: false }));
+
+    try {
+      act(() => {
+        playbackPreferences.update({ smartCrossfade: true });
+      });
+      expect(engine.setCrossfadeSettings).toHaveBeenLastCalledWith({ smart: true });
+    } finally {
+      playbackPreferences.update(DEFAULT_PLAYBACK_PREFERENCES);
+    }
+  });
+
+  it('applies equalizer changes to the engine that plays', () => {
+    let music!: MusicContextType;
+    render(
+      <MusicProvider>
+        <ContextProbe onContext={context => { music = context; }} />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+    expect(engine.loadEqualizerPreset).toHaveBeenCalledWith(expect.objectContaining({ preamp: 0, bands: music.equalizer.bands }));
+
+    act(() => {
+      music.setEqualizer({
+        ...music.equalizer,
+        preamp: -3,
+        bands: music.equalizer.bands.map((band, i) => (i === 2 ? { ...band, gain: 4 } : band))
+      });
+    });
+    expect(engine.setEqualizerPreamp).toHaveBeenCalledWith(-3);
+    expect(engine.setEqualizerBand).toHaveBeenCalledTimes(1);
+    expect(engine.setEqualizerBand).toHaveBeenCalledWith(2, expect.objectContaining({ gain: 4 }));
+
+    act(() => {
+      music.setEqualizer({ ...music.equalizer, enabled: false });
+    });
+    expect(engine.setEqualizerEnabled).toHaveBeenLastCalledWith(false);
+  });
+
+  it('routes effects panel changes to the engine that plays', async () => {
+    render(
+      <MusicProvider>
+        <AudioEffectsPanel />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Reverb' }));
+    expect(engine.setEffectEnabled).toHaveBeenCalledWith('reverb', true);
+
+    fireEvent.change(await screen.findByLabelText('Reverb Mix'), { target: { value: '0.5' } });
+    expect(engine.setEffectParameter).toHaveBeenCalledWith('reverb', 'mix', 0.5);
+  });
+
+  it('changes tempo and pitch on the engine that plays', async () => {
+    render(
+      <MusicProvider>
+        <TempoControls />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    fireEvent.change(await screen.findByLabelText('Tempo'), { target: { value: '0.8' } });
+    fireEvent.change(screen.getByLabelText('Pitch'), { target: { value: '-2' } });
+
+    expect(engine.setPlaybackRate).toHaveBeenCalledWith(0.8);
+    expect(engine.setPitchShift).toHaveBeenCalledWith(-2);
+    expect(screen.getByText('0.80x')).toBeInTheDocument();
+    expect(screen.getByText('-2 st')).toBeInTheDocument();
+  });
+
+  it('loops and practises the current track on the engine that plays', async () => {
+    const user = userEvent.setup();
+    render(
+      <MusicProvider>
+        <TestComponent />
+        <PracticeControls />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    await user.click(screen.getByText('Play Queue'));
+    await waitFor(() => expect(engine.play).toHaveBeenCalled());
+
+    await user.click(screen.getByRole('button', { name: 'Loop and bookmarks' }));
+    await user.click(screen.getByText('Set A'));
+    expect(engine.setLoopRegion).toHaveBeenLastCalledWith({ start: 0, end: 180 });
+    expect(screen.getByText('0:00 – 3:00')).toBeInTheDocument();
+
+    await user.click(screen.getByText('Start practice'));
+    await waitFor(() => expect(screen.getByText('Pass 1 at 0.70x')).toBeInTheDocument());
+    expect(engine.setPlaybackRate).toHaveBeenCalledWith(0.7);
+    expect(engine.playCountIn).toHaveBeenCalled();
+
+    await user.click(screen.getByText('Stop practice'));
+    expect(engine.setPlaybackRate).toHaveBeenLastCalledWith(1);
+  });
+
+  it('exports the current track through the engine that plays', async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn(() => 'blob:export');
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const { createObjectURL: originalCreateObjectURL, revokeObjectURL: originalRevokeObjectURL } = URL;
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    render(
+      <MusicProvider>
+        <TestComponent />
+        <TrackExportPanel />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    try {
+      await user.click(screen.getByText('Play Queue'));
+      await waitFor(() => expect(engine.play).toHaveBeenCalled());
+      await user.click(screen.getByText('Export WAV'));
+
+      await waitFor(() => expect(click).toHaveBeenCalled());
+      expect(engine.renderOffline).toHaveBeenCalledWith(expect.objectContaining({ region: null }));
+      const [blob] = createObjectURL.mock.calls[0] as unknown as [Blob];
+      expect(blob.type).toBe('audio/wav');
+    } finally {
+      Object.assign(URL, { createObjectURL: originalCreateObjectURL, revokeObjectURL: originalRevokeObjectURL });
+      click.mockRestore();
+    }
+  });
+
+  it('streams manifest songs through the player without rewriting their URL', async () => {
+    const manifestUrl = 'https://cdn.example.com/songs/3/playlist.m3u8';
+    const streamedSong: Song = { ...testSongs[0]!, id: '3', filePath: manifestUrl };
+    const attachMedia = vi.spyOn(StreamingManager.prototype, 'attachMedia').mockResolvedValue(true);
+    let music!: MusicContextType;
+    render(
+      <MusicProvider>
+        <ContextProbe onContext={context => { music = context; }} />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    try {
+      act(() => music.setQueue([streamedSong], 0));
+      await act(() => music.play(streamedSong));
+
+      const [track] = engine.loadTrack.mock.calls[0] as [AudioTrack];
+      expect(track.url).toBe(manifestUrl);
+
+      // The engine hands its media element to the player's streaming manager
+      const [attach] = engine.setMediaAttacher.mock.calls[0] as [MediaAttacher];
+      const media = document.createElement('audio');
+      await expect(attach(media, track)).resolves.toBe(true);
+      expect(attachMedia).toHaveBeenCalledWith(media, manifestUrl);
+    } finally {
+      attachMedia.mockRestore();
+    }
+  });
+
+  it('shows the stream quality the player picks', async () => {
+    // Attaching a manifest picks a rendition from the measured throughput
+    const attachMedia = vi.spyOn(StreamingManager.prototype, 'attachMedia');
+    attachMedia.mockImplementation(async function (this: StreamingManager) {
+      this.dispatchEvent(new CustomEvent('qualityChange', {
+        detail: {
+          previousQuality: null,
+          currentQuality: { bitrate: 128, sampleRate: 44100, channels: 2, format: 'aac', label: 'Low' },
+          reason: 'stream_start'
+        }
+      }));
+      return true;
+    });
+    render(
+      <MusicProvider>
+        <StreamQualityIndicator />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    try {
+      const [attach] = engine.setMediaAttacher.mock.calls[0] as [MediaAttacher];
+      await act(() => attach(document.createElement('audio'), AudioEngine.trackFromSong(testSongs[0]!)));
+      expect(screen.getByLabelText('Stream quality')).toHaveTextContent('Low · 128 kbps');
+    } finally {
+      attachMedia.mockRestore();
+    }
+  });
+
+  it('prefetches the next queued song once the current one is half played', async () => {
+    const prefetchTrack = vi.spyOn(StreamingManager.prototype, 'prefetchTrack').mockResolvedValue();
+    render(
+      <MusicProvider>
+        <TestComponent />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    try {
+      await userEvent.setup().click(screen.getByText('Play Queue'));
+      await waitFor(() => expect(engine.play).toHaveBeenCalled());
+      expect(prefetchTrack).not.toHaveBeenCalled();
+
+      act(() => {
+        engine.dispatchEvent(new CustomEvent('timeUpdate', { detail: { currentTime: 100 } }));
+      });
+      await waitFor(() => {
+        expect(prefetchTrack).toHaveBeenCalledWith(expect.stringContaining('/test/song2.mp3'), 20);
+      });
+    } finally {
+      prefetchTrack.mockRestore();
+    }
+  });
+
+  it('plays downloaded songs from their offline copy', async () => {
+    const isTrackOffline = vi.spyOn(OfflineManager.prototype, 'isTrackOffline').mockImplementation(async id => id === '1');
+    const getOfflinePlaybackUrl = vi.spyOn(OfflineManager.prototype, 'getOfflinePlaybackUrl').mockResolvedValue('blob:offline-1');
+    const { revokeObjectURL: originalRevokeObjectURL } = URL;
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { revokeObjectURL });
+    const { unmount } = render(
+      <MusicProvider>
+        <TestComponent />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    try {
+      await userEvent.setup().click(screen.getByText('Play Queue'));
+      await waitFor(() => expect(engine.play).toHaveBeenCalled());
+
+      expect(getOfflinePlaybackUrl).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }));
+      expect(engine.loadTrack).toHaveBeenCalledWith(expect.objectContaining({ id: '1', url: 'blob:offline-1' }));
+
+      // The player releases the decrypted copy when it is disposed
+      unmount();
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:offline-1');
+    } finally {
+      Object.assign(URL, { revokeObjectURL: originalRevokeObjectURL });
+      isTrackOffline.mockRestore();
+      getOfflinePlaybackUrl.mockRestore();
+    }
+  });
+
+  it('plays a restored song saved without its data: URL from the library copy', async () => {
+    const uploaded: Song = { ...testSongs[0]!, id: 'uploaded', title: 'Uploaded Song', filePath: 'data:audio/mpeg;base64,AAAA' };
+    let context: MusicContextType | undefined;
+    const restore = vi.spyOn(PlaybackSessionService.prototype, 'restore').mockResolvedValue({
+      version: 1,
+      queue: [{ ...uploaded, filePath: '' }],
+      shuffledIndices: null,
+      currentIndex: 0,
+      position: 0,
+      repeat: 'none',
+      context: null,
+      updatedAt: Date.now()
+    });
+    render(
+      <MusicProvider>
+        <TestComponent />
+        <ContextProbe onContext={value => { context = value; }} />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    try {
+      await waitFor(() => expect(screen.getByTestId('current-song')).toHaveTextContent('Uploaded Song'));
+      act(() => context!.setSongs([...testSongs, uploaded]));
+      await userEvent.setup().click(screen.getByText('Toggle Play'));
+
+      await waitFor(() => {
+        expect(engine.loadTrack).toHaveBeenCalledWith(expect.objectContaining({ id: 'uploaded', url: uploaded.filePath }));
+      });
+    } finally {
+      restore.mockRestore();
+    }
+  });
+
+  it('queues a play that fails to send under the id it was sent with', async () => {
+    localStorage.setItem('meow_play_auth', JSON.stringify({ user: { id: 'me' } }));
+    const trackPlay = vi.fn().mockRejectedValue(new Error('Network error'));
+    Object.assign(ApiService, { getInstance: () => ({ trackPlay }) });
+    const enqueue = vi.spyOn(OfflineOutbox.prototype, 'enqueue').mockImplementation(async () => ({}) as never);
+    render(
+      <MusicProvider>
+        <TestComponent />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+    const user = userEvent.setup();
+
+    try {
+      await user.click(screen.getByText('Play Queue'));
+      await waitFor(() => expect(engine.play).toHaveBeenCalled());
+      // Playing again reports the play that was in progress
+      await user.click(screen.getByText('Play Queue'));
+
+      await waitFor(() => expect(enqueue).toHaveBeenCalled());
+      expect(trackPlay).toHaveBeenCalledWith('me', '1', expect.any(Number), expect.objectContaining({ id: expect.any(String) }));
+      const sentPlay = trackPlay.mock.calls[0]![3] as { id: string };
+      expect(enqueue).toHaveBeenCalledWith(expect.objectContaining({ type: 'trackPlay', songId: '1' }), sentPlay.id);
+    } finally {
+      enqueue.mockRestore();
+      Reflect.deleteProperty(ApiService, 'getInstance');
+    }
+  });
+
+  it('fades out and pauses the player when the sleep timer runs out', async () => {
+    render(
+      <MusicProvider>
+        <TestComponent />
+      </MusicProvider>
+    );
+    const engine = latestEngine();
+
+    await userEvent.setup().click(screen.getByText('Play Queue'));
+    await waitFor(() => {
+      expect(screen.getByTestId('playing-status')).toHaveTextContent('Playing');
+    });
+
+    act(() => {
+      sleepTimer.dispatchEvent(new CustomEvent('fade', { detail: { seconds: 2 } }));
+    });
+    expect(engine.fadeOut).toHaveBeenCalledWith(2);
+
+    act(() => {
+      sleepTimer.start('duration', 5);
+      sleepTimer.expire();
+    });
+    expect(engine.pause).toHaveBeenCalled();
+    expect(engine.cancelFadeOut).toHaveBeenCalled();
+    expect(screen.getByTestId('playing-status')).toHaveTextContent('Paused');
+  });
+});
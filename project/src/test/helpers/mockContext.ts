@@ -3,7 +3,7 @@ import { vi } from 'vitest';
 import { MusicContextType } from '../../contexts/MusicContext';
 
 export const createMockMusicContext = (overrides?: Partial<MusicContextType>): MusicContextType => ({
-  audioRef: { current: null },
+  player: null,
   currentSong: null,
   isPlaying: false,
   volume: 1,
@@ -16,10 +16,9 @@ export const createMockMusicContext = (overrides?: Partial<MusicContextType>): M
   crossfadeEnabled: false,
   crossfadeDuration: 2,
   equalizer: {
-    bass: 0,
-    mid: 0,
-    treble: 0,
     enabled: false,
+    preamp: 0,
+    bands: [],
   },
   play: vi.fn(),
   pause: vi.fn(),
@@ -0,0 +1,114 @@
+import { AbrController } from '../../audio/AbrController';
+import { ThroughputEstimator } from '../../audio/ThroughputEstimator';
+
+// [seconds, kbps] steps; traces loop when a session outlasts them
+export type NetworkTrace = Array<[number, number]>;
+
+export const TRACES: Record<string, NetworkTrace> = {
+  stable: [[60, 1500]],
+  drop: [[40, 2000], [400, 150]],
+  spiky: [[8, 900], [1, 120], [6, 950], [1, 4000], [9, 880], [2, 200]],
+  // Shaped like a mobile log on a train: tunnels, cell handovers and open stretches
+  commute: [
+    [12, 820], [6, 410], [4, 95], [10, 640], [8, 1250], [5, 300],
+    [3, 60], [14, 980], [9, 520], [6, 1700], [4, 240], [11, 760]
+  ]
+};
+
+export interface SimulationOptions {
+  bitrates: number[]; // kbps, ascending
+  segmentDuration?: number;
+  duration?: number; // seconds of media
+  bufferAhead?: number;
+  startIndex?: number;
+  controller?: AbrController;
+  estimator?: ThroughputEstimator;
+}
+
+export interface SimulationResult {
+  qualities: number[]; // index chosen for every segment
+  reasons: string[];
+  switches: number;
+  stallTime: number; // seconds
+}
+
+/**
+ * Play a segmented stream over a trace the way StreamingManager does: each finished
+ * download feeds the estimator, then the controller picks the next segment's quality.
+ */
+export const simulateAbrSession = (trace: NetworkTrace, options: SimulationOptions): SimulationResult => {
+  const {
+    bitrates,
+    segmentDuration = 4,
+    duration = 240,
+    bufferAhead = 30,
+    startIndex = 0,
+    controller = new AbrController({ bufferTarget: bufferAhead }),
+    estimator = new ThroughputEstimator()
+  } = options;
+
+  const result: SimulationResult = { qualities: [], reasons: [], switches: 0, stallTime: 0 };
+  let time = 0;
+  let buffer = 0;
+  let playing = false;
+  let index = startIndex;
+
+  for (let segment = 0; segment * segmentDuration < duration; segment++) {
+    // Wait while the buffer is full, as MediaSourceStream does
+    if (buffer > bufferAhead - segmentDuration) {
+      const idle = buffer - (bufferAhead - segmentDuration);
+      time += idle;
+      buffer -= idle;
+    }
+
+    const bytes = (bitrates[index]! * 1000 / 8) * segmentDuration;
+    const elapsed = downloadTime(trace, time, bytes * 8);
+    time += elapsed;
+
+    if (playing) {
+      if (elapsed > buffer) result.stallTime += elapsed - buffer;
+      buffer = Math.max(0, buffer - elapsed);
+    }
+    buffer += segmentDuration;
+    playing = true;
+
+    result.qualities.push(index);
+    estimator.addSample(bytes, elapsed * 1000);
+
+    const decision = controller.decide({
+      bitrates,
+      currentIndex: index,
+      bufferLevel: buffer,
+      throughput: estimator.getEstimate()
+    });
+    result.reasons.push(decision.reason);
+    if (decision.index !== index) result.switches++;
+    index = decision.index;
+  }
+
+  return result;
+};
+
+// Seconds to move `bits` through the trace starting at `start`
+const downloadTime = (trace: NetworkTrace, start: number, bits: number): number => {
+  const period = trace.reduce((sum, [seconds]) => sum + seconds, 0);
+  let time = start;
+  let remaining = bits;
+
+  while (remaining > 1e-6) {
+    let offset = time % period;
+    for (const [seconds, kbps] of trace) {
+      if (offset < seconds) {
+        const available = seconds - offset;
+        const needed = remaining / (kbps * 1000);
+        const step = Math.min(available, needed);
+        remaining -= step * kbps * 1000;
+        time += step;
+        break;
+      }
+      offset -= seconds;
+    }
+  }
+
+  return time - start;
+};
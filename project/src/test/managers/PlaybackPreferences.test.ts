@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PlaybackPreferences, DEFAULT_PLAYBACK_PREFERENCES } from '../../managers/PlaybackPreferences';
+
+const STORAGE_KEY = 'meow_play_playback_preferences';
+
+describe('PlaybackPreferences', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('notifies listeners and keeps changes across reloads', () => {
+    const preferences = new PlaybackPreferences();
+    const change = vi.fn();
+    preferences.addEventListener('change', change);
+
+    expect(preferences.getState()).toEqual(DEFAULT_PLAYBACK_PREFERENCES);
+    preferences.update({ gaplessEnabled: true });
+
+    expect((change.mock.calls[0]?.[0] as CustomEvent).detail.preferences.gaplessEnabled).toBe(true);
+    expect(new PlaybackPreferences().getState().gaplessEnabled).toBe(true);
+  });
+
+  it('falls back to the defaults for missing or unreadable settings', () => {
+    localStorage.setItem(STORAGE_KEY, '{}');
+    expect(new PlaybackPreferences().getState()).toEqual(DEFAULT_PLAYBACK_PREFERENCES);
+
+    localStorage.setItem(STORAGE_KEY, 'not json');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(new PlaybackPreferences().getState()).toEqual(DEFAULT_PLAYBACK_PREFERENCES);
+  });
+});
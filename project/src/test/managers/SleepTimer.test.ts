@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SleepTimer } from '../../managers/SleepTimer';
+
+const STORAGE_KEY = 'meow_play_sleep_timer';
+
+describe('SleepTimer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T22:00:00Z'));
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fades over the last seconds and expires at the deadline', () => {
+    const timer = new SleepTimer();
+    const fade = vi.fn();
+    const expire = vi.fn();
+    timer.addEventListener('fade', fade);
+    timer.addEventListener('expire', expire);
+
+    timer.start('duration', 1, 20);
+
+    vi.advanceTimersByTime(39000);
+    expect(fade).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(fade).toHaveBeenCalledTimes(1);
+    expect((fade.mock.calls[0]?.[0] as CustomEvent).detail.seconds).toBe(20);
+
+    vi.advanceTimersByTime(20000);
+    expect(expire).toHaveBeenCalledTimes(1);
+    expect(timer.getState()).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('extends a running timer and cancels its fade', () => {
+    const timer = new SleepTimer();
+    const fadeCancel = vi.fn();
+    timer.addEventListener('fadeCancel', fadeCancel);
+
+    timer.start('duration', 1, 30);
+    vi.advanceTimersByTime(45000);
+    expect(timer.isFading()).toBe(true);
+
+    timer.extend(10);
+
+    expect(fadeCancel).toHaveBeenCalledTimes(1);
+    expect(timer.getRemaining()).toBe(15000 + 10 * 60000);
+  });
+
+  it('turns an end of track timer into a fixed one counted from the estimated end', () => {
+    const timer = new SleepTimer();
+    timer.start('endOfTrack');
+    timer.setEstimatedDeadline(Date.now() + 90000);
+
+    timer.extend(10);
+
+    expect(timer.getState()?.mode).toBe('duration');
+    expect(timer.getRemaining()).toBe(90000 + 10 * 60000);
+  });
+
+  it('survives a reload through the persisted deadline', () => {
+    new SleepTimer().start('duration', 30);
+    vi.advanceTimersByTime(5 * 60000);
+
+    const restored = new SleepTimer();
+    expect(restored.getState()?.mode).toBe('duration');
+    expect(restored.getRemaining()).toBe(25 * 60000);
+  });
+
+  it('drops a timer that ran out while the page was closed', () => {
+    new SleepTimer().start('duration', 5);
+    vi.setSystemTime(Date.now() + 6 * 60000);
+
+    expect(new SleepTimer().getState()).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OfflineOutbox, OutboxEntry, OutboxRemote, OutboxSession, OutboxStore } from '../../services/OfflineOutbox';
+import { ApiService } from '../../services/api';
+import { APIErrorClass } from '../../types/api';
+
+const createStore = () => {
+  const entries = new Map<string, OutboxEntry>();
+  const store: OutboxStore = {
+    getAll: async () => [...entries.values()].map(entry => ({ ...entry })),
+    put: async entry => {
+      entries.set(entry.id, { ...entry });
+    },
+    delete: async id => {
+      entries.delete(id);
+    },
+    claim: async (id, leaseUntil, now) => {
+      const entry = entries.get(id);
+      if (!entry || entry.status !== 'pending' || entry.leaseUntil > now) return null;
+      entry.leaseUntil = leaseUntil;
+      return { ...entry };
+    },
+    saveSession: async () => {}
+  };
+  return { store, entries };
+};
+
+const session: OutboxSession = {
+  userId: 'me',
+  url: 'https://example.supabase.co',
+  anonKey: 'anon',
+  accessToken: 'token',
+  expiresAt: Date.now() + 3600_000
+};
+
+// Answers per coalescing key with the given HTTP statuses, 0 for no answer; other actions succeed
+const createRemote = (statuses: Record<string, number[]> = {}, signedIn = true) => {
+  const sent: Array<{ entry: OutboxEntry; session: OutboxSession }> = [];
+  const remote: OutboxRemote = {
+    getSession: async () => (signedIn ? session : null),
+    send: vi.fn(async (entry: OutboxEntry, as: OutboxSession) => {
+      sent.push({ entry, session: as });
+      const status = statuses[entry.key]?.shift();
+      if (status !== undefined) throw new APIErrorClass(status ? `HTTP ${status}` : 'FetchError: Failed to fetch', '', status);
+    })
+  };
+  return { remote, sent };
+};
+
+const goOffline = () => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+describe('OfflineOutbox', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps only the latest of opposite actions queued offline', async () => {
+    goOffline();
+    const { store } = createStore();
+    const outbox = new OfflineOutbox(store);
+
+    await outbox.enqueue({ type: 'like', songId: 's1' });
+    await outbox.enqueue({ type: 'unlike', songId: 's1' });
+    await outbox.enqueue({ type: 'trackPlay', songId: 's1', duration: 180, playedAt: 1 });
+    await outbox.enqueue({ type: 'trackPlay', songId: 's1', duration: 95, playedAt: 2 });
+
+    const entries = await outbox.getEntries();
+    expect(entries.map(entry => entry.action.type)).toEqual(['unlike', 'trackPlay', 'trackPlay']);
+    expect(entries[0]!.action).toEqual({ type: 'unlike', songId: 's1' });
+    expect((await outbox.flush()).deferred).toBe(3);
+  });
+
+  it('replays queued actions in order as the signed-in user on reconnect', async () => {
+    const onLine = goOffline();
+    const { store, entries } = createStore();
+    const { remote, sent } = createRemote();
+    const outbox = new OfflineOutbox(store, {}, remote);
+
+    const add = await outbox.enqueue({ type: 'playlistAdd', playlistId: 'p1', songId: 's1', position: 0 });
+    const reorder = await outbox.enqueue({ type: 'playlistReorder', playlistId: 'p1', songIds: ['s1', 's2'], baseVersion: 'v7' });
+
+    onLine.mockReturnValue(true);
+    const result = await outbox.flush();
+
+    expect(result.synced.map(entry => entry.id)).toEqual([add.id, reorder.id]);
+    expect(entries.size).toBe(0);
+    expect(sent.map(call => call.entry.id)).toEqual([add.id, reorder.id]);
+    expect(sent.every(call => call.session.userId === 'me')).toBe(true);
+  });
+
+  it('replays actions only as the user who queued them', async () => {
+    const onLine = goOffline();
+    const { store } = createStore();
+    const other: OutboxRemote = {
+      getSession: async () => ({ ...session, userId: 'someone-else' }),
+      send: vi.fn(async () => {})
+    };
+    const queued = await new OfflineOutbox(store, {}, other).enqueue({ type: 'like', songId: 's1' });
+    const { remote, sent } = createRemote();
+    const outbox = new OfflineOutbox(store, {}, remote);
+    const mine = await outbox.enqueue({ type: 'unlike', songId: 's1' });
+
+    onLine.mockReturnValue(true);
+    const result = await outbox.flush();
+
+    expect(queued.userId).toBe('someone-else');
+    expect(mine.userId).toBe('me');
+    // Same coalescing key, different users: neither supersedes the other
+    expect(sent.map(call => call.entry.id)).toEqual([mine.id]);
+    expect(result.deferred).toBe(0);
+    expect((await outbox.getEntries()).map(entry => entry.id)).toEqual([queued.id]);
+  });
+
+  it('holds actions while nobody is signed in', async () => {
+    const { remote } = createRemote({}, false);
+    const outbox = new OfflineOutbox(createStore().store, {}, remote);
+    goOffline();
+    await outbox.enqueue({ type: 'follow', userId: 'u1' });
+
+    vi.restoreAllMocks();
+    const result = await outbox.flush();
+
+    expect(remote.send).not.toHaveBeenCalled();
+    expect(result.deferred).toBe(1);
+  });
+
+  it('applies actions through ApiService as the given user', async () => {
+    const api = ApiService.getInstance();
+    const likeSong = vi.spyOn(api, 'likeSong').mockResolvedValue();
+    const addSongToPlaylist = vi.spyOn(api, 'addSongToPlaylist').mockResolvedValue();
+    const followUser = vi.spyOn(api, 'followUser').mockResolvedValue();
+    const trackPlay = vi.spyOn(api, 'trackPlay').mockResolvedValue();
+    goOffline();
+    const outbox = new OfflineOutbox(createStore().store);
+
+    const like = await outbox.enqueue({ type: 'like', songId: 's1' });
+    const add = await outbox.enqueue({ type: 'playlistAdd', playlistId: 'p1', songId: 's2' });
+    const follow = await outbox.enqueue({ type: 'follow', userId: 'u2' });
+    const play = await outbox.enqueue({ type: 'trackPlay', songId: 's3', duration: 95, playedAt: 1000 });
+    for (const entry of [like, add, follow, play]) {
+      await OfflineOutbox.perform(entry, 'me');
+    }
+
+    expect(likeSong).toHaveBeenCalledWith('me', 's1');
+    expect(addSongToPlaylist).toHaveBeenCalledWith('p1', 's2', 'me', undefined);
+    expect(followUser).toHaveBeenCalledWith('me', 'u2');
+    // The entry id becomes the play's id, so a replay records it once
+    expect(trackPlay).toHaveBeenCalledWith('me', 's3', 95, { id: play.id, playedAt: 1000 });
+  });
+
+  it('reports actions that no longer apply to the server state', async () => {
+    const onLine = goOffline();
+    const { remote } = createRemote({ 'playlist:gone:song:s1': [404], 'playlist:p1:order': [412] });
+    const outbox = new OfflineOutbox(createStore().store, {}, remote);
+    const conflicts: OutboxEntry[] = [];
+    outbox.addEventListener('actionConflict', (event: Event) => conflicts.push((event as CustomEvent).detail.entry));
+
+    await outbox.enqueue({ type: 'playlistRemove', playlistId: 'gone', songId: 's1' });
+    await outbox.enqueue({ type: 'playlistReorder', playlistId: 'p1', songIds: ['s2'], baseVersion: '"v1"' });
+    await outbox.enqueue({ type: 'follow', userId: 'u1' });
+
+    onLine.mockReturnValue(true);
+    const result = await outbox.flush();
+
+    expect(result.synced.map(entry => entry.action.type)).toEqual(['follow']);
+    expect(conflicts.map(entry => entry.conflict)).toEqual([
+      { status: 404, reason: 'The item no longer exists' },
+      { status: 412, reason: 'The item changed on the server' }
+    ]);
+    expect((await outbox.getConflicts()).map(entry => entry.status)).toEqual(['conflict', 'conflict']);
+  });
+
+  it('backs off per action and holds later edits of the same playlist', async () => {
+    const onLine = goOffline();
+    const { remote } = createRemote({ 'playlist:p1:song:s1': [503, 0] });
+    const outbox = new OfflineOutbox(createStore().store, { baseDelay: 1000, maxAttempts: 2 }, remote);
+
+    await outbox.enqueue({ type: 'playlistAdd', playlistId: 'p1', songId: 's1' });
+    await outbox.enqueue({ type: 'playlistRemove', playlistId: 'p1', songId: 's2' });
+    await outbox.enqueue({ type: 'like', songId: 's3' });
+
+    onLine.mockReturnValue(true);
+    const start = Date.now();
+    const first = await outbox.flush();
+
+    expect(first.synced.map(entry => entry.action.type)).toEqual(['like']);
+    expect(first.deferred).toBe(2);
+    const [retrying] = await outbox.getEntries();
+    expect(retrying).toMatchObject({ attempts: 1, lastError: 'HTTP 503' });
+    expect(retrying!.nextAttemptAt).toBeGreaterThanOrEqual(start + 1000);
+
+    vi.spyOn(Date, 'now').mockReturnValue(retrying!.nextAttemptAt);
+    const second = await outbox.flush();
+
+    // The second attempt got no answer at all
+    expect(second.failed.map(entry => entry.action.type)).toEqual(['playlistAdd']);
+    expect(second.failed[0]!.lastError).toBe('FetchError: Failed to fetch');
+    expect(second.synced.map(entry => entry.action.type)).toEqual(['playlistRemove']);
+  });
+
+  it('skips actions the service worker is already sending', async () => {
+    const { store, entries } = createStore();
+    const { remote } = createRemote();
+    goOffline();
+    const outbox = new OfflineOutbox(store, {}, remote);
+    const entry = await outbox.enqueue({ type: 'like', songId: 's1' });
+    entries.get(entry.id)!.leaseUntil = Date.now() + 30_000;
+
+    vi.restoreAllMocks();
+    const result = await outbox.flush();
+
+    expect(remote.send).not.toHaveBeenCalled();
+    expect(result.deferred).toBe(1);
+  });
+
+  it('classifies replay responses', () => {
+    expect([200, 204, 404, 409, 0, 429, 500, 400].map(status => OfflineOutbox.classify(status)))
+      .toEqual(['synced', 'synced', 'conflict', 'conflict', 'retry', 'retry', 'retry', 'failed']);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PlaybackSessionService, PlaybackSession, PlaybackSessionStorage, SessionPosition } from '../../services/PlaybackSession';
+import { LOGOUT_EVENT } from '../../utils/indexedDB';
+import { Song } from '../../types';
+
+const createStorage = (stored?: unknown) => {
+  let record = stored;
+  let position: SessionPosition | undefined;
+  const storage: PlaybackSessionStorage = {
+    load: async () => record,
+    save: vi.fn(async (session: PlaybackSession) => {
+      record = structuredClone(session);
+    }),
+    loadPosition: async () => position,
+    savePosition: vi.fn(async (saved: SessionPosition) => {
+      position = { ...saved };
+    }),
+    clear: vi.fn(async () => {
+      record = undefined;
+      position = undefined;
+    })
+  };
+  return { storage, read: () => record as PlaybackSession | undefined };
+};
+
+const createSong = (id: string): Song => ({
+  id,
+  title: `Song ${id}`,
+  artist: 'Artist',
+  duration: 200,
+  filePath: `/songs/${id}.mp3`,
+  uploadedBy: 'user',
+  createdAt: new Date('2026-01-01T00:00:00Z')
+});
+
+const queue = ['a', 'b', 'c', 'd'].map(createSong);
+
+const isPermutation = (order: number[], length: number) =>
+  [...order].sort((x, y) => x - y).every((value, i) => value === i) && order.length === length;
+
+describe('PlaybackSessionService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves changes at most once per delay and restores them', async () => {
+    vi.useFakeTimers();
+    const { storage, read } = createStorage();
+    const service = new PlaybackSessionService(storage, { saveDelay: 1000 });
+
+    service.update({ queue, currentIndex: 2, context: { type: 'playlist', id: 'p1' } });
+    for (let position = 1; position <= 5; position++) {
+      service.update({ position });
+    }
+    expect(storage.save).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(storage.save).toHaveBeenCalledTimes(1);
+
+    const restored = await new PlaybackSessionService(storage).restore();
+    expect(restored).toMatchObject({ version: 1, currentIndex: 2, position: 5, context: { type: 'playlist', id: 'p1' } });
+    expect(restored!.queue.map(song => song.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(read()!.queue[0]!.createdAt).toEqual(queue[0]!.createdAt);
+  });
+
+  it('saves position updates to their own record without rewriting the queue', async () => {
+    vi.useFakeTimers();
+    const { storage, read } = createStorage();
+    const service = new PlaybackSessionService(storage, { saveDelay: 1000 });
+
+    service.update({ queue, currentIndex: 1 });
+    await service.flush();
+    for (let position = 1; position <= 3; position++) {
+      service.update({ position });
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+
+    expect(storage.save).toHaveBeenCalledTimes(1);
+    expect(storage.savePosition).toHaveBeenCalledTimes(3);
+    expect(read()!.position).toBe(0);
+    expect(await new PlaybackSessionService(storage).restore()).toMatchObject({ currentIndex: 1, position: 3 });
+
+    // Moving to another song leaves the old song's position behind
+    service.update({ currentIndex: 2, position: 0 });
+    await service.flush();
+    expect(await new PlaybackSessionService(storage).restore()).toMatchObject({ currentIndex: 2, position: 0 });
+  });
+
+  it('saves songs without blob: and data: URLs but keeps them for this page', async () => {
+    const { storage, read } = createStorage();
+    const service = new PlaybackSessionService(storage);
+    const uploaded: Song = { ...createSong('u'), filePath: 'data:audio/mpeg;base64,AAAA', coverArt: 'blob:http://localhost/cover' };
+    const streamed: Song = { ...createSong('s'), coverArt: 'https://covers.example/s.jpg' };
+
+    service.update({ queue: [uploaded, streamed] });
+    await service.flush();
+
+    expect(read()!.queue[0]).toMatchObject({ id: 'u', filePath: '' });
+    expect(read()!.queue[0]).not.toHaveProperty('coverArt');
+    expect(read()!.queue[1]).toEqual(streamed);
+    expect(service.getSession()!.queue[0]).toBe(uploaded);
+  });
+
+  it('migrates older records one version at a time', async () => {
+    const { storage } = createStorage({ version: 1, songs: queue, index: 1, seconds: 42 });
+    const service = new PlaybackSessionService(storage, {
+      version: 3,
+      migrations: {
+        1: ({ songs, index, ...rest }) => ({ ...rest, queue: songs, currentIndex: index }),
+        2: ({ seconds, ...rest }) => ({ ...rest, position: seconds, repeat: 'all' })
+      }
+    });
+
+    const restored = await service.restore();
+
+    expect(restored).toMatchObject({ version: 3, currentIndex: 1, position: 42, repeat: 'all', shuffledIndices: null });
+    expect(restored!.queue).toHaveLength(4);
+  });
+
+  it('drops records it cannot migrate or that a newer app wrote', async () => {
+    const unknown = createStorage({ version: 1, queue });
+    expect(await new PlaybackSessionService(unknown.storage, { version: 2, migrations: {} }).restore()).toBeNull();
+    expect(unknown.storage.clear).toHaveBeenCalled();
+
+    const newer = createStorage({ version: 5, queue });
+    expect(await new PlaybackSessionService(newer.storage).restore()).toBeNull();
+  });
+
+  it('repairs out-of-range indices and a damaged shuffle order', async () => {
+    const { storage } = createStorage({
+      version: 1,
+      queue,
+      currentIndex: 9,
+      shuffledIndices: [0, 0, 7],
+      position: -3,
+      repeat: 'sometimes',
+      context: null,
+      updatedAt: 1
+    });
+
+    const restored = await new PlaybackSessionService(storage).restore();
+
+    expect(restored).toMatchObject({ currentIndex: 3, position: 0, repeat: 'none' });
+    expect(isPermutation(restored!.shuffledIndices!, 4)).toBe(true);
+    expect(restored!.shuffledIndices![0]).toBe(3);
+  });
+
+  it('follows the shuffle order and keeps it consistent as the queue changes', () => {
+    const order = PlaybackSessionService.shuffleOrder(4, 2);
+    expect(order[0]).toBe(2);
+    expect(isPermutation(order, 4)).toBe(true);
+
+    const fixed = [2, 0, 3, 1];
+    expect(PlaybackSessionService.nextIndex({ queueLength: 4, currentIndex: 2, shuffledIndices: fixed, repeat: 'none' })).toBe(0);
+    expect(PlaybackSessionService.nextIndex({ queueLength: 4, currentIndex: 1, shuffledIndices: fixed, repeat: 'none' })).toBeNull();
+    expect(PlaybackSessionService.nextIndex({ queueLength: 4, currentIndex: 1, shuffledIndices: fixed, repeat: 'all' })).toBe(2);
+    expect(PlaybackSessionService.previousIndex({ queueLength: 4, currentIndex: 2, shuffledIndices: fixed })).toBe(1);
+
+    // Queued to play next after song 2, inserted at queue index 3
+    expect(PlaybackSessionService.insertIntoOrder(fixed, 3, 2, true)).toEqual([2, 3, 0, 4, 1]);
+    expect(PlaybackSessionService.insertIntoOrder(fixed, 4, 2, false)).toEqual([2, 0, 3, 1, 4]);
+    expect(PlaybackSessionService.removeFromOrder(fixed, 0)).toEqual([1, 2, 0]);
+  });
+
+  it('forgets the session on logout', async () => {
+    const { storage, read } = createStorage();
+    const service = new PlaybackSessionService(storage);
+    service.start();
+
+    service.update({ queue });
+    await service.flush();
+    expect(read()).toBeDefined();
+
+    window.dispatchEvent(new CustomEvent(LOGOUT_EVENT));
+    await vi.waitFor(() => expect(read()).toBeUndefined());
+    expect(service.getSession()).toBeNull();
+
+    service.stop();
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { parseID3v2, popularimeterToStars, resolveGenre } from '../../utils/id3Parser';
+
+function bytes(...parts: Array<string | number[] | Uint8Array>): Uint8Array {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? Uint8Array.from(part, c => c.charCodeAt(0))
+    : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  arrays.forEach(array => {
+    result.set(array, offset);
+    offset += array.length;
+  });
+  return result;
+}
+
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const syncsafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f];
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const utf16 = (text: string) => bytes([0xff, 0xfe], Array.from(text).flatMap(c => [c.charCodeAt(0) & 0xff, c.charCodeAt(0) >> 8]));
+
+function tag(version: number, flags: number, ...frames: Uint8Array[]): Uint8Array {
+  const body = bytes(...frames);
+  return bytes('ID3', [version, 0, flags], syncsafe(body.length), body);
+}
+
+const v24 = (id: string, payload: Uint8Array, flags = 0) => bytes(id, syncsafe(payload.length), [0, flags], payload);
+const v23 = (id: string, payload: Uint8Array) => bytes(id, u32be(payload.length), [0, 0], payload);
+const v22 = (id: string, payload: Uint8Array) => bytes(id, u32be(payload.length).slice(1), payload);
+
+describe('parseID3v2', () => {
+  it('reads ID3v2.4 text, lyrics, comments and pictures', () => {
+    const jpeg = [0xff, 0xd8, 0xff, 0xe0, 1, 2, 3];
+    const sylt = bytes([3], 'eng', [2, 1], [0], utf8('First'), [0], u32be(1500), utf8('Second'), [0], u32be(4000));
+
+    const result = parseID3v2(tag(4, 0,
+      v24('TIT2', bytes([3], utf8('Café Nights'))),
+      v24('TPE1', bytes([3], utf8('Artist A'), [0], utf8('Artist B'))),
+      v24('TPE2', bytes([0], 'Various')),
+      v24('TALB', bytes([1], utf16('Album ♫'))),
+      v24('TRCK', bytes([0], '3/12')),
+      v24('TPOS', bytes([0], '1/2')),
+      v24('TDRC', bytes([0], '2021-06-04T10:00')),
+      v24('TCON', bytes([0], '17', [0], 'Indie')),
+      v24('USLT', bytes([3], 'eng', [0], utf8('la la la'))),
+      v24('SYLT', sylt),
+      v24('COMM', bytes([0], 'eng', 'iTunNORM', [0], ' 0000')),
+      v24('COMM', bytes([0], 'eng', [0], 'Great song')),
+      v24('APIC', bytes([0], 'image/png', [0], [4], 'back', [0], [0x89, 0x50])),
+      v24('APIC', bytes([1], 'image/jpg', [0], [3], utf16('Cover'), [0, 0], jpeg)),
+      new Uint8Array(32)
+    ));
+
+    expect(result).toMatchObject({
+      version: 4,
+      title: 'Café Nights',
+      artist: 'Artist A / Artist B',
+      albumArtist: 'Various',
+      album: 'Album ♫',
+      trackNumber: 3,
+      trackTotal: 12,
+      discNumber: 1,
+      discTotal: 2,
+      releaseDate: '2021-06-04',
+      year: 2021,
+      genre: 'Rock / Indie',
+      lyrics: 'la la la',
+      syncedLyrics: [{ time: 1.5, text: 'First' }, { time: 4, text: 'Second' }],
+      comments: [{ language: 'eng', description: '', text: 'Great song' }]
+    });
+    expect(result?.pictures.map(picture => [picture.type, picture.mimeType, picture.description])).toEqual([
+      [4, 'image/png', 'back'],
+      [3, 'image/jpeg', 'Cover']
+    ]);
+    expect(Array.from(result?.pictures[1]?.data ?? [])).toEqual(jpeg);
+  });
+
+  it('reads TXXX ReplayGain and MusicBrainz IDs, UFID and POPM', () => {
+    const result = parseID3v2(tag(4, 0,
+      v24('TXXX', bytes([0], 'REPLAYGAIN_TRACK_GAIN', [0], '-6.54 dB')),
+      v24('TXXX', bytes([0], 'replaygain_track_peak', [0], '0.988')),
+      v24('TXXX', bytes([0], 'REPLAYGAIN_ALBUM_GAIN', [0], '-7.10 dB')),
+      v24('TXXX', bytes([3], 'MusicBrainz Album Id', [0], 'album-mbid')),
+      v24('TXXX', bytes([3], 'MusicBrainz Artist Id', [0], 'artist-mbid')),
+      v24('UFID', bytes('http://musicbrainz.org', [0], 'recording-mbid')),
+      v24('POPM', bytes('user@example.com', [0], [196], u32be(42)))
+    ));
+
+    expect(result?.replayGain).toEqual({ trackGain: -6.54, trackPeak: 0.988, albumGain: -7.1 });
+    expect(result?.musicBrainz).toEqual({ albumId: 'album-mbid', artistId: 'artist-mbid', recordingId: 'recording-mbid' });
+    expect(result?.userText['MusicBrainz Album Id']).toBe('album-mbid');
+    expect(result?.rating).toBe(4);
+    expect(result?.playCount).toBe(42);
+  });
+
+  it('undoes tag-wide unsynchronisation and skips the extended header in v2.3', () => {
+    // 0xFF 0xFE BOM is written as 0xFF 0x00 0xFE when unsynchronised
+    const title = v23('TIT2', bytes([1], utf16('Hi')));
+    const unsynced = bytes(title.subarray(0, 12), [0x00], title.subarray(12));
+    const extendedHeader = bytes(u32be(6), [0, 0], u32be(0));
+
+    const result = parseID3v2(tag(3, 0xc0, extendedHeader, unsynced,
+      v23('TYER', bytes([0], '1999')),
+      v23('TDAT', bytes([0], '3112')),
+      v23('TCON', bytes([0], '(13)'))
+    ));
+
+    expect(result).toMatchObject({ version: 3, title: 'Hi', releaseDate: '1999-12-31', year: 1999, genre: 'Pop' });
+  });
+
+  it('undoes per-frame unsynchronisation and data length indicators in v2.4', () => {
+    const payload = bytes([1], [0xff, 0x00, 0xfe], 'O', [0], 'K', [0]);
+    const frame = bytes('TIT2', syncsafe(payload.length + 4), [0, 0x03], syncsafe(7), payload);
+
+    expect(parseID3v2(tag(4, 0, frame))?.title).toBe('OK');
+  });
+
+  it('maps ID3v2.2 frames and picture formats', () => {
+    const result = parseID3v2(tag(2, 0,
+      v22('TT2', bytes([0], 'Old Song')),
+      v22('TP1', bytes([0], 'Old Artist')),
+      v22('TAL', bytes([0], 'Old Album')),
+      v22('TRK', bytes([0], '7')),
+      v22('TYE', bytes([0], '1987')),
+      v22('PIC', bytes([0], 'PNG', [3], [0], [0x89, 0x50, 0x4e, 0x47]))
+    ));
+
+    expect(result).toMatchObject({
+      version: 2,
+      title: 'Old Song',
+      artist: 'Old Artist',
+      album: 'Old Album',
+      trackNumber: 7,
+      year: 1987
+    });
+    expect(result?.pictures[0]).toMatchObject({ type: 3, mimeType: 'image/png' });
+  });
+
+  it('rejects data that is not an ID3v2 tag', () => {
+    expect(parseID3v2(bytes('TAG', new Uint8Array(125)))).toBeNull();
+    expect(parseID3v2(bytes('ID3', [4, 0, 0], syncsafe(100)))).toBeNull();
+  });
+});
+
+describe('ID3 helpers', () => {
+  it('maps POPM bytes onto stars', () => {
+    expect([0, 1, 64, 128, 196, 255].map(popularimeterToStars)).toEqual([undefined, 1, 2, 3, 4, 5]);
+  });
+
+  it('resolves numeric genre references', () => {
+    expect(resolveGenre('(17)')).toBe('Rock');
+    expect(resolveGenre('(17)Hard Rock')).toBe('Hard Rock');
+    expect(resolveGenre('9')).toBe('Metal');
+    expect(resolveGenre('Shoegaze')).toBe('Shoegaze');
+  });
+});
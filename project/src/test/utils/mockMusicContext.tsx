@@ -12,18 +12,18 @@ const defaultMockContext: MusicContextType = {
   currentIndex: 0,
   isShuffled: false,
   repeat: 'none',
+  playContext: null,
   songs: [],
   loading: false,
   error: null,
   equalizer: {
-    bass: 0,
-    mid: 0,
-    treble: 0,
-    enabled: false
+    enabled: false,
+    preamp: 0,
+    bands: []
   },
   crossfadeEnabled: false,
   crossfadeDuration: 0,
-  audioRef: { current: null },
+  player: null,
   play: vi.fn(),
   pause: vi.fn(),
   togglePlay: vi.fn(),
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { readMp4Metadata } from '../../utils/mp4TagParser';
+import type { ProbeSource } from '../../audio/AudioProber';
+
+// Strings are written as Latin-1 so atom names like "©nam" keep their 0xA9 byte
+function bytes(...parts: Array<string | number[] | Uint8Array>): Uint8Array {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? Uint8Array.from(part, c => c.charCodeAt(0))
+    : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  arrays.forEach(array => {
+    result.set(array, offset);
+    offset += array.length;
+  });
+  return result;
+}
+
+const u16be = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+function box(type: string, ...payload: Array<string | number[] | Uint8Array>): Uint8Array {
+  const body = bytes(...payload);
+  return bytes(u32be(body.length + 8), type, body);
+}
+
+const data = (type: number, value: Uint8Array | number[]) => box('data', u32be(type), u32be(0), value);
+const text = (name: string, value: string) => box(name, data(1, utf8(value)));
+
+function source(file: Uint8Array): ProbeSource {
+  return { size: file.length, read: async (offset, length) => file.subarray(offset, offset + length) };
+}
+
+const ftyp = box('ftyp', 'M4A ', u32be(0), 'M4A isom');
+
+describe('readMp4Metadata', () => {
+  it('reads ilst items, freeform atoms and Nero chapters', async () => {
+    const ilst = box('ilst',
+      text('©nam', 'Mp4 Song'),
+      text('©ART', 'Mp4 Artist'),
+      text('aART', 'Album Artist'),
+      text('©alb', 'Mp4 Album'),
+      text('©day', '2020-10-02T07:00:00Z'),
+      text('©lyr', 'Some lyrics'),
+      box('trkn', data(0, [0, 0, ...u16be(5), ...u16be(9), 0, 0])),
+      box('disk', data(0, [0, 0, ...u16be(1), ...u16be(2)])),
+      box('gnre', data(0, u16be(18))),
+      box('covr', data(14, [0x89, 0x50]), data(13, [0xff, 0xd8])),
+      box('----', box('mean', u32be(0), 'com.apple.iTunes'), box('name', u32be(0), 'replaygain_album_gain'), data(1, utf8('-8.00 dB'))),
+      box('----', box('mean', u32be(0), 'com.apple.iTunes'), box('name', u32be(0), 'MusicBrainz Track Id'), data(1, utf8('recording-mbid'))),
+      box('----', box('mean', u32be(0), 'com.apple.iTunes'), box('name', u32be(0), 'iTunSMPB'), data(1, utf8(' 00000000')))
+    );
+    const meta = box('meta', u32be(0), box('hdlr', u32be(0), u32be(0), 'mdir', new Uint8Array(12)), ilst);
+    const chpl = box('chpl', [1, 0, 0, 0], u32be(0), [2],
+      u32be(0), u32be(0), [5], 'Intro',
+      u32be(0), u32be(600_000_000), [5], 'Verse'
+    );
+    // moov after mdat, as written by most encoders
+    const file = bytes(ftyp, box('mdat', new Uint8Array(4096)), box('moov', box('udta', meta, chpl)));
+
+    const result = await readMp4Metadata(source(file));
+
+    expect(result?.metadata).toEqual({
+      title: 'Mp4 Song',
+      artist: 'Mp4 Artist',
+      albumArtist: 'Album Artist',
+      album: 'Mp4 Album',
+      releaseDate: '2020-10-02',
+      year: 2020,
+      lyrics: 'Some lyrics',
+      trackNumber: 5,
+      trackTotal: 9,
+      discNumber: 1,
+      discTotal: 2,
+      genre: 'Rock',
+      replayGain: { albumGain: -8 },
+      musicBrainz: { recordingId: 'recording-mbid' },
+      chapters: [{ title: 'Intro', start: 0, end: 60 }, { title: 'Verse', start: 60 }]
+    });
+    expect(result?.pictures.map(picture => picture.mimeType)).toEqual(['image/png', 'image/jpeg']);
+  });
+
+  it('reads QuickTime chapter text tracks', async () => {
+    const samples = [bytes(u16be(5), 'Intro'), bytes(u16be(6), 'Chorus')];
+    const mdat = box('mdat', ...samples);
+    const sampleOffset = ftyp.length + 8;
+
+    const tkhd = (id: number) => box('tkhd', u32be(0), u32be(0), u32be(0), u32be(id), new Uint8Array(64));
+    const audioTrack = box('trak', tkhd(1), box('tref', box('chap', u32be(2))));
+    const stbl = box('stbl',
+      box('stts', u32be(0), u32be(2), u32be(1), u32be(30_000), u32be(1), u32be(45_000)),
+      box('stsc', u32be(0), u32be(1), u32be(1), u32be(2), u32be(1)),
+      box('stsz', u32be(0), u32be(0), u32be(2), u32be(samples[0]?.length ?? 0), u32be(samples[1]?.length ?? 0)),
+      box('stco', u32be(0), u32be(1), u32be(sampleOffset))
+    );
+    const mdhd = box('mdhd', u32be(0), u32be(0), u32be(0), u32be(1000), u32be(75_000), u32be(0));
+    const textTrack = box('trak', tkhd(2), box('mdia', mdhd, box('minf', stbl)));
+    const file = bytes(ftyp, mdat, box('moov', audioTrack, textTrack));
+
+    const result = await readMp4Metadata(source(file));
+
+    expect(result?.metadata.chapters).toEqual([
+      { title: 'Intro', start: 0, end: 30 },
+      { title: 'Chorus', start: 30, end: 75 }
+    ]);
+  });
+
+  it('ignores files without ftyp', async () => {
+    expect(await readMp4Metadata(source(bytes('fLaC', new Uint8Array(40))))).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { computeTagEdits, writeTagBytes } from '../../utils/tagWriter';
+import { parseID3v2 } from '../../utils/id3Parser';
+import { readFlacMetadata, readOggMetadata } from '../../utils/vorbisCommentParser';
+import { readMp4Metadata } from '../../utils/mp4TagParser';
+import type { ProbeSource } from '../../audio/AudioProber';
+
+// Strings are written as Latin-1 so atom names like "©nam" keep their 0xA9 byte
+function bytes(...parts: Array<string | number[] | Uint8Array>): Uint8Array {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? Uint8Array.from(part, c => c.charCodeAt(0))
+    : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  arrays.forEach(array => {
+    result.set(array, offset);
+    offset += array.length;
+  });
+  return result;
+}
+
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const u32le = (n: number) => u32be(n).reverse();
+const u16le = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const syncsafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f];
+
+function box(type: string, ...payload: Array<string | number[] | Uint8Array>): Uint8Array {
+  const body = bytes(...payload);
+  return bytes(u32be(body.length + 8), type, body);
+}
+
+function comment(...entries: string[]): Uint8Array {
+  return bytes(u32le(4), 'test', u32le(entries.length), ...entries.flatMap(entry => [u32le(entry.length), entry]));
+}
+
+function source(file: Uint8Array): ProbeSource {
+  return { size: file.length, read: async (offset, length) => file.subarray(offset, offset + length) };
+}
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo
+function mp3Frames(count: number): Uint8Array {
+  const frames = new Uint8Array(417 * count);
+  for (let i = 0; i < count; i++) frames.set([0xff, 0xfb, 0x90, 0x00, i], i * 417);
+  return frames;
+}
+
+const cover = { mimeType: 'image/png', data: Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 1, 2]) };
+
+describe('writeTagBytes', () => {
+  it('rewrites ID3v2.3 as v2.4, keeping frames that were not edited', () => {
+    const v23 = (id: string, payload: Uint8Array) => bytes(id, u32be(payload.length), [0, 0], payload);
+    const frames = bytes(
+      v23('TIT2', bytes([0], 'Old Title')),
+      v23('TYER', bytes([0], '1999')),
+      v23('TRCK', bytes([0], '3/10')),
+      v23('TXXX', bytes([0], 'REPLAYGAIN_TRACK_GAIN', [0], '-4.00 dB')),
+      v23('COMM', bytes([0], 'eng', [0], 'Old comment'))
+    );
+    const audio = mp3Frames(3);
+    const file = bytes('ID3', [3, 0, 0], syncsafe(frames.length), frames, audio);
+
+    const written = writeTagBytes(file, { title: 'New Title', album: 'New Album', trackNumber: 4, comment: '', cover });
+    const tag = parseID3v2(written);
+
+    expect(tag).toMatchObject({
+      version: 4,
+      title: 'New Title',
+      album: 'New Album',
+      releaseDate: '1999',
+      trackNumber: 4,
+      trackTotal: 10,
+      replayGain: { trackGain: -4 },
+      comments: []
+    });
+    expect(tag?.pictures[0]).toMatchObject({ type: 3, mimeType: 'image/png' });
+    expect(Array.from(written.subarray(written.length - audio.length))).toEqual(Array.from(audio));
+  });
+
+  it('replaces the FLAC comment block and pictures', async () => {
+    const packed = (44100 << 12) | (1 << 9) | (15 << 4);
+    const streamInfo = bytes(new Uint8Array(10), u32be(packed), u32be(441000), new Uint8Array(16));
+    const vorbis = comment('TITLE=Old', 'ARTIST=Artist', 'TOTALTRACKS=12');
+    const audio = bytes([0xff, 0xf8, 0x69, 0x08], new Uint8Array(100));
+    const file = bytes('fLaC', [0x00], u32be(streamInfo.length).slice(1), streamInfo, [0x84], u32be(vorbis.length).slice(1), vorbis, audio);
+
+    const written = writeTagBytes(file, { title: 'New', genre: 'Jazz', trackTotal: 9, cover });
+    const result = await readFlacMetadata(source(written));
+
+    expect(result?.metadata).toMatchObject({ title: 'New', artist: 'Artist', genre: 'Jazz', trackTotal: 9, duration: 10 });
+    expect(result?.pictures).toHaveLength(1);
+    expect(Array.from(written.subarray(written.length - audio.length))).toEqual(Array.from(audio));
+  });
+
+  it('repaginates the Opus comment header and renumbers later pages', async () => {
+    const page = (sequence: number, headerType: number, body: Uint8Array) => bytes(
+      'OggS', [0, headerType], new Uint8Array(8), u32le(1), u32le(sequence), u32le(0), [1, body.length], body
+    );
+    const opusHead = bytes('OpusHead', [1, 2], u16le(312), u32le(48000), [0, 0, 0]);
+    const audioPacket = bytes([0xfc], new Uint8Array(40));
+    const file = bytes(
+      page(0, 2, opusHead),
+      page(1, 0, bytes('OpusTags', comment('TITLE=Old'))),
+      page(2, 4, audioPacket)
+    );
+
+    // Large enough to need several pages
+    const lyrics = 'la '.repeat(40_000);
+    const written = writeTagBytes(file, { title: 'New', lyrics });
+    const result = await readOggMetadata(source(written));
+
+    expect(result?.metadata).toMatchObject({ title: 'New', lyrics: lyrics.trim() });
+    const lastPage = written.subarray(written.length - audioPacket.length - 28);
+    const view = new DataView(lastPage.buffer, lastPage.byteOffset);
+    expect(String.fromCharCode(...lastPage.subarray(0, 4))).toBe('OggS');
+    expect(view.getUint32(18, true)).toBeGreaterThan(2);
+    expect(Array.from(lastPage.subarray(28))).toEqual(Array.from(audioPacket));
+  });
+
+  it('grows the MP4 moov atom and shifts chunk offsets that point past it', async () => {
+    const ftyp = box('ftyp', 'M4A ', u32be(0), 'M4A isom');
+    const stbl = (offset: number) => box('stbl', box('stco', u32be(0), u32be(1), u32be(offset)));
+    const buildMoov = (offset: number) => box('moov', box('trak', box('mdia', box('minf', stbl(offset)))));
+    const moovLength = buildMoov(0).length;
+    const mdatPayload = bytes('AUDIODATA');
+    const file = bytes(ftyp, buildMoov(ftyp.length + moovLength + 8), box('mdat', mdatPayload));
+
+    const written = writeTagBytes(file, { title: 'Mp4 Title', trackNumber: 2, cover });
+    const result = await readMp4Metadata(source(written));
+
+    expect(result?.metadata).toMatchObject({ title: 'Mp4 Title', trackNumber: 2 });
+    expect(result?.pictures[0]?.mimeType).toBe('image/png');
+
+    const stco = Array.from(written).findIndex((_, i) => String.fromCharCode(...written.subarray(i, i + 4)) === 'stco');
+    const view = new DataView(written.buffer, written.byteOffset);
+    const chunkOffset = view.getUint32(stco + 12);
+    expect(String.fromCharCode(...written.subarray(chunkOffset, chunkOffset + 9))).toBe('AUDIODATA');
+  });
+
+  it('refuses containers without a supported tag format', () => {
+    const wav = bytes('RIFF', u32le(36), 'WAVE', 'fmt ', u32le(16), u16le(1), u16le(2), u32le(44100), u32le(176400), u16le(4), u16le(16), 'data', u32le(0));
+    expect(() => writeTagBytes(wav, { title: 'x' })).toThrow('not supported');
+  });
+});
+
+describe('computeTagEdits', () => {
+  it('only reports changed fields', () => {
+    const original = { title: 'A', artist: 'B', year: 2001, releaseDate: '2001-05-01', trackNumber: 1 };
+
+    expect(computeTagEdits(original, { ...original, duration: 100 })).toEqual({});
+    expect(computeTagEdits(original, { ...original, title: 'A2', artist: '', trackNumber: 0 })).toEqual({
+      title: 'A2',
+      artist: '',
+      trackNumber: 0
+    });
+    expect(computeTagEdits(original, { ...original, year: 2003 })).toEqual({ date: '2003' });
+    expect(computeTagEdits({ ...original, coverArt: 'data:image/png;base64,AQI=' }, original)).toEqual({ cover: null });
+  });
+});
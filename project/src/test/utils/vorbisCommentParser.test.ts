@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { mapCommentFields, parseVorbisComment, readFlacMetadata, readOggMetadata } from '../../utils/vorbisCommentParser';
+import type { ProbeSource } from '../../audio/AudioProber';
+
+function bytes(...parts: Array<string | number[] | Uint8Array>): Uint8Array {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? new TextEncoder().encode(part)
+    : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  arrays.forEach(array => {
+    result.set(array, offset);
+    offset += array.length;
+  });
+  return result;
+}
+
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const u32le = (n: number) => u32be(n).reverse();
+const u24be = (n: number) => u32be(n).slice(1);
+
+function comment(vendor: string, ...entries: string[]): Uint8Array {
+  return bytes(
+    u32le(new TextEncoder().encode(vendor).length), vendor, u32le(entries.length),
+    ...entries.flatMap(entry => [u32le(new TextEncoder().encode(entry).length), new TextEncoder().encode(entry)])
+  );
+}
+
+function picture(type: number, mimeType: string, data: number[]): Uint8Array {
+  return bytes(u32be(type), u32be(mimeType.length), mimeType, u32be(0), u32be(0), u32be(0), u32be(0), u32be(0), u32be(data.length), data);
+}
+
+function memorySource(file: Uint8Array): ProbeSource & { reads: number[] } {
+  const reads: number[] = [];
+  return {
+    size: file.length,
+    reads,
+    read: async (offset, length) => {
+      reads.push(length);
+      return file.subarray(offset, offset + length);
+    }
+  };
+}
+
+describe('parseVorbisComment', () => {
+  it('groups repeated fields case-insensitively', () => {
+    const result = parseVorbisComment(comment('reference libFLAC', 'ARTIST=One', 'artist=Two', 'TITLE=Tëst', 'broken'));
+
+    expect(result?.vendor).toBe('reference libFLAC');
+    expect(result?.fields).toEqual({ ARTIST: ['One', 'Two'], TITLE: ['Tëst'] });
+  });
+});
+
+describe('mapCommentFields', () => {
+  it('normalizes Vorbis and freeform field names', () => {
+    const metadata = mapCommentFields({
+      TITLE: ['Song'],
+      ARTIST: ['A', 'B'],
+      ALBUMARTIST: ['Various'],
+      DATE: ['2019-03-01'],
+      TRACKNUMBER: ['4/10'],
+      DISCNUMBER: ['2'],
+      TOTALDISCS: ['3'],
+      UNSYNCEDLYRICS: ['words'],
+      REPLAYGAIN_TRACK_GAIN: ['-3.5 dB'],
+      'MusicBrainz Album Id': ['album-mbid'],
+      MUSICBRAINZ_TRACKID: ['recording-mbid'],
+      CHAPTER002: ['00:01:30.500'],
+      CHAPTER002NAME: ['Verse'],
+      CHAPTER001: ['00:00:00.000']
+    });
+
+    expect(metadata).toEqual({
+      title: 'Song',
+      artist: 'A / B',
+      albumArtist: 'Various',
+      releaseDate: '2019-03-01',
+      year: 2019,
+      trackNumber: 4,
+      trackTotal: 10,
+      discNumber: 2,
+      discTotal: 3,
+      lyrics: 'words',
+      replayGain: { trackGain: -3.5 },
+      musicBrainz: { recordingId: 'recording-mbid', albumId: 'album-mbid' },
+      chapters: [{ title: 'Chapter 1', start: 0 }, { title: 'Verse', start: 90.5 }]
+    });
+  });
+});
+
+describe('readFlacMetadata', () => {
+  it('reads STREAMINFO, comments and pictures without reading padding', async () => {
+    // 44.1 kHz, 2 channels, 16 bits, 441000 samples
+    const packed = (44100 << 12) | (1 << 9) | (15 << 4);
+    const streamInfo = bytes(new Uint8Array(10), u32be(packed), u32be(441000), new Uint8Array(16));
+    const vorbis = comment('libFLAC', 'TITLE=Flac Song', 'ALBUM=Lossless');
+    const cover = picture(3, 'image/png', [0x89, 0x50, 0x4e, 0x47]);
+    const file = bytes(
+      'fLaC',
+      [0x00], u24be(streamInfo.length), streamInfo,
+      [0x01], u24be(8192), new Uint8Array(8192),
+      [0x04], u24be(vorbis.length), vorbis,
+      [0x86], u24be(cover.length), cover,
+      new Uint8Array(1000)
+    );
+    const source = memorySource(file);
+
+    const result = await readFlacMetadata(source);
+
+    expect(result?.metadata).toEqual({
+      sampleRate: 44100,
+      channels: 2,
+      bitDepth: 16,
+      duration: 10,
+      title: 'Flac Song',
+      album: 'Lossless'
+    });
+    expect(result?.pictures).toHaveLength(1);
+    expect(result?.pictures[0]).toMatchObject({ type: 3, mimeType: 'image/png' });
+    expect(source.reads).not.toContain(8192);
+  });
+
+  it('ignores files that are not FLAC', async () => {
+    expect(await readFlacMetadata(memorySource(bytes('OggS', new Uint8Array(60))))).toBeNull();
+  });
+});
+
+describe('readOggMetadata', () => {
+  function page(sequence: number, headerType: number, body: Uint8Array, lacing: number[]): Uint8Array {
+    return bytes('OggS', [0, headerType], new Uint8Array(8), u32le(7), u32le(sequence), u32le(0), [lacing.length], lacing, body);
+  }
+
+  it('reads OpusTags split across pages, including METADATA_BLOCK_PICTURE', async () => {
+    const opusHead = bytes('OpusHead', [1, 2], [0, 0], u32le(48000), [0, 0, 0]);
+    const cover = btoa(String.fromCharCode(...picture(3, 'image/jpeg', [0xff, 0xd8, 0xff])));
+    const tags = bytes('OpusTags', comment('libopus', 'TITLE=Opus Song', `LYRICS=${'la '.repeat(80)}`, `METADATA_BLOCK_PICTURE=${cover}`));
+    // First page holds 255 bytes and continues the packet on the next page
+    const head = tags.subarray(0, 255);
+    const rest = tags.subarray(255);
+
+    const file = bytes(
+      page(0, 2, opusHead, [opusHead.length]),
+      page(1, 0, head, [255]),
+      page(2, 1, rest, [rest.length])
+    );
+
+    const result = await readOggMetadata(memorySource(file));
+
+    expect(tags.length).toBeGreaterThan(255);
+    expect(result?.metadata.title).toBe('Opus Song');
+    expect(result?.pictures[0]).toMatchObject({ type: 3, mimeType: 'image/jpeg' });
+    expect(Array.from(result?.pictures[0]?.data ?? [])).toEqual([0xff, 0xd8, 0xff]);
+  });
+
+  it('reads the Vorbis comment header', async () => {
+    const identification = bytes([1], 'vorbis', new Uint8Array(23));
+    const commentPacket = bytes([3], 'vorbis', comment('Xiph', 'ARTIST=Vorbis Artist'), [1]);
+
+    const file = page(0, 2, bytes(identification, commentPacket), [identification.length, commentPacket.length]);
+    const result = await readOggMetadata(memorySource(file));
+
+    expect(result?.metadata.artist).toBe('Vorbis Artist');
+  });
+});
@@ -1,3 +1,5 @@
+import type { EqualizerBand } from '../audio/ParametricEqualizer';
+
 export interface User {
   id: string;
   email: string;
@@ -35,6 +37,10 @@ export interface Song {
   source?: string;
   description?: string;
   year?: number;
+  albumArtist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  releaseDate?: string;
 }
 
 export interface Comment {
@@ -90,6 +96,22 @@ export interface Playlist {
   autoGenerated?: boolean;
 }
 
+export interface TrackBookmark {
+  id: string;
+  songId: string;
+  userId: string | null; // null for guests
+  name: string;
+  time: number; // seconds
+  createdAt: number;
+}
+
+// One play of a song, as written by db.addToRecentlyPlayed
+export interface RecentPlay {
+  id: string; // `${song.id}-${timestamp}`
+  song: Song;
+  playedAt: Date;
+}
+
 export interface PlaybackState {
   currentSong: Song | null;
   isPlaying: boolean;
@@ -103,10 +125,9 @@ export interface PlaybackState {
   crossfadeEnabled: boolean;
   crossfadeDuration: number;
   equalizer: {
-    bass: number;
-    mid: number;
-    treble: number;
     enabled: boolean;
+    preamp: number; // dB
+    bands: EqualizerBand[];
   };
 }
 
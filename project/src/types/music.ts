@@ -111,6 +111,7 @@ export interface Playlist {
 export type AudioQuality = 'low' | 'medium' | 'high' | 'lossless';
 export type RepeatMode = 'none' | 'one' | 'all';
 export type PlaybackState = 'playing' | 'paused' | 'stopped' | 'loading' | 'error';
+export type ReplayGainMode = 'track' | 'album';
 
 export interface PlaybackSettings {
   volume: number;
@@ -119,11 +120,14 @@ export interface PlaybackSettings {
   repeatMode: RepeatMode;
   crossfadeEnabled: boolean;
   crossfadeDuration: number;
+  gaplessEnabled: boolean;
   audioQuality: AudioQuality;
   equalizerEnabled: boolean;
   equalizerPreset: string;
   equalizerBands: number[];
   replayGainEnabled: boolean;
+  replayGainMode: ReplayGainMode;
+  replayGainPreamp: number; // dB
   normalizationEnabled: boolean;
 }
 
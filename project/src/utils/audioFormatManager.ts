@@ -1,4 +1,5 @@
 import { Song } from '../types';
+import { AudioFormatDetector } from '../audio/AudioEngine';
 
 export interface AudioFormat {
   extension: string;
@@ -48,7 +49,9 @@ class AudioFormatManager {
   }
 
   async convertToSupportedFormat(file: File): Promise<File> {
-    if (this.isFormatSupported(file.name)) {
+    // Judge by the contents; the extension of a mislabelled file says nothing
+    const probe = await AudioFormatDetector.probe(file).catch(() => null);
+    if (probe ? AudioFormatDetector.canPlayProbe(probe) : this.isFormatSupported(file.name)) {
       return file;
     }
 
@@ -1,12 +1,59 @@
 // Audio metadata extraction utility
+import {
+  ID3V1_GENRES,
+  ID3_HEADER_SIZE,
+  PICTURE_TYPE_FRONT_COVER,
+  getID3v2Size,
+  parseID3v2,
+  type ID3Picture,
+  type ID3Tag,
+  type MusicBrainzIds,
+  type ReplayGainTags,
+  type SyncedLyricLine
+} from './id3Parser';
+import { readFlacMetadata, readOggMetadata } from './vorbisCommentParser';
+import { readMp4Metadata } from './mp4TagParser';
+import type { ProbeSource } from '../audio/AudioProber';
+
+export interface AudioChapter {
+  title: string;
+  start: number; // seconds
+  end?: number;
+}
+
 export interface AudioMetadata {
   title?: string;
   artist?: string;
+  albumArtist?: string;
   album?: string;
+  composer?: string;
   genre?: string;
   year?: number;
+  releaseDate?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
   duration?: number;
   coverArt?: string;
+  lyrics?: string;
+  syncedLyrics?: SyncedLyricLine[];
+  comment?: string;
+  rating?: number;
+  replayGain?: ReplayGainTags;
+  musicBrainz?: MusicBrainzIds;
+  chapters?: AudioChapter[];
+  sampleRate?: number;
+  channels?: number;
+  bitDepth?: number;
+}
+
+/**
+ * Normalized result of a container tag reader
+ */
+export interface EmbeddedTags {
+  metadata: Partial<AudioMetadata>;
+  pictures: ID3Picture[];
 }
 
 export class AudioMetadataExtractor {
@@ -33,16 +80,10 @@ export class AudioMetadataExtractor {
         metadata.duration = Math.floor(duration);
       }
 
-      // Try to extract ID3 tags (basic implementation)
-      const id3Data = await this.extractID3Tags(file);
-      if (id3Data) {
-        Object.assign(metadata, id3Data);
-      }
-
-      // Extract cover art if available
-      const coverArt = await this.extractCoverArt(file);
-      if (coverArt) {
-        metadata.coverArt = coverArt;
+      // Vorbis comments for FLAC/Ogg, ilst atoms for MP4, otherwise ID3; includes embedded cover art
+      const tagData = await this.extractContainerTags(file) ?? await this.extractID3Tags(file);
+      if (tagData) {
+        Object.assign(metadata, tagData);
       }
 
     } catch (error) {
@@ -123,50 +164,143 @@ export class AudioMetadataExtractor {
     });
   }
 
-  private async extractID3Tags(file: File): Promise<Partial<AudioMetadata> | null> {
+  /**
+   * Read native tags of FLAC, Ogg and MP4 files; null for other containers
+   */
+  private async extractContainerTags(file: File): Promise<Partial<AudioMetadata> | null> {
+    const source: ProbeSource = {
+      size: file.size,
+      read: async (offset, length) => length > 0
+        ? new Uint8Array(await this.readFileAsArrayBuffer(file, offset, length))
+        : new Uint8Array(0)
+    };
+
     try {
-      // Basic ID3v1 tag extraction (last 128 bytes)
-      const buffer = await this.readFileAsArrayBuffer(file, -128);
-      const view = new DataView(buffer);
-      
-      // Check for ID3v1 tag
-      const tagHeader = new TextDecoder().decode(new Uint8Array(buffer, 0, 3));
-      if (tagHeader === 'TAG') {
-        return {
-          title: this.extractString(buffer, 3, 30),
-          artist: this.extractString(buffer, 33, 30),
-          album: this.extractString(buffer, 63, 30),
-          year: parseInt(this.extractString(buffer, 93, 4)) || undefined,
-          genre: this.getGenreFromByte(view.getUint8(127))
-        };
-      }
+      // FLAC files occasionally carry a leading ID3v2 tag as well
+      const start = getID3v2Size(await source.read(0, ID3_HEADER_SIZE));
+      const magic = new TextDecoder('latin1').decode(await source.read(start, 8));
 
-      // Try ID3v2 (more complex, basic implementation)
-      const id3v2Buffer = await this.readFileAsArrayBuffer(file, 0, 10);
-      const id3v2Header = new TextDecoder().decode(new Uint8Array(id3v2Buffer, 0, 3));
-      if (id3v2Header === 'ID3') {
-        // ID3v2 is more complex, would need full parser
-        // For now, return null and rely on filename parsing
-        return null;
+      let tags: EmbeddedTags | null = null;
+      if (magic.startsWith('fLaC')) {
+        tags = await readFlacMetadata(source);
+      } else if (magic.startsWith('OggS')) {
+        tags = await readOggMetadata(source);
+      } else if (magic.slice(4) === 'ftyp') {
+        tags = await readMp4Metadata(source);
       }
+      if (!tags) return null;
 
+      const { duration, ...metadata } = tags.metadata;
+      const coverArt = this.pickCoverArt(tags.pictures);
+      return {
+        ...this.withoutEmpty(metadata),
+        ...(duration ? { duration: Math.floor(duration) } : {}),
+        ...(coverArt ? { coverArt } : {})
+      };
     } catch (error) {
-      console.warn('ID3 extraction failed:', error);
+      console.warn('Container tag extraction failed:', error);
+      return null;
     }
-    
-    return null;
   }
 
-  private async extractCoverArt(file: File): Promise<string | null> {
+  private async extractID3Tags(file: File): Promise<Partial<AudioMetadata> | null> {
+    let id3v2: Partial<AudioMetadata> | null = null;
+    let id3v1: Partial<AudioMetadata> | null = null;
+
     try {
-      // This is a simplified implementation
-      // In a real app, you'd need a proper ID3 parser to extract embedded artwork
-      // For now, we'll return null and let the UI use default artwork
-      return null;
+      const header = new Uint8Array(await this.readFileAsArrayBuffer(file, 0, ID3_HEADER_SIZE));
+      const size = getID3v2Size(header);
+      if (size > 0) {
+        const tag = parseID3v2(new Uint8Array(await this.readFileAsArrayBuffer(file, 0, size)));
+        if (tag) {
+          id3v2 = this.mapID3v2Tag(tag);
+        }
+      }
     } catch (error) {
-      console.warn('Cover art extraction failed:', error);
-      return null;
+      console.warn('ID3v2 extraction failed:', error);
+    }
+
+    try {
+      // ID3v1 tag (last 128 bytes)
+      if (file.size >= 128) {
+        const buffer = await this.readFileAsArrayBuffer(file, -128);
+        const view = new DataView(buffer);
+
+        const tagHeader = new TextDecoder().decode(new Uint8Array(buffer, 0, 3));
+        if (tagHeader === 'TAG') {
+          const year = parseInt(this.extractString(buffer, 93, 4));
+          const genre = this.getGenreFromByte(view.getUint8(127));
+          id3v1 = this.withoutEmpty({
+            title: this.extractString(buffer, 3, 30),
+            artist: this.extractString(buffer, 33, 30),
+            album: this.extractString(buffer, 63, 30),
+            ...(year ? { year } : {}),
+            ...(genre ? { genre } : {}),
+            // ID3v1.1 keeps the track number in the last comment byte
+            ...(view.getUint8(125) === 0 && view.getUint8(126) > 0 ? { trackNumber: view.getUint8(126) } : {})
+          });
+        }
+      }
+    } catch (error) {
+      console.warn('ID3v1 extraction failed:', error);
+    }
+
+    if (!id3v2 && !id3v1) return null;
+    return { ...id3v1, ...id3v2 };
+  }
+
+  /**
+   * Map a parsed ID3v2 tag onto metadata fields, dropping empty values
+   */
+  private mapID3v2Tag(tag: ID3Tag): Partial<AudioMetadata> {
+    const comment = tag.comments.find(candidate => !candidate.description) ?? tag.comments[0];
+
+    return this.withoutEmpty({
+      title: tag.title,
+      artist: tag.artist,
+      albumArtist: tag.albumArtist,
+      album: tag.album,
+      composer: tag.composer,
+      genre: tag.genre,
+      year: tag.year,
+      releaseDate: tag.releaseDate,
+      trackNumber: tag.trackNumber,
+      trackTotal: tag.trackTotal,
+      discNumber: tag.discNumber,
+      discTotal: tag.discTotal,
+      lyrics: tag.lyrics,
+      syncedLyrics: tag.syncedLyrics,
+      comment: comment?.text,
+      rating: tag.rating,
+      replayGain: tag.replayGain,
+      musicBrainz: tag.musicBrainz,
+      coverArt: this.pickCoverArt(tag.pictures)
+    });
+  }
+
+  /**
+   * Front cover as a data URL, otherwise the first embedded picture
+   */
+  private pickCoverArt(pictures: ID3Picture[]): string | undefined {
+    // "-->" marks a linked rather than embedded image
+    const embedded = pictures.filter(picture => picture.mimeType !== '-->');
+    const picture = embedded.find(candidate => candidate.type === PICTURE_TYPE_FRONT_COVER) ?? embedded[0];
+    return picture ? this.pictureToDataUrl(picture) : undefined;
+  }
+
+  private pictureToDataUrl(picture: ID3Picture): string {
+    // Chunked so large artwork doesn't overflow the argument limit of fromCharCode
+    let binary = '';
+    for (let i = 0; i < picture.data.length; i += 0x8000) {
+      binary += String.fromCharCode(...picture.data.subarray(i, i + 0x8000));
     }
+    return `data:${picture.mimeType};base64,${btoa(binary)}`;
+  }
+
+  private withoutEmpty(metadata: { [K in keyof AudioMetadata]?: AudioMetadata[K] | undefined }): Partial<AudioMetadata> {
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined && value !== '')
+    ) as Partial<AudioMetadata>;
   }
 
   private async readFileAsArrayBuffer(file: File, start?: number, length?: number): Promise<ArrayBuffer> {
@@ -193,24 +327,7 @@ export class AudioMetadataExtractor {
   }
 
   private getGenreFromByte(genreByte: number): string | undefined {
-    const genres = [
-      'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge',
-      'Hip-Hop', 'Jazz', 'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B',
-      'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial', 'Alternative', 'Ska',
-      'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient',
-      'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance', 'Classical',
-      'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel',
-      'Noise', 'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space',
-      'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic',
-      'Gothic', 'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk',
-      'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
-      'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native US',
-      'Cabaret', 'New Wave', 'Psychadelic', 'Rave', 'Showtunes', 'Trailer',
-      'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro',
-      'Musical', 'Rock & Roll', 'Hard Rock'
-    ];
-    
-    return genres[genreByte] || undefined;
+    return ID3V1_GENRES[genreByte] || undefined;
   }
 
   // Enhanced filename parsing with more patterns
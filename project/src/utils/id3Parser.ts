@@ -0,0 +1,535 @@
+/**
+ * ID3v2 tag parser for Meow-Play
+ * Features: ID3v2.2/2.3/2.4, unsynchronisation, extended headers, ISO-8859-1/UTF-16/UTF-8 text,
+ * APIC/PIC pictures, USLT/SYLT lyrics, COMM, TXXX (ReplayGain, MusicBrainz), UFID, POPM/PCNT
+ */
+
+export interface ID3Picture {
+  type: number; // APIC picture type, 3 = front cover
+  mimeType: string;
+  description: string;
+  data: Uint8Array;
+}
+
+export interface ID3Comment {
+  language: string;
+  description: string;
+  text: string;
+}
+
+export interface SyncedLyricLine {
+  time: number; // seconds
+  text: string;
+}
+
+export interface ReplayGainTags {
+  trackGain?: number; // dB
+  trackPeak?: number;
+  albumGain?: number; // dB
+  albumPeak?: number;
+}
+
+export interface MusicBrainzIds {
+  recordingId?: string;
+  trackId?: string;
+  albumId?: string;
+  artistId?: string;
+  albumArtistId?: string;
+  releaseGroupId?: string;
+}
+
+export interface ID3Tag {
+  version: number; // major version: 2, 3 or 4
+  size: number; // bytes, header and footer included
+  title?: string;
+  artist?: string;
+  albumArtist?: string;
+  album?: string;
+  composer?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
+  year?: number;
+  releaseDate?: string; // YYYY, YYYY-MM or YYYY-MM-DD
+  genre?: string;
+  lyrics?: string;
+  syncedLyrics?: SyncedLyricLine[];
+  comments: ID3Comment[];
+  pictures: ID3Picture[];
+  userText: Record<string, string>; // TXXX description -> value
+  rating?: number; // 1-5 stars from POPM
+  playCount?: number;
+  replayGain?: ReplayGainTags;
+  musicBrainz?: MusicBrainzIds;
+}
+
+export const ID3_HEADER_SIZE = 10;
+
+export const PICTURE_TYPE_FRONT_COVER = 3;
+
+export const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge',
+  'Hip-Hop', 'Jazz', 'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B',
+  'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial', 'Alternative', 'Ska',
+  'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient',
+  'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance', 'Classical',
+  'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel',
+  'Noise', 'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space',
+  'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic',
+  'Gothic', 'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk',
+  'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native US',
+  'Cabaret', 'New Wave', 'Psychadelic', 'Rave', 'Showtunes', 'Trailer',
+  'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro',
+  'Musical', 'Rock & Roll', 'Hard Rock'
+];
+
+// ID3v2.2 three-character frame IDs and their v2.3/2.4 equivalents
+const V22_FRAME_IDS: Record<string, string> = {
+  TT2: 'TIT2', TP1: 'TPE1', TP2: 'TPE2', TAL: 'TALB', TCM: 'TCOM', TRK: 'TRCK', TPA: 'TPOS',
+  TYE: 'TYER', TDA: 'TDAT', TCO: 'TCON', PIC: 'APIC', ULT: 'USLT', SLT: 'SYLT',
+  COM: 'COMM', TXX: 'TXXX', POP: 'POPM', CNT: 'PCNT', UFI: 'UFID'
+};
+
+const V22_IMAGE_FORMATS: Record<string, string> = { JPG: 'image/jpeg', PNG: 'image/png', GIF: 'image/gif', BMP: 'image/bmp' };
+
+const MUSICBRAINZ_TXXX: Record<string, keyof MusicBrainzIds> = {
+  'musicbrainz release track id': 'trackId',
+  'musicbrainz album id': 'albumId',
+  'musicbrainz artist id': 'artistId',
+  'musicbrainz album artist id': 'albumArtistId',
+  'musicbrainz release group id': 'releaseGroupId'
+};
+
+// Comments written by encoders rather than people
+const TECHNICAL_COMMENTS = /^(iTun|Songs-DB)/;
+
+export interface ID3Frame {
+  id: string; // v2.3/2.4 ID
+  data: Uint8Array; // payload with unsynchronisation and per-frame prefixes removed
+}
+
+/**
+ * Size of the ID3v2 tag at the start of the bytes (0 when there is none); needs the first 10 bytes
+ */
+export function getID3v2Size(bytes: Uint8Array): number {
+  if (bytes.length < ID3_HEADER_SIZE || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0;
+
+  const flags = bytes[5] ?? 0;
+  return ID3_HEADER_SIZE + readSyncsafe(bytes, 6) + (flags & 0x10 ? ID3_HEADER_SIZE : 0);
+}
+
+/**
+ * Read the raw frames of the ID3v2 tag at the start of the bytes; v2.2 IDs are mapped to v2.3/2.4 IDs
+ */
+export function readID3v2Frames(bytes: Uint8Array): { version: number; size: number; frames: ID3Frame[] } | null {
+  const size = getID3v2Size(bytes);
+  const version = bytes[3] ?? 0;
+  if (!size || version < 2 || version > 4 || size > bytes.length) return null;
+
+  const flags = bytes[5] ?? 0;
+  // v2.2 compression was never specified
+  if (version === 2 && flags & 0x40) return null;
+
+  let body = bytes.subarray(ID3_HEADER_SIZE, ID3_HEADER_SIZE + readSyncsafe(bytes, 6));
+  // Before v2.4 unsynchronisation applies to the whole tag, from v2.4 on to each frame
+  if (version < 4 && flags & 0x80) body = resync(body);
+
+  let offset = 0;
+  if (version >= 3 && flags & 0x40) {
+    offset = version === 3 ? 4 + readUint32(body, 0) : readSyncsafe(body, 0);
+  }
+
+  return { version, size, frames: readFrames(body, offset, version, version === 4 && !!(flags & 0x80)) };
+}
+
+/**
+ * Parse a complete ID3v2 tag from the start of the bytes
+ */
+export function parseID3v2(bytes: Uint8Array): ID3Tag | null {
+  const raw = readID3v2Frames(bytes);
+  if (!raw) return null;
+
+  const { version, size, frames } = raw;
+  const tag: ID3Tag = { version, size, comments: [], pictures: [], userText: {} };
+  frames.forEach(frame => applyFrame(tag, frame, version));
+
+  const legacyDate = readLegacyDate(frames);
+  if (!tag.releaseDate && legacyDate) tag.releaseDate = legacyDate;
+  const year = parseInt(tag.releaseDate ?? '', 10);
+  if (year > 0) tag.year = year;
+
+  return tag;
+}
+
+/**
+ * Map a POPM rating byte (0-255) onto 1-5 stars; 0 means unrated
+ */
+export function popularimeterToStars(rating: number): number | undefined {
+  if (rating <= 0) return undefined;
+  if (rating < 32) return 1;
+  if (rating < 96) return 2;
+  if (rating < 160) return 3;
+  if (rating < 224) return 4;
+  return 5;
+}
+
+/**
+ * Resolve ID3v1 genre references: "(17)", "(17)Rock", "17" or a plain name
+ */
+export function resolveGenre(value: string): string {
+  const reference = value.match(/^\((\d+)\)(.*)$/) ?? value.match(/^(\d+)()$/);
+  if (!reference) return value.replace(/^\(\((.*)$/, '($1');
+
+  const refined = reference[2]?.trim();
+  return refined || ID3V1_GENRES[Number(reference[1])] || value;
+}
+
+/**
+ * Normalize tag dates ("2021-06-04T10:00", "2021") to YYYY[-MM[-DD]]
+ */
+export function normalizeDate(value: string): string {
+  const match = value.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  if (!match) return value;
+  return [match[1], match[2], match[3]].filter(Boolean).join('-');
+}
+
+function readFrames(body: Uint8Array, start: number, version: number, tagUnsync: boolean): ID3Frame[] {
+  const frames: ID3Frame[] = [];
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  let offset = start;
+
+  while (offset + headerLength <= body.length) {
+    const id = readLatin1(body, offset, idLength);
+    // Padding or garbage ends the frame list
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+
+    let size: number;
+    if (version === 2) {
+      size = ((body[offset + 3] ?? 0) << 16) | ((body[offset + 4] ?? 0) << 8) | (body[offset + 5] ?? 0);
+    } else if (version === 3) {
+      size = readUint32(body, offset + 4);
+    } else {
+      size = readSyncsafe(body, offset + 4);
+      // Some writers (older iTunes) use plain sizes in v2.4; trust whichever lands on a frame
+      const plain = readUint32(body, offset + 4);
+      if (plain !== size && !isFrameStart(body, offset + 10 + size) && isFrameStart(body, offset + 10 + plain)) {
+        size = plain;
+      }
+    }
+
+    const dataStart = offset + headerLength;
+    const dataEnd = dataStart + size;
+    if (size <= 0 || dataEnd > body.length) break;
+
+    const formatFlags = version === 2 ? 0 : body[offset + 9] ?? 0;
+    const data = readFrameData(body.subarray(dataStart, dataEnd), version, formatFlags, tagUnsync);
+    if (data) {
+      frames.push({ id: version === 2 ? V22_FRAME_IDS[id] ?? id : id, data });
+    }
+
+    offset = dataEnd;
+  }
+
+  return frames;
+}
+
+/**
+ * Strip per-frame grouping/length prefixes and undo unsynchronisation; compressed or encrypted frames are skipped
+ */
+function readFrameData(data: Uint8Array, version: number, flags: number, tagUnsync: boolean): Uint8Array | null {
+  if (version === 3) {
+    if (flags & 0xc0) return null; // compression, encryption
+    return flags & 0x20 ? data.subarray(1) : data;
+  }
+
+  if (version === 4) {
+    if (flags & 0x0c) return null; // compression, encryption
+    let offset = 0;
+    if (flags & 0x40) offset += 1; // group identifier
+    if (flags & 0x01) offset += 4; // data length indicator
+    const payload = data.subarray(offset);
+    return flags & 0x02 || tagUnsync ? resync(payload) : payload;
+  }
+
+  return data;
+}
+
+function isFrameStart(body: Uint8Array, offset: number): boolean {
+  if (offset === body.length) return true;
+  if (offset + 4 > body.length) return false;
+  const id = readLatin1(body, offset, 4);
+  return /^[A-Z0-9]{4}$/.test(id) || (body[offset] ?? 0) === 0;
+}
+
+function applyFrame(tag: ID3Tag, frame: ID3Frame, version: number): void {
+  const { id, data } = frame;
+
+  if (id.startsWith('T') && id !== 'TXXX') {
+    const values = decodeText(data.subarray(1), data[0] ?? 0)
+      .split('\0')
+      .map(value => value.trim())
+      .filter(Boolean);
+    const value = values.join(' / ');
+    if (value) applyTextFrame(tag, id, values, value);
+    return;
+  }
+
+  switch (id) {
+    case 'TXXX': {
+      const encoding = data[0] ?? 0;
+      const [description, rest] = splitTerminated(data, 1, encoding);
+      const value = decodeText(rest, encoding).replace(/\0+$/, '').trim();
+      if (description) {
+        tag.userText[description] = value;
+        applyUserText(tag, description, value);
+      }
+      break;
+    }
+    case 'COMM':
+    case 'USLT': {
+      const encoding = data[0] ?? 0;
+      const language = readLatin1(data, 1, 3);
+      const [description, rest] = splitTerminated(data, 4, encoding);
+      const text = decodeText(rest, encoding).replace(/\0+$/, '').trim();
+      if (!text) break;
+
+      if (id === 'USLT') {
+        tag.lyrics ??= text;
+      } else if (!TECHNICAL_COMMENTS.test(description)) {
+        tag.comments.push({ language, description, text });
+      }
+      break;
+    }
+    case 'SYLT': {
+      const lines = parseSyncedLyrics(data);
+      if (lines && !tag.syncedLyrics) tag.syncedLyrics = lines;
+      break;
+    }
+    case 'APIC': {
+      const picture = version === 2 ? parseV22Picture(data) : parsePicture(data);
+      if (picture) tag.pictures.push(picture);
+      break;
+    }
+    case 'POPM': {
+      const [, rest] = splitTerminated(data, 0, 0);
+      const stars = popularimeterToStars(rest[0] ?? 0);
+      if (stars !== undefined) tag.rating ??= stars;
+      if (rest.length > 1) tag.playCount ??= readCounter(rest.subarray(1));
+      break;
+    }
+    case 'PCNT':
+      tag.playCount = readCounter(data);
+      break;
+    case 'UFID': {
+      const [owner, identifier] = splitTerminated(data, 0, 0);
+      if (owner === 'http://musicbrainz.org') {
+        tag.musicBrainz = { ...tag.musicBrainz, recordingId: readLatin1(identifier, 0, identifier.length) };
+      }
+      break;
+    }
+  }
+}
+
+function applyTextFrame(tag: ID3Tag, id: string, values: string[], value: string): void {
+  switch (id) {
+    case 'TIT2': tag.title = value; break;
+    case 'TPE1': tag.artist = value; break;
+    case 'TPE2': tag.albumArtist = value; break;
+    case 'TALB': tag.album = value; break;
+    case 'TCOM': tag.composer = value; break;
+    case 'TCON': tag.genre = values.map(resolveGenre).join(' / '); break;
+    case 'TRCK':
+    case 'TPOS': {
+      const [number, total] = value.split('/').map(part => parseInt(part, 10));
+      if (id === 'TRCK') {
+        if (number && number > 0) tag.trackNumber = number;
+        if (total && total > 0) tag.trackTotal = total;
+      } else {
+        if (number && number > 0) tag.discNumber = number;
+        if (total && total > 0) tag.discTotal = total;
+      }
+      break;
+    }
+    case 'TDRL':
+      // Release time wins over recording time
+      tag.releaseDate = normalizeDate(value);
+      break;
+    case 'TDRC':
+      tag.releaseDate ??= normalizeDate(value);
+      break;
+  }
+}
+
+/**
+ * v2.3 dates: TYER (YYYY) refined by TDAT (DDMM)
+ */
+function readLegacyDate(frames: ID3Frame[]): string | undefined {
+  const text = (id: string) => {
+    const frame = frames.find(candidate => candidate.id === id);
+    return frame ? decodeText(frame.data.subarray(1), frame.data[0] ?? 0).replace(/\0+$/, '').trim() : '';
+  };
+
+  const year = text('TYER');
+  if (!/^\d{4}$/.test(year)) return undefined;
+
+  const date = text('TDAT');
+  return /^\d{4}$/.test(date) ? `${year}-${date.slice(2, 4)}-${date.slice(0, 2)}` : year;
+}
+
+function applyUserText(tag: ID3Tag, description: string, value: string): void {
+  const key = description.toLowerCase();
+
+  const gain = key.match(/^replaygain_(track|album)_(gain|peak)$/);
+  if (gain) {
+    const number = parseFloat(value);
+    if (isNaN(number)) return;
+    const field = `${gain[1]}${gain[2] === 'gain' ? 'Gain' : 'Peak'}` as keyof ReplayGainTags;
+    tag.replayGain = { ...tag.replayGain, [field]: number };
+    return;
+  }
+
+  const musicBrainzField = MUSICBRAINZ_TXXX[key];
+  if (musicBrainzField && value) {
+    tag.musicBrainz = { ...tag.musicBrainz, [musicBrainzField]: value };
+  }
+}
+
+function parsePicture(data: Uint8Array): ID3Picture | null {
+  const encoding = data[0] ?? 0;
+  const [mimeType, afterMime] = splitTerminated(data, 1, 0);
+  const type = afterMime[0] ?? 0;
+  const descriptionStart = data.length - afterMime.length + 1;
+  const [description, picture] = splitTerminated(data, descriptionStart, encoding);
+  if (!picture.length) return null;
+
+  return {
+    type,
+    // "-->" marks a link instead of embedded data
+    mimeType: mimeType === '-->' ? mimeType : normalizeImageType(mimeType, picture),
+    description,
+    data: picture
+  };
+}
+
+function parseV22Picture(data: Uint8Array): ID3Picture | null {
+  const encoding = data[0] ?? 0;
+  const format = readLatin1(data, 1, 3).toUpperCase();
+  const type = data[4] ?? 0;
+  const [description, picture] = splitTerminated(data, 5, encoding);
+  if (!picture.length) return null;
+
+  return { type, mimeType: V22_IMAGE_FORMATS[format] ?? normalizeImageType('', picture), description, data: picture };
+}
+
+function normalizeImageType(mimeType: string, data: Uint8Array): string {
+  const lower = mimeType.toLowerCase();
+  if (lower.startsWith('image/')) return lower === 'image/jpg' ? 'image/jpeg' : lower;
+  if (lower === 'jpg' || lower === 'jpeg') return 'image/jpeg';
+  if (lower === 'png') return 'image/png';
+
+  // Sniff the image when the MIME type is missing or bogus
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data[0] === 0x89 && data[1] === 0x50) return 'image/png';
+  return 'image/jpeg';
+}
+
+/**
+ * SYLT with millisecond timestamps; MPEG frame timestamps need the frame rate and are ignored
+ */
+function parseSyncedLyrics(data: Uint8Array): SyncedLyricLine[] | null {
+  const encoding = data[0] ?? 0;
+  const timestampFormat = data[4] ?? 0;
+  if (timestampFormat !== 2) return null;
+
+  const [, content] = splitTerminated(data, 6, encoding);
+  const lines: SyncedLyricLine[] = [];
+  let rest = content;
+
+  while (rest.length > 4) {
+    const [text, afterText] = splitTerminated(rest, 0, encoding);
+    if (afterText.length < 4) break;
+    lines.push({ time: readUint32(afterText, 0) / 1000, text: text.replace(/^\n/, '') });
+    rest = afterText.subarray(4);
+  }
+
+  return lines.length > 0 ? lines.sort((a, b) => a.time - b.time) : null;
+}
+
+/**
+ * Split off a NUL-terminated string (two NULs on even offsets for UTF-16)
+ */
+function splitTerminated(data: Uint8Array, offset: number, encoding: number): [string, Uint8Array] {
+  const wide = encoding === 1 || encoding === 2;
+  let end = offset;
+
+  if (wide) {
+    while (end + 1 < data.length && (data[end] !== 0 || data[end + 1] !== 0)) end += 2;
+  } else {
+    while (end < data.length && data[end] !== 0) end++;
+  }
+
+  const text = decodeText(data.subarray(offset, end), encoding);
+  const next = Math.min(data.length, end + (wide ? 2 : 1));
+  return [text, data.subarray(next)];
+}
+
+function decodeText(data: Uint8Array, encoding: number): string {
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with BOM; a missing BOM is read as little endian like most writers produce
+      if (data[0] === 0xfe && data[1] === 0xff) return new TextDecoder('utf-16be').decode(data.subarray(2));
+      if (data[0] === 0xff && data[1] === 0xfe) return new TextDecoder('utf-16le').decode(data.subarray(2));
+      return new TextDecoder('utf-16le').decode(data);
+    }
+    case 2:
+      return new TextDecoder('utf-16be').decode(data);
+    case 3:
+      return new TextDecoder('utf-8').decode(data);
+    default:
+      return readLatin1(data, 0, data.length);
+  }
+}
+
+/**
+ * Undo unsynchronisation: every 0xFF 0x00 pair becomes 0xFF
+ */
+function resync(data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(data.length);
+  let length = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i] ?? 0;
+    result[length++] = byte;
+    if (byte === 0xff && data[i + 1] === 0x00) i++;
+  }
+
+  return result.subarray(0, length);
+}
+
+function readCounter(data: Uint8Array): number {
+  let value = 0;
+  for (let i = 0; i < data.length; i++) value = value * 256 + (data[i] ?? 0);
+  return value;
+}
+
+function readLatin1(data: Uint8Array, offset: number, length: number): string {
+  let result = '';
+  for (let i = offset; i < Math.min(data.length, offset + length); i++) {
+    result += String.fromCharCode(data[i] ?? 0);
+  }
+  return result;
+}
+
+function readSyncsafe(data: Uint8Array, offset: number): number {
+  return (((data[offset] ?? 0) & 0x7f) << 21) |
+    (((data[offset + 1] ?? 0) & 0x7f) << 14) |
+    (((data[offset + 2] ?? 0) & 0x7f) << 7) |
+    ((data[offset + 3] ?? 0) & 0x7f);
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (((data[offset] ?? 0) << 24) | ((data[offset + 1] ?? 0) << 16) | ((data[offset + 2] ?? 0) << 8) | (data[offset + 3] ?? 0)) >>> 0;
+}
@@ -1,4 +1,15 @@
-import { Song, Playlist } from '../types';
+import { Song, Playlist, TrackBookmark, RecentPlay } from '../types';
+import type { LoudnessInfo } from '../audio/LoudnessNormalizer';
+import type { StoredAudioFeatures, StoredWaveform } from '../audio/AudioFeatureAnalyzer';
+
+// Dispatched on window with { songId, bookmarks } whenever a song's bookmarks change
+export const BOOKMARKS_CHANGE_EVENT = 'player-bookmarks-change';
+
+// Dispatched on window when the user logs out; offline downloads tied to the device key are wiped
+export const LOGOUT_EVENT = 'user-logout';
+
+// Dispatched on window with { userId } when a user signs in or their session is restored
+export const LOGIN_EVENT = 'user-login';
 
 interface DBCollection<T> {
   get(id: string): Promise<T | undefined>;
@@ -14,16 +25,26 @@ interface DBCollection<T> {
 
 class IndexedDBManager {
   private dbName = 'MusicStreamingDB';
-  private version = 1;
+  private version = 5;
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
 
   public songs: DBCollection<Song>;
   public playlists: DBCollection<Playlist>;
+  public recentlyPlayed: DBCollection<RecentPlay>;
+  public loudness: DBCollection<LoudnessInfo>;
+  public bookmarks: DBCollection<TrackBookmark>;
+  public audioFeatures: DBCollection<StoredAudioFeatures>;
+  public waveforms: DBCollection<StoredWaveform>;
 
   constructor() {
     this.songs = this.createCollection<Song>('songs');
     this.playlists = this.createCollection<Playlist>('playlists');
+    this.recentlyPlayed = this.createCollection<RecentPlay>('recentlyPlayed');
+    this.loudness = this.createCollection<LoudnessInfo>('loudness');
+    this.bookmarks = this.createCollection<TrackBookmark>('bookmarks');
+    this.audioFeatures = this.createCollection<StoredAudioFeatures>('audioFeatures');
+    this.waveforms = this.createCollection<StoredWaveform>('waveforms');
   }
 
   private createCollection<T>(storeName: string): DBCollection<T> {
@@ -186,6 +207,27 @@ class IndexedDBManager {
             const recentStore = db.createObjectStore('recentlyPlayed', { keyPath: 'id' });
             recentStore.createIndex('playedAt', 'playedAt', { unique: false });
           }
+
+          // Loudness analysis / ReplayGain cache, keyed by song ID
+          if (!db.objectStoreNames.contains('loudness')) {
+            db.createObjectStore('loudness', { keyPath: 'songId' });
+          }
+
+          // Named timestamp bookmarks per song
+          if (!db.objectStoreNames.contains('bookmarks')) {
+            const bookmarkStore = db.createObjectStore('bookmarks', { keyPath: 'id' });
+            bookmarkStore.createIndex('songId', 'songId', { unique: false });
+          }
+
+          // Extracted tempo/key/energy per song
+          if (!db.objectStoreNames.contains('audioFeatures')) {
+            db.createObjectStore('audioFeatures', { keyPath: 'songId' });
+          }
+
+          // Waveform peaks per song, 8-bit min/max at several zoom levels
+          if (!db.objectStoreNames.contains('waveforms')) {
+            db.createObjectStore('waveforms', { keyPath: 'songId' });
+          }
         } catch (error) {
           console.error('Error creating object stores:', error);
           reject(error);
@@ -316,6 +358,22 @@ class IndexedDBManager {
     });
   }
 
+  async getBookmarks(songId: string, userId: string | null): Promise<TrackBookmark[]> {
+    return this.performTransaction('bookmarks', 'readonly', (store) => {
+      return new Promise<TrackBookmark[]>((resolve, reject) => {
+        const index = (store as IDBObjectStore).index('songId');
+        const request = index.getAll(songId);
+        request.onsuccess = () => {
+          const bookmarks: TrackBookmark[] = request.result || [];
+          resolve(bookmarks
+            .filter(bookmark => bookmark.userId === userId)
+            .sort((a, b) => a.time - b.time));
+        };
+        request.onerror = () => reject(request.error);
+      });
+    });
+  }
+
   async addToRecentlyPlayed(song: Song): Promise<void> {
     const recentItem = {
       id: `${song.id}-${Date.now()}`,
@@ -0,0 +1,324 @@
+/**
+ * MP4/M4A atom metadata reader for Meow-Play
+ * Features: moov/udta/meta/ilst items (©nam, ©ART, aART, trkn, disk, covr, ©lyr, ...), iTunes freeform atoms,
+ * Nero chpl and QuickTime chapter tracks
+ */
+
+import { AudioProber, type ProbeSource } from '../audio/AudioProber';
+import type { AudioChapter, AudioMetadata, EmbeddedTags } from './audioMetadata';
+import { ID3V1_GENRES, PICTURE_TYPE_FRONT_COVER, normalizeDate, type ID3Picture } from './id3Parser';
+import { mapCommentFields } from './vorbisCommentParser';
+
+interface Atom {
+  type: string;
+  start: number; // offset of the payload
+  end: number;
+}
+
+interface DataItem {
+  type: number; // well-known data type: 1 UTF-8, 13 JPEG, 14 PNG, 21 signed integer, 0 implicit
+  value: Uint8Array;
+}
+
+const DATA_TYPE_UTF16 = 2;
+const DATA_TYPE_JPEG = 13;
+const DATA_TYPE_PNG = 14;
+const DATA_TYPE_BMP = 27;
+
+const MAX_CHAPTERS = 1000;
+
+const TEXT_ITEMS: Record<string, keyof AudioMetadata> = {
+  '©nam': 'title',
+  '©ART': 'artist',
+  'aART': 'albumArtist',
+  '©alb': 'album',
+  '©wrt': 'composer',
+  '©gen': 'genre',
+  '©lyr': 'lyrics',
+  '©cmt': 'comment'
+};
+
+/**
+ * Read ilst metadata and chapters from the moov atom, wherever it sits in the file
+ */
+export async function readMp4Metadata(source: ProbeSource): Promise<EmbeddedTags | null> {
+  const head = await source.read(0, 8);
+  if (readLatin1(head, 4, 4) !== 'ftyp' || source.size === null) return null;
+
+  const bytes = await AudioProber.findTopLevelBox(source, 'moov', source.size);
+  if (!bytes) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const moov = listAtoms(bytes, view, 0, bytes.length)[0];
+  if (!moov) return null;
+
+  const udta = findAtom(bytes, view, moov, 'udta');
+  const meta = udta ? findAtom(bytes, view, udta, 'meta') : null;
+  // ISO meta is a full box; QuickTime writers omit the version and flags
+  const metaStart = meta && readLatin1(bytes, meta.start + 4, 4) !== 'hdlr' ? meta.start + 4 : meta?.start;
+  const ilst = meta && metaStart !== undefined ? findAtom(bytes, view, { ...meta, start: metaStart }, 'ilst') : null;
+
+  const tags: EmbeddedTags = ilst ? readItemList(bytes, view, ilst) : { metadata: {}, pictures: [] };
+
+  const chpl = udta ? findAtom(bytes, view, udta, 'chpl') : null;
+  const chapters = chpl ? readNeroChapters(bytes, view, chpl) : await readChapterTrack(source, bytes, view, moov);
+  if (chapters.length > 0) tags.metadata.chapters = chapters;
+
+  return ilst || chapters.length > 0 ? tags : null;
+}
+
+function readItemList(bytes: Uint8Array, view: DataView, ilst: Atom): EmbeddedTags {
+  const metadata: Partial<AudioMetadata> = {};
+  const pictures: ID3Picture[] = [];
+  const freeform: Record<string, string[]> = {};
+
+  listAtoms(bytes, view, ilst.start, ilst.end).forEach(item => {
+    const data = readDataItems(bytes, view, item);
+    const first = data[0];
+
+    if (item.type === '----') {
+      const name = findAtom(bytes, view, item, 'name');
+      const values = data.map(entry => decodeText(entry));
+      // iTunNORM and friends are encoder bookkeeping
+      if (name && values.length > 0) {
+        const key = decodeUtf8(bytes.subarray(name.start + 4, name.end));
+        if (!key.startsWith('iTun')) freeform[key] = values;
+      }
+      return;
+    }
+
+    const field = TEXT_ITEMS[item.type];
+    if (field && first) {
+      const value = data.map(entry => decodeText(entry)).filter(Boolean).join(' / ');
+      if (value) Object.assign(metadata, { [field]: value });
+      return;
+    }
+
+    switch (item.type) {
+      case '©day': {
+        const date = first ? decodeText(first) : '';
+        if (date) {
+          metadata.releaseDate = normalizeDate(date);
+          const year = parseInt(date, 10);
+          if (year > 0) metadata.year = year;
+        }
+        break;
+      }
+      case 'trkn':
+      case 'disk': {
+        if (!first || first.value.length < 6) break;
+        const number = (first.value[2] ?? 0) << 8 | (first.value[3] ?? 0);
+        const total = (first.value[4] ?? 0) << 8 | (first.value[5] ?? 0);
+        if (item.type === 'trkn') {
+          if (number) metadata.trackNumber = number;
+          if (total) metadata.trackTotal = total;
+        } else {
+          if (number) metadata.discNumber = number;
+          if (total) metadata.discTotal = total;
+        }
+        break;
+      }
+      case 'gnre': {
+        // ID3v1 genre index plus one
+        const genre = first && first.value.length >= 2 ? ID3V1_GENRES[((first.value[0] ?? 0) << 8 | (first.value[1] ?? 0)) - 1] : undefined;
+        if (genre && !metadata.genre) metadata.genre = genre;
+        break;
+      }
+      case 'covr':
+        data.forEach(entry => {
+          if (entry.value.length === 0) return;
+          pictures.push({
+            type: PICTURE_TYPE_FRONT_COVER,
+            mimeType: entry.type === DATA_TYPE_PNG ? 'image/png' : entry.type === DATA_TYPE_BMP ? 'image/bmp' : 'image/jpeg',
+            description: '',
+            data: entry.value
+          });
+        });
+        break;
+    }
+  });
+
+  return { metadata: { ...mapCommentFields(freeform), ...metadata }, pictures };
+}
+
+function readDataItems(bytes: Uint8Array, view: DataView, item: Atom): DataItem[] {
+  return listAtoms(bytes, view, item.start, item.end)
+    .filter(atom => atom.type === 'data' && atom.end - atom.start >= 8)
+    .map(atom => ({
+      type: view.getUint32(atom.start) & 0xffffff,
+      value: bytes.subarray(atom.start + 8, atom.end)
+    }));
+}
+
+/**
+ * Nero chapters: 100 ns start times with Pascal-string titles
+ */
+function readNeroChapters(bytes: Uint8Array, view: DataView, chpl: Atom): AudioChapter[] {
+  const version = bytes[chpl.start] ?? 0;
+  let offset = chpl.start + 4 + (version ? 4 : 0);
+  const count = bytes[offset] ?? 0;
+  const chapters: AudioChapter[] = [];
+  offset += 1;
+
+  for (let i = 0; i < count && offset + 9 <= chpl.end; i++) {
+    const start = (view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4)) / 10_000_000;
+    const length = bytes[offset + 8] ?? 0;
+    chapters.push({ title: decodeUtf8(bytes.subarray(offset + 9, offset + 9 + length)), start });
+    offset += 9 + length;
+  }
+
+  return withEnds(chapters);
+}
+
+/**
+ * QuickTime chapters: a text track referenced from the audio track's tref/chap, one sample per chapter
+ */
+async function readChapterTrack(source: ProbeSource, bytes: Uint8Array, view: DataView, moov: Atom): Promise<AudioChapter[]> {
+  const tracks = listAtoms(bytes, view, moov.start, moov.end, 'trak');
+  const chapterIds = new Set<number>();
+
+  tracks.forEach(trak => {
+    const tref = findAtom(bytes, view, trak, 'tref');
+    const chap = tref ? findAtom(bytes, view, tref, 'chap') : null;
+    for (let offset = chap?.start ?? 0; chap && offset + 4 <= chap.end; offset += 4) {
+      chapterIds.add(view.getUint32(offset));
+    }
+  });
+
+  const chapterTrack = tracks.find(trak => {
+    const tkhd = findAtom(bytes, view, trak, 'tkhd');
+    if (!tkhd) return false;
+    const id = view.getUint32(tkhd.start + ((bytes[tkhd.start] ?? 0) === 1 ? 20 : 12));
+    return chapterIds.has(id);
+  });
+  const mdia = chapterTrack ? findAtom(bytes, view, chapterTrack, 'mdia') : null;
+  const mdhd = mdia ? findAtom(bytes, view, mdia, 'mdhd') : null;
+  const stbl = mdia ? findPath(bytes, view, mdia, ['minf', 'stbl']) : null;
+  if (!mdhd || !stbl) return [];
+
+  const timescale = view.getUint32(mdhd.start + ((bytes[mdhd.start] ?? 0) === 1 ? 20 : 12));
+  const samples = readSampleTable(bytes, view, stbl);
+  if (!timescale || samples.length === 0) return [];
+
+  const chapters: AudioChapter[] = [];
+  for (const sample of samples.slice(0, MAX_CHAPTERS)) {
+    // Text samples: 16-bit length, then UTF-8 or BOM-prefixed UTF-16
+    const data = await source.read(sample.offset, Math.min(sample.size, 2 + 1024));
+    const length = ((data[0] ?? 0) << 8) | (data[1] ?? 0);
+    const text = data.subarray(2, 2 + length);
+    const title = text[0] === 0xfe && text[1] === 0xff ? new TextDecoder('utf-16be').decode(text.subarray(2)) : decodeUtf8(text);
+    chapters.push({ title, start: sample.time / timescale, end: (sample.time + sample.duration) / timescale });
+  }
+
+  return chapters;
+}
+
+/**
+ * Resolve sample offsets, sizes and times from stsz/stsc/stco(co64)/stts
+ */
+function readSampleTable(bytes: Uint8Array, view: DataView, stbl: Atom): Array<{ offset: number; size: number; time: number; duration: number }> {
+  const stsz = findAtom(bytes, view, stbl, 'stsz');
+  const stsc = findAtom(bytes, view, stbl, 'stsc');
+  const stts = findAtom(bytes, view, stbl, 'stts');
+  const stco = findAtom(bytes, view, stbl, 'stco');
+  const co64 = findAtom(bytes, view, stbl, 'co64');
+  if (!stsz || !stsc || !stts || (!stco && !co64)) return [];
+
+  const uniformSize = view.getUint32(stsz.start + 4);
+  const sampleCount = Math.min(view.getUint32(stsz.start + 8), MAX_CHAPTERS);
+  const sizes = Array.from({ length: sampleCount }, (_, i) => uniformSize || view.getUint32(stsz.start + 12 + i * 4));
+
+  const chunkOffsets: number[] = [];
+  if (co64) {
+    for (let i = 0; i < view.getUint32(co64.start + 4) && co64.start + 16 + i * 8 <= co64.end; i++) {
+      chunkOffsets.push(view.getUint32(co64.start + 8 + i * 8) * 0x100000000 + view.getUint32(co64.start + 12 + i * 8));
+    }
+  } else if (stco) {
+    for (let i = 0; i < view.getUint32(stco.start + 4) && stco.start + 12 + i * 4 <= stco.end; i++) {
+      chunkOffsets.push(view.getUint32(stco.start + 8 + i * 4));
+    }
+  }
+
+  const chunkRuns = Array.from({ length: view.getUint32(stsc.start + 4) }, (_, i) => ({
+    firstChunk: view.getUint32(stsc.start + 8 + i * 12),
+    samplesPerChunk: view.getUint32(stsc.start + 12 + i * 12)
+  }));
+
+  const durations: number[] = [];
+  for (let i = 0; i < view.getUint32(stts.start + 4) && durations.length < sampleCount; i++) {
+    const count = view.getUint32(stts.start + 8 + i * 8);
+    const delta = view.getUint32(stts.start + 12 + i * 8);
+    for (let j = 0; j < count && durations.length < sampleCount; j++) durations.push(delta);
+  }
+
+  const samples: Array<{ offset: number; size: number; time: number; duration: number }> = [];
+  let time = 0;
+  chunkOffsets.forEach((chunkOffset, chunkIndex) => {
+    // stsc runs are 1-based and apply until the next run's first chunk
+    const run = [...chunkRuns].reverse().find(candidate => candidate.firstChunk <= chunkIndex + 1);
+    let offset = chunkOffset;
+    for (let i = 0; i < (run?.samplesPerChunk ?? 0) && samples.length < sampleCount; i++) {
+      const size = sizes[samples.length] ?? 0;
+      const duration = durations[samples.length] ?? 0;
+      samples.push({ offset, size, time, duration });
+      offset += size;
+      time += duration;
+    }
+  });
+
+  return samples;
+}
+
+function withEnds(chapters: AudioChapter[]): AudioChapter[] {
+  return chapters.map((chapter, index) => {
+    const next = chapters[index + 1];
+    return next ? { ...chapter, end: next.start } : chapter;
+  });
+}
+
+function decodeText(item: DataItem): string {
+  if (item.type === DATA_TYPE_UTF16) return new TextDecoder('utf-16be').decode(item.value).trim();
+  return item.type === DATA_TYPE_JPEG || item.type === DATA_TYPE_PNG ? '' : decodeUtf8(item.value).trim();
+}
+
+function findPath(bytes: Uint8Array, view: DataView, parent: Atom, path: string[]): Atom | null {
+  return path.reduce<Atom | null>((atom, type) => atom ? findAtom(bytes, view, atom, type) : null, parent);
+}
+
+function findAtom(bytes: Uint8Array, view: DataView, parent: Atom, type: string): Atom | null {
+  return listAtoms(bytes, view, parent.start, parent.end, type)[0] ?? null;
+}
+
+function listAtoms(bytes: Uint8Array, view: DataView, start: number, end: number, type?: string): Atom[] {
+  const atoms: Atom[] = [];
+  let offset = start;
+
+  while (offset + 8 <= Math.min(end, bytes.length)) {
+    let size = view.getUint32(offset);
+    const atomType = readLatin1(bytes, offset + 4, 4);
+    let header = 8;
+    if (size === 1 && offset + 16 <= bytes.length) {
+      size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+
+    if (!type || atomType === type) {
+      atoms.push({ type: atomType, start: offset + header, end: Math.min(end, offset + size) });
+    }
+    offset += size;
+  }
+
+  return atoms;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes).replace(/\0+$/, '');
+}
+
+// Latin-1 so "©nam" keeps its 0xA9 byte as "©"
+function readLatin1(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
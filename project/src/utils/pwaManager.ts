@@ -1,6 +1,8 @@
 /**
  * Advanced PWA Manager for offline support and app-like experience
  */
+import { OfflineOutbox, OutboxAction } from '../services/OfflineOutbox';
+
 export class PWAManager {
   private static instance: PWAManager;
   private registration: ServiceWorkerRegistration | null = null;
@@ -100,25 +102,11 @@ export class PWAManager {
   }
 
   /**
-   * Queue action for background sync
+   * Queue action in the outbox; the service worker replays it through Background Sync
    */
-  async queueAction(action: {
-    type: string;
-    data: any;
-    timestamp: number;
-  }): Promise<void> {
-    if (!('serviceWorker' in navigator) || !('sync' in window.ServiceWorkerRegistration.prototype)) {
-      return;
-    }
-
+  async queueAction(action: OutboxAction): Promise<void> {
     try {
-      // Store action in IndexedDB
-      await this.storeQueuedAction(action);
-      
-      // Register background sync
-      if (this.registration) {
-        await this.registration.sync.register('background-sync');
-      }
+      await OfflineOutbox.getInstance().enqueue(action);
     } catch (error) {
       console.error('Failed to queue action:', error);
     }
@@ -307,13 +295,6 @@ export class PWAManager {
     }
   }
 
-  private async storeQueuedAction(action: any): Promise<void> {
-    // In a real implementation, this would use IndexedDB
-    const queuedActions = JSON.parse(localStorage.getItem('pwa_queued_actions') || '[]');
-    queuedActions.push({ ...action, id: Date.now() });
-    localStorage.setItem('pwa_queued_actions', JSON.stringify(queuedActions));
-  }
-
   private notifyUpdateAvailable(): void {
     // Dispatch custom event for UI to handle
     window.dispatchEvent(new CustomEvent('pwa-update-available'));
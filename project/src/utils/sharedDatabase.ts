@@ -66,7 +66,13 @@ class SharedDatabaseManager {
         mood: customMetadata?.mood || [],
         tempo: metadata.duration ? Math.floor(120 + Math.random() * 60) : undefined,
         key: customMetadata?.key,
-        description: customMetadata?.description
+        description: customMetadata?.description,
+        year: customMetadata?.year || metadata.year,
+        albumArtist: customMetadata?.albumArtist || metadata.albumArtist,
+        trackNumber: customMetadata?.trackNumber || metadata.trackNumber,
+        discNumber: customMetadata?.discNumber || metadata.discNumber,
+        releaseDate: customMetadata?.releaseDate || metadata.releaseDate,
+        lyrics: customMetadata?.lyrics || metadata.lyrics
       };
 
       // Save to shared database
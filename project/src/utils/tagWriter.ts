@@ -0,0 +1,740 @@
+/**
+ * Tag writer for Meow-Play
+ * Features: ID3v2.4 for MP3/AAC, Vorbis comments for FLAC and Ogg Vorbis/Opus, MP4 ilst atoms,
+ * embedded cover art, untouched frames/fields/atoms are preserved
+ */
+
+import { AudioProber } from '../audio/AudioProber';
+import type { AudioMetadata } from './audioMetadata';
+import {
+  PICTURE_TYPE_FRONT_COVER,
+  getID3v2Size,
+  parseID3v2,
+  readID3v2Frames,
+  type ID3Frame
+} from './id3Parser';
+import { parseFlacPicture, parseVorbisComment } from './vorbisCommentParser';
+
+export interface EmbeddedCover {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+/**
+ * Fields to write. Missing fields keep their current value, empty strings and zeros remove the tag
+ */
+export interface TagEdits {
+  title?: string;
+  artist?: string;
+  albumArtist?: string;
+  album?: string;
+  genre?: string;
+  date?: string; // YYYY[-MM[-DD]]
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
+  lyrics?: string;
+  comment?: string;
+  cover?: EmbeddedCover | null; // null removes embedded pictures
+}
+
+type TextEdit = 'title' | 'artist' | 'albumArtist' | 'album' | 'genre' | 'lyrics' | 'comment';
+
+const TEXT_EDITS: TextEdit[] = ['title', 'artist', 'albumArtist', 'album', 'genre', 'lyrics', 'comment'];
+
+const ID3_PADDING = 1024;
+const FLAC_PADDING = 4096;
+
+const FLAC_BLOCK_STREAMINFO = 0;
+const FLAC_BLOCK_PADDING = 1;
+const FLAC_BLOCK_VORBIS_COMMENT = 4;
+const FLAC_BLOCK_PICTURE = 6;
+const FLAC_MAX_BLOCK = 0xffffff;
+
+const ID3_TEXT_FRAMES: Record<Exclude<TextEdit, 'lyrics' | 'comment'>, string> = {
+  title: 'TIT2',
+  artist: 'TPE1',
+  albumArtist: 'TPE2',
+  album: 'TALB',
+  genre: 'TCON'
+};
+
+// Date frames replaced by TDRC, including v2.3 frames that are invalid in v2.4
+const ID3_DATE_FRAMES = ['TDRC', 'TDRL', 'TYER', 'TDAT', 'TIME', 'TRDA'];
+const ID3_OBSOLETE_FRAMES = ['TYER', 'TDAT', 'TIME', 'TRDA', 'TORY', 'TSIZ'];
+
+// Vorbis field written for each edit, with aliases removed alongside it
+const VORBIS_FIELDS: Record<TextEdit | 'date' | 'trackNumber' | 'trackTotal' | 'discNumber' | 'discTotal', string[]> = {
+  title: ['TITLE'],
+  artist: ['ARTIST'],
+  albumArtist: ['ALBUMARTIST', 'ALBUM ARTIST', 'ALBUM_ARTIST'],
+  album: ['ALBUM'],
+  genre: ['GENRE'],
+  lyrics: ['LYRICS', 'UNSYNCEDLYRICS'],
+  comment: ['COMMENT', 'DESCRIPTION'],
+  date: ['DATE', 'YEAR'],
+  trackNumber: ['TRACKNUMBER'],
+  trackTotal: ['TRACKTOTAL', 'TOTALTRACKS'],
+  discNumber: ['DISCNUMBER'],
+  discTotal: ['DISCTOTAL', 'TOTALDISCS']
+};
+
+const MP4_TEXT_ATOMS: Record<TextEdit, string> = {
+  title: '©nam',
+  artist: '©ART',
+  albumArtist: 'aART',
+  album: '©alb',
+  genre: '©gen',
+  lyrics: '©lyr',
+  comment: '©cmt'
+};
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+    }
+    table[i] = value >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Fields that differ between the extracted and the edited metadata
+ */
+export function computeTagEdits(original: AudioMetadata, edited: AudioMetadata): TagEdits {
+  const edits: TagEdits = {};
+
+  TEXT_EDITS.forEach(field => {
+    const value = edited[field]?.trim() ?? '';
+    if (value !== (original[field]?.trim() ?? '')) edits[field] = value;
+  });
+
+  if (edited.releaseDate !== original.releaseDate || edited.year !== original.year) {
+    const keepsDate = edited.releaseDate && parseInt(edited.releaseDate, 10) === edited.year;
+    edits.date = keepsDate ? edited.releaseDate ?? '' : edited.year ? String(edited.year) : '';
+  }
+
+  (['trackNumber', 'trackTotal', 'discNumber', 'discTotal'] as const).forEach(field => {
+    if ((edited[field] ?? 0) !== (original[field] ?? 0)) edits[field] = edited[field] ?? 0;
+  });
+
+  if (edited.coverArt !== original.coverArt) {
+    const cover = edited.coverArt ? dataUrlToCover(edited.coverArt) : null;
+    if (cover || !edited.coverArt) edits.cover = cover;
+  }
+
+  return edits;
+}
+
+export function hasTagEdits(edits: TagEdits): boolean {
+  return Object.keys(edits).length > 0;
+}
+
+/**
+ * Decode a base64 image data URL
+ */
+export function dataUrlToCover(dataUrl: string): EmbeddedCover | null {
+  const match = dataUrl.match(/^data:([^;,]+)(;base64)?,([\s\S]*)$/);
+  if (!match?.[2]) return null;
+
+  const binary = atob(match[3] ?? '');
+  return { mimeType: match[1] ?? 'image/jpeg', data: Uint8Array.from(binary, c => c.charCodeAt(0)) };
+}
+
+/**
+ * Write the edits into a copy of the file
+ */
+export async function writeTags(file: File, edits: TagEdits): Promise<File> {
+  if (!hasTagEdits(edits)) return file;
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return new File([writeTagBytes(bytes, edits)], file.name, { type: file.type, lastModified: Date.now() });
+}
+
+/**
+ * Write the edits into the bytes of a complete audio file; throws for containers without a supported tag format
+ */
+export function writeTagBytes(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  const container = AudioProber.probe(bytes)?.container;
+
+  switch (container) {
+    case 'mp3':
+    case 'adts':
+      return writeID3v2(bytes, edits);
+    case 'flac':
+      return writeFlac(bytes, edits);
+    case 'ogg':
+      return writeOgg(bytes, edits);
+    case 'mp4':
+      return writeMp4(bytes, edits);
+    default:
+      throw new Error(`Writing tags to ${container ? container.toUpperCase() : 'this'} file is not supported`);
+  }
+}
+
+// --- ID3v2.4 ---
+
+function writeID3v2(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  const existing = readID3v2Frames(bytes);
+  const tag = parseID3v2(bytes);
+  const audio = bytes.subarray(getID3v2Size(bytes));
+  const replaced = new Set<string>(ID3_OBSOLETE_FRAMES);
+  const added: Uint8Array[] = [];
+
+  (Object.keys(ID3_TEXT_FRAMES) as Array<keyof typeof ID3_TEXT_FRAMES>).forEach(field => {
+    const value = edits[field];
+    if (value === undefined) return;
+    replaced.add(ID3_TEXT_FRAMES[field]);
+    if (value) added.push(id3TextFrame(ID3_TEXT_FRAMES[field], value));
+  });
+
+  // TYER/TDAT are dropped for v2.4, so carry an unedited v2.3 date over as TDRC
+  const date = edits.date ?? (existing && existing.version < 4 ? tag?.releaseDate : undefined);
+  if (date !== undefined) {
+    ID3_DATE_FRAMES.forEach(id => replaced.add(id));
+    if (date) added.push(id3TextFrame('TDRC', date));
+  }
+
+  const positions: Array<['TRCK' | 'TPOS', number | undefined, number | undefined, number | undefined, number | undefined]> = [
+    ['TRCK', edits.trackNumber, edits.trackTotal, tag?.trackNumber, tag?.trackTotal],
+    ['TPOS', edits.discNumber, edits.discTotal, tag?.discNumber, tag?.discTotal]
+  ];
+  positions.forEach(([id, number, total, currentNumber, currentTotal]) => {
+    if (number === undefined && total === undefined) return;
+    replaced.add(id);
+    const value = formatPosition(number ?? currentNumber, total ?? currentTotal);
+    if (value) added.push(id3TextFrame(id, value));
+  });
+
+  if (edits.lyrics !== undefined) {
+    replaced.add('USLT');
+    if (edits.lyrics) added.push(id3Frame('USLT', bytesOf([3], latin1('eng'), [0], utf8(edits.lyrics))));
+  }
+
+  const keepFrame = (frame: ID3Frame): boolean => {
+    // v2.2 frames without a v2.4 equivalent keep their three-character IDs
+    if (frame.id.length !== 4) return false;
+    if (frame.id === 'COMM') return edits.comment === undefined || hasCommentDescription(frame.data);
+    if (frame.id === 'APIC') {
+      // v2.2 PIC payloads differ from APIC and are rewritten from the parsed pictures below
+      if (edits.cover === null || existing?.version === 2) return false;
+      return !edits.cover || frame.data[frame.data.indexOf(0, 1) + 1] !== PICTURE_TYPE_FRONT_COVER;
+    }
+    return !replaced.has(frame.id);
+  };
+
+  if (edits.comment) {
+    added.push(id3Frame('COMM', bytesOf([3], latin1('eng'), [0], utf8(edits.comment))));
+  }
+
+  if (existing?.version === 2 && edits.cover !== null) {
+    tag?.pictures
+      .filter(picture => !edits.cover || picture.type !== PICTURE_TYPE_FRONT_COVER)
+      .forEach(picture => added.push(id3PictureFrame(picture.mimeType, picture.type, picture.description, picture.data)));
+  }
+  if (edits.cover) {
+    added.push(id3PictureFrame(edits.cover.mimeType, PICTURE_TYPE_FRONT_COVER, '', edits.cover.data));
+  }
+
+  const kept = (existing?.frames ?? []).filter(keepFrame).map(frame => id3Frame(frame.id, frame.data));
+  const body = bytesOf(...kept, ...added, new Uint8Array(ID3_PADDING));
+
+  return bytesOf(latin1('ID3'), [4, 0, 0], syncsafe(body.length), body, audio);
+}
+
+function id3Frame(id: string, data: Uint8Array): Uint8Array {
+  return bytesOf(latin1(id), syncsafe(data.length), [0, 0], data);
+}
+
+function id3TextFrame(id: string, value: string): Uint8Array {
+  return id3Frame(id, bytesOf([3], utf8(value)));
+}
+
+function id3PictureFrame(mimeType: string, type: number, description: string, data: Uint8Array): Uint8Array {
+  return id3Frame('APIC', bytesOf([3], latin1(mimeType), [0, type], utf8(description), [0], data));
+}
+
+/**
+ * Whether a COMM frame has a description; the main comment has none
+ */
+function hasCommentDescription(data: Uint8Array): boolean {
+  const encoding = data[0] ?? 0;
+  if (encoding !== 1 && encoding !== 2) return (data[4] ?? 0) !== 0;
+
+  // UTF-16 descriptions may be a bare byte order mark
+  const hasBom = (data[4] === 0xff && data[5] === 0xfe) || (data[4] === 0xfe && data[5] === 0xff);
+  const first = hasBom ? 6 : 4;
+  return (data[first] ?? 0) !== 0 || (data[first + 1] ?? 0) !== 0;
+}
+
+// --- Vorbis comments ---
+
+function applyCommentEdits(fields: Record<string, string[]>, edits: TagEdits): Record<string, string[]> {
+  const result = { ...fields };
+  const set = (field: keyof typeof VORBIS_FIELDS, value: string | undefined) => {
+    if (value === undefined) return;
+    const [name, ...aliases] = VORBIS_FIELDS[field];
+    aliases.forEach(alias => delete result[alias]);
+    if (name && value) {
+      result[name] = [value];
+    } else if (name) {
+      delete result[name];
+    }
+  };
+
+  TEXT_EDITS.forEach(field => set(field, edits[field]));
+  set('date', edits.date);
+  (['trackNumber', 'trackTotal', 'discNumber', 'discTotal'] as const).forEach(field => {
+    const value = edits[field];
+    set(field, value === undefined ? undefined : value > 0 ? String(value) : '');
+  });
+
+  return result;
+}
+
+function serializeVorbisComment(vendor: string, fields: Record<string, string[]>): Uint8Array {
+  const entries = Object.entries(fields).flatMap(([name, values]) => values.map(value => utf8(`${name}=${value}`)));
+  const vendorBytes = utf8(vendor);
+  return bytesOf(
+    uint32le(vendorBytes.length), vendorBytes, uint32le(entries.length),
+    ...entries.flatMap(entry => [uint32le(entry.length), entry])
+  );
+}
+
+function flacPicture(cover: EmbeddedCover): Uint8Array {
+  const mimeType = latin1(cover.mimeType);
+  // Width, height, depth and palette size may be zero
+  return bytesOf(uint32be(PICTURE_TYPE_FRONT_COVER), uint32be(mimeType.length), mimeType, uint32be(0), new Uint8Array(16), uint32be(cover.data.length), cover.data);
+}
+
+// --- FLAC ---
+
+function writeFlac(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  const start = getID3v2Size(bytes);
+  const blocks: Array<{ type: number; data: Uint8Array }> = [];
+  let offset = start + 4;
+  let last = false;
+
+  while (!last) {
+    if (offset + 4 > bytes.length) throw new Error('Truncated FLAC metadata');
+    const header = bytes[offset] ?? 0;
+    const length = ((bytes[offset + 1] ?? 0) << 16) | ((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0);
+    last = (header & 0x80) !== 0;
+    blocks.push({ type: header & 0x7f, data: bytes.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+
+  const commentBlock = blocks.find(block => block.type === FLAC_BLOCK_VORBIS_COMMENT);
+  const comment = commentBlock ? parseVorbisComment(commentBlock.data) : null;
+  let fields = applyCommentEdits(comment?.fields ?? {}, edits);
+  if (edits.cover !== undefined) {
+    fields = withoutFields(fields, ['METADATA_BLOCK_PICTURE', 'COVERART', 'COVERARTMIME']);
+  }
+
+  const keep = blocks.filter(block => {
+    if (block.type === FLAC_BLOCK_VORBIS_COMMENT || block.type === FLAC_BLOCK_PADDING) return false;
+    if (block.type !== FLAC_BLOCK_PICTURE || edits.cover === undefined) return true;
+    return edits.cover !== null && parseFlacPicture(block.data)?.type !== PICTURE_TYPE_FRONT_COVER;
+  });
+  const streamInfo = keep.filter(block => block.type === FLAC_BLOCK_STREAMINFO);
+  const output = [
+    ...streamInfo,
+    { type: FLAC_BLOCK_VORBIS_COMMENT, data: serializeVorbisComment(comment?.vendor ?? 'Meow-Play', fields) },
+    ...keep.filter(block => block.type !== FLAC_BLOCK_STREAMINFO),
+    ...(edits.cover ? [{ type: FLAC_BLOCK_PICTURE, data: flacPicture(edits.cover) }] : []),
+    { type: FLAC_BLOCK_PADDING, data: new Uint8Array(FLAC_PADDING) }
+  ];
+
+  const encoded = output.map((block, index) => {
+    if (block.data.length > FLAC_MAX_BLOCK) throw new Error('FLAC metadata block is too large');
+    const header = (index === output.length - 1 ? 0x80 : 0) | block.type;
+    return bytesOf([header], uint32be(block.data.length).slice(1), block.data);
+  });
+
+  return bytesOf(bytes.subarray(0, start), latin1('fLaC'), ...encoded, bytes.subarray(offset));
+}
+
+// --- Ogg Vorbis / Opus ---
+
+interface OggPage {
+  headerType: number;
+  granule: Uint8Array;
+  serial: number;
+  lacing: number[];
+  body: Uint8Array;
+}
+
+function writeOgg(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  const pages = readOggPages(bytes);
+  const serial = pages[0]?.serial;
+
+  // Reassemble header packets of the first logical stream
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let headerCount = Infinity;
+  let headerEnd = -1;
+
+  for (let index = 0; index < pages.length && packets.length < headerCount; index++) {
+    const page = pages[index];
+    if (!page || page.serial !== serial) continue;
+
+    let position = 0;
+    let start = 0;
+    page.lacing.forEach(value => {
+      position += value;
+      if (value < 255) {
+        pending.push(page.body.subarray(start, position));
+        packets.push(bytesOf(...pending));
+        pending = [];
+        start = position;
+      }
+    });
+    if (start < position) pending.push(page.body.subarray(start, position));
+
+    if (packets.length >= 1 && headerCount === Infinity) {
+      const first = packets[0] ?? new Uint8Array(0);
+      if (readLatin1(first, 0, 8) === 'OpusHead') headerCount = 2;
+      else if (first[0] === 0x01 && readLatin1(first, 1, 6) === 'vorbis') headerCount = 3;
+      else throw new Error('Only Ogg Vorbis and Opus tags can be written');
+    }
+    if (packets.length >= headerCount) {
+      // Audio must start on a fresh page for the header pages to be replaceable
+      if (packets.length > headerCount || pending.length > 0) throw new Error('Unexpected Ogg header layout');
+      headerEnd = index;
+    }
+  }
+
+  const identification = packets[0];
+  const commentPacket = packets[1];
+  if (headerEnd < 0 || !identification || !commentPacket) throw new Error('Missing Ogg comment header');
+
+  const isOpus = headerCount === 2;
+  const commentStart = isOpus ? 8 : 7;
+  const comment = parseVorbisComment(commentPacket.subarray(commentStart));
+  let fields = applyCommentEdits(comment?.fields ?? {}, edits);
+  if (edits.cover !== undefined) {
+    fields = withoutFields(fields, ['COVERART', 'COVERARTMIME']);
+    const pictures = (fields['METADATA_BLOCK_PICTURE'] ?? []).filter(value =>
+      edits.cover !== null && parseFlacPicture(base64ToBytes(value))?.type !== PICTURE_TYPE_FRONT_COVER
+    );
+    if (edits.cover) pictures.push(bytesToBase64(flacPicture(edits.cover)));
+    fields = withoutFields(fields, ['METADATA_BLOCK_PICTURE']);
+    if (pictures.length > 0) fields['METADATA_BLOCK_PICTURE'] = pictures;
+  }
+
+  const serialized = serializeVorbisComment(comment?.vendor ?? 'Meow-Play', fields);
+  const newComment = isOpus
+    ? bytesOf(latin1('OpusTags'), serialized)
+    : bytesOf([0x03], latin1('vorbis'), serialized, [0x01]);
+
+  const firstPage = pages[0];
+  if (!firstPage || serial === undefined) throw new Error('Missing Ogg pages');
+
+  const output: Uint8Array[] = [encodeOggPage(firstPage, serial, 0)];
+  let sequence = 1;
+  paginate([newComment, ...packets.slice(2)]).forEach(page => {
+    output.push(encodeOggPage({ ...page, granule: new Uint8Array(8), serial }, serial, sequence++));
+  });
+
+  pages.forEach((page, index) => {
+    if (index === 0) return;
+    if (page.serial !== serial) {
+      output.push(encodeOggPage(page, page.serial, page.sequence));
+    } else if (index > headerEnd) {
+      output.push(encodeOggPage(page, serial, sequence++));
+    }
+  });
+
+  return bytesOf(...output);
+}
+
+function readOggPages(bytes: Uint8Array): Array<OggPage & { sequence: number }> {
+  const pages: Array<OggPage & { sequence: number }> = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length) {
+    if (readLatin1(bytes, offset, 4) !== 'OggS') throw new Error('Corrupt Ogg page');
+    const segments = bytes[offset + 26] ?? 0;
+    const lacing = Array.from(bytes.subarray(offset + 27, offset + 27 + segments));
+    const bodyStart = offset + 27 + segments;
+    const bodyLength = lacing.reduce((sum, value) => sum + value, 0);
+
+    pages.push({
+      headerType: bytes[offset + 5] ?? 0,
+      granule: bytes.subarray(offset + 6, offset + 14),
+      serial: view.getUint32(offset + 14, true),
+      sequence: view.getUint32(offset + 18, true),
+      lacing,
+      body: bytes.subarray(bodyStart, bodyStart + bodyLength)
+    });
+    offset = bodyStart + bodyLength;
+  }
+
+  return pages;
+}
+
+/**
+ * Lay packets out on pages of at most 255 segments; each packet ends with a segment below 255
+ */
+function paginate(packets: Uint8Array[]): Array<Omit<OggPage, 'granule' | 'serial'>> {
+  const pages: Array<Omit<OggPage, 'granule' | 'serial'>> = [];
+  let lacing: number[] = [];
+  let parts: Uint8Array[] = [];
+  let continued = false;
+
+  const flush = (nextContinues: boolean) => {
+    pages.push({ headerType: continued ? 0x01 : 0, lacing, body: bytesOf(...parts) });
+    continued = nextContinues;
+    lacing = [];
+    parts = [];
+  };
+
+  packets.forEach(packet => {
+    let offset = 0;
+    for (;;) {
+      const length = Math.min(255, packet.length - offset);
+      lacing.push(length);
+      parts.push(packet.subarray(offset, offset + length));
+      offset += length;
+      const done = length < 255;
+      if (lacing.length === 255) flush(!done);
+      if (done) break;
+    }
+  });
+  if (lacing.length > 0) flush(false);
+
+  return pages;
+}
+
+function encodeOggPage(page: OggPage, serial: number, sequence: number): Uint8Array {
+  const encoded = bytesOf(
+    latin1('OggS'), [0, page.headerType], page.granule, uint32le(serial), uint32le(sequence), uint32le(0),
+    [page.lacing.length], page.lacing, page.body
+  );
+
+  let crc = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    crc = ((crc << 8) ^ (OGG_CRC_TABLE[((crc >>> 24) ^ (encoded[i] ?? 0)) & 0xff] ?? 0)) >>> 0;
+  }
+  new DataView(encoded.buffer).setUint32(22, crc, true);
+
+  return encoded;
+}
+
+// --- MP4 ---
+
+interface Atom {
+  type: string;
+  offset: number; // start of the header
+  start: number; // start of the payload
+  end: number;
+}
+
+function writeMp4(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const topLevel = listAtoms(bytes, view, 0, bytes.length);
+  const moov = topLevel.find(atom => atom.type === 'moov');
+  if (!moov) throw new Error('Missing moov atom');
+
+  const udta = findAtom(bytes, view, moov, 'udta');
+  const meta = udta ? findAtom(bytes, view, udta, 'meta') : null;
+  const metaChildrenStart = meta ? (readLatin1(bytes, meta.start + 4, 4) === 'hdlr' ? meta.start : meta.start + 4) : 0;
+  const metaChildren = meta ? listAtoms(bytes, view, metaChildrenStart, meta.end) : [];
+  const ilst = metaChildren.find(atom => atom.type === 'ilst');
+  const items = ilst ? listAtoms(bytes, view, ilst.start, ilst.end) : [];
+
+  const replaced = new Set<string>();
+  const added: Uint8Array[] = [];
+  const dataAtom = (type: number, value: Uint8Array | number[]) => atom('data', uint32be(type), uint32be(0), value);
+
+  TEXT_EDITS.forEach(field => {
+    const value = edits[field];
+    if (value === undefined) return;
+    replaced.add(MP4_TEXT_ATOMS[field]);
+    if (field === 'genre') replaced.add('gnre');
+    if (value) added.push(atom(MP4_TEXT_ATOMS[field], dataAtom(1, utf8(value))));
+  });
+
+  if (edits.date !== undefined) {
+    replaced.add('©day');
+    if (edits.date) added.push(atom('©day', dataAtom(1, utf8(edits.date))));
+  }
+
+  const readPair = (type: string): [number, number] => {
+    const item = items.find(candidate => candidate.type === type);
+    const data = item ? findAtom(bytes, view, item, 'data') : null;
+    if (!data || data.end - data.start < 14) return [0, 0];
+    return [view.getUint16(data.start + 10), view.getUint16(data.start + 12)];
+  };
+  const pairs: Array<['trkn' | 'disk', number | undefined, number | undefined]> = [
+    ['trkn', edits.trackNumber, edits.trackTotal],
+    ['disk', edits.discNumber, edits.discTotal]
+  ];
+  pairs.forEach(([type, number, total]) => {
+    if (number === undefined && total === undefined) return;
+    const [currentNumber, currentTotal] = readPair(type);
+    const value = [number ?? currentNumber, total ?? currentTotal];
+    replaced.add(type);
+    if (value[0] || value[1]) {
+      added.push(atom(type, dataAtom(0, [0, 0, ...uint16be(value[0] ?? 0), ...uint16be(value[1] ?? 0), ...(type === 'trkn' ? [0, 0] : [])])));
+    }
+  });
+
+  if (edits.cover !== undefined) {
+    replaced.add('covr');
+    if (edits.cover) {
+      const type = edits.cover.mimeType === 'image/png' ? 14 : edits.cover.mimeType === 'image/bmp' ? 27 : 13;
+      added.push(atom('covr', dataAtom(type, edits.cover.data)));
+    }
+  }
+
+  const newIlst = atom('ilst', ...items.filter(item => !replaced.has(item.type)).map(item => bytes.subarray(item.offset, item.end)), ...added);
+  const handler = atom('hdlr', uint32be(0), uint32be(0), latin1('mdir'), latin1('appl'), new Uint8Array(9));
+  const newMeta = meta
+    ? atom('meta', bytes.subarray(meta.start, metaChildrenStart), ...metaChildren.map(child => child.type === 'ilst' ? newIlst : bytes.subarray(child.offset, child.end)), ...(ilst ? [] : [newIlst]))
+    : atom('meta', uint32be(0), handler, newIlst);
+  const udtaChildren = udta ? listAtoms(bytes, view, udta.start, udta.end) : [];
+  const newUdta = atom('udta', ...udtaChildren.map(child => child.type === 'meta' ? newMeta : bytes.subarray(child.offset, child.end)), ...(meta ? [] : [newMeta]));
+  const moovChildren = listAtoms(bytes, view, moov.start, moov.end);
+  const newMoov = atom('moov', ...moovChildren.map(child => child.type === 'udta' ? newUdta : bytes.subarray(child.offset, child.end)), ...(udta ? [] : [newUdta]));
+
+  // Media data after the moov atom moves, so chunk offsets pointing past it are shifted
+  const delta = newMoov.length - (moov.end - moov.offset);
+  if (delta !== 0) shiftChunkOffsets(newMoov, moov.end, delta);
+
+  return bytesOf(bytes.subarray(0, moov.offset), newMoov, bytes.subarray(moov.end));
+}
+
+function shiftChunkOffsets(moov: Uint8Array, oldMoovEnd: number, delta: number): void {
+  const view = new DataView(moov.buffer, moov.byteOffset, moov.byteLength);
+  const root = listAtoms(moov, view, 0, moov.length)[0];
+  if (!root) return;
+
+  listAtoms(moov, view, root.start, root.end, 'trak').forEach(trak => {
+    const stbl = ['mdia', 'minf', 'stbl'].reduce<Atom | null>((parent, type) => parent ? findAtom(moov, view, parent, type) : null, trak);
+    if (!stbl) return;
+
+    const stco = findAtom(moov, view, stbl, 'stco');
+    for (let i = 0; stco && i < view.getUint32(stco.start + 4); i++) {
+      const position = stco.start + 8 + i * 4;
+      const value = view.getUint32(position);
+      if (value < oldMoovEnd) continue;
+      if (value + delta > 0xffffffff) throw new Error('Chunk offsets overflow; the file needs co64');
+      view.setUint32(position, value + delta);
+    }
+
+    const co64 = findAtom(moov, view, stbl, 'co64');
+    for (let i = 0; co64 && i < view.getUint32(co64.start + 4); i++) {
+      const position = co64.start + 8 + i * 8;
+      const value = view.getUint32(position) * 0x100000000 + view.getUint32(position + 4);
+      if (value < oldMoovEnd) continue;
+      view.setUint32(position, Math.floor((value + delta) / 0x100000000));
+      view.setUint32(position + 4, (value + delta) >>> 0);
+    }
+  });
+}
+
+function listAtoms(bytes: Uint8Array, view: DataView, start: number, end: number, type?: string): Atom[] {
+  const atoms: Atom[] = [];
+  let offset = start;
+
+  while (offset + 8 <= Math.min(end, bytes.length)) {
+    let size = view.getUint32(offset);
+    const atomType = readLatin1(bytes, offset + 4, 4);
+    let header = 8;
+    if (size === 1 && offset + 16 <= bytes.length) {
+      size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+
+    if (!type || atomType === type) {
+      atoms.push({ type: atomType, offset, start: offset + header, end: Math.min(end, offset + size) });
+    }
+    offset += size;
+  }
+
+  return atoms;
+}
+
+function findAtom(bytes: Uint8Array, view: DataView, parent: Atom, type: string): Atom | null {
+  return listAtoms(bytes, view, parent.start, parent.end, type)[0] ?? null;
+}
+
+function atom(type: string, ...payload: Array<Uint8Array | number[]>): Uint8Array {
+  const body = bytesOf(...payload);
+  return bytesOf(uint32be(body.length + 8), latin1(type), body);
+}
+
+// --- Bytes ---
+
+function formatPosition(number: number | undefined, total: number | undefined): string {
+  if (!number) return '';
+  return total ? `${number}/${total}` : String(number);
+}
+
+function withoutFields(fields: Record<string, string[]>, names: string[]): Record<string, string[]> {
+  return Object.fromEntries(Object.entries(fields).filter(([name]) => !names.includes(name)));
+}
+
+function bytesOf(...parts: Array<Uint8Array | number[]>): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function utf8(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+// Latin-1 so atom names like "©nam" keep their 0xA9 byte
+function latin1(value: string): Uint8Array {
+  return Uint8Array.from(value, c => c.charCodeAt(0) & 0xff);
+}
+
+function readLatin1(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function syncsafe(value: number): number[] {
+  return [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+}
+
+function uint16be(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function uint32be(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function uint32le(value: number): number[] {
+  return uint32be(value).reverse();
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  try {
+    return Uint8Array.from(atob(value.replace(/\s/g, '')), c => c.charCodeAt(0));
+  } catch {
+    return new Uint8Array(0);
+  }
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,376 @@
+/**
+ * Vorbis comment reader for Meow-Play
+ * Features: FLAC METADATA_BLOCKs (STREAMINFO, VORBIS_COMMENT, PICTURE), Ogg Vorbis/Opus/FLAC comment headers,
+ * METADATA_BLOCK_PICTURE, CHAPTERxxx chapters, ReplayGain and MusicBrainz fields
+ */
+
+import type { ProbeSource } from '../audio/AudioProber';
+import type { AudioChapter, AudioMetadata, EmbeddedTags } from './audioMetadata';
+import { ID3_HEADER_SIZE, getID3v2Size, normalizeDate, type ID3Picture, type MusicBrainzIds, type ReplayGainTags } from './id3Parser';
+
+export interface VorbisComment {
+  vendor: string;
+  fields: Record<string, string[]>; // upper-case field name -> values in tag order
+}
+
+const FLAC_BLOCK_STREAMINFO = 0;
+const FLAC_BLOCK_VORBIS_COMMENT = 4;
+const FLAC_BLOCK_PICTURE = 6;
+
+const OGG_PAGE_HEADER = 27;
+const MAX_HEADER_BYTES = 16 * 1024 * 1024; // cover art can make comment packets large
+
+// Field names are compared upper-case with spaces and underscores removed, so Vorbis
+// ("MUSICBRAINZ_ALBUMID") and iTunes freeform ("MusicBrainz Album Id") names share one table
+const REPLAYGAIN_FIELDS: Record<string, keyof ReplayGainTags> = {
+  REPLAYGAINTRACKGAIN: 'trackGain',
+  REPLAYGAINTRACKPEAK: 'trackPeak',
+  REPLAYGAINALBUMGAIN: 'albumGain',
+  REPLAYGAINALBUMPEAK: 'albumPeak'
+};
+
+const MUSICBRAINZ_FIELDS: Record<string, keyof MusicBrainzIds> = {
+  MUSICBRAINZTRACKID: 'recordingId',
+  MUSICBRAINZRELEASETRACKID: 'trackId',
+  MUSICBRAINZALBUMID: 'albumId',
+  MUSICBRAINZARTISTID: 'artistId',
+  MUSICBRAINZALBUMARTISTID: 'albumArtistId',
+  MUSICBRAINZRELEASEGROUPID: 'releaseGroupId'
+};
+
+/**
+ * Parse a Vorbis comment block (little endian lengths, UTF-8 "NAME=value" entries)
+ */
+export function parseVorbisComment(bytes: Uint8Array): VorbisComment | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('utf-8');
+  if (bytes.length < 8) return null;
+
+  const vendorLength = view.getUint32(0, true);
+  let offset = 4 + vendorLength;
+  if (offset + 4 > bytes.length) return null;
+
+  const vendor = decoder.decode(bytes.subarray(4, offset));
+  const count = view.getUint32(offset, true);
+  const fields: Record<string, string[]> = {};
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = view.getUint32(offset, true);
+    const entry = decoder.decode(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const name = entry.slice(0, separator).toUpperCase();
+    (fields[name] ??= []).push(entry.slice(separator + 1));
+  }
+
+  return { vendor, fields };
+}
+
+/**
+ * Parse a FLAC PICTURE block, also found base64 encoded in METADATA_BLOCK_PICTURE
+ */
+export function parseFlacPicture(bytes: Uint8Array): ID3Picture | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('utf-8');
+  let offset = 0;
+
+  const readField = (): Uint8Array | null => {
+    if (offset + 4 > bytes.length) return null;
+    const length = view.getUint32(offset);
+    const field = bytes.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+    return field.length === length ? field : null;
+  };
+
+  if (bytes.length < 32) return null;
+  const type = view.getUint32(0);
+  offset = 4;
+  const mimeType = readField();
+  const description = readField();
+  // Width, height, colour depth and palette size are not needed
+  offset += 16;
+  const data = readField();
+  if (!mimeType || !description || !data?.length) return null;
+
+  return {
+    type,
+    mimeType: decoder.decode(mimeType).toLowerCase().replace('image/jpg', 'image/jpeg') || 'image/jpeg',
+    description: decoder.decode(description),
+    data
+  };
+}
+
+/**
+ * Map comment fields onto metadata; shared with MP4 freeform ("----") atoms
+ */
+export function mapCommentFields(fields: Record<string, string[]>): Partial<AudioMetadata> {
+  const normalized: Record<string, string[]> = {};
+  Object.entries(fields).forEach(([name, values]) => {
+    const key = name.toUpperCase().replace(/[\s_]/g, '');
+    normalized[key] = [...(normalized[key] ?? []), ...values.map(value => value.trim()).filter(Boolean)];
+  });
+
+  const first = (...names: string[]) => names.map(name => normalized[name]?.[0]).find(Boolean);
+  const all = (name: string) => normalized[name]?.length ? normalized[name].join(' / ') : undefined;
+  const metadata: Partial<AudioMetadata> = {};
+
+  const text: Array<[keyof AudioMetadata, string | undefined]> = [
+    ['title', first('TITLE')],
+    ['artist', all('ARTIST')],
+    ['albumArtist', first('ALBUMARTIST')],
+    ['album', first('ALBUM')],
+    ['composer', all('COMPOSER')],
+    ['genre', all('GENRE')],
+    ['lyrics', first('LYRICS', 'UNSYNCEDLYRICS')],
+    ['comment', first('COMMENT', 'DESCRIPTION')]
+  ];
+  text.forEach(([field, value]) => {
+    if (value) Object.assign(metadata, { [field]: value });
+  });
+
+  const date = first('DATE', 'YEAR', 'ORIGINALDATE');
+  if (date) {
+    metadata.releaseDate = normalizeDate(date);
+    const year = parseInt(date, 10);
+    if (year > 0) metadata.year = year;
+  }
+
+  const [trackNumber, trackTotal] = readPosition(first('TRACKNUMBER'), first('TRACKTOTAL', 'TOTALTRACKS'));
+  if (trackNumber) metadata.trackNumber = trackNumber;
+  if (trackTotal) metadata.trackTotal = trackTotal;
+  const [discNumber, discTotal] = readPosition(first('DISCNUMBER'), first('DISCTOTAL', 'TOTALDISCS'));
+  if (discNumber) metadata.discNumber = discNumber;
+  if (discTotal) metadata.discTotal = discTotal;
+
+  // FMPS_RATING is 0-1; plain RATING has no agreed scale and is ignored
+  const rating = parseFloat(first('FMPSRATING') ?? '');
+  if (rating > 0) metadata.rating = Math.min(5, Math.max(1, Math.round(rating * 5)));
+
+  Object.entries(REPLAYGAIN_FIELDS).forEach(([name, field]) => {
+    const value = parseFloat(first(name) ?? '');
+    if (!isNaN(value)) metadata.replayGain = { ...metadata.replayGain, [field]: value };
+  });
+
+  Object.entries(MUSICBRAINZ_FIELDS).forEach(([name, field]) => {
+    const value = first(name);
+    if (value) metadata.musicBrainz = { ...metadata.musicBrainz, [field]: value };
+  });
+
+  const chapters = readChapters(normalized);
+  if (chapters.length > 0) metadata.chapters = chapters;
+
+  return metadata;
+}
+
+/**
+ * Read metadata blocks from a FLAC stream, skipping a leading ID3v2 tag
+ */
+export async function readFlacMetadata(source: ProbeSource): Promise<EmbeddedTags | null> {
+  const start = getID3v2Size(await source.read(0, ID3_HEADER_SIZE));
+  const magic = await source.read(start, 4);
+  if (readAscii(magic, 0, 4) !== 'fLaC') return null;
+
+  const blocks: Array<{ type: number; data: Uint8Array }> = [];
+  let offset = start + 4;
+  let last = false;
+
+  while (!last && offset - start < MAX_HEADER_BYTES) {
+    const header = await source.read(offset, 4);
+    if (header.length < 4) break;
+    const type = (header[0] ?? 0) & 0x7f;
+    const length = ((header[1] ?? 0) << 16) | ((header[2] ?? 0) << 8) | (header[3] ?? 0);
+    last = ((header[0] ?? 0) & 0x80) !== 0;
+
+    // Seek tables, padding and application blocks are never read
+    if (type === FLAC_BLOCK_STREAMINFO || type === FLAC_BLOCK_VORBIS_COMMENT || type === FLAC_BLOCK_PICTURE) {
+      blocks.push({ type, data: await source.read(offset + 4, length) });
+    }
+    offset += 4 + length;
+  }
+
+  return readFlacBlocks(blocks);
+}
+
+/**
+ * Read the comment header (and Ogg FLAC blocks) from the first logical stream of an Ogg file
+ */
+export async function readOggMetadata(source: ProbeSource): Promise<EmbeddedTags | null> {
+  const packets = await readOggHeaderPackets(source, 3);
+  const first = packets[0];
+  if (!first) return null;
+
+  const identification = readAscii(first, 0, 8);
+  const second = packets[1];
+
+  if (identification === 'OpusHead') {
+    return second && readAscii(second, 0, 8) === 'OpusTags' ? fromComment(second.subarray(8)) : null;
+  }
+
+  if (first[0] === 0x01 && readAscii(first, 1, 6) === 'vorbis') {
+    return second && second[0] === 0x03 && readAscii(second, 1, 6) === 'vorbis' ? fromComment(second.subarray(7)) : null;
+  }
+
+  // Ogg FLAC: 0x7F "FLAC", version, header count, "fLaC", STREAMINFO; later packets are metadata blocks
+  if (first[0] === 0x7f && readAscii(first, 1, 4) === 'FLAC') {
+    const blocks = [first.subarray(13), ...packets.slice(1)].map(block => ({ type: (block[0] ?? 0) & 0x7f, data: block.subarray(4) }));
+    return readFlacBlocks(blocks);
+  }
+
+  return null;
+}
+
+function readFlacBlocks(blocks: Array<{ type: number; data: Uint8Array }>): EmbeddedTags | null {
+  let metadata: Partial<AudioMetadata> = {};
+  const pictures: ID3Picture[] = [];
+  let found = false;
+
+  blocks.forEach(({ type, data }) => {
+    if (type === FLAC_BLOCK_STREAMINFO && data.length >= 18) {
+      Object.assign(metadata, readStreamInfo(data));
+      found = true;
+    } else if (type === FLAC_BLOCK_VORBIS_COMMENT) {
+      const tags = fromComment(data);
+      if (tags) {
+        metadata = { ...metadata, ...tags.metadata };
+        pictures.push(...tags.pictures);
+        found = true;
+      }
+    } else if (type === FLAC_BLOCK_PICTURE) {
+      const picture = parseFlacPicture(data);
+      if (picture) pictures.push(picture);
+    }
+  });
+
+  return found || pictures.length > 0 ? { metadata, pictures } : null;
+}
+
+function fromComment(bytes: Uint8Array): EmbeddedTags | null {
+  const comment = parseVorbisComment(bytes);
+  if (!comment) return null;
+
+  const pictures = (comment.fields['METADATA_BLOCK_PICTURE'] ?? [])
+    .map(value => parseFlacPicture(decodeBase64(value)))
+    .filter((picture): picture is ID3Picture => picture !== null);
+
+  // Legacy COVERART fields carry the bare image
+  (comment.fields['COVERART'] ?? []).forEach(value => {
+    const data = decodeBase64(value);
+    if (data.length > 0) {
+      const mimeType = comment.fields['COVERARTMIME']?.[0] ?? 'image/jpeg';
+      pictures.push({ type: 3, mimeType, description: '', data });
+    }
+  });
+
+  return { metadata: mapCommentFields(comment.fields), pictures };
+}
+
+function readStreamInfo(data: Uint8Array): Partial<AudioMetadata> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const packed = view.getUint32(10);
+  const sampleRate = packed >>> 12;
+  const channels = ((packed >> 9) & 0x7) + 1;
+  const bitDepth = ((packed >> 4) & 0x1f) + 1;
+  const totalSamples = (packed & 0xf) * 0x100000000 + view.getUint32(14);
+
+  return {
+    sampleRate,
+    channels,
+    bitDepth,
+    ...(sampleRate > 0 && totalSamples > 0 ? { duration: totalSamples / sampleRate } : {})
+  };
+}
+
+/**
+ * Reassemble the first packets of the first logical stream across Ogg pages
+ */
+async function readOggHeaderPackets(source: ProbeSource, count: number): Promise<Uint8Array[]> {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let serial: number | null = null;
+  let offset = 0;
+
+  while (packets.length < count && offset < MAX_HEADER_BYTES) {
+    const header = await source.read(offset, OGG_PAGE_HEADER + 255);
+    if (header.length < OGG_PAGE_HEADER || readAscii(header, 0, 4) !== 'OggS') break;
+
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    const segments = header[26] ?? 0;
+    const lacing = header.subarray(OGG_PAGE_HEADER, OGG_PAGE_HEADER + segments);
+    const bodyLength = lacing.reduce((sum, value) => sum + value, 0);
+    const pageSerial = view.getUint32(14, true);
+    const bodyStart = offset + OGG_PAGE_HEADER + segments;
+    offset = bodyStart + bodyLength;
+
+    // Pages of other multiplexed streams are skipped
+    serial ??= pageSerial;
+    if (pageSerial !== serial) continue;
+
+    const body = await source.read(bodyStart, bodyLength);
+    let position = 0;
+    let segmentStart = 0;
+    for (let i = 0; i < lacing.length && packets.length < count; i++) {
+      position += lacing[i] ?? 0;
+      if ((lacing[i] ?? 0) < 255) {
+        pending.push(body.subarray(segmentStart, position));
+        packets.push(concat(pending));
+        pending = [];
+        segmentStart = position;
+      }
+    }
+    if (segmentStart < position) pending.push(body.subarray(segmentStart, position));
+  }
+
+  return packets;
+}
+
+/**
+ * Vorbis chapter extension: CHAPTER001=00:01:02.500, CHAPTER001NAME=Intro
+ */
+function readChapters(fields: Record<string, string[]>): AudioChapter[] {
+  const chapters: AudioChapter[] = [];
+
+  Object.entries(fields).forEach(([name, values]) => {
+    const match = name.match(/^CHAPTER(\d+)$/);
+    const time = values[0]?.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+    if (!match || !time) return;
+
+    chapters.push({
+      title: fields[`${name}NAME`]?.[0] ?? `Chapter ${Number(match[1])}`,
+      start: Number(time[1]) * 3600 + Number(time[2]) * 60 + Number(time[3])
+    });
+  });
+
+  return chapters.sort((a, b) => a.start - b.start);
+}
+
+function readPosition(value: string | undefined, total: string | undefined): [number | undefined, number | undefined] {
+  const [number, inlineTotal] = (value ?? '').split('/').map(part => parseInt(part, 10));
+  const resolvedTotal = parseInt(total ?? '', 10) || inlineTotal;
+  return [number && number > 0 ? number : undefined, resolvedTotal && resolvedTotal > 0 ? resolvedTotal : undefined];
+}
+
+function decodeBase64(value: string): Uint8Array {
+  try {
+    return Uint8Array.from(atob(value.replace(/\s/g, '')), c => c.charCodeAt(0));
+  } catch {
+    return new Uint8Array(0);
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1 && parts[0]) return parts[0];
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}